@@ -58,6 +58,74 @@ export interface Config {
        * @visibility backend
        */
       checkSSL?: boolean;
+      /**
+       * Additional AAP instances, by key. The baseUrl and token above are the
+       * default instance, used when no instance key is given.
+       * @visibility backend
+       */
+      instances?: {
+        [key: string]: {
+          /**
+           * The base URL of the instance
+           * @visibility backend
+           */
+          baseUrl: string;
+          /**
+           * Authentication token for the instance
+           * @visibility backend
+           */
+          token?: string;
+          /**
+           * Whether to check SSL certificates of the instance
+           * @visibility backend
+           */
+          checkSSL?: boolean;
+        };
+      };
+      /**
+       * Limits, retries and circuit breaker of the requests sent to each AAP
+       * instance.
+       * @visibility backend
+       */
+      requests?: {
+        /**
+         * Maximum number of requests in flight at once, defaults to 10
+         * @visibility backend
+         */
+        maxConcurrency?: number;
+        /**
+         * Number of retries of a failed request, defaults to 3
+         * @visibility backend
+         */
+        maxRetries?: number;
+        /**
+         * Delay before the first retry, doubled on each retry, defaults to 500
+         * @visibility backend
+         */
+        retryBaseDelayMs?: number;
+        /**
+         * Maximum delay between retries, including the ones asked by a
+         * Retry-After header, defaults to 30000
+         * @visibility backend
+         */
+        retryMaxDelayMs?: number;
+        /**
+         * @visibility backend
+         */
+        circuitBreaker?: {
+          /**
+           * Number of failed requests in a row after which AAP is reported
+           * unavailable, defaults to 5
+           * @visibility backend
+           */
+          failureThreshold?: number;
+          /**
+           * Time after which a request is sent again to AAP, defaults to 30000
+           * @visibility backend
+           */
+          resetTimeoutMs?: number;
+        };
+      };
       /**
        * Configuration for showcase location
        * @visibility backend
@@ -90,6 +158,21 @@ export interface Config {
         gitEmail?: string;
       };
     };
+    /**
+     * Audit trail of the calls changing objects in AAP. Each plugin stores the
+     * events of its own calls: GET /api/catalog/aap/audit returns those of the
+     * catalog module, GET /api/scaffolder/aap/audit those of the software
+     * templates.
+     * @visibility backend
+     */
+    audit?: {
+      /**
+       * Where the audit events are written, by default the logger and the database
+       * of the plugin making the calls
+       * @visibility backend
+       */
+      sinks?: Array<'logger' | 'database'>;
+    };
     /**
      * Configuration for the creator service
      * @visibility backend
@@ -0,0 +1,43 @@
+/*
+ * Copyright 2025 The Ansible plugin Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('rhaap_aap_audit', table => {
+    table.comment('Calls that create, update or delete objects in AAP');
+    table.string('id').primary();
+    table.string('timestamp').notNullable().index();
+    table.string('user_entity_ref').nullable().index();
+    table.string('task_id').nullable().index();
+    table.string('method').notNullable();
+    table.text('endpoint').notNullable();
+    table.integer('resource_id').nullable();
+    table.string('token_type').notNullable();
+    table.string('outcome').notNullable();
+    table.text('error').nullable();
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('rhaap_aap_audit');
+};
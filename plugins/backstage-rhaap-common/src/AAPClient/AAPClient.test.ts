@@ -1,9 +1,13 @@
-import { Config } from '@backstage/config';
+import { Config, ConfigReader } from '@backstage/config';
 import { LoggerService } from '@backstage/backend-plugin-api';
-import { AAPClient } from './AAPClient';
+import { AAPClient, AAPJobFailedError } from './AAPClient';
 import { fetch } from 'undici';
 import { AnsibleConfig } from '../types';
-import { mockJobTemplateResponse, mockSurveyResponse } from './mockData';
+import {
+  mockJobTemplateResponse,
+  mockSurveyResponse,
+  mockWorkflowJobTemplateResponse,
+} from './mockData';
 
 jest.mock('undici', () => ({
   Agent: jest.fn(),
@@ -94,6 +98,7 @@ describe('AAPClient', () => {
               throw new Error(`No value for ${path}`);
             }),
             getOptionalBoolean: jest.fn().mockReturnValue(false),
+            getOptionalString: jest.fn(),
             getOptionalStringArray: jest.fn().mockReturnValue([]),
           };
         }
@@ -302,6 +307,7 @@ describe('AAPClient', () => {
               throw new Error(`No value for ${path}`);
             }),
             getOptionalBoolean: jest.fn().mockReturnValue(false),
+            getOptionalString: jest.fn(),
             getOptionalStringArray: jest.fn().mockReturnValue([]),
           };
         }
@@ -473,11 +479,13 @@ describe('AAPClient', () => {
       });
 
       it('should handle network errors', async () => {
+        jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
         mockFetch.mockRejectedValue(new Error('Network error'));
 
         await expect(
           client.executeGetRequest('test/endpoint', 'test-token'),
         ).rejects.toThrow('Failed to send fetch data: Network error');
+        expect(mockFetch).toHaveBeenCalledTimes(4);
       });
     });
 
@@ -507,13 +515,417 @@ describe('AAPClient', () => {
       });
 
       it('should handle network errors', async () => {
+        jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
         mockFetch.mockRejectedValue(new Error('Network error'));
 
         await expect(
           client.executeDeleteRequest('test/endpoint', 'test-token'),
         ).rejects.toThrow('Failed to send delete: Network error');
+        expect(mockFetch).toHaveBeenCalledTimes(4);
       });
     });
+
+    describe('executePatchRequest', () => {
+      it('should successfully execute a PATCH request', async () => {
+        const mockResponse = {
+          ok: true,
+        };
+        mockFetch.mockResolvedValue(mockResponse);
+
+        const result = await client.executePatchRequest(
+          'test/endpoint',
+          'test-token',
+          { name: 'test' },
+        );
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/test/endpoint',
+          expect.objectContaining({
+            method: 'PATCH',
+            body: JSON.stringify({ name: 'test' }),
+          }),
+        );
+        expect(result).toBe(mockResponse);
+      });
+
+      it('should handle request errors', async () => {
+        mockFetch.mockResolvedValue({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+        });
+
+        await expect(
+          client.executePatchRequest('test/endpoint', 'test-token', {}),
+        ).rejects.toThrow('Failed to update data');
+      });
+    });
+  });
+
+  describe('Audit trail', () => {
+    let audit: { record: jest.Mock; query: jest.Mock };
+
+    beforeEach(() => {
+      audit = { record: jest.fn(), query: jest.fn() };
+      client = new AAPClient({
+        rootConfig: mockConfig,
+        logger: mockLogger,
+        audit,
+      });
+    });
+
+    it('should record a POST with the id of the object it created', async () => {
+      const body = { id: 7, name: 'Project' };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        clone: () => ({ json: jest.fn().mockResolvedValue(body) }),
+        json: jest.fn().mockResolvedValue(body),
+      });
+
+      await client.executePostRequest(
+        'api/controller/v2/projects/',
+        'user-token',
+        { name: 'Project' },
+      );
+
+      expect(audit.record).toHaveBeenCalledWith({
+        method: 'POST',
+        endpoint: '/api/controller/v2/projects/',
+        resourceId: 7,
+        tokenType: 'user',
+        outcome: 'success',
+        error: null,
+      });
+    });
+
+    it('should record the id in the endpoint and the configured token', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: jest.fn() });
+
+      await client.executePostRequest(
+        'api/controller/v2/jobs/42/cancel/',
+        'test-token',
+      );
+
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: '/api/controller/v2/jobs/42/cancel/',
+          resourceId: 42,
+          tokenType: 'service',
+        }),
+      );
+    });
+
+    it('should record failed PATCH and DELETE requests', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+      });
+
+      await expect(
+        client.executePatchRequest(
+          'api/controller/v2/projects/3/',
+          'user-token',
+          { name: 'Renamed' },
+        ),
+      ).rejects.toThrow('Insufficient privileges');
+      await expect(
+        client.executeDeleteRequest(
+          'api/controller/v2/schedules/9/',
+          'user-token',
+        ),
+      ).rejects.toThrow('Insufficient privileges');
+
+      expect(audit.record).toHaveBeenNthCalledWith(1, {
+        method: 'PATCH',
+        endpoint: '/api/controller/v2/projects/3/',
+        resourceId: 3,
+        tokenType: 'user',
+        outcome: 'failure',
+        error: 'Insufficient privileges. Please contact your administrator.',
+      });
+      expect(audit.record).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          method: 'DELETE',
+          resourceId: 9,
+          outcome: 'failure',
+        }),
+      );
+    });
+
+    it('should not record GET requests nor token requests', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: jest.fn() });
+
+      await client.executeGetRequest('api/controller/v2/jobs/1/', 'token');
+      await client.executePostRequest(
+        'o/token/',
+        undefined,
+        'grant_type=password',
+        true,
+      );
+
+      expect(audit.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pagination', () => {
+    const page = (results: unknown[], next: string | null) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ count: 3, next, results }),
+    });
+
+    it('should iterate over the pages of a list endpoint', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          page([{ id: 1 }, { id: 2 }], '/api/gateway/v1/users/?page=2'),
+        )
+        .mockResolvedValueOnce(page([{ id: 3 }], null));
+
+      const pages = [];
+      for await (const items of client.iteratePages('api/gateway/v1/users/', {
+        pageSize: 2,
+      })) {
+        pages.push(items.map(item => item.id));
+      }
+
+      expect(pages).toEqual([[1, 2], [3]]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://test.example.com/api/gateway/v1/users/?page_size=2',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer test-token',
+          }),
+        }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://test.example.com/api/gateway/v1/users/?page=2',
+        expect.any(Object),
+      );
+    });
+
+    it('should only fetch the pages that are consumed', async () => {
+      mockFetch.mockResolvedValue(
+        page([{ id: 1 }, { id: 2 }], '/api/controller/v2/hosts/?page=2'),
+      );
+
+      const ids = [];
+      for await (const item of client.iterateItems('api/controller/v2/hosts/', {
+        token: 'user-token',
+      })) {
+        ids.push(item.id);
+        if (ids.length === 3) {
+          break;
+        }
+      }
+
+      expect(ids).toEqual([1, 2, 1]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer user-token',
+          }),
+        }),
+      );
+    });
+
+    it('should stop iterating once aborted', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValue(page([{ id: 1 }], '/api/next/'));
+
+      const iterate = async () => {
+        for await (const _items of client.iteratePages('api/list/', {
+          signal: controller.signal,
+        })) {
+          controller.abort();
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow(
+        'Pagination of api/list/ aborted after 1 items',
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Request pipeline', () => {
+    const unavailable = (headers: Record<string, string> = {}) => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: jest.fn().mockResolvedValue({}),
+    });
+
+    beforeEach(() => {
+      jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
+    });
+
+    it('should retry GET requests while AAP is unavailable', async () => {
+      const mockResponse = { ok: true, status: 200 };
+      mockFetch
+        .mockResolvedValueOnce(unavailable({ 'retry-after': '5' }))
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(mockResponse);
+
+      const result = await client.executeGetRequest('test/endpoint', 'token');
+
+      expect(result).toBe(mockResponse);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect((client as any).sleep.mock.calls).toEqual([[5000], [1000]]);
+    });
+
+    it('should report AAP unavailable once the retries are exhausted', async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(
+        client.executeGetRequest('test/endpoint', 'token'),
+      ).rejects.toThrow(
+        'AAP unavailable: GET https://test.example.com/test/endpoint responded with 503 Service Unavailable',
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry POST requests on 503', async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(
+        client.executePostRequest('test/endpoint', 'token', {}),
+      ).rejects.toThrow('AAP unavailable: POST');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop sending requests while the circuit is open', async () => {
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(
+        client.executeGetRequest('test/endpoint', 'token'),
+      ).rejects.toThrow('responded with 503');
+      await expect(
+        client.executeDeleteRequest('test/endpoint', 'token'),
+      ).rejects.toThrow('AAP unavailable: 5 requests in a row failed');
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+    });
+
+    it('should read the limits from ansible.rhaap.requests', async () => {
+      const limitedClient = new AAPClient({
+        rootConfig: new ConfigReader({
+          ansible: {
+            rhaap: {
+              baseUrl: 'https://aap.example.com',
+              requests: {
+                maxRetries: 1,
+                circuitBreaker: { failureThreshold: 10 },
+              },
+            },
+          },
+        }),
+        logger: mockLogger,
+      });
+      jest.spyOn(limitedClient as any, 'sleep').mockResolvedValue(undefined);
+      mockFetch.mockResolvedValue(unavailable());
+
+      await expect(
+        limitedClient.executeGetRequest('test/endpoint', 'token'),
+      ).rejects.toThrow('responded with 503');
+      await expect(
+        limitedClient.executeGetRequest('test/endpoint', 'token'),
+      ).rejects.toThrow('responded with 503');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('AAP instances', () => {
+    const instancesConfig = new ConfigReader({
+      ansible: {
+        rhaap: {
+          baseUrl: 'https://aap.example.com',
+          token: 'default-token',
+          instances: {
+            nonprod: {
+              baseUrl: 'https://aap-nonprod.example.com/',
+              token: 'nonprod-token',
+              checkSSL: false,
+            },
+          },
+        },
+      },
+      catalog: {
+        providers: {
+          rhaap: {
+            prod: { orgs: 'ProdOrg' },
+            nonprod: { orgs: 'TestOrg', instance: 'nonprod' },
+          },
+        },
+      },
+    });
+
+    it('should send the requests of an instance to its base URL', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ results: [] }),
+      });
+      const defaultClient = new AAPClient({
+        rootConfig: instancesConfig,
+        logger: mockLogger,
+      });
+
+      const nonprod = defaultClient.forInstance('nonprod');
+      await nonprod.executeGetRequest('api/controller/v2/jobs/1/', 'token');
+      await defaultClient.executeGetRequest(
+        'api/controller/v2/jobs/1/',
+        'token',
+      );
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://aap-nonprod.example.com/api/controller/v2/jobs/1/',
+        expect.any(Object),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://aap.example.com/api/controller/v2/jobs/1/',
+        expect.any(Object),
+      );
+      expect(defaultClient.forInstance('nonprod')).toBe(nonprod);
+    });
+
+    it('should use the organizations of the environments of the instance', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ results: [] }),
+      });
+      const nonprod = new AAPClient({
+        rootConfig: instancesConfig,
+        logger: mockLogger,
+      }).forInstance('nonprod');
+
+      await nonprod.getResourceData('job_templates', 'token');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('&organization__name__iexact=testorg'),
+        expect.any(Object),
+      );
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('prodorg'),
+        expect.any(Object),
+      );
+    });
+
+    it('should reject an instance missing from the config', () => {
+      const defaultClient = new AAPClient({
+        rootConfig: instancesConfig,
+        logger: mockLogger,
+      });
+
+      expect(() => defaultClient.forInstance('staging')).toThrow(
+        "Unknown AAP instance 'staging', it is not configured in ansible.rhaap.instances",
+      );
+    });
   });
 
   describe('Project Operations', () => {
@@ -663,6 +1075,117 @@ describe('AAPClient', () => {
         ).rejects.toThrow('Failed to create project');
       });
     });
+
+    describe('ensureProject', () => {
+      const projectPayload = {
+        projectName: 'test-project',
+        organization: { id: 1, name: 'test-org' },
+        scmUrl: 'https://github.com/test/repo',
+        scmBranch: 'main',
+        scmUpdateOnLaunch: true,
+      };
+      const existingProject = {
+        id: 1,
+        name: 'test-project',
+        description: '',
+        organization: 1,
+        scm_type: 'git',
+        scm_url: 'https://github.com/test/repo',
+        scm_branch: 'main',
+        credential: null,
+        scm_update_on_launch: true,
+        status: 'successful',
+      };
+
+      it('should create the project when it does not exist', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue(existingProject),
+          });
+
+        const result = await client.ensureProject(projectPayload, 'test-token');
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/projects/?organization=1&name=test-project',
+          expect.any(Object),
+        );
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/projects/',
+          expect.objectContaining({ method: 'POST' }),
+        );
+        expect(result.operation).toBe('created');
+        expect(result.data.url).toBe(
+          'https://test.example.com/execution/projects/1/details',
+        );
+      });
+
+      it('should not change a project that is up to date', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ results: [existingProject] }),
+        });
+
+        const result = await client.ensureProject(projectPayload, 'test-token');
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(result.operation).toBe('unchanged');
+        expect(result.data.id).toBe(1);
+      });
+
+      it('should patch only the changed fields', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [existingProject] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest
+              .fn()
+              .mockResolvedValue({ ...existingProject, scm_branch: 'devel' }),
+          });
+
+        const result = await client.ensureProject(
+          { ...projectPayload, scmBranch: 'devel' },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/projects/1/',
+          expect.objectContaining({
+            method: 'PATCH',
+            body: JSON.stringify({ scm_branch: 'devel' }),
+          }),
+        );
+        expect(result.operation).toBe('updated');
+      });
+
+      it('should encode the project name in the lookup', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ ...existingProject, name: 'Web & DB #1' }],
+          }),
+        });
+
+        const result = await client.ensureProject(
+          { ...projectPayload, projectName: 'Web & DB #1' },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/projects/?organization=1&name=Web+%26+DB+%231',
+          expect.any(Object),
+        );
+        expect(result.operation).toBe('unchanged');
+      });
+    });
   });
 
   describe('Job Template Operations', () => {
@@ -751,258 +1274,527 @@ describe('AAPClient', () => {
       });
     });
 
-    describe('launchJobTemplate', () => {
-      beforeEach(() => {
-        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
-          cb();
-          return {} as any;
-        });
-      });
-
-      it('should launch a job template and handle success', async () => {
-        const mockTemplateResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 456, name: 'test-template' }],
-          }),
-        };
-        const mockLaunchResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ job: 123 }),
-        };
-        const mockStatusResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ status: 'successful' }),
-        };
-        const mockEventsResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ event_data: { test: 'data' } }],
-            next: null,
-          }),
-        };
-        const mockStdoutResponse = {
-          ok: true,
-          text: jest
-            .fn()
-            .mockResolvedValue('{"msg": "Task completed successfully"}'),
-        };
-
+    describe('ensureJobTemplate', () => {
+      const templatePayload = {
+        templateName: 'test-template',
+        organization: { id: 1, name: 'test-org' },
+        jobInventory: { id: 1, name: 'test-inventory' },
+        project: {
+          id: 1,
+          projectName: 'test-project',
+          organization: { id: 1, name: 'test-org' },
+          scmUrl: 'https://github.com/test/repo',
+        },
+        playbook: 'test.yml',
+      };
+      const existingTemplate = {
+        id: 4,
+        name: 'test-template',
+        description: '',
+        job_type: 'run',
+        inventory: 1,
+        project: 1,
+        playbook: 'test.yml',
+        execution_environment: null,
+        extra_vars: '',
+      };
+
+      it('should patch the changed fields of the job template', async () => {
         mockFetch
-          .mockResolvedValueOnce(mockTemplateResponse)
-          .mockResolvedValueOnce(mockLaunchResponse)
-          .mockResolvedValueOnce(mockStatusResponse)
-          .mockResolvedValueOnce(mockEventsResponse)
-          .mockResolvedValueOnce(mockStdoutResponse);
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [existingTemplate] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest
+              .fn()
+              .mockResolvedValue({ ...existingTemplate, playbook: 'site.yml' }),
+          });
 
-        const result = await client.launchJobTemplate(
-          {
-            template: 'test-template',
-            inventory: { id: 1, name: 'test-inventory' },
-            credentials: [
-              {
-                id: 1,
-                type: 'scm',
-                name: 'Test Credential',
-                credential_type: 1,
-                summary_fields: {
-                  credential_type: { id: 1, name: 'scm' },
-                },
-              },
-            ],
-          },
+        const result = await client.ensureJobTemplate(
+          { ...templatePayload, playbook: 'site.yml' },
           'test-token',
         );
 
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/job_templates/?organization=1&name=test-template',
+          expect.any(Object),
+        );
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/job_templates/4/',
+          expect.objectContaining({
+            method: 'PATCH',
+            body: JSON.stringify({ playbook: 'site.yml' }),
+          }),
+        );
         expect(result).toEqual({
-          id: 123,
-          status: 'successful',
-          events: [{ event_data: { test: 'data' } }],
-          url: 'https://test.example.com/execution/jobs/playbook/123/output',
+          operation: 'updated',
+          data: {
+            ...existingTemplate,
+            playbook: 'site.yml',
+            url: 'https://test.example.com/execution/templates/job-template/4/details',
+          },
         });
       });
 
-      it('should handle duplicate credential types', async () => {
-        await expect(
-          client.launchJobTemplate(
-            {
-              template: 'test-template',
-              credentials: [
-                {
-                  id: 1,
-                  type: 'scm',
-                  name: 'Test Credential 1',
-                  credential_type: 1,
-                  summary_fields: {
-                    credential_type: { id: 1, name: 'scm' },
-                  },
-                },
-                {
-                  id: 2,
-                  type: 'scm',
-                  name: 'Test Credential 2',
-                  credential_type: 1,
-                  summary_fields: {
-                    credential_type: { id: 1, name: 'scm' },
-                  },
-                },
-              ],
-            },
-            'test-token',
-          ),
-        ).rejects.toThrow(
-          'Cannot assign multiple credentials of the same type',
+      it('should not change a job template that is up to date', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ results: [existingTemplate] }),
+        });
+
+        const result = await client.ensureJobTemplate(
+          templatePayload,
+          'test-token',
         );
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(result.operation).toBe('unchanged');
       });
+    });
 
-      it('should handle failed job execution with error parsing', async () => {
-        const mockTemplateResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 456, name: 'test-template' }],
-          }),
-        };
-        const mockLaunchResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ job: 123 }),
-        };
-        const mockStatusResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ status: 'failed' }),
-        };
-        const mockEventsResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ event_data: { test: 'data' } }],
-            next: null,
+    describe('createInventory', () => {
+      it('should delete the existing inventory and create a new one', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 4, name: 'test-inventory' }],
+            }),
+          })
+          .mockResolvedValueOnce({ ok: true })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              id: 5,
+              name: 'test-inventory',
+              description: 'Servers',
+              organization: 1,
+            }),
+          });
+
+        const result = await client.createInventory(
+          {
+            inventoryName: 'test-inventory',
+            inventoryDescription: 'Servers',
+            organization: { id: 1, name: 'test-org' },
+            variables: { env: 'dev' },
+          },
+          true,
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          2,
+          'https://test.example.com/api/controller/v2/inventories/4/',
+          expect.objectContaining({ method: 'DELETE' }),
+        );
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/inventories/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              name: 'test-inventory',
+              description: 'Servers',
+              organization: 1,
+              variables: 'env: dev\n',
+            }),
           }),
-        };
-        const mockStdoutResponse = {
-          ok: true,
-          text: jest.fn().mockResolvedValue('{"msg": "Task failed"}'),
-        };
+        );
+        expect(result).toEqual({
+          id: 5,
+          name: 'test-inventory',
+          description: 'Servers',
+          organization: 1,
+          url: 'https://test.example.com/execution/infrastructure/inventories/inventory/5/details',
+        });
+      });
 
+      it('should encode the inventory name in the lookup', async () => {
         mockFetch
-          .mockResolvedValueOnce(mockTemplateResponse)
-          .mockResolvedValueOnce(mockLaunchResponse)
-          .mockResolvedValueOnce(mockStatusResponse)
-          .mockResolvedValueOnce(mockEventsResponse)
-          .mockResolvedValueOnce(mockStdoutResponse);
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 5, name: 'Web & DB #1' }),
+          });
 
-        await expect(
-          client.launchJobTemplate(
-            {
-              template: 'test-template',
-            },
-            'test-token',
-          ),
-        ).rejects.toThrow('Job execution failed due to Task failed');
+        await client.createInventory(
+          {
+            inventoryName: 'Web & DB #1',
+            organization: { id: 1, name: 'test-org' },
+          },
+          true,
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/inventories/?organization=1&name=Web+%26+DB+%231',
+          expect.any(Object),
+        );
       });
+    });
 
-      it('should handle failed job execution with stdout error', async () => {
-        const mockTemplateResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 456, name: 'test-template' }],
-          }),
-        };
-        const mockLaunchResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ job: 123 }),
-        };
-        const mockStatusResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({ status: 'failed' }),
-        };
-        const mockEventsResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ event_data: { test: 'data' } }],
-            next: null,
-          }),
-        };
+    describe('populateInventory', () => {
+      const created = (id: number) => ({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ id }),
+      });
 
+      it('should add groups and hosts and associate them', async () => {
         mockFetch
-          .mockResolvedValueOnce(mockTemplateResponse)
-          .mockResolvedValueOnce(mockLaunchResponse)
-          .mockResolvedValueOnce(mockStatusResponse)
-          .mockResolvedValueOnce(mockEventsResponse)
-          .mockRejectedValueOnce(new Error('Stdout error'));
+          .mockResolvedValueOnce(created(10))
+          .mockResolvedValueOnce(created(11))
+          .mockResolvedValueOnce(created(0))
+          .mockResolvedValueOnce(created(20))
+          .mockResolvedValueOnce(created(0));
+
+        const result = await client.populateInventory(
+          {
+            inventory: { id: 5, name: 'test-inventory' },
+            groups: [
+              { name: 'all-web', children: ['web'] },
+              { name: 'web', variables: 'http_port: 80' },
+            ],
+            hosts: [
+              {
+                name: 'web1.example.com',
+                variables: { ansible_host: '10.0.0.1' },
+                groups: ['web'],
+              },
+            ],
+          },
+          'test-token',
+        );
+
+        const calls = mockFetch.mock.calls.map(([url, init]) => [
+          url,
+          JSON.parse(init.body),
+        ]);
+        expect(calls).toEqual([
+          [
+            'https://test.example.com/api/controller/v2/inventories/5/groups/',
+            { name: 'all-web', description: '', variables: '' },
+          ],
+          [
+            'https://test.example.com/api/controller/v2/inventories/5/groups/',
+            { name: 'web', description: '', variables: 'http_port: 80' },
+          ],
+          [
+            'https://test.example.com/api/controller/v2/groups/10/children/',
+            { id: 11 },
+          ],
+          [
+            'https://test.example.com/api/controller/v2/inventories/5/hosts/',
+            {
+              name: 'web1.example.com',
+              description: '',
+              variables: 'ansible_host: 10.0.0.1\n',
+            },
+          ],
+          [
+            'https://test.example.com/api/controller/v2/groups/11/hosts/',
+            { id: 20 },
+          ],
+        ]);
+        expect(result).toEqual({
+          groups: [
+            { id: 10, name: 'all-web' },
+            { id: 11, name: 'web' },
+          ],
+          hosts: [{ id: 20, name: 'web1.example.com' }],
+        });
+      });
 
+      it('should fail for unknown groups before creating anything', async () => {
         await expect(
-          client.launchJobTemplate(
+          client.populateInventory(
             {
-              template: 'test-template',
+              inventory: { id: 5, name: 'test-inventory' },
+              groups: [{ name: 'web', children: ['cache'] }],
+              hosts: [{ name: 'web1.example.com', groups: ['db', 'cache'] }],
             },
             'test-token',
           ),
-        ).rejects.toThrow('Job execution failed due to Undefined Error');
+        ).rejects.toThrow(
+          'Groups cache, db are not part of the groups of the inventory.',
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
       });
+    });
 
-      it('should handle template not found error', async () => {
-        const mockTemplateResponse = {
+    describe('createInventorySource', () => {
+      it('should create an inventory source from a project', async () => {
+        mockFetch.mockResolvedValueOnce({
           ok: true,
           json: jest.fn().mockResolvedValue({
-            results: [],
+            id: 8,
+            name: 'from-git',
+            inventory: 5,
+            source: 'scm',
           }),
-        };
+        });
 
-        mockFetch.mockResolvedValueOnce(mockTemplateResponse);
+        const result = await client.createInventorySource(
+          {
+            sourceName: 'from-git',
+            inventory: { id: 5, name: 'test-inventory' },
+            source: 'scm',
+            sourceProject: { id: 2, name: 'inventories' },
+            sourcePath: 'hosts.yml',
+            overwrite: true,
+            updateOnLaunch: false,
+          },
+          'test-token',
+        );
 
-        await expect(
-          client.launchJobTemplate(
-            {
-              template: 'non existing template',
-            },
-            'test-token',
-          ),
-        ).rejects.toThrow(
-          'No job template found with name: non existing template',
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/inventory_sources/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              name: 'from-git',
+              description: '',
+              inventory: 5,
+              source: 'scm',
+              source_vars: '',
+              source_project: 2,
+              source_path: 'hosts.yml',
+              overwrite: true,
+              update_on_launch: false,
+            }),
+          }),
         );
+        expect(result).toEqual({
+          id: 8,
+          name: 'from-git',
+          inventory: 5,
+          source: 'scm',
+          url: 'https://test.example.com/execution/infrastructure/inventories/inventory/5/sources/8/details',
+        });
       });
+    });
 
-      it('should launch a job template with timeout parameter', async () => {
+    describe('syncInventorySource', () => {
+      beforeEach(() => {
+        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
+          cb();
+          return {} as any;
+        });
+      });
+
+      const mockUpdate = (status: string) =>
         mockFetch
           .mockResolvedValueOnce({
             ok: true,
-            json: jest.fn().mockResolvedValue({
-              results: [{ id: 1, name: 'Test Template' }],
-            }),
+            json: jest.fn().mockResolvedValue({ inventory_update: 30 }),
           })
           .mockResolvedValueOnce({
             ok: true,
-            json: jest.fn().mockResolvedValue({ job: 123 }),
+            json: jest.fn().mockResolvedValue({ id: 30, status: 'running' }),
           })
           .mockResolvedValueOnce({
             ok: true,
-            json: jest.fn().mockResolvedValue({ status: 'successful' }),
-          })
+            json: jest.fn().mockResolvedValue({ id: 30, status }),
+          });
+
+      it('should update the inventory source and wait for the result', async () => {
+        mockUpdate('successful');
+
+        const result = await client.syncInventorySource(8, 'test-token');
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/inventory_sources/8/update/',
+          expect.objectContaining({ method: 'POST' }),
+        );
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/inventory_updates/30/',
+          expect.any(Object),
+        );
+        expect(result).toEqual({
+          id: 30,
+          status: 'successful',
+          url: 'https://test.example.com/execution/jobs/inventory/30/output',
+        });
+      });
+
+      it('should throw when the inventory update fails', async () => {
+        mockUpdate('failed');
+
+        await expect(
+          client.syncInventorySource(8, 'test-token'),
+        ).rejects.toThrow('Inventory source update failed with status failed');
+      });
+
+      it('should stop waiting for the inventory update after the timeout', async () => {
+        const now = jest
+          .spyOn(Date, 'now')
+          .mockReturnValueOnce(0)
+          .mockReturnValueOnce(1000)
+          .mockReturnValue(61_000);
+        mockFetch
           .mockResolvedValueOnce({
             ok: true,
-            json: jest.fn().mockResolvedValue({ results: [] }),
+            json: jest.fn().mockResolvedValue({ inventory_update: 30 }),
           })
           .mockResolvedValueOnce({
             ok: true,
-            text: jest.fn().mockResolvedValue(''),
+            json: jest.fn().mockResolvedValue({ id: 30, status: 'running' }),
           });
 
-        const result = await client.launchJobTemplate(
-          {
-            template: 'Test Template',
-            timeout: 300,
-          },
-          'test-token',
+        await expect(
+          client.syncInventorySource(8, 'test-token', 60),
+        ).rejects.toThrow(
+          'Inventory update 30 did not finish within 60 seconds',
         );
-
-        expect(result.status).toBe('successful');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        now.mockRestore();
       });
+    });
 
-      it('should log stdout messages including array format', async () => {
-        const infoSpy = jest.spyOn(mockLogger, 'info');
-        const mockTemplateResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 456, name: 'test-template' }],
+    describe('createCredential', () => {
+      const credentialType = {
+        id: 2,
+        name: 'Source Control',
+        kind: 'scm',
+        inputs: {
+          fields: [
+            { id: 'username', type: 'string' },
+            { id: 'password', type: 'string', secret: true },
+            { id: 'ssh_key_data', type: 'string', secret: true },
+          ],
+        },
+      };
+      const payload = {
+        credentialName: 'Git',
+        organization: { id: 1, name: 'Default' },
+        credentialType: { id: 2, name: 'Source Control' },
+        inputs: { username: 'git-user' },
+      };
+
+      it('should create the credential with the secret inputs', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue(credentialType),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              id: 15,
+              name: 'Git',
+              kind: 'scm',
+              credential_type: 2,
+            }),
+          });
+
+        const result = await client.createCredential(
+          payload,
+          { password: 's3cr3t' },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/credential_types/2/',
+          expect.any(Object),
+        );
+        const [url, options] = mockFetch.mock.calls[1];
+        expect(url).toBe(
+          'https://test.example.com/api/controller/v2/credentials/',
+        );
+        expect(JSON.parse(options.body)).toEqual({
+          name: 'Git',
+          description: '',
+          organization: 1,
+          credential_type: 2,
+          inputs: { username: 'git-user', password: 's3cr3t' },
+        });
+        expect(result).toEqual({
+          id: 15,
+          name: 'Git',
+          kind: 'scm',
+          credentialType: 2,
+          jobTemplate: undefined,
+          url: 'https://test.example.com/access/credentials/15/details',
+        });
+        const logged = JSON.stringify(
+          (mockLogger.info as jest.Mock).mock.calls,
+        );
+        expect(logged).not.toContain('s3cr3t');
+      });
+
+      it('should add the credential to the job template', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue(credentialType),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              id: 15,
+              name: 'Git',
+              kind: 'scm',
+              credential_type: 2,
+            }),
+          })
+          .mockResolvedValueOnce({ ok: true, json: jest.fn() });
+
+        const result = await client.createCredential(
+          { ...payload, jobTemplate: { id: 9, name: 'Deploy' } },
+          { password: 's3cr3t' },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/job_templates/9/credentials/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ id: 15 }),
+          }),
+        );
+        expect(result.jobTemplate).toBe(9);
+      });
+
+      it('should reject secret fields passed as plain inputs', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(credentialType),
+        });
+
+        await expect(
+          client.createCredential(
+            { ...payload, inputs: { username: 'git-user', password: 'x' } },
+            {},
+            'test-token',
+          ),
+        ).rejects.toThrow(
+          'Secret fields password must be provided through the task secrets.',
+        );
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('launchJobTemplate', () => {
+      beforeEach(() => {
+        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
+          cb();
+          return {} as any;
+        });
+      });
+
+      it('should launch a job template and handle success', async () => {
+        const mockTemplateResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 456, name: 'test-template' }],
           }),
         };
         const mockLaunchResponse = {
@@ -1024,9 +1816,7 @@ describe('AAPClient', () => {
           ok: true,
           text: jest
             .fn()
-            .mockResolvedValue(
-              '{"msg": "Single message"}\n{"msg": ["Message item 1", "Message item 2"]}',
-            ),
+            .mockResolvedValue('{"msg": "Task completed successfully"}'),
         };
 
         mockFetch
@@ -1034,123 +1824,898 @@ describe('AAPClient', () => {
           .mockResolvedValueOnce(mockLaunchResponse)
           .mockResolvedValueOnce(mockStatusResponse)
           .mockResolvedValueOnce(mockEventsResponse)
-          .mockResolvedValueOnce(mockStdoutResponse);
+          .mockResolvedValueOnce(mockStdoutResponse)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [
+                {
+                  host_name: 'web1',
+                  ok: 4,
+                  changed: 2,
+                  failures: 0,
+                  dark: 0,
+                  skipped: 1,
+                },
+                {
+                  host_name: 'web2',
+                  ok: 1,
+                  changed: 0,
+                  failures: 0,
+                  dark: 1,
+                  skipped: 0,
+                },
+              ],
+              next: null,
+            }),
+          });
 
         const result = await client.launchJobTemplate(
           {
             template: 'test-template',
+            inventory: { id: 1, name: 'test-inventory' },
+            credentials: [
+              {
+                id: 1,
+                type: 'scm',
+                name: 'Test Credential',
+                credential_type: 1,
+                summary_fields: {
+                  credential_type: { id: 1, name: 'scm' },
+                },
+              },
+            ],
           },
           'test-token',
         );
 
-        expect(result.status).toBe('successful');
-        expect(infoSpy).toHaveBeenCalledWith('Single message');
-        expect(infoSpy).toHaveBeenCalledWith('Message item 1');
-        expect(infoSpy).toHaveBeenCalledWith('Message item 2');
+        expect(result).toEqual({
+          id: 123,
+          status: 'successful',
+          events: [{ event_data: { test: 'data' } }],
+          url: 'https://test.example.com/execution/jobs/playbook/123/output',
+          hostSummaries: [
+            {
+              host: 'web1',
+              ok: 4,
+              changed: 2,
+              failed: 0,
+              unreachable: 0,
+              skipped: 1,
+            },
+            {
+              host: 'web2',
+              ok: 1,
+              changed: 0,
+              failed: 0,
+              unreachable: 1,
+              skipped: 0,
+            },
+          ],
+          failedHosts: ['web2'],
+        });
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/jobs/123/job_host_summaries/?page_size=200',
+          expect.any(Object),
+        );
       });
 
-      describe('Parameter Setting Tests', () => {
-        let launchSpy: jest.SpyInstance;
+      it('should wait for a job launched before', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ status: 'successful' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [], next: null }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            text: jest.fn().mockResolvedValue('{"msg": "Done"}'),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [], next: null }),
+          });
 
-        beforeEach(() => {
-          // Mock the necessary responses for successful job template launch
-          mockFetch
-            .mockResolvedValueOnce({
-              ok: true,
-              json: jest.fn().mockResolvedValue({
-                results: [{ id: 1, name: 'Test Template' }],
-              }),
-            })
-            .mockResolvedValueOnce({
-              ok: true,
-              json: jest.fn().mockResolvedValue({ job: 123 }),
-            })
-            .mockResolvedValueOnce({
-              ok: true,
-              json: jest.fn().mockResolvedValue({ status: 'successful' }),
-            })
-            .mockResolvedValueOnce({
-              ok: true,
-              json: jest.fn().mockResolvedValue({ results: [] }),
-            })
-            .mockResolvedValueOnce({
-              ok: true,
-              text: jest.fn().mockResolvedValue(''),
-            });
+        const result = await client.waitForJob(123, 'test-token');
 
-          // Spy on executePostRequest to capture the data being sent
-          launchSpy = jest.spyOn(client, 'executePostRequest');
+        expect(result).toMatchObject({
+          id: 123,
+          status: 'successful',
+          hostSummaries: [],
+          failedHosts: [],
         });
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/jobs/123/',
+          expect.any(Object),
+        );
+      });
 
-        it('should set jobType when provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              jobType: 'check',
-            },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              job_type: 'check',
+      it('should return the host results of a finished job', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [
+                {
+                  host_name: 'web1',
+                  ok: 2,
+                  changed: 1,
+                  failures: 0,
+                  dark: 0,
+                  skipped: 0,
+                },
+                {
+                  host_name: 'web2',
+                  ok: 0,
+                  changed: 0,
+                  failures: 0,
+                  dark: 1,
+                  skipped: 0,
+                },
+              ],
+              next: null,
             }),
-          );
-        });
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 123, status: 'failed' }),
+          });
 
-        it('should not set jobType when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-            },
-            'test-token',
-          );
+        const result = await client.getJobHostResults(123, 'test-token');
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              job_type: expect.anything(),
-            }),
-          );
+        expect(result).toMatchObject({
+          id: 123,
+          status: 'failed',
+          failedHosts: ['web2'],
         });
+        expect(result.hostSummaries).toHaveLength(2);
+      });
 
-        it('should set executionEnvironment when provided with id', async () => {
-          await client.launchJobTemplate(
+      it('should handle duplicate credential types', async () => {
+        await expect(
+          client.launchJobTemplate(
             {
-              template: 'Test Template',
-              executionEnvironment: {
-                id: 42,
-                environmentName: 'test-ee',
-                organization: { id: 1, name: 'test-org' },
-                image: 'test-image',
-                pull: 'always',
-              },
+              template: 'test-template',
+              credentials: [
+                {
+                  id: 1,
+                  type: 'scm',
+                  name: 'Test Credential 1',
+                  credential_type: 1,
+                  summary_fields: {
+                    credential_type: { id: 1, name: 'scm' },
+                  },
+                },
+                {
+                  id: 2,
+                  type: 'scm',
+                  name: 'Test Credential 2',
+                  credential_type: 1,
+                  summary_fields: {
+                    credential_type: { id: 1, name: 'scm' },
+                  },
+                },
+              ],
             },
             'test-token',
-          );
+          ),
+        ).rejects.toThrow(
+          'Cannot assign multiple credentials of the same type',
+        );
+      });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              execution_environment: 42,
-            }),
+      it('should handle failed job execution with error parsing', async () => {
+        const mockTemplateResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 456, name: 'test-template' }],
+          }),
+        };
+        const mockLaunchResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ job: 123 }),
+        };
+        const mockStatusResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ status: 'failed' }),
+        };
+        const mockEventsResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ event_data: { test: 'data' } }],
+            next: null,
+          }),
+        };
+        const mockStdoutResponse = {
+          ok: true,
+          text: jest.fn().mockResolvedValue('{"msg": "Task failed"}'),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockTemplateResponse)
+          .mockResolvedValueOnce(mockLaunchResponse)
+          .mockResolvedValueOnce(mockStatusResponse)
+          .mockResolvedValueOnce(mockEventsResponse)
+          .mockResolvedValueOnce(mockStdoutResponse)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [
+                {
+                  host_name: 'web1',
+                  ok: 1,
+                  changed: 0,
+                  failures: 1,
+                  dark: 0,
+                  skipped: 0,
+                },
+              ],
+              next: null,
+            }),
+          });
+
+        const error = await client
+          .launchJobTemplate(
+            {
+              template: 'test-template',
+            },
+            'test-token',
+          )
+          .catch(e => e);
+
+        expect(error).toBeInstanceOf(AAPJobFailedError);
+        expect(error.message).toBe('Job execution failed due to Task failed');
+        expect(error.job).toEqual({
+          id: 123,
+          status: 'failed',
+          url: 'https://test.example.com/execution/jobs/playbook/123/output',
+          hostSummaries: [
+            {
+              host: 'web1',
+              ok: 1,
+              changed: 0,
+              failed: 1,
+              unreachable: 0,
+              skipped: 0,
+            },
+          ],
+          failedHosts: ['web1'],
+        });
+        expect(mockLogger.error).toHaveBeenCalledWith(
+          'Host web1: 1 failed, 0 unreachable.',
+        );
+      });
+
+      it('should handle failed job execution with stdout error', async () => {
+        const mockTemplateResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 456, name: 'test-template' }],
+          }),
+        };
+        const mockLaunchResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ job: 123 }),
+        };
+        const mockStatusResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ status: 'failed' }),
+        };
+        const mockEventsResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ event_data: { test: 'data' } }],
+            next: null,
+          }),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockTemplateResponse)
+          .mockResolvedValueOnce(mockLaunchResponse)
+          .mockResolvedValueOnce(mockStatusResponse)
+          .mockResolvedValueOnce(mockEventsResponse)
+          .mockRejectedValueOnce(new Error('Stdout error'));
+
+        await expect(
+          client.launchJobTemplate(
+            {
+              template: 'test-template',
+            },
+            'test-token',
+          ),
+        ).rejects.toThrow('Job execution failed due to Undefined Error');
+      });
+
+      it('should handle template not found error', async () => {
+        const mockTemplateResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [],
+          }),
+        };
+
+        mockFetch.mockResolvedValueOnce(mockTemplateResponse);
+
+        await expect(
+          client.launchJobTemplate(
+            {
+              template: 'non existing template',
+            },
+            'test-token',
+          ),
+        ).rejects.toThrow(
+          'No job template found with name: non existing template',
+        );
+      });
+
+      it('should launch a job template with timeout parameter', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 1, name: 'Test Template' }],
+            }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ job: 123 }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ status: 'successful' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            text: jest.fn().mockResolvedValue(''),
+          });
+
+        const result = await client.launchJobTemplate(
+          {
+            template: 'Test Template',
+            timeout: 300,
+          },
+          'test-token',
+        );
+
+        expect(result.status).toBe('successful');
+        expect(result.hostSummaries).toEqual([]);
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          'Failed to fetch host summaries of job 123.',
+        );
+      });
+
+      it('should log stdout messages including array format', async () => {
+        const infoSpy = jest.spyOn(mockLogger, 'info');
+        const mockTemplateResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 456, name: 'test-template' }],
+          }),
+        };
+        const mockLaunchResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ job: 123 }),
+        };
+        const mockStatusResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({ status: 'successful' }),
+        };
+        const mockEventsResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ event_data: { test: 'data' } }],
+            next: null,
+          }),
+        };
+        const mockStdoutResponse = {
+          ok: true,
+          text: jest
+            .fn()
+            .mockResolvedValue(
+              '{"msg": "Single message"}\n{"msg": ["Message item 1", "Message item 2"]}',
+            ),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockTemplateResponse)
+          .mockResolvedValueOnce(mockLaunchResponse)
+          .mockResolvedValueOnce(mockStatusResponse)
+          .mockResolvedValueOnce(mockEventsResponse)
+          .mockResolvedValueOnce(mockStdoutResponse);
+
+        const result = await client.launchJobTemplate(
+          {
+            template: 'test-template',
+          },
+          'test-token',
+        );
+
+        expect(result.status).toBe('successful');
+        expect(infoSpy).toHaveBeenCalledWith('Single message');
+        expect(infoSpy).toHaveBeenCalledWith('Message item 1');
+        expect(infoSpy).toHaveBeenCalledWith('Message item 2');
+      });
+
+      describe('Parameter Setting Tests', () => {
+        let launchSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+          // Mock the necessary responses for successful job template launch
+          mockFetch
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue({
+                results: [{ id: 1, name: 'Test Template' }],
+              }),
+            })
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue({ job: 123 }),
+            })
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue({ status: 'successful' }),
+            })
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue({ results: [] }),
+            })
+            .mockResolvedValueOnce({
+              ok: true,
+              text: jest.fn().mockResolvedValue(''),
+            });
+
+          // Spy on executePostRequest to capture the data being sent
+          launchSpy = jest.spyOn(client, 'executePostRequest');
+        });
+
+        it('should set jobType when provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              jobType: 'check',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              job_type: 'check',
+            }),
+          );
+        });
+
+        it('should not set jobType when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              job_type: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set executionEnvironment when provided with id', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              executionEnvironment: {
+                id: 42,
+                environmentName: 'test-ee',
+                organization: { id: 1, name: 'test-org' },
+                image: 'test-image',
+                pull: 'always',
+              },
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              execution_environment: 42,
+            }),
+          );
+        });
+
+        it('should not set executionEnvironment when id is missing', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              executionEnvironment: {
+                environmentName: 'test-ee',
+                organization: { id: 1, name: 'test-org' },
+                image: 'test-image',
+                pull: 'always',
+              },
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              execution_environment: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set forks when provided as positive number', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              forks: 5,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              forks: 5,
+            }),
+          );
+        });
+
+        it('should set forks when provided as zero', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              forks: 0,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              forks: 0,
+            }),
+          );
+        });
+
+        it('should not set forks when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              forks: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set limit when provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              limit: 'web',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              limit: 'web',
+            }),
+          );
+        });
+
+        it('should not set limit when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              limit: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set verbosity when provided with id', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              verbosity: { id: 3, name: 'verbose' },
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              verbosity: 3,
+            }),
+          );
+        });
+
+        it('should set verbosity when provided with id as zero', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              verbosity: { id: 0, name: 'verbose' },
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              verbosity: 0,
+            }),
+          );
+        });
+
+        it('should not set verbosity when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              verbosity: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set jobSliceCount when provided as positive number', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              jobSliceCount: 4,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              job_slice_count: 4,
+            }),
+          );
+        });
+
+        it('should set jobSliceCount when provided as zero', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              jobSliceCount: 0,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              job_slice_count: 0,
+            }),
+          );
+        });
+
+        it('should not set jobSliceCount when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              job_slice_count: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set timeout when provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              timeout: 300,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              timeout: 300,
+            }),
+          );
+        });
+
+        it('should set timeout when provided as zero', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              timeout: 0,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              timeout: 0,
+            }),
+          );
+        });
+
+        it('should not set timeout when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              timeout: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set diffMode when provided as true', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              diffMode: true,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              diff_mode: true,
+            }),
+          );
+        });
+
+        it('should set diffMode when provided as false', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              diffMode: false,
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              diff_mode: false,
+            }),
+          );
+        });
+
+        it('should not set diffMode when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              diff_mode: expect.anything(),
+            }),
+          );
+        });
+
+        it('should set jobTags when provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              jobTags: 'tag1,tag2',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              job_tags: 'tag1,tag2',
+            }),
+          );
+        });
+
+        it('should not set jobTags when not provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.not.objectContaining({
+              job_tags: expect.anything(),
+            }),
           );
         });
 
-        it('should not set executionEnvironment when id is missing', async () => {
+        it('should set skipTags when provided', async () => {
+          await client.launchJobTemplate(
+            {
+              template: 'Test Template',
+              skipTags: 'skip1,skip2',
+            },
+            'test-token',
+          );
+
+          expect(launchSpy).toHaveBeenCalledWith(
+            expect.stringContaining('launch'),
+            'test-token',
+            expect.objectContaining({
+              skip_tags: 'skip1,skip2',
+            }),
+          );
+        });
+
+        it('should not set skipTags when not provided', async () => {
           await client.launchJobTemplate(
             {
               template: 'Test Template',
-              executionEnvironment: {
-                environmentName: 'test-ee',
-                organization: { id: 1, name: 'test-org' },
-                image: 'test-image',
-                pull: 'always',
-              },
             },
             'test-token',
           );
@@ -1159,16 +2724,31 @@ describe('AAPClient', () => {
             expect.stringContaining('launch'),
             'test-token',
             expect.not.objectContaining({
-              execution_environment: expect.anything(),
+              skip_tags: expect.anything(),
             }),
           );
         });
 
-        it('should set forks when provided as positive number', async () => {
+        it('should set multiple parameters when all are provided', async () => {
           await client.launchJobTemplate(
             {
               template: 'Test Template',
+              jobType: 'run',
+              executionEnvironment: {
+                id: 1,
+                environmentName: 'test-ee',
+                organization: { id: 1, name: 'test-org' },
+                image: 'test-image',
+                pull: 'always',
+              },
               forks: 5,
+              limit: 'web',
+              verbosity: { id: 2, name: 'verbose' },
+              jobSliceCount: 3,
+              timeout: 600,
+              diffMode: true,
+              jobTags: 'deploy',
+              skipTags: 'skip-backup',
             },
             'test-token',
           );
@@ -1177,524 +2757,1030 @@ describe('AAPClient', () => {
             expect.stringContaining('launch'),
             'test-token',
             expect.objectContaining({
+              job_type: 'run',
+              execution_environment: 1,
               forks: 5,
+              limit: 'web',
+              verbosity: 2,
+              job_slice_count: 3,
+              timeout: 600,
+              diff_mode: true,
+              job_tags: 'deploy',
+              skip_tags: 'skip-backup',
             }),
           );
         });
+      });
+    });
+
+    describe('fetchEvents', () => {
+      it('should fetch all events with pagination', async () => {
+        const mockFirstResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 1, event: 'first' }],
+            next: '/next-page',
+          }),
+        };
+        const mockSecondResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 2, event: 'second' }],
+            next: null,
+          }),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockFirstResponse)
+          .mockResolvedValueOnce(mockSecondResponse);
+
+        const result = await client.fetchEvents(123, 'test-token');
+
+        expect(result).toEqual([
+          { id: 1, event: 'first' },
+          { id: 2, event: 'second' },
+        ]);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should handle single page of events', async () => {
+        const mockResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ id: 1, event: 'single' }],
+            next: null,
+          }),
+        };
+
+        mockFetch.mockResolvedValue(mockResponse);
+
+        const result = await client.fetchEvents(123, 'test-token');
+
+        expect(result).toEqual([{ id: 1, event: 'single' }]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('fetchResult', () => {
+      beforeEach(() => {
+        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
+          cb();
+          return {} as any;
+        });
+      });
+
+      it('should fetch job result and events', async () => {
+        const mockJobResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            status: 'successful',
+            other_data: 'test',
+          }),
+        };
+        const mockEventsResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ event_data: 'test event' }],
+            next: null,
+          }),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockJobResponse)
+          .mockResolvedValueOnce(mockEventsResponse);
+
+        const result = await client.fetchResult(123, 'test-token');
+
+        expect(result).toEqual({
+          jobEvents: [{ event_data: 'test event' }],
+          jobData: {
+            status: 'successful',
+            other_data: 'test',
+          },
+        });
+      });
+
+      it('should wait for job completion', async () => {
+        const mockRunningResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            status: 'running',
+          }),
+        };
+        const mockCompletedResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            status: 'successful',
+          }),
+        };
+        const mockEventsResponse = {
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            results: [{ event_data: 'test event' }],
+            next: null,
+          }),
+        };
+
+        mockFetch
+          .mockResolvedValueOnce(mockRunningResponse)
+          .mockResolvedValueOnce(mockCompletedResponse)
+          .mockResolvedValueOnce(mockEventsResponse);
+
+        const result = await client.fetchResult(123, 'test-token');
+
+        expect(result.jobData.status).toBe('successful');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe('getJobTemplateJobs', () => {
+      it('should list recent jobs of the template with their host counts', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [
+                {
+                  id: 11,
+                  name: 'Deploy',
+                  status: 'successful',
+                  started: '2025-01-01T00:00:00Z',
+                  finished: '2025-01-01T00:01:30Z',
+                  elapsed: 90.5,
+                  summary_fields: { launched_by: { name: 'alice' } },
+                },
+                {
+                  id: 10,
+                  name: 'Deploy',
+                  status: 'running',
+                  summary_fields: { created_by: { username: 'bob' } },
+                },
+              ],
+            }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              id: 11,
+              host_status_counts: { ok: 3, changed: 1, failures: 1, dark: 2 },
+            }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 10 }),
+          });
+
+        const result = await client.getJobTemplateJobs(7, 'test-token', 5);
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/job_templates/7/jobs/?order_by=-created&page_size=5',
+          expect.objectContaining({
+            headers: expect.objectContaining({
+              Authorization: 'Bearer test-token',
+            }),
+          }),
+        );
+        expect(result).toEqual([
+          {
+            id: 11,
+            name: 'Deploy',
+            status: 'successful',
+            started: '2025-01-01T00:00:00Z',
+            finished: '2025-01-01T00:01:30Z',
+            elapsed: 90.5,
+            launchedBy: 'alice',
+            url: 'https://test.example.com/execution/jobs/playbook/11/output',
+            hostStatusCounts: {
+              ok: 3,
+              changed: 1,
+              failed: 1,
+              unreachable: 2,
+              skipped: 0,
+            },
+          },
+          {
+            id: 10,
+            name: 'Deploy',
+            status: 'running',
+            started: null,
+            finished: null,
+            elapsed: 0,
+            launchedBy: 'bob',
+            url: 'https://test.example.com/execution/jobs/playbook/10/output',
+            hostStatusCounts: {
+              ok: 0,
+              changed: 0,
+              failed: 0,
+              unreachable: 0,
+              skipped: 0,
+            },
+          },
+        ]);
+      });
+    });
+
+    describe('cancelJob', () => {
+      it('should cancel the job', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, status: 202 });
+
+        await client.cancelJob(123, 'test-token');
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/jobs/123/cancel/',
+          expect.objectContaining({ method: 'POST' }),
+        );
+      });
+
+      it('should throw when the job can not be canceled', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 405,
+          statusText: 'Method Not Allowed',
+          json: jest
+            .fn()
+            .mockResolvedValue({ error: 'Job is not in a cancelable state.' }),
+        });
+
+        await expect(client.cancelJob(123, 'test-token')).rejects.toThrow(
+          'Job is not in a cancelable state.',
+        );
+      });
+    });
+
+    describe('relaunchJob', () => {
+      it.each([
+        ['all', undefined],
+        ['failed', 'failed'],
+      ])('should relaunch the job on %s hosts', async (hosts, hostsArg) => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ id: 124, status: 'pending' }),
+        });
+
+        const result = await client.relaunchJob(
+          123,
+          'test-token',
+          hostsArg as 'failed' | undefined,
+        );
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/jobs/123/relaunch/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ hosts }),
+          }),
+        );
+        expect(result).toEqual({
+          id: 124,
+          status: 'pending',
+          url: 'https://test.example.com/execution/jobs/playbook/124/output',
+        });
+      });
+    });
+
+    describe('schedules', () => {
+      const aapSchedule = {
+        id: 9,
+        name: 'Nightly scan',
+        description: '',
+        rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+        enabled: true,
+        next_run: '2025-01-02T02:00:00Z',
+        extra_data: { scan_profile: 'cis' },
+      };
+      const schedule = {
+        id: 9,
+        name: 'Nightly scan',
+        description: '',
+        rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+        enabled: true,
+        nextRun: '2025-01-02T02:00:00Z',
+        extraVariables: { scan_profile: 'cis' },
+        url: 'https://test.example.com/execution/templates/job-template/7/schedules/9/details',
+      };
+
+      it('should create a schedule with the extra variables', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(aapSchedule),
+        });
 
-        it('should set forks when provided as zero', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              forks: 0,
-            },
-            'test-token',
-          );
+        const result = await client.createSchedule(
+          {
+            scheduleName: 'Nightly scan',
+            jobTemplate: { id: 7 },
+            rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+            extraVariables: 'scan_profile: cis',
+          },
+          'test-token',
+        );
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              forks: 0,
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/job_templates/7/schedules/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              name: 'Nightly scan',
+              description: '',
+              rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+              extra_data: { scan_profile: 'cis' },
+              enabled: true,
             }),
-          );
+          }),
+        );
+        expect(result).toEqual(schedule);
+      });
+
+      it('should throw the AAP error when the schedule is rejected', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+          json: jest.fn().mockResolvedValue({
+            rrule: ['Multiple DTSTART is not supported.'],
+          }),
         });
 
-        it('should not set forks when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-            },
+        await expect(
+          client.createSchedule(
+            { scheduleName: 'Bad', jobTemplate: { id: 7 }, rrule: 'x' },
             'test-token',
-          );
+          ),
+        ).rejects.toThrow('Multiple DTSTART is not supported.');
+      });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              forks: expect.anything(),
-            }),
-          );
+      it('should list the schedules of the job template', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ results: [aapSchedule] }),
         });
 
-        it('should set limit when provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              limit: 'web',
-            },
-            'test-token',
-          );
+        const result = await client.getJobTemplateSchedules(7, 'test-token');
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              limit: 'web',
-            }),
-          );
-        });
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/job_templates/7/schedules/?order_by=next_run&page_size=200',
+          expect.objectContaining({ method: 'GET' }),
+        );
+        expect(result).toEqual([schedule]);
+      });
 
-        it('should not set limit when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-            },
-            'test-token',
-          );
+      it('should delete the schedule', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              limit: expect.anything(),
-            }),
-          );
-        });
+        await client.deleteSchedule(9, 'test-token');
 
-        it('should set verbosity when provided with id', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              verbosity: { id: 3, name: 'verbose' },
-            },
-            'test-token',
-          );
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/schedules/9/',
+          expect.objectContaining({ method: 'DELETE' }),
+        );
+      });
+    });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              verbosity: 3,
-            }),
-          );
+    describe('launchWorkflowJobTemplate', () => {
+      beforeEach(() => {
+        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
+          cb();
+          return {} as any;
         });
+      });
 
-        it('should set verbosity when provided with id as zero', async () => {
-          await client.launchJobTemplate(
+      const mockNodes = (status: string) => ({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          results: [
             {
-              template: 'Test Template',
-              verbosity: { id: 0, name: 'verbose' },
+              id: 1,
+              identifier: 'provision',
+              summary_fields: {
+                unified_job_template: { name: 'Provision' },
+                job: { id: 101, type: 'job', status: 'successful' },
+              },
             },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              verbosity: 0,
-            }),
-          );
-        });
-
-        it('should not set verbosity when not provided', async () => {
-          await client.launchJobTemplate(
             {
-              template: 'Test Template',
+              id: 2,
+              identifier: 'deploy',
+              summary_fields: {
+                unified_job_template: { name: 'Deploy' },
+                job: { id: 102, type: 'job', status },
+              },
             },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              verbosity: expect.anything(),
-            }),
-          );
-        });
-
-        it('should set jobSliceCount when provided as positive number', async () => {
-          await client.launchJobTemplate(
             {
-              template: 'Test Template',
-              jobSliceCount: 4,
+              id: 3,
+              identifier: 'rollback',
+              summary_fields: {
+                unified_job_template: { name: 'Rollback' },
+              },
             },
-            'test-token',
-          );
+          ],
+          next: null,
+        }),
+      });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              job_slice_count: 4,
+      const mockLaunch = (finalStatus: string) => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 20, name: 'Deploy Application' }],
             }),
-          );
-        });
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ workflow_job: 300 }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 300, status: 'running' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 300, status: finalStatus }),
+          });
+      };
 
-        it('should set jobSliceCount when provided as zero', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              jobSliceCount: 0,
-            },
-            'test-token',
-          );
+      it('should launch a workflow and report the status of each node', async () => {
+        mockLaunch('successful');
+        mockFetch.mockResolvedValueOnce(mockNodes('successful'));
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              job_slice_count: 0,
-            }),
-          );
-        });
+        const result = await client.launchWorkflowJobTemplate(
+          {
+            template: 'Deploy Application',
+            inventory: { id: 3, name: 'Demo Inventory' },
+            limit: 'web',
+            scmBranch: 'main',
+            extraVariables: { version: '1.0' },
+          },
+          'test-token',
+        );
 
-        it('should not set jobSliceCount when not provided', async () => {
-          await client.launchJobTemplate(
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          2,
+          'https://test.example.com/api/controller/v2/workflow_job_templates/20/launch/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              extra_vars: { version: '1.0' },
+              inventory: 3,
+              limit: 'web',
+              scm_branch: 'main',
+            }),
+          }),
+        );
+        expect(result).toEqual({
+          id: 300,
+          status: 'successful',
+          url: 'https://test.example.com/execution/jobs/workflow/300/output',
+          nodes: [
             {
-              template: 'Test Template',
+              id: 1,
+              name: 'Provision',
+              identifier: 'provision',
+              jobId: 101,
+              jobType: 'job',
+              status: 'successful',
             },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              job_slice_count: expect.anything(),
-            }),
-          );
-        });
-
-        it('should set timeout when provided', async () => {
-          await client.launchJobTemplate(
             {
-              template: 'Test Template',
-              timeout: 300,
+              id: 2,
+              name: 'Deploy',
+              identifier: 'deploy',
+              jobId: 102,
+              jobType: 'job',
+              status: 'successful',
             },
-            'test-token',
-          );
+            {
+              id: 3,
+              name: 'Rollback',
+              identifier: 'rollback',
+              jobId: null,
+              jobType: null,
+              status: 'not run',
+            },
+          ],
+        });
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Workflow node Deploy: successful',
+        );
+      });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
+      it('should throw with the failed nodes when the workflow fails', async () => {
+        mockLaunch('failed');
+        mockFetch.mockResolvedValueOnce(mockNodes('failed'));
+
+        await expect(
+          client.launchWorkflowJobTemplate(
+            { template: 'Deploy Application' },
             'test-token',
-            expect.objectContaining({
-              timeout: 300,
+          ),
+        ).rejects.toThrow(
+          'Workflow job execution failed due to failed nodes: Deploy',
+        );
+      });
+
+      it('should stop waiting for the workflow job after the timeout', async () => {
+        const now = jest
+          .spyOn(Date, 'now')
+          .mockReturnValueOnce(0)
+          .mockReturnValueOnce(1000)
+          .mockReturnValue(61_000);
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 20, name: 'Deploy Application' }],
             }),
-          );
-        });
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ workflow_job: 300 }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 300, status: 'running' }),
+          });
 
-        it('should set timeout when provided as zero', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              timeout: 0,
-            },
+        await expect(
+          client.launchWorkflowJobTemplate(
+            { template: 'Deploy Application', timeout: 60 },
             'test-token',
-          );
+          ),
+        ).rejects.toThrow('Workflow job 300 did not finish within 60 seconds');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        now.mockRestore();
+      });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              timeout: 0,
-            }),
-          );
+      it('should throw when the workflow job template does not exist', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ results: [] }),
         });
 
-        it('should not set timeout when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-            },
+        await expect(
+          client.launchWorkflowJobTemplate(
+            { template: 'missing' },
             'test-token',
-          );
+          ),
+        ).rejects.toThrow('No workflow job template found with name: missing');
+      });
+    });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              timeout: expect.anything(),
+    describe('startJobTemplate', () => {
+      it('should launch a job template without waiting for the result', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 456, name: 'test-template' }],
             }),
-          );
-        });
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ job: 123, status: 'pending' }),
+          });
 
-        it('should set diffMode when provided as true', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              diffMode: true,
-            },
-            'test-token',
-          );
+        const result = await client.startJobTemplate(
+          { template: 'test-template', limit: 'host1' },
+          'test-token',
+        );
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              diff_mode: true,
-            }),
-          );
+        expect(result).toEqual({
+          id: 123,
+          status: 'pending',
+          url: 'https://test.example.com/execution/jobs/playbook/123/output',
         });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/job_templates/456/launch/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ extra_vars: '', limit: 'host1' }),
+          }),
+        );
+      });
 
-        it('should set diffMode when provided as false', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              diffMode: false,
-            },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              diff_mode: false,
+      it('should pass every prompted launch field to AAP', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({
+              results: [{ id: 456, name: 'test-template' }],
             }),
-          );
-        });
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ job: 123, status: 'pending' }),
+          });
 
-        it('should not set diffMode when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
+        await client.startJobTemplate(
+          {
+            template: 'test-template',
+            jobType: 'check',
+            inventory: { id: 1, name: 'Servers' },
+            executionEnvironment: {
+              id: 2,
+              environmentName: 'test-ee',
+              organization: { id: 1, name: 'test-org' },
+              image: 'test-image',
+              pull: 'always',
             },
-            'test-token',
-          );
+            scmBranch: 'feature/patching',
+            labels: [{ id: 5, name: 'prod' }],
+            instanceGroups: [
+              { id: 3, name: 'east' },
+              { id: 1, name: 'default' },
+            ],
+            forks: 0,
+            limit: 'web*',
+            verbosity: { id: 2, name: '2 (More Verbose)' },
+            jobSliceCount: 2,
+            timeout: 600,
+            diffMode: false,
+            jobTags: 'install,configure',
+            skipTags: 'debug',
+          },
+          'test-token',
+        );
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              diff_mode: expect.anything(),
-            }),
-          );
+        const [, request] = mockFetch.mock.calls[1];
+        expect(JSON.parse(request.body)).toEqual({
+          extra_vars: '',
+          inventory: 1,
+          job_type: 'check',
+          execution_environment: 2,
+          forks: 0,
+          limit: 'web*',
+          verbosity: 2,
+          job_slice_count: 2,
+          timeout: 600,
+          diff_mode: false,
+          job_tags: 'install,configure',
+          skip_tags: 'debug',
+          scm_branch: 'feature/patching',
+          labels: [5],
+          instance_groups: [3, 1],
         });
+      });
 
-        it('should set jobTags when provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              jobTags: 'tag1,tag2',
-            },
-            'test-token',
-          );
-
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              job_tags: 'tag1,tag2',
-            }),
-          );
+      it('should throw when the job template does not exist', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ results: [] }),
         });
 
-        it('should not set jobTags when not provided', async () => {
-          await client.launchJobTemplate(
+        await expect(
+          client.startJobTemplate({ template: 'missing' }, 'test-token'),
+        ).rejects.toThrow('No job template found with name: missing');
+      });
+
+      describe('with a survey', () => {
+        const surveySpec = {
+          spec: [
             {
-              template: 'Test Template',
+              question_name: 'Port',
+              variable: 'port',
+              type: 'integer',
+              required: true,
+              min: 1,
+              max: 65535,
             },
-            'test-token',
-          );
+            {
+              question_name: 'Environment',
+              variable: 'env',
+              type: 'multiplechoice',
+              required: true,
+              choices: 'dev\nprod',
+            },
+          ],
+        };
+        const mockTemplateWithSurvey = () =>
+          mockFetch
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue({
+                results: [
+                  { id: 456, name: 'test-template', survey_enabled: true },
+                ],
+              }),
+            })
+            .mockResolvedValueOnce({
+              ok: true,
+              json: jest.fn().mockResolvedValue(surveySpec),
+            });
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              job_tags: expect.anything(),
-            }),
-          );
-        });
+        it('should launch with the survey answers converted to their types', async () => {
+          mockTemplateWithSurvey().mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ job: 123, status: 'pending' }),
+          });
 
-        it('should set skipTags when provided', async () => {
-          await client.launchJobTemplate(
+          await client.startJobTemplate(
             {
-              template: 'Test Template',
-              skipTags: 'skip1,skip2',
+              template: 'test-template',
+              extraVariables: { port: '8080', env: 'prod', other: 'x' },
             },
             'test-token',
           );
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
+          expect(mockFetch).toHaveBeenNthCalledWith(
+            2,
+            'https://test.example.com/api/controller/v2/job_templates/456/survey_spec/',
+            expect.any(Object),
+          );
+          expect(mockFetch).toHaveBeenLastCalledWith(
+            'https://test.example.com/api/controller/v2/job_templates/456/launch/',
             expect.objectContaining({
-              skip_tags: 'skip1,skip2',
+              body: JSON.stringify({
+                extra_vars: { port: 8080, env: 'prod', other: 'x' },
+              }),
             }),
           );
         });
 
-        it('should not set skipTags when not provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-            },
-            'test-token',
-          );
+        it('should reject invalid survey answers before launching', async () => {
+          mockTemplateWithSurvey();
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.not.objectContaining({
-              skip_tags: expect.anything(),
-            }),
+          await expect(
+            client.startJobTemplate(
+              {
+                template: 'test-template',
+                extraVariables: 'port: 0\nenv: qa\n',
+              },
+              'test-token',
+            ),
+          ).rejects.toThrow(
+            'Invalid survey answers: Port (port) must be at least 1. Environment (env) must be one of dev, prod.',
+          );
+          expect(mockFetch).toHaveBeenCalledTimes(2);
+          expect(mockLogger.error).toHaveBeenCalledWith(
+            'Port (port) must be at least 1.',
           );
         });
+      });
+    });
 
-        it('should set multiple parameters when all are provided', async () => {
-          await client.launchJobTemplate(
-            {
-              template: 'Test Template',
-              jobType: 'run',
-              executionEnvironment: {
-                id: 1,
-                environmentName: 'test-ee',
-                organization: { id: 1, name: 'test-org' },
-                image: 'test-image',
-                pull: 'always',
-              },
-              forks: 5,
-              limit: 'web',
-              verbosity: { id: 2, name: 'verbose' },
-              jobSliceCount: 3,
-              timeout: 600,
-              diffMode: true,
-              jobTags: 'deploy',
-              skipTags: 'skip-backup',
+    describe('runAdHocCommand', () => {
+      beforeEach(() => {
+        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
+          cb();
+          return {} as any;
+        });
+      });
+
+      const mockCommandRun = (status: string) =>
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 77, status: 'pending' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 77, status: 'running' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 77, status }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            text: jest
+              .fn()
+              .mockResolvedValue(
+                'web1 | SUCCESS => {\n    "ping": "pong"\n}\n',
+              ),
+          });
+
+      it('should run the module against the inventory and wait for the result', async () => {
+        mockCommandRun('successful');
+
+        const result = await client.runAdHocCommand(
+          {
+            inventory: { id: 3, name: 'Servers' },
+            moduleName: 'ping',
+            limit: 'web*',
+            credential: { id: 5, name: 'Machine' },
+            verbosity: { id: 1, name: '1 (Verbose)' },
+            becomeEnabled: true,
+          },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/ad_hoc_commands/',
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              inventory: 3,
+              limit: 'web*',
+              verbosity: 1,
+              module_name: 'ping',
+              module_args: '',
+              extra_vars: '',
+              credential: 5,
+              become_enabled: true,
+            }),
+          }),
+        );
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/api/controller/v2/ad_hoc_commands/77/stdout/?format=txt',
+          expect.any(Object),
+        );
+        expect(result).toEqual({
+          id: 77,
+          status: 'successful',
+          url: 'https://test.example.com/execution/jobs/command/77/output',
+          stdout: 'web1 | SUCCESS => {\n    "ping": "pong"\n}\n',
+        });
+        expect(mockLogger.info).toHaveBeenCalledWith('web1 | SUCCESS => {');
+      });
+
+      it('should send the run options in the same format as the job template launches', async () => {
+        mockCommandRun('successful');
+
+        await client.runAdHocCommand(
+          {
+            inventory: { id: 3, name: 'Servers' },
+            moduleName: 'setup',
+            jobType: 'check',
+            executionEnvironment: {
+              id: 2,
+              environmentName: 'test-ee',
+              organization: { id: 1, name: 'test-org' },
+              image: 'test-image',
+              pull: 'always',
             },
-            'test-token',
-          );
+            forks: 0,
+            diffMode: false,
+          },
+          'test-token',
+        );
 
-          expect(launchSpy).toHaveBeenCalledWith(
-            expect.stringContaining('launch'),
-            'test-token',
-            expect.objectContaining({
-              job_type: 'run',
-              execution_environment: 1,
-              forks: 5,
-              limit: 'web',
-              verbosity: 2,
-              job_slice_count: 3,
-              timeout: 600,
-              diff_mode: true,
-              job_tags: 'deploy',
-              skip_tags: 'skip-backup',
-            }),
-          );
+        const [, request] = mockFetch.mock.calls[0];
+        expect(JSON.parse(request.body)).toEqual({
+          inventory: 3,
+          job_type: 'check',
+          execution_environment: 2,
+          forks: 0,
+          diff_mode: false,
+          module_name: 'setup',
+          module_args: '',
+          extra_vars: '',
         });
       });
-    });
 
-    describe('fetchEvents', () => {
-      it('should fetch all events with pagination', async () => {
-        const mockFirstResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 1, event: 'first' }],
-            next: '/next-page',
-          }),
-        };
-        const mockSecondResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 2, event: 'second' }],
-            next: null,
-          }),
-        };
+      it('should throw when the ad hoc command fails', async () => {
+        mockCommandRun('failed');
 
-        mockFetch
-          .mockResolvedValueOnce(mockFirstResponse)
-          .mockResolvedValueOnce(mockSecondResponse);
+        await expect(
+          client.runAdHocCommand(
+            { inventory: { id: 3, name: 'Servers' }, moduleName: 'setup' },
+            'test-token',
+          ),
+        ).rejects.toThrow('Ad hoc command execution failed with status failed');
+      });
 
-        const result = await client.fetchEvents(123, 'test-token');
+      it('should stop waiting for the ad hoc command after the timeout', async () => {
+        const now = jest
+          .spyOn(Date, 'now')
+          .mockReturnValueOnce(0)
+          .mockReturnValueOnce(1000)
+          .mockReturnValue(61_000);
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 77, status: 'pending' }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 77, status: 'running' }),
+          });
 
-        expect(result).toEqual([
-          { id: 1, event: 'first' },
-          { id: 2, event: 'second' },
-        ]);
+        await expect(
+          client.runAdHocCommand(
+            {
+              inventory: { id: 3, name: 'Servers' },
+              moduleName: 'setup',
+              timeout: 60,
+            },
+            'test-token',
+          ),
+        ).rejects.toThrow('Ad hoc command 77 did not finish within 60 seconds');
         expect(mockFetch).toHaveBeenCalledTimes(2);
+        now.mockRestore();
       });
 
-      it('should handle single page of events', async () => {
-        const mockResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ id: 1, event: 'single' }],
-            next: null,
-          }),
-        };
+      it('should require an inventory', async () => {
+        await expect(
+          client.runAdHocCommand({ moduleName: 'ping' } as any, 'test-token'),
+        ).rejects.toThrow('An inventory is required to run an ad hoc command.');
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+    });
 
-        mockFetch.mockResolvedValue(mockResponse);
+    describe('getJob', () => {
+      it.each([
+        ['running', false],
+        ['successful', true],
+        ['failed', true],
+        ['canceled', true],
+      ])(
+        'should report job with status %s as finished=%s',
+        async (status, finished) => {
+          mockFetch.mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 123, status }),
+          });
 
-        const result = await client.fetchEvents(123, 'test-token');
+          const result = await client.getJob(123, 'test-token');
 
-        expect(result).toEqual([{ id: 1, event: 'single' }]);
-        expect(mockFetch).toHaveBeenCalledTimes(1);
-      });
+          expect(result).toEqual({
+            id: 123,
+            status,
+            url: 'https://test.example.com/execution/jobs/playbook/123/output',
+            finished,
+          });
+          expect(mockFetch).toHaveBeenCalledWith(
+            'https://test.example.com/api/controller/v2/jobs/123/',
+            expect.any(Object),
+          );
+        },
+      );
     });
 
-    describe('fetchResult', () => {
-      beforeEach(() => {
-        jest.spyOn(global, 'setTimeout').mockImplementation((cb: any) => {
-          cb();
-          return {} as any;
-        });
-      });
-
-      it('should fetch job result and events', async () => {
-        const mockJobResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            status: 'successful',
-            other_data: 'test',
-          }),
-        };
-        const mockEventsResponse = {
+    describe('getJobEvents', () => {
+      it('should fetch events after the cursor and advance it', async () => {
+        mockFetch.mockResolvedValueOnce({
           ok: true,
           json: jest.fn().mockResolvedValue({
-            results: [{ event_data: 'test event' }],
-            next: null,
+            results: [
+              {
+                counter: 6,
+                event: 'runner_on_ok',
+                stdout: 'ok: [host1]',
+                created: '2025-01-01T00:00:00Z',
+                host_name: 'host1',
+                task: 'Ping',
+                play: 'All',
+                failed: false,
+                changed: false,
+                event_data: { res: 'dropped' },
+              },
+              {
+                counter: 7,
+                event: 'playbook_on_stats',
+                stdout: 'PLAY RECAP',
+                created: '2025-01-01T00:00:01Z',
+              },
+            ],
+            next: '/next-page',
           }),
-        };
-
-        mockFetch
-          .mockResolvedValueOnce(mockJobResponse)
-          .mockResolvedValueOnce(mockEventsResponse);
+        });
 
-        const result = await client.fetchResult(123, 'test-token');
+        const result = await client.getJobEvents(123, 'test-token', 5);
 
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/api/controller/v2/jobs/123/job_events/?counter__gt=5&order_by=counter&page_size=100',
+          expect.any(Object),
+        );
         expect(result).toEqual({
-          jobEvents: [{ event_data: 'test event' }],
-          jobData: {
-            status: 'successful',
-            other_data: 'test',
-          },
+          events: [
+            {
+              counter: 6,
+              event: 'runner_on_ok',
+              stdout: 'ok: [host1]',
+              created: '2025-01-01T00:00:00Z',
+              host_name: 'host1',
+              task: 'Ping',
+              play: 'All',
+              failed: false,
+              changed: false,
+            },
+            {
+              counter: 7,
+              event: 'playbook_on_stats',
+              stdout: 'PLAY RECAP',
+              created: '2025-01-01T00:00:01Z',
+              host_name: '',
+              task: '',
+              play: '',
+              failed: false,
+              changed: false,
+            },
+          ],
+          cursor: 7,
+          hasMore: true,
         });
       });
 
-      it('should wait for job completion', async () => {
-        const mockRunningResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            status: 'running',
-          }),
-        };
-        const mockCompletedResponse = {
+      it('should keep the cursor when there are no new events', async () => {
+        mockFetch.mockResolvedValueOnce({
           ok: true,
-          json: jest.fn().mockResolvedValue({
-            status: 'successful',
-          }),
-        };
-        const mockEventsResponse = {
-          ok: true,
-          json: jest.fn().mockResolvedValue({
-            results: [{ event_data: 'test event' }],
-            next: null,
-          }),
-        };
-
-        mockFetch
-          .mockResolvedValueOnce(mockRunningResponse)
-          .mockResolvedValueOnce(mockCompletedResponse)
-          .mockResolvedValueOnce(mockEventsResponse);
+          json: jest.fn().mockResolvedValue({ results: [], next: null }),
+        });
 
-        const result = await client.fetchResult(123, 'test-token');
+        const result = await client.getJobEvents(123, 'test-token', 12);
 
-        expect(result.jobData.status).toBe('successful');
-        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(result).toEqual({ events: [], cursor: 12, hasMore: false });
       });
     });
   });
@@ -1735,6 +3821,72 @@ describe('AAPClient', () => {
       });
     });
 
+    describe('ensureExecutionEnvironment', () => {
+      it('should encode the execution environment name in the lookup', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 3, name: 'ee?name=other' }),
+          });
+
+        await client.ensureExecutionEnvironment(
+          {
+            environmentName: 'ee?name=other',
+            organization: { id: 1, name: 'test-org' },
+            image: 'test-image',
+            pull: 'always',
+          },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/execution_environments/?name=ee%3Fname%3Dother',
+          expect.any(Object),
+        );
+      });
+
+      it('should create the execution environment when it does not exist', async () => {
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: jest.fn().mockResolvedValue({ id: 3, name: 'test-ee' }),
+          });
+
+        const result = await client.ensureExecutionEnvironment(
+          {
+            environmentName: 'test-ee',
+            organization: { id: 1, name: 'test-org' },
+            image: 'test-image',
+            pull: 'always',
+          },
+          'test-token',
+        );
+
+        expect(mockFetch).toHaveBeenNthCalledWith(
+          1,
+          'https://test.example.com/api/controller/v2/execution_environments/?name=test-ee',
+          expect.any(Object),
+        );
+        expect(result).toEqual({
+          operation: 'created',
+          data: {
+            id: 3,
+            name: 'test-ee',
+            url: 'https://test.example.com/execution/infrastructure/execution-environments/3/details',
+          },
+        });
+      });
+    });
+
     describe('deleteExecutionEnvironment', () => {
       it('should delete an execution environment', async () => {
         const mockResponse = { ok: true };
@@ -1853,13 +4005,14 @@ describe('AAPClient', () => {
         };
         mockFetch.mockResolvedValueOnce(mockGetResponse);
 
-        mockFetch.mockRejectedValueOnce(new Error('Delete failed'));
+        jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
+        mockFetch.mockRejectedValue(new Error('Delete failed'));
 
         await expect(
           client.deleteExecutionEnvironmentExists('test-env', 'test-token'),
         ).rejects.toThrow('Failed to send delete: Delete failed');
 
-        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(mockFetch).toHaveBeenCalledTimes(5);
         expect(mockFetch).toHaveBeenNthCalledWith(
           1,
           'https://test.example.com/api/controller/v2/execution_environments/?name=test-env',
@@ -1991,6 +4144,7 @@ describe('AAPClient', () => {
                   throw new Error(`No value for ${path}`);
                 }),
                 getOptionalBoolean: jest.fn().mockReturnValue(false),
+                getOptionalString: jest.fn(),
                 getOptionalStringArray: jest.fn().mockReturnValue([]),
               };
             }
@@ -2098,6 +4252,7 @@ describe('AAPClient', () => {
                   throw new Error(`No value for ${path}`);
                 }),
                 getOptionalBoolean: jest.fn().mockReturnValue(false),
+                getOptionalString: jest.fn(),
                 getOptionalStringArray: jest
                   .fn()
                   .mockImplementation((labelKey: string) => {
@@ -2160,6 +4315,7 @@ describe('AAPClient', () => {
                   throw new Error(`No value for ${path}`);
                 }),
                 getOptionalBoolean: jest.fn().mockReturnValue(false),
+                getOptionalString: jest.fn(),
                 getOptionalStringArray: jest
                   .fn()
                   .mockImplementation((labelKey: string) => {
@@ -2376,6 +4532,7 @@ describe('AAPClient', () => {
                   throw new Error(`No value for ${path}`);
                 }),
                 getOptionalBoolean: jest.fn().mockReturnValue(false),
+                getOptionalString: jest.fn(),
                 getOptionalStringArray: jest.fn().mockReturnValue([]),
               };
             }
@@ -2947,6 +5104,7 @@ describe('AAPClient', () => {
                   throw new Error(`No value for ${path}`);
                 }),
                 getOptionalBoolean: jest.fn().mockReturnValue(false),
+                getOptionalString: jest.fn(),
                 getOptionalStringArray: jest.fn().mockReturnValue([]),
               };
             }
@@ -3131,6 +5289,71 @@ describe('AAPClient', () => {
   });
 
   describe('Authentication Methods', () => {
+    describe('syncWorkflowJobTemplates', () => {
+      it('should fetch workflow job templates with their survey from AAP', async () => {
+        jest
+          .spyOn(client as any, 'executeCatalogRequest')
+          .mockResolvedValueOnce(mockWorkflowJobTemplateResponse);
+        jest.spyOn(client as any, 'executeGetRequest').mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(mockSurveyResponse),
+        });
+
+        const result = await client.syncWorkflowJobTemplates(
+          true,
+          ['label1'],
+          ['exclude1'],
+        );
+
+        expect(result).toEqual([
+          {
+            job: mockWorkflowJobTemplateResponse[0],
+            survey: mockSurveyResponse,
+          },
+        ]);
+        expect(client.executeGetRequest).toHaveBeenCalledWith(
+          '/api/controller/v2/workflow_job_templates/20/survey_spec/',
+          'test-token',
+        );
+        const endPoint = (client as any).executeCatalogRequest.mock
+          .calls[0][0] as string;
+        expect(endPoint).toContain(
+          '/api/controller/v2/workflow_job_templates?',
+        );
+        expect(endPoint).toContain('survey_enabled=true');
+        expect(endPoint).toContain('labels__name__in=label1');
+        expect(endPoint).toContain('not__labels__name__in=exclude1');
+      });
+
+      it('should not fetch the survey of workflows without one', async () => {
+        const workflow = {
+          ...mockWorkflowJobTemplateResponse[0],
+          survey_enabled: false,
+        };
+        jest
+          .spyOn(client as any, 'executeCatalogRequest')
+          .mockResolvedValueOnce([workflow]);
+        jest.spyOn(client as any, 'executeGetRequest');
+
+        const result = await client.syncWorkflowJobTemplates(undefined, []);
+
+        expect(result).toEqual([{ job: workflow, survey: null }]);
+        expect(client.executeGetRequest).not.toHaveBeenCalled();
+      });
+
+      it('should throw an error while fetching workflow job templates from AAP', async () => {
+        jest
+          .spyOn(client as any, 'executeCatalogRequest')
+          .mockRejectedValueOnce(new Error('API Error'));
+
+        await expect(
+          client.syncWorkflowJobTemplates(false, []),
+        ).rejects.toThrow(
+          'Error retrieving workflow job templates from /api/controller/v2/workflow_job_templates.',
+        );
+      });
+    });
+
     describe('rhAAPAuthenticate', () => {
       it('should authenticate with authorization code', async () => {
         const mockResponse = {
@@ -3249,6 +5472,7 @@ describe('AAPClient', () => {
       });
 
       it('should handle profile fetch error', async () => {
+        jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined);
         mockFetch.mockRejectedValue(new Error('Network error'));
 
         await expect(client.fetchProfile('test-token')).rejects.toThrow(
@@ -7,18 +7,44 @@ import {
   OAuthAuthenticatorResult,
   PassportProfile,
 } from '@backstage/plugin-auth-node';
-import { AuthenticationError } from '@backstage/errors';
+import {
+  AuthenticationError,
+  ServiceUnavailableError,
+} from '@backstage/errors';
 import uniqBy from 'lodash.uniqby';
 import {
   AAPTemplate,
   CleanUp,
+  CreateInventory,
+  CreateInventorySource,
+  CreateCredential,
+  CredentialData,
   ExecutionEnvironment,
+  InventoryData,
+  InventorySourceData,
+  InventoryUpdate,
+  PopulateInventory,
+  PopulatedInventory,
+  JobEvent,
+  AdHocCommandResult,
+  JobEventsPage,
+  HostSummary,
+  JobHostResults,
+  JobSummary,
+  CreateSchedule,
+  ScheduleSummary,
   JobTemplate,
+  LaunchedJob,
   LaunchJobTemplate,
+  LaunchWorkflowJobTemplate,
+  RunAdHocCommand,
+  WorkflowJobResult,
+  WorkflowNodeStatus,
   Organization,
   Project,
   AnsibleConfig,
   TokenResponse,
+  UpsertResult,
   PaginatedResponse,
   RoleAssignmentResponse,
   RoleAssignments,
@@ -26,9 +52,11 @@ import {
   User,
   Users,
   CatalogConfig,
+  AAPPaginationOptions,
 } from '../types';
 import {
   IJobTemplate,
+  IWorkflowJobTemplate,
   Collection,
   ISurvey,
   InstanceGroup,
@@ -41,43 +69,110 @@ import {
   validateAndFilterRepositories,
   appendCollectionsFromPage,
   fetchCollectionsPage,
-  extractNextUrl,
 } from './pahHelpers';
-
-export interface IAAPService extends Pick<
-  AAPClient,
-  | 'executePostRequest'
-  | 'executeGetRequest'
-  | 'executeDeleteRequest'
-  | 'getProject'
-  | 'deleteProject'
-  | 'deleteProjectIfExists'
-  | 'createProject'
-  | 'deleteExecutionEnvironmentExists'
-  | 'createExecutionEnvironment'
-  | 'deleteExecutionEnvironment'
-  | 'deleteJobTemplate'
-  | 'deleteJobTemplateIfExists'
-  | 'createJobTemplate'
-  | 'fetchEvents'
-  | 'fetchResult'
-  | 'launchJobTemplate'
-  | 'cleanUp'
-  | 'getResourceData'
-  | 'getJobTemplatesByName'
-  | 'setLogger'
-  | 'rhAAPAuthenticate'
-  | 'fetchProfile'
-  | 'getOrganizations'
-  | 'listSystemUsers'
-  | 'getTeamsByUserId'
-  | 'getUserRoleAssignments'
-  | 'syncJobTemplates'
-  | 'getOrgsByUserId'
-  | 'getUserInfoById'
-  | 'isValidPAHRepository'
-  | 'syncCollectionsByRepositories'
-> {}
+import { validateSurveyAnswers } from './surveyHelpers';
+import { AAPRequestPipeline } from './requestPipeline';
+import { paginate, withPageSize } from './pagination';
+import { AAPAuditMethod, AAPAuditService } from '../Audit';
+
+const JOB_FINISHED_STATUSES = ['successful', 'failed', 'error', 'canceled'];
+
+// default number of seconds to wait for a workflow job, an inventory update
+// or an ad hoc command
+const JOB_TIMEOUT_SECONDS = 3600;
+
+const isJobFinished = (status?: string) =>
+  !!status && JOB_FINISHED_STATUSES.includes(status.toString().toLowerCase());
+
+/** Options of the job template launches and the ad hoc commands. */
+type RunOptions = {
+  inventory?: number;
+  job_type?: string;
+  execution_environment?: number;
+  forks?: number;
+  limit?: string;
+  verbosity?: number;
+  diff_mode?: boolean;
+};
+
+export interface IAAPService
+  extends Pick<
+    AAPClient,
+    | 'executePostRequest'
+    | 'executeGetRequest'
+    | 'executeDeleteRequest'
+    | 'executePatchRequest'
+    | 'iteratePages'
+    | 'iterateItems'
+    | 'getProject'
+    | 'deleteProject'
+    | 'deleteProjectIfExists'
+    | 'createProject'
+    | 'ensureProject'
+    | 'deleteExecutionEnvironmentExists'
+    | 'createExecutionEnvironment'
+    | 'ensureExecutionEnvironment'
+    | 'deleteExecutionEnvironment'
+    | 'deleteJobTemplate'
+    | 'deleteJobTemplateIfExists'
+    | 'createJobTemplate'
+    | 'ensureJobTemplate'
+    | 'deleteInventoryIfExists'
+    | 'createInventory'
+    | 'populateInventory'
+    | 'createInventorySource'
+    | 'syncInventorySource'
+    | 'createCredential'
+    | 'addCredentialToJobTemplate'
+    | 'fetchEvents'
+    | 'fetchResult'
+    | 'launchJobTemplate'
+    | 'startJobTemplate'
+    | 'waitForJob'
+    | 'getJob'
+    | 'getJobEvents'
+    | 'getJobHostResults'
+    | 'getJobTemplateJobs'
+    | 'cancelJob'
+    | 'relaunchJob'
+    | 'createSchedule'
+    | 'getJobTemplateSchedules'
+    | 'deleteSchedule'
+    | 'launchWorkflowJobTemplate'
+    | 'getWorkflowJobNodes'
+    | 'runAdHocCommand'
+    | 'cleanUp'
+    | 'getResourceData'
+    | 'getJobTemplatesByName'
+    | 'setLogger'
+    | 'forInstance'
+    | 'rhAAPAuthenticate'
+    | 'fetchProfile'
+    | 'getOrganizations'
+    | 'listSystemUsers'
+    | 'getTeamsByUserId'
+    | 'getUserRoleAssignments'
+    | 'syncJobTemplates'
+    | 'syncWorkflowJobTemplates'
+    | 'getOrgsByUserId'
+    | 'getUserInfoById'
+    | 'isValidPAHRepository'
+    | 'syncCollectionsByRepositories'
+  > {}
+
+/**
+ * Thrown when a job did not succeed, with the per-host results of the job so
+ * that callers can report the failed hosts.
+ */
+export class AAPJobFailedError extends Error {
+  readonly job: JobHostResults;
+
+  constructor(message: string, job: JobHostResults) {
+    super(message);
+    this.name = 'AAPJobFailedError';
+    this.job = job;
+  }
+}
 
 export class AAPClient implements IAAPService {
   static readonly pluginLogName = 'backstage-rhaap-common';
@@ -86,19 +181,63 @@ export class AAPClient implements IAAPService {
   private readonly catalogConfig: CatalogConfig;
   private readonly proxyAgent: Agent;
   private readonly pluginLogName: string;
+  private readonly audit?: AAPAuditService;
+  private readonly instance?: string;
+  private readonly instanceClients = new Map<string, AAPClient>();
+  private readonly requests: AAPRequestPipeline;
   private logger: LoggerService;
 
-  constructor(options: { rootConfig: Config; logger: LoggerService }) {
+  constructor(options: {
+    rootConfig: Config;
+    logger: LoggerService;
+    audit?: AAPAuditService;
+    instance?: string;
+  }) {
     this.pluginLogName = AAPClient.pluginLogName;
     this.config = options.rootConfig;
-    this.ansibleConfig = getAnsibleConfig(this.config);
-    this.catalogConfig = getCatalogConfig(this.config);
+    this.instance = options.instance;
+    this.ansibleConfig = getAnsibleConfig(this.config, this.instance);
+    this.catalogConfig = getCatalogConfig(this.config, this.instance);
     this.logger = options.logger;
+    this.audit = options.audit;
     this.proxyAgent = new Agent({
       connect: {
         rejectUnauthorized: this.ansibleConfig.rhaap?.checkSSL ?? true,
       },
     });
+    this.requests = new AAPRequestPipeline({
+      config: this.ansibleConfig.rhaap?.requests,
+      sleep: ms => this.sleep(ms),
+    });
+  }
+
+  /**
+   * Polls a workflow job, an inventory update or an ad hoc command until it
+   * finishes and returns its last state. Throws when it is still running
+   * after the timeout, in seconds.
+   */
+  private async waitUntilFinished(
+    endpoint: string,
+    token: string,
+    description: string,
+    timeout: number,
+  ): Promise<any> {
+    const deadline = Date.now() + timeout * 1000;
+    let job;
+    while (!isJobFinished(job?.status)) {
+      if (Date.now() >= deadline) {
+        this.logger.error(
+          `${description} did not finish within ${timeout} seconds.`,
+        );
+        throw new Error(
+          `${description} did not finish within ${timeout} seconds`,
+        );
+      }
+      await this.sleep(2000);
+      const response = await this.executeGetRequest(endpoint, token);
+      job = await response.json();
+    }
+    return job;
   }
 
   private sleep(ms: number) {
@@ -110,20 +249,109 @@ export class AAPClient implements IAAPService {
     });
   }
 
+  private getJobUrl(jobID: number) {
+    return `${this.ansibleConfig.rhaap?.baseUrl}/execution/jobs/playbook/${jobID}/output`;
+  }
+
   public setLogger(logger: LoggerService) {
     this.logger = logger;
   }
 
+  /**
+   * Returns the client of the AAP instance configured under the key in
+   * ansible.rhaap.instances. The clients are created once per key.
+   */
+  public forInstance(instance: string): IAAPService {
+    if (instance === this.instance) {
+      return this;
+    }
+    let client = this.instanceClients.get(instance);
+    if (!client) {
+      client = new AAPClient({
+        rootConfig: this.config,
+        logger: this.logger,
+        audit: this.audit,
+        instance,
+      });
+      this.instanceClients.set(instance, client);
+    }
+    return client;
+  }
+
   private getBaseUrl() {
     // Normalize URL construction to avoid double slashes
     return this.ansibleConfig.rhaap?.baseUrl?.replace(/\/+$/, '') || '';
   }
 
+  /**
+   * Runs a mutating request and records it in the audit trail, with the id of
+   * the AAP object in the endpoint or, when it creates one, in the response.
+   */
+  private async withAudit(
+    method: AAPAuditMethod,
+    endPoint: string,
+    token: string | undefined,
+    request: () => Promise<any>,
+  ): Promise<any> {
+    if (!this.audit) {
+      return await request();
+    }
+    const endpoint = `/${endPoint.replace(/^\/+/, '')}`;
+    const tokenType =
+      token && token === this.ansibleConfig.rhaap?.token ? 'service' : 'user';
+    const idInEndpoint = /\/(\d+)\/?(?:[a-z_]+\/?)?(?:\?.*)?$/.exec(endpoint);
+    let resourceId = idInEndpoint ? Number(idInEndpoint[1]) : null;
+    try {
+      const response = await request();
+      if (resourceId === null && typeof response?.clone === 'function') {
+        const body: any = await response
+          .clone()
+          .json()
+          .catch(() => null);
+        resourceId = typeof body?.id === 'number' ? body.id : null;
+      }
+      await this.audit.record({
+        method,
+        endpoint,
+        resourceId,
+        tokenType,
+        outcome: 'success',
+        error: null,
+      });
+      return response;
+    } catch (error) {
+      await this.audit.record({
+        method,
+        endpoint,
+        resourceId,
+        tokenType,
+        outcome: 'failure',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   public async executePostRequest(
     endPoint: string,
     token?: string,
     data?: any,
     auth: boolean = false,
+  ): Promise<any> {
+    // exchanging credentials for a token does not change anything in AAP
+    if (auth && !token) {
+      return await this.sendPostRequest(endPoint, token, data, auth);
+    }
+    return await this.withAudit('POST', endPoint, token, () =>
+      this.sendPostRequest(endPoint, token, data, auth),
+    );
+  }
+
+  private async sendPostRequest(
+    endPoint: string,
+    token?: string,
+    data?: any,
+    auth: boolean = false,
   ): Promise<any> {
     const normalizedEndPoint = endPoint.replace(/^\/+/, '');
     const url = `${this.getBaseUrl()}/${normalizedEndPoint}`;
@@ -156,8 +384,14 @@ export class AAPClient implements IAAPService {
 
     let response;
     try {
-      response = await fetch(url, requestOptions);
+      response = await this.requests.execute('POST', url, () =>
+        fetch(url, requestOptions),
+      );
     } catch (error) {
+      if (error instanceof ServiceUnavailableError) {
+        this.logger.error(`[${this.pluginLogName}]: ${error.message}`);
+        throw error;
+      }
       this.logger.error(
         `[${this.pluginLogName}]: Failed to send POST request: ${error}`,
       );
@@ -233,8 +467,14 @@ export class AAPClient implements IAAPService {
     };
     let response;
     try {
-      response = await fetch(url, requestOptions);
+      response = await this.requests.execute('GET', url, () =>
+        fetch(url, requestOptions),
+      );
     } catch (error) {
+      if (error instanceof ServiceUnavailableError) {
+        this.logger.error(`[${this.pluginLogName}]: ${error.message}`);
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(`Failed to send fetch data: ${error.message}`);
       } else {
@@ -257,6 +497,15 @@ export class AAPClient implements IAAPService {
   public async executeDeleteRequest(
     endPoint: string,
     token: string,
+  ): Promise<any> {
+    return await this.withAudit('DELETE', endPoint, token, () =>
+      this.sendDeleteRequest(endPoint, token),
+    );
+  }
+
+  private async sendDeleteRequest(
+    endPoint: string,
+    token: string,
   ): Promise<any> {
     const normalizedEndPoint = endPoint.replace(/^\/+/, '');
     const url = `${this.getBaseUrl()}/${normalizedEndPoint}`;
@@ -273,8 +522,14 @@ export class AAPClient implements IAAPService {
     };
     let response;
     try {
-      response = await fetch(url, requestOptions);
+      response = await this.requests.execute('DELETE', url, () =>
+        fetch(url, requestOptions),
+      );
     } catch (error) {
+      if (error instanceof ServiceUnavailableError) {
+        this.logger.error(`[${this.pluginLogName}]: ${error.message}`);
+        throw error;
+      }
       this.logger.error(
         `[${this.pluginLogName}]: Error while executing delete request: ${error}.`,
       );
@@ -299,6 +554,119 @@ export class AAPClient implements IAAPService {
     return response;
   }
 
+  public async executePatchRequest(
+    endPoint: string,
+    token: string,
+    data: any,
+  ): Promise<any> {
+    return await this.withAudit('PATCH', endPoint, token, () =>
+      this.sendPatchRequest(endPoint, token, data),
+    );
+  }
+
+  private async sendPatchRequest(
+    endPoint: string,
+    token: string,
+    data: any,
+  ): Promise<any> {
+    const normalizedEndPoint = endPoint.replace(/^\/+/, '');
+    const url = `${this.getBaseUrl()}/${normalizedEndPoint}`;
+    this.logger.info(
+      `[${this.pluginLogName}]: Executing patch request to ${url}.`,
+    );
+    const requestOptions = {
+      method: 'PATCH',
+      dispatcher: this.proxyAgent,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(data),
+    };
+    let response;
+    try {
+      response = await this.requests.execute('PATCH', url, () =>
+        fetch(url, requestOptions),
+      );
+    } catch (error) {
+      if (error instanceof ServiceUnavailableError) {
+        this.logger.error(`[${this.pluginLogName}]: ${error.message}`);
+        throw error;
+      }
+      this.logger.error(
+        `[${this.pluginLogName}]: Failed to send PATCH request: ${error}`,
+      );
+      if (error instanceof Error) {
+        throw new Error(`Failed to send PATCH request: ${error.message}`);
+      } else {
+        throw new Error(`Failed to send PATCH request`);
+      }
+    }
+    if (!response.ok) {
+      this.logger.error(
+        `[${this.pluginLogName}] Failed to send PATCH request: ${response.statusText}`,
+      );
+      if (response.status === 403) {
+        throw new Error(
+          'Insufficient privileges. Please contact your administrator.',
+        );
+      } else {
+        throw new Error(`Failed to update data`);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Creates the object when no object of the `collection` matches `query`,
+   * otherwise PATCHes only the fields of `data` that differ from it.
+   */
+  private async upsertResource(
+    collection: string,
+    query: Record<string, string | number>,
+    data: Record<string, any>,
+    token: string,
+  ): Promise<UpsertResult<any>> {
+    const endPoint = `api/controller/v2/${collection}/`;
+    const urlSearchParams = new URLSearchParams(
+      Object.entries(query).map(([key, value]) => [key, String(value)]),
+    );
+    const existingResponse = await this.executeGetRequest(
+      `${endPoint}?${urlSearchParams.toString()}`,
+      token,
+    );
+    const existingList = await existingResponse.json();
+    if (!existingList.results?.length) {
+      this.logger.info(`Creating ${collection} ${data.name}.`);
+      const response = await this.executePostRequest(endPoint, token, data);
+      return { operation: 'created', data: await response.json() };
+    }
+    const existing = existingList.results[0];
+    const normalize = (value: any) =>
+      value === null || value === undefined ? '' : String(value);
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(
+        ([key, value]) =>
+          value !== undefined && normalize(value) !== normalize(existing[key]),
+      ),
+    );
+    if (!Object.keys(changes).length) {
+      this.logger.info(`The ${collection} ${data.name} is up to date.`);
+      return { operation: 'unchanged', data: existing };
+    }
+    this.logger.info(
+      `Updating ${Object.keys(changes).join(', ')} of ${collection} ${
+        data.name
+      }.`,
+    );
+    const response = await this.executePatchRequest(
+      `${endPoint}${existing.id}/`,
+      token,
+      changes,
+    );
+    return { operation: 'updated', data: await response.json() };
+  }
+
   public async getProject(projectID: number, token: string): Promise<Project> {
     const endPoint = `api/controller/v2/projects/${projectID}/`;
     const project = await this.executeGetRequest(endPoint, token);
@@ -343,7 +711,40 @@ export class AAPClient implements IAAPService {
       );
     }
     const endPoint = 'api/controller/v2/projects/';
-    const data = {
+    const data = this.getProjectData(payload);
+    this.logger.info(`Begin creating project ${payload.projectName}.`);
+    this.logger.info(
+      `[${AAPClient.pluginLogName}] Creating new AAP project at ${this.ansibleConfig.rhaap?.baseUrl} in organization ${payload.organization.name}.`,
+    );
+
+    const response = await this.executePostRequest(endPoint, token, data);
+    this.logger.info(`End creating project ${payload.projectName}.`);
+
+    return await this.waitForProject((await response.json()) as Project, token);
+  }
+
+  public async ensureProject(
+    payload: Project,
+    token: string,
+  ): Promise<UpsertResult<Project>> {
+    this.logger.info(`Begin ensuring project ${payload.projectName}.`);
+    const result = await this.upsertResource(
+      'projects',
+      { organization: payload.organization.id, name: payload.projectName },
+      this.getProjectData(payload),
+      token,
+    );
+    this.logger.info(
+      `End ensuring project ${payload.projectName}: ${result.operation}.`,
+    );
+    return {
+      operation: result.operation,
+      data: await this.waitForProject(result.data as Project, token),
+    };
+  }
+
+  private getProjectData(payload: Project) {
+    return {
       name: payload.projectName,
       description: payload?.projectDescription ?? '',
       organization: payload.organization.id,
@@ -353,15 +754,13 @@ export class AAPClient implements IAAPService {
       credential: payload.credentials?.id,
       scm_update_on_launch: payload.scmUpdateOnLaunch,
     };
-    this.logger.info(`Begin creating project ${payload.projectName}.`);
-    this.logger.info(
-      `[${AAPClient.pluginLogName}] Creating new AAP project at ${this.ansibleConfig.rhaap?.baseUrl} in organization ${payload.organization.name}.`,
-    );
-
-    const response = await this.executePostRequest(endPoint, token, data);
-    this.logger.info(`End creating project ${payload.projectName}.`);
+  }
 
-    let projectData = (await response.json()) as Project;
+  private async waitForProject(
+    project: Project,
+    token: string,
+  ): Promise<Project> {
+    let projectData = project;
     const waitStatuses = ['new', 'pending', 'waiting', 'running'];
 
     let projectStatus = projectData.status;
@@ -438,13 +837,7 @@ export class AAPClient implements IAAPService {
       );
     }
     const endPoint = 'api/controller/v2/execution_environments/';
-    const data = {
-      name: payload.environmentName,
-      description: payload?.environmentDescription ?? '',
-      organization: payload.organization.id,
-      image: payload.image,
-      pull: payload.pull,
-    };
+    const data = this.getExecutionEnvironmentData(payload);
     this.logger.info(
       `[${this.pluginLogName}] Scaffolder creating new AAP execution environment at ${this.ansibleConfig.rhaap?.baseUrl}.`,
     );
@@ -460,6 +853,37 @@ export class AAPClient implements IAAPService {
     return eeData;
   }
 
+  public async ensureExecutionEnvironment(
+    payload: ExecutionEnvironment,
+    token: string,
+  ): Promise<UpsertResult<ExecutionEnvironment>> {
+    this.logger.info(
+      `Begin ensuring execution environment ${payload.environmentName}.`,
+    );
+    const result = await this.upsertResource(
+      'execution_environments',
+      { name: payload.environmentName },
+      this.getExecutionEnvironmentData(payload),
+      token,
+    );
+    this.logger.info(
+      `End ensuring execution environment ${payload.environmentName}: ${result.operation}.`,
+    );
+    const eeData = result.data as ExecutionEnvironment;
+    eeData.url = `${this.ansibleConfig.rhaap?.baseUrl}/execution/infrastructure/execution-environments/${eeData.id}/details`;
+    return { operation: result.operation, data: eeData };
+  }
+
+  private getExecutionEnvironmentData(payload: ExecutionEnvironment) {
+    return {
+      name: payload.environmentName,
+      description: payload?.environmentDescription ?? '',
+      organization: payload.organization.id,
+      image: payload.image,
+      pull: payload.pull,
+    };
+  }
+
   public async deleteExecutionEnvironment(
     environmentID: number,
     token: string,
@@ -528,6 +952,35 @@ export class AAPClient implements IAAPService {
       );
     }
     const endPoint = 'api/controller/v2/job_templates/';
+    const data = await this.getJobTemplateData(payload);
+    this.logger.info(`Begin creating job template ${payload.templateName}.`);
+    const response = await this.executePostRequest(endPoint, token, data);
+    const jobTemplate = (await response.json()) as JobTemplate;
+    this.logger.info(`End creating job template ${payload.templateName}.`);
+    jobTemplate.url = `${this.ansibleConfig.rhaap?.baseUrl}/execution/templates/job-template/${jobTemplate.id}/details`;
+    return jobTemplate;
+  }
+
+  public async ensureJobTemplate(
+    payload: JobTemplate,
+    token: string,
+  ): Promise<UpsertResult<JobTemplate>> {
+    this.logger.info(`Begin ensuring job template ${payload.templateName}.`);
+    const result = await this.upsertResource(
+      'job_templates',
+      { organization: payload.organization.id, name: payload.templateName },
+      await this.getJobTemplateData(payload),
+      token,
+    );
+    this.logger.info(
+      `End ensuring job template ${payload.templateName}: ${result.operation}.`,
+    );
+    const jobTemplate = result.data as JobTemplate;
+    jobTemplate.url = `${this.ansibleConfig.rhaap?.baseUrl}/execution/templates/job-template/${jobTemplate.id}/details`;
+    return { operation: result.operation, data: jobTemplate };
+  }
+
+  private async getJobTemplateData(payload: JobTemplate) {
     let extraVariables;
     extraVariables = payload?.extraVariables
       ? JSON.parse(JSON.stringify(payload.extraVariables))
@@ -549,7 +1002,7 @@ export class AAPClient implements IAAPService {
         );
       }
     }
-    const data = {
+    return {
       name: payload.templateName,
       description: payload?.templateDescription ?? '',
       job_type: 'run',
@@ -559,12 +1012,333 @@ export class AAPClient implements IAAPService {
       execution_environment: payload?.executionEnvironment?.id ?? '',
       extra_vars: extraVariables ? YAML.stringify(extraVariables) : '',
     };
-    this.logger.info(`Begin creating job template ${payload.templateName}.`);
-    const response = await this.executePostRequest(endPoint, token, data);
-    const jobTemplate = (await response.json()) as JobTemplate;
-    this.logger.info(`End creating job template ${payload.templateName}.`);
-    jobTemplate.url = `${this.ansibleConfig.rhaap?.baseUrl}/execution/templates/job-template/${jobTemplate.id}/details`;
-    return jobTemplate;
+  }
+
+  private toVariables(variables?: string | object): string {
+    if (!variables) {
+      return '';
+    }
+    return typeof variables === 'string'
+      ? variables
+      : YAML.stringify(variables);
+  }
+
+  public async deleteInventoryIfExists(
+    name: string,
+    organization: Organization,
+    token: string,
+  ): Promise<void> {
+    this.logger.info(
+      `Check if inventory with name ${name} exist in organization ${organization.name}.`,
+    );
+    const urlSearchParams = new URLSearchParams({
+      organization: String(organization.id),
+      name,
+    });
+    const inventories = await this.executeGetRequest(
+      `api/controller/v2/inventories/?${urlSearchParams.toString()}`,
+      token,
+    );
+    const inventoryList = await inventories.json();
+    if (inventoryList.results.length === 1) {
+      const inventoryID = inventoryList.results[0].id;
+      this.logger.info(`Delete inventory with id: ${inventoryID}.`);
+      await this.executeDeleteRequest(
+        `api/controller/v2/inventories/${inventoryID}/`,
+        token,
+      );
+      this.logger.info(`End delete inventory with id: ${inventoryID}.`);
+    }
+  }
+
+  public async createInventory(
+    payload: CreateInventory,
+    deleteIfExist: boolean,
+    token: string,
+  ): Promise<InventoryData> {
+    if (deleteIfExist) {
+      await this.deleteInventoryIfExists(
+        payload.inventoryName,
+        payload.organization,
+        token,
+      );
+    }
+    const data = {
+      name: payload.inventoryName,
+      description: payload?.inventoryDescription ?? '',
+      organization: payload.organization.id,
+      variables: this.toVariables(payload.variables),
+    };
+    this.logger.info(`Begin creating inventory ${payload.inventoryName}.`);
+    const response = await this.executePostRequest(
+      'api/controller/v2/inventories/',
+      token,
+      data,
+    );
+    const inventory = await response.json();
+    this.logger.info(`End creating inventory ${payload.inventoryName}.`);
+    return {
+      id: inventory.id,
+      name: inventory.name,
+      description: inventory.description,
+      organization: inventory.organization,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/infrastructure/inventories/inventory/${inventory.id}/details`,
+    };
+  }
+
+  /**
+   * Adds groups and hosts to an inventory. Groups are created first so that
+   * hosts and child groups can be associated with them by name.
+   */
+  public async populateInventory(
+    payload: PopulateInventory,
+    token: string,
+  ): Promise<PopulatedInventory> {
+    const inventoryID = payload.inventory.id;
+    // reject unknown group references before anything is created
+    const groupNames = new Set((payload.groups ?? []).map(group => group.name));
+    const unknownGroups = [
+      ...(payload.groups ?? []).flatMap(group => group.children ?? []),
+      ...(payload.hosts ?? []).flatMap(host => host.groups ?? []),
+    ].filter(name => !groupNames.has(name));
+    if (unknownGroups.length) {
+      throw new Error(
+        `Groups ${[...new Set(unknownGroups)].join(
+          ', ',
+        )} are not part of the groups of the inventory.`,
+      );
+    }
+    const groupIDs = new Map<string, number>();
+    const getGroupID = (name: string) => groupIDs.get(name) as number;
+
+    for (const group of payload.groups ?? []) {
+      this.logger.info(`Adding group ${group.name} to inventory.`);
+      const response = await this.executePostRequest(
+        `api/controller/v2/inventories/${inventoryID}/groups/`,
+        token,
+        {
+          name: group.name,
+          description: group.description ?? '',
+          variables: this.toVariables(group.variables),
+        },
+      );
+      groupIDs.set(group.name, (await response.json()).id);
+    }
+    for (const group of payload.groups ?? []) {
+      for (const child of group.children ?? []) {
+        await this.executePostRequest(
+          `api/controller/v2/groups/${getGroupID(group.name)}/children/`,
+          token,
+          { id: getGroupID(child) },
+        );
+      }
+    }
+
+    const hosts = [];
+    for (const host of payload.hosts ?? []) {
+      this.logger.info(`Adding host ${host.name} to inventory.`);
+      const response = await this.executePostRequest(
+        `api/controller/v2/inventories/${inventoryID}/hosts/`,
+        token,
+        {
+          name: host.name,
+          description: host.description ?? '',
+          variables: this.toVariables(host.variables),
+        },
+      );
+      const hostID = (await response.json()).id;
+      for (const group of host.groups ?? []) {
+        await this.executePostRequest(
+          `api/controller/v2/groups/${getGroupID(group)}/hosts/`,
+          token,
+          { id: hostID },
+        );
+      }
+      hosts.push({ id: hostID, name: host.name });
+    }
+
+    return {
+      groups: [...groupIDs].map(([name, id]) => ({ id, name })),
+      hosts,
+    };
+  }
+
+  public async createInventorySource(
+    payload: CreateInventorySource,
+    token: string,
+  ): Promise<InventorySourceData> {
+    const data = {
+      name: payload.sourceName,
+      description: payload?.sourceDescription ?? '',
+      inventory: payload.inventory.id,
+      source: payload.source,
+      source_vars: this.toVariables(payload.sourceVars),
+    } as {
+      name: string;
+      description: string;
+      inventory: number;
+      source: string;
+      source_vars: string;
+      source_project?: number;
+      source_path?: string;
+      credential?: number;
+      overwrite?: boolean;
+      overwrite_vars?: boolean;
+      update_on_launch?: boolean;
+    };
+    if (payload?.sourceProject?.id) {
+      data.source_project = payload.sourceProject.id;
+    }
+    if (payload?.sourcePath) {
+      data.source_path = payload.sourcePath;
+    }
+    if (payload?.credential?.id) {
+      data.credential = payload.credential.id;
+    }
+    if (payload?.overwrite !== undefined) {
+      data.overwrite = payload.overwrite;
+    }
+    if (payload?.overwriteVars !== undefined) {
+      data.overwrite_vars = payload.overwriteVars;
+    }
+    if (payload?.updateOnLaunch !== undefined) {
+      data.update_on_launch = payload.updateOnLaunch;
+    }
+    this.logger.info(`Begin creating inventory source ${payload.sourceName}.`);
+    const response = await this.executePostRequest(
+      'api/controller/v2/inventory_sources/',
+      token,
+      data,
+    );
+    const inventorySource = await response.json();
+    this.logger.info(`End creating inventory source ${payload.sourceName}.`);
+    return {
+      id: inventorySource.id,
+      name: inventorySource.name,
+      inventory: inventorySource.inventory,
+      source: inventorySource.source,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/infrastructure/inventories/inventory/${inventorySource.inventory}/sources/${inventorySource.id}/details`,
+    };
+  }
+
+  /**
+   * Updates the inventory source and waits for the update to finish, at most
+   * `timeout` seconds.
+   */
+  public async syncInventorySource(
+    sourceID: number,
+    token: string,
+    timeout: number = JOB_TIMEOUT_SECONDS,
+  ): Promise<InventoryUpdate> {
+    this.logger.info(`Start updating inventory source ${sourceID}.`);
+    const response = await this.executePostRequest(
+      `api/controller/v2/inventory_sources/${sourceID}/update/`,
+      token,
+      {},
+    );
+    const launchJson = await response.json();
+    const updateID = launchJson.inventory_update ?? launchJson.id;
+    this.logger.info(`Waiting for result of the inventory update.`);
+
+    const inventoryUpdate = await this.waitUntilFinished(
+      `api/controller/v2/inventory_updates/${updateID}/`,
+      token,
+      `Inventory update ${updateID}`,
+      timeout,
+    );
+
+    if (inventoryUpdate.status !== 'successful') {
+      const reason =
+        inventoryUpdate.result_traceback || `status ${inventoryUpdate.status}`;
+      this.logger.error(`Inventory update failed: ${reason}`);
+      throw new Error(
+        `Inventory source update failed with status ${inventoryUpdate.status}`,
+      );
+    }
+    this.logger.info(`The inventory source is up to date.`);
+    return {
+      id: updateID,
+      status: inventoryUpdate.status,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/jobs/inventory/${updateID}/output`,
+    };
+  }
+
+  /**
+   * Creates a credential of the given credential type. Secret fields of the
+   * type are only accepted through `secretInputs` and are never logged.
+   */
+  public async createCredential(
+    payload: CreateCredential,
+    secretInputs: Record<string, string>,
+    token: string,
+  ): Promise<CredentialData> {
+    const typeResponse = await this.executeGetRequest(
+      `api/controller/v2/credential_types/${payload.credentialType.id}/`,
+      token,
+    );
+    const credentialType = await typeResponse.json();
+    const secretFields: string[] = (credentialType.inputs?.fields ?? [])
+      .filter((field: any) => field.secret)
+      .map((field: any) => field.id);
+    const plainSecrets = Object.keys(payload?.inputs ?? {}).filter(field =>
+      secretFields.includes(field),
+    );
+    if (plainSecrets.length) {
+      throw new Error(
+        `Secret fields ${plainSecrets.join(
+          ', ',
+        )} must be provided through the task secrets.`,
+      );
+    }
+
+    const data = {
+      name: payload.credentialName,
+      description: payload?.credentialDescription ?? '',
+      organization: payload.organization.id,
+      credential_type: payload.credentialType.id,
+      inputs: { ...(payload?.inputs ?? {}), ...secretInputs },
+    };
+    this.logger.info(
+      `Begin creating ${credentialType.name} credential ${payload.credentialName}.`,
+    );
+    const response = await this.executePostRequest(
+      'api/controller/v2/credentials/',
+      token,
+      data,
+    );
+    const credential = await response.json();
+    this.logger.info(`End creating credential ${payload.credentialName}.`);
+
+    if (payload?.jobTemplate?.id) {
+      await this.addCredentialToJobTemplate(
+        payload.jobTemplate.id,
+        credential.id,
+        token,
+      );
+    }
+    return {
+      id: credential.id,
+      name: credential.name,
+      kind: credential.kind ?? credentialType.kind,
+      credentialType: credential.credential_type,
+      jobTemplate: payload?.jobTemplate?.id,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/access/credentials/${credential.id}/details`,
+    };
+  }
+
+  public async addCredentialToJobTemplate(
+    jobTemplateID: number,
+    credentialID: number,
+    token: string,
+  ): Promise<void> {
+    this.logger.info(
+      `Adding credential ${credentialID} to job template ${jobTemplateID}.`,
+    );
+    await this.executePostRequest(
+      `api/controller/v2/job_templates/${jobTemplateID}/credentials/`,
+      token,
+      { id: credentialID },
+    );
   }
 
   public async fetchEvents(
@@ -596,11 +1370,7 @@ export class AAPClient implements IAAPService {
       const jobDetailResponse = await this.executeGetRequest(endPoint, token);
       jobDetailResponseData = await jobDetailResponse.json();
       const status = jobDetailResponseData.status;
-      if (
-        ['successful', 'failed', 'error', 'canceled'].includes(
-          status.toString().toLowerCase(),
-        )
-      ) {
+      if (isJobFinished(status)) {
         shouldWait = false;
         break;
       }
@@ -611,96 +1381,143 @@ export class AAPClient implements IAAPService {
     };
   }
 
-  public async launchJobTemplate(
-    payload: Omit<LaunchJobTemplate, 'token'>,
-    token: string,
-  ): Promise<any> {
-    const data = { extra_vars: payload?.extraVariables ?? '' } as {
-      inventory?: number;
-      job_type?: string;
-      executionEnvironment?: number;
-      execution_environment?: number;
-      forks?: number;
-      limit?: string;
-      verbosity?: number;
-      job_slice_count?: number;
-      timeout?: number;
-      diff_mode?: boolean;
-      job_tags?: string;
-      skip_tags?: string;
-      extra_vars?: object | string;
-      credentials?: number[];
-    };
+  /**
+   * Returns the inventory and the run options shared by the job template
+   * launches and the ad hoc commands, in the format of the AAP API.
+   */
+  private getRunOptions(
+    payload: Pick<
+      LaunchJobTemplate,
+      | 'inventory'
+      | 'jobType'
+      | 'executionEnvironment'
+      | 'forks'
+      | 'limit'
+      | 'verbosity'
+      | 'diffMode'
+    >,
+  ): RunOptions {
+    const options: RunOptions = {};
     if (payload?.inventory?.id) {
-      data.inventory = payload.inventory.id;
+      options.inventory = payload.inventory.id;
     }
     if (payload?.jobType) {
-      data.job_type = payload.jobType;
+      options.job_type = payload.jobType;
     }
     if (payload?.executionEnvironment?.id) {
-      data.execution_environment = payload.executionEnvironment.id;
+      options.execution_environment = payload.executionEnvironment.id;
     }
     if (payload?.forks || payload.forks === 0) {
-      data.forks = payload.forks;
+      options.forks = payload.forks;
     }
     if (payload?.limit) {
-      data.limit = payload.limit;
+      options.limit = payload.limit;
     }
     if (payload?.verbosity?.id !== undefined) {
-      data.verbosity = payload.verbosity.id;
+      options.verbosity = payload.verbosity.id;
+    }
+    if (payload?.diffMode !== undefined) {
+      options.diff_mode = payload.diffMode;
+    }
+    return options;
+  }
+
+  /**
+   * Returns the ids of the credentials to run with. AAP does not accept
+   * several credentials of the same type.
+   */
+  private getCredentialIds(
+    credentials: {
+      id: number;
+      name?: string;
+      credential_type?: number;
+      summary_fields?: Record<string, { id: number; name: string }>;
+    }[],
+  ): number[] {
+    const seen = new Set();
+    const duplicates: string[] = [];
+    credentials.some(currentObject => {
+      if (!currentObject.credential_type) {
+        return false;
+      }
+      if (seen.size === seen.add(currentObject.credential_type).size) {
+        const credentialTypeName =
+          currentObject.summary_fields?.credential_type?.name ||
+          currentObject.name ||
+          'Unknown';
+        duplicates.push(credentialTypeName);
+        return true;
+      }
+      return false;
+    });
+    if (duplicates.length) {
+      this.logger.error(
+        `Cannot assign multiple credentials of the same type. Duplicated credential types are: ${duplicates.join(
+          ', ',
+        )}`,
+      );
+      throw new Error(
+        `Cannot assign multiple credentials of the same type. Duplicated credential types are: ${duplicates.join(
+          ', ',
+        )}`,
+      );
     }
+    return credentials
+      .filter(c => c.id !== undefined && c.id !== null)
+      .map(c => c.id);
+  }
+
+  public async startJobTemplate(
+    payload: Omit<LaunchJobTemplate, 'token'>,
+    token: string,
+  ): Promise<LaunchedJob> {
+    const data = {
+      extra_vars: payload?.extraVariables ?? '',
+      ...this.getRunOptions(payload),
+    } as RunOptions & {
+      job_slice_count?: number;
+      timeout?: number;
+      job_tags?: string;
+      skip_tags?: string;
+      scm_branch?: string;
+      labels?: number[];
+      instance_groups?: number[];
+      extra_vars?: object | string;
+      credentials?: number[];
+    };
     if (payload?.jobSliceCount || payload.jobSliceCount === 0) {
       data.job_slice_count = payload.jobSliceCount;
     }
     if (payload?.timeout || payload.timeout === 0) {
       data.timeout = payload.timeout;
     }
-    if (payload?.diffMode || payload.diffMode === false) {
-      data.diff_mode = payload.diffMode;
-    }
     if (payload?.jobTags) {
       data.job_tags = payload.jobTags;
     }
     if (payload?.skipTags) {
       data.skip_tags = payload.skipTags;
     }
-
+    if (payload?.scmBranch) {
+      data.scm_branch = payload.scmBranch;
+    }
+    if (payload?.labels?.length) {
+      data.labels = payload.labels.map(label => label.id);
+    }
+    if (payload?.instanceGroups?.length) {
+      // AAP tries the instance groups in the given order.
+      data.instance_groups = payload.instanceGroups.map(group => group.id);
+    }
     if (payload?.credentials?.length) {
-      const seen = new Set();
-      const duplicates: string[] = [];
-      payload.credentials.some(currentObject => {
-        if (!currentObject.credential_type) {
-          return false;
-        }
-        if (seen.size === seen.add(currentObject.credential_type).size) {
-          const credentialTypeName =
-            currentObject.summary_fields?.credential_type?.name ||
-            currentObject.name ||
-            'Unknown';
-          duplicates.push(credentialTypeName);
-          return true;
-        }
-        return false;
-      });
-      if (duplicates.length) {
-        this.logger.error(
-          `Cannot assign multiple credentials of the same type. Duplicated credential types are: ${duplicates.join(', ')}`,
-        );
-        throw new Error(
-          `Cannot assign multiple credentials of the same type. Duplicated credential types are: ${duplicates.join(
-            ', ',
-          )}`,
-        );
-      }
-      data.credentials = payload.credentials
-        .filter(c => c.id !== undefined && c.id !== null)
-        .map(c => c.id);
+      data.credentials = this.getCredentialIds(payload.credentials);
     }
 
     let templateID;
+    let surveyEnabled = false;
     const urlSearchParams = new URLSearchParams();
     urlSearchParams.set('name', payload.template);
-    const templateIdEndpoint = `api/controller/v2/job_templates/?${decodeURIComponent(urlSearchParams.toString())}`;
+    const templateIdEndpoint = `api/controller/v2/job_templates/?${decodeURIComponent(
+      urlSearchParams.toString(),
+    )}`;
     try {
       const templateResponse = await this.executeGetRequest(
         templateIdEndpoint,
@@ -715,6 +1532,7 @@ export class AAPClient implements IAAPService {
         throw new Error(`No job template found with name: ${payload.template}`);
       }
       templateID = templateJsonResp.results[0].id;
+      surveyEnabled = !!templateJsonResp.results[0].survey_enabled;
     } catch (e) {
       this.logger.error(
         `Failed to fetch job template ${payload.template}. Please make sure that the template name is correct and template is available on AAP. ${e}`,
@@ -722,12 +1540,65 @@ export class AAPClient implements IAAPService {
       throw e;
     }
 
+    if (surveyEnabled) {
+      data.extra_vars = await this.validateSurvey(
+        templateID,
+        data.extra_vars,
+        token,
+      );
+    }
+
     const endPoint = `api/controller/v2/job_templates/${templateID}/launch/`;
 
-    this.logger.info(`Start executing job template.`);
-    const response = await this.executePostRequest(endPoint, token, data);
-    const jobResponseJson = await response.json();
-    const jobID = jobResponseJson.job;
+    this.logger.info(`Start executing job template.`);
+    const response = await this.executePostRequest(endPoint, token, data);
+    const jobResponseJson = await response.json();
+    const jobID = jobResponseJson.job;
+    return {
+      id: jobID,
+      status: jobResponseJson.status ?? 'pending',
+      url: this.getJobUrl(jobID),
+    };
+  }
+
+  private async validateSurvey(
+    templateID: number,
+    extraVariables: object | string | undefined,
+    token: string,
+  ): Promise<object> {
+    const surveyResponse = await this.executeGetRequest(
+      `api/controller/v2/job_templates/${templateID}/survey_spec/`,
+      token,
+    );
+    const survey = (await surveyResponse.json()) as ISurvey;
+    let answers = extraVariables ?? {};
+    if (typeof answers === 'string') {
+      answers = answers.trim() ? YAML.parse(answers) ?? {} : {};
+    }
+    const { answers: validAnswers, errors } = validateSurveyAnswers(
+      survey.spec ?? [],
+      answers as Record<string, any>,
+    );
+    if (errors.length) {
+      errors.forEach(error => this.logger.error(error));
+      throw new Error(`Invalid survey answers: ${errors.join(' ')}`);
+    }
+    return validAnswers;
+  }
+
+  public async launchJobTemplate(
+    payload: Omit<LaunchJobTemplate, 'token'>,
+    token: string,
+  ): Promise<any> {
+    const { id: jobID } = await this.startJobTemplate(payload, token);
+    return await this.waitForJob(jobID, token);
+  }
+
+  /**
+   * Waits for a launched job to finish and returns its result, the same as
+   * launchJobTemplate. Throws when the job did not succeed.
+   */
+  public async waitForJob(jobID: number, token: string): Promise<any> {
     this.logger.info(`Waiting for result of the executed job template.`);
 
     let lastEvent;
@@ -751,9 +1622,24 @@ export class AAPClient implements IAAPService {
         }
       });
       if (result.jobData.status !== 'successful') {
+        const failedJob = await this.getJobHostResults(
+          jobID,
+          token,
+          result.jobData.status,
+        );
+        failedJob.hostSummaries
+          .filter(summary => summary.failed || summary.unreachable)
+          .forEach(summary =>
+            this.logger.error(
+              `Host ${summary.host}: ${summary.failed} failed, ${summary.unreachable} unreachable.`,
+            ),
+          );
         lastEvent = matchRegex[matchRegex.length - 1][1];
         this.logger.error(`Job failed: ${lastEvent}`);
-        throw new Error(`Job execution failed due to ${lastEvent}`);
+        throw new AAPJobFailedError(
+          `Job execution failed due to ${lastEvent}`,
+          failedJob,
+        );
       }
     } catch (error) {
       if (
@@ -771,10 +1657,420 @@ export class AAPClient implements IAAPService {
     }
 
     return {
-      id: jobID,
-      status: result.jobData.status,
+      ...(await this.getJobHostResults(jobID, token, result.jobData.status)),
       events: result.jobEvents,
-      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/jobs/playbook/${jobID}/output`,
+    };
+  }
+
+  /**
+   * Returns the per-host results of a finished job, with the names of the
+   * hosts that failed or were unreachable.
+   */
+  public async getJobHostResults(
+    jobID: number,
+    token: string,
+    status?: string,
+  ): Promise<JobHostResults> {
+    const hostSummaries = await this.getJobHostSummaries(jobID, token);
+    return {
+      id: jobID,
+      status: status ?? (await this.getJob(jobID, token)).status,
+      url: this.getJobUrl(jobID),
+      hostSummaries,
+      failedHosts: hostSummaries
+        .filter(summary => summary.failed || summary.unreachable)
+        .map(summary => summary.host),
+    };
+  }
+
+  private async getJobHostSummaries(
+    jobID: number,
+    token: string,
+  ): Promise<HostSummary[]> {
+    try {
+      const summaries = (await this.executeCatalogRequest(
+        `api/controller/v2/jobs/${jobID}/job_host_summaries/?page_size=200`,
+        token,
+      )) as any[];
+      return summaries.map(summary => ({
+        host: summary.host_name,
+        ok: summary.ok ?? 0,
+        changed: summary.changed ?? 0,
+        failed: summary.failures ?? 0,
+        unreachable: summary.dark ?? 0,
+        skipped: summary.skipped ?? 0,
+      }));
+    } catch (error) {
+      // the summary only adds detail to the job result, it must not change it
+      this.logger.warn(`Failed to fetch host summaries of job ${jobID}.`);
+      return [];
+    }
+  }
+
+  /**
+   * Lists the most recent jobs of a job template. The token of the signed-in
+   * user is used, so only the jobs the user is allowed to see are returned.
+   */
+  public async getJobTemplateJobs(
+    templateID: number,
+    token: string,
+    limit: number = 10,
+  ): Promise<JobSummary[]> {
+    const response = await this.executeGetRequest(
+      `api/controller/v2/job_templates/${templateID}/jobs/?order_by=-created&page_size=${limit}`,
+      token,
+    );
+    const json = await response.json();
+    return await Promise.all(
+      (json.results ?? []).map(async (job: any) => {
+        // host counts are only part of the job detail, not of the job list
+        const detailResponse = await this.executeGetRequest(
+          `api/controller/v2/jobs/${job.id}/`,
+          token,
+        );
+        const detail = await detailResponse.json();
+        const counts = detail.host_status_counts ?? {};
+        return {
+          id: job.id,
+          name: job.name,
+          status: job.status,
+          started: job.started ?? null,
+          finished: job.finished ?? null,
+          elapsed: job.elapsed ?? 0,
+          launchedBy:
+            job.summary_fields?.launched_by?.name ??
+            job.summary_fields?.created_by?.username ??
+            null,
+          url: this.getJobUrl(job.id),
+          hostStatusCounts: {
+            ok: counts.ok ?? 0,
+            changed: counts.changed ?? 0,
+            failed: counts.failures ?? 0,
+            unreachable: counts.dark ?? 0,
+            skipped: counts.skipped ?? 0,
+          },
+        };
+      }),
+    );
+  }
+
+  public async cancelJob(jobID: number, token: string): Promise<void> {
+    this.logger.info(`Cancel job with id ${jobID}.`);
+    await this.executePostRequest(
+      `api/controller/v2/jobs/${jobID}/cancel/`,
+      token,
+    );
+  }
+
+  /**
+   * Relaunches a job with the same launch configuration, either on all hosts
+   * or only on the hosts that failed in the previous run.
+   */
+  public async relaunchJob(
+    jobID: number,
+    token: string,
+    hosts: 'all' | 'failed' = 'all',
+  ): Promise<LaunchedJob> {
+    this.logger.info(`Relaunch job with id ${jobID} on ${hosts} hosts.`);
+    const response = await this.executePostRequest(
+      `api/controller/v2/jobs/${jobID}/relaunch/`,
+      token,
+      { hosts },
+    );
+    const job = await response.json();
+    return {
+      id: job.id ?? job.job,
+      status: job.status ?? 'pending',
+      url: this.getJobUrl(job.id ?? job.job),
+    };
+  }
+
+  private toScheduleSummary(
+    schedule: any,
+    templateID: number,
+  ): ScheduleSummary {
+    return {
+      id: schedule.id,
+      name: schedule.name,
+      description: schedule.description ?? '',
+      rrule: schedule.rrule,
+      enabled: schedule.enabled ?? true,
+      nextRun: schedule.next_run ?? null,
+      extraVariables: schedule.extra_data ?? {},
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/templates/job-template/${templateID}/schedules/${schedule.id}/details`,
+    };
+  }
+
+  /**
+   * Creates a schedule launching the job template at the times given by an
+   * iCalendar rrule, for example
+   * `DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1`.
+   */
+  public async createSchedule(
+    payload: CreateSchedule,
+    token: string,
+  ): Promise<ScheduleSummary> {
+    let extraData = payload.extraVariables ?? {};
+    if (typeof extraData === 'string') {
+      extraData = extraData.trim() ? YAML.parse(extraData) ?? {} : {};
+    }
+    this.logger.info(
+      `Create schedule ${payload.scheduleName} of job template ${payload.jobTemplate.id}.`,
+    );
+    const response = await this.executePostRequest(
+      `api/controller/v2/job_templates/${payload.jobTemplate.id}/schedules/`,
+      token,
+      {
+        name: payload.scheduleName,
+        description: payload.scheduleDescription ?? '',
+        rrule: payload.rrule,
+        extra_data: extraData,
+        enabled: payload.enabled ?? true,
+      },
+    );
+    const schedule = await response.json();
+    return this.toScheduleSummary(schedule, payload.jobTemplate.id);
+  }
+
+  public async getJobTemplateSchedules(
+    templateID: number,
+    token: string,
+  ): Promise<ScheduleSummary[]> {
+    const response = await this.executeGetRequest(
+      `api/controller/v2/job_templates/${templateID}/schedules/?order_by=next_run&page_size=200`,
+      token,
+    );
+    const json = await response.json();
+    return (json.results ?? []).map((schedule: any) =>
+      this.toScheduleSummary(schedule, templateID),
+    );
+  }
+
+  public async deleteSchedule(
+    scheduleID: number,
+    token: string,
+  ): Promise<void> {
+    this.logger.info(`Delete schedule with id ${scheduleID}.`);
+    await this.executeDeleteRequest(
+      `api/controller/v2/schedules/${scheduleID}/`,
+      token,
+    );
+  }
+
+  public async launchWorkflowJobTemplate(
+    payload: Omit<LaunchWorkflowJobTemplate, 'token'>,
+    token: string,
+  ): Promise<WorkflowJobResult> {
+    const data = { extra_vars: payload?.extraVariables ?? '' } as {
+      inventory?: number;
+      limit?: string;
+      scm_branch?: string;
+      extra_vars?: object | string;
+    };
+    if (payload?.inventory?.id) {
+      data.inventory = payload.inventory.id;
+    }
+    if (payload?.limit) {
+      data.limit = payload.limit;
+    }
+    if (payload?.scmBranch) {
+      data.scm_branch = payload.scmBranch;
+    }
+
+    const urlSearchParams = new URLSearchParams();
+    urlSearchParams.set('name', payload.template);
+    const templateResponse = await this.executeGetRequest(
+      `api/controller/v2/workflow_job_templates/?${decodeURIComponent(
+        urlSearchParams.toString(),
+      )}`,
+      token,
+    );
+    const templateJsonResp = await templateResponse.json();
+    if (!templateJsonResp.results || templateJsonResp.results.length === 0) {
+      this.logger.error(
+        `No workflow job template found with name: ${payload.template}. Please check the template name and access.`,
+      );
+      throw new Error(
+        `No workflow job template found with name: ${payload.template}`,
+      );
+    }
+    const templateID = templateJsonResp.results[0].id;
+
+    this.logger.info(`Start executing workflow job template.`);
+    const response = await this.executePostRequest(
+      `api/controller/v2/workflow_job_templates/${templateID}/launch/`,
+      token,
+      data,
+    );
+    const launchJson = await response.json();
+    const workflowJobID = launchJson.workflow_job ?? launchJson.id;
+    this.logger.info(`Waiting for result of the executed workflow job.`);
+
+    const workflowJob = await this.waitUntilFinished(
+      `api/controller/v2/workflow_jobs/${workflowJobID}/`,
+      token,
+      `Workflow job ${workflowJobID}`,
+      payload?.timeout ?? JOB_TIMEOUT_SECONDS,
+    );
+
+    const nodes = await this.getWorkflowJobNodes(workflowJobID, token);
+    nodes.forEach(node =>
+      this.logger.info(`Workflow node ${node.name}: ${node.status}`),
+    );
+
+    const result = {
+      id: workflowJobID,
+      status: workflowJob.status,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/jobs/workflow/${workflowJobID}/output`,
+      nodes,
+    };
+    if (workflowJob.status !== 'successful') {
+      const failedNodes = nodes
+        .filter(node => ['failed', 'error', 'canceled'].includes(node.status))
+        .map(node => node.name);
+      const reason = failedNodes.length
+        ? `failed nodes: ${failedNodes.join(', ')}`
+        : `status ${workflowJob.status}`;
+      this.logger.error(`Workflow job failed: ${reason}`);
+      throw new Error(`Workflow job execution failed due to ${reason}`);
+    }
+    return result;
+  }
+
+  public async getWorkflowJobNodes(
+    workflowJobID: number,
+    token: string,
+  ): Promise<WorkflowNodeStatus[]> {
+    const nodes = (await this.executeCatalogRequest(
+      `api/controller/v2/workflow_jobs/${workflowJobID}/workflow_nodes/`,
+      token,
+    )) as any[];
+    return nodes.map(node => ({
+      id: node.id,
+      name:
+        node.summary_fields?.unified_job_template?.name ??
+        node.identifier ??
+        `${node.id}`,
+      identifier: node.identifier ?? '',
+      jobId: node.summary_fields?.job?.id ?? node.job ?? null,
+      jobType: node.summary_fields?.job?.type ?? null,
+      // nodes skipped by the workflow path never get a job
+      status: node.summary_fields?.job?.status ?? 'not run',
+    }));
+  }
+
+  public async runAdHocCommand(
+    payload: RunAdHocCommand,
+    token: string,
+  ): Promise<AdHocCommandResult> {
+    if (!payload?.inventory?.id) {
+      throw new Error('An inventory is required to run an ad hoc command.');
+    }
+    const data = {
+      ...this.getRunOptions(payload),
+      module_name: payload.moduleName,
+      module_args: payload.moduleArgs ?? '',
+      extra_vars: payload.extraVariables ?? '',
+    } as RunOptions & {
+      module_name: string;
+      module_args: string;
+      extra_vars: object | string;
+      credential?: number;
+      become_enabled?: boolean;
+    };
+    if (payload?.credential?.id) {
+      [data.credential] = this.getCredentialIds([payload.credential]);
+    }
+    if (payload?.becomeEnabled !== undefined) {
+      data.become_enabled = payload.becomeEnabled;
+    }
+
+    this.logger.info(
+      `Running ad hoc command ${payload.moduleName} on inventory ${
+        payload.inventory.name ?? payload.inventory.id
+      }.`,
+    );
+    const response = await this.executePostRequest(
+      'api/controller/v2/ad_hoc_commands/',
+      token,
+      data,
+    );
+    const { id: commandID } = await response.json();
+    this.logger.info(`Waiting for result of the ad hoc command.`);
+
+    const command = await this.waitUntilFinished(
+      `api/controller/v2/ad_hoc_commands/${commandID}/`,
+      token,
+      `Ad hoc command ${commandID}`,
+      payload.timeout ?? JOB_TIMEOUT_SECONDS,
+    );
+
+    const stdoutResponse = await this.executeGetRequest(
+      `api/controller/v2/ad_hoc_commands/${commandID}/stdout/?format=txt`,
+      token,
+    );
+    const stdout: string = await stdoutResponse.text();
+    stdout
+      .split('\n')
+      .filter(line => line.trim().length)
+      .forEach(line => this.logger.info(line));
+
+    if (command.status !== 'successful') {
+      this.logger.error(`Ad hoc command failed with status ${command.status}.`);
+      throw new Error(
+        `Ad hoc command execution failed with status ${command.status}`,
+      );
+    }
+    return {
+      id: commandID,
+      status: command.status,
+      url: `${this.ansibleConfig.rhaap?.baseUrl}/execution/jobs/command/${commandID}/output`,
+      stdout,
+    };
+  }
+
+  public async getJob(jobID: number, token: string): Promise<LaunchedJob> {
+    const response = await this.executeGetRequest(
+      `api/controller/v2/jobs/${jobID}/`,
+      token,
+    );
+    const job = await response.json();
+    return {
+      id: job.id,
+      status: job.status,
+      url: this.getJobUrl(job.id),
+      finished: isJobFinished(job.status),
+    };
+  }
+
+  /**
+   * Returns the job events emitted after the given cursor (event counter),
+   * so callers can tail the output of a running job.
+   */
+  public async getJobEvents(
+    jobID: number,
+    token: string,
+    cursor: number = 0,
+    pageSize: number = 100,
+  ): Promise<JobEventsPage> {
+    const endPoint = `api/controller/v2/jobs/${jobID}/job_events/?counter__gt=${cursor}&order_by=counter&page_size=${pageSize}`;
+    const response = await this.executeGetRequest(endPoint, token);
+    const json = await response.json();
+    const events: JobEvent[] = (json.results ?? []).map((event: any) => ({
+      counter: event.counter,
+      event: event.event,
+      stdout: event.stdout ?? '',
+      created: event.created,
+      host_name: event.host_name ?? '',
+      task: event.task ?? '',
+      play: event.play ?? '',
+      failed: event.failed ?? false,
+      changed: event.changed ?? false,
+    }));
+    return {
+      events,
+      cursor: events.length ? events[events.length - 1].counter : cursor,
+      hasMore: !!json.next,
     };
   }
 
@@ -1001,17 +2297,52 @@ export class AAPClient implements IAAPService {
       .replace(/\s/g, '-');
   }
 
+  /**
+   * Iterates over the pages of a paginated controller, gateway or galaxy list
+   * endpoint. The next page is only fetched once the previous one has been
+   * consumed, so big lists can be processed without loading them at once.
+   */
+  public iteratePages<T = any>(
+    endPoint: string,
+    options: AAPPaginationOptions = {},
+  ): AsyncGenerator<T[]> {
+    const token =
+      options.token === undefined
+        ? this.ansibleConfig.rhaap?.token ?? null
+        : options.token;
+    const url = options.pageSize
+      ? withPageSize(endPoint, options.pageSize)
+      : endPoint;
+    return paginate<T>(
+      url,
+      async pageUrl => {
+        const response = await this.executeGetRequest(pageUrl, token);
+        return (await response.json()) as PaginatedResponse;
+      },
+      { signal: options.signal },
+    );
+  }
+
+  /**
+   * Iterates over the items of a paginated list endpoint, page by page as
+   * iteratePages does.
+   */
+  public async *iterateItems<T = any>(
+    endPoint: string,
+    options: AAPPaginationOptions = {},
+  ): AsyncGenerator<T> {
+    for await (const items of this.iteratePages<T>(endPoint, options)) {
+      yield* items;
+    }
+  }
+
   private async executeCatalogRequest(
     endPoint: string,
     token: string | null,
-    results?: never[],
   ): Promise<never[]> {
-    let result = results ?? [];
-    const response = await this.executeGetRequest(endPoint, token);
-    const jsonResponse = (await response.json()) as PaginatedResponse;
-    result = [...result, ...jsonResponse.results];
-    if (jsonResponse.next) {
-      return await this.executeCatalogRequest(jsonResponse.next, token, result);
+    const result: never[] = [];
+    for await (const items of this.iteratePages<never>(endPoint, { token })) {
+      result.push(...items);
     }
     return result;
   }
@@ -1257,18 +2588,11 @@ export class AAPClient implements IAAPService {
     ) as RoleAssignments;
   }
 
-  async syncJobTemplates(
+  private getTemplateSyncSearchParams(
     surveyEnabled: boolean | undefined,
     jobTemplateLabels: string[],
-    jobTemplateExcludeLabels: string[] = [],
-  ): Promise<
-    {
-      job: IJobTemplate;
-      survey: ISurvey | null;
-      instanceGroup: InstanceGroup[];
-    }[]
-  > {
-    const endPoint = '/api/controller/v2/job_templates';
+    jobTemplateExcludeLabels: string[],
+  ): URLSearchParams {
     const urlSearchParams = new URLSearchParams();
     urlSearchParams.set('page_size', '100');
     if (this.catalogConfig.organizations.length === 1) {
@@ -1298,6 +2622,26 @@ export class AAPClient implements IAAPService {
         jobTemplateExcludeLabels.join(','),
       );
     }
+    return urlSearchParams;
+  }
+
+  async syncJobTemplates(
+    surveyEnabled: boolean | undefined,
+    jobTemplateLabels: string[],
+    jobTemplateExcludeLabels: string[] = [],
+  ): Promise<
+    {
+      job: IJobTemplate;
+      survey: ISurvey | null;
+      instanceGroup: InstanceGroup[];
+    }[]
+  > {
+    const endPoint = '/api/controller/v2/job_templates';
+    const urlSearchParams = this.getTemplateSyncSearchParams(
+      surveyEnabled,
+      jobTemplateLabels,
+      jobTemplateExcludeLabels,
+    );
 
     this.logger.info(`Fetching job templates from RH AAP.`);
     try {
@@ -1343,6 +2687,55 @@ export class AAPClient implements IAAPService {
     }
   }
 
+  async syncWorkflowJobTemplates(
+    surveyEnabled: boolean | undefined,
+    jobTemplateLabels: string[],
+    jobTemplateExcludeLabels: string[] = [],
+  ): Promise<
+    {
+      job: IWorkflowJobTemplate;
+      survey: ISurvey | null;
+    }[]
+  > {
+    const endPoint = '/api/controller/v2/workflow_job_templates';
+    const urlSearchParams = this.getTemplateSyncSearchParams(
+      surveyEnabled,
+      jobTemplateLabels,
+      jobTemplateExcludeLabels,
+    );
+
+    this.logger.info(`Fetching workflow job templates from RH AAP.`);
+    try {
+      const token = this.ansibleConfig.rhaap?.token ?? null;
+      const templates = await this.executeCatalogRequest(
+        `${endPoint}?${decodeURIComponent(urlSearchParams.toString())}`,
+        token,
+      );
+      return await Promise.all(
+        templates.map(async (template: IWorkflowJobTemplate) => {
+          let survey = null;
+          if (template.survey_enabled) {
+            const response = await this.executeGetRequest(
+              template.related?.survey_spec,
+              token,
+            );
+            survey = (await response.json()) as ISurvey;
+          }
+          return { job: template, survey };
+        }),
+      );
+    } catch (err) {
+      this.logger.error(
+        `Error retrieving workflow job templates from ${endPoint}. ${JSON.stringify(
+          err,
+        )}`,
+      );
+      throw new Error(
+        `Error retrieving workflow job templates from ${endPoint}.`,
+      );
+    }
+  }
+
   public async isValidPAHRepository(repositoryName: string): Promise<boolean> {
     const endPoint = `api/galaxy/pulp/api/v3/repositories?name=${encodeURIComponent(repositoryName)}`;
     const token = this.ansibleConfig.rhaap?.token ?? null;
@@ -1389,32 +2782,36 @@ export class AAPClient implements IAAPService {
     const { validRepos, urlSearchParams } = validationResult;
     urlSearchParams.set('limit', sanitizedLimit.toString());
 
-    let nextUrl: string | null =
-      `/api/galaxy/v3/plugin/ansible/search/collection-versions/?${urlSearchParams.toString()}`;
-
-    while (nextUrl) {
-      if (signal?.aborted) {
-        this.logger.info(
-          `[${this.pluginLogName}]: Sync aborted, stopping pagination after ${collections.length} collections`,
-        );
-        throw new Error(
-          `Sync aborted, stopping pagination after ${collections.length} collections`,
-        );
-      }
-
-      const pageResult = await fetchCollectionsPage(nextUrl, token, context);
-
-      if (!pageResult) {
-        break;
-      }
+    const pages = paginate<unknown>(
+      `/api/galaxy/v3/plugin/ansible/search/collection-versions/?${urlSearchParams.toString()}`,
+      async pageUrl => {
+        if (signal?.aborted) {
+          this.logger.info(
+            `[${this.pluginLogName}]: Sync aborted, stopping pagination after ${collections.length} collections`,
+          );
+          throw new Error(
+            `Sync aborted, stopping pagination after ${collections.length} collections`,
+          );
+        }
+        const pageResult = await fetchCollectionsPage(pageUrl, token, context);
+        if (!pageResult) {
+          return null;
+        }
+        // a page without data is skipped, its next link is still followed
+        const { collectionsData } = pageResult;
+        return Array.isArray(collectionsData.data)
+          ? collectionsData
+          : { ...collectionsData, data: [] };
+      },
+    );
 
+    for await (const items of pages) {
       await appendCollectionsFromPage(
-        pageResult.collectionsData,
+        { data: items },
         collections,
         token,
         context,
       );
-      nextUrl = extractNextUrl(pageResult.collectionsData);
     }
 
     this.logger.info(
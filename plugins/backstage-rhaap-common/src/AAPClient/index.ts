@@ -1,3 +1,4 @@
 export * from './AAPClient';
 export * from './mockData';
 export * from './utils/config';
+export * from './surveyHelpers';
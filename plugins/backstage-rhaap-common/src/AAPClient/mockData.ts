@@ -164,3 +164,48 @@ export const mockSurveyResponse = {
     },
   ],
 };
+
+export const mockWorkflowJobTemplateResponse = [
+  {
+    id: 20,
+    type: 'workflow_job_template',
+    url: '/api/controller/v2/workflow_job_templates/20/',
+    created: '2025-01-01T00:00:00.000000Z',
+    modified: '2025-01-01T00:00:00.000000Z',
+    name: 'Deploy Application',
+    description: 'Provision and deploy the application',
+    status: 'successful',
+    extra_vars: '',
+    organization: 1,
+    inventory: 3,
+    limit: null,
+    scm_branch: null,
+    survey_enabled: true,
+    allow_simultaneous: false,
+    ask_variables_on_launch: false,
+    ask_inventory_on_launch: true,
+    ask_limit_on_launch: true,
+    ask_scm_branch_on_launch: false,
+    ask_labels_on_launch: false,
+    ask_tags_on_launch: false,
+    ask_skip_tags_on_launch: false,
+    last_job_failed: false,
+    last_job_run: null,
+    next_job_run: null,
+    related: {
+      survey_spec: '/api/controller/v2/workflow_job_templates/20/survey_spec/',
+      launch: '/api/controller/v2/workflow_job_templates/20/launch/',
+      workflow_nodes:
+        '/api/controller/v2/workflow_job_templates/20/workflow_nodes/',
+      workflow_jobs:
+        '/api/controller/v2/workflow_job_templates/20/workflow_jobs/',
+      labels: '/api/controller/v2/workflow_job_templates/20/labels/',
+    },
+    summary_fields: {
+      organization: { id: 1, name: 'Default', description: '' },
+      inventory: { id: 3, name: 'Demo Inventory', description: '' },
+      labels: { count: 0, results: [] },
+      recent_jobs: [],
+    },
+  },
+];
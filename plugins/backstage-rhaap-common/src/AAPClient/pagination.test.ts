@@ -0,0 +1,117 @@
+import { paginate, readPage, withPageSize } from './pagination';
+
+describe('pagination', () => {
+  describe('readPage', () => {
+    it('should read controller and gateway pages', () => {
+      expect(
+        readPage({
+          results: [{ id: 1 }],
+          next: '/api/gateway/v1/users/?page=2',
+        }),
+      ).toEqual({ items: [{ id: 1 }], next: '/api/gateway/v1/users/?page=2' });
+      expect(readPage({ results: [], next: null })).toEqual({
+        items: [],
+        next: null,
+      });
+    });
+
+    it('should read galaxy pages', () => {
+      expect(
+        readPage({
+          data: [{ id: 1 }],
+          links: { next: '/api/galaxy/?offset=1' },
+        }),
+      ).toEqual({ items: [{ id: 1 }], next: '/api/galaxy/?offset=1' });
+    });
+
+    it('should ignore missing or invalid next links', () => {
+      expect(readPage({ data: [], links: {} })).toEqual({
+        items: [],
+        next: null,
+      });
+      expect(readPage({ data: [], links: { next: '' } }).next).toBeNull();
+      expect(readPage({ data: [], links: { next: 123 } }).next).toBeNull();
+    });
+
+    it('should reject responses without items', () => {
+      expect(() => readPage({ links: {} })).toThrow(
+        'The response is not a page of a list endpoint',
+      );
+      expect(() => readPage(undefined)).toThrow(
+        'The response is not a page of a list endpoint',
+      );
+    });
+  });
+
+  describe('withPageSize', () => {
+    it('should set page_size on controller and gateway endpoints', () => {
+      expect(
+        withPageSize('api/controller/v2/job_templates/?page_size=200&a=b', 50),
+      ).toBe('api/controller/v2/job_templates/?page_size=50&a=b');
+      expect(withPageSize('api/gateway/v1/users/', 10)).toBe(
+        'api/gateway/v1/users/?page_size=10',
+      );
+    });
+
+    it('should set limit on galaxy endpoints', () => {
+      expect(
+        withPageSize(
+          '/api/galaxy/v3/plugin/ansible/search/collection-versions/?repository_name=rh',
+          20,
+        ),
+      ).toBe(
+        '/api/galaxy/v3/plugin/ansible/search/collection-versions/?repository_name=rh&limit=20',
+      );
+    });
+  });
+
+  describe('paginate', () => {
+    it('should fetch the next page only when the previous one is consumed', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce({ results: [1, 2], next: '/page2' })
+        .mockResolvedValueOnce({ results: [3], next: null });
+
+      const pages = paginate<number>('/page1', fetchPage);
+
+      expect(await pages.next()).toEqual({ value: [1, 2], done: false });
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+      expect(await pages.next()).toEqual({ value: [3], done: false });
+      expect(await pages.next()).toEqual({ value: undefined, done: true });
+      expect(fetchPage.mock.calls).toEqual([['/page1'], ['/page2']]);
+    });
+
+    it('should stop when the fetcher returns no page', async () => {
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValueOnce({ data: ['a'], links: { next: '/next' } })
+        .mockResolvedValueOnce(null);
+
+      const items: string[] = [];
+      for await (const page of paginate<string>('/first', fetchPage)) {
+        items.push(...page);
+      }
+
+      expect(items).toEqual(['a']);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop before the next page once aborted', async () => {
+      const controller = new AbortController();
+      const fetchPage = jest
+        .fn()
+        .mockResolvedValue({ results: [1, 2], next: '/next' });
+
+      const pages = paginate<number>('/first', fetchPage, {
+        signal: controller.signal,
+      });
+      await pages.next();
+      controller.abort();
+
+      await expect(pages.next()).rejects.toThrow(
+        'Pagination of /first aborted after 2 items',
+      );
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Fetches and parses a page, or returns null to stop the pagination.
+ */
+export type PageFetcher = (url: string) => Promise<unknown>;
+
+/**
+ * Reads the items and the link to the next page of a page of the controller
+ * and gateway APIs, { results, next }, or of the galaxy API,
+ * { data, links: { next } }.
+ */
+export function readPage<T>(page: any): { items: T[]; next: string | null } {
+  const items = page?.results ?? page?.data;
+  if (!Array.isArray(items)) {
+    throw new Error('The response is not a page of a list endpoint');
+  }
+  const next = page.next ?? page.links?.next;
+  return {
+    items,
+    next: typeof next === 'string' && next.length > 0 ? next : null,
+  };
+}
+
+/**
+ * Sets the size of the pages on the first URL of a pagination, as limit for
+ * the galaxy API and page_size for the controller and gateway APIs. The next
+ * links returned by AAP keep it.
+ */
+export function withPageSize(url: string, pageSize: number): string {
+  const [path, query = ''] = url.split('?');
+  const params = new URLSearchParams(query);
+  params.set(
+    path.includes('api/galaxy/') ? 'limit' : 'page_size',
+    `${Math.max(1, Math.floor(pageSize))}`,
+  );
+  return `${path}?${decodeURIComponent(params.toString())}`;
+}
+
+/**
+ * Yields the items of each page of a paginated list, starting from url and
+ * following the next links. A page is only fetched once the previous one has
+ * been consumed, so at most one page is held in memory.
+ */
+export async function* paginate<T>(
+  url: string,
+  fetchPage: PageFetcher,
+  options: { signal?: AbortSignal } = {},
+): AsyncGenerator<T[]> {
+  let nextUrl: string | null = url;
+  let count = 0;
+  while (nextUrl) {
+    if (options.signal?.aborted) {
+      throw new Error(`Pagination of ${url} aborted after ${count} items`);
+    }
+    const page = await fetchPage(nextUrl);
+    if (!page) {
+      return;
+    }
+    const { items, next } = readPage<T>(page);
+    count += items.length;
+    nextUrl = next;
+    yield items;
+  }
+}
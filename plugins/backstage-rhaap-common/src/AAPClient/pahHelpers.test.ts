@@ -5,7 +5,6 @@ import {
   fetchCollectionDetails,
   processCollectionItem,
   fetchCollectionsPage,
-  extractNextUrl,
   appendCollectionsFromPage,
 } from './pahHelpers';
 
@@ -404,60 +403,6 @@ describe('PAH Helpers', () => {
     });
   });
 
-  describe('extractNextUrl', () => {
-    it('should return next URL when present', () => {
-      const data = { links: { next: '/api/collections?page=2' } };
-
-      const result = extractNextUrl(data);
-
-      expect(result).toBe('/api/collections?page=2');
-    });
-
-    it('should return null when links is missing', () => {
-      const data = {};
-
-      const result = extractNextUrl(data);
-
-      expect(result).toBeNull();
-    });
-
-    it('should return null when next is missing', () => {
-      const data = { links: {} };
-
-      const result = extractNextUrl(data);
-
-      expect(result).toBeNull();
-    });
-
-    it('should return null when next is empty string', () => {
-      const data = { links: { next: '' } };
-
-      const result = extractNextUrl(data);
-
-      expect(result).toBeNull();
-    });
-
-    it('should return null when next is not a string', () => {
-      const data = { links: { next: 123 } };
-
-      const result = extractNextUrl(data);
-
-      expect(result).toBeNull();
-    });
-
-    it('should return null for null input', () => {
-      const result = extractNextUrl(null);
-
-      expect(result).toBeNull();
-    });
-
-    it('should return null for undefined input', () => {
-      const result = extractNextUrl(undefined);
-
-      expect(result).toBeNull();
-    });
-  });
-
   describe('appendCollectionsFromPage', () => {
     it('should do nothing when collectionsData is undefined', async () => {
       const collections: any[] = [];
@@ -194,14 +194,6 @@ export async function fetchCollectionsPage(
   }
 }
 
-export function extractNextUrl(collectionsData: any): string | null {
-  const rawNextUrl = collectionsData?.links?.next;
-  if (rawNextUrl && typeof rawNextUrl === 'string' && rawNextUrl.length > 0) {
-    return rawNextUrl;
-  }
-  return null;
-}
-
 export async function appendCollectionsFromPage(
   collectionsData: { data?: unknown[] | null },
   collections: Collection[],
@@ -0,0 +1,177 @@
+import { ServiceUnavailableError } from '@backstage/errors';
+
+import { AAPRequestPipeline, parseRetryAfter } from './requestPipeline';
+
+const response = (status: number, headers: Record<string, string> = {}) => ({
+  ok: status < 400,
+  status,
+  statusText: `Status ${status}`,
+  headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+});
+
+describe('requestPipeline', () => {
+  let now: number;
+  let sleep: jest.Mock;
+
+  const pipeline = (config = {}) =>
+    new AAPRequestPipeline({ config, sleep, now: () => now });
+
+  beforeEach(() => {
+    now = Date.parse('2025-01-01T00:00:00Z');
+    sleep = jest.fn().mockImplementation(async (ms: number) => {
+      now += ms;
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read delays in seconds and HTTP dates', () => {
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('execute', () => {
+    it('should retry idempotent requests with an exponential backoff', async () => {
+      const send = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(200));
+
+      const result = await pipeline().execute('GET', 'https://aap/x', send);
+
+      expect(result.status).toBe(200);
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[500], [1000]]);
+    });
+
+    it('should honor Retry-After up to the maximum delay', async () => {
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(response(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce(response(429, { 'retry-after': '120' }))
+        .mockResolvedValueOnce(response(201));
+
+      const result = await pipeline({ retryMaxDelayMs: 60000 }).execute(
+        'POST',
+        'https://aap/x',
+        send,
+      );
+
+      expect(result.status).toBe(201);
+      expect(sleep.mock.calls).toEqual([[2000], [60000]]);
+    });
+
+    it('should not retry POST requests on network errors or 503', async () => {
+      const failing = jest.fn().mockRejectedValue(new Error('ECONNRESET'));
+      await expect(
+        pipeline().execute('POST', 'https://aap/x', failing),
+      ).rejects.toThrow('ECONNRESET');
+      expect(failing).toHaveBeenCalledTimes(1);
+
+      const unavailable = jest.fn().mockResolvedValue(response(503));
+      await expect(
+        pipeline().execute('PATCH', 'https://aap/x', unavailable),
+      ).rejects.toThrow(ServiceUnavailableError);
+      expect(unavailable).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should report AAP unavailable once the retries are exhausted', async () => {
+      const send = jest.fn().mockResolvedValue(response(502));
+
+      await expect(
+        pipeline({ maxRetries: 2 }).execute('GET', 'https://aap/x', send),
+      ).rejects.toThrow(
+        'AAP unavailable: GET https://aap/x responded with 502 Status 502',
+      );
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return other error responses without retrying', async () => {
+      const send = jest.fn().mockResolvedValue(response(404));
+
+      const result = await pipeline().execute('GET', 'https://aap/x', send);
+
+      expect(result.status).toBe(404);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should open the circuit after repeated failures and probe after the reset timeout', async () => {
+      const requests = pipeline({
+        maxRetries: 0,
+        failureThreshold: 2,
+        resetTimeoutMs: 10000,
+      });
+      const send = jest.fn().mockResolvedValue(response(503));
+
+      await expect(
+        requests.execute('GET', 'https://aap/a', send),
+      ).rejects.toThrow(ServiceUnavailableError);
+      await expect(
+        requests.execute('GET', 'https://aap/b', send),
+      ).rejects.toThrow(ServiceUnavailableError);
+      await expect(
+        requests.execute('GET', 'https://aap/c', send),
+      ).rejects.toThrow(
+        'AAP unavailable: 2 requests in a row failed, not sending https://aap/c until 2025-01-01T00:00:10.000Z',
+      );
+      expect(send).toHaveBeenCalledTimes(2);
+
+      now += 10000;
+      send.mockResolvedValueOnce(response(503));
+      await expect(
+        requests.execute('GET', 'https://aap/d', send),
+      ).rejects.toThrow('responded with 503');
+      await expect(
+        requests.execute('GET', 'https://aap/e', send),
+      ).rejects.toThrow('requests in a row failed');
+
+      now += 10000;
+      send.mockResolvedValueOnce(response(200));
+      await expect(
+        requests.execute('GET', 'https://aap/f', send),
+      ).resolves.toEqual(expect.objectContaining({ status: 200 }));
+      send.mockResolvedValueOnce(response(200));
+      await expect(
+        requests.execute('GET', 'https://aap/g', send),
+      ).resolves.toEqual(expect.objectContaining({ status: 200 }));
+      expect(send).toHaveBeenCalledTimes(5);
+    });
+
+    it('should limit the number of requests in flight', async () => {
+      const requests = pipeline({ maxConcurrency: 2 });
+      const pending: Array<() => void> = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const send = () =>
+        new Promise<ReturnType<typeof response>>(resolve => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          pending.push(() => {
+            inFlight--;
+            resolve(response(200));
+          });
+        });
+
+      const all = Promise.all(
+        [1, 2, 3, 4, 5].map(i =>
+          requests.execute('GET', `https://aap/${i}`, send),
+        ),
+      );
+      const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+      await flush();
+      expect(pending).toHaveLength(2);
+      while (pending.length) {
+        pending.shift()!();
+        await flush();
+      }
+
+      expect(await all).toHaveLength(5);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { ServiceUnavailableError } from '@backstage/errors';
+
+import { AAPRequestsConfig } from '../types';
+
+export const DEFAULT_REQUESTS_CONFIG: Required<AAPRequestsConfig> = {
+  maxConcurrency: 10,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 30000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+const TOO_MANY_REQUESTS = 429;
+
+type PipelineResponse = {
+  status?: number;
+  statusText?: string;
+  headers?: { get(name: string): string | null };
+};
+
+/**
+ * Returns the delay in milliseconds asked by a Retry-After header, given
+ * either in seconds or as an HTTP date, or undefined when it is not set or
+ * can not be read.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Sends the requests of an AAPClient to its AAP instance. At most
+ * maxConcurrency requests are in flight at once, idempotent requests are
+ * retried with an exponential backoff on network errors and 429, 502, 503
+ * and 504 responses, and POST or PATCH requests only on 429 as AAP did not
+ * process them. A Retry-After header takes precedence over the backoff.
+ *
+ * Network errors and 502, 503 or 504 responses are counted by a circuit
+ * breaker. After failureThreshold of them in a row the requests fail with a
+ * ServiceUnavailableError until resetTimeoutMs has passed, then a single
+ * request is let through to find out whether AAP is back.
+ */
+export class AAPRequestPipeline {
+  private readonly config: Required<AAPRequestsConfig>;
+  private readonly sleep: (ms: number) => Promise<unknown>;
+  private readonly now: () => number;
+  private readonly waiting: Array<() => void> = [];
+  private active = 0;
+  private failures = 0;
+  private openUntil?: number;
+  private probing = false;
+
+  constructor(options: {
+    config?: AAPRequestsConfig;
+    sleep: (ms: number) => Promise<unknown>;
+    now?: () => number;
+  }) {
+    this.config = { ...DEFAULT_REQUESTS_CONFIG };
+    for (const [key, value] of Object.entries(options.config ?? {})) {
+      if (value !== undefined) {
+        this.config[key as keyof AAPRequestsConfig] = value;
+      }
+    }
+    this.sleep = options.sleep;
+    this.now = options.now ?? Date.now;
+  }
+
+  public async execute<T extends PipelineResponse>(
+    method: string,
+    url: string,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const idempotent = IDEMPOTENT_METHODS.includes(method.toUpperCase());
+    for (let attempt = 0; ; attempt++) {
+      const probe = this.enterBreaker(url);
+      const result = await this.send(send);
+      if ('error' in result) {
+        this.recordFailure(probe);
+        if (!idempotent || attempt >= this.config.maxRetries) {
+          throw result.error;
+        }
+        await this.sleep(this.backoff(attempt));
+        continue;
+      }
+      const response = result.response;
+
+      const status = response?.status ?? 0;
+      const unavailable = UNAVAILABLE_STATUSES.includes(status);
+      if (unavailable) {
+        this.recordFailure(probe);
+      } else {
+        this.recordSuccess();
+      }
+      const retryable =
+        status === TOO_MANY_REQUESTS || (unavailable && idempotent);
+      if (retryable && attempt < this.config.maxRetries) {
+        const retryAfter = parseRetryAfter(
+          response?.headers?.get('retry-after'),
+          this.now(),
+        );
+        await this.sleep(
+          Math.min(
+            retryAfter ?? this.backoff(attempt),
+            this.config.retryMaxDelayMs,
+          ),
+        );
+        continue;
+      }
+      if (unavailable) {
+        throw new ServiceUnavailableError(
+          `AAP unavailable: ${method.toUpperCase()} ${url} responded with ${status} ${
+            response.statusText ?? ''
+          }`.trim(),
+        );
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Sends the request once it gets a slot. The slot is released as soon as
+   * the response arrives, so that requests waiting for a retry do not hold it.
+   */
+  private async send<T>(
+    send: () => Promise<T>,
+  ): Promise<{ response: T } | { error: unknown }> {
+    await this.acquire();
+    try {
+      return { response: await send() };
+    } catch (error) {
+      return { error };
+    } finally {
+      this.release();
+    }
+  }
+
+  private backoff(attempt: number) {
+    return Math.min(
+      this.config.retryBaseDelayMs * 2 ** attempt,
+      this.config.retryMaxDelayMs,
+    );
+  }
+
+  /**
+   * Throws while the breaker is open. Returns true when the request is the
+   * one let through after the reset timeout.
+   */
+  private enterBreaker(url: string): boolean {
+    if (this.openUntil === undefined) {
+      return false;
+    }
+    if (this.now() < this.openUntil || this.probing) {
+      throw new ServiceUnavailableError(
+        `AAP unavailable: ${
+          this.failures
+        } requests in a row failed, not sending ${url} until ${new Date(
+          this.openUntil,
+        ).toISOString()}`,
+      );
+    }
+    this.probing = true;
+    return true;
+  }
+
+  private recordFailure(probe: boolean) {
+    this.failures++;
+    if (probe || this.failures >= this.config.failureThreshold) {
+      this.openUntil = this.now() + this.config.resetTimeoutMs;
+    }
+    this.probing = false;
+  }
+
+  private recordSuccess() {
+    this.failures = 0;
+    this.openUntil = undefined;
+    this.probing = false;
+  }
+
+  private async acquire() {
+    if (this.active < this.config.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { ISpec } from '../interfaces';
+import {
+  getSurveyChoices,
+  getSurveyDefault,
+  validateSurveyAnswers,
+} from './surveyHelpers';
+
+const question = (spec: Partial<ISpec>): ISpec =>
+  ({
+    question_name: 'Question',
+    question_description: '',
+    required: false,
+    variable: 'answer',
+    type: 'text',
+    default: '',
+    choices: '',
+    ...spec,
+  } as ISpec);
+
+describe('surveyHelpers', () => {
+  describe('getSurveyChoices', () => {
+    it('should read choices from a list or a newline separated string', () => {
+      expect(getSurveyChoices(question({ choices: ['a', 'b'] }))).toEqual([
+        'a',
+        'b',
+      ]);
+      expect(getSurveyChoices(question({ choices: 'a\nb\n' }))).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+  });
+
+  describe('getSurveyDefault', () => {
+    it('should return defaults with the type of the question', () => {
+      expect(getSurveyDefault(question({ type: 'integer', default: 0 }))).toBe(
+        0,
+      );
+      expect(
+        getSurveyDefault(question({ type: 'float', default: '1.5' })),
+      ).toBe(1.5);
+      expect(
+        getSurveyDefault(question({ type: 'multiselect', default: 'a\nb' })),
+      ).toEqual(['a', 'b']);
+      expect(getSurveyDefault(question({ default: '' }))).toBeUndefined();
+    });
+  });
+
+  describe('validateSurveyAnswers', () => {
+    it('should report missing required answers', () => {
+      const { errors } = validateSurveyAnswers(
+        [
+          question({ required: true }),
+          question({ variable: 'optional' }),
+          question({ variable: 'list', type: 'multiselect', required: true }),
+        ],
+        { list: [] },
+      );
+
+      expect(errors).toEqual([
+        'Question (answer) is required.',
+        'Question (list) is required.',
+      ]);
+    });
+
+    it('should check the length of text answers', () => {
+      const spec = [question({ type: 'password', min: 8, max: 10 })];
+
+      expect(validateSurveyAnswers(spec, { answer: 'short' }).errors).toEqual([
+        'Question (answer) must be at least 8 characters long.',
+      ]);
+      expect(
+        validateSurveyAnswers(spec, { answer: 'much too long' }).errors,
+      ).toEqual(['Question (answer) must be at most 10 characters long.']);
+      expect(validateSurveyAnswers(spec, { answer: 1 }).errors).toEqual([
+        'Question (answer) must be a string.',
+      ]);
+    });
+
+    it('should convert and check numeric answers', () => {
+      const integer = [question({ type: 'integer', min: 1, max: 5 })];
+      const float = [question({ type: 'float', min: 0, max: 1 })];
+
+      expect(validateSurveyAnswers(integer, { answer: '3' })).toEqual({
+        answers: { answer: 3 },
+        errors: [],
+      });
+      expect(validateSurveyAnswers(integer, { answer: '2.5' }).errors).toEqual([
+        'Question (answer) must be an integer.',
+      ]);
+      expect(validateSurveyAnswers(integer, { answer: 9 }).errors).toEqual([
+        'Question (answer) must be at most 5.',
+      ]);
+      expect(validateSurveyAnswers(float, { answer: '0.25' })).toEqual({
+        answers: { answer: 0.25 },
+        errors: [],
+      });
+      expect(validateSurveyAnswers(float, { answer: 'abc' }).errors).toEqual([
+        'Question (answer) must be a number.',
+      ]);
+    });
+
+    it('should check choice answers', () => {
+      const choice = [question({ type: 'multiplechoice', choices: 'a\nb' })];
+      const multiselect = [
+        question({ type: 'multiselect', choices: ['a', 'b', 'c'] }),
+      ];
+
+      expect(validateSurveyAnswers(choice, { answer: 'c' }).errors).toEqual([
+        'Question (answer) must be one of a, b.',
+      ]);
+      expect(validateSurveyAnswers(multiselect, { answer: 'a\nc' })).toEqual({
+        answers: { answer: ['a', 'c'] },
+        errors: [],
+      });
+      expect(
+        validateSurveyAnswers(multiselect, { answer: ['a', 'd'] }).errors,
+      ).toEqual([
+        'Question (answer) contains invalid choices d. Valid choices are a, b, c.',
+      ]);
+    });
+  });
+});
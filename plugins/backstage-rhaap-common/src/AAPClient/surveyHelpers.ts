@@ -0,0 +1,141 @@
+import { ISpec } from '../interfaces';
+
+const isSet = (value: unknown) =>
+  value !== null && value !== undefined && value !== '';
+
+const isEmpty = (value: unknown) =>
+  !isSet(value) || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Returns the choices of a multiple choice or multiselect survey question.
+ * AAP stores them either as a list or as a newline separated string.
+ */
+export function getSurveyChoices(item: ISpec): string[] {
+  const choices = Array.isArray(item.choices)
+    ? item.choices
+    : (item.choices ?? '').split('\n');
+  return choices.map(choice => `${choice}`.trim()).filter(Boolean);
+}
+
+/**
+ * Returns the default answer of a survey question with the type the
+ * question expects, or undefined when the question has no default.
+ */
+export function getSurveyDefault(item: ISpec): unknown {
+  if (!isSet(item.default)) {
+    return undefined;
+  }
+  switch (item.type) {
+    case 'multiselect':
+      return Array.isArray(item.default)
+        ? item.default
+        : `${item.default}`.split('\n').filter(Boolean);
+    case 'integer':
+    case 'float':
+      return Number(item.default);
+    default:
+      return item.default;
+  }
+}
+
+const checkLength = (item: ISpec, value: string, errors: string[]) => {
+  const label = `${item.question_name} (${item.variable})`;
+  if (isSet(item.min) && value.length < Number(item.min)) {
+    errors.push(`${label} must be at least ${item.min} characters long.`);
+  }
+  if (isSet(item.max) && value.length > Number(item.max)) {
+    errors.push(`${label} must be at most ${item.max} characters long.`);
+  }
+};
+
+const checkRange = (item: ISpec, value: number, errors: string[]) => {
+  const label = `${item.question_name} (${item.variable})`;
+  if (isSet(item.min) && value < Number(item.min)) {
+    errors.push(`${label} must be at least ${item.min}.`);
+  }
+  if (isSet(item.max) && value > Number(item.max)) {
+    errors.push(`${label} must be at most ${item.max}.`);
+  }
+};
+
+/**
+ * Checks survey answers against the survey spec of a job template the way
+ * AAP does on launch. Numeric answers given as strings and multiselect
+ * answers given as newline separated strings are converted to the type AAP
+ * expects. Returns the converted answers and one error per invalid field.
+ */
+export function validateSurveyAnswers(
+  spec: ISpec[],
+  answers: Record<string, any>,
+): { answers: Record<string, any>; errors: string[] } {
+  const converted = { ...answers };
+  const errors: string[] = [];
+  for (const item of spec) {
+    const label = `${item.question_name} (${item.variable})`;
+    let value = converted[item.variable];
+    if (isEmpty(value)) {
+      if (item.required) {
+        errors.push(`${label} is required.`);
+      }
+      continue;
+    }
+    switch (item.type) {
+      case 'text':
+      case 'textarea':
+      case 'password':
+        if (typeof value !== 'string') {
+          errors.push(`${label} must be a string.`);
+        } else {
+          checkLength(item, value, errors);
+        }
+        break;
+      case 'integer':
+      case 'float':
+        value = typeof value === 'string' ? Number(value.trim()) : value;
+        if (
+          typeof value !== 'number' ||
+          !Number.isFinite(value) ||
+          (item.type === 'integer' && !Number.isInteger(value))
+        ) {
+          errors.push(
+            `${label} must be ${
+              item.type === 'integer' ? 'an integer' : 'a number'
+            }.`,
+          );
+        } else {
+          converted[item.variable] = value;
+          checkRange(item, value, errors);
+        }
+        break;
+      case 'multiplechoice':
+        if (!getSurveyChoices(item).includes(`${value}`)) {
+          errors.push(
+            `${label} must be one of ${getSurveyChoices(item).join(', ')}.`,
+          );
+        }
+        break;
+      case 'multiselect': {
+        const selected: unknown[] = Array.isArray(value)
+          ? value
+          : `${value}`.split('\n').filter(Boolean);
+        const choices = getSurveyChoices(item);
+        const invalid = selected.filter(
+          choice => !choices.includes(`${choice}`),
+        );
+        if (invalid.length) {
+          errors.push(
+            `${label} contains invalid choices ${invalid.join(
+              ', ',
+            )}. Valid choices are ${choices.join(', ')}.`,
+          );
+        } else {
+          converted[item.variable] = selected;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return { answers: converted, errors };
+}
@@ -1,10 +1,25 @@
 import { Config } from '@backstage/config';
 import { ScmIntegrations } from '@backstage/integration';
+import { InputError } from '@backstage/errors';
 
-import { AnsibleConfig, CatalogConfig } from '../../types';
+import { AAPRequestsConfig, AnsibleConfig, CatalogConfig } from '../../types';
 
-export function getAnsibleConfig(config: Config): AnsibleConfig {
+/**
+ * Reads the ansible config, with the baseUrl, token and checkSSL of the given
+ * AAP instance in rhaap. Without an instance they are the ones of the default
+ * instance.
+ */
+export function getAnsibleConfig(
+  config: Config,
+  instance?: string,
+): AnsibleConfig {
   const ansibleConfig = config.getConfig('ansible');
+  const instancePath = instance ? `rhaap.instances.${instance}` : 'rhaap';
+  if (instance && !ansibleConfig.has(instancePath)) {
+    throw new InputError(
+      `Unknown AAP instance '${instance}', it is not configured in ansible.rhaap.instances`,
+    );
+  }
   const integrations = ScmIntegrations.fromConfig(config);
   const githubIntegration = integrations.github.list()[0]?.config;
   const gitlabIntegration = integrations.gitlab.list()[0]?.config;
@@ -16,9 +31,13 @@ export function getAnsibleConfig(config: Config): AnsibleConfig {
       baseUrl: ansibleConfig.getOptionalString('automationHub.baseUrl'),
     },
     rhaap: {
-      baseUrl: ansibleConfig.getOptionalString('rhaap.baseUrl'),
-      token: ansibleConfig.getOptionalString('rhaap.token'),
-      checkSSL: ansibleConfig.getOptionalBoolean('rhaap.checkSSL') ?? true,
+      baseUrl: ansibleConfig.getOptionalString(`${instancePath}.baseUrl`),
+      token: ansibleConfig.getOptionalString(`${instancePath}.token`),
+      checkSSL:
+        ansibleConfig.getOptionalBoolean(`${instancePath}.checkSSL`) ?? true,
+      requests: ansibleConfig.has('rhaap.requests')
+        ? getRequestsConfig(ansibleConfig.getConfig('rhaap.requests'))
+        : undefined,
       showCaseLocation: {
         type: validateShowCaseType(
           ansibleConfig.getOptionalString('rhaap.showCaseLocation.type'),
@@ -55,7 +74,14 @@ export function getAnsibleConfig(config: Config): AnsibleConfig {
   return ansibleConfigVales;
 }
 
-export function getCatalogConfig(rootConfig: Config): CatalogConfig {
+/**
+ * Reads the catalog.providers.rhaap settings of the environments syncing
+ * from the given AAP instance, the default instance when not set.
+ */
+export function getCatalogConfig(
+  rootConfig: Config,
+  instance?: string,
+): CatalogConfig {
   const catalogRhaapConfig = rootConfig.getOptionalConfig(
     'catalog.providers.rhaap',
   );
@@ -68,6 +94,9 @@ export function getCatalogConfig(rootConfig: Config): CatalogConfig {
   if (catalogRhaapConfig && typeof catalogRhaapConfig.keys === 'function') {
     catalogRhaapConfig.keys().forEach(key => {
       const config = catalogRhaapConfig.getConfig(key);
+      if (config.getOptionalString('instance') !== instance) {
+        return;
+      }
       try {
         catalogConfig.organizations = config
           .getString('orgs')
@@ -90,6 +119,19 @@ export function getCatalogConfig(rootConfig: Config): CatalogConfig {
   return catalogConfig;
 }
 
+function getRequestsConfig(config: Config): AAPRequestsConfig {
+  return {
+    maxConcurrency: config.getOptionalNumber('maxConcurrency'),
+    maxRetries: config.getOptionalNumber('maxRetries'),
+    retryBaseDelayMs: config.getOptionalNumber('retryBaseDelayMs'),
+    retryMaxDelayMs: config.getOptionalNumber('retryMaxDelayMs'),
+    failureThreshold: config.getOptionalNumber(
+      'circuitBreaker.failureThreshold',
+    ),
+    resetTimeoutMs: config.getOptionalNumber('circuitBreaker.resetTimeoutMs'),
+  };
+}
+
 function validateShowCaseType(type: string | undefined): 'url' | 'file' {
   return type === 'url' || type === 'file' ? type : 'file';
 }
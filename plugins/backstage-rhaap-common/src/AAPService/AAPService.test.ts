@@ -55,6 +55,11 @@ describe('AAPService', () => {
     jest.doMock('../AAPClient/AAPClient', () => ({
       AAPClient: AAPClientMock,
     }));
+
+    // the audit service ref is only passed through as a dependency
+    jest.doMock('../Audit/AAPAuditService', () => ({
+      aapAuditServiceRef: 'audit-service-ref',
+    }));
   });
 
   it('exports a service ref with expected id and scope and wires defaultFactory through createServiceFactory', async () => {
@@ -85,6 +90,7 @@ describe('AAPService', () => {
       coreServicesMock.rootConfig,
     );
     expect(result.deps).toHaveProperty('logger', coreServicesMock.logger);
+    expect(result.deps).toHaveProperty('audit', 'audit-service-ref');
 
     // produced should be the object returned by the AAPClientMock constructor
     expect(result.produced).toBeDefined();
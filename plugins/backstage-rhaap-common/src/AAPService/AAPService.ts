@@ -5,6 +5,7 @@ import {
 } from '@backstage/backend-plugin-api';
 
 import { AAPClient, IAAPService } from '../AAPClient/AAPClient';
+import { aapAuditServiceRef } from '../Audit/AAPAuditService';
 
 /**
  * A reference to the ansible service.
@@ -20,12 +21,14 @@ export const ansibleServiceRef = createServiceRef<IAAPService>({
       deps: {
         rootConfig: coreServices.rootConfig,
         logger: coreServices.logger,
+        audit: aapAuditServiceRef,
       },
-      async factory({ rootConfig, logger }) {
+      async factory({ rootConfig, logger, audit }) {
         logger.info('Creating a new AAP client');
         return new AAPClient({
           rootConfig: rootConfig,
           logger: logger,
+          audit,
         });
       },
     }),
@@ -0,0 +1,143 @@
+import { ConfigReader } from '@backstage/config';
+import {
+  DatabaseService,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
+import { AAPAuditor } from './AAPAuditService';
+import { runWithAuditContext } from './auditContext';
+import { DatabaseAuditSink } from './DatabaseAuditSink';
+import { LoggerAuditSink } from './LoggerAuditSink';
+
+const mockLogger = () =>
+  ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as jest.Mocked<LoggerService>);
+
+describe('AAPAuditor', () => {
+  const record = {
+    method: 'POST' as const,
+    endpoint: '/api/controller/v2/jobs/42/cancel/',
+    resourceId: 42,
+    tokenType: 'user' as const,
+    outcome: 'success' as const,
+    error: null,
+  };
+
+  it('writes the event with the current audit context to every sink', async () => {
+    const first = { write: jest.fn() };
+    const second = { write: jest.fn() };
+    const auditor = new AAPAuditor({
+      sinks: [first, second],
+      logger: mockLogger(),
+    });
+
+    await runWithAuditContext(
+      { userEntityRef: 'user:default/alice', taskId: 'task-1' },
+      () => auditor.record(record),
+    );
+
+    const event = first.write.mock.calls[0][0];
+    expect(event).toEqual({
+      id: expect.any(String),
+      timestamp: expect.any(String),
+      userEntityRef: 'user:default/alice',
+      taskId: 'task-1',
+      ...record,
+    });
+    expect(second.write).toHaveBeenCalledWith(event);
+  });
+
+  it('logs the sinks failing to write instead of throwing', async () => {
+    const logger = mockLogger();
+    const working = { write: jest.fn() };
+    const auditor = new AAPAuditor({
+      sinks: [
+        { write: jest.fn().mockRejectedValue(new Error('boom')) },
+        working,
+      ],
+      logger,
+    });
+
+    await expect(auditor.record(record)).resolves.toBeUndefined();
+
+    expect(working.write).toHaveBeenCalledWith(
+      expect.objectContaining({ userEntityRef: null, taskId: null }),
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Error: boom'),
+    );
+  });
+
+  it('queries the first sink able to', async () => {
+    const events = [{ id: 'event-1' }];
+    const auditor = new AAPAuditor({
+      sinks: [
+        { write: jest.fn() },
+        { write: jest.fn(), query: jest.fn().mockResolvedValue(events) },
+      ],
+      logger: mockLogger(),
+    });
+
+    await expect(auditor.query({ taskId: 'task-1' })).resolves.toBe(events);
+  });
+
+  it('fails to query when no sink can', async () => {
+    const auditor = new AAPAuditor({
+      sinks: [{ write: jest.fn() }],
+      logger: mockLogger(),
+    });
+
+    await expect(auditor.query({})).rejects.toThrow(
+      'None of the configured AAP audit sinks can be queried',
+    );
+  });
+
+  describe('fromConfig', () => {
+    const deps = {
+      logger: mockLogger(),
+      database: { getClient: jest.fn() } as unknown as DatabaseService,
+    };
+    const sinksOf = (auditor: AAPAuditor) => (auditor as any).sinks;
+
+    it('uses the logger and database sinks by default', () => {
+      const auditor = AAPAuditor.fromConfig(new ConfigReader({}), deps);
+
+      expect(sinksOf(auditor)).toEqual([
+        expect.any(LoggerAuditSink),
+        expect.any(DatabaseAuditSink),
+      ]);
+    });
+
+    it('stores the events in the database of the plugin', () => {
+      const auditor = AAPAuditor.fromConfig(
+        new ConfigReader({ ansible: { audit: { sinks: ['database'] } } }),
+        deps,
+      );
+
+      expect(sinksOf(auditor)[0]).toEqual(
+        new DatabaseAuditSink(deps.database),
+      );
+    });
+
+    it('uses the configured sinks', () => {
+      const auditor = AAPAuditor.fromConfig(
+        new ConfigReader({ ansible: { audit: { sinks: ['logger'] } } }),
+        deps,
+      );
+
+      expect(sinksOf(auditor)).toEqual([expect.any(LoggerAuditSink)]);
+    });
+
+    it('rejects unknown sinks', () => {
+      expect(() =>
+        AAPAuditor.fromConfig(
+          new ConfigReader({ ansible: { audit: { sinks: ['syslog'] } } }),
+          deps,
+        ),
+      ).toThrow("Unsupported AAP audit sink 'syslog'");
+    });
+  });
+});
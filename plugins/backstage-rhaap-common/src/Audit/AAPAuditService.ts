@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import {
+  coreServices,
+  createServiceFactory,
+  createServiceRef,
+  DatabaseService,
+  LoggerService,
+  ServiceRef,
+} from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { NotImplementedError } from '@backstage/errors';
+
+import { getAuditContext } from './auditContext';
+import { DatabaseAuditSink } from './DatabaseAuditSink';
+import { LoggerAuditSink } from './LoggerAuditSink';
+import { AAPAuditEvent, AAPAuditQuery, AAPAuditSink } from './types';
+
+export type AAPAuditRecord = Omit<
+  AAPAuditEvent,
+  'id' | 'timestamp' | 'userEntityRef' | 'taskId'
+>;
+
+export interface AAPAuditService {
+  /**
+   * Writes the event to every sink, completed with the user and task of the
+   * current audit context. Never throws, a failing sink is only logged.
+   */
+  record(record: AAPAuditRecord): Promise<void>;
+  /** Reads the events back from the first sink able to query them. */
+  query(query: AAPAuditQuery): Promise<AAPAuditEvent[]>;
+}
+
+export class AAPAuditor implements AAPAuditService {
+  /**
+   * Creates the sinks listed in `ansible.audit.sinks`, by default the logger
+   * and the database. The database sink keeps the events in the database of
+   * the plugin making the calls.
+   */
+  static fromConfig(
+    config: Config,
+    deps: { logger: LoggerService; database: DatabaseService },
+  ): AAPAuditor {
+    const { logger, database } = deps;
+    const names = config.getOptionalStringArray('ansible.audit.sinks') ?? [
+      'logger',
+      'database',
+    ];
+    const sinks: AAPAuditSink[] = [];
+    for (const name of names) {
+      if (name === 'logger') {
+        sinks.push(new LoggerAuditSink(logger));
+      } else if (name === 'database') {
+        sinks.push(new DatabaseAuditSink(database));
+      } else {
+        throw new Error(
+          `Unsupported AAP audit sink '${name}'. Supported values are: logger, database`,
+        );
+      }
+    }
+    return new AAPAuditor({ sinks, logger });
+  }
+
+  private readonly sinks: AAPAuditSink[];
+  private readonly logger: LoggerService;
+
+  constructor(options: { sinks: AAPAuditSink[]; logger: LoggerService }) {
+    this.sinks = options.sinks;
+    this.logger = options.logger;
+  }
+
+  async record(record: AAPAuditRecord): Promise<void> {
+    const { userEntityRef, taskId } = getAuditContext();
+    const event: AAPAuditEvent = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      userEntityRef: userEntityRef ?? null,
+      taskId: taskId ?? null,
+      ...record,
+    };
+    await Promise.all(
+      this.sinks.map(async sink => {
+        try {
+          await sink.write(event);
+        } catch (error) {
+          this.logger.error(
+            `[rhaap-audit]: Failed to write the audit event ${event.id}: ${error}`,
+          );
+        }
+      }),
+    );
+  }
+
+  async query(query: AAPAuditQuery): Promise<AAPAuditEvent[]> {
+    const sink = this.sinks.find(s => s.query);
+    if (!sink?.query) {
+      throw new NotImplementedError(
+        'None of the configured AAP audit sinks can be queried, add the database sink to ansible.audit.sinks',
+      );
+    }
+    return await sink.query(query);
+  }
+}
+
+/**
+ * A reference to the audit trail of the AAP calls. Each plugin gets its own
+ * auditor, which stores the events in the database of the plugin; replace its
+ * factory to send the events elsewhere.
+ *
+ * @public
+ */
+export const aapAuditServiceRef = createServiceRef<AAPAuditService>({
+  id: 'rhaap.audit.service',
+  scope: 'plugin',
+  defaultFactory: async (service: ServiceRef<AAPAuditService, 'plugin'>) =>
+    createServiceFactory({
+      service,
+      deps: {
+        config: coreServices.rootConfig,
+        logger: coreServices.logger,
+        database: coreServices.database,
+      },
+      async factory({ config, logger, database }) {
+        return AAPAuditor.fromConfig(config, { logger, database });
+      },
+    }),
+});
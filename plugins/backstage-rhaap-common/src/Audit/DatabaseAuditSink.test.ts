@@ -0,0 +1,104 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import knexFactory from 'knex';
+import { DatabaseAuditSink } from './DatabaseAuditSink';
+import { AAPAuditEvent } from './types';
+
+describe('DatabaseAuditSink', () => {
+  const createSink = async () => {
+    const knex = knexFactory({
+      client: 'better-sqlite3',
+      connection: { filename: ':memory:' },
+      useNullAsDefault: true,
+    });
+    const database: DatabaseService = { getClient: async () => knex };
+    return new DatabaseAuditSink(database);
+  };
+
+  const event = (
+    id: string,
+    timestamp: string,
+    overrides: Partial<AAPAuditEvent> = {},
+  ): AAPAuditEvent => ({
+    id,
+    timestamp,
+    userEntityRef: 'user:default/alice',
+    taskId: 'task-1',
+    method: 'POST',
+    endpoint: '/api/controller/v2/job_templates/12/launch/',
+    resourceId: 12,
+    tokenType: 'user',
+    outcome: 'success',
+    error: null,
+    ...overrides,
+  });
+
+  it('returns the written events, most recent first', async () => {
+    const sink = await createSink();
+    const first = event('event-1', '2025-01-01T00:00:00.000Z');
+    const second = event('event-2', '2025-01-02T00:00:00.000Z', {
+      method: 'DELETE',
+      endpoint: '/api/controller/v2/schedules/9/',
+      resourceId: null,
+      tokenType: 'service',
+      outcome: 'failure',
+      error: 'Failed to delete',
+    });
+
+    await sink.write(first);
+    await sink.write(second);
+
+    expect(await sink.query({})).toEqual([second, first]);
+  });
+
+  it('filters the events', async () => {
+    const sink = await createSink();
+    await sink.write(event('event-1', '2025-01-01T00:00:00.000Z'));
+    await sink.write(
+      event('event-2', '2025-01-02T00:00:00.000Z', {
+        userEntityRef: 'user:default/bob',
+        taskId: 'task-2',
+        resourceId: 13,
+        outcome: 'failure',
+      }),
+    );
+    await sink.write(event('event-3', '2025-01-03T00:00:00.000Z'));
+
+    const ids = async (query: object) =>
+      (await sink.query(query)).map(e => e.id);
+
+    expect(await ids({ userEntityRef: 'user:default/bob' })).toEqual([
+      'event-2',
+    ]);
+    expect(await ids({ taskId: 'task-1' })).toEqual(['event-3', 'event-1']);
+    expect(await ids({ resourceId: 13 })).toEqual(['event-2']);
+    expect(await ids({ outcome: 'success' })).toEqual(['event-3', 'event-1']);
+    expect(
+      await ids({
+        from: '2025-01-02T00:00:00.000Z',
+        to: '2025-01-02T23:59:59.999Z',
+      }),
+    ).toEqual(['event-2']);
+    expect(await ids({ limit: 1, offset: 1 })).toEqual(['event-2']);
+  });
+
+  it('creates its table with a versioned migration, once', async () => {
+    const knex = knexFactory({
+      client: 'better-sqlite3',
+      connection: { filename: ':memory:' },
+      useNullAsDefault: true,
+    });
+    const database: DatabaseService = { getClient: async () => knex };
+
+    await Promise.all([
+      new DatabaseAuditSink(database).query({}),
+      new DatabaseAuditSink(database).query({}),
+    ]);
+
+    expect(
+      (await knex('rhaap_common_knex_migrations')).map(m => m.name),
+    ).toEqual([
+      '20251018160000_aap_audit.js',
+      '20251018170000_scm_response_cache.js',
+    ]);
+  });
+});
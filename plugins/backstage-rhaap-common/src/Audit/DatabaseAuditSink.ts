@@ -0,0 +1,96 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+
+import { applyDatabaseMigrations } from '../database';
+import { AAPAuditEvent, AAPAuditQuery, AAPAuditSink } from './types';
+
+const TABLE = 'rhaap_aap_audit';
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+type AuditRow = {
+  id: string;
+  timestamp: string;
+  user_entity_ref: string | null;
+  task_id: string | null;
+  method: AAPAuditEvent['method'];
+  endpoint: string;
+  resource_id: number | null;
+  token_type: AAPAuditEvent['tokenType'];
+  outcome: AAPAuditEvent['outcome'];
+  error: string | null;
+};
+
+const toRow = (event: AAPAuditEvent): AuditRow => ({
+  id: event.id,
+  timestamp: event.timestamp,
+  user_entity_ref: event.userEntityRef,
+  task_id: event.taskId,
+  method: event.method,
+  endpoint: event.endpoint,
+  resource_id: event.resourceId,
+  token_type: event.tokenType,
+  outcome: event.outcome,
+  error: event.error,
+});
+
+const fromRow = (row: AuditRow): AAPAuditEvent => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  userEntityRef: row.user_entity_ref,
+  taskId: row.task_id,
+  method: row.method,
+  endpoint: row.endpoint,
+  resourceId: row.resource_id === null ? null : Number(row.resource_id),
+  tokenType: row.token_type,
+  outcome: row.outcome,
+  error: row.error,
+});
+
+/**
+ * Keeps the audit events in a table of the database of the plugin making the
+ * calls, which its audit trail route queries.
+ */
+export class DatabaseAuditSink implements AAPAuditSink {
+  constructor(private readonly database: DatabaseService) {}
+
+  // the table is migrated on first use so that the backend starts even when
+  // the database is not reachable yet
+  private getClient(): Promise<Knex> {
+    return applyDatabaseMigrations(this.database);
+  }
+
+  async write(event: AAPAuditEvent): Promise<void> {
+    const client = await this.getClient();
+    await client<AuditRow>(TABLE).insert(toRow(event));
+  }
+
+  /** Returns the matching events, most recent first. */
+  async query(query: AAPAuditQuery): Promise<AAPAuditEvent[]> {
+    const client = await this.getClient();
+    const builder = client<AuditRow>(TABLE);
+    if (query.userEntityRef) {
+      builder.where('user_entity_ref', query.userEntityRef);
+    }
+    if (query.taskId) {
+      builder.where('task_id', query.taskId);
+    }
+    if (query.resourceId !== undefined) {
+      builder.where('resource_id', query.resourceId);
+    }
+    if (query.outcome) {
+      builder.where('outcome', query.outcome);
+    }
+    if (query.from) {
+      builder.where('timestamp', '>=', query.from);
+    }
+    if (query.to) {
+      builder.where('timestamp', '<=', query.to);
+    }
+    const rows = await builder
+      .orderBy('timestamp', 'desc')
+      .limit(Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+      .offset(query.offset ?? 0);
+    return rows.map(fromRow);
+  }
+}
@@ -0,0 +1,66 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { LoggerAuditSink } from './LoggerAuditSink';
+import { AAPAuditEvent } from './types';
+
+const mockLogger = () =>
+  ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown as jest.Mocked<LoggerService>);
+
+describe('LoggerAuditSink', () => {
+  const event: AAPAuditEvent = {
+    id: 'event-1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    userEntityRef: 'user:default/alice',
+    taskId: 'task-1',
+    method: 'POST',
+    endpoint: '/api/controller/v2/job_templates/12/launch/',
+    resourceId: 12,
+    tokenType: 'user',
+    outcome: 'success',
+    error: null,
+  };
+
+  it('logs successful calls as info', async () => {
+    const logger = mockLogger();
+
+    await new LoggerAuditSink(logger).write(event);
+
+    expect(logger.info).toHaveBeenCalledWith(
+      '[rhaap-audit]: POST /api/controller/v2/job_templates/12/launch/ by user:default/alice succeeded',
+      {
+        auditEventId: 'event-1',
+        userEntityRef: 'user:default/alice',
+        taskId: 'task-1',
+        method: 'POST',
+        endpoint: '/api/controller/v2/job_templates/12/launch/',
+        resourceId: 12,
+        tokenType: 'user',
+        outcome: 'success',
+        error: undefined,
+      },
+    );
+  });
+
+  it('logs failed calls as warnings', async () => {
+    const logger = mockLogger();
+
+    await new LoggerAuditSink(logger).write({
+      ...event,
+      userEntityRef: null,
+      outcome: 'failure',
+      error: 'Failed to post data',
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[rhaap-audit]: POST /api/controller/v2/job_templates/12/launch/ by unknown user failed',
+      expect.objectContaining({
+        userEntityRef: undefined,
+        error: 'Failed to post data',
+      }),
+    );
+  });
+});
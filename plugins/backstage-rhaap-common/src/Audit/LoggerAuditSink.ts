@@ -0,0 +1,28 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+
+import { AAPAuditEvent, AAPAuditSink } from './types';
+
+/** Writes each audit event as a structured log line. */
+export class LoggerAuditSink implements AAPAuditSink {
+  constructor(private readonly logger: LoggerService) {}
+
+  async write(event: AAPAuditEvent): Promise<void> {
+    const { id, timestamp, error, ...fields } = event;
+    const message = `[rhaap-audit]: ${event.method} ${event.endpoint} by ${
+      event.userEntityRef ?? 'unknown user'
+    } ${event.outcome === 'success' ? 'succeeded' : 'failed'}`;
+    const meta = {
+      auditEventId: id,
+      ...fields,
+      userEntityRef: fields.userEntityRef ?? undefined,
+      taskId: fields.taskId ?? undefined,
+      resourceId: fields.resourceId ?? undefined,
+      error: error ?? undefined,
+    };
+    if (event.outcome === 'success') {
+      this.logger.info(message, meta);
+    } else {
+      this.logger.warn(message, meta);
+    }
+  }
+}
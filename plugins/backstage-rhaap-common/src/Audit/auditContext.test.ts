@@ -0,0 +1,29 @@
+import { getAuditContext, runWithAuditContext } from './auditContext';
+
+describe('auditContext', () => {
+  it('returns an empty context outside of runWithAuditContext', () => {
+    expect(getAuditContext()).toEqual({});
+  });
+
+  it('keeps the context of each run across awaits', async () => {
+    const read = (context: { userEntityRef: string; taskId: string }) =>
+      runWithAuditContext(context, async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return getAuditContext();
+      });
+
+    const [first, second] = await Promise.all([
+      read({ userEntityRef: 'user:default/alice', taskId: 'task-1' }),
+      read({ userEntityRef: 'user:default/bob', taskId: 'task-2' }),
+    ]);
+
+    expect(first).toEqual({
+      userEntityRef: 'user:default/alice',
+      taskId: 'task-1',
+    });
+    expect(second).toEqual({
+      userEntityRef: 'user:default/bob',
+      taskId: 'task-2',
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { AAPAuditContext } from './types';
+
+const storage = new AsyncLocalStorage<AAPAuditContext>();
+
+/**
+ * Runs `fn` with the user and task that the AAP calls it makes are recorded
+ * for. The context follows the calls across awaits, so concurrent tasks
+ * sharing the AAP client do not mix up their events.
+ */
+export const runWithAuditContext = <T>(
+  context: AAPAuditContext,
+  fn: () => T,
+): T => storage.run(context, fn);
+
+export const getAuditContext = (): AAPAuditContext => storage.getStore() ?? {};
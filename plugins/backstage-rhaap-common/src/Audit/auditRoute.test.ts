@@ -0,0 +1,106 @@
+import {
+  BackstageCredentials,
+  HttpAuthService,
+  UserInfoService,
+} from '@backstage/backend-plugin-api';
+
+import { canReadAAPAudit, parseAAPAuditQuery } from './auditRoute';
+
+const userCredentials = (userEntityRef: string): BackstageCredentials => ({
+  $$type: '@backstage/BackstageCredentials',
+  principal: { type: 'user', userEntityRef },
+});
+
+const serviceCredentials = (subject: string): BackstageCredentials => ({
+  $$type: '@backstage/BackstageCredentials',
+  principal: { type: 'service', subject },
+});
+
+describe('canReadAAPAudit', () => {
+  const request = {} as Parameters<HttpAuthService['credentials']>[0];
+  const userInfo = { getUserInfo: jest.fn() };
+
+  const canRead = (credentials: Promise<BackstageCredentials>) =>
+    canReadAAPAudit({
+      request,
+      httpAuth: {
+        credentials: jest.fn(() => credentials),
+      } as unknown as HttpAuthService,
+      userInfo: userInfo as unknown as UserInfoService,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('allows the members of the AAP administrators group', async () => {
+    userInfo.getUserInfo.mockResolvedValue({
+      userEntityRef: 'user:default/admin',
+      ownershipEntityRefs: ['user:default/admin', 'Group:default/AAP-Admins'],
+    });
+
+    await expect(
+      canRead(Promise.resolve(userCredentials('user:default/admin'))),
+    ).resolves.toBe(true);
+  });
+
+  it('denies the other users', async () => {
+    userInfo.getUserInfo.mockResolvedValue({
+      userEntityRef: 'user:default/alice',
+      ownershipEntityRefs: ['user:default/alice', 'group:default/devs'],
+    });
+
+    await expect(
+      canRead(Promise.resolve(userCredentials('user:default/alice'))),
+    ).resolves.toBe(false);
+  });
+
+  it('allows the backend services', async () => {
+    await expect(
+      canRead(Promise.resolve(serviceCredentials('plugin:catalog'))),
+    ).resolves.toBe(true);
+    expect(userInfo.getUserInfo).not.toHaveBeenCalled();
+  });
+
+  it('throws without valid credentials', async () => {
+    await expect(
+      canRead(Promise.reject(new Error('Missing credentials'))),
+    ).rejects.toThrow('Missing credentials');
+  });
+});
+
+describe('parseAAPAuditQuery', () => {
+  it('reads the query and normalizes the dates to UTC', () => {
+    expect(
+      parseAAPAuditQuery({
+        userEntityRef: 'user:default/alice',
+        resourceId: '12',
+        outcome: 'failure',
+        from: '2025-01-01T01:00:00+01:00',
+        limit: '10',
+      }),
+    ).toEqual({
+      query: {
+        userEntityRef: 'user:default/alice',
+        taskId: undefined,
+        resourceId: 12,
+        outcome: 'failure',
+        from: '2025-01-01T00:00:00.000Z',
+        to: undefined,
+        limit: 10,
+      },
+      invalid: [],
+    });
+  });
+
+  it('lists the invalid parameters', () => {
+    expect(
+      parseAAPAuditQuery({
+        resourceId: 'abc',
+        offset: '-1',
+        outcome: 'maybe',
+        to: 'yesterday',
+      }).invalid,
+    ).toEqual(['resourceId', 'offset', 'outcome', 'to']);
+  });
+});
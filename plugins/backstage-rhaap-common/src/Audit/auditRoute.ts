@@ -0,0 +1,82 @@
+import {
+  HttpAuthService,
+  UserInfoService,
+} from '@backstage/backend-plugin-api';
+
+import { AAPAuditQuery } from './types';
+
+/** Group of the AAP administrators, synced from AAP by the catalog module. */
+export const AAP_ADMINS_GROUP_REF = 'group:default/aap-admins';
+
+/**
+ * Checks that the caller of an audit trail route may read it: backend
+ * services and the members of the AAP administrators group. Throws the
+ * AuthenticationError of httpAuth when the request has no valid credentials.
+ */
+export async function canReadAAPAudit(options: {
+  request: Parameters<HttpAuthService['credentials']>[0];
+  httpAuth: HttpAuthService;
+  userInfo: UserInfoService;
+}): Promise<boolean> {
+  const { request, httpAuth, userInfo } = options;
+  const credentials = await httpAuth.credentials(request, {
+    allow: ['user', 'service'],
+  });
+  if (!('userEntityRef' in credentials.principal)) {
+    return true;
+  }
+  const { ownershipEntityRefs } = await userInfo.getUserInfo(credentials);
+  return ownershipEntityRefs.some(
+    ref =>
+      ref.toLocaleLowerCase('en-US') ===
+      AAP_ADMINS_GROUP_REF.toLocaleLowerCase('en-US'),
+  );
+}
+
+/**
+ * Reads the audit trail query from the query parameters of a request, with
+ * the names of the parameters that are not valid.
+ */
+export function parseAAPAuditQuery(params: Record<string, unknown>): {
+  query: AAPAuditQuery;
+  invalid: string[];
+} {
+  const param = (name: string) =>
+    typeof params[name] === 'string' ? (params[name] as string) : undefined;
+  const query: AAPAuditQuery = {
+    userEntityRef: param('userEntityRef'),
+    taskId: param('taskId'),
+    from: param('from'),
+    to: param('to'),
+  };
+
+  const invalid: string[] = [];
+  for (const name of ['resourceId', 'limit', 'offset'] as const) {
+    const value = param(name);
+    if (value === undefined) continue;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      invalid.push(name);
+    } else {
+      query[name] = number;
+    }
+  }
+  const outcome = param('outcome');
+  if (outcome !== undefined) {
+    if (outcome === 'success' || outcome === 'failure') {
+      query.outcome = outcome;
+    } else {
+      invalid.push('outcome');
+    }
+  }
+  for (const name of ['from', 'to'] as const) {
+    if (!query[name]) continue;
+    if (Number.isNaN(Date.parse(query[name]!))) {
+      invalid.push(name);
+    } else {
+      // the events are stored with ISO timestamps in UTC
+      query[name] = new Date(query[name]!).toISOString();
+    }
+  }
+  return { query, invalid };
+}
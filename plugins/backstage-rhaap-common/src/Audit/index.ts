@@ -0,0 +1,6 @@
+export * from './types';
+export * from './auditContext';
+export * from './LoggerAuditSink';
+export * from './DatabaseAuditSink';
+export * from './AAPAuditService';
+export * from './auditRoute';
@@ -0,0 +1,45 @@
+export type AAPAuditMethod = 'POST' | 'PATCH' | 'DELETE';
+
+/** A mutating call made to AAP, as written to the audit sinks. */
+export interface AAPAuditEvent {
+  id: string;
+  timestamp: string;
+  /** Entity ref of the Backstage user on whose behalf the call was made. */
+  userEntityRef: string | null;
+  /** Scaffolder task that made the call. */
+  taskId: string | null;
+  method: AAPAuditMethod;
+  endpoint: string;
+  /** Id of the AAP object in the endpoint, or of the object it created. */
+  resourceId: number | null;
+  /** Whether the call used the token of the user or the configured `ansible.rhaap.token`. */
+  tokenType: 'user' | 'service';
+  outcome: 'success' | 'failure';
+  error: string | null;
+}
+
+export interface AAPAuditContext {
+  userEntityRef?: string;
+  taskId?: string;
+}
+
+export interface AAPAuditQuery {
+  userEntityRef?: string;
+  taskId?: string;
+  resourceId?: number;
+  outcome?: 'success' | 'failure';
+  /** ISO 8601 timestamps delimiting the events. */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A destination of the audit events. Sinks that can also read them back
+ * implement `query`.
+ */
+export interface AAPAuditSink {
+  write(event: AAPAuditEvent): Promise<void>;
+  query?(query: AAPAuditQuery): Promise<AAPAuditEvent[]>;
+}
@@ -0,0 +1,561 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+import * as undici from 'undici';
+import { BitbucketClient } from './BitbucketClient';
+import type { RepositoryInfo, ScmClientConfig } from './types';
+
+// Mock global fetch
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+jest.mock('undici', () => ({
+  ...jest.requireActual('undici'),
+  fetch: jest.fn(),
+}));
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  json: () => Promise.resolve(body),
+});
+
+describe('BitbucketClient', () => {
+  let mockLogger: LoggerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as unknown as LoggerService;
+  });
+
+  describe('Bitbucket Cloud', () => {
+    let client: BitbucketClient;
+    const mockRepo: RepositoryInfo = {
+      name: 'collection',
+      fullPath: 'test-workspace/collection',
+      defaultBranch: 'main',
+      url: 'https://bitbucket.org/test-workspace/collection',
+    };
+
+    beforeEach(() => {
+      const config: ScmClientConfig = {
+        scmProvider: 'bitbucket',
+        organization: 'test-workspace',
+        token: 'test-token',
+      };
+      client = new BitbucketClient({ config, logger: mockLogger });
+    });
+
+    it('should use bitbucket.org as default host', () => {
+      expect(client.getHost()).toBe('bitbucket.org');
+      expect(client.getSourceId()).toBe(
+        'bitbucket-bitbucket-org-test-workspace',
+      );
+    });
+
+    it('should fetch repositories of the workspace following the next pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [
+              {
+                name: 'collection',
+                full_name: 'test-workspace/collection',
+                description: 'An Ansible collection',
+                mainbranch: { name: 'main' },
+                links: {
+                  html: {
+                    href: 'https://bitbucket.org/test-workspace/collection',
+                  },
+                },
+              },
+            ],
+            next: 'https://api.bitbucket.org/2.0/repositories/test-workspace?pagelen=100&page=2',
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [
+              {
+                name: 'empty',
+                full_name: 'test-workspace/empty',
+                mainbranch: null,
+                links: {
+                  html: { href: 'https://bitbucket.org/test-workspace/empty' },
+                },
+              },
+            ],
+          }),
+        );
+
+      const repos = await client.getRepositories();
+
+      expect(repos).toEqual([
+        {
+          name: 'collection',
+          fullPath: 'test-workspace/collection',
+          defaultBranch: 'main',
+          url: 'https://bitbucket.org/test-workspace/collection',
+          description: 'An Ansible collection',
+        },
+      ]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.bitbucket.org/2.0/repositories/test-workspace?pagelen=100',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer test-token',
+          }),
+        }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://api.bitbucket.org/2.0/repositories/test-workspace?pagelen=100&page=2',
+        expect.anything(),
+      );
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        '[BitbucketClient] Skipping empty repository: test-workspace/empty',
+      );
+    });
+
+    it('should fetch branches and tags', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({ values: [{ name: 'main' }, { name: 'develop' }] }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ values: [{ name: 'v1.0.0' }] }));
+
+      expect(await client.getBranches(mockRepo)).toEqual(['main', 'develop']);
+      expect(await client.getTags(mockRepo)).toEqual(['v1.0.0']);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.bitbucket.org/2.0/repositories/test-workspace/collection/refs/branches?pagelen=100',
+        expect.anything(),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://api.bitbucket.org/2.0/repositories/test-workspace/collection/refs/tags?pagelen=100',
+        expect.anything(),
+      );
+    });
+
+    it('should list the directory contents', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          values: [
+            { path: 'collections/galaxy.yml', type: 'commit_file' },
+            { path: 'collections/roles', type: 'commit_directory' },
+            { path: 'collections/vendored', type: 'commit_link' },
+          ],
+        }),
+      );
+
+      const contents = await client.getContents(
+        mockRepo,
+        'main',
+        'collections',
+      );
+
+      expect(contents).toEqual([
+        { name: 'galaxy.yml', path: 'collections/galaxy.yml', type: 'file' },
+        { name: 'roles', path: 'collections/roles', type: 'dir' },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.bitbucket.org/2.0/repositories/test-workspace/collection/src/main/collections/?pagelen=100',
+        expect.anything(),
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.stringContaining('Found galaxy files'),
+      );
+    });
+
+    it('should fetch raw file content', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('namespace: test'),
+      });
+
+      const content = await client.getFileContent(
+        mockRepo,
+        'v1.0.0',
+        'galaxy.yml',
+      );
+
+      expect(content).toBe('namespace: test');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.bitbucket.org/2.0/repositories/test-workspace/collection/src/v1.0.0/galaxy.yml',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Accept: '*/*' }),
+        }),
+      );
+    });
+
+    it('should fetch the commit of the ref', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ values: [{ hash: '3f2a7c1e' }] }),
+      );
+
+      const sha = await client.getHeadSha(mockRepo, 'main');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.bitbucket.org/2.0/repositories/test-workspace/collection/commits/main?pagelen=1',
+        expect.anything(),
+      );
+    });
+
+    it('should build URLs to the source browser', () => {
+      expect(
+        client.buildUrl({
+          repo: mockRepo,
+          ref: 'main',
+          path: 'galaxy.yml',
+          type: 'file',
+        }),
+      ).toBe(
+        'https://bitbucket.org/test-workspace/collection/src/main/galaxy.yml',
+      );
+      expect(client.buildSourceLocation(mockRepo, 'v1.0.0', 'galaxy.yml')).toBe(
+        'url:https://bitbucket.org/test-workspace/collection/src/v1.0.0',
+      );
+    });
+  });
+
+  describe('Bitbucket Server', () => {
+    let client: BitbucketClient;
+    let mockConfig: ScmClientConfig;
+    const mockRepo: RepositoryInfo = {
+      name: 'Collection',
+      fullPath: 'ANS/collection',
+      defaultBranch: 'main',
+      url: 'https://bitbucket.example.com/projects/ANS/repos/collection/browse',
+    };
+
+    beforeEach(() => {
+      mockConfig = {
+        scmProvider: 'bitbucket',
+        host: 'bitbucket.example.com',
+        organization: 'ANS',
+        token: 'test-token',
+      };
+      client = new BitbucketClient({ config: mockConfig, logger: mockLogger });
+    });
+
+    it('should use basic credentials when a username is configured', async () => {
+      const config: ScmClientConfig = {
+        ...mockConfig,
+        username: 'ci-bot',
+        token: 'secret',
+      };
+      const basicClient = new BitbucketClient({ config, logger: mockLogger });
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ values: [], isLastPage: true }),
+      );
+
+      await basicClient.getRepositories();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos?limit=100',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: `Basic ${Buffer.from('ci-bot:secret').toString(
+              'base64',
+            )}`,
+          }),
+        }),
+      );
+    });
+
+    it('should use undici with a dispatcher when checkSSL is false', async () => {
+      const config: ScmClientConfig = { ...mockConfig, checkSSL: false };
+      const insecureClient = new BitbucketClient({
+        config,
+        logger: mockLogger,
+      });
+      (undici.fetch as jest.Mock).mockResolvedValueOnce(
+        jsonResponse({ values: [], isLastPage: true }),
+      );
+
+      await insecureClient.getRepositories();
+
+      expect(undici.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer test-token',
+          }),
+          dispatcher: expect.anything(),
+        }),
+      );
+    });
+
+    it('should fetch repositories with their default branch', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [
+              {
+                slug: 'collection',
+                name: 'Collection',
+                project: { key: 'ANS' },
+                links: {
+                  self: [
+                    {
+                      href: 'https://bitbucket.example.com/projects/ANS/repos/collection/browse',
+                    },
+                  ],
+                },
+              },
+              {
+                slug: 'old',
+                name: 'Old',
+                archived: true,
+                project: { key: 'ANS' },
+                links: {},
+              },
+            ],
+            isLastPage: false,
+            nextPageStart: 2,
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [
+              {
+                slug: 'empty',
+                name: 'Empty',
+                project: { key: 'ANS' },
+                links: {},
+              },
+            ],
+            isLastPage: true,
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({ id: 'refs/heads/main', displayId: 'main' }),
+        )
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      const repos = await client.getRepositories();
+
+      expect(repos).toEqual([
+        {
+          name: 'Collection',
+          fullPath: 'ANS/collection',
+          defaultBranch: 'main',
+          url: 'https://bitbucket.example.com/projects/ANS/repos/collection/browse',
+          description: undefined,
+        },
+      ]);
+      expect(mockFetch.mock.calls.map(call => call[0])).toEqual([
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos?limit=100',
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos?limit=100&start=2',
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/default-branch',
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/empty/default-branch',
+      ]);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        '[BitbucketClient] Skipping archived repository: ANS/old',
+      );
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        '[BitbucketClient] Skipping empty repository: ANS/empty',
+      );
+    });
+
+    it('should throw error on API failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve('Unauthorized'),
+      });
+
+      await expect(client.getRepositories()).rejects.toThrow(
+        'Bitbucket API error (401): Unauthorized',
+      );
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should throw when AbortSignal is aborted during getBranches', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.getBranches(mockRepo, controller.signal),
+      ).rejects.toThrow('SCM sync aborted, stopping branch fetch');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch branches and tags by display id', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [{ id: 'refs/heads/main', displayId: 'main' }],
+            isLastPage: true,
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            values: [{ id: 'refs/tags/v1.0.0', displayId: 'v1.0.0' }],
+            isLastPage: true,
+          }),
+        );
+
+      expect(await client.getBranches(mockRepo)).toEqual(['main']);
+      expect(await client.getTags(mockRepo)).toEqual(['v1.0.0']);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/tags?limit=100',
+        expect.anything(),
+      );
+    });
+
+    it('should browse the directory contents page by page', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({
+            children: {
+              values: [
+                { path: { name: 'galaxy.yml' }, type: 'FILE' },
+                { path: { name: 'roles' }, type: 'DIRECTORY' },
+              ],
+              isLastPage: false,
+              nextPageStart: 2,
+            },
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            children: {
+              values: [{ path: { name: 'vendored' }, type: 'SUBMODULE' }],
+              isLastPage: true,
+            },
+          }),
+        );
+
+      const contents = await client.getContents(mockRepo, 'v1.0.0', 'ns/col');
+
+      expect(contents).toEqual([
+        { name: 'galaxy.yml', path: 'ns/col/galaxy.yml', type: 'file' },
+        { name: 'roles', path: 'ns/col/roles', type: 'dir' },
+      ]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/browse/ns/col?at=v1.0.0&limit=100&start=0',
+        expect.anything(),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/browse/ns/col?at=v1.0.0&limit=100&start=2',
+        expect.anything(),
+      );
+    });
+
+    it('should return empty array on error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('Not Found'),
+      });
+
+      const contents = await client.getContents(mockRepo, 'main', 'missing');
+
+      expect(contents).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+
+    it('should fetch raw file content at the ref', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('namespace: test'),
+      });
+
+      const content = await client.getFileContent(
+        mockRepo,
+        'feature/new',
+        'ns/col/galaxy.yml',
+      );
+
+      expect(content).toBe('namespace: test');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/raw/ns/col/galaxy.yml?at=feature%2Fnew',
+        expect.anything(),
+      );
+    });
+
+    it('should throw error when file not found', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      await expect(
+        client.getFileContent(mockRepo, 'main', 'galaxy.yml'),
+      ).rejects.toThrow('Failed to fetch file: 404 Not Found');
+    });
+
+    it('should fetch the latest commit of the ref', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({ values: [{ id: '3f2a7c1e' }], isLastPage: false }),
+      );
+
+      const sha = await client.getHeadSha(mockRepo, 'v1.0.0');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/commits?until=v1.0.0&limit=1',
+        expect.anything(),
+      );
+    });
+
+    it('should build URLs to the browse page at the ref', () => {
+      expect(
+        client.buildUrl({
+          repo: mockRepo,
+          ref: 'main',
+          path: 'ns/col/galaxy.yml',
+          type: 'file',
+        }),
+      ).toBe(
+        'https://bitbucket.example.com/projects/ANS/repos/collection/browse/ns/col/galaxy.yml?at=main',
+      );
+      expect(client.buildSourceLocation(mockRepo, 'v1.0.0', 'galaxy.yml')).toBe(
+        'url:https://bitbucket.example.com/projects/ANS/repos/collection/browse?at=v1.0.0',
+      );
+    });
+
+    it('should send conditional requests and reuse the cached body on 304', async () => {
+      const url =
+        'https://bitbucket.example.com/rest/api/1.0/projects/ANS/repos/collection/commits?until=main&limit=1';
+      const cache = {
+        get: jest.fn().mockResolvedValue({
+          etag: '"commits"',
+          body: JSON.stringify({ values: [{ id: '3f2a7c1e' }] }),
+        }),
+        set: jest.fn(),
+      };
+      const cachedClient = new BitbucketClient({
+        config: mockConfig,
+        logger: mockLogger,
+        cache,
+      });
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const sha = await cachedClient.getHeadSha(mockRepo, 'main');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(cache.get).toHaveBeenCalledWith(url);
+      expect(mockFetch).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"commits"' }),
+        }),
+      );
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+  });
+});
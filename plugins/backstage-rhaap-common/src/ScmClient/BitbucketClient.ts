@@ -0,0 +1,521 @@
+import { fetch as undiciFetch, Agent } from 'undici';
+import { BaseScmClient, ScmClientOptions } from './ScmClient';
+import type { RepositoryInfo, DirectoryEntry, UrlBuildOptions } from './types';
+
+const BITBUCKET_CLOUD_HOST = 'bitbucket.org';
+
+interface CloudPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface ServerPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+/**
+ * Bitbucket client implementation using the REST APIs
+ *
+ * Talks to Bitbucket Cloud (API 2.0) when the host is bitbucket.org, and to
+ * Bitbucket Server / Data Center (API 1.0) for any other host. The organization
+ * is the workspace on Cloud and the project key on Server, and the full path of
+ * a repository is `<workspace or project key>/<repository slug>`.
+ */
+export class BitbucketClient extends BaseScmClient {
+  private readonly apiUrl: string;
+  private readonly isCloud: boolean;
+  private readonly checkSSL: boolean;
+
+  constructor(options: ScmClientOptions) {
+    super(options);
+    this.isCloud = this.host === BITBUCKET_CLOUD_HOST;
+    this.apiUrl =
+      options.config.apiBaseUrl?.replace(/\/$/, '') ??
+      (this.isCloud
+        ? 'https://api.bitbucket.org/2.0'
+        : `https://${this.host}/rest/api/1.0`);
+    this.checkSSL = options.config.checkSSL !== false;
+  }
+
+  protected getDefaultHost(): string {
+    return BITBUCKET_CLOUD_HOST;
+  }
+
+  private getFetchOptions(accept = 'application/json'): RequestInit & {
+    dispatcher?: Agent;
+  } {
+    const headers: Record<string, string> = {
+      Authorization: this.config.username
+        ? `Basic ${Buffer.from(
+            `${this.config.username}:${this.config.token}`,
+          ).toString('base64')}`
+        : `Bearer ${this.config.token}`,
+      Accept: accept,
+    };
+    if (!this.checkSSL) {
+      return {
+        headers,
+        dispatcher: new Agent({
+          connect: { rejectUnauthorized: false },
+        }),
+      };
+    }
+    return { headers };
+  }
+
+  private send(
+    url: string,
+    accept: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const options = this.getFetchOptions(accept);
+    const opts = {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), ...headers },
+      signal,
+    };
+    return this.checkSSL
+      ? fetch(url, opts)
+      : (undiciFetch(
+          url,
+          opts as Parameters<typeof undiciFetch>[1],
+        ) as unknown as Promise<Response>);
+  }
+
+  private async fetchUrl(url: string, signal?: AbortSignal): Promise<Response> {
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, 'application/json', headers, signal),
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Bitbucket API error (${response.status}): ${error}`);
+    }
+
+    return response;
+  }
+
+  private async fetchRest<T>(
+    endpoint: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const response = await this.fetchUrl(`${this.apiUrl}${endpoint}`, signal);
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Collects the values of all the pages of a list endpoint. Cloud pages link
+   * to the next page, Server pages give the start of the next page.
+   */
+  private async fetchAllPages<T>(
+    endpoint: string,
+    what: string,
+    signal?: AbortSignal,
+  ): Promise<T[]> {
+    const values: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let url: string | undefined = this.isCloud
+      ? `${this.apiUrl}${endpoint}${separator}pagelen=100`
+      : `${this.apiUrl}${endpoint}${separator}limit=100`;
+
+    while (url) {
+      if (signal?.aborted) {
+        throw new Error(`SCM sync aborted, stopping ${what} fetch`);
+      }
+      const response = await this.fetchUrl(url, signal);
+      if (this.isCloud) {
+        const page = (await response.json()) as CloudPage<T>;
+        values.push(...page.values);
+        url = page.next;
+      } else {
+        const page = (await response.json()) as ServerPage<T>;
+        values.push(...page.values);
+        url =
+          page.isLastPage || page.nextPageStart === undefined
+            ? undefined
+            : `${this.apiUrl}${endpoint}${separator}limit=100&start=${page.nextPageStart}`;
+      }
+    }
+
+    return values;
+  }
+
+  private repoApiPath(repo: RepositoryInfo): string {
+    const [owner, slug] = repo.fullPath.split('/');
+    return this.isCloud
+      ? `/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(slug)}`
+      : `/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(
+          slug,
+        )}`;
+  }
+
+  private encodeFilePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+  }
+
+  async getRepositories(signal?: AbortSignal): Promise<RepositoryInfo[]> {
+    this.logger.info(
+      `[BitbucketClient] Starting to fetch repositories from ${
+        this.isCloud ? 'workspace' : 'project'
+      }: ${this.config.organization}`,
+    );
+
+    let repos: RepositoryInfo[];
+    try {
+      repos = this.isCloud
+        ? await this.getCloudRepositories(signal)
+        : await this.getServerRepositories(signal);
+    } catch (error) {
+      this.logger.error(
+        `[BitbucketClient] Error fetching repositories from ${this.config.organization}: ${error}`,
+      );
+      throw error;
+    }
+
+    this.logger.info(
+      `[BitbucketClient] Found ${repos.length} repositories in ${this.config.organization}`,
+    );
+    return repos;
+  }
+
+  private async getCloudRepositories(
+    signal?: AbortSignal,
+  ): Promise<RepositoryInfo[]> {
+    interface CloudRepository {
+      name: string;
+      full_name: string;
+      description?: string;
+      mainbranch?: { name: string } | null;
+      links: { html: { href: string } };
+    }
+
+    const data = await this.fetchAllPages<CloudRepository>(
+      `/repositories/${encodeURIComponent(this.config.organization)}`,
+      'repository',
+      signal,
+    );
+
+    const repos: RepositoryInfo[] = [];
+    for (const repo of data) {
+      // a repository without a main branch has no commit yet
+      if (!repo.mainbranch) {
+        this.logger.debug(
+          `[BitbucketClient] Skipping empty repository: ${repo.full_name}`,
+        );
+        continue;
+      }
+      repos.push({
+        name: repo.name,
+        fullPath: repo.full_name,
+        defaultBranch: repo.mainbranch.name,
+        url: repo.links.html.href,
+        description: repo.description || undefined,
+      });
+    }
+    return repos;
+  }
+
+  private async getServerRepositories(
+    signal?: AbortSignal,
+  ): Promise<RepositoryInfo[]> {
+    interface ServerRepository {
+      slug: string;
+      name: string;
+      description?: string;
+      archived?: boolean;
+      project: { key: string };
+      links: { self?: Array<{ href: string }> };
+    }
+
+    const data = await this.fetchAllPages<ServerRepository>(
+      `/projects/${encodeURIComponent(this.config.organization)}/repos`,
+      'repository',
+      signal,
+    );
+
+    const repos: RepositoryInfo[] = [];
+    for (const repo of data) {
+      const fullPath = `${repo.project.key}/${repo.slug}`;
+      if (repo.archived) {
+        this.logger.debug(
+          `[BitbucketClient] Skipping archived repository: ${fullPath}`,
+        );
+        continue;
+      }
+      // the repositories list of Bitbucket Server has no default branch
+      const defaultBranch = await this.getServerDefaultBranch(
+        repo.project.key,
+        repo.slug,
+        signal,
+      );
+      if (!defaultBranch) {
+        this.logger.debug(
+          `[BitbucketClient] Skipping empty repository: ${fullPath}`,
+        );
+        continue;
+      }
+      repos.push({
+        name: repo.name,
+        fullPath,
+        defaultBranch,
+        url:
+          repo.links.self?.[0]?.href ??
+          `https://${this.host}/projects/${repo.project.key}/repos/${repo.slug}/browse`,
+        description: repo.description || undefined,
+      });
+    }
+    return repos;
+  }
+
+  private async getServerDefaultBranch(
+    projectKey: string,
+    slug: string,
+    signal?: AbortSignal,
+  ): Promise<string | undefined> {
+    const url = `${this.apiUrl}/projects/${encodeURIComponent(
+      projectKey,
+    )}/repos/${encodeURIComponent(slug)}/default-branch`;
+    const response = await this.send(url, 'application/json', {}, signal);
+
+    // an empty repository has no default branch yet
+    if (response.status === 204 || response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Bitbucket API error (${response.status}): ${error}`);
+    }
+
+    const { displayId } = (await response.json()) as { displayId: string };
+    return displayId;
+  }
+
+  async getBranches(
+    repo: RepositoryInfo,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    if (this.isCloud) {
+      const data = await this.fetchAllPages<{ name: string }>(
+        `${this.repoApiPath(repo)}/refs/branches`,
+        'branch',
+        signal,
+      );
+      return data.map(b => b.name);
+    }
+    const data = await this.fetchAllPages<{ displayId: string }>(
+      `${this.repoApiPath(repo)}/branches`,
+      'branch',
+      signal,
+    );
+    return data.map(b => b.displayId);
+  }
+
+  async getTags(repo: RepositoryInfo, signal?: AbortSignal): Promise<string[]> {
+    if (this.isCloud) {
+      const data = await this.fetchAllPages<{ name: string }>(
+        `${this.repoApiPath(repo)}/refs/tags`,
+        'tag',
+        signal,
+      );
+      return data.map(t => t.name);
+    }
+    const data = await this.fetchAllPages<{ displayId: string }>(
+      `${this.repoApiPath(repo)}/tags`,
+      'tag',
+      signal,
+    );
+    return data.map(t => t.displayId);
+  }
+
+  async getContents(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<DirectoryEntry[]> {
+    try {
+      const entries = this.isCloud
+        ? await this.getCloudContents(repo, ref, path, signal)
+        : await this.getServerContents(repo, ref, path, signal);
+
+      if (
+        entries.some(
+          entry =>
+            entry.type === 'file' &&
+            (entry.name === 'galaxy.yml' || entry.name === 'galaxy.yaml'),
+        )
+      ) {
+        this.logger.info(
+          `[BitbucketClient] Found galaxy files in ${repo.fullPath}@${ref}`,
+        );
+      }
+
+      return entries;
+    } catch (error) {
+      this.logger.warn(
+        `[BitbucketClient] Error getting contents for ${repo.fullPath}/${path}@${ref}: ${error}`,
+      );
+      return [];
+    }
+  }
+
+  private async getCloudContents(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<DirectoryEntry[]> {
+    interface CloudTreeEntry {
+      path: string;
+      type: 'commit_file' | 'commit_directory' | 'commit_link';
+    }
+
+    const data = await this.fetchAllPages<CloudTreeEntry>(
+      `${this.repoApiPath(repo)}/src/${encodeURIComponent(ref)}/${
+        path ? `${this.encodeFilePath(path)}/` : ''
+      }`,
+      'contents',
+      signal,
+    );
+
+    return data
+      .filter(item => item.type !== 'commit_link')
+      .map(
+        (item): DirectoryEntry => ({
+          name: item.path.substring(item.path.lastIndexOf('/') + 1),
+          path: item.path,
+          type: item.type === 'commit_directory' ? 'dir' : 'file',
+        }),
+      );
+  }
+
+  private async getServerContents(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<DirectoryEntry[]> {
+    interface ServerTreeEntry {
+      path: { name: string };
+      type: 'FILE' | 'DIRECTORY' | 'SUBMODULE';
+    }
+    interface ServerBrowseResponse {
+      children: ServerPage<ServerTreeEntry>;
+    }
+
+    const entries: DirectoryEntry[] = [];
+    const endpoint = `${this.repoApiPath(repo)}/browse${
+      path ? `/${this.encodeFilePath(path)}` : ''
+    }?at=${encodeURIComponent(ref)}`;
+    let start: number | undefined = 0;
+
+    // browse pages the children of the directory, not the response itself
+    while (start !== undefined) {
+      if (signal?.aborted) {
+        throw new Error('SCM sync aborted, stopping contents fetch');
+      }
+      const data: ServerBrowseResponse = await this.fetchRest(
+        `${endpoint}&limit=100&start=${start}`,
+        signal,
+      );
+
+      entries.push(
+        ...data.children.values
+          .filter(item => item.type !== 'SUBMODULE')
+          .map(
+            (item): DirectoryEntry => ({
+              name: item.path.name,
+              path: path ? `${path}/${item.path.name}` : item.path.name,
+              type: item.type === 'DIRECTORY' ? 'dir' : 'file',
+            }),
+          ),
+      );
+
+      start = data.children.isLastPage
+        ? undefined
+        : data.children.nextPageStart;
+    }
+
+    return entries;
+  }
+
+  async getFileContent(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const url = this.isCloud
+      ? `${this.apiUrl}${this.repoApiPath(repo)}/src/${encodeURIComponent(
+          ref,
+        )}/${this.encodeFilePath(path)}`
+      : `${this.apiUrl}${this.repoApiPath(repo)}/raw/${this.encodeFilePath(
+          path,
+        )}?at=${encodeURIComponent(ref)}`;
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, '*/*', headers, signal),
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch file: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response.text();
+  }
+
+  async getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    if (this.isCloud) {
+      const { values } = await this.fetchRest<CloudPage<{ hash: string }>>(
+        `${this.repoApiPath(repo)}/commits/${encodeURIComponent(
+          ref,
+        )}?pagelen=1`,
+        signal,
+      );
+      if (!values.length) {
+        throw new Error(`Failed to fetch the head of ${ref}: no commit`);
+      }
+      return values[0].hash;
+    }
+    const { values } = await this.fetchRest<ServerPage<{ id: string }>>(
+      `${this.repoApiPath(repo)}/commits?until=${encodeURIComponent(
+        ref,
+      )}&limit=1`,
+      signal,
+    );
+    if (!values.length) {
+      throw new Error(`Failed to fetch the head of ${ref}: no commit`);
+    }
+    return values[0].id;
+  }
+
+  buildUrl(options: UrlBuildOptions): string {
+    const { repo, ref, path } = options;
+    if (this.isCloud) {
+      return path
+        ? `https://${this.host}/${repo.fullPath}/src/${ref}/${path}`
+        : `https://${this.host}/${repo.fullPath}/src/${ref}`;
+    }
+    const [projectKey, slug] = repo.fullPath.split('/');
+    const browseUrl = `https://${this.host}/projects/${projectKey}/repos/${slug}/browse`;
+    return path
+      ? `${browseUrl}/${path}?at=${encodeURIComponent(ref)}`
+      : `${browseUrl}?at=${encodeURIComponent(ref)}`;
+  }
+
+  buildSourceLocation(repo: RepositoryInfo, ref: string, path: string): string {
+    const dirPath = path.includes('/')
+      ? path.substring(0, path.lastIndexOf('/'))
+      : '';
+    const url = this.buildUrl({ repo, ref, path: dirPath, type: 'dir' });
+    return `url:${url}`;
+  }
+}
@@ -0,0 +1,86 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import knexFactory, { Knex } from 'knex';
+import { DatabaseScmResponseCache } from './DatabaseScmResponseCache';
+
+describe('DatabaseScmResponseCache', () => {
+  let knex: Knex;
+  let database: DatabaseService;
+
+  beforeEach(() => {
+    knex = knexFactory({
+      client: 'better-sqlite3',
+      connection: { filename: ':memory:' },
+      useNullAsDefault: true,
+    });
+    database = { getClient: async () => knex };
+  });
+
+  afterEach(async () => {
+    await knex.destroy();
+  });
+
+  const url =
+    'https://api.github.com/repos/org/repo/contents/galaxy.yml?ref=main';
+
+  it('returns the stored responses', async () => {
+    const cache = new DatabaseScmResponseCache(database);
+
+    expect(await cache.get(url)).toBeUndefined();
+    await cache.set(url, { etag: '"abc"', body: 'name: collection' });
+
+    expect(await cache.get(url)).toEqual({
+      etag: '"abc"',
+      lastModified: undefined,
+      body: 'name: collection',
+    });
+  });
+
+  it('replaces the response of a URL', async () => {
+    const cache = new DatabaseScmResponseCache(database);
+
+    await cache.set(url, { etag: '"abc"', body: 'version: 1.0.0' });
+    await cache.set(url, {
+      lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      body: 'version: 1.1.0',
+    });
+
+    expect(await cache.get(url)).toEqual({
+      etag: undefined,
+      lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      body: 'version: 1.1.0',
+    });
+  });
+
+  it('removes the old responses when opened', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    try {
+      await new DatabaseScmResponseCache(database).set(url, { body: 'old' });
+
+      jest.setSystemTime(new Date('2025-01-03T00:00:00Z'));
+      const cache = new DatabaseScmResponseCache(database, {
+        maxAgeMs: 24 * 60 * 60 * 1000,
+      });
+
+      expect(await cache.get(url)).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('retries to open the table after a failure', async () => {
+    const getClient = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValue(knex);
+    const cache = new DatabaseScmResponseCache({ getClient });
+
+    await expect(cache.get(url)).rejects.toThrow('Database unavailable');
+    await cache.set(url, { body: 'name: collection' });
+
+    expect(await cache.get(url)).toEqual({
+      etag: undefined,
+      lastModified: undefined,
+      body: 'name: collection',
+    });
+  });
+});
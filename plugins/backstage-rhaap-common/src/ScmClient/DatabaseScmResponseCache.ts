@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+
+import { applyDatabaseMigrations } from '../database';
+import type { CachedScmResponse, ScmResponseCache } from './types';
+
+const TABLE = 'rhaap_scm_response_cache';
+// entries not refreshed for this long are removed when the table is opened
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type CacheRow = {
+  key: string;
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  body: string;
+  updated_at: string;
+};
+
+// URLs can be longer than an indexed column allows
+const toKey = (url: string) => createHash('sha256').update(url).digest('hex');
+
+/**
+ * Keeps the SCM API responses in a database table, so that the cache survives
+ * restarts and is shared by the backend instances.
+ */
+export class DatabaseScmResponseCache implements ScmResponseCache {
+  private client?: Promise<Knex>;
+
+  constructor(
+    private readonly database: DatabaseService,
+    private readonly options: { maxAgeMs?: number } = {},
+  ) {}
+
+  // the old entries are removed once per cache, a failed attempt is retried
+  // on the next call instead of disabling the cache
+  private getClient(): Promise<Knex> {
+    this.client ??= (async () => {
+      const client = await applyDatabaseMigrations(this.database);
+      const maxAgeMs = this.options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+      await client<CacheRow>(TABLE)
+        .where('updated_at', '<', new Date(Date.now() - maxAgeMs).toISOString())
+        .delete();
+      return client;
+    })().catch(error => {
+      this.client = undefined;
+      throw error;
+    });
+    return this.client;
+  }
+
+  async get(url: string): Promise<CachedScmResponse | undefined> {
+    const client = await this.getClient();
+    const row = await client<CacheRow>(TABLE)
+      .where({ key: toKey(url) })
+      .first();
+    if (!row) {
+      return undefined;
+    }
+    return {
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      body: row.body,
+    };
+  }
+
+  async set(url: string, response: CachedScmResponse): Promise<void> {
+    const client = await this.getClient();
+    await client<CacheRow>(TABLE)
+      .insert({
+        key: toKey(url),
+        url,
+        etag: response.etag ?? null,
+        last_modified: response.lastModified ?? null,
+        body: response.body,
+        updated_at: new Date().toISOString(),
+      })
+      .onConflict('key')
+      .merge();
+  }
+}
@@ -0,0 +1,414 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+import * as undici from 'undici';
+import { GiteaClient } from './GiteaClient';
+import type { RepositoryInfo, ScmClientConfig } from './types';
+
+// Mock global fetch
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+jest.mock('undici', () => ({
+  ...jest.requireActual('undici'),
+  fetch: jest.fn(),
+}));
+
+describe('GiteaClient', () => {
+  let client: GiteaClient;
+  let mockLogger: LoggerService;
+  let mockConfig: ScmClientConfig;
+  const mockRepo: RepositoryInfo = {
+    name: 'collection',
+    fullPath: 'ansible/collection',
+    defaultBranch: 'main',
+    url: 'https://gitea.example.com/ansible/collection',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as unknown as LoggerService;
+
+    mockConfig = {
+      scmProvider: 'gitea',
+      host: 'gitea.example.com',
+      organization: 'ansible',
+      token: 'test-token',
+    };
+
+    client = new GiteaClient({ config: mockConfig, logger: mockLogger });
+  });
+
+  describe('constructor', () => {
+    it('should use gitea.com as default host', () => {
+      const config: ScmClientConfig = {
+        scmProvider: 'gitea',
+        organization: 'ansible',
+        token: 'test-token',
+      };
+      const giteaClient = new GiteaClient({ config, logger: mockLogger });
+      expect(giteaClient.getHost()).toBe('gitea.com');
+    });
+
+    it('should use the configured API base URL', async () => {
+      const config: ScmClientConfig = {
+        ...mockConfig,
+        apiBaseUrl: 'https://gitea.example.com/git/api/v1/',
+      };
+      const giteaClient = new GiteaClient({ config, logger: mockLogger });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await giteaClient.getRepositories();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitea.example.com/git/api/v1/orgs/ansible/repos?limit=50&page=1',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('getFetchOptions', () => {
+    it('should send the token in the authorization header', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await client.getRepositories();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'token test-token',
+            Accept: 'application/json',
+          }),
+        }),
+      );
+    });
+
+    it('should use basic credentials when a username is configured', async () => {
+      const config: ScmClientConfig = { ...mockConfig, username: 'ci-bot' };
+      const giteaClient = new GiteaClient({ config, logger: mockLogger });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await giteaClient.getRepositories();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: `Basic ${Buffer.from('ci-bot:test-token').toString(
+              'base64',
+            )}`,
+          }),
+        }),
+      );
+    });
+
+    it('should return headers and dispatcher when checkSSL is false', async () => {
+      const config: ScmClientConfig = { ...mockConfig, checkSSL: false };
+      const giteaClient = new GiteaClient({ config, logger: mockLogger });
+      (undici.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await giteaClient.getRepositories();
+
+      expect(undici.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          dispatcher: expect.anything(),
+        }),
+      );
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should fetch repositories of the organization', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            {
+              name: 'collection',
+              full_name: 'ansible/collection',
+              default_branch: 'main',
+              html_url: 'https://gitea.example.com/ansible/collection',
+              description: 'An Ansible collection',
+              archived: false,
+              empty: false,
+            },
+            {
+              name: 'archived',
+              full_name: 'ansible/archived',
+              default_branch: 'main',
+              html_url: 'https://gitea.example.com/ansible/archived',
+              description: '',
+              archived: true,
+              empty: false,
+            },
+            {
+              name: 'empty',
+              full_name: 'ansible/empty',
+              default_branch: '',
+              html_url: 'https://gitea.example.com/ansible/empty',
+              description: '',
+              archived: false,
+              empty: true,
+            },
+          ]),
+      });
+
+      const repos = await client.getRepositories();
+
+      expect(repos).toEqual([
+        {
+          name: 'collection',
+          fullPath: 'ansible/collection',
+          defaultBranch: 'main',
+          url: 'https://gitea.example.com/ansible/collection',
+          description: 'An Ansible collection',
+        },
+      ]);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        '[GiteaClient] Skipping archived repository: ansible/archived',
+      );
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        '[GiteaClient] Skipping empty repository: ansible/empty',
+      );
+    });
+
+    it('should handle pagination', async () => {
+      const page1 = Array(50)
+        .fill(null)
+        .map((_, i) => ({
+          name: `repo${i}`,
+          full_name: `ansible/repo${i}`,
+          default_branch: 'main',
+          html_url: `https://gitea.example.com/ansible/repo${i}`,
+          description: '',
+          archived: false,
+          empty: false,
+        }));
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve(page1),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([]),
+        });
+
+      const repos = await client.getRepositories();
+
+      expect(repos).toHaveLength(50);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://gitea.example.com/api/v1/orgs/ansible/repos?limit=50&page=2',
+        expect.anything(),
+      );
+    });
+
+    it('should throw error on API failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('Not Found'),
+      });
+
+      await expect(client.getRepositories()).rejects.toThrow(
+        'Gitea API error (404): Not Found',
+      );
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should throw when AbortSignal is aborted during getRepositories', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.getRepositories(controller.signal)).rejects.toThrow(
+        'SCM sync aborted, stopping repository fetch',
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBranches and getTags', () => {
+    it('should fetch branch and tag names', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([{ name: 'main' }, { name: 'dev' }]),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve([{ name: 'v1.0.0' }]),
+        });
+
+      expect(await client.getBranches(mockRepo)).toEqual(['main', 'dev']);
+      expect(await client.getTags(mockRepo)).toEqual(['v1.0.0']);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://gitea.example.com/api/v1/repos/ansible/collection/branches?limit=50&page=1',
+        expect.anything(),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://gitea.example.com/api/v1/repos/ansible/collection/tags?limit=50&page=1',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('getContents', () => {
+    it('should list files and directories at the path', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            { name: 'galaxy.yml', path: 'ns/col/galaxy.yml', type: 'file' },
+            { name: 'roles', path: 'ns/col/roles', type: 'dir' },
+            { name: 'link', path: 'ns/col/link', type: 'symlink' },
+          ]),
+      });
+
+      const contents = await client.getContents(mockRepo, 'v1.0.0', 'ns/col');
+
+      expect(contents).toEqual([
+        { name: 'galaxy.yml', path: 'ns/col/galaxy.yml', type: 'file' },
+        { name: 'roles', path: 'ns/col/roles', type: 'dir' },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitea.example.com/api/v1/repos/ansible/collection/contents/ns/col?ref=v1.0.0',
+        expect.anything(),
+      );
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.stringContaining('Found galaxy files'),
+      );
+    });
+
+    it('should list the repository root', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await client.getContents(mockRepo, 'main', '');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitea.example.com/api/v1/repos/ansible/collection/contents?ref=main',
+        expect.anything(),
+      );
+    });
+
+    it('should return empty array on error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () => Promise.resolve('Not Found'),
+      });
+
+      const contents = await client.getContents(mockRepo, 'main', 'missing');
+
+      expect(contents).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('getFileContent', () => {
+    it('should fetch raw file content', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('namespace: test'),
+      });
+
+      const content = await client.getFileContent(
+        mockRepo,
+        'feature/new',
+        'ns/col/galaxy.yml',
+      );
+
+      expect(content).toBe('namespace: test');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitea.example.com/api/v1/repos/ansible/collection/raw/ns/col/galaxy.yml?ref=feature%2Fnew',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Accept: '*/*' }),
+        }),
+      );
+    });
+
+    it('should throw error when file not found', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      await expect(
+        client.getFileContent(mockRepo, 'main', 'galaxy.yml'),
+      ).rejects.toThrow('Failed to fetch file: 404 Not Found');
+    });
+  });
+
+  describe('getHeadSha', () => {
+    it('should fetch the latest commit of the ref', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([{ sha: '3f2a7c1e' }]),
+      });
+
+      const sha = await client.getHeadSha(mockRepo, 'v1.0.0');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitea.example.com/api/v1/repos/ansible/collection/commits?sha=v1.0.0&limit=1&stat=false&files=false',
+        expect.anything(),
+      );
+    });
+
+    it('should throw when the ref has no commit', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([]),
+      });
+
+      await expect(client.getHeadSha(mockRepo, 'main')).rejects.toThrow(
+        'Failed to fetch the head of main: no commit',
+      );
+    });
+  });
+
+  describe('buildUrl and buildSourceLocation', () => {
+    it('should build URLs in the branch form', () => {
+      expect(
+        client.buildUrl({
+          repo: mockRepo,
+          ref: 'main',
+          path: 'ns/col/galaxy.yml',
+          type: 'file',
+        }),
+      ).toBe(
+        'https://gitea.example.com/ansible/collection/src/branch/main/ns/col/galaxy.yml',
+      );
+      expect(
+        client.buildSourceLocation(mockRepo, 'v1.0.0', 'ns/col/galaxy.yml'),
+      ).toBe(
+        'url:https://gitea.example.com/ansible/collection/src/branch/v1.0.0/ns/col',
+      );
+    });
+  });
+});
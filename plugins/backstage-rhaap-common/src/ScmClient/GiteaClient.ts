@@ -0,0 +1,326 @@
+import { fetch as undiciFetch, Agent } from 'undici';
+import { BaseScmClient, ScmClientOptions } from './ScmClient';
+import type { RepositoryInfo, DirectoryEntry, UrlBuildOptions } from './types';
+
+export class GiteaClient extends BaseScmClient {
+  private readonly apiUrl: string;
+  private readonly checkSSL: boolean;
+
+  constructor(options: ScmClientOptions) {
+    super(options);
+    this.apiUrl =
+      options.config.apiBaseUrl?.replace(/\/$/, '') ??
+      `https://${this.host}/api/v1`;
+    this.checkSSL = options.config.checkSSL !== false;
+  }
+
+  protected getDefaultHost(): string {
+    return 'gitea.com';
+  }
+
+  private getFetchOptions(accept = 'application/json'): RequestInit & {
+    dispatcher?: Agent;
+  } {
+    const headers: Record<string, string> = {
+      Authorization: this.config.username
+        ? `Basic ${Buffer.from(
+            `${this.config.username}:${this.config.token}`,
+          ).toString('base64')}`
+        : `token ${this.config.token}`,
+      Accept: accept,
+    };
+    if (!this.checkSSL) {
+      return {
+        headers,
+        dispatcher: new Agent({
+          connect: { rejectUnauthorized: false },
+        }),
+      };
+    }
+    return { headers };
+  }
+
+  private send(
+    url: string,
+    accept: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const options = this.getFetchOptions(accept);
+    const opts = {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), ...headers },
+      signal,
+    };
+    return this.checkSSL
+      ? fetch(url, opts)
+      : (undiciFetch(
+          url,
+          opts as Parameters<typeof undiciFetch>[1],
+        ) as unknown as Promise<Response>);
+  }
+
+  private async fetchRest<T>(
+    endpoint: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = `${this.apiUrl}${endpoint}`;
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, 'application/json', headers, signal),
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Gitea API error (${response.status}): ${error}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  private async fetchRawFile(
+    endpoint: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const url = `${this.apiUrl}${endpoint}`;
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, '*/*', headers, signal),
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch file: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Collects all the pages of a list endpoint. Gitea caps the page size at 50
+   * by default, so a shorter page is the last one.
+   */
+  private async fetchAllPages<T>(
+    endpoint: string,
+    what: string,
+    signal?: AbortSignal,
+  ): Promise<T[]> {
+    const values: T[] = [];
+    const perPage = 50;
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      if (signal?.aborted) {
+        throw new Error(`SCM sync aborted, stopping ${what} fetch`);
+      }
+      const data = await this.fetchRest<T[]>(
+        `${endpoint}${separator}limit=${perPage}&page=${page}`,
+        signal,
+      );
+
+      values.push(...data);
+
+      if (data.length < perPage) {
+        hasMore = false;
+      } else {
+        page++;
+      }
+    }
+
+    return values;
+  }
+
+  private repoApiPath(repo: RepositoryInfo): string {
+    const [owner, name] = repo.fullPath.split('/');
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+  }
+
+  private encodeFilePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+  }
+
+  private shouldIncludeRepository(repo: {
+    archived: boolean;
+    empty: boolean;
+    full_name: string;
+  }): boolean {
+    if (repo.archived) {
+      this.logger.debug(
+        `[GiteaClient] Skipping archived repository: ${repo.full_name}`,
+      );
+      return false;
+    }
+    if (repo.empty) {
+      this.logger.debug(
+        `[GiteaClient] Skipping empty repository: ${repo.full_name}`,
+      );
+      return false;
+    }
+    return true;
+  }
+
+  async getRepositories(signal?: AbortSignal): Promise<RepositoryInfo[]> {
+    interface RepositoryResponse {
+      name: string;
+      full_name: string;
+      default_branch: string;
+      html_url: string;
+      description: string;
+      archived: boolean;
+      empty: boolean;
+    }
+
+    this.logger.info(
+      `[GiteaClient] Starting to fetch repositories from organization: ${this.config.organization}`,
+    );
+
+    let data: RepositoryResponse[];
+    try {
+      data = await this.fetchAllPages<RepositoryResponse>(
+        `/orgs/${encodeURIComponent(this.config.organization)}/repos`,
+        'repository',
+        signal,
+      );
+    } catch (error) {
+      this.logger.error(
+        `[GiteaClient] Error fetching repositories from organization ${this.config.organization}: ${error}`,
+      );
+      throw error;
+    }
+
+    const repos = data
+      .filter(repo => this.shouldIncludeRepository(repo))
+      .map(
+        (repo): RepositoryInfo => ({
+          name: repo.name,
+          fullPath: repo.full_name,
+          defaultBranch: repo.default_branch || 'main',
+          url: repo.html_url,
+          description: repo.description || undefined,
+        }),
+      );
+
+    this.logger.info(
+      `[GiteaClient] Found ${repos.length} repositories in organization ${this.config.organization}`,
+    );
+    return repos;
+  }
+
+  async getBranches(
+    repo: RepositoryInfo,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const data = await this.fetchAllPages<{ name: string }>(
+      `${this.repoApiPath(repo)}/branches`,
+      'branch',
+      signal,
+    );
+    return data.map(b => b.name);
+  }
+
+  async getTags(repo: RepositoryInfo, signal?: AbortSignal): Promise<string[]> {
+    const data = await this.fetchAllPages<{ name: string }>(
+      `${this.repoApiPath(repo)}/tags`,
+      'tag',
+      signal,
+    );
+    return data.map(t => t.name);
+  }
+
+  async getContents(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<DirectoryEntry[]> {
+    interface ContentsResponse {
+      name: string;
+      path: string;
+      type: 'file' | 'dir' | 'symlink' | 'submodule';
+    }
+
+    try {
+      const data = await this.fetchRest<ContentsResponse[]>(
+        `${this.repoApiPath(repo)}/contents${
+          path ? `/${this.encodeFilePath(path)}` : ''
+        }?ref=${encodeURIComponent(ref)}`,
+        signal,
+      );
+
+      const galaxyFiles = data.filter(
+        item =>
+          item.type === 'file' &&
+          (item.name === 'galaxy.yml' || item.name === 'galaxy.yaml'),
+      );
+      if (galaxyFiles.length > 0) {
+        this.logger.info(
+          `[GiteaClient] Found galaxy files in ${repo.fullPath}@${ref}`,
+        );
+      }
+
+      return data
+        .filter(item => item.type === 'file' || item.type === 'dir')
+        .map(
+          (item): DirectoryEntry => ({
+            name: item.name,
+            path: item.path,
+            type: item.type === 'dir' ? 'dir' : 'file',
+          }),
+        );
+    } catch (error) {
+      this.logger.warn(
+        `[GiteaClient] Error getting contents for ${repo.fullPath}/${path}@${ref}: ${error}`,
+      );
+      return [];
+    }
+  }
+
+  async getFileContent(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    return this.fetchRawFile(
+      `${this.repoApiPath(repo)}/raw/${this.encodeFilePath(
+        path,
+      )}?ref=${encodeURIComponent(ref)}`,
+      signal,
+    );
+  }
+
+  async getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const commits = await this.fetchRest<Array<{ sha: string }>>(
+      `${this.repoApiPath(repo)}/commits?sha=${encodeURIComponent(
+        ref,
+      )}&limit=1&stat=false&files=false`,
+      signal,
+    );
+    if (!commits.length) {
+      throw new Error(`Failed to fetch the head of ${ref}: no commit`);
+    }
+    return commits[0].sha;
+  }
+
+  buildUrl(options: UrlBuildOptions): string {
+    const { repo, ref, path } = options;
+    // the Gitea URL reader expects the branch form for both branches and tags
+    if (path) {
+      return `https://${this.host}/${repo.fullPath}/src/branch/${ref}/${path}`;
+    }
+    return `https://${this.host}/${repo.fullPath}/src/branch/${ref}`;
+  }
+
+  buildSourceLocation(repo: RepositoryInfo, ref: string, path: string): string {
+    const dirPath = path.includes('/')
+      ? path.substring(0, path.lastIndexOf('/'))
+      : '';
+    const url = this.buildUrl({ repo, ref, path: dirPath, type: 'dir' });
+    return `url:${url}`;
+  }
+}
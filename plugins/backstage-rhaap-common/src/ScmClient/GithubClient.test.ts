@@ -776,4 +776,186 @@ describe('GithubClient', () => {
       );
     });
   });
+
+  describe('getHeadSha', () => {
+    const mockRepo: RepositoryInfo = {
+      name: 'test-repo',
+      fullPath: 'test-org/test-repo',
+      defaultBranch: 'main',
+      url: 'https://github.com/test-org/test-repo',
+    };
+
+    it('should fetch the SHA of the ref', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('3f2a7c1e\n'),
+      });
+
+      const sha = await client.getHeadSha(mockRepo, 'release/1.0');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.github.com/repos/test-org/test-repo/commits/release%2F1.0',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: 'application/vnd.github.sha',
+          }),
+        }),
+      );
+    });
+
+    it('should throw when the ref does not exist', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        statusText: 'Unprocessable Entity',
+      });
+
+      await expect(client.getHeadSha(mockRepo, 'missing')).rejects.toThrow(
+        'Failed to fetch the head of missing: 422 Unprocessable Entity',
+      );
+    });
+  });
+
+  describe('response cache', () => {
+    const mockRepo: RepositoryInfo = {
+      name: 'test-repo',
+      fullPath: 'test-org/test-repo',
+      defaultBranch: 'main',
+      url: 'https://github.com/test-org/test-repo',
+    };
+    const url =
+      'https://api.github.com/repos/test-org/test-repo/contents/galaxy.yml?ref=main';
+
+    const createCachedClient = (entries: Record<string, any> = {}) => {
+      const cache = {
+        get: jest.fn(async (key: string) => entries[key]),
+        set: jest.fn(async (key: string, value: any) => {
+          entries[key] = value;
+        }),
+      };
+      return {
+        cache,
+        cachedClient: new GithubClient({
+          config: mockConfig,
+          logger: mockLogger,
+          cache,
+        }),
+      };
+    };
+
+    it('should store the responses with validators', async () => {
+      const { cache, cachedClient } = createCachedClient();
+      mockFetch.mockResolvedValueOnce(
+        new Response('name: collection', {
+          status: 200,
+          headers: {
+            ETag: '"abc"',
+            'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT',
+          },
+        }),
+      );
+
+      const content = await cachedClient.getFileContent(
+        mockRepo,
+        'main',
+        'galaxy.yml',
+      );
+
+      expect(content).toBe('name: collection');
+      expect(cache.set).toHaveBeenCalledWith(url, {
+        etag: '"abc"',
+        lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+        body: 'name: collection',
+      });
+    });
+
+    it('should send conditional requests and reuse the cached body on 304', async () => {
+      const { cache, cachedClient } = createCachedClient({
+        [url]: {
+          etag: '"abc"',
+          lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+          body: 'name: collection',
+        },
+      });
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const content = await cachedClient.getFileContent(
+        mockRepo,
+        'main',
+        'galaxy.yml',
+      );
+
+      expect(content).toBe('name: collection');
+      expect(mockFetch).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: 'application/vnd.github.v3.raw',
+            'If-None-Match': '"abc"',
+            'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT',
+          }),
+        }),
+      );
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    it('should cache the REST API listings', async () => {
+      const { cache, cachedClient } = createCachedClient();
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify([{ name: 'main' }]), {
+          status: 200,
+          headers: { ETag: 'W/"branches"' },
+        }),
+      );
+
+      await expect(cachedClient.getBranches(mockRepo)).resolves.toEqual([
+        'main',
+      ]);
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+      await expect(cachedClient.getBranches(mockRepo)).resolves.toEqual([
+        'main',
+      ]);
+
+      expect(cache.set).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/repos/test-org/test-repo/branches'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': 'W/"branches"' }),
+        }),
+      );
+    });
+
+    it('should not cache failed responses or responses without validators', async () => {
+      const { cache, cachedClient } = createCachedClient();
+      mockFetch
+        .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+        .mockResolvedValueOnce(new Response('name: collection'));
+
+      await expect(
+        cachedClient.getFileContent(mockRepo, 'main', 'galaxy.yml'),
+      ).rejects.toThrow('Failed to fetch file content: 404');
+      await expect(
+        cachedClient.getFileContent(mockRepo, 'main', 'galaxy.yml'),
+      ).resolves.toBe('name: collection');
+
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    it('should fetch without the cache when it fails', async () => {
+      const { cache, cachedClient } = createCachedClient();
+      cache.get.mockRejectedValue(new Error('database is locked'));
+      cache.set.mockRejectedValue(new Error('database is locked'));
+      mockFetch.mockResolvedValueOnce(
+        new Response('name: collection', { headers: { ETag: '"abc"' } }),
+      );
+
+      await expect(
+        cachedClient.getFileContent(mockRepo, 'main', 'galaxy.yml'),
+      ).resolves.toBe('name: collection');
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        `Failed to cache the response of ${url}: Error: database is locked`,
+      );
+    });
+  });
 });
@@ -72,9 +72,10 @@ export class GithubClient extends BaseScmClient {
     endpoint: string,
     signal?: AbortSignal,
   ): Promise<T> {
-    const response = await this.doFetch(`${this.apiUrl}${endpoint}`, {
-      signal,
-    });
+    const url = `${this.apiUrl}${endpoint}`;
+    const response = await this.fetchConditional(url, headers =>
+      this.doFetch(url, { signal, headers }),
+    );
 
     if (!response.ok) {
       const error = await response.text();
@@ -317,12 +318,15 @@ export class GithubClient extends BaseScmClient {
     const url = `${this.apiUrl}/repos/${repo.fullPath}/contents/${encodeURIComponent(
       path,
     )}?ref=${encodeURIComponent(ref)}`;
-    const response = await this.doFetch(url, {
-      signal,
-      headers: {
-        Accept: 'application/vnd.github.v3.raw',
-      },
-    });
+    const response = await this.fetchConditional(url, headers =>
+      this.doFetch(url, {
+        signal,
+        headers: {
+          Accept: 'application/vnd.github.v3.raw',
+          ...headers,
+        },
+      }),
+    );
 
     if (!response.ok) {
       throw new Error(
@@ -333,6 +337,33 @@ export class GithubClient extends BaseScmClient {
     return response.text();
   }
 
+  async getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const url = `${this.apiUrl}/repos/${
+      repo.fullPath
+    }/commits/${encodeURIComponent(ref)}`;
+    const response = await this.fetchConditional(url, headers =>
+      this.doFetch(url, {
+        signal,
+        headers: {
+          Accept: 'application/vnd.github.sha',
+          ...headers,
+        },
+      }),
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch the head of ${ref}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return (await response.text()).trim();
+  }
+
   buildUrl(options: UrlBuildOptions): string {
     const { repo, ref, path, type } = options;
     const urlType = type === 'file' ? 'blob' : 'tree';
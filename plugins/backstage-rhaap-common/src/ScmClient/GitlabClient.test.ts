@@ -774,4 +774,71 @@ describe('GitlabClient', () => {
       );
     });
   });
+
+  describe('getHeadSha', () => {
+    const mockRepo: RepositoryInfo = {
+      name: 'test-project',
+      fullPath: 'test-group/test-project',
+      defaultBranch: 'main',
+      url: 'https://gitlab.com/test-group/test-project',
+    };
+
+    it('should fetch the commit of the ref', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: '3f2a7c1e', short_id: '3f2a7c1' }),
+      });
+
+      const sha = await client.getHeadSha(mockRepo, 'v1.0.0');
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://gitlab.com/api/v4/projects/test-group%2Ftest-project/repository/commits/v1.0.0',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('response cache', () => {
+    it('should send conditional requests and reuse the cached body on 304', async () => {
+      const url =
+        'https://gitlab.com/api/v4/projects/test-group%2Ftest-project/repository/commits/main';
+      const cache = {
+        get: jest.fn().mockResolvedValue({
+          etag: 'W/"commit"',
+          body: JSON.stringify({ id: '3f2a7c1e' }),
+        }),
+        set: jest.fn(),
+      };
+      const cachedClient = new GitlabClient({
+        config: mockConfig,
+        logger: mockLogger,
+        cache,
+      });
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const sha = await cachedClient.getHeadSha(
+        {
+          name: 'test-project',
+          fullPath: 'test-group/test-project',
+          defaultBranch: 'main',
+          url: 'https://gitlab.com/test-group/test-project',
+        },
+        'main',
+      );
+
+      expect(sha).toBe('3f2a7c1e');
+      expect(cache.get).toHaveBeenCalledWith(url);
+      expect(mockFetch).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'PRIVATE-TOKEN': 'test-token',
+            'If-None-Match': 'W/"commit"',
+          }),
+        }),
+      );
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -36,15 +36,34 @@ export class GitlabClient extends BaseScmClient {
     return { headers };
   }
 
+  private send(
+    url: string,
+    accept: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const options = this.getFetchOptions(accept);
+    const opts = {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), ...headers },
+      signal,
+    };
+    return this.checkSSL
+      ? fetch(url, opts)
+      : (undiciFetch(
+          url,
+          opts as Parameters<typeof undiciFetch>[1],
+        ) as unknown as Promise<Response>);
+  }
+
   private async fetchRest<T>(
     endpoint: string,
     signal?: AbortSignal,
   ): Promise<T> {
     const url = `${this.apiUrl}${endpoint}`;
-    const opts = { ...this.getFetchOptions(), signal };
-    const response = this.checkSSL
-      ? await fetch(url, opts)
-      : await undiciFetch(url, opts as Parameters<typeof undiciFetch>[1]);
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, 'application/json', headers, signal),
+    );
 
     if (!response.ok) {
       const error = await response.text();
@@ -59,10 +78,9 @@ export class GitlabClient extends BaseScmClient {
     signal?: AbortSignal,
   ): Promise<string> {
     const url = `${this.apiUrl}${endpoint}`;
-    const opts = { ...this.getFetchOptions('*/*'), signal };
-    const response = this.checkSSL
-      ? await fetch(url, opts)
-      : await undiciFetch(url, opts as Parameters<typeof undiciFetch>[1]);
+    const response = await this.fetchConditional(url, headers =>
+      this.send(url, '*/*', headers, signal),
+    );
 
     if (!response.ok) {
       throw new Error(
@@ -316,6 +334,20 @@ export class GitlabClient extends BaseScmClient {
     );
   }
 
+  async getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const { id } = await this.fetchRest<{ id: string }>(
+      `/projects/${encodeURIComponent(
+        repo.fullPath,
+      )}/repository/commits/${encodeURIComponent(ref)}`,
+      signal,
+    );
+    return id;
+  }
+
   buildUrl(options: UrlBuildOptions): string {
     const { repo, ref, path, type } = options;
     const urlType = type === 'file' ? 'blob' : 'tree';
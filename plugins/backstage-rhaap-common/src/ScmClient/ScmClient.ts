@@ -3,6 +3,7 @@ import type {
   RepositoryInfo,
   DirectoryEntry,
   ScmClientConfig,
+  ScmResponseCache,
   UrlBuildOptions,
 } from './types';
 
@@ -22,6 +23,12 @@ export interface ScmClient {
     path: string,
     signal?: AbortSignal,
   ): Promise<string>;
+  /** SHA of the commit the branch or the tag points to. */
+  getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string>;
   buildUrl(options: UrlBuildOptions): string;
   buildSourceLocation(repo: RepositoryInfo, ref: string, path: string): string;
   getHost(): string;
@@ -32,17 +39,21 @@ export interface ScmClient {
 export interface ScmClientOptions {
   config: ScmClientConfig;
   logger: LoggerService;
+  /** When set, the GET requests are conditional on the cached responses. */
+  cache?: ScmResponseCache;
 }
 
 export abstract class BaseScmClient implements ScmClient {
   protected readonly config: ScmClientConfig;
   protected readonly logger: LoggerService;
   protected readonly host: string;
+  protected readonly cache?: ScmResponseCache;
 
   constructor(options: ScmClientOptions) {
     this.config = options.config;
     this.logger = options.logger;
     this.host = this.config.host || this.getDefaultHost();
+    this.cache = options.cache;
   }
 
   protected abstract getDefaultHost(): string;
@@ -59,6 +70,52 @@ export abstract class BaseScmClient implements ScmClient {
       .replaceAll(/[^a-z0-9-]/g, '-');
   }
 
+  /**
+   * Sends a GET request with the validators of the cached response to the URL,
+   * and answers a 304 Not Modified with the cached body. Conditional requests
+   * answered with 304 do not count against the GitHub rate limit.
+   */
+  protected async fetchConditional(
+    url: string,
+    send: (headers: Record<string, string>) => Promise<Response>,
+  ): Promise<Response> {
+    if (!this.cache) {
+      return send({});
+    }
+    const cached = await this.cache.get(url).catch(error => {
+      this.logger.debug(
+        `Failed to read the cached response of ${url}: ${error}`,
+      );
+      return undefined;
+    });
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await send(headers);
+    if (response.status === 304 && cached) {
+      return new Response(cached.body, { status: 200 });
+    }
+    const etag = response.headers.get('etag') ?? undefined;
+    const lastModified = response.headers.get('last-modified') ?? undefined;
+    if (!response.ok || (!etag && !lastModified)) {
+      return response;
+    }
+    const body = await response.text();
+    await this.cache.set(url, { etag, lastModified, body }).catch(error => {
+      this.logger.debug(`Failed to cache the response of ${url}: ${error}`);
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
   // abstract methods implemented by subclasses
   abstract getRepositories(signal?: AbortSignal): Promise<RepositoryInfo[]>;
   abstract getBranches(
@@ -81,6 +138,11 @@ export abstract class BaseScmClient implements ScmClient {
     path: string,
     signal?: AbortSignal,
   ): Promise<string>;
+  abstract getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string>;
   abstract buildUrl(options: UrlBuildOptions): string;
   abstract buildSourceLocation(
     repo: RepositoryInfo,
@@ -3,6 +3,8 @@ import { Config } from '@backstage/config';
 import { ScmClientFactory } from './ScmClientFactory';
 import { GithubClient } from './GithubClient';
 import { GitlabClient } from './GitlabClient';
+import { BitbucketClient } from './BitbucketClient';
+import { GiteaClient } from './GiteaClient';
 
 // Mock the ScmIntegrations
 jest.mock('@backstage/integration', () => ({
@@ -20,6 +22,9 @@ describe('ScmClientFactory', () => {
   let mockIntegrations: {
     github: { byHost: jest.Mock };
     gitlab: { byHost: jest.Mock };
+    bitbucketCloud: { byHost: jest.Mock };
+    bitbucketServer: { byHost: jest.Mock };
+    gitea: { byHost: jest.Mock };
   };
 
   beforeEach(() => {
@@ -42,6 +47,15 @@ describe('ScmClientFactory', () => {
       gitlab: {
         byHost: jest.fn(),
       },
+      bitbucketCloud: {
+        byHost: jest.fn(),
+      },
+      bitbucketServer: {
+        byHost: jest.fn(),
+      },
+      gitea: {
+        byHost: jest.fn(),
+      },
     };
 
     (ScmIntegrations.fromConfig as jest.Mock).mockReturnValue(mockIntegrations);
@@ -229,14 +243,210 @@ describe('ScmClientFactory', () => {
       });
     });
 
+    describe('Bitbucket client creation', () => {
+      it('should create a BitbucketClient for Bitbucket Cloud by default', async () => {
+        mockIntegrations.bitbucketCloud.byHost.mockReturnValue({
+          config: {
+            host: 'bitbucket.org',
+            apiBaseUrl: 'https://api.bitbucket.org/2.0',
+            token: 'bitbucket-token',
+          },
+        });
+
+        const client = await factory.createClient({
+          scmProvider: 'bitbucket',
+          organization: 'test-workspace',
+        });
+
+        expect(client).toBeInstanceOf(BitbucketClient);
+        expect(client.getHost()).toBe('bitbucket.org');
+        expect(mockIntegrations.bitbucketCloud.byHost).toHaveBeenCalledWith(
+          'bitbucket.org',
+        );
+        expect(mockIntegrations.bitbucketServer.byHost).not.toHaveBeenCalled();
+      });
+
+      it('should use the Bitbucket Server integration for other hosts', async () => {
+        mockIntegrations.bitbucketServer.byHost.mockReturnValue({
+          config: {
+            host: 'bitbucket.example.com',
+            apiBaseUrl: 'https://bitbucket.example.com/rest/api/1.0',
+            token: 'bitbucket-token',
+          },
+        });
+
+        const client = await factory.createClient({
+          scmProvider: 'bitbucket',
+          host: 'bitbucket.example.com',
+          organization: 'ANS',
+        });
+
+        expect(client).toBeInstanceOf(BitbucketClient);
+        expect(client.getHost()).toBe('bitbucket.example.com');
+        expect(client.getSourceId()).toBe(
+          'bitbucket-bitbucket-example-com-ans',
+        );
+      });
+
+      it('should use the username and app password when there is no token', async () => {
+        mockIntegrations.bitbucketCloud.byHost.mockReturnValue({
+          config: {
+            host: 'bitbucket.org',
+            apiBaseUrl: 'https://api.bitbucket.org/2.0',
+            username: 'ci-bot',
+            appPassword: 'app-password',
+          },
+        });
+        const mockFetch = jest.fn().mockResolvedValue({
+          ok: true,
+          json: () => Promise.resolve({ values: [] }),
+        });
+        global.fetch = mockFetch;
+
+        const client = await factory.createClient({
+          scmProvider: 'bitbucket',
+          organization: 'test-workspace',
+        });
+        await client.getRepositories();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://api.bitbucket.org/2.0/repositories/test-workspace?pagelen=100',
+          expect.objectContaining({
+            headers: expect.objectContaining({
+              Authorization: `Basic ${Buffer.from(
+                'ci-bot:app-password',
+              ).toString('base64')}`,
+            }),
+          }),
+        );
+      });
+
+      it('should throw error when Bitbucket Server integration not found', async () => {
+        mockIntegrations.bitbucketServer.byHost.mockReturnValue(undefined);
+
+        await expect(
+          factory.createClient({
+            scmProvider: 'bitbucket',
+            host: 'bitbucket.unknown.com',
+            organization: 'ANS',
+          }),
+        ).rejects.toThrow(
+          'No Bitbucket Server integration configured for host: bitbucket.unknown.com',
+        );
+      });
+
+      it('should throw error when Bitbucket Cloud credentials not configured', async () => {
+        mockIntegrations.bitbucketCloud.byHost.mockReturnValue({
+          config: {
+            host: 'bitbucket.org',
+            apiBaseUrl: 'https://api.bitbucket.org/2.0',
+            appPassword: 'app-password',
+          },
+        });
+
+        await expect(
+          factory.createClient({
+            scmProvider: 'bitbucket',
+            organization: 'test-workspace',
+          }),
+        ).rejects.toThrow(
+          'No token or app password configured for Bitbucket Cloud host: bitbucket.org',
+        );
+      });
+    });
+
+    describe('Gitea client creation', () => {
+      it('should create a GiteaClient for gitea provider', async () => {
+        mockIntegrations.gitea.byHost.mockReturnValue({
+          config: {
+            host: 'gitea.example.com',
+            password: 'gitea-token',
+          },
+        });
+
+        const client = await factory.createClient({
+          scmProvider: 'gitea',
+          host: 'gitea.example.com',
+          organization: 'ansible',
+        });
+
+        expect(client).toBeInstanceOf(GiteaClient);
+        expect(client.getHost()).toBe('gitea.example.com');
+        expect(client.getSourceId()).toBe('gitea-gitea-example-com-ansible');
+      });
+
+      it('should derive the API URL from the base URL of the integration', async () => {
+        mockIntegrations.gitea.byHost.mockReturnValue({
+          config: {
+            host: 'gitea.example.com',
+            baseUrl: 'https://gitea.example.com/git/',
+            password: 'gitea-token',
+          },
+        });
+        const mockFetch = jest.fn().mockResolvedValue({
+          ok: true,
+          json: () => Promise.resolve([]),
+        });
+        global.fetch = mockFetch;
+
+        const client = await factory.createClient({
+          scmProvider: 'gitea',
+          host: 'gitea.example.com',
+          organization: 'ansible',
+        });
+        await client.getRepositories();
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://gitea.example.com/git/api/v1/orgs/ansible/repos?limit=50&page=1',
+          expect.objectContaining({
+            headers: expect.objectContaining({
+              Authorization: 'token gitea-token',
+            }),
+          }),
+        );
+      });
+
+      it('should use default gitea.com host when not specified', async () => {
+        mockIntegrations.gitea.byHost.mockReturnValue({
+          config: {
+            host: 'gitea.com',
+            password: 'gitea-token',
+          },
+        });
+
+        const client = await factory.createClient({
+          scmProvider: 'gitea',
+          organization: 'ansible',
+        });
+
+        expect(client.getHost()).toBe('gitea.com');
+        expect(mockIntegrations.gitea.byHost).toHaveBeenCalledWith('gitea.com');
+      });
+
+      it('should throw error when Gitea password not configured', async () => {
+        mockIntegrations.gitea.byHost.mockReturnValue({
+          config: {
+            host: 'gitea.com',
+          },
+        });
+
+        await expect(
+          factory.createClient({
+            scmProvider: 'gitea',
+            organization: 'ansible',
+          }),
+        ).rejects.toThrow('No password configured for Gitea host: gitea.com');
+      });
+    });
+
     describe('unsupported provider', () => {
       it('should throw error for unsupported SCM provider', async () => {
         await expect(
           factory.createClient({
-            scmProvider: 'bitbucket' as any,
+            scmProvider: 'azure' as any,
             organization: 'test-org',
           }),
-        ).rejects.toThrow('Unsupported SCM provider: bitbucket');
+        ).rejects.toThrow('Unsupported SCM provider: azure');
       });
     });
 
@@ -6,9 +6,18 @@ import {
 } from '@backstage/integration';
 
 import type { ScmClient } from './ScmClient';
-import type { ScmProvider } from './types';
+import type { ScmProvider, ScmResponseCache } from './types';
 import { GithubClient } from './GithubClient';
 import { GitlabClient } from './GitlabClient';
+import { BitbucketClient } from './BitbucketClient';
+import { GiteaClient } from './GiteaClient';
+
+const DEFAULT_HOSTS: Record<ScmProvider, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+  bitbucket: 'bitbucket.org',
+  gitea: 'gitea.com',
+};
 
 export interface CreateScmClientOptions {
   scmProvider: ScmProvider;
@@ -20,17 +29,22 @@ export interface CreateScmClientOptions {
 export class ScmClientFactory {
   private readonly integrations: ScmIntegrationRegistry;
   private readonly logger: LoggerService;
+  private readonly cache?: ScmResponseCache;
 
-  constructor(options: { rootConfig: Config; logger: LoggerService }) {
+  constructor(options: {
+    rootConfig: Config;
+    logger: LoggerService;
+    cache?: ScmResponseCache;
+  }) {
     this.integrations = ScmIntegrations.fromConfig(options.rootConfig);
     this.logger = options.logger;
+    this.cache = options.cache;
   }
 
   async createClient(options: CreateScmClientOptions): Promise<ScmClient> {
     const { scmProvider, host, organization, checkSSL } = options;
 
-    const resolvedHost =
-      host || (scmProvider === 'github' ? 'github.com' : 'gitlab.com');
+    const resolvedHost = host || DEFAULT_HOSTS[scmProvider];
 
     if (scmProvider === 'github') {
       const { token, apiBaseUrl } = this.getGithubConfig(resolvedHost);
@@ -42,7 +56,11 @@ export class ScmClientFactory {
         apiBaseUrl,
         checkSSL,
       };
-      return new GithubClient({ config, logger: this.logger });
+      return new GithubClient({
+        config,
+        logger: this.logger,
+        cache: this.cache,
+      });
     }
 
     if (scmProvider === 'gitlab') {
@@ -55,7 +73,48 @@ export class ScmClientFactory {
         apiBaseUrl,
         checkSSL,
       };
-      return new GitlabClient({ config, logger: this.logger });
+      return new GitlabClient({
+        config,
+        logger: this.logger,
+        cache: this.cache,
+      });
+    }
+
+    if (scmProvider === 'bitbucket') {
+      const { token, username, apiBaseUrl } =
+        this.getBitbucketConfig(resolvedHost);
+      const config = {
+        scmProvider,
+        host: resolvedHost,
+        organization,
+        token,
+        username,
+        apiBaseUrl,
+        checkSSL,
+      };
+      return new BitbucketClient({
+        config,
+        logger: this.logger,
+        cache: this.cache,
+      });
+    }
+
+    if (scmProvider === 'gitea') {
+      const { token, username, apiBaseUrl } = this.getGiteaConfig(resolvedHost);
+      const config = {
+        scmProvider,
+        host: resolvedHost,
+        organization,
+        token,
+        username,
+        apiBaseUrl,
+        checkSSL,
+      };
+      return new GiteaClient({
+        config,
+        logger: this.logger,
+        cache: this.cache,
+      });
     }
 
     throw new Error(`Unsupported SCM provider: ${scmProvider}`);
@@ -122,4 +181,96 @@ export class ScmClientFactory {
       apiBaseUrl: config.apiBaseUrl,
     };
   }
+
+  private getBitbucketConfig(host: string): {
+    token: string;
+    username?: string;
+    apiBaseUrl?: string;
+  } {
+    // bitbucket.org is Bitbucket Cloud, any other host Bitbucket Server / Data Center
+    if (host === DEFAULT_HOSTS.bitbucket) {
+      const integration = this.integrations.bitbucketCloud.byHost(host);
+      if (!integration) {
+        throw new Error(
+          `No Bitbucket Cloud integration configured for host: ${host}. ` +
+            `Please configure it in app-config.yaml under integrations.bitbucketCloud`,
+        );
+      }
+
+      const config = integration.config;
+      // an app password is sent with the username as Basic credentials
+      const username = config.token ? undefined : config.username;
+      const token = config.token ?? (username ? config.appPassword : undefined);
+      if (!token) {
+        throw new Error(
+          `No token or app password configured for Bitbucket Cloud host: ${host}. ` +
+            `Please add a token, or a username and an app password, to the Bitbucket Cloud integration in app-config.yaml`,
+        );
+      }
+
+      this.logger.debug(
+        `[ScmClientFactory] Using Bitbucket Cloud integration for host: ${host}`,
+      );
+      return { token, username, apiBaseUrl: config.apiBaseUrl };
+    }
+
+    const integration = this.integrations.bitbucketServer.byHost(host);
+    if (!integration) {
+      throw new Error(
+        `No Bitbucket Server integration configured for host: ${host}. ` +
+          `Please configure it in app-config.yaml under integrations.bitbucketServer`,
+      );
+    }
+
+    const config = integration.config;
+    const username = config.token ? undefined : config.username;
+    const token = config.token ?? (username ? config.password : undefined);
+    if (!token) {
+      throw new Error(
+        `No token configured for Bitbucket Server host: ${host}. ` +
+          `Please add a token, or a username and a password, to the Bitbucket Server integration in app-config.yaml`,
+      );
+    }
+
+    this.logger.debug(
+      `[ScmClientFactory] Using Bitbucket Server integration for host: ${host}`,
+    );
+    return { token, username, apiBaseUrl: config.apiBaseUrl };
+  }
+
+  private getGiteaConfig(host: string): {
+    token: string;
+    username?: string;
+    apiBaseUrl: string;
+  } {
+    const integration = this.integrations.gitea.byHost(host);
+    if (!integration) {
+      throw new Error(
+        `No Gitea integration configured for host: ${host}. ` +
+          `Please configure it in app-config.yaml under integrations.gitea`,
+      );
+    }
+
+    const config = integration.config;
+    const token = config.password;
+
+    if (!token) {
+      throw new Error(
+        `No password configured for Gitea host: ${host}. ` +
+          `Please add a password or an access token to the Gitea integration in app-config.yaml`,
+      );
+    }
+
+    this.logger.debug(
+      `[ScmClientFactory] Using Gitea integration for host: ${host}`,
+    );
+    return {
+      token,
+      username: config.username,
+      apiBaseUrl: `${(config.baseUrl ?? `https://${host}`).replace(
+        /\/$/,
+        '',
+      )}/api/v1`,
+    };
+  }
 }
@@ -2,4 +2,7 @@ export * from './types';
 export * from './ScmClient';
 export * from './GithubClient';
 export * from './GitlabClient';
+export * from './BitbucketClient';
+export * from './GiteaClient';
 export * from './ScmClientFactory';
+export * from './DatabaseScmResponseCache';
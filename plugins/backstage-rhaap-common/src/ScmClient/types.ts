@@ -1,4 +1,4 @@
-export type ScmProvider = 'github' | 'gitlab';
+export type ScmProvider = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
 
 export interface RepositoryInfo {
   name: string;
@@ -19,7 +19,9 @@ export interface ScmClientConfig {
   host?: string;
   organization: string;
   token: string;
-  /** API base URL (e.g. GitHub: https://api.github.com, GHE: https://ghe.company.com/api/v3, GitLab: https://gitlab.example.com/api/v4). When set, used instead of host-derived URL. */
+  /** When set, the token is sent as the password of Basic credentials for this user (Bitbucket app passwords, Gitea passwords). */
+  username?: string;
+  /** API base URL (e.g. GitHub: https://api.github.com, GHE: https://ghe.company.com/api/v3, GitLab: https://gitlab.example.com/api/v4, Bitbucket Server: https://bitbucket.example.com/rest/api/1.0, Gitea: https://gitea.example.com/api/v1). When set, used instead of host-derived URL. */
   apiBaseUrl?: string;
   /** When false, TLS certificate verification is disabled (e.g. self-signed or internal CA). Default true. */
   checkSSL?: boolean;
@@ -31,3 +33,19 @@ export interface UrlBuildOptions {
   path: string;
   type: 'file' | 'dir';
 }
+
+/** A response kept by a {@link ScmResponseCache}, with its validators. */
+export interface CachedScmResponse {
+  etag?: string;
+  lastModified?: string;
+  body: string;
+}
+
+/**
+ * Keeps the bodies of the SCM API responses by request URL, so that the
+ * clients send conditional requests and reuse the body on 304 Not Modified.
+ */
+export interface ScmResponseCache {
+  get(url: string): Promise<CachedScmResponse | undefined>;
+  set(url: string, response: CachedScmResponse): Promise<void>;
+}
@@ -0,0 +1,41 @@
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+
+const migrationsDir = resolvePackagePath(
+  '@ansible/backstage-rhaap-common',
+  'migrations',
+);
+
+// the stores of a plugin share its database service, the migrations are run
+// once for all of them
+const migrated = new WeakMap<DatabaseService, Promise<Knex>>();
+
+/**
+ * Returns the database client after bringing the tables of the common stores
+ * up to date. They live in the database of the plugin using them, next to the
+ * tables of the plugin modules, so their migrations are tracked in a table of
+ * their own. A failed run is retried on the next call.
+ */
+export function applyDatabaseMigrations(
+  database: DatabaseService,
+): Promise<Knex> {
+  let client = migrated.get(database);
+  if (!client) {
+    client = (async () => {
+      const knex = await database.getClient();
+      if (!database.migrations?.skip) {
+        await knex.migrate.latest({
+          directory: migrationsDir,
+          tableName: 'rhaap_common_knex_migrations',
+        });
+      }
+      return knex;
+    })();
+    client.catch(() => migrated.delete(database));
+    migrated.set(database, client);
+  }
+  return client;
+}
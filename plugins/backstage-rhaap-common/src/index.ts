@@ -4,3 +4,4 @@ export * from './interfaces';
 export * from './types';
 export * from './constants';
 export * from './ScmClient';
+export * from './Audit';
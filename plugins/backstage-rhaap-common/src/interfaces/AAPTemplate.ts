@@ -219,3 +219,59 @@ export type IJobTemplate = {
   project: number | null;
   opa_query_path?: string;
 };
+
+// WORKFLOW JOB TEMPLATE
+
+export type IWorkflowJobTemplate = {
+  id: number;
+  type: 'workflow_job_template';
+  url: string;
+  created: string;
+  modified: string;
+  name: string;
+  description: string;
+  status: string;
+  extra_vars: string;
+  organization: number | null;
+  inventory: number | null;
+  limit: string | null;
+  scm_branch: string | null;
+  survey_enabled: boolean;
+  allow_simultaneous: boolean;
+  ask_variables_on_launch: boolean;
+  ask_inventory_on_launch: boolean;
+  ask_limit_on_launch: boolean;
+  ask_scm_branch_on_launch: boolean;
+  ask_labels_on_launch: boolean;
+  ask_tags_on_launch: boolean;
+  ask_skip_tags_on_launch: boolean;
+  last_job_failed: boolean;
+  last_job_run: string | null;
+  next_job_run: string | null;
+  related: {
+    survey_spec: string;
+    launch: string;
+    workflow_nodes: string;
+    workflow_jobs: string;
+    labels: string;
+    organization?: string;
+    inventory?: string;
+  };
+  summary_fields: {
+    organization?: {
+      id: number;
+      name: string;
+      description: string;
+    };
+    inventory?: {
+      id: number;
+      name: string;
+      description: string;
+    };
+    labels: {
+      count: number;
+      results: ILabel[];
+    };
+    recent_jobs: IRecentJob[];
+  };
+};
@@ -65,6 +65,99 @@ export type JobTemplate = {
   credentials?: Credential;
 };
 
+export type UpsertOperation = 'created' | 'updated' | 'unchanged';
+
+export type UpsertResult<T> = {
+  operation: UpsertOperation;
+  data: T;
+};
+
+export type CreateInventory = {
+  inventoryName: string;
+  inventoryDescription?: string;
+  organization: Organization;
+  variables?: string | object;
+};
+
+export type InventoryData = {
+  id: number;
+  name: string;
+  description: string;
+  organization: number;
+  url: string;
+};
+
+export type InventoryHost = {
+  name: string;
+  description?: string;
+  variables?: string | object;
+  groups?: string[];
+};
+
+export type InventoryGroup = {
+  name: string;
+  description?: string;
+  variables?: string | object;
+  children?: string[];
+};
+
+export type PopulateInventory = {
+  inventory: Inventory;
+  groups?: InventoryGroup[];
+  hosts?: InventoryHost[];
+};
+
+export type PopulatedInventory = {
+  groups: { id: number; name: string }[];
+  hosts: { id: number; name: string }[];
+};
+
+export type CreateInventorySource = {
+  sourceName: string;
+  sourceDescription?: string;
+  inventory: Inventory;
+  source: string;
+  sourceProject?: { id: number; name: string };
+  sourcePath?: string;
+  credential?: { id: number; name: string };
+  sourceVars?: string | object;
+  overwrite?: boolean;
+  overwriteVars?: boolean;
+  updateOnLaunch?: boolean;
+};
+
+export type InventorySourceData = {
+  id: number;
+  name: string;
+  inventory: number;
+  source: string;
+  url: string;
+};
+
+export type InventoryUpdate = {
+  id: number;
+  status: string;
+  url: string;
+};
+
+export type CreateCredential = {
+  credentialName: string;
+  credentialDescription?: string;
+  organization: Organization;
+  credentialType: { id: number; name?: string };
+  inputs?: Record<string, string | number | boolean>;
+  jobTemplate?: { id: number; name?: string };
+};
+
+export type CredentialData = {
+  id: number;
+  name: string;
+  kind: string;
+  credentialType: number;
+  jobTemplate?: number;
+  url: string;
+};
+
 export type CleanUp = {
   project?: Project;
   executionEnvironment?: ExecutionEnvironment;
@@ -95,6 +188,148 @@ export type LaunchJobTemplate = {
   extraVariables?: string | object;
   jobTags?: string;
   skipTags?: string;
+  scmBranch?: string;
+  labels?: {
+    id: number;
+    name: string;
+  }[];
+  instanceGroups?: {
+    id: number;
+    name: string;
+  }[];
+};
+
+export type LaunchWorkflowJobTemplate = {
+  template: string;
+  inventory?: Inventory;
+  limit?: string;
+  scmBranch?: string;
+  extraVariables?: string | object;
+  /** Seconds to wait for the workflow job to finish. */
+  timeout?: number;
+};
+
+export type RunAdHocCommand = {
+  inventory: Inventory;
+  moduleName: string;
+  moduleArgs?: string;
+  limit?: string;
+  credential?: {
+    id: number;
+    name: string;
+  };
+  jobType?: 'run' | 'check';
+  executionEnvironment?: ExecutionEnvironment;
+  forks?: number;
+  verbosity?: {
+    id: number;
+    name: string;
+  };
+  becomeEnabled?: boolean;
+  diffMode?: boolean;
+  extraVariables?: string | object;
+  /** Seconds to wait for the ad hoc command to finish. */
+  timeout?: number;
+};
+
+export type AdHocCommandResult = {
+  id: number;
+  status: string;
+  url: string;
+  stdout: string;
+};
+
+export type WorkflowNodeStatus = {
+  id: number;
+  name: string;
+  identifier: string;
+  jobId: number | null;
+  jobType: string | null;
+  status: string;
+};
+
+export type WorkflowJobResult = {
+  id: number;
+  status: string;
+  url: string;
+  nodes: WorkflowNodeStatus[];
+};
+
+export type LaunchedJob = {
+  id: number;
+  status: string;
+  url: string;
+  finished?: boolean;
+};
+
+export type HostStatusCounts = {
+  ok: number;
+  changed: number;
+  failed: number;
+  unreachable: number;
+  skipped: number;
+};
+
+export type HostSummary = HostStatusCounts & {
+  host: string;
+};
+
+export type JobHostResults = {
+  id: number;
+  status: string;
+  url: string;
+  hostSummaries: HostSummary[];
+  failedHosts: string[];
+};
+
+export type JobSummary = {
+  id: number;
+  name: string;
+  status: string;
+  started: string | null;
+  finished: string | null;
+  elapsed: number;
+  launchedBy: string | null;
+  url: string;
+  hostStatusCounts: HostStatusCounts;
+};
+
+export type CreateSchedule = {
+  scheduleName: string;
+  scheduleDescription?: string;
+  jobTemplate: { id: number; name?: string };
+  rrule: string;
+  extraVariables?: string | object;
+  enabled?: boolean;
+};
+
+export type ScheduleSummary = {
+  id: number;
+  name: string;
+  description: string;
+  rrule: string;
+  enabled: boolean;
+  nextRun: string | null;
+  extraVariables: object;
+  url: string;
+};
+
+export type JobEvent = {
+  counter: number;
+  event: string;
+  stdout: string;
+  created: string;
+  host_name: string;
+  task: string;
+  play: string;
+  failed: boolean;
+  changed: boolean;
+};
+
+export type JobEventsPage = {
+  events: JobEvent[];
+  cursor: number;
+  hasMore: boolean;
 };
 
 export type UseCase = {
@@ -133,11 +368,30 @@ export type FeedbackConfig = {
   enabled?: boolean;
 };
 
+export type AAPRequestsConfig = {
+  maxConcurrency?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+};
+
+export type AAPPaginationOptions = {
+  /** Token of the requests, the configured ansible.rhaap.token by default */
+  token?: string | null;
+  /** Number of items per page, the default of the endpoint when not set */
+  pageSize?: number;
+  /** Stops the pagination before the next page is fetched */
+  signal?: AbortSignal;
+};
+
 export type RHAAPConfig = {
   baseUrl?: string;
   token?: string;
   checkSSL?: boolean;
   showCaseLocation?: ShowCaseLocation;
+  requests?: AAPRequestsConfig;
 };
 
 export type CatalogConfig = {
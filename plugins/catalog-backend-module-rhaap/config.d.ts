@@ -7,6 +7,11 @@ export interface Config {
       rhaap?: {
         [authEnv: string]: {
           orgs?: string;
+          /**
+           * Key of the AAP instance in ansible.rhaap.instances to sync from.
+           * The default instance in ansible.rhaap is used when not set.
+           */
+          instance?: string;
           sync?: {
             orgsUsersTeams?: {
               schedule: SchedulerServiceTaskScheduleDefinitionConfig;
@@ -16,6 +21,16 @@ export interface Config {
               labels?: Array<string>;
               excludeLabels?: Array<string>;
               surveyEnabled?: boolean;
+              /**
+               * Job templates carrying the AAP label wait for a member of the
+               * approvers group before they are launched.
+               */
+              approval?: {
+                /** Name of the AAP label marking the job templates to approve */
+                label: string;
+                /** Entity ref of the catalog Group whose members can approve */
+                approvers: string;
+              };
               schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
             };
             pahCollections: {
@@ -63,6 +78,12 @@ export interface Config {
                      * If not provided, falls back to the common schedule at ansibleGitContents level
                      */
                     schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+                    /**
+                     * Secret of the push and tag webhooks of this organization.
+                     * When set, a push re-syncs only the pushed repository and ref.
+                     * @visibility secret
+                     */
+                    webhookSecret?: string;
                   }>;
                 }>;
                 gitlab?: Array<{
@@ -90,6 +111,73 @@ export interface Config {
                      * If not provided, falls back to the common schedule at ansibleGitContents level
                      */
                     schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+                    /**
+                     * Secret of the push and tag webhooks of this group.
+                     * When set, a push re-syncs only the pushed repository and ref.
+                     * @visibility secret
+                     */
+                    webhookSecret?: string;
+                  }>;
+                }>;
+                /**
+                 * Bitbucket Cloud (host bitbucket.org) or Bitbucket Server / Data Center
+                 * (any other host), authenticated by the matching integration
+                 */
+                bitbucket?: Array<{
+                  /**
+                   * Canonical name for easy identification of this source host
+                   * @visibility frontend
+                   */
+                  name: string;
+                  /**
+                   * The host URL for the SCM provider
+                   * @default 'bitbucket.org'
+                   * @visibility frontend
+                   */
+                  host?: string;
+                  orgs: Array<{
+                    /**
+                     * Workspace on Bitbucket Cloud, project key on Bitbucket Server
+                     * @visibility frontend
+                     */
+                    name: string;
+                    branches?: Array<string>;
+                    tags?: Array<string>;
+                    galaxyFilePaths?: Array<string>;
+                    /** @default 5 */
+                    crawlDepth?: number;
+                    /**
+                     * Schedule for syncing this workspace or project
+                     * If not provided, falls back to the common schedule at ansibleGitContents level
+                     */
+                    schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+                  }>;
+                }>;
+                gitea?: Array<{
+                  /**
+                   * Canonical name for easy identification of this source host
+                   * @visibility frontend
+                   */
+                  name: string;
+                  /**
+                   * The host URL for the SCM provider
+                   * @default 'gitea.com'
+                   * @visibility frontend
+                   */
+                  host?: string;
+                  orgs: Array<{
+                    /** @visibility frontend */
+                    name: string;
+                    branches?: Array<string>;
+                    tags?: Array<string>;
+                    galaxyFilePaths?: Array<string>;
+                    /** @default 5 */
+                    crawlDepth?: number;
+                    /**
+                     * Schedule for syncing this organization
+                     * If not provided, falls back to the common schedule at ansibleGitContents level
+                     */
+                    schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
                   }>;
                 }>;
               };
@@ -0,0 +1 @@
+export { applyDatabaseMigrations } from './migrations';
@@ -0,0 +1,28 @@
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+
+const migrationsDir = resolvePackagePath(
+  '@ansible/backstage-plugin-catalog-backend-module-rhaap',
+  'migrations',
+);
+
+/**
+ * Runs the pending migrations of the module and returns the database client.
+ * The catalog plugin keeps its own migrations in the same database, ours are
+ * listed in rhaap_knex_migrations so the two never mix.
+ */
+export async function applyDatabaseMigrations(
+  database: DatabaseService,
+): Promise<Knex> {
+  const client = await database.getClient();
+  if (!database.migrations?.skip) {
+    await client.migrate.latest({
+      directory: migrationsDir,
+      tableName: 'rhaap_knex_migrations',
+    });
+  }
+  return client;
+}
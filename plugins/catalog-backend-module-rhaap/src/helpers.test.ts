@@ -94,6 +94,45 @@ describe('helpers', () => {
       );
     });
 
+    it('should build correct Bitbucket Cloud URL', () => {
+      const url = buildFileUrl(
+        'bitbucket',
+        'bitbucket.org',
+        'workspace/repo',
+        'main',
+        'path/to/file.yml',
+      );
+      expect(url).toBe(
+        'https://bitbucket.org/workspace/repo/src/main/path/to/file.yml',
+      );
+    });
+
+    it('should build correct Bitbucket Server URL', () => {
+      const url = buildFileUrl(
+        'bitbucket',
+        'bitbucket.example.com',
+        'ANS/repo',
+        'release/1.x',
+        'galaxy.yml',
+      );
+      expect(url).toBe(
+        'https://bitbucket.example.com/projects/ANS/repos/repo/browse/galaxy.yml?at=release%2F1.x',
+      );
+    });
+
+    it('should build correct Gitea URL', () => {
+      const url = buildFileUrl(
+        'gitea',
+        'gitea.example.com',
+        'org/repo',
+        'main',
+        'galaxy.yml',
+      );
+      expect(url).toBe(
+        'https://gitea.example.com/org/repo/src/branch/main/galaxy.yml',
+      );
+    });
+
     it('should handle tags as refs', () => {
       const url = buildFileUrl(
         'github',
@@ -149,6 +188,23 @@ describe('helpers', () => {
       ).toBeNull();
     });
 
+    it('should return null for bitbucket and gitea providers', () => {
+      expect(validateSyncFilter({ scmProvider: 'bitbucket' })).toBeNull();
+      expect(
+        validateSyncFilter({
+          scmProvider: 'gitea',
+          hostName: 'gitea',
+          organization: 'ansible',
+        }),
+      ).toBeNull();
+    });
+
+    it('should return error for an unsupported scmProvider', () => {
+      expect(validateSyncFilter({ scmProvider: 'azure' as any })).toBe(
+        "Unsupported scmProvider 'azure'. Supported: github, gitlab, bitbucket, gitea",
+      );
+    });
+
     it('should return error when hostName without scmProvider', () => {
       expect(validateSyncFilter({ hostName: 'github.com' })).toBe(
         'hostName requires scmProvider to be specified',
@@ -1,4 +1,6 @@
 import { AnsibleGitContentsProvider } from './providers/AnsibleGitContentsProvider';
+import { SCM_PROVIDERS } from './providers/config';
+import type { ScmProvider } from './providers/types';
 
 export function formatNameSpace(name: string): string {
   return name
@@ -8,7 +10,7 @@ export function formatNameSpace(name: string): string {
 }
 
 export function buildFileUrl(
-  scmProvider: 'github' | 'gitlab',
+  scmProvider: ScmProvider,
   host: string,
   repoPath: string,
   ref: string,
@@ -17,6 +19,19 @@ export function buildFileUrl(
   if (scmProvider === 'github') {
     return `https://${host}/${repoPath}/blob/${ref}/${filePath}`;
   }
+  if (scmProvider === 'bitbucket') {
+    if (host === 'bitbucket.org') {
+      return `https://${host}/${repoPath}/src/${ref}/${filePath}`;
+    }
+    // Bitbucket Server / Data Center: <project key>/<repository slug>
+    const [projectKey, slug] = repoPath.split('/');
+    return `https://${host}/projects/${projectKey}/repos/${slug}/browse/${filePath}?at=${encodeURIComponent(
+      ref,
+    )}`;
+  }
+  if (scmProvider === 'gitea') {
+    return `https://${host}/${repoPath}/src/branch/${ref}/${filePath}`;
+  }
   // gitlab
   return `https://${host}/${repoPath}/-/blob/${ref}/${filePath}`;
 }
@@ -27,7 +42,7 @@ export function getDirectoryFromPath(filePath: string): string {
 }
 
 export interface SyncFilter {
-  scmProvider?: 'github' | 'gitlab';
+  scmProvider?: ScmProvider;
   hostName?: string;
   organization?: string;
 }
@@ -37,6 +52,12 @@ export function validateSyncFilter(filter: SyncFilter): string | null {
     return null;
   }
 
+  if (filter.scmProvider && !SCM_PROVIDERS.includes(filter.scmProvider)) {
+    return `Unsupported scmProvider '${
+      filter.scmProvider
+    }'. Supported: ${SCM_PROVIDERS.join(', ')}`;
+  }
+
   if (filter.hostName && !filter.scmProvider) {
     return 'hostName requires scmProvider to be specified';
   }
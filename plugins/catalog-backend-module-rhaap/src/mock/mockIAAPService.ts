@@ -4,23 +4,51 @@ export const mockAnsibleService: jest.Mocked<IAAPService> = {
   executePostRequest: jest.fn(),
   executeGetRequest: jest.fn(),
   executeDeleteRequest: jest.fn(),
+  executePatchRequest: jest.fn(),
+  iteratePages: jest.fn(),
+  iterateItems: jest.fn(),
   getProject: jest.fn(),
   deleteProject: jest.fn(),
   deleteProjectIfExists: jest.fn(),
   createProject: jest.fn(),
+  ensureProject: jest.fn(),
   deleteExecutionEnvironmentExists: jest.fn(),
   createExecutionEnvironment: jest.fn(),
+  ensureExecutionEnvironment: jest.fn(),
   deleteExecutionEnvironment: jest.fn(),
   deleteJobTemplate: jest.fn(),
   deleteJobTemplateIfExists: jest.fn(),
   createJobTemplate: jest.fn(),
+  ensureJobTemplate: jest.fn(),
+  deleteInventoryIfExists: jest.fn(),
+  createInventory: jest.fn(),
+  populateInventory: jest.fn(),
+  createInventorySource: jest.fn(),
+  syncInventorySource: jest.fn(),
+  createCredential: jest.fn(),
+  addCredentialToJobTemplate: jest.fn(),
   fetchEvents: jest.fn(),
   fetchResult: jest.fn(),
   launchJobTemplate: jest.fn(),
+  startJobTemplate: jest.fn(),
+  waitForJob: jest.fn(),
+  getJob: jest.fn(),
+  getJobEvents: jest.fn(),
+  getJobHostResults: jest.fn(),
+  getJobTemplateJobs: jest.fn(),
+  cancelJob: jest.fn(),
+  relaunchJob: jest.fn(),
+  createSchedule: jest.fn(),
+  getJobTemplateSchedules: jest.fn(),
+  deleteSchedule: jest.fn(),
+  launchWorkflowJobTemplate: jest.fn(),
+  getWorkflowJobNodes: jest.fn(),
+  runAdHocCommand: jest.fn(),
   cleanUp: jest.fn(),
   getResourceData: jest.fn(),
   getJobTemplatesByName: jest.fn(),
   setLogger: jest.fn(),
+  forInstance: jest.fn(),
   rhAAPAuthenticate: jest.fn(),
   fetchProfile: jest.fn(),
   getOrganizations: jest.fn(),
@@ -28,6 +56,7 @@ export const mockAnsibleService: jest.Mocked<IAAPService> = {
   getTeamsByUserId: jest.fn(),
   getUserRoleAssignments: jest.fn(),
   syncJobTemplates: jest.fn(),
+  syncWorkflowJobTemplates: jest.fn(),
   getOrgsByUserId: jest.fn(),
   getUserInfoById: jest.fn(),
   isValidPAHRepository: jest.fn(),
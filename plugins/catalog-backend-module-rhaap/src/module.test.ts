@@ -5,10 +5,16 @@ import {
 import { catalogModuleRhaap } from './module';
 import { SchedulerServiceTaskScheduleDefinition } from '@backstage/backend-plugin-api';
 import { AAPEntityProvider } from './providers/AAPEntityProvider';
-import { mockServices, startTestBackend } from '@backstage/backend-test-utils';
+import {
+  mockServices,
+  startTestBackend,
+  TestDatabases,
+} from '@backstage/backend-test-utils';
 import { MOCK_CONFIG } from './mock';
 
 describe('catalogModuleRHAAPEntityProvider', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+
   it('should register provider at the catalog extension point', async () => {
     let addedProviders: Array<AAPEntityProvider> | undefined;
     let usedSchedule: SchedulerServiceTaskScheduleDefinition | undefined;
@@ -37,6 +43,9 @@ describe('catalogModuleRHAAPEntityProvider', () => {
         catalogModuleRhaap,
         mockServices.rootConfig.factory(MOCK_CONFIG),
         scheduler.factory,
+        mockServices.database.factory({
+          knex: await databases.init('SQLITE_3'),
+        }),
       ],
     });
 
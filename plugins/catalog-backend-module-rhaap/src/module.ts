@@ -3,7 +3,11 @@ import {
   createBackendModule,
 } from '@backstage/backend-plugin-api';
 
-import { ansibleServiceRef } from '@ansible/backstage-rhaap-common';
+import {
+  aapAuditServiceRef,
+  ansibleServiceRef,
+  DatabaseScmResponseCache,
+} from '@ansible/backstage-rhaap-common';
 import { createRouter } from './router';
 import {
   catalogModelExtensionPoint,
@@ -15,6 +19,7 @@ import { makeValidator } from '@backstage/catalog-model';
 import { EEEntityProvider } from './providers/EEEntityProvider';
 import { PAHCollectionProvider } from './providers/PAHCollectionProvider';
 import { AnsibleGitContentsProvider } from './providers/AnsibleGitContentsProvider';
+import { SyncHistoryStore } from './syncHistory';
 
 export const catalogModuleRhaap = createBackendModule({
   pluginId: 'catalog',
@@ -28,18 +33,26 @@ export const catalogModuleRhaap = createBackendModule({
         config: coreServices.rootConfig,
         scheduler: coreServices.scheduler,
         ansibleService: ansibleServiceRef,
+        audit: aapAuditServiceRef,
         httpRouter: coreServices.httpRouter,
+        httpAuth: coreServices.httpAuth,
+        userInfo: coreServices.userInfo,
         discovery: coreServices.discovery,
         auth: coreServices.auth,
+        database: coreServices.database,
       },
       async init({
         logger,
         config,
         scheduler,
         ansibleService,
+        audit,
         httpRouter,
+        httpAuth,
+        userInfo,
         catalogProcessing,
         catalogModel,
+        database,
       }) {
         catalogModel.setFieldValidators(
           makeValidator({
@@ -53,12 +66,14 @@ export const catalogModuleRhaap = createBackendModule({
             },
           }),
         );
+        const syncHistory = await SyncHistoryStore.create(database);
         const aapEntityProvider = AAPEntityProvider.fromConfig(
           config,
           ansibleService,
           {
             logger,
             scheduler,
+            syncHistory,
           },
         );
         const eeEntityProvider = new EEEntityProvider(logger);
@@ -68,17 +83,21 @@ export const catalogModuleRhaap = createBackendModule({
           {
             logger,
             scheduler,
+            syncHistory,
           },
         );
         const pahCollectionProviders: PAHCollectionProvider[] =
           PAHCollectionProvider.fromConfig(config, ansibleService, {
             logger,
             scheduler,
+            syncHistory,
           });
         const ansibleGitContentsProviders =
           await AnsibleGitContentsProvider.fromConfig(config, {
             logger,
             scheduler,
+            syncHistory,
+            scmResponseCache: new DatabaseScmResponseCache(database),
           });
         // log providers since there can be multiple providers for collections
         logger.info(
@@ -102,8 +121,14 @@ export const catalogModuleRhaap = createBackendModule({
             eeEntityProvider: eeEntityProvider,
             pahCollectionProviders: pahCollectionProviders,
             ansibleGitContentsProviders,
+            audit: { service: audit, httpAuth, userInfo },
+            syncHistory,
           })) as any,
         );
+        httpRouter.addAuthPolicy({
+          path: '/ansible/webhooks',
+          allow: 'unauthenticated',
+        });
       },
     });
   },
@@ -21,16 +21,29 @@ import {
   Organization,
 } from '@ansible/backstage-rhaap-common';
 import { readAapApiEntityConfigs } from './config';
-import { organizationParser, teamParser, userParser } from './entityParser';
+import {
+  organizationParser,
+  setAAPInstance,
+  teamParser,
+  userParser,
+} from './entityParser';
+import {
+  SyncHistoryStore,
+  SyncRunResult,
+  SyncTrigger,
+  startSyncRun,
+} from '../syncHistory';
 import { AapConfig } from './types';
 
 export class AAPEntityProvider implements EntityProvider {
   private readonly env: string;
   private readonly baseUrl: string;
+  private readonly instance?: string;
   private readonly orgs: string[];
   private readonly logger: LoggerService;
   private readonly ansibleServiceRef: IAAPService;
   private readonly scheduleFn: () => Promise<void>;
+  private readonly syncHistory?: SyncHistoryStore;
   private connection?: EntityProviderConnection;
   private lastSyncTime: string | null = null;
 
@@ -44,6 +57,7 @@ export class AAPEntityProvider implements EntityProvider {
       logger: LoggerService;
       schedule?: SchedulerServiceTaskRunner;
       scheduler?: SchedulerService;
+      syncHistory?: SyncHistoryStore;
     },
   ): AAPEntityProvider[] {
     const { logger } = options;
@@ -79,6 +93,7 @@ export class AAPEntityProvider implements EntityProvider {
         logger,
         taskRunner,
         ansibleServiceRef,
+        options.syncHistory,
       );
     });
   }
@@ -89,6 +104,7 @@ export class AAPEntityProvider implements EntityProvider {
     logger: LoggerService,
     taskRunner: SchedulerServiceTaskRunner,
     ansibleServiceRef: IAAPService,
+    syncHistory?: SyncHistoryStore,
   ) {
     this.env = providerConfig.id;
     this.baseUrl = providerConfig.baseUrl;
@@ -96,8 +112,12 @@ export class AAPEntityProvider implements EntityProvider {
     this.logger = logger.child({
       target: this.getProviderName(),
     });
-    this.ansibleServiceRef = ansibleServiceRef;
+    this.instance = providerConfig.instance;
+    this.ansibleServiceRef = this.instance
+      ? ansibleServiceRef.forInstance(this.instance)
+      : ansibleServiceRef;
 
+    this.syncHistory = syncHistory;
     this.scheduleFn = this.createScheduleFn(taskRunner);
   }
 
@@ -111,7 +131,7 @@ export class AAPEntityProvider implements EntityProvider {
         id: taskId,
         fn: async () => {
           try {
-            await this.run();
+            await this.run('schedule');
           } catch (error) {
             if (isError(error)) {
               // Ensure that we don't log any sensitive internal data:
@@ -141,10 +161,30 @@ export class AAPEntityProvider implements EntityProvider {
     return this.lastSyncTime;
   }
 
-  async run(): Promise<boolean> {
+  async run(trigger: SyncTrigger = 'manual'): Promise<boolean> {
     if (!this.connection) {
       throw new NotFoundError('Not initialized');
     }
+    const finish = await startSyncRun(this.syncHistory, this.logger, {
+      providerName: this.getProviderName(),
+      trigger,
+    });
+    try {
+      const result = await this.sync(this.connection);
+      await finish(result);
+      return result.outcome === 'success';
+    } catch (e) {
+      await finish({
+        outcome: 'failure',
+        error: isError(e) ? e.message : String(e),
+      });
+      throw e;
+    }
+  }
+
+  private async sync(
+    connection: EntityProviderConnection,
+  ): Promise<SyncRunResult> {
     let groupCount = 0;
     let usersCount = 0;
     let userRoleAssignments: RoleAssignments;
@@ -156,7 +196,7 @@ export class AAPEntityProvider implements EntityProvider {
       users: User[];
     }> = [];
 
-    let error = false;
+    const errors: string[] = [];
     try {
       orgsDetails = await this.ansibleServiceRef.getOrganizations(true);
       this.logger.info(
@@ -170,7 +210,7 @@ export class AAPEntityProvider implements EntityProvider {
           AAPEntityProvider.pluginLogName
         }]: Error while fetching organizations. ${e?.message ?? ''}`,
       );
-      error = true;
+      errors.push(`Error while fetching organizations. ${e?.message ?? ''}`);
     }
 
     try {
@@ -187,7 +227,7 @@ export class AAPEntityProvider implements EntityProvider {
           e?.message ?? ''
         }`,
       );
-      error = true;
+      errors.push(`Error while fetching users. ${e?.message ?? ''}`);
     }
 
     try {
@@ -201,10 +241,10 @@ export class AAPEntityProvider implements EntityProvider {
           AAPEntityProvider.pluginLogName
         }]: Error while fetching system users. ${e?.message ?? ''}`,
       );
-      error = true;
+      errors.push(`Error while fetching system users. ${e?.message ?? ''}`);
     }
 
-    if (!error) {
+    if (errors.length === 0) {
       for (const org of Object.values(orgsDetails)) {
         const orgTeams = org.teams
           ? Object.values(org.teams).map(team => team.groupName)
@@ -374,10 +414,10 @@ export class AAPEntityProvider implements EntityProvider {
       const aapAdminsGroup = this.createAapAdminsGroup(systemUsers);
       entities.push(aapAdminsGroup);
 
-      await this.connection.applyMutation({
+      await connection.applyMutation({
         type: 'full',
         entities: entities.map(entity => ({
-          entity,
+          entity: setAAPInstance(entity, this.instance),
           locationKey: this.getProviderName(),
         })),
       });
@@ -395,7 +435,13 @@ export class AAPEntityProvider implements EntityProvider {
 
       this.lastSyncTime = new Date().toISOString();
     }
-    return !error;
+    if (errors.length > 0) {
+      return { outcome: 'failure', error: errors.join(' ') };
+    }
+    return {
+      outcome: 'success',
+      counts: { groups: groupCount, users: usersCount },
+    };
   }
 
   async connect(connection: EntityProviderConnection): Promise<void> {
@@ -507,7 +553,7 @@ export class AAPEntityProvider implements EntityProvider {
 
       const entitiesToAdd = [
         {
-          entity: userEntity,
+          entity: setAAPInstance(userEntity, this.instance),
           locationKey: this.getProviderName(),
         },
       ];
@@ -520,7 +566,7 @@ export class AAPEntityProvider implements EntityProvider {
         );
         if (aapAdminsGroup) {
           entitiesToAdd.push({
-            entity: aapAdminsGroup,
+            entity: setAAPInstance(aapAdminsGroup, this.instance),
             locationKey: this.getProviderName(),
           });
         }
@@ -6,11 +6,13 @@ import {
 import { mockServices } from '@backstage/backend-test-utils';
 import { EntityProviderConnection } from '@backstage/plugin-catalog-node';
 import { AAPJobTemplateProvider } from './AAPJobTemplateProvider';
+import type { SyncHistoryStore } from '../syncHistory';
 import { mockAnsibleService } from '../mock/mockIAAPService';
 import {
   IJobTemplate,
   ISurvey,
   InstanceGroup,
+  IWorkflowJobTemplate,
 } from '@ansible/backstage-rhaap-common';
 
 // Mock config for job template provider
@@ -324,6 +326,24 @@ const MOCK_SURVEY: ISurvey = {
   ],
 };
 
+const MOCK_WORKFLOW_JOB_TEMPLATE = {
+  id: 20,
+  type: 'workflow_job_template',
+  name: 'Test Workflow',
+  description: 'A test workflow job template',
+  ask_inventory_on_launch: true,
+  ask_limit_on_launch: false,
+  ask_scm_branch_on_launch: false,
+  related: {
+    survey_spec: '/api/controller/v2/workflow_job_templates/20/survey_spec/',
+  },
+  summary_fields: {
+    inventory: { id: 3, name: 'Demo Inventory', description: '' },
+    labels: { count: 0, results: [] },
+    recent_jobs: [],
+  },
+} as unknown as IWorkflowJobTemplate;
+
 class PersistingTaskRunner implements SchedulerServiceTaskRunner {
   private tasks: SchedulerServiceTaskInvocationDefinition[] = [];
 
@@ -340,6 +360,7 @@ class PersistingTaskRunner implements SchedulerServiceTaskRunner {
 describe('AAPJobTemplateProvider', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockAnsibleService.syncWorkflowJobTemplates.mockResolvedValue([]);
   });
 
   describe('fromConfig', () => {
@@ -472,6 +493,14 @@ describe('AAPJobTemplateProvider', () => {
             }),
             locationKey: 'AAPJobTemplateProvider:development',
           },
+          {
+            entity: expect.objectContaining({
+              metadata: expect.objectContaining({
+                name: 'run-ad-hoc-command-development',
+              }),
+            }),
+            locationKey: 'AAPJobTemplateProvider:development',
+          },
         ],
       });
     });
@@ -548,7 +577,7 @@ describe('AAPJobTemplateProvider', () => {
       expect(
         (entityProviderConnection.applyMutation as jest.Mock).mock.calls[0][0]
           .entities,
-      ).toHaveLength(2);
+      ).toHaveLength(3);
     });
 
     it('should handle errors gracefully', async () => {
@@ -589,6 +618,220 @@ describe('AAPJobTemplateProvider', () => {
       //   );
     });
 
+    it('should record the runs in the sync history', async () => {
+      const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
+      const schedule = new PersistingTaskRunner();
+      const syncHistory = {
+        start: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        finish: jest.fn(),
+      };
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([
+        { job: MOCK_JOB_TEMPLATE, survey: MOCK_SURVEY, instanceGroup: [] },
+      ]);
+      mockAnsibleService.syncWorkflowJobTemplates.mockResolvedValue([]);
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        {
+          logger: mockServices.logger.mock(),
+          schedule,
+          syncHistory: syncHistory as unknown as SyncHistoryStore,
+        },
+      )[0];
+      await provider.connect({
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      });
+      await (schedule.getTasks()[0].fn as () => Promise<void>)();
+
+      expect(syncHistory.start).toHaveBeenCalledWith({
+        providerName: 'AAPJobTemplateProvider:development',
+        trigger: 'schedule',
+      });
+      expect(syncHistory.finish).toHaveBeenCalledWith('run-1', {
+        outcome: 'success',
+        counts: { jobTemplates: 1, workflowJobTemplates: 0 },
+      });
+
+      mockAnsibleService.syncJobTemplates.mockRejectedValue(
+        new Error('AAP unavailable'),
+      );
+      await expect(provider.run()).resolves.toBe(false);
+
+      expect(syncHistory.start).toHaveBeenLastCalledWith({
+        providerName: 'AAPJobTemplateProvider:development',
+        trigger: 'manual',
+      });
+      expect(syncHistory.finish).toHaveBeenLastCalledWith('run-1', {
+        outcome: 'failure',
+        error: 'Error while fetching job templates. AAP unavailable',
+      });
+    });
+
+    it('should sync workflow job templates along with job templates', async () => {
+      const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
+      const logger = mockServices.logger.mock();
+      const schedule = new PersistingTaskRunner();
+
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([
+        {
+          job: MOCK_JOB_TEMPLATE,
+          survey: null,
+          instanceGroup: [],
+        },
+      ]);
+      mockAnsibleService.syncWorkflowJobTemplates.mockResolvedValue([
+        { job: MOCK_WORKFLOW_JOB_TEMPLATE, survey: MOCK_SURVEY },
+      ]);
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        {
+          logger,
+          schedule,
+        },
+      )[0];
+
+      const entityProviderConnection: EntityProviderConnection = {
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      };
+
+      await provider.connect(entityProviderConnection);
+      await (schedule.getTasks()[0].fn as () => Promise<void>)();
+
+      expect(mockAnsibleService.syncWorkflowJobTemplates).toHaveBeenCalledWith(
+        true,
+        ['test-label', 'production'],
+        [],
+      );
+      const entities = (entityProviderConnection.applyMutation as jest.Mock)
+        .mock.calls[0][0].entities;
+      expect(entities).toHaveLength(3);
+      expect(entities[1].entity.metadata).toEqual(
+        expect.objectContaining({
+          name: 'test-workflow-workflow',
+          title: 'Test Workflow',
+          aapWorkflowJobTemplateId: 20,
+        }),
+      );
+      expect(entities[1].entity.spec.steps[0].action).toBe(
+        'rhaap:launch-workflow-job-template',
+      );
+    });
+
+    it('should add the built-in ad hoc command template', async () => {
+      const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
+      const logger = mockServices.logger.mock();
+      const schedule = new PersistingTaskRunner();
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([]);
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        { logger, schedule },
+      )[0];
+      const entityProviderConnection: EntityProviderConnection = {
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      };
+
+      await provider.connect(entityProviderConnection);
+      await (schedule.getTasks()[0].fn as () => Promise<void>)();
+
+      const [{ entity }] = (entityProviderConnection.applyMutation as jest.Mock)
+        .mock.calls[0][0].entities;
+      expect(entity.metadata).toEqual(
+        expect.objectContaining({
+          name: 'run-ad-hoc-command-development',
+          title: 'Run ad hoc command (development)',
+        }),
+      );
+      expect(entity.spec.steps[0].action).toBe('rhaap:run-ad-hoc-command');
+      expect(entity.spec.parameters[0].properties.inventory).toEqual(
+        expect.objectContaining({
+          'ui:field': 'AAPResourcePicker',
+          resource: 'inventories',
+        }),
+      );
+      expect(entity.spec.parameters[0].properties.credential).toEqual(
+        expect.objectContaining({
+          'ui:field': 'AAPResourcePicker',
+          resource: 'credentials',
+        }),
+      );
+    });
+
+    it('should not apply a mutation when workflow job templates fail to sync', async () => {
+      const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
+      const logger = mockServices.logger.mock();
+      const schedule = new PersistingTaskRunner();
+
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([]);
+      mockAnsibleService.syncWorkflowJobTemplates.mockRejectedValue(
+        new Error('API Error'),
+      );
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        {
+          logger,
+          schedule,
+        },
+      )[0];
+
+      const entityProviderConnection: EntityProviderConnection = {
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      };
+
+      await provider.connect(entityProviderConnection);
+
+      await expect(provider.run()).resolves.toBe(false);
+      expect(entityProviderConnection.applyMutation).not.toHaveBeenCalled();
+    });
+
+    it('should report the job template and workflow job template errors separately', async () => {
+      const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
+      const schedule = new PersistingTaskRunner();
+      const syncHistory = {
+        start: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        finish: jest.fn(),
+      };
+      mockAnsibleService.syncJobTemplates.mockRejectedValue(
+        new Error('Job templates unavailable'),
+      );
+      mockAnsibleService.syncWorkflowJobTemplates.mockRejectedValue(
+        new Error('Workflows unavailable'),
+      );
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        {
+          logger: mockServices.logger.mock(),
+          schedule,
+          syncHistory: syncHistory as unknown as SyncHistoryStore,
+        },
+      )[0];
+      await provider.connect({
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      });
+
+      await expect(provider.run()).resolves.toBe(false);
+      expect(mockAnsibleService.syncWorkflowJobTemplates).toHaveBeenCalled();
+      expect(syncHistory.finish).toHaveBeenLastCalledWith('run-1', {
+        outcome: 'failure',
+        error:
+          'Error while fetching job templates. Job templates unavailable ' +
+          'Error while fetching workflow job templates. Workflows unavailable',
+      });
+    });
+
     it('should throw error when not initialized', async () => {
       const config = new ConfigReader(MOCK_JOB_TEMPLATE_CONFIG);
       const logger = mockServices.logger.mock();
@@ -724,7 +967,16 @@ describe('AAPJobTemplateProvider', () => {
 
       expect(entityProviderConnection.applyMutation).toHaveBeenCalledWith({
         type: 'full',
-        entities: [],
+        entities: [
+          {
+            entity: expect.objectContaining({
+              metadata: expect.objectContaining({
+                name: 'run-ad-hoc-command-development',
+              }),
+            }),
+            locationKey: 'AAPJobTemplateProvider:development',
+          },
+        ],
       });
     });
 
@@ -831,6 +1083,14 @@ describe('AAPJobTemplateProvider', () => {
             }),
             locationKey: 'AAPJobTemplateProvider:development',
           },
+          {
+            entity: expect.objectContaining({
+              metadata: expect.objectContaining({
+                name: 'run-ad-hoc-command-development',
+              }),
+            }),
+            locationKey: 'AAPJobTemplateProvider:development',
+          },
         ],
       });
     });
@@ -1017,4 +1277,163 @@ describe('AAPJobTemplateProvider', () => {
       );
     });
   });
+
+  describe('approval functionality', () => {
+    it('should insert the approval step in job templates with the approval label', async () => {
+      const config = new ConfigReader({
+        ...MOCK_JOB_TEMPLATE_CONFIG,
+        catalog: {
+          providers: {
+            rhaap: {
+              development: {
+                orgs: 'Default',
+                sync: {
+                  jobTemplates: {
+                    enabled: true,
+                    surveyEnabled: true,
+                    labels: ['test-label', 'production'],
+                    approval: {
+                      label: 'production',
+                      approvers: 'group:default/release-managers',
+                    },
+                    schedule: {
+                      frequency: { minutes: 30 },
+                      timeout: { minutes: 3 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+      const logger = mockServices.logger.mock();
+      const schedule = new PersistingTaskRunner();
+
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([
+        {
+          job: MOCK_JOB_TEMPLATE,
+          survey: MOCK_SURVEY,
+          instanceGroup: [],
+        },
+      ]);
+      mockAnsibleService.syncWorkflowJobTemplates.mockResolvedValue([]);
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        config,
+        mockAnsibleService,
+        {
+          logger,
+          schedule,
+        },
+      )[0];
+
+      const entityProviderConnection: EntityProviderConnection = {
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      };
+
+      await provider.connect(entityProviderConnection);
+
+      const taskDef = schedule.getTasks()[0];
+      await (taskDef.fn as () => Promise<void>)();
+
+      const { entities } = (entityProviderConnection.applyMutation as jest.Mock)
+        .mock.calls[0][0];
+      const steps = entities[0].entity.spec.steps;
+      expect(steps.map((step: any) => step.id)).toEqual([
+        'await-approval',
+        'launch-job',
+        'wait-for-job',
+      ]);
+      expect(steps[0].input).toEqual({
+        approvers: 'group:default/release-managers',
+        title: 'Launch Test Job Template',
+      });
+    });
+  });
+
+  describe('AAP instances', () => {
+    const instanceConfig = {
+      catalog: {
+        providers: {
+          rhaap: {
+            nonprod: {
+              ...MOCK_JOB_TEMPLATE_CONFIG.catalog.providers.rhaap.development,
+              instance: 'nonprod',
+            },
+          },
+        },
+      },
+      ansible: {
+        rhaap: {
+          ...MOCK_JOB_TEMPLATE_CONFIG.ansible.rhaap,
+          instances: {
+            nonprod: {
+              baseUrl: 'https://rhaap-nonprod.test',
+              token: 'nonprodtoken',
+            },
+          },
+        },
+      },
+    };
+
+    it('should sync the job templates of the instance of the environment', async () => {
+      const logger = mockServices.logger.mock();
+      const schedule = new PersistingTaskRunner();
+      mockAnsibleService.forInstance.mockReturnValue(mockAnsibleService);
+      mockAnsibleService.syncJobTemplates.mockResolvedValue([
+        {
+          job: MOCK_JOB_TEMPLATE,
+          survey: null,
+          instanceGroup: [],
+        },
+      ]);
+      mockAnsibleService.syncWorkflowJobTemplates.mockResolvedValue([]);
+
+      const provider = AAPJobTemplateProvider.fromConfig(
+        new ConfigReader(instanceConfig),
+        mockAnsibleService,
+        {
+          logger,
+          schedule,
+        },
+      )[0];
+      const entityProviderConnection: EntityProviderConnection = {
+        applyMutation: jest.fn(),
+        refresh: jest.fn(),
+      };
+      await provider.connect(entityProviderConnection);
+      await (schedule.getTasks()[0].fn as () => Promise<void>)();
+
+      expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+      const { entities } = (entityProviderConnection.applyMutation as jest.Mock)
+        .mock.calls[0][0];
+      const template = entities[0].entity;
+      expect(template.metadata.name).toEqual('test-job-template-nonprod');
+      expect(template.metadata.annotations['ansible.io/aap-instance']).toEqual(
+        'nonprod',
+      );
+      expect(
+        template.metadata.annotations['backstage.io/managed-by-location'],
+      ).toContain('https://rhaap-nonprod.test');
+      expect(template.spec.steps[0].input.instance).toEqual('nonprod');
+    });
+
+    it('should reject an environment naming an unknown instance', () => {
+      const config = new ConfigReader({
+        ...instanceConfig,
+        ansible: { rhaap: MOCK_JOB_TEMPLATE_CONFIG.ansible.rhaap },
+      });
+
+      expect(() =>
+        AAPJobTemplateProvider.fromConfig(config, mockAnsibleService, {
+          logger: mockServices.logger.mock(),
+          schedule: new PersistingTaskRunner(),
+        }),
+      ).toThrow(
+        "Unknown AAP instance 'nonprod' in catalog.providers.rhaap.nonprod, it is not configured in ansible.rhaap.instances",
+      );
+    });
+  });
 });
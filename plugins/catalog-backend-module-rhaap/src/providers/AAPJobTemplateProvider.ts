@@ -12,25 +12,40 @@ import type { Config } from '@backstage/config';
 
 import { readAapApiEntityConfigs } from './config';
 import { InputError, isError, NotFoundError } from '@backstage/errors';
-import { AapConfig } from './types';
+import {
+  SyncHistoryStore,
+  SyncRunResult,
+  SyncTrigger,
+  startSyncRun,
+} from '../syncHistory';
+import { AapConfig, JobTemplateApprovalConfig } from './types';
 import {
   IAAPService,
   IJobTemplate,
   ISurvey,
   InstanceGroup,
+  IWorkflowJobTemplate,
 } from '@ansible/backstage-rhaap-common';
 import { Entity } from '@backstage/catalog-model';
-import { aapJobTemplateParser } from './entityParser';
+import {
+  aapAdHocCommandTemplateParser,
+  aapJobTemplateParser,
+  aapWorkflowJobTemplateParser,
+  setAAPInstance,
+} from './entityParser';
 
 export class AAPJobTemplateProvider implements EntityProvider {
   private readonly env: string;
   private readonly baseUrl: string;
+  private readonly instance?: string;
   private readonly surveyEnabled: boolean | undefined;
   private readonly jobTemplateLabels: string[];
   private readonly jobTemplateExcludeLabels: string[];
+  private readonly jobTemplateApproval?: JobTemplateApprovalConfig;
   private readonly logger: LoggerService;
   private readonly ansibleServiceRef: IAAPService;
   private readonly scheduleFn: () => Promise<void>;
+  private readonly syncHistory?: SyncHistoryStore;
   private connection?: EntityProviderConnection;
   private lastSyncTime: string | null = null;
 
@@ -44,6 +59,7 @@ export class AAPJobTemplateProvider implements EntityProvider {
       logger: LoggerService;
       schedule?: SchedulerServiceTaskRunner;
       scheduler?: SchedulerService;
+      syncHistory?: SyncHistoryStore;
     },
   ): AAPJobTemplateProvider[] {
     const { logger } = options;
@@ -78,6 +94,7 @@ export class AAPJobTemplateProvider implements EntityProvider {
         logger,
         taskRunner,
         ansibleServiceRef,
+        options.syncHistory,
       );
     });
   }
@@ -87,17 +104,23 @@ export class AAPJobTemplateProvider implements EntityProvider {
     logger: LoggerService,
     taskRunner: SchedulerServiceTaskRunner,
     ansibleServiceRef: IAAPService,
+    syncHistory?: SyncHistoryStore,
   ) {
     this.env = config.id;
     this.baseUrl = config.baseUrl;
     this.surveyEnabled = config.surveyEnabled ?? undefined;
     this.jobTemplateLabels = config.jobTemplateLabels ?? [];
     this.jobTemplateExcludeLabels = config.jobTemplateExcludeLabels ?? [];
+    this.jobTemplateApproval = config.jobTemplateApproval;
     this.logger = logger.child({
       target: this.getProviderName(),
     });
-    this.ansibleServiceRef = ansibleServiceRef;
+    this.instance = config.instance;
+    this.ansibleServiceRef = this.instance
+      ? ansibleServiceRef.forInstance(this.instance)
+      : ansibleServiceRef;
 
+    this.syncHistory = syncHistory;
     this.scheduleFn = this.createScheduleFn(taskRunner);
   }
 
@@ -111,7 +134,7 @@ export class AAPJobTemplateProvider implements EntityProvider {
         id: taskId,
         fn: async () => {
           try {
-            await this.run();
+            await this.run('schedule');
           } catch (error) {
             if (isError(error)) {
               // Ensure that we don't log any sensitive internal data:
@@ -141,19 +164,44 @@ export class AAPJobTemplateProvider implements EntityProvider {
     return this.lastSyncTime;
   }
 
-  async run(): Promise<boolean> {
+  async run(trigger: SyncTrigger = 'manual'): Promise<boolean> {
     if (!this.connection) {
       throw new NotFoundError('Not initialized');
     }
+    const finish = await startSyncRun(this.syncHistory, this.logger, {
+      providerName: this.getProviderName(),
+      trigger,
+    });
+    try {
+      const result = await this.sync(this.connection);
+      await finish(result);
+      return result.outcome === 'success';
+    } catch (e) {
+      await finish({
+        outcome: 'failure',
+        error: isError(e) ? e.message : String(e),
+      });
+      throw e;
+    }
+  }
+
+  private async sync(
+    connection: EntityProviderConnection,
+  ): Promise<SyncRunResult> {
     let jobTemplateCount = 0;
+    let workflowJobTemplateCount = 0;
     const entities: Entity[] = [];
     let aapJobTemplates: Array<{
       job: IJobTemplate;
       survey: ISurvey | null;
       instanceGroup: InstanceGroup[];
     }> = [];
+    let aapWorkflowJobTemplates: Array<{
+      job: IWorkflowJobTemplate;
+      survey: ISurvey | null;
+    }> = [];
 
-    let error = false;
+    const errors: string[] = [];
     try {
       aapJobTemplates = await this.ansibleServiceRef.syncJobTemplates(
         this.surveyEnabled,
@@ -169,10 +217,30 @@ export class AAPJobTemplateProvider implements EntityProvider {
           AAPJobTemplateProvider.pluginLogName
         }]: Error while fetching job templates. ${e?.message ?? ''}`,
       );
-      error = true;
+      errors.push(`Error while fetching job templates. ${e?.message ?? ''}`);
+    }
+    try {
+      aapWorkflowJobTemplates =
+        await this.ansibleServiceRef.syncWorkflowJobTemplates(
+          this.surveyEnabled,
+          this.jobTemplateLabels,
+          this.jobTemplateExcludeLabels,
+        );
+      this.logger.info(
+        `[${AAPJobTemplateProvider.pluginLogName}]: Fetched ${aapWorkflowJobTemplates.length} workflow job templates.`,
+      );
+    } catch (e: any) {
+      this.logger.error(
+        `[${
+          AAPJobTemplateProvider.pluginLogName
+        }]: Error while fetching workflow job templates. ${e?.message ?? ''}`,
+      );
+      errors.push(
+        `Error while fetching workflow job templates. ${e?.message ?? ''}`,
+      );
     }
 
-    if (!error) {
+    if (errors.length === 0) {
       for (const { job, survey, instanceGroup } of aapJobTemplates) {
         entities.push(
           aapJobTemplateParser({
@@ -181,15 +249,35 @@ export class AAPJobTemplateProvider implements EntityProvider {
             job,
             survey,
             instanceGroup,
+            approval: this.jobTemplateApproval,
           }),
         );
         jobTemplateCount++;
       }
+      for (const { job, survey } of aapWorkflowJobTemplates) {
+        entities.push(
+          aapWorkflowJobTemplateParser({
+            baseUrl: this.baseUrl,
+            nameSpace: 'default',
+            job,
+            survey,
+          }),
+        );
+        workflowJobTemplateCount++;
+      }
+      // built-in template, not backed by an AAP job template
+      entities.push(
+        aapAdHocCommandTemplateParser({
+          baseUrl: this.baseUrl,
+          nameSpace: 'default',
+          providerId: this.env,
+        }),
+      );
 
-      await this.connection.applyMutation({
+      await connection.applyMutation({
         type: 'full',
         entities: entities.map(entity => ({
-          entity,
+          entity: setAAPInstance(entity, this.instance),
           locationKey: this.getProviderName(),
         })),
       });
@@ -197,12 +285,21 @@ export class AAPJobTemplateProvider implements EntityProvider {
       this.logger.info(
         `[${
           AAPJobTemplateProvider.pluginLogName
-        }]: Refreshed ${this.getProviderName()}: ${jobTemplateCount} job templates added.`,
+        }]: Refreshed ${this.getProviderName()}: ${jobTemplateCount} job templates and ${workflowJobTemplateCount} workflow job templates added.`,
       );
 
       this.lastSyncTime = new Date().toISOString();
     }
-    return !error;
+    if (errors.length > 0) {
+      return { outcome: 'failure', error: errors.join(' ') };
+    }
+    return {
+      outcome: 'success',
+      counts: {
+        jobTemplates: jobTemplateCount,
+        workflowJobTemplates: workflowJobTemplateCount,
+      },
+    };
   }
 
   async connect(connection: EntityProviderConnection): Promise<void> {
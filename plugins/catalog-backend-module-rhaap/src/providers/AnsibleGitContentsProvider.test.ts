@@ -8,12 +8,26 @@ import { ConfigReader } from '@backstage/config';
 import type { RepositoryInfo } from '@ansible/backstage-rhaap-common';
 
 import { AnsibleGitContentsProvider } from './AnsibleGitContentsProvider';
+import type { SyncHistoryStore } from '../syncHistory';
 import type { ScmCrawler } from './ansible-collections/scm';
+import {
+  generateCollectionEntityName,
+  generateAutomationContentEntityName,
+  generateRepositoryEntityName,
+} from './ansible-collections/utils';
+import type { ScmPushEvent } from '../webhooks';
 import type {
+  DiscoveredAutomationContent,
+  DiscoveredContent,
   DiscoveredGalaxyFile,
   AnsibleGitContentsSourceConfig,
 } from './types';
 
+const discovered = (
+  galaxyFiles: DiscoveredGalaxyFile[],
+  automationContent: DiscoveredAutomationContent[] = [],
+): DiscoveredContent => ({ galaxyFiles, automationContent });
+
 const createMockCrawler = (): jest.Mocked<ScmCrawler> => ({
   getRepositories: jest.fn().mockResolvedValue([]),
   getBranches: jest.fn().mockResolvedValue(['main']),
@@ -23,6 +37,10 @@ const createMockCrawler = (): jest.Mocked<ScmCrawler> => ({
   buildSourceLocation: jest.fn().mockReturnValue('url:https://example.com'),
   discoverGalaxyFiles: jest.fn().mockResolvedValue([]),
   discoverGalaxyFilesInRepos: jest.fn().mockResolvedValue([]),
+  isTrackedRef: jest.fn().mockReturnValue(true),
+  discoverGalaxyFilesInRef: jest.fn().mockResolvedValue([]),
+  discoverContentInRepos: jest.fn().mockResolvedValue(discovered([])),
+  discoverContentInRef: jest.fn().mockResolvedValue(discovered([])),
 });
 
 let mockCrawlerInstance: jest.Mocked<ScmCrawler>;
@@ -76,6 +94,20 @@ describe('AnsibleGitContentsProvider', () => {
     },
   };
 
+  const mockRole: DiscoveredAutomationContent = {
+    repository: mockRepo,
+    ref: 'main',
+    refType: 'branch',
+    path: 'roles/nginx',
+    kind: 'role',
+    metadata: {
+      name: 'nginx',
+      platforms: [{ name: 'EL', versions: ['9'] }],
+      galaxyTags: [],
+      dependencies: [],
+    },
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
 
@@ -107,6 +139,7 @@ describe('AnsibleGitContentsProvider', () => {
 
   const createProviderFromConfig = async (
     configs: AnsibleGitContentsSourceConfig[] = [mockSourceConfig],
+    syncHistory?: SyncHistoryStore,
   ): Promise<AnsibleGitContentsProvider[]> => {
     const { readAnsibleGitContentsConfigs } = require('./config');
     readAnsibleGitContentsConfigs.mockReturnValue(configs);
@@ -120,6 +153,7 @@ describe('AnsibleGitContentsProvider', () => {
     return AnsibleGitContentsProvider.fromConfig(config, {
       logger: mockLogger,
       scheduler: mockScheduler,
+      syncHistory,
     });
   };
 
@@ -166,6 +200,23 @@ describe('AnsibleGitContentsProvider', () => {
 
       expect(mockScheduler.createScheduledTaskRunner).toHaveBeenCalled();
     });
+
+    it('should give the SCM response cache to the crawlers', async () => {
+      const { readAnsibleGitContentsConfigs } = require('./config');
+      const { ScmCrawlerFactory } = require('./ansible-collections/scm');
+      readAnsibleGitContentsConfigs.mockReturnValue([mockSourceConfig]);
+      const scmResponseCache = { get: jest.fn(), set: jest.fn() };
+
+      await AnsibleGitContentsProvider.fromConfig(new ConfigReader({}), {
+        logger: mockLogger,
+        scheduler: mockScheduler,
+        scmResponseCache,
+      });
+
+      expect(ScmCrawlerFactory).toHaveBeenCalledWith(
+        expect.objectContaining({ cache: scmResponseCache }),
+      );
+    });
   });
 
   describe('provider methods', () => {
@@ -303,6 +354,42 @@ describe('AnsibleGitContentsProvider', () => {
       expect(abortLogged).toBe(true);
     });
 
+    it('should create entities for roles, playbook projects and rulebooks', async () => {
+      mockTaskRunner.run.mockResolvedValue(undefined);
+      const [provider] = await createProviderFromConfig([mockSourceConfig]);
+      await provider.connect(mockConnection);
+      mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([], [mockRole, mockRole]),
+      );
+
+      await provider.run();
+
+      const roleName = generateAutomationContentEntityName(
+        mockRole,
+        mockSourceConfig,
+      );
+      const mutation = mockConnection.applyMutation.mock.calls.at(-1)![0];
+      const entities =
+        mutation.type === 'full'
+          ? mutation.entities.map(({ entity }) => entity)
+          : [];
+      expect(entities.map(entity => entity.metadata.name)).toEqual([
+        roleName,
+        generateRepositoryEntityName(mockRepo, mockSourceConfig),
+      ]);
+      expect(entities[0].spec?.type).toBe('ansible-role');
+      expect(entities[1].spec?.repository_automation_content).toEqual([
+        roleName,
+      ]);
+      expect(mockCrawlerInstance.buildSourceLocation).toHaveBeenCalledWith(
+        mockRepo,
+        'main',
+        'roles/nginx/',
+      );
+      expect(provider.getCurrentCollectionsCount()).toBe(0);
+    });
+
     it('should discover and apply collections', async () => {
       mockTaskRunner.run.mockResolvedValue(undefined);
       const providers = await createProviderFromConfig([mockSourceConfig]);
@@ -310,14 +397,14 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
 
       await provider.run();
 
       expect(mockCrawlerInstance.getRepositories).toHaveBeenCalled();
-      expect(mockCrawlerInstance.discoverGalaxyFilesInRepos).toHaveBeenCalled();
+      expect(mockCrawlerInstance.discoverContentInRepos).toHaveBeenCalled();
       expect(mockConnection.applyMutation).toHaveBeenCalled();
     });
 
@@ -328,9 +415,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
 
       await provider.run();
 
@@ -357,6 +444,45 @@ describe('AnsibleGitContentsProvider', () => {
       expect(provider.getIsSyncing()).toBe(false);
     });
 
+    it('should record the runs in the sync history', async () => {
+      mockTaskRunner.run.mockResolvedValue(undefined);
+      const syncHistory = {
+        start: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        finish: jest.fn(),
+      };
+      const [provider] = await createProviderFromConfig(
+        [mockSourceConfig],
+        syncHistory as unknown as SyncHistoryStore,
+      );
+      await provider.connect(mockConnection);
+      mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
+
+      await provider.run(undefined, 'schedule');
+
+      expect(syncHistory.start).toHaveBeenCalledWith({
+        providerName: provider.getProviderName(),
+        sourceId: provider.getSourceId(),
+        trigger: 'schedule',
+      });
+      expect(syncHistory.finish).toHaveBeenCalledWith('run-1', {
+        outcome: 'success',
+        counts: { collections: 1, automationContent: 0, repositories: 1 },
+      });
+
+      mockCrawlerInstance.getRepositories.mockRejectedValue(
+        new Error('API Error'),
+      );
+      await provider.run();
+
+      expect(syncHistory.finish).toHaveBeenLastCalledWith('run-1', {
+        outcome: 'failure',
+        error: 'API Error',
+      });
+    });
+
     it('should track collection counts', async () => {
       mockTaskRunner.run.mockResolvedValue(undefined);
       const providers = await createProviderFromConfig([mockSourceConfig]);
@@ -364,9 +490,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
 
       await provider.run();
 
@@ -399,13 +525,15 @@ describe('AnsibleGitContentsProvider', () => {
         fullPath: `test-org/repo-${i}`,
       }));
       mockCrawlerInstance.getRepositories.mockResolvedValue(manyRepos);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([]),
+      );
 
       await provider.run();
 
-      expect(
-        mockCrawlerInstance.discoverGalaxyFilesInRepos,
-      ).toHaveBeenCalledTimes(3);
+      expect(mockCrawlerInstance.discoverContentInRepos).toHaveBeenCalledTimes(
+        3,
+      );
     });
   });
 
@@ -432,9 +560,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
       mockConnection.applyMutation.mockRejectedValue(
         new Error('Mutation failed'),
       );
@@ -458,8 +586,8 @@ describe('AnsibleGitContentsProvider', () => {
         { ...mockGalaxyFile, path: 'other/galaxy.yml' },
       ];
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue(
-        duplicateFiles,
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered(duplicateFiles),
       );
 
       await provider.run();
@@ -481,8 +609,8 @@ describe('AnsibleGitContentsProvider', () => {
         },
       ];
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue(
-        differentVersionFiles,
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered(differentVersionFiles),
       );
 
       await provider.run();
@@ -499,9 +627,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
 
       await provider.run();
 
@@ -519,9 +647,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos.mockResolvedValue([
-        mockGalaxyFile,
-      ]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
 
       await provider.run();
 
@@ -535,9 +663,9 @@ describe('AnsibleGitContentsProvider', () => {
 
       await provider.connect(mockConnection);
       mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
-      mockCrawlerInstance.discoverGalaxyFilesInRepos
-        .mockResolvedValueOnce([mockGalaxyFile])
-        .mockResolvedValueOnce([]);
+      mockCrawlerInstance.discoverContentInRepos
+        .mockResolvedValueOnce(discovered([mockGalaxyFile]))
+        .mockResolvedValueOnce(discovered([]));
 
       await provider.run();
       expect(provider.getCurrentCollectionsCount()).toBe(1);
@@ -547,4 +675,245 @@ describe('AnsibleGitContentsProvider', () => {
       expect(provider.getCollectionsDelta()).toBe(-1);
     });
   });
+
+  describe('syncPush', () => {
+    const push: ScmPushEvent = {
+      scmProvider: 'github',
+      host: 'github.com',
+      repository: mockRepo,
+      ref: 'v2.0.0',
+      refType: 'tag',
+      deleted: false,
+    };
+    const taggedGalaxyFile: DiscoveredGalaxyFile = {
+      ...mockGalaxyFile,
+      ref: 'v2.0.0',
+      refType: 'tag',
+      metadata: { ...mockGalaxyFile.metadata, version: '2.0.0' },
+    };
+    const entityRef = (name: string) => `component:default/${name}`;
+    const repositoryRef = entityRef(
+      generateRepositoryEntityName(mockRepo, mockSourceConfig),
+    );
+
+    const createSyncedProvider = async () => {
+      mockTaskRunner.run.mockResolvedValue(undefined);
+      const [provider] = await createProviderFromConfig([mockSourceConfig]);
+      await provider.connect(mockConnection);
+      mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
+      await provider.run();
+      mockConnection.applyMutation.mockClear();
+      mockCrawlerInstance.discoverContentInRepos.mockClear();
+      return provider;
+    };
+
+    it('should match pushes to repositories of its organization', async () => {
+      const [provider] = await createProviderFromConfig([mockSourceConfig]);
+
+      expect(provider.handlesPush(push)).toBe(true);
+      expect(
+        provider.handlesPush({
+          ...push,
+          repository: { ...mockRepo, fullPath: 'Test-Org/Test-Repo' },
+        }),
+      ).toBe(true);
+      expect(
+        provider.handlesPush({
+          ...push,
+          repository: { ...mockRepo, fullPath: 'other-org/test-repo' },
+        }),
+      ).toBe(false);
+      expect(
+        provider.handlesPush({ ...push, host: 'github.example.com' }),
+      ).toBe(false);
+      expect(provider.handlesPush({ ...push, scmProvider: 'gitlab' })).toBe(
+        false,
+      );
+    });
+
+    it('should add the collections of the pushed ref', async () => {
+      const provider = await createSyncedProvider();
+      mockCrawlerInstance.discoverContentInRef.mockResolvedValue(
+        discovered([taggedGalaxyFile]),
+      );
+
+      const result = await provider.syncPush(push);
+
+      expect(result).toEqual({ status: 'synced', added: 3, removed: 0 });
+      expect(mockCrawlerInstance.discoverContentInRef).toHaveBeenCalledWith(
+        mockRepo,
+        'v2.0.0',
+        'tag',
+        expect.objectContaining({ crawlDepth: 5 }),
+      );
+      expect(mockCrawlerInstance.discoverContentInRepos).not.toHaveBeenCalled();
+      const mutation = mockConnection.applyMutation.mock.calls[0][0];
+      expect(mutation.type).toBe('delta');
+      expect(
+        mutation.type === 'delta' &&
+          mutation.added.map(({ entity }) => entity.metadata.name),
+      ).toEqual([
+        generateCollectionEntityName(mockGalaxyFile, mockSourceConfig),
+        generateCollectionEntityName(taggedGalaxyFile, mockSourceConfig),
+        generateRepositoryEntityName(mockRepo, mockSourceConfig),
+      ]);
+    });
+
+    it('should remove the collections of a deleted ref', async () => {
+      const provider = await createSyncedProvider();
+      mockCrawlerInstance.discoverContentInRef.mockResolvedValue(
+        discovered([taggedGalaxyFile]),
+      );
+      await provider.syncPush(push);
+      mockConnection.applyMutation.mockClear();
+
+      const result = await provider.syncPush({ ...push, deleted: true });
+
+      expect(result).toEqual({ status: 'synced', added: 2, removed: 1 });
+      expect(mockConnection.applyMutation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          removed: [
+            {
+              entityRef: entityRef(
+                generateCollectionEntityName(
+                  taggedGalaxyFile,
+                  mockSourceConfig,
+                ),
+              ),
+              locationKey: provider.getProviderName(),
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should remove the repository once it has no collections', async () => {
+      const provider = await createSyncedProvider();
+      mockCrawlerInstance.discoverContentInRef.mockResolvedValue(
+        discovered([]),
+      );
+
+      const result = await provider.syncPush({
+        ...push,
+        ref: 'main',
+        refType: 'branch',
+      });
+
+      expect(result).toEqual({ status: 'synced', added: 0, removed: 2 });
+      const mutation = mockConnection.applyMutation.mock.calls[0][0];
+      expect(
+        mutation.type === 'delta' &&
+          mutation.removed.map(
+            entity => 'entityRef' in entity && entity.entityRef,
+          ),
+      ).toEqual([
+        entityRef(
+          generateCollectionEntityName(mockGalaxyFile, mockSourceConfig),
+        ),
+        repositoryRef,
+      ]);
+    });
+
+    it('should crawl all the refs of a repository unknown to the last sync', async () => {
+      const provider = await createSyncedProvider();
+      const newRepo = { ...mockRepo, name: 'new', fullPath: 'test-org/new' };
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([{ ...mockGalaxyFile, repository: newRepo }]),
+      );
+
+      const result = await provider.syncPush({ ...push, repository: newRepo });
+
+      expect(result).toEqual({ status: 'synced', added: 2, removed: 0 });
+      expect(mockCrawlerInstance.discoverContentInRepos).toHaveBeenCalledWith(
+        [newRepo],
+        expect.objectContaining({ crawlDepth: 5 }),
+      );
+      expect(mockCrawlerInstance.discoverContentInRef).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the running sync before applying a push', async () => {
+      const provider = await createSyncedProvider();
+      let finishCrawl: (content: DiscoveredContent) => void = () => {};
+      mockCrawlerInstance.discoverContentInRepos.mockReturnValue(
+        new Promise(resolve => {
+          finishCrawl = resolve;
+        }),
+      );
+      mockCrawlerInstance.discoverContentInRef.mockResolvedValue(
+        discovered([taggedGalaxyFile]),
+      );
+
+      const sync = provider.run();
+      await new Promise(resolve => setImmediate(resolve));
+      const pushed = provider.syncPush(push);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockCrawlerInstance.discoverContentInRef).not.toHaveBeenCalled();
+
+      finishCrawl(discovered([mockGalaxyFile]));
+      await sync;
+
+      await expect(pushed).resolves.toEqual({
+        status: 'synced',
+        added: 3,
+        removed: 0,
+      });
+    });
+
+    it('should remove the automation content gone from the pushed ref', async () => {
+      mockTaskRunner.run.mockResolvedValue(undefined);
+      const [provider] = await createProviderFromConfig([mockSourceConfig]);
+      await provider.connect(mockConnection);
+      mockCrawlerInstance.getRepositories.mockResolvedValue([mockRepo]);
+      mockCrawlerInstance.discoverContentInRepos.mockResolvedValue(
+        discovered([mockGalaxyFile], [mockRole]),
+      );
+      await provider.run();
+      mockConnection.applyMutation.mockClear();
+      mockCrawlerInstance.discoverContentInRef.mockResolvedValue(
+        discovered([mockGalaxyFile]),
+      );
+
+      const result = await provider.syncPush({
+        ...push,
+        ref: 'main',
+        refType: 'branch',
+      });
+
+      expect(result).toEqual({ status: 'synced', added: 2, removed: 1 });
+      expect(mockConnection.applyMutation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          removed: [
+            {
+              entityRef: entityRef(
+                generateAutomationContentEntityName(mockRole, mockSourceConfig),
+              ),
+              locationKey: provider.getProviderName(),
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should skip refs that are not synced', async () => {
+      const provider = await createSyncedProvider();
+      mockCrawlerInstance.isTrackedRef.mockReturnValue(false);
+
+      await expect(provider.syncPush(push)).resolves.toEqual({
+        status: 'skipped',
+        reason: "The tag 'v2.0.0' is not synced",
+      });
+      expect(mockConnection.applyMutation).not.toHaveBeenCalled();
+    });
+
+    it('should fail when not connected', async () => {
+      const [provider] = await createProviderFromConfig([mockSourceConfig]);
+
+      await expect(provider.syncPush(push)).rejects.toThrow(
+        'Provider not initialized - not connected',
+      );
+    });
+  });
 });
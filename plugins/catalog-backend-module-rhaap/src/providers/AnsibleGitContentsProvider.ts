@@ -9,10 +9,16 @@ import {
 } from '@backstage/plugin-catalog-node';
 import type { Config } from '@backstage/config';
 import { isError, NotFoundError } from '@backstage/errors';
-import { Entity } from '@backstage/catalog-model';
+import { Entity, stringifyEntityRef } from '@backstage/catalog-model';
+import type {
+  RepositoryInfo,
+  ScmResponseCache,
+} from '@ansible/backstage-rhaap-common';
 
 import type {
   AnsibleGitContentsSourceConfig,
+  DiscoveredAutomationContent,
+  DiscoveredContent,
   DiscoveredGalaxyFile,
 } from './types';
 import { ScmCrawlerFactory } from './ansible-collections/scm';
@@ -23,18 +29,50 @@ import {
   createRepositoryKey,
   generateSourceId,
   generateCollectionEntityName,
+  generateAutomationContentEntityName,
+  generateRepositoryEntityName,
+  getDefaultHost,
 } from './ansible-collections/utils';
-import { scmCollectionParser, repositoryParser } from './entityParser';
+import {
+  scmCollectionParser,
+  automationContentParser,
+  repositoryParser,
+} from './entityParser';
 import { readAnsibleGitContentsConfigs } from './config';
+import { SyncHistoryStore, SyncTrigger, startSyncRun } from '../syncHistory';
+import type { ScmPushEvent } from '../webhooks';
 
 const DEFAULT_CRAWL_DEPTH = 5;
 const DEFAULT_BATCH_SIZE = 20;
 
+/** The content of a repository found by the last sync, by tracked ref. */
+type IndexedRepository = {
+  repo: RepositoryInfo;
+  refs: Map<string, DiscoveredContent>;
+};
+
+/** The entities of a repository, to be listed by its repository entity. */
+type RepositoryEntry = {
+  repo: RepositoryInfo;
+  count: number;
+  collectionEntityNames: string[];
+  contentEntityNames: string[];
+};
+
+export type WebhookSyncResult =
+  | { status: 'synced'; added: number; removed: number }
+  | { status: 'skipped'; reason: string };
+
+const refKey = (refType: 'branch' | 'tag', ref: string) => `${refType}:${ref}`;
+const repositoryIndexKey = (repo: RepositoryInfo) =>
+  repo.fullPath.toLowerCase();
+
 export class AnsibleGitContentsProvider implements EntityProvider {
   private readonly sourceConfig: AnsibleGitContentsSourceConfig;
   private readonly logger: LoggerService;
   private readonly crawler: ScmCrawler;
   private readonly scheduleFn: () => Promise<void>;
+  private readonly syncHistory?: SyncHistoryStore;
   private readonly sourceId: string;
   private connection?: EntityProviderConnection;
   private lastSyncTime: string | null = null;
@@ -43,6 +81,9 @@ export class AnsibleGitContentsProvider implements EntityProvider {
   private lastSyncCollections: number = 0;
   private lastSyncNewCollections: number = 0;
   private isSyncing: boolean = false;
+  private repositoryIndex = new Map<string, IndexedRepository>();
+  private webhookSyncs: Promise<unknown> = Promise.resolve();
+  private runningSync?: Promise<boolean>;
   static readonly pluginLogName = 'plugin-catalog-rhaap-git-contents';
 
   static async fromConfig(
@@ -51,6 +92,8 @@ export class AnsibleGitContentsProvider implements EntityProvider {
       logger: LoggerService;
       schedule?: SchedulerServiceTaskRunner;
       scheduler?: SchedulerService;
+      syncHistory?: SyncHistoryStore;
+      scmResponseCache?: ScmResponseCache;
     },
   ): Promise<AnsibleGitContentsProvider[]> {
     const { logger } = options;
@@ -76,6 +119,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     const crawlerFactory = new ScmCrawlerFactory({
       rootConfig: config,
       logger,
+      cache: options.scmResponseCache,
     });
     const providers: AnsibleGitContentsProvider[] = [];
 
@@ -112,6 +156,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
           crawler,
           logger,
           taskRunner,
+          options.syncHistory,
         );
 
         providers.push(provider);
@@ -134,6 +179,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     crawler: ScmCrawler,
     logger: LoggerService,
     taskRunner: SchedulerServiceTaskRunner,
+    syncHistory?: SyncHistoryStore,
   ) {
     this.sourceConfig = sourceConfig;
     this.crawler = crawler;
@@ -141,6 +187,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     this.logger = logger.child({
       target: this.getProviderName(),
     });
+    this.syncHistory = syncHistory;
 
     this.scheduleFn = this.createScheduleFn(taskRunner);
   }
@@ -158,7 +205,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
         id: taskId,
         fn: async (signal?: AbortSignal) => {
           try {
-            await this.run(signal);
+            await this.run(signal, 'schedule');
           } catch (error) {
             if (isError(error)) {
               this.logger.error(
@@ -212,6 +259,241 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     return this.lastSyncNewCollections;
   }
 
+  getWebhookSecret(): string | undefined {
+    return this.sourceConfig.webhookSecret;
+  }
+
+  /** Whether the pushed repository belongs to the organization of this source. */
+  handlesPush(push: ScmPushEvent): boolean {
+    const host = (
+      this.sourceConfig.host ?? getDefaultHost(this.sourceConfig.scmProvider)
+    )
+      .replace(/^https?:\/\//, '')
+      .replace(/\/+$/, '');
+    const organization = `${this.sourceConfig.organization}/`.toLowerCase();
+    return (
+      push.scmProvider === this.sourceConfig.scmProvider &&
+      push.host.toLowerCase() === host.toLowerCase() &&
+      push.repository.fullPath.toLowerCase().startsWith(organization)
+    );
+  }
+
+  /**
+   * Re-crawls the pushed ref of a repository and applies the difference to the
+   * catalog. A repository unknown to the last sync is crawled on all its
+   * tracked refs. Pushes are applied one at a time, in the order received.
+   */
+  syncPush(push: ScmPushEvent): Promise<WebhookSyncResult> {
+    const result = this.webhookSyncs.then(() => this.applyPush(push));
+    this.webhookSyncs = result.catch(() => undefined);
+    return result;
+  }
+
+  private async applyPush(push: ScmPushEvent): Promise<WebhookSyncResult> {
+    if (!this.connection) {
+      throw new NotFoundError('Provider not initialized - not connected');
+    }
+    // the running sync may have crawled the repository before the push
+    await this.runningSync;
+    const options = this.getDiscoveryOptions();
+    if (
+      !this.crawler.isTrackedRef(
+        push.repository,
+        push.ref,
+        push.refType,
+        options,
+      )
+    ) {
+      return {
+        status: 'skipped',
+        reason: `The ${push.refType} '${push.ref}' is not synced`,
+      };
+    }
+
+    const key = repositoryIndexKey(push.repository);
+    const previous = this.repositoryIndex.get(key);
+    const indexed: IndexedRepository = {
+      repo: push.repository,
+      refs: new Map(previous?.refs),
+    };
+    if (!previous) {
+      const content = await this.crawler.discoverContentInRepos(
+        [push.repository],
+        options,
+      );
+      this.indexContent(indexed, content);
+    } else if (push.deleted) {
+      indexed.refs.delete(refKey(push.refType, push.ref));
+    } else {
+      const content = await this.crawler.discoverContentInRef(
+        push.repository,
+        push.ref,
+        push.refType,
+        options,
+      );
+      indexed.refs.set(refKey(push.refType, push.ref), content);
+    }
+
+    const before = this.getIndexedEntityNames(previous);
+    this.repositoryIndex.set(key, indexed);
+    const files = this.getIndexedGalaxyFiles(indexed);
+    const automationContent = this.getIndexedAutomationContent(indexed);
+    const collectionEntityNames = files.map(file =>
+      generateCollectionEntityName(file, this.sourceConfig),
+    );
+    const contentEntityNames = automationContent.map(content =>
+      generateAutomationContentEntityName(content, this.sourceConfig),
+    );
+    const after = new Set([...collectionEntityNames, ...contentEntityNames]);
+    const stillProvided = this.getProvidedEntityNames();
+    const removedNames = [...before].filter(
+      name => !after.has(name) && !stillProvided.has(name),
+    );
+
+    const added = [
+      ...this.convertToEntities(files),
+      ...this.convertAutomationContentToEntities(automationContent),
+    ];
+    const repositoryName = generateRepositoryEntityName(
+      indexed.repo,
+      this.sourceConfig,
+    );
+    if (after.size > 0) {
+      added.push(
+        ...this.createRepositoryEntities(
+          new Map([
+            [
+              createRepositoryKey(indexed.repo, this.sourceConfig),
+              {
+                repo: indexed.repo,
+                count: collectionEntityNames.length,
+                collectionEntityNames,
+                contentEntityNames,
+              },
+            ],
+          ]),
+        ),
+      );
+    } else if (before.size > 0) {
+      removedNames.push(repositoryName);
+    }
+
+    await this.connection.applyMutation({
+      type: 'delta',
+      added: added.map(entity => ({
+        entity,
+        locationKey: this.getProviderName(),
+      })),
+      removed: removedNames.map(name => ({
+        entityRef: stringifyEntityRef({
+          kind: 'Component',
+          namespace: 'default',
+          name,
+        }),
+        locationKey: this.getProviderName(),
+      })),
+    });
+
+    this.logger.info(
+      `[${AnsibleGitContentsProvider.pluginLogName}]: Synced ${push.refType} '${push.ref}' of ${push.repository.fullPath} from a webhook: ${added.length} entities added, ${removedNames.length} removed`,
+    );
+    return {
+      status: 'synced',
+      added: added.length,
+      removed: removedNames.length,
+    };
+  }
+
+  private getDiscoveryOptions() {
+    return {
+      branches: this.sourceConfig.branches,
+      tags: this.sourceConfig.tags,
+      galaxyFilePaths: this.sourceConfig.galaxyFilePaths,
+      crawlDepth: this.sourceConfig.crawlDepth || DEFAULT_CRAWL_DEPTH,
+    };
+  }
+
+  private indexContent(
+    indexed: IndexedRepository,
+    content: DiscoveredContent,
+  ): void {
+    const getRef = (refType: 'branch' | 'tag', ref: string) => {
+      const key = refKey(refType, ref);
+      const indexedRef = indexed.refs.get(key) ?? {
+        galaxyFiles: [],
+        automationContent: [],
+      };
+      indexed.refs.set(key, indexedRef);
+      return indexedRef;
+    };
+    for (const file of content.galaxyFiles) {
+      getRef(file.refType, file.ref).galaxyFiles.push(file);
+    }
+    for (const item of content.automationContent) {
+      getRef(item.refType, item.ref).automationContent.push(item);
+    }
+  }
+
+  private getIndexedGalaxyFiles(indexed: IndexedRepository) {
+    const seenKeys = new Set<string>();
+    const files = [...indexed.refs.values()].flatMap(
+      content => content.galaxyFiles,
+    );
+    return files.filter(file => {
+      const key = createCollectionKey(
+        createCollectionIdentifier(file, this.sourceConfig),
+      );
+      if (seenKeys.has(key)) {
+        return false;
+      }
+      seenKeys.add(key);
+      return true;
+    });
+  }
+
+  private getIndexedAutomationContent(indexed: IndexedRepository) {
+    const seenNames = new Set<string>();
+    const automationContent = [...indexed.refs.values()].flatMap(
+      content => content.automationContent,
+    );
+    return automationContent.filter(content => {
+      const name = generateAutomationContentEntityName(
+        content,
+        this.sourceConfig,
+      );
+      if (seenNames.has(name)) {
+        return false;
+      }
+      seenNames.add(name);
+      return true;
+    });
+  }
+
+  private getIndexedEntityNames(indexed?: IndexedRepository): Set<string> {
+    if (!indexed) {
+      return new Set();
+    }
+    return new Set([
+      ...this.getIndexedGalaxyFiles(indexed).map(file =>
+        generateCollectionEntityName(file, this.sourceConfig),
+      ),
+      ...this.getIndexedAutomationContent(indexed).map(content =>
+        generateAutomationContentEntityName(content, this.sourceConfig),
+      ),
+    ]);
+  }
+
+  /** Entity names of the content provided by all the indexed repositories. */
+  private getProvidedEntityNames(): Set<string> {
+    const names = new Set<string>();
+    for (const indexed of this.repositoryIndex.values()) {
+      for (const name of this.getIndexedEntityNames(indexed)) {
+        names.add(name);
+      }
+    }
+    return names;
+  }
+
   startSync(): { started: boolean; skipped: boolean; error?: string } {
     if (this.isSyncing) {
       return { started: false, skipped: true };
@@ -238,12 +520,32 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     await this.scheduleFn();
   }
 
-  async run(signal?: AbortSignal): Promise<boolean> {
+  async run(
+    signal?: AbortSignal,
+    trigger: SyncTrigger = 'manual',
+  ): Promise<boolean> {
     if (!this.connection) {
       throw new NotFoundError('Provider not initialized - not connected');
     }
 
+    this.runningSync = this.syncAll(signal, trigger);
+    try {
+      return await this.runningSync;
+    } finally {
+      this.runningSync = undefined;
+    }
+  }
+
+  private async syncAll(
+    signal: AbortSignal | undefined,
+    trigger: SyncTrigger,
+  ): Promise<boolean> {
     this.isSyncing = true;
+    const finish = await startSyncRun(this.syncHistory, this.logger, {
+      providerName: this.getProviderName(),
+      sourceId: this.sourceId,
+      trigger,
+    });
     this.logger.info(
       `[${AnsibleGitContentsProvider.pluginLogName}]: Starting collection discovery for ${this.sourceId}`,
     );
@@ -252,12 +554,25 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     let success = true;
 
     try {
-      const { collectionCount, repositoryCount } =
+      const { collectionCount, automationContentCount, repositoryCount } =
         await this.discoverAndSyncCollections(signal);
-      this.updateSyncMetrics(collectionCount, startTime, repositoryCount);
+      this.updateSyncMetrics(
+        collectionCount,
+        startTime,
+        repositoryCount,
+        automationContentCount,
+      );
+      await finish({
+        outcome: 'success',
+        counts: {
+          collections: collectionCount,
+          automationContent: automationContentCount,
+          repositories: repositoryCount,
+        },
+      });
     } catch (e: unknown) {
       success = false;
-      this.handleSyncError(e);
+      await finish({ outcome: 'failure', error: this.handleSyncError(e) });
     } finally {
       this.isSyncing = false;
     }
@@ -265,19 +580,16 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     return success;
   }
 
-  private async discoverAndSyncCollections(
-    signal?: AbortSignal,
-  ): Promise<{ collectionCount: number; repositoryCount: number }> {
+  private async discoverAndSyncCollections(signal?: AbortSignal): Promise<{
+    collectionCount: number;
+    automationContentCount: number;
+    repositoryCount: number;
+  }> {
     const allEntities: Entity[] = [];
     const seenCollectionKeys = new Set<string>();
-    const repositoryData = new Map<
-      string,
-      {
-        repo: DiscoveredGalaxyFile['repository'];
-        count: number;
-        collectionEntityNames: string[];
-      }
-    >();
+    const seenContentNames = new Set<string>();
+    const repositoryData = new Map<string, RepositoryEntry>();
+    const repositoryIndex = new Map<string, IndexedRepository>();
 
     const repos = await this.crawler.getRepositories(signal);
     this.logger.info(
@@ -304,8 +616,10 @@ export class AnsibleGitContentsProvider implements EntityProvider {
         batchRepos,
         batchIndex,
         seenCollectionKeys,
+        seenContentNames,
         repositoryData,
         allEntities,
+        repositoryIndex,
         signal,
       );
     }
@@ -318,9 +632,15 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     );
 
     await this.applyFinalMutation(allEntities, repositoryEntities.length);
+    this.repositoryIndex = repositoryIndex;
 
+    const collectionCount = allEntities.filter(
+      entity => entity.spec?.type === 'ansible-collection',
+    ).length;
     return {
-      collectionCount: allEntities.length - repositoryEntities.length,
+      collectionCount,
+      automationContentCount:
+        allEntities.length - repositoryEntities.length - collectionCount,
       repositoryCount: repositoryEntities.length,
     };
   }
@@ -354,15 +674,10 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     batchRepos: Awaited<ReturnType<typeof this.crawler.getRepositories>>,
     batchIndex: number,
     seenCollectionKeys: Set<string>,
-    repositoryData: Map<
-      string,
-      {
-        repo: DiscoveredGalaxyFile['repository'];
-        count: number;
-        collectionEntityNames: string[];
-      }
-    >,
+    seenContentNames: Set<string>,
+    repositoryData: Map<string, RepositoryEntry>,
     allEntities: Entity[],
+    repositoryIndex: Map<string, IndexedRepository>,
     signal?: AbortSignal,
   ): Promise<void> {
     try {
@@ -372,26 +687,41 @@ export class AnsibleGitContentsProvider implements EntityProvider {
         );
       }
 
-      const galaxyFiles = await this.crawler.discoverGalaxyFilesInRepos(
-        batchRepos,
-        {
-          branches: this.sourceConfig.branches,
-          tags: this.sourceConfig.tags,
-          galaxyFilePaths: this.sourceConfig.galaxyFilePaths,
-          crawlDepth: this.sourceConfig.crawlDepth || DEFAULT_CRAWL_DEPTH,
-        },
-        signal,
-      );
+      const { galaxyFiles, automationContent } =
+        await this.crawler.discoverContentInRepos(
+          batchRepos,
+          this.getDiscoveryOptions(),
+          signal,
+        );
+      for (const repo of batchRepos) {
+        const indexed: IndexedRepository = { repo, refs: new Map() };
+        const inRepo = (content: { repository: RepositoryInfo }) =>
+          repositoryIndexKey(content.repository) === repositoryIndexKey(repo);
+        this.indexContent(indexed, {
+          galaxyFiles: galaxyFiles.filter(inRepo),
+          automationContent: automationContent.filter(inRepo),
+        });
+        repositoryIndex.set(repositoryIndexKey(repo), indexed);
+      }
 
       const uniqueInBatch = this.deduplicateCollectionsWithSet(
         galaxyFiles,
         seenCollectionKeys,
       );
+      const uniqueContentInBatch = this.deduplicateAutomationContent(
+        automationContent,
+        seenContentNames,
+      );
 
-      this.updateRepositoryData(uniqueInBatch, repositoryData);
+      this.updateRepositoryData(
+        uniqueInBatch,
+        uniqueContentInBatch,
+        repositoryData,
+      );
 
       await this.applyBatchEntities(
         uniqueInBatch,
+        uniqueContentInBatch,
         galaxyFiles.length,
         batchIndex,
         allEntities,
@@ -407,53 +737,57 @@ export class AnsibleGitContentsProvider implements EntityProvider {
 
   private updateRepositoryData(
     uniqueFiles: DiscoveredGalaxyFile[],
-    repositoryData: Map<
-      string,
-      {
-        repo: DiscoveredGalaxyFile['repository'];
-        count: number;
-        collectionEntityNames: string[];
-      }
-    >,
+    uniqueContent: DiscoveredAutomationContent[],
+    repositoryData: Map<string, RepositoryEntry>,
   ): void {
+    const getEntry = (repo: RepositoryInfo) => {
+      const repoKey = createRepositoryKey(repo, this.sourceConfig);
+      const entry = repositoryData.get(repoKey) ?? {
+        repo,
+        count: 0,
+        collectionEntityNames: [],
+        contentEntityNames: [],
+      };
+      repositoryData.set(repoKey, entry);
+      return entry;
+    };
+
     for (const file of uniqueFiles) {
-      const repoKey = createRepositoryKey(file.repository, this.sourceConfig);
-      const collectionEntityName = generateCollectionEntityName(
-        file,
-        this.sourceConfig,
+      const entry = getEntry(file.repository);
+      entry.count++;
+      entry.collectionEntityNames.push(
+        generateCollectionEntityName(file, this.sourceConfig),
+      );
+    }
+    for (const content of uniqueContent) {
+      getEntry(content.repository).contentEntityNames.push(
+        generateAutomationContentEntityName(content, this.sourceConfig),
       );
-      const existing = repositoryData.get(repoKey);
-      if (existing) {
-        existing.count++;
-        existing.collectionEntityNames.push(collectionEntityName);
-      } else {
-        repositoryData.set(repoKey, {
-          repo: file.repository,
-          count: 1,
-          collectionEntityNames: [collectionEntityName],
-        });
-      }
     }
   }
 
   private async applyBatchEntities(
     uniqueInBatch: DiscoveredGalaxyFile[],
+    uniqueContentInBatch: DiscoveredAutomationContent[],
     totalGalaxyFiles: number,
     batchIndex: number,
     allEntities: Entity[],
   ): Promise<void> {
-    if (uniqueInBatch.length === 0) {
+    if (uniqueInBatch.length === 0 && uniqueContentInBatch.length === 0) {
       this.logger.info(
-        `[${AnsibleGitContentsProvider.pluginLogName}]: Batch ${batchIndex + 1} found no unique collections`,
+        `[${AnsibleGitContentsProvider.pluginLogName}]: Batch ${batchIndex + 1} found no unique collections or automation content`,
       );
       return;
     }
 
-    const batchEntities = this.convertToEntities(uniqueInBatch);
+    const batchEntities = [
+      ...this.convertToEntities(uniqueInBatch),
+      ...this.convertAutomationContentToEntities(uniqueContentInBatch),
+    ];
     allEntities.push(...batchEntities);
 
     this.logger.info(
-      `[${AnsibleGitContentsProvider.pluginLogName}]: Batch ${batchIndex + 1} found ${totalGalaxyFiles} galaxy files, ${uniqueInBatch.length} unique collections`,
+      `[${AnsibleGitContentsProvider.pluginLogName}]: Batch ${batchIndex + 1} found ${totalGalaxyFiles} galaxy files, ${uniqueInBatch.length} unique collections, ${uniqueContentInBatch.length} roles, playbook projects and rulebooks`,
     );
 
     await this.connection!.applyMutation({
@@ -466,7 +800,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     });
 
     this.logger.info(
-      `[${AnsibleGitContentsProvider.pluginLogName}]: Added ${batchEntities.length} collections from batch ${batchIndex + 1}`,
+      `[${AnsibleGitContentsProvider.pluginLogName}]: Added ${batchEntities.length} entities from batch ${batchIndex + 1}`,
     );
   }
 
@@ -475,7 +809,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     repositoryCount: number,
   ): Promise<void> {
     this.logger.info(
-      `[${AnsibleGitContentsProvider.pluginLogName}]: Applying final reconciliation with ${allEntities.length} total entities (${allEntities.length - repositoryCount} collections + ${repositoryCount} repositories)`,
+      `[${AnsibleGitContentsProvider.pluginLogName}]: Applying final reconciliation with ${allEntities.length} total entities (${allEntities.length - repositoryCount} collections and automation content + ${repositoryCount} repositories)`,
     );
 
     await this.connection!.applyMutation({
@@ -491,6 +825,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     collectionCount: number,
     startTime: number,
     repositoryCount: number,
+    automationContentCount: number,
   ): void {
     const previousCollectionCount = this.lastSyncCollections;
 
@@ -509,11 +844,11 @@ export class AnsibleGitContentsProvider implements EntityProvider {
         ? `+${this.lastSyncNewCollections}`
         : `${this.lastSyncNewCollections}`;
     this.logger.info(
-      `[${AnsibleGitContentsProvider.pluginLogName}]: Successfully synced ${this.lastSyncCollections} collections (${deltaStr} new) and ${repositoryCount} repositories from ${this.sourceId} in ${duration}ms`,
+      `[${AnsibleGitContentsProvider.pluginLogName}]: Successfully synced ${this.lastSyncCollections} collections (${deltaStr} new), ${automationContentCount} roles, playbook projects and rulebooks and ${repositoryCount} repositories from ${this.sourceId} in ${duration}ms`,
     );
   }
 
-  private handleSyncError(e: unknown): void {
+  private handleSyncError(e: unknown): string {
     let errorMessage: string;
     if (e instanceof Error) {
       errorMessage = e.message;
@@ -534,6 +869,7 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     this.logger.error(
       `[${AnsibleGitContentsProvider.pluginLogName}]: ${logMessage}`,
     );
+    return errorMessage;
   }
 
   private deduplicateCollectionsWithSet(
@@ -572,6 +908,26 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     return unique;
   }
 
+  private deduplicateAutomationContent(
+    automationContent: DiscoveredAutomationContent[],
+    seenNames: Set<string>,
+  ): DiscoveredAutomationContent[] {
+    return automationContent.filter(content => {
+      const name = generateAutomationContentEntityName(
+        content,
+        this.sourceConfig,
+      );
+      if (seenNames.has(name)) {
+        this.logger.info(
+          `[${AnsibleGitContentsProvider.pluginLogName}]: Skipped duplicate ${content.kind} ${name} (found at ${content.repository.fullPath}/${content.path}@${content.ref})`,
+        );
+        return false;
+      }
+      seenNames.add(name);
+      return true;
+    });
+  }
+
   private convertToEntities(galaxyFiles: DiscoveredGalaxyFile[]): Entity[] {
     const entities: Entity[] = [];
 
@@ -600,25 +956,49 @@ export class AnsibleGitContentsProvider implements EntityProvider {
     return entities;
   }
 
-  private createRepositoryEntities(
-    repositoryData: Map<
-      string,
-      {
-        repo: DiscoveredGalaxyFile['repository'];
-        count: number;
-        collectionEntityNames: string[];
+  private convertAutomationContentToEntities(
+    automationContent: DiscoveredAutomationContent[],
+  ): Entity[] {
+    const entities: Entity[] = [];
+
+    for (const content of automationContent) {
+      try {
+        // a trailing slash makes the clients link the directory itself
+        const sourceLocation = this.crawler.buildSourceLocation(
+          content.repository,
+          content.ref,
+          content.kind === 'rulebook' ? content.path : `${content.path}/`,
+        );
+
+        entities.push(
+          automationContentParser({
+            content,
+            sourceConfig: this.sourceConfig,
+            sourceLocation,
+          }),
+        );
+      } catch (e) {
+        this.logger.warn(
+          `[${AnsibleGitContentsProvider.pluginLogName}]: Failed to convert ${content.kind} ${content.repository.fullPath}/${content.path}: ${e}`,
+        );
       }
-    >,
+    }
+
+    return entities;
+  }
+
+  private createRepositoryEntities(
+    repositoryData: Map<string, RepositoryEntry>,
   ): Entity[] {
     const entities: Entity[] = [];
 
-    for (const [, { repo, count, collectionEntityNames }] of repositoryData) {
+    for (const { repo, count, ...entityNames } of repositoryData.values()) {
       try {
         const entity = repositoryParser({
           repository: repo,
           sourceConfig: this.sourceConfig,
           collectionCount: count,
-          collectionEntityNames,
+          ...entityNames,
         });
         entities.push(entity);
       } catch (e) {
@@ -6,6 +6,7 @@ import {
 import { mockServices } from '@backstage/backend-test-utils';
 import { EntityProviderConnection } from '@backstage/plugin-catalog-node';
 import { PAHCollectionProvider } from './PAHCollectionProvider';
+import type { SyncHistoryStore } from '../syncHistory';
 import { mockAnsibleService } from '../mock/mockIAAPService';
 import { Collection } from '@ansible/backstage-rhaap-common';
 
@@ -575,6 +576,77 @@ describe('PAHCollectionProvider', () => {
     });
   });
 
+  describe('sync history', () => {
+    const createProvider = (syncHistory: object) =>
+      PAHCollectionProvider.fromConfig(
+        new ConfigReader(MOCK_PAH_CONFIG),
+        mockAnsibleService,
+        {
+          logger: mockServices.logger.mock(),
+          schedule: mockTaskRunner,
+          syncHistory: syncHistory as SyncHistoryStore,
+        },
+      )[0];
+
+    it('should record the successful runs with the number of collections', async () => {
+      const syncHistory = {
+        start: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        finish: jest.fn(),
+      };
+      const provider = createProvider(syncHistory);
+      await provider.connect(mockConnection);
+      mockAnsibleService.syncCollectionsByRepositories.mockResolvedValue([
+        MOCK_COLLECTION,
+      ]);
+
+      await provider.run();
+
+      expect(syncHistory.start).toHaveBeenCalledWith({
+        providerName: 'PAHCollectionProvider:development:validated',
+        sourceId: 'development:pah:validated',
+        trigger: 'manual',
+      });
+      expect(syncHistory.finish).toHaveBeenCalledWith('run-1', {
+        outcome: 'success',
+        counts: { collections: 1 },
+      });
+    });
+
+    it('should record the failed and aborted runs', async () => {
+      const syncHistory = {
+        start: jest.fn().mockResolvedValue({ id: 'run-1' }),
+        finish: jest.fn(),
+      };
+      const provider = createProvider(syncHistory);
+      await provider.connect(mockConnection);
+
+      mockAnsibleService.syncCollectionsByRepositories.mockRejectedValueOnce(
+        new Error('PAH unavailable'),
+      );
+      await provider.run(undefined, 'schedule');
+      expect(syncHistory.start).toHaveBeenLastCalledWith(
+        expect.objectContaining({ trigger: 'schedule' }),
+      );
+      expect(syncHistory.finish).toHaveBeenLastCalledWith('run-1', {
+        outcome: 'failure',
+        error: 'PAH unavailable',
+      });
+
+      const controller = new AbortController();
+      mockAnsibleService.syncCollectionsByRepositories.mockImplementationOnce(
+        async () => {
+          controller.abort();
+          return [MOCK_COLLECTION];
+        },
+      );
+      await provider.run(controller.signal);
+      expect(syncHistory.finish).toHaveBeenLastCalledWith('run-1', {
+        outcome: 'failure',
+        error: 'Sync aborted before the catalog was updated',
+      });
+    });
+  });
+
   describe('connect', () => {
     it('should store connection and schedule task', async () => {
       const config = new ConfigReader(MOCK_PAH_CONFIG);
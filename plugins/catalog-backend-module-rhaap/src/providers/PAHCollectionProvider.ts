@@ -13,17 +13,20 @@ import type { Config } from '@backstage/config';
 import { readAapApiEntityConfigs } from './config';
 import { InputError, isError } from '@backstage/errors';
 import { AapConfig, type PAHRepositoryConfig } from './types';
+import { SyncHistoryStore, SyncTrigger, startSyncRun } from '../syncHistory';
 import { IAAPService } from '@ansible/backstage-rhaap-common';
-import { pahCollectionParser } from './entityParser';
+import { pahCollectionParser, setAAPInstance } from './entityParser';
 import { Entity } from '@backstage/catalog-model';
 
 export class PAHCollectionProvider implements EntityProvider {
   private readonly env: string;
   private readonly baseUrl: string;
+  private readonly instance?: string;
   private readonly pahRepositoryName: string;
   private readonly logger: LoggerService;
   private readonly ansibleServiceRef: IAAPService;
   private readonly scheduleFn: () => Promise<void>;
+  private readonly syncHistory?: SyncHistoryStore;
   private connection?: EntityProviderConnection;
   private lastSyncTime: string | null = null;
   private lastFailedSyncTime: string | null = null;
@@ -43,6 +46,7 @@ export class PAHCollectionProvider implements EntityProvider {
       logger: LoggerService;
       schedule?: SchedulerServiceTaskRunner;
       scheduler?: SchedulerService;
+      syncHistory?: SyncHistoryStore;
     },
   ): PAHCollectionProvider[] {
     const { logger } = options;
@@ -92,6 +96,7 @@ export class PAHCollectionProvider implements EntityProvider {
         logger,
         taskRunner,
         ansibleServiceRef,
+        options.syncHistory,
       );
     });
   }
@@ -102,6 +107,7 @@ export class PAHCollectionProvider implements EntityProvider {
     logger: LoggerService,
     taskRunner: SchedulerServiceTaskRunner,
     ansibleServiceRef: IAAPService,
+    syncHistory?: SyncHistoryStore,
   ) {
     this.env = config.id;
     this.baseUrl = config.baseUrl;
@@ -109,7 +115,11 @@ export class PAHCollectionProvider implements EntityProvider {
     this.logger = logger.child({
       target: this.getProviderName(),
     });
-    this.ansibleServiceRef = ansibleServiceRef;
+    this.instance = config.instance;
+    this.ansibleServiceRef = this.instance
+      ? ansibleServiceRef.forInstance(this.instance)
+      : ansibleServiceRef;
+    this.syncHistory = syncHistory;
     this.scheduleFn = this.createScheduleFn(taskRunner);
     this.logger.info(
       `[${PAHCollectionProvider.pluginLogName}]: Provider created for PAH Repository: ${this.pahRepositoryName} with configId: ${this.env}`,
@@ -195,7 +205,7 @@ export class PAHCollectionProvider implements EntityProvider {
         id: taskId,
         fn: async (signal: AbortSignal) => {
           try {
-            await this.run(signal);
+            await this.run(signal, 'schedule');
           } catch (error) {
             if (isError(error)) {
               // Ensure that we don't log any sensitive internal data
@@ -218,6 +228,7 @@ export class PAHCollectionProvider implements EntityProvider {
 
   async run(
     signal?: AbortSignal,
+    trigger: SyncTrigger = 'manual',
   ): Promise<{ success: boolean; collectionsCount: number }> {
     if (!this.connection) {
       throw new Error('PAHCollectionProvider not connected');
@@ -228,6 +239,11 @@ export class PAHCollectionProvider implements EntityProvider {
     }
 
     this.isSyncing = true;
+    const finish = await startSyncRun(this.syncHistory, this.logger, {
+      providerName: this.getProviderName(),
+      sourceId: this.getSourceId(),
+      trigger,
+    });
     try {
       this.logger.info(
         `[${this.getProviderName()}]: Starting PAH collections sync for repository: ${
@@ -254,6 +270,10 @@ export class PAHCollectionProvider implements EntityProvider {
         this.logger.info(
           `[${this.getProviderName()}]: Sync aborted after fetching collections, skipping catalog mutation`,
         );
+        await finish({
+          outcome: 'failure',
+          error: 'Sync aborted before the catalog was updated',
+        });
         return { success: false, collectionsCount: 0 };
       }
 
@@ -271,7 +291,7 @@ export class PAHCollectionProvider implements EntityProvider {
       await this.connection.applyMutation({
         type: 'full',
         entities: entities.map(entity => ({
-          entity,
+          entity: setAAPInstance(entity, this.instance),
           locationKey: this.getProviderName(),
         })),
       });
@@ -284,6 +304,10 @@ export class PAHCollectionProvider implements EntityProvider {
       this.lastSyncStatus = 'success';
       this.previousCollectionsCount = this.currentCollectionsCount;
       this.currentCollectionsCount = collectionsCount;
+      await finish({
+        outcome: 'success',
+        counts: { collections: collectionsCount },
+      });
 
       return { success: true, collectionsCount };
     } catch (e: any) {
@@ -294,6 +318,7 @@ export class PAHCollectionProvider implements EntityProvider {
       );
       this.lastFailedSyncTime = new Date().toISOString();
       this.lastSyncStatus = 'failure';
+      await finish({ outcome: 'failure', error: e?.message ?? `${e}` });
       return { success: false, collectionsCount: 0 };
     } finally {
       this.isSyncing = false;
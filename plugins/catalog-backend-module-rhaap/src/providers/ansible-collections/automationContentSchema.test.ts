@@ -0,0 +1,201 @@
+import {
+  validatePlaybook,
+  validateRequirements,
+  validateRoleMeta,
+  validateRulebook,
+} from './automationContentSchema';
+
+describe('automationContentSchema', () => {
+  describe('validateRoleMeta', () => {
+    it('should parse the galaxy info and dependencies of a role', () => {
+      const result = validateRoleMeta(
+        {
+          galaxy_info: {
+            role_name: 'webserver',
+            namespace: 'acme',
+            author: 'Platform Team',
+            description: 'Installs nginx',
+            license: 'MIT',
+            min_ansible_version: 2.15,
+            platforms: [{ name: 'EL', versions: [8, '9'] }, { name: 'Ubuntu' }],
+            galaxy_tags: ['web', 'nginx'],
+          },
+          dependencies: [
+            'acme.common',
+            { role: 'acme.firewall', vars: { port: 443 } },
+            { src: 'https://git.example.com/roles/tls.git' },
+          ],
+        },
+        'nginx',
+      );
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          name: 'webserver',
+          namespace: 'acme',
+          author: 'Platform Team',
+          description: 'Installs nginx',
+          license: 'MIT',
+          minAnsibleVersion: '2.15',
+          platforms: [
+            { name: 'EL', versions: ['8', '9'] },
+            { name: 'Ubuntu', versions: [] },
+          ],
+          galaxyTags: ['web', 'nginx'],
+          dependencies: [
+            'acme.common',
+            'acme.firewall',
+            'https://git.example.com/roles/tls.git',
+          ],
+        },
+      });
+    });
+
+    it('should name roles without role_name after their directory', () => {
+      const result = validateRoleMeta({ dependencies: [] }, 'nginx');
+
+      expect(result.success && result.data.name).toBe('nginx');
+    });
+
+    it('should reject content that is not a mapping', () => {
+      expect(validateRoleMeta(['a'], 'nginx').success).toBe(false);
+      expect(validateRoleMeta(null, 'nginx').success).toBe(false);
+      expect(
+        validateRoleMeta({ galaxy_info: { platforms: 'EL' } }, 'nginx'),
+      ).toEqual({
+        success: false,
+        errors: [expect.stringContaining('galaxy_info.platforms')],
+      });
+    });
+  });
+
+  describe('validatePlaybook', () => {
+    it('should list the plays, hosts and imports of a playbook', () => {
+      const result = validatePlaybook(
+        [
+          { name: 'Configure web servers', hosts: 'web', tasks: [] },
+          { name: 'Configure databases', hosts: ['db', 'web'], roles: [] },
+          { import_playbook: 'monitoring.yml' },
+          { 'ansible.builtin.import_playbook': 'backup.yml' },
+        ],
+        'site.yml',
+      );
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          path: 'site.yml',
+          plays: ['Configure web servers', 'Configure databases'],
+          hosts: ['web', 'db'],
+          imports: ['monitoring.yml', 'backup.yml'],
+        },
+      });
+    });
+
+    it('should reject files that are not playbooks', () => {
+      expect(
+        validatePlaybook({ site_name: 'docs' }, 'mkdocs.yml').success,
+      ).toBe(false);
+      expect(validatePlaybook([], 'empty.yml').success).toBe(false);
+      expect(validatePlaybook([{ name: 'no hosts' }], 'vars.yml').success).toBe(
+        false,
+      );
+    });
+
+    it('should reject rulebooks', () => {
+      expect(
+        validatePlaybook(
+          [{ name: 'Listen', hosts: 'all', sources: [], rules: [] }],
+          'rulebook.yml',
+        ).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('validateRequirements', () => {
+    it('should list the required collections and roles', () => {
+      const result = validateRequirements({
+        collections: [
+          'community.general',
+          { name: 'ansible.posix', version: '>=1.5.0' },
+          { name: 'acme.internal', version: 2 },
+        ],
+        roles: [{ src: 'geerlingguy.java' }, { name: 'acme.base' }],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          collections: [
+            { name: 'community.general' },
+            { name: 'ansible.posix', version: '>=1.5.0' },
+            { name: 'acme.internal', version: '2' },
+          ],
+          roles: [{ name: 'geerlingguy.java' }, { name: 'acme.base' }],
+        },
+      });
+    });
+
+    it('should reject content that is not a requirements file', () => {
+      expect(validateRequirements(['community.general']).success).toBe(false);
+    });
+  });
+
+  describe('validateRulebook', () => {
+    it('should list the rulesets and their sources', () => {
+      const result = validateRulebook(
+        [
+          {
+            name: 'Respond to alerts',
+            hosts: 'all',
+            sources: [
+              {
+                name: 'alertmanager',
+                'ansible.eda.alertmanager': { host: '0.0.0.0', port: 5000 },
+                filters: [{ 'ansible.eda.dashes_to_underscores': null }],
+              },
+              { 'ansible.eda.webhook': { port: 5001 } },
+            ],
+            rules: [
+              {
+                name: 'Restart service',
+                condition: 'event.alert.status == "firing"',
+                action: { run_job_template: { name: 'restart' } },
+              },
+            ],
+          },
+        ],
+        'alerts',
+      );
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          name: 'alerts',
+          rulesets: [
+            {
+              name: 'Respond to alerts',
+              hosts: ['all'],
+              sources: ['ansible.eda.alertmanager', 'ansible.eda.webhook'],
+              ruleCount: 1,
+            },
+          ],
+        },
+      });
+    });
+
+    it('should reject rulesets without sources or rules', () => {
+      expect(
+        validateRulebook(
+          [{ name: 'No rules', hosts: 'all', sources: [{ range: {} }] }],
+          'broken',
+        ).success,
+      ).toBe(false);
+      expect(
+        validateRulebook([{ name: 'Play', hosts: 'all', tasks: [] }], 'site')
+          .success,
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import type {
+  PlaybookMetadata,
+  RequirementMetadata,
+  RoleMetadata,
+  RulebookMetadata,
+} from '../types';
+
+// versions and platform releases are often written as YAML numbers
+const stringish = z.union([z.string(), z.number()]).transform(String);
+
+const roleDependencySchema = z.union([
+  z.string(),
+  z
+    .object({
+      role: z.string().nullish(),
+      name: z.string().nullish(),
+      src: z.string().nullish(),
+    })
+    .passthrough(),
+]);
+
+export const roleMetaSchema = z.object({
+  galaxy_info: z
+    .object({
+      role_name: z.string().nullish(),
+      namespace: z.string().nullish(),
+      author: z.string().nullish(),
+      description: z.string().nullish(),
+      license: z.union([z.string(), z.array(z.string())]).nullish(),
+      min_ansible_version: stringish.nullish(),
+      platforms: z
+        .array(
+          z.object({
+            name: z.string(),
+            versions: z.array(stringish).nullish(),
+          }),
+        )
+        .nullish(),
+      galaxy_tags: z.array(z.string()).nullish(),
+    })
+    .passthrough()
+    .nullish(),
+  dependencies: z.array(roleDependencySchema).nullish(),
+});
+
+const playSchema = z
+  .object({
+    name: z.string().nullish(),
+    hosts: z.union([z.string(), z.array(z.string())]).nullish(),
+    import_playbook: z.string().nullish(),
+    'ansible.builtin.import_playbook': z.string().nullish(),
+  })
+  .passthrough()
+  .refine(play => !('rules' in play), 'a play cannot have rules')
+  .refine(
+    play =>
+      Boolean(
+        play.hosts ||
+          play.import_playbook ||
+          play['ansible.builtin.import_playbook'],
+      ),
+    'a play needs hosts or import_playbook',
+  );
+
+export const playbookSchema = z.array(playSchema).min(1);
+
+const requirementSchema = z.union([
+  z.string(),
+  z
+    .object({
+      name: z.string().nullish(),
+      src: z.string().nullish(),
+      version: stringish.nullish(),
+    })
+    .passthrough(),
+]);
+
+export const requirementsSchema = z.object({
+  collections: z.array(requirementSchema).nullish(),
+  roles: z.array(requirementSchema).nullish(),
+});
+
+const rulesetSchema = z
+  .object({
+    name: z.string().min(1, 'name is required'),
+    hosts: z.union([z.string(), z.array(z.string())]),
+    sources: z.array(z.record(z.string(), z.unknown())).min(1),
+    rules: z.array(z.unknown()).min(1),
+  })
+  .passthrough();
+
+export const rulebookSchema = z.array(rulesetSchema).min(1);
+
+export type ContentValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+function toErrors(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+function toList(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  return typeof value === 'string' ? [value] : value;
+}
+
+function requirementName(
+  requirement: z.infer<typeof requirementSchema>,
+): RequirementMetadata | undefined {
+  if (typeof requirement === 'string') {
+    return { name: requirement };
+  }
+  const name = requirement.name ?? requirement.src;
+  if (!name) {
+    return undefined;
+  }
+  return requirement.version
+    ? { name, version: requirement.version }
+    : { name };
+}
+
+/**
+ * Validates a role `meta/main.yml`. Roles without a `role_name` are named
+ * `fallbackName`, the name of their directory.
+ */
+export function validateRoleMeta(
+  content: unknown,
+  fallbackName: string,
+): ContentValidationResult<RoleMetadata> {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return {
+      success: false,
+      errors: ['meta/main.yml content is empty or not a valid object'],
+    };
+  }
+
+  const result = roleMetaSchema.safeParse(content);
+  if (!result.success) {
+    return { success: false, errors: toErrors(result.error) };
+  }
+
+  const info = result.data.galaxy_info;
+  const dependencies = (result.data.dependencies ?? [])
+    .map(dependency =>
+      typeof dependency === 'string'
+        ? dependency
+        : (dependency.role ?? dependency.name ?? dependency.src),
+    )
+    .filter((name): name is string => Boolean(name));
+
+  return {
+    success: true,
+    data: {
+      name: info?.role_name || fallbackName,
+      namespace: info?.namespace ?? undefined,
+      author: info?.author ?? undefined,
+      description: info?.description ?? undefined,
+      license: info?.license ?? undefined,
+      minAnsibleVersion: info?.min_ansible_version ?? undefined,
+      platforms: (info?.platforms ?? []).map(platform => ({
+        name: platform.name,
+        versions: platform.versions ?? [],
+      })),
+      galaxyTags: info?.galaxy_tags ?? [],
+      dependencies,
+    },
+  };
+}
+
+/** Validates a playbook, a list of plays or playbook imports. */
+export function validatePlaybook(
+  content: unknown,
+  path: string,
+): ContentValidationResult<PlaybookMetadata> {
+  const result = playbookSchema.safeParse(content);
+  if (!result.success) {
+    return { success: false, errors: toErrors(result.error) };
+  }
+
+  const plays = result.data;
+  return {
+    success: true,
+    data: {
+      path,
+      plays: plays
+        .map(play => play.name)
+        .filter((name): name is string => Boolean(name)),
+      hosts: [...new Set(plays.flatMap(play => toList(play.hosts)))],
+      imports: plays
+        .map(
+          play =>
+            play.import_playbook ?? play['ansible.builtin.import_playbook'],
+        )
+        .filter((name): name is string => Boolean(name)),
+    },
+  };
+}
+
+/** Validates a `requirements.yml` of collections and roles. */
+export function validateRequirements(
+  content: unknown,
+): ContentValidationResult<{
+  collections: RequirementMetadata[];
+  roles: RequirementMetadata[];
+}> {
+  const result = requirementsSchema.safeParse(content);
+  if (!result.success) {
+    return { success: false, errors: toErrors(result.error) };
+  }
+
+  const names = (
+    requirements?: Array<z.infer<typeof requirementSchema>> | null,
+  ) =>
+    (requirements ?? [])
+      .map(requirementName)
+      .filter((requirement): requirement is RequirementMetadata =>
+        Boolean(requirement),
+      );
+
+  return {
+    success: true,
+    data: {
+      collections: names(result.data.collections),
+      roles: names(result.data.roles),
+    },
+  };
+}
+
+/**
+ * Validates an Event-Driven Ansible rulebook, a list of rulesets. The sources
+ * of a ruleset are named by their plugin, e.g. `ansible.eda.webhook`.
+ */
+export function validateRulebook(
+  content: unknown,
+  name: string,
+): ContentValidationResult<RulebookMetadata> {
+  const result = rulebookSchema.safeParse(content);
+  if (!result.success) {
+    return { success: false, errors: toErrors(result.error) };
+  }
+
+  return {
+    success: true,
+    data: {
+      name,
+      rulesets: result.data.map(ruleset => ({
+        name: ruleset.name,
+        hosts: toList(ruleset.hosts),
+        sources: ruleset.sources.flatMap(source =>
+          Object.keys(source).filter(
+            key => key !== 'name' && key !== 'filters',
+          ),
+        ),
+        ruleCount: ruleset.rules.length,
+      })),
+    },
+  };
+}
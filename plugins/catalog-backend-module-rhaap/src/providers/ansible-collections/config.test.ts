@@ -167,6 +167,63 @@ describe('config', () => {
       });
     });
 
+    it('should parse bitbucket and gitea provider configs', () => {
+      const config = new ConfigReader({
+        catalog: {
+          providers: {
+            rhaap: {
+              development: {
+                sync: {
+                  ansibleGitContents: {
+                    enabled: true,
+                    schedule: {
+                      frequency: { minutes: 60 },
+                      timeout: { minutes: 15 },
+                    },
+                    providers: {
+                      bitbucket: [
+                        {
+                          name: 'bitbucket-dc',
+                          host: 'bitbucket.example.com',
+                          orgs: [{ name: 'ANS' }],
+                        },
+                      ],
+                      gitea: [
+                        {
+                          name: 'gitea',
+                          host: 'gitea.example.com',
+                          checkSSL: false,
+                          orgs: [{ name: 'ansible', tags: ['v*'] }],
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      const result = readAnsibleGitContentsConfigs(config);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        scmProvider: 'bitbucket',
+        hostName: 'bitbucket-dc',
+        host: 'bitbucket.example.com',
+        organization: 'ANS',
+      });
+      expect(result[1]).toMatchObject({
+        scmProvider: 'gitea',
+        hostName: 'gitea',
+        host: 'gitea.example.com',
+        organization: 'ansible',
+        checkSSL: false,
+        tags: ['v*'],
+      });
+    });
+
     it('should parse multiple orgs under one host', () => {
       const config = new ConfigReader({
         catalog: {
@@ -504,5 +561,9 @@ describe('config', () => {
     it('should return gitlab.com for gitlab provider', () => {
       expect(getDefaultHost('gitlab')).toBe('gitlab.com');
     });
+
+    it('should return gitea.com for gitea provider', () => {
+      expect(getDefaultHost('gitea')).toBe('gitea.com');
+    });
   });
 });
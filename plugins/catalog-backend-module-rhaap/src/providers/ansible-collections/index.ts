@@ -3,6 +3,12 @@ export {
   galaxySchema,
   hasRequiredFields,
 } from './galaxySchema';
+export {
+  validatePlaybook,
+  validateRequirements,
+  validateRoleMeta,
+  validateRulebook,
+} from './automationContentSchema';
 export {
   createCollectionIdentifier,
   createCollectionKey,
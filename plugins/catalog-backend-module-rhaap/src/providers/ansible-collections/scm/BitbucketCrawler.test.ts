@@ -0,0 +1,125 @@
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type {
+  ScmClient,
+  RepositoryInfo,
+  DirectoryEntry,
+} from '@ansible/backstage-rhaap-common';
+
+import { BitbucketCrawler } from './BitbucketCrawler';
+import type { AnsibleGitContentsSourceConfig } from '../../types';
+import * as galaxySchema from '../galaxySchema';
+
+jest.mock('../galaxySchema');
+
+describe('BitbucketCrawler', () => {
+  let mockLogger: jest.Mocked<LoggerService>;
+  let mockScmClient: jest.Mocked<ScmClient>;
+  let crawler: BitbucketCrawler;
+
+  const mockSourceConfig: AnsibleGitContentsSourceConfig = {
+    env: 'development',
+    scmProvider: 'bitbucket',
+    host: 'bitbucket.example.com',
+    hostName: 'bitbucket',
+    organization: 'ANS',
+    enabled: true,
+    schedule: { frequency: { minutes: 30 }, timeout: { minutes: 10 } },
+  };
+
+  const mockRepo: RepositoryInfo = {
+    name: 'collection',
+    fullPath: 'ANS/collection',
+    defaultBranch: 'main',
+    url: 'https://bitbucket.example.com/projects/ANS/repos/collection/browse',
+  };
+
+  const galaxyFileEntry: DirectoryEntry = {
+    name: 'galaxy.yml',
+    path: 'galaxy.yml',
+    type: 'file',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as unknown as jest.Mocked<LoggerService>;
+
+    mockScmClient = {
+      getSourceId: jest
+        .fn()
+        .mockReturnValue('bitbucket-bitbucket-example-com-ans'),
+      getRepositories: jest.fn().mockResolvedValue([mockRepo]),
+      getBranches: jest.fn().mockResolvedValue(['main', 'develop']),
+      getTags: jest.fn().mockResolvedValue(['v1.0.0', 'v2.0.0']),
+      getContents: jest.fn().mockResolvedValue([galaxyFileEntry]),
+      getFileContent: jest.fn().mockResolvedValue(`
+namespace: test_namespace
+name: test_collection
+version: 1.0.0
+`),
+      getHeadSha: jest.fn().mockResolvedValue('3f2a7c1e'),
+      buildSourceLocation: jest
+        .fn()
+        .mockReturnValue(
+          'url:https://bitbucket.example.com/projects/ANS/repos/collection/browse',
+        ),
+    } as unknown as jest.Mocked<ScmClient>;
+
+    (galaxySchema.validateGalaxyContent as jest.Mock).mockReturnValue({
+      success: true,
+      data: {
+        namespace: 'test_namespace',
+        name: 'test_collection',
+        version: '1.0.0',
+      },
+    });
+
+    crawler = new BitbucketCrawler({
+      sourceConfig: mockSourceConfig,
+      logger: mockLogger,
+      scmClient: mockScmClient,
+    });
+  });
+
+  describe('discoverGalaxyFiles', () => {
+    it('should discover galaxy files in all repositories', async () => {
+      const result = await crawler.discoverGalaxyFiles({ crawlDepth: 3 });
+
+      expect(mockScmClient.getRepositories).toHaveBeenCalled();
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        repository: mockRepo,
+        ref: 'main',
+        refType: 'branch',
+        path: 'galaxy.yml',
+        metadata: { namespace: 'test_namespace', name: 'test_collection' },
+      });
+    });
+
+    it('should log with the crawler name', async () => {
+      await crawler.discoverGalaxyFiles({ crawlDepth: 3 });
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[BitbucketCrawler] Starting galaxy.yml discovery in 1 repositories',
+      );
+    });
+  });
+
+  describe('discoverGalaxyFilesInRepos', () => {
+    it('should search tags when configured', async () => {
+      const result = await crawler.discoverGalaxyFilesInRepos([mockRepo], {
+        crawlDepth: 3,
+        tags: ['v1*'],
+      });
+
+      expect(mockScmClient.getTags).toHaveBeenCalledWith(mockRepo, undefined);
+      expect(result.map(file => file.ref)).toEqual(['main', 'v1.0.0']);
+    });
+  });
+});
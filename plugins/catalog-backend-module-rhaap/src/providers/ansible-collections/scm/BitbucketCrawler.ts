@@ -0,0 +1,7 @@
+import { BaseScmCrawler } from './ScmCrawler';
+
+export class BitbucketCrawler extends BaseScmCrawler {
+  protected getCrawlerName(): string {
+    return 'BitbucketCrawler';
+  }
+}
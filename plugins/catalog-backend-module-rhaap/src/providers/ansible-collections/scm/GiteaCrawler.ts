@@ -0,0 +1,7 @@
+import { BaseScmCrawler } from './ScmCrawler';
+
+export class GiteaCrawler extends BaseScmCrawler {
+  protected getCrawlerName(): string {
+    return 'GiteaCrawler';
+  }
+}
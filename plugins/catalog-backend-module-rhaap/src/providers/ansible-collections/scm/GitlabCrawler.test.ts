@@ -65,6 +65,7 @@ version: 1.0.0
       getTags: jest.fn().mockResolvedValue(['v1.0.0', 'v2.0.0']),
       getContents: jest.fn().mockResolvedValue([]),
       getFileContent: jest.fn().mockResolvedValue(validGalaxyYaml),
+      getHeadSha: jest.fn().mockResolvedValue('3f2a7c1e'),
       buildSourceLocation: jest
         .fn()
         .mockReturnValue('url:https://gitlab.com/test-group/test-project'),
@@ -2,6 +2,7 @@ import type { LoggerService } from '@backstage/backend-plugin-api';
 import type {
   ScmClient,
   RepositoryInfo,
+  DirectoryEntry,
 } from '@ansible/backstage-rhaap-common';
 
 import { BaseScmCrawler, DiscoveryOptions } from './ScmCrawler';
@@ -91,6 +92,7 @@ describe('BaseScmCrawler', () => {
       getTags: jest.fn().mockResolvedValue(['v1.0.0', 'v1.1.0', 'v2.0.0']),
       getContents: jest.fn().mockResolvedValue([]),
       getFileContent: jest.fn().mockResolvedValue('content'),
+      getHeadSha: jest.fn().mockResolvedValue('3f2a7c1e'),
       buildSourceLocation: jest.fn().mockReturnValue('url:https://example.com'),
     } as unknown as jest.Mocked<ScmClient>;
 
@@ -185,6 +187,308 @@ describe('BaseScmCrawler', () => {
     });
   });
 
+  describe('isTrackedRef', () => {
+    it('should track the default branch and the configured branches', () => {
+      const options = { crawlDepth: 3, branches: ['develop'] };
+      expect(crawler.isTrackedRef(mockRepo, 'main', 'branch', options)).toBe(
+        true,
+      );
+      expect(crawler.isTrackedRef(mockRepo, 'develop', 'branch', options)).toBe(
+        true,
+      );
+      expect(crawler.isTrackedRef(mockRepo, 'feature', 'branch', options)).toBe(
+        false,
+      );
+    });
+
+    it('should track only the tags matching the configured patterns', () => {
+      expect(
+        crawler.isTrackedRef(mockRepo, 'v1.0.0', 'tag', {
+          crawlDepth: 3,
+          tags: ['v1.*'],
+        }),
+      ).toBe(true);
+      expect(
+        crawler.isTrackedRef(mockRepo, 'v2.0.0', 'tag', {
+          crawlDepth: 3,
+          tags: ['v1.*'],
+        }),
+      ).toBe(false);
+      expect(
+        crawler.isTrackedRef(mockRepo, 'v1.0.0', 'tag', { crawlDepth: 3 }),
+      ).toBe(false);
+    });
+  });
+
+  describe('discoverGalaxyFilesInRef', () => {
+    it('should search only the given ref', async () => {
+      mockScmClient.getContents.mockResolvedValue([
+        { name: 'galaxy.yml', path: 'galaxy.yml', type: 'file' },
+      ] as any);
+      mockScmClient.getFileContent.mockResolvedValue(
+        'namespace: test\nname: collection\nversion: 1.0.0\n',
+      );
+
+      const files = await crawler.discoverGalaxyFilesInRef(
+        mockRepo,
+        'v1.0.0',
+        'tag',
+        { crawlDepth: 3 },
+      );
+
+      expect(files).toEqual([
+        expect.objectContaining({
+          path: 'galaxy.yml',
+          ref: 'v1.0.0',
+          refType: 'tag',
+        }),
+      ]);
+      expect(mockScmClient.getContents.mock.calls[0].slice(0, 3)).toEqual([
+        mockRepo,
+        'v1.0.0',
+        '',
+      ]);
+      expect(mockScmClient.getBranches).not.toHaveBeenCalled();
+      expect(mockScmClient.getTags).not.toHaveBeenCalled();
+    });
+
+    it('should throw when AbortSignal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        crawler.discoverGalaxyFilesInRef(
+          mockRepo,
+          'main',
+          'branch',
+          { crawlDepth: 3 },
+          controller.signal,
+        ),
+      ).rejects.toThrow('SCM sync aborted, stopping galaxy file discovery');
+    });
+  });
+
+  describe('unchanged refs', () => {
+    const discover = () =>
+      crawler.discoverGalaxyFilesInRef(mockRepo, 'main', 'branch', {
+        crawlDepth: 3,
+      });
+
+    beforeEach(() => {
+      mockScmClient.getContents.mockResolvedValue([
+        { name: 'galaxy.yml', path: 'galaxy.yml', type: 'file' },
+      ] as any);
+      mockScmClient.getFileContent.mockResolvedValue(
+        'namespace: test\nname: collection\nversion: 1.0.0\n',
+      );
+    });
+
+    it('should reuse the galaxy files while the head SHA is the same', async () => {
+      const first = await discover();
+      const second = await discover();
+
+      expect(second).toEqual(first);
+      expect(second).toHaveLength(1);
+      expect(mockScmClient.getHeadSha).toHaveBeenCalledTimes(2);
+      expect(mockScmClient.getContents).toHaveBeenCalledTimes(1);
+      expect(mockScmClient.getFileContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should crawl the ref again once its head SHA changed', async () => {
+      await discover();
+      mockScmClient.getHeadSha.mockResolvedValue('9b1d4e0a');
+      await discover();
+
+      expect(mockScmClient.getContents).toHaveBeenCalledTimes(2);
+    });
+
+    it('should crawl the ref again after a crawl error', async () => {
+      mockScmClient.getFileContent.mockRejectedValueOnce(
+        new Error('rate limited'),
+      );
+
+      expect(await discover()).toEqual([]);
+      expect(await discover()).toHaveLength(1);
+      expect(mockScmClient.getContents).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always crawl when the head SHA is unknown', async () => {
+      mockScmClient.getHeadSha.mockRejectedValue(new Error('Not Found'));
+
+      await discover();
+      await discover();
+
+      expect(mockScmClient.getContents).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('automation content', () => {
+    const tree: Record<string, Array<Omit<DirectoryEntry, 'path'>>> = {
+      '': [
+        { name: 'site.yml', type: 'file' },
+        { name: 'mkdocs.yml', type: 'file' },
+        { name: 'README.md', type: 'file' },
+        { name: 'collections', type: 'dir' },
+        { name: 'roles', type: 'dir' },
+        { name: 'rulebooks', type: 'dir' },
+      ],
+      collections: [{ name: 'requirements.yml', type: 'file' }],
+      roles: [{ name: 'nginx', type: 'dir' }],
+      'roles/nginx': [
+        { name: 'meta', type: 'dir' },
+        { name: 'tasks', type: 'dir' },
+      ],
+      'roles/nginx/meta': [{ name: 'main.yml', type: 'file' }],
+      'roles/nginx/tasks': [{ name: 'main.yml', type: 'file' }],
+      rulebooks: [{ name: 'alerts.yml', type: 'file' }],
+    };
+    const files: Record<string, string> = {
+      'site.yml':
+        '- name: Configure web servers\n  hosts: web\n  roles: [nginx]\n',
+      'mkdocs.yml': 'site_name: Docs\n',
+      'collections/requirements.yml':
+        'collections:\n  - name: ansible.posix\n    version: 1.5.4\n',
+      'roles/nginx/meta/main.yml':
+        'galaxy_info:\n  author: Platform Team\n  platforms:\n    - name: EL\n      versions: [9]\ndependencies:\n  - acme.common\n',
+      'rulebooks/alerts.yml':
+        '- name: Respond to alerts\n  hosts: all\n  sources:\n    - ansible.eda.webhook:\n        port: 5000\n  rules:\n    - name: Restart\n      condition: event.payload.down\n      action:\n        debug:\n',
+    };
+    const mockTree = (
+      contents: Record<string, Array<Omit<DirectoryEntry, 'path'>>>,
+    ) => {
+      mockScmClient.getContents.mockImplementation(async (_repo, _ref, path) =>
+        (contents[path] ?? []).map(entry => ({
+          ...entry,
+          path: path ? `${path}/${entry.name}` : entry.name,
+        })),
+      );
+    };
+
+    beforeEach(() => {
+      mockTree(tree);
+      mockScmClient.getFileContent.mockImplementation(
+        async (_repo, _ref, path) => files[path],
+      );
+    });
+
+    it('should discover roles, playbook projects and rulebooks', async () => {
+      const { galaxyFiles, automationContent } =
+        await crawler.discoverContentInRef(mockRepo, 'main', 'branch', {
+          crawlDepth: 5,
+        });
+
+      expect(galaxyFiles).toEqual([]);
+      const location = { repository: mockRepo, ref: 'main', refType: 'branch' };
+      expect(automationContent).toEqual([
+        {
+          ...location,
+          path: 'roles/nginx',
+          kind: 'role',
+          metadata: {
+            name: 'nginx',
+            author: 'Platform Team',
+            platforms: [{ name: 'EL', versions: ['9'] }],
+            galaxyTags: [],
+            dependencies: ['acme.common'],
+          },
+        },
+        {
+          ...location,
+          path: 'rulebooks/alerts.yml',
+          kind: 'rulebook',
+          metadata: {
+            name: 'alerts',
+            rulesets: [
+              {
+                name: 'Respond to alerts',
+                hosts: ['all'],
+                sources: ['ansible.eda.webhook'],
+                ruleCount: 1,
+              },
+            ],
+          },
+        },
+        {
+          ...location,
+          path: '',
+          kind: 'playbook-project',
+          metadata: {
+            name: 'test-repo',
+            playbooks: [
+              {
+                path: 'site.yml',
+                plays: ['Configure web servers'],
+                hosts: ['web'],
+                imports: [],
+              },
+            ],
+            requiredCollections: [{ name: 'ansible.posix', version: '1.5.4' }],
+            requiredRoles: [],
+          },
+        },
+      ]);
+      expect(mockScmClient.getFileContent).not.toHaveBeenCalledWith(
+        mockRepo,
+        'main',
+        'roles/nginx/tasks/main.yml',
+        undefined,
+      );
+    });
+
+    it('should reuse the automation content while the head SHA is the same', async () => {
+      const discover = () =>
+        crawler.discoverContentInRef(mockRepo, 'main', 'branch', {
+          crawlDepth: 5,
+        });
+
+      const first = await discover();
+      const fetches = mockScmClient.getFileContent.mock.calls.length;
+      const second = await discover();
+
+      expect(second).toEqual(first);
+      expect(second.automationContent).toHaveLength(3);
+      expect(mockScmClient.getFileContent).toHaveBeenCalledTimes(fetches);
+    });
+
+    it('should leave the roles of a collection to the collection', async () => {
+      mockTree({
+        '': [{ name: 'acme', type: 'dir' }],
+        acme: [
+          { name: 'galaxy.yml', type: 'file' },
+          { name: 'roles', type: 'dir' },
+        ],
+        'acme/roles': [{ name: 'nginx', type: 'dir' }],
+        'acme/roles/nginx': [{ name: 'meta', type: 'dir' }],
+        'acme/roles/nginx/meta': [{ name: 'main.yml', type: 'file' }],
+      });
+      mockScmClient.getFileContent.mockResolvedValue(
+        'namespace: acme\nname: web\nversion: 1.0.0\n',
+      );
+
+      const { galaxyFiles, automationContent } =
+        await crawler.discoverContentInRef(mockRepo, 'main', 'branch', {
+          crawlDepth: 5,
+        });
+
+      expect(galaxyFiles).toHaveLength(1);
+      expect(automationContent).toEqual([]);
+      expect(mockScmClient.getFileContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return only the galaxy files from discoverGalaxyFilesInRepos', async () => {
+      await expect(
+        new AbortTestScmCrawler({
+          sourceConfig: mockSourceConfig,
+          logger: mockLogger,
+          scmClient: mockScmClient,
+        }).discoverGalaxyFilesInRepos([mockRepo], { crawlDepth: 5 }),
+      ).resolves.toEqual([]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        '[AbortTestScmCrawler] Discovered 0 galaxy.yml files and 3 roles, playbook projects and rulebooks in 1 repositories',
+      );
+    });
+  });
+
   describe('buildSourceLocation', () => {
     it('should delegate to scmClient', () => {
       const location = crawler.buildSourceLocation(mockRepo, 'main', 'path');
@@ -6,9 +6,19 @@ import {
 } from '@ansible/backstage-rhaap-common';
 import type {
   DiscoveredGalaxyFile,
+  DiscoveredAutomationContent,
+  DiscoveredContent,
   AnsibleGitContentsSourceConfig,
+  PlaybookMetadata,
+  RequirementMetadata,
 } from '../../types';
 import { validateGalaxyContent } from '../galaxySchema';
+import {
+  validatePlaybook,
+  validateRequirements,
+  validateRoleMeta,
+  validateRulebook,
+} from '../automationContentSchema';
 import yaml from 'yaml';
 
 export type {
@@ -49,6 +59,33 @@ export interface ScmCrawler {
     options: DiscoveryOptions,
     signal?: AbortSignal,
   ): Promise<DiscoveredGalaxyFile[]>;
+  /** Whether the collections of the ref are discovered with these options. */
+  isTrackedRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+  ): boolean;
+  discoverGalaxyFilesInRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredGalaxyFile[]>;
+  /** Discovers the collections, roles, playbook projects and rulebooks. */
+  discoverContentInRepos(
+    repos: RepositoryInfo[],
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent>;
+  discoverContentInRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent>;
 }
 
 export interface ScmCrawlerConfig {
@@ -74,10 +111,41 @@ const SKIP_DIRS = new Set([
   'test',
 ]);
 
+type AutomationContentFile =
+  | 'role-meta'
+  | 'rulebook'
+  | 'requirements'
+  | 'playbook';
+
+// roles, rulebooks and projects are recognized by their layout
+const AUTOMATION_CONTENT_FILES: Array<[AutomationContentFile, RegExp]> = [
+  ['role-meta', /(^|\/)meta\/main\.ya?ml$/i],
+  ['rulebook', /(^|\/)rulebooks\/[^/]+\.ya?ml$/i],
+  ['requirements', /^collections\/requirements\.ya?ml$/i],
+  ['playbook', /^(playbooks\/)?[^./][^/]*\.ya?ml$/i],
+];
+
+const getAutomationContentFile = (
+  path: string,
+): AutomationContentFile | undefined =>
+  AUTOMATION_CONTENT_FILES.find(([, pattern]) => pattern.test(path))?.[0];
+
+const getParentPath = (path: string) =>
+  path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+const getBaseName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+
 export abstract class BaseScmCrawler implements ScmCrawler {
   protected readonly config: AnsibleGitContentsSourceConfig;
   protected readonly logger: LoggerService;
   protected readonly client: ScmClient;
+  // content found by the previous crawls, by ref and head SHA
+  private readonly crawledRefs = new Map<
+    string,
+    { sha: string; content: DiscoveredContent }
+  >();
+  // errors logged instead of thrown, after which the crawl result is not reused
+  private crawlErrors = 0;
 
   constructor(crawlerConfig: ScmCrawlerConfig) {
     this.config = crawlerConfig.sourceConfig;
@@ -150,7 +218,23 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     options: DiscoveryOptions,
     signal?: AbortSignal,
   ): Promise<DiscoveredGalaxyFile[]> {
-    const discovered: DiscoveredGalaxyFile[] = [];
+    const { galaxyFiles } = await this.discoverContentInRepos(
+      repos,
+      options,
+      signal,
+    );
+    return galaxyFiles;
+  }
+
+  async discoverContentInRepos(
+    repos: RepositoryInfo[],
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent> {
+    const discovered: DiscoveredContent = {
+      galaxyFiles: [],
+      automationContent: [],
+    };
     const skippedRepos: Array<{ repo: string; reason: string }> = [];
 
     for (const repo of repos) {
@@ -166,7 +250,57 @@ export abstract class BaseScmCrawler implements ScmCrawler {
 
     this.logSkippedRepos(skippedRepos);
     this.logger.info(
-      `[${this.getCrawlerName()}] Discovered ${discovered.length} galaxy.yml files in ${repos.length} ${this.getRepoLabel()}`,
+      `[${this.getCrawlerName()}] Discovered ${discovered.galaxyFiles.length} galaxy.yml files and ${discovered.automationContent.length} roles, playbook projects and rulebooks in ${repos.length} ${this.getRepoLabel()}`,
+    );
+    return discovered;
+  }
+
+  isTrackedRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+  ): boolean {
+    if (refType === 'tag') {
+      return this.filterTags([ref], options.tags).length > 0;
+    }
+    return ref === repo.defaultBranch || !!options.branches?.includes(ref);
+  }
+
+  async discoverGalaxyFilesInRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredGalaxyFile[]> {
+    const { galaxyFiles } = await this.discoverContentInRef(
+      repo,
+      ref,
+      refType,
+      options,
+      signal,
+    );
+    return galaxyFiles;
+  }
+
+  async discoverContentInRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent> {
+    this.throwIfAborted(signal);
+    const discovered = await this.findContentInRepo(
+      repo,
+      ref,
+      refType,
+      options,
+      signal,
+    );
+    this.logger.info(
+      `[${this.getCrawlerName()}] Discovered ${discovered.galaxyFiles.length} galaxy.yml files and ${discovered.automationContent.length} roles, playbook projects and rulebooks in ${repo.fullPath} on ${refType} '${ref}'`,
     );
     return discovered;
   }
@@ -181,12 +315,12 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     repo: RepositoryInfo,
     options: DiscoveryOptions,
     signal: AbortSignal | undefined,
-    discovered: DiscoveredGalaxyFile[],
+    discovered: DiscoveredContent,
     skippedRepos: Array<{ repo: string; reason: string }>,
   ): Promise<void> {
     try {
       const refsToSearch = await this.getRefsToSearch(repo, options, signal);
-      const repoCollectionCount = await this.discoverInRefs(
+      const repoContentCount = await this.discoverInRefs(
         repo,
         refsToSearch,
         options,
@@ -194,10 +328,10 @@ export abstract class BaseScmCrawler implements ScmCrawler {
         discovered,
       );
 
-      if (repoCollectionCount === 0) {
+      if (repoContentCount === 0) {
         skippedRepos.push({
           repo: repo.fullPath,
-          reason: 'no valid galaxy.yml/yaml files found',
+          reason: 'no valid galaxy.yml/yaml files or automation content found',
         });
       }
     } catch (error) {
@@ -217,24 +351,20 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     refsToSearch: Array<{ ref: string; refType: 'branch' | 'tag' }>,
     options: DiscoveryOptions,
     signal: AbortSignal | undefined,
-    discovered: DiscoveredGalaxyFile[],
+    discovered: DiscoveredContent,
   ): Promise<number> {
-    let repoCollectionCount = 0;
+    let repoContentCount = 0;
 
     for (const { ref, refType } of refsToSearch) {
       this.throwIfAborted(signal);
-      const galaxyFiles = await this.findGalaxyFilesInRepo(
-        repo,
-        ref,
-        refType,
-        options,
-        signal,
-      );
-      repoCollectionCount += galaxyFiles.length;
-      discovered.push(...galaxyFiles);
+      const { galaxyFiles, automationContent } =
+        await this.findContentInRepo(repo, ref, refType, options, signal);
+      repoContentCount += galaxyFiles.length + automationContent.length;
+      discovered.galaxyFiles.push(...galaxyFiles);
+      discovered.automationContent.push(...automationContent);
     }
 
-    return repoCollectionCount;
+    return repoContentCount;
   }
 
   private logSkippedRepos(
@@ -245,7 +375,7 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     }
     const crawlerName = this.getCrawlerName();
     this.logger.info(
-      `[${crawlerName}] Skipped ${skippedRepos.length} ${this.getRepoLabel()} with no collections:`,
+      `[${crawlerName}] Skipped ${skippedRepos.length} ${this.getRepoLabel()} with no collections or automation content:`,
     );
     for (const { repo, reason } of skippedRepos) {
       this.logger.info(`[${crawlerName}]   - ${repo}: ${reason}`);
@@ -309,13 +439,68 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     return refs;
   }
 
-  protected async findGalaxyFilesInRepo(
+  /**
+   * Crawls the ref, unless its head commit is the one of the previous crawl,
+   * whose content is returned instead.
+   */
+  protected async findContentInRepo(
     repo: RepositoryInfo,
     ref: string,
     refType: 'branch' | 'tag',
     options: DiscoveryOptions,
     signal?: AbortSignal,
-  ): Promise<DiscoveredGalaxyFile[]> {
+  ): Promise<DiscoveredContent> {
+    const key = `${repo.fullPath}@${refType}:${ref}`;
+    const sha = await this.getHeadSha(repo, ref, signal);
+    const previous = this.crawledRefs.get(key);
+    if (sha && previous?.sha === sha) {
+      this.logger.debug(
+        `[${this.getCrawlerName()}] ${repo.fullPath}@${ref} unchanged since ${sha}, skipping the crawl`,
+      );
+      return {
+        galaxyFiles: previous.content.galaxyFiles.map(file => ({
+          ...file,
+          repository: repo,
+        })),
+        automationContent: previous.content.automationContent.map(content => ({
+          ...content,
+          repository: repo,
+        })),
+      };
+    }
+
+    const crawlErrors = this.crawlErrors;
+    const content = await this.crawlRef(repo, ref, refType, options, signal);
+    if (sha && this.crawlErrors === crawlErrors) {
+      this.crawledRefs.set(key, { sha, content });
+    } else {
+      this.crawledRefs.delete(key);
+    }
+    return content;
+  }
+
+  private async getHeadSha(
+    repo: RepositoryInfo,
+    ref: string,
+    signal?: AbortSignal,
+  ): Promise<string | undefined> {
+    try {
+      return await this.client.getHeadSha(repo, ref, signal);
+    } catch (error) {
+      this.logger.debug(
+        `[${this.getCrawlerName()}] Could not get the head of ${repo.fullPath}@${ref}: ${error}`,
+      );
+      return undefined;
+    }
+  }
+
+  private async crawlRef(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    options: DiscoveryOptions,
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent> {
     this.logger.debug(
       `[${this.getCrawlerName()}] Searching ${repo.fullPath} on ${refType} '${ref}' (default branch: ${repo.defaultBranch})`,
     );
@@ -350,8 +535,11 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     galaxyFilePaths: string[],
     crawlDepth: number,
     signal?: AbortSignal,
-  ): Promise<DiscoveredGalaxyFile[]> {
-    const discovered: DiscoveredGalaxyFile[] = [];
+  ): Promise<DiscoveredContent> {
+    const discovered: DiscoveredContent = {
+      galaxyFiles: [],
+      automationContent: [],
+    };
 
     for (const basePath of galaxyFilePaths) {
       this.throwIfAborted(signal);
@@ -362,14 +550,10 @@ export abstract class BaseScmCrawler implements ScmCrawler {
         crawlDepth,
         signal,
       );
-      const galaxyFiles = await this.processGalaxyFiles(
-        repo,
-        ref,
-        refType,
-        files,
-        signal,
-      );
-      discovered.push(...galaxyFiles);
+      const { galaxyFiles, automationContent } =
+        await this.processCrawledFiles(repo, ref, refType, files, signal);
+      discovered.galaxyFiles.push(...galaxyFiles);
+      discovered.automationContent.push(...automationContent);
     }
 
     return discovered;
@@ -381,16 +565,201 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     refType: 'branch' | 'tag',
     crawlDepth: number,
     signal?: AbortSignal,
-  ): Promise<DiscoveredGalaxyFile[]> {
+  ): Promise<DiscoveredContent> {
     const files = await this.crawlDirectory(repo, ref, '', crawlDepth, signal);
 
     if (files.length === 0) {
       this.logger.debug(
-        `[${this.getCrawlerName()}] No galaxy.yml files found in ${repo.fullPath}@${ref} after crawling`,
+        `[${this.getCrawlerName()}] No galaxy.yml files or automation content found in ${repo.fullPath}@${ref} after crawling`,
+      );
+    }
+
+    return this.processCrawledFiles(repo, ref, refType, files, signal);
+  }
+
+  /**
+   * Reads the galaxy files and automation content files found by a crawl.
+   * Roles, playbooks and rulebooks inside a collection are part of the
+   * collection and are not discovered on their own.
+   */
+  private async processCrawledFiles(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    filePaths: string[],
+    signal?: AbortSignal,
+  ): Promise<DiscoveredContent> {
+    const galaxyFilePaths = filePaths.filter(path =>
+      this.isGalaxyFile(getBaseName(path)),
+    );
+    const collectionPaths = galaxyFilePaths.map(getParentPath);
+    const contentPaths = filePaths.filter(
+      path =>
+        !galaxyFilePaths.includes(path) &&
+        !collectionPaths.some(
+          collectionPath =>
+            collectionPath === '' || path.startsWith(`${collectionPath}/`),
+        ),
+    );
+
+    return {
+      galaxyFiles: await this.processGalaxyFiles(
+        repo,
+        ref,
+        refType,
+        galaxyFilePaths,
+        signal,
+      ),
+      automationContent: await this.processAutomationContent(
+        repo,
+        ref,
+        refType,
+        contentPaths,
+        signal,
+      ),
+    };
+  }
+
+  /**
+   * Reads roles and rulebooks from their files, and the top-level playbooks
+   * and `collections/requirements.yml` into a single playbook project.
+   */
+  private async processAutomationContent(
+    repo: RepositoryInfo,
+    ref: string,
+    refType: 'branch' | 'tag',
+    filePaths: string[],
+    signal?: AbortSignal,
+  ): Promise<DiscoveredAutomationContent[]> {
+    const discovered: DiscoveredAutomationContent[] = [];
+    const playbooks: PlaybookMetadata[] = [];
+    let requirements:
+      | { collections: RequirementMetadata[]; roles: RequirementMetadata[] }
+      | undefined;
+
+    for (const path of filePaths) {
+      this.throwIfAborted(signal);
+      const parsed = await this.readYamlFile(repo, ref, path, signal);
+      if (parsed === undefined) {
+        continue;
+      }
+
+      const location = { repository: repo, ref, refType };
+      const where = `${repo.fullPath}/${path}@${ref}`;
+      switch (getAutomationContentFile(path)) {
+        case 'role-meta': {
+          const rolePath = getParentPath(getParentPath(path));
+          const validation = validateRoleMeta(
+            parsed,
+            rolePath ? getBaseName(rolePath) : repo.name,
+          );
+          if (validation.success) {
+            discovered.push({
+              ...location,
+              path: rolePath,
+              kind: 'role',
+              metadata: validation.data,
+            });
+          } else {
+            this.logInvalidContent('role metadata', where, validation.errors);
+          }
+          break;
+        }
+        case 'rulebook': {
+          const validation = validateRulebook(
+            parsed,
+            getBaseName(path).replace(/\.ya?ml$/i, ''),
+          );
+          if (validation.success) {
+            discovered.push({
+              ...location,
+              path,
+              kind: 'rulebook',
+              metadata: validation.data,
+            });
+          } else {
+            this.logInvalidContent('rulebook', where, validation.errors);
+          }
+          break;
+        }
+        case 'requirements': {
+          const validation = validateRequirements(parsed);
+          if (validation.success) {
+            requirements = validation.data;
+          } else {
+            this.logInvalidContent('requirements', where, validation.errors);
+          }
+          break;
+        }
+        case 'playbook': {
+          const validation = validatePlaybook(parsed, path);
+          if (validation.success) {
+            playbooks.push(validation.data);
+          } else {
+            this.logInvalidContent('playbook', where, validation.errors);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    if (playbooks.length > 0) {
+      discovered.push({
+        repository: repo,
+        ref,
+        refType,
+        path: '',
+        kind: 'playbook-project',
+        metadata: {
+          name: repo.name,
+          playbooks,
+          requiredCollections: requirements?.collections ?? [],
+          requiredRoles: requirements?.roles ?? [],
+        },
+      });
+    }
+
+    return discovered;
+  }
+
+  private async readYamlFile(
+    repo: RepositoryInfo,
+    ref: string,
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    const crawlerName = this.getCrawlerName();
+    let content: string;
+    try {
+      content = await this.getFileContent(repo, ref, path, signal);
+    } catch (error) {
+      this.crawlErrors++;
+      this.logger.warn(
+        `[${crawlerName}] Error processing ${repo.fullPath}/${path}@${ref}: ${error}`,
+      );
+      return undefined;
+    }
+
+    try {
+      return yaml.parse(content) ?? undefined;
+    } catch (parseError) {
+      this.logger.warn(
+        `[${crawlerName}] Invalid YAML in ${repo.fullPath}/${path}@${ref}: ${parseError}`,
       );
+      return undefined;
     }
+  }
 
-    return this.processGalaxyFiles(repo, ref, refType, files, signal);
+  private logInvalidContent(
+    what: string,
+    where: string,
+    errors: string[],
+  ): void {
+    this.logger.debug(
+      `[${this.getCrawlerName()}] Not a valid ${what}: ${where}: ${errors.join(', ')}`,
+    );
   }
 
   private async processGalaxyFiles(
@@ -460,21 +829,21 @@ export abstract class BaseScmCrawler implements ScmCrawler {
     depth: number,
     signal?: AbortSignal,
   ): Promise<string[]> {
-    const galaxyFiles: string[] = [];
+    const files: string[] = [];
 
     for (const entry of contents) {
       this.throwIfAborted(signal);
-      const files = await this.processDirectoryEntry(
+      const entryFiles = await this.processDirectoryEntry(
         entry,
         repo,
         ref,
         depth,
         signal,
       );
-      galaxyFiles.push(...files);
+      files.push(...entryFiles);
     }
 
-    return galaxyFiles;
+    return files;
   }
 
   private async processDirectoryEntry(
@@ -491,6 +860,13 @@ export abstract class BaseScmCrawler implements ScmCrawler {
       return [entry.path];
     }
 
+    if (entry.type === 'file' && getAutomationContentFile(entry.path)) {
+      this.logger.debug(
+        `[${this.getCrawlerName()}] Found automation content file: ${repo.fullPath}/${entry.path}@${ref}`,
+      );
+      return [entry.path];
+    }
+
     if (entry.type === 'dir' && !this.shouldSkipDirectory(entry.name)) {
       return this.crawlDirectory(repo, ref, entry.path, depth - 1, signal);
     }
@@ -506,6 +882,7 @@ export abstract class BaseScmCrawler implements ScmCrawler {
   ): void {
     const errorMsg = error instanceof Error ? error.message : String(error);
     const crawlerName = this.getCrawlerName();
+    this.crawlErrors++;
 
     if (path === '') {
       this.logger.warn(
@@ -560,6 +937,7 @@ export abstract class BaseScmCrawler implements ScmCrawler {
         metadata: validation.data,
       };
     } catch (error) {
+      this.crawlErrors++;
       this.logger.warn(
         `[${crawlerName}] Error processing ${repo.fullPath}/${path}@${ref}: ${error}`,
       );
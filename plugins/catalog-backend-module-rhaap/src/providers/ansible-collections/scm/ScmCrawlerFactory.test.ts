@@ -5,6 +5,8 @@ import { ScmClientFactory } from '@ansible/backstage-rhaap-common';
 import { ScmCrawlerFactory } from './ScmCrawlerFactory';
 import { GithubCrawler } from './GithubCrawler';
 import { GitlabCrawler } from './GitlabCrawler';
+import { BitbucketCrawler } from './BitbucketCrawler';
+import { GiteaCrawler } from './GiteaCrawler';
 import type { AnsibleGitContentsSourceConfig } from '../../types';
 
 jest.mock('@ansible/backstage-rhaap-common', () => ({
@@ -91,19 +93,51 @@ describe('ScmCrawlerFactory', () => {
       expect(crawler).toBeInstanceOf(GitlabCrawler);
     });
 
-    it('should throw error for unsupported provider', async () => {
+    it('should create BitbucketCrawler for bitbucket provider', async () => {
       const sourceConfig: AnsibleGitContentsSourceConfig = {
         env: 'development',
-        scmProvider: 'bitbucket' as any,
-        host: 'bitbucket.org',
+        scmProvider: 'bitbucket',
+        host: 'bitbucket.example.com',
         hostName: 'bitbucket',
+        organization: 'ANS',
+        enabled: true,
+        schedule: { frequency: { minutes: 30 }, timeout: { minutes: 10 } },
+      };
+
+      const crawler = await factory.createCrawler(sourceConfig);
+
+      expect(crawler).toBeInstanceOf(BitbucketCrawler);
+    });
+
+    it('should create GiteaCrawler for gitea provider', async () => {
+      const sourceConfig: AnsibleGitContentsSourceConfig = {
+        env: 'development',
+        scmProvider: 'gitea',
+        host: 'gitea.example.com',
+        hostName: 'gitea',
+        organization: 'ansible',
+        enabled: true,
+        schedule: { frequency: { minutes: 30 }, timeout: { minutes: 10 } },
+      };
+
+      const crawler = await factory.createCrawler(sourceConfig);
+
+      expect(crawler).toBeInstanceOf(GiteaCrawler);
+    });
+
+    it('should throw error for unsupported provider', async () => {
+      const sourceConfig: AnsibleGitContentsSourceConfig = {
+        env: 'development',
+        scmProvider: 'azure' as any,
+        host: 'dev.azure.com',
+        hostName: 'azure',
         organization: 'test-org',
         enabled: true,
         schedule: { frequency: { minutes: 30 }, timeout: { minutes: 10 } },
       };
 
       await expect(factory.createCrawler(sourceConfig)).rejects.toThrow(
-        'Unsupported SCM provider: bitbucket',
+        'Unsupported SCM provider: azure',
       );
     });
 
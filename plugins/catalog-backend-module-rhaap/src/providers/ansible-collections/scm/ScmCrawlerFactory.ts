@@ -1,17 +1,26 @@
 import type { LoggerService } from '@backstage/backend-plugin-api';
 import type { Config } from '@backstage/config';
-import { ScmClientFactory } from '@ansible/backstage-rhaap-common';
+import {
+  ScmClientFactory,
+  ScmResponseCache,
+} from '@ansible/backstage-rhaap-common';
 
 import type { ScmCrawler } from './ScmCrawler';
 import type { AnsibleGitContentsSourceConfig } from '../../types';
 import { GithubCrawler } from './GithubCrawler';
 import { GitlabCrawler } from './GitlabCrawler';
+import { BitbucketCrawler } from './BitbucketCrawler';
+import { GiteaCrawler } from './GiteaCrawler';
 
 export class ScmCrawlerFactory {
   private readonly scmClientFactory: ScmClientFactory;
   private readonly logger: LoggerService;
 
-  constructor(options: { rootConfig: Config; logger: LoggerService }) {
+  constructor(options: {
+    rootConfig: Config;
+    logger: LoggerService;
+    cache?: ScmResponseCache;
+  }) {
     this.scmClientFactory = new ScmClientFactory(options);
     this.logger = options.logger;
   }
@@ -42,6 +51,18 @@ export class ScmCrawlerFactory {
         logger: this.logger,
         scmClient,
       });
+    } else if (scmProvider === 'bitbucket') {
+      return new BitbucketCrawler({
+        sourceConfig,
+        logger: this.logger,
+        scmClient,
+      });
+    } else if (scmProvider === 'gitea') {
+      return new GiteaCrawler({
+        sourceConfig,
+        logger: this.logger,
+        scmClient,
+      });
     }
 
     throw new Error(`Unsupported SCM provider: ${scmProvider}`);
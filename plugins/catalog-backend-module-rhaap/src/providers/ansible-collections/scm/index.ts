@@ -2,3 +2,5 @@ export * from './ScmCrawler';
 export * from './ScmCrawlerFactory';
 export * from './GithubCrawler';
 export * from './GitlabCrawler';
+export * from './BitbucketCrawler';
+export * from './GiteaCrawler';
@@ -7,12 +7,14 @@ import {
   sanitizeEntityName,
   sanitizeTagForBackstage,
   generateCollectionEntityName,
+  generateAutomationContentEntityName,
   generateRepositoryEntityName,
   createRepositoryKey,
   parseDependencies,
   createDependencyRelations,
 } from './utils';
 import type {
+  DiscoveredAutomationContent,
   DiscoveredGalaxyFile,
   AnsibleGitContentsSourceConfig,
   RepositoryInfo,
@@ -147,6 +149,10 @@ describe('utils', () => {
     it('should return gitlab.com for gitlab provider', () => {
       expect(getDefaultHost('gitlab')).toBe('gitlab.com');
     });
+
+    it('should return bitbucket.org for bitbucket provider', () => {
+      expect(getDefaultHost('bitbucket')).toBe('bitbucket.org');
+    });
   });
 
   describe('generateSourceId', () => {
@@ -232,6 +238,60 @@ describe('utils', () => {
     });
   });
 
+  describe('generateAutomationContentEntityName', () => {
+    const location = {
+      repository: mockRepository,
+      ref: 'main',
+      refType: 'branch' as const,
+    };
+
+    it('should name roles and rulebooks after the repository and their name', () => {
+      const role: DiscoveredAutomationContent = {
+        ...location,
+        path: 'roles/nginx',
+        kind: 'role',
+        metadata: {
+          name: 'nginx',
+          platforms: [],
+          galaxyTags: [],
+          dependencies: [],
+        },
+      };
+      const rulebook: DiscoveredAutomationContent = {
+        ...location,
+        ref: 'v1.0',
+        path: 'rulebooks/alerts.yml',
+        kind: 'rulebook',
+        metadata: { name: 'alerts', rulesets: [] },
+      };
+
+      expect(generateAutomationContentEntityName(role, mockSourceConfig)).toBe(
+        'test-repo-role-nginx-main-github-github-com',
+      );
+      expect(
+        generateAutomationContentEntityName(rulebook, mockSourceConfig),
+      ).toBe('test-repo-rulebook-alerts-v1-0-github-github-com');
+    });
+
+    it('should name playbook projects after the repository', () => {
+      const project: DiscoveredAutomationContent = {
+        ...location,
+        path: '',
+        kind: 'playbook-project',
+        metadata: {
+          name: 'test-repo',
+          playbooks: [],
+          requiredCollections: [],
+          requiredRoles: [],
+        },
+      };
+
+      expect(
+        generateAutomationContentEntityName(project, mockSourceConfig),
+      ).toBe('test-repo-playbooks-main-github-github-com');
+    });
+  });
+
   describe('generateRepositoryEntityName', () => {
     it('should generate a sanitized entity name for a repository', () => {
       const result = generateRepositoryEntityName(
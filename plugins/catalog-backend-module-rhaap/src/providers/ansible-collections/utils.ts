@@ -1,9 +1,11 @@
 import type {
+  DiscoveredAutomationContent,
   DiscoveredGalaxyFile,
   AnsibleGitContentsSourceConfig,
   CollectionIdentifier,
   RepositoryInfo,
 } from '../types';
+import { getDefaultHost } from '../config';
 
 export interface CollectionParserOptions {
   galaxyFile: DiscoveredGalaxyFile;
@@ -11,11 +13,19 @@ export interface CollectionParserOptions {
   sourceLocation: string;
 }
 
+export interface AutomationContentParserOptions {
+  content: DiscoveredAutomationContent;
+  sourceConfig: AnsibleGitContentsSourceConfig;
+  sourceLocation: string;
+}
+
 export interface RepositoryParserOptions {
   repository: RepositoryInfo;
   sourceConfig: AnsibleGitContentsSourceConfig;
   collectionCount: number;
   collectionEntityNames?: string[];
+  /** Entity names of the roles, playbook projects and rulebooks. */
+  contentEntityNames?: string[];
 }
 
 export function sanitizeHostName(hostName: string): string {
@@ -45,9 +55,7 @@ export function createCollectionKey(identifier: CollectionIdentifier): string {
   return `${identifier.scmProvider}:${identifier.hostName}:${identifier.organization}:${identifier.namespace}.${identifier.name}@${identifier.version}`;
 }
 
-export function getDefaultHost(scmProvider: 'github' | 'gitlab'): string {
-  return scmProvider === 'github' ? 'github.com' : 'gitlab.com';
-}
+export { getDefaultHost };
 
 export function generateSourceId(
   sourceConfig: AnsibleGitContentsSourceConfig,
@@ -100,6 +108,20 @@ export function generateRepositoryEntityName(
   );
 }
 
+export function generateAutomationContentEntityName(
+  content: DiscoveredAutomationContent,
+  sourceConfig: AnsibleGitContentsSourceConfig,
+): string {
+  const hostName = sanitizeHostName(sourceConfig.hostName);
+  const name =
+    content.kind === 'playbook-project'
+      ? 'playbooks'
+      : `${content.kind}-${content.metadata.name}`;
+  return sanitizeEntityName(
+    `${content.repository.name}-${name}-${content.ref}-${sourceConfig.scmProvider}-${hostName}`,
+  );
+}
+
 export function createRepositoryKey(
   repository: RepositoryInfo,
   sourceConfig: AnsibleGitContentsSourceConfig,
@@ -1,13 +1,30 @@
 import { readSchedulerServiceTaskScheduleDefinitionFromConfig } from '@backstage/backend-plugin-api';
 import type { Config } from '@backstage/config';
+import { InputError } from '@backstage/errors';
 
 import type {
   AapConfig,
+  JobTemplateApprovalConfig,
   PAHRepositoryConfig,
   AnsibleGitContentsSourceConfig,
   ScmProvider,
 } from './types';
 
+/** SCM providers that can be configured under `ansibleGitContents.providers`. */
+export const SCM_PROVIDERS: ScmProvider[] = [
+  'github',
+  'gitlab',
+  'bitbucket',
+  'gitea',
+];
+
+const DEFAULT_HOSTS: Record<ScmProvider, string> = {
+  github: 'github.com',
+  gitlab: 'gitlab.com',
+  bitbucket: 'bitbucket.org',
+  gitea: 'gitea.com',
+};
+
 export function readAapApiEntityConfigs(
   config: Config,
   syncEntity: string,
@@ -36,9 +53,20 @@ function readAapApiEntityConfig(
   catalogConfig: Config,
   syncEntity: string,
 ): AapConfig {
-  const baseUrl = config.getString('ansible.rhaap.baseUrl');
-  const token = config.getString('ansible.rhaap.token');
-  const checkSSL = config.getBoolean('ansible.rhaap.checkSSL') ?? true;
+  // the environment syncs from the default AAP instance unless it names one
+  const instance = catalogConfig.getOptionalString('instance');
+  const instancePath = instance
+    ? `ansible.rhaap.instances.${instance}`
+    : 'ansible.rhaap';
+  if (instance && !config.has(instancePath)) {
+    throw new InputError(
+      `Unknown AAP instance '${instance}' in catalog.providers.rhaap.${id}, it is not configured in ansible.rhaap.instances`,
+    );
+  }
+  const baseUrl = config.getString(`${instancePath}.baseUrl`);
+  const token = config.getString(`${instancePath}.token`);
+  const checkSSL =
+    config.getOptionalBoolean(`${instancePath}.checkSSL`) ?? true;
   const schedule = catalogConfig.has(`sync.${syncEntity}.schedule`)
     ? readSchedulerServiceTaskScheduleDefinitionFromConfig(
         catalogConfig.getConfig(`sync.${syncEntity}.schedule`),
@@ -59,6 +87,7 @@ function readAapApiEntityConfig(
   let surveyEnabled: boolean | undefined = undefined;
   let jobTemplateLabels: string[] = [];
   let jobTemplateExcludeLabels: string[] = [];
+  let jobTemplateApproval: JobTemplateApprovalConfig | undefined = undefined;
 
   if (syncEntity === 'jobTemplates') {
     if (catalogConfig.has(`sync.${syncEntity}.surveyEnabled`)) {
@@ -76,6 +105,15 @@ function readAapApiEntityConfig(
           `sync.${syncEntity}.excludeLabels`,
         ) ?? [];
     }
+    if (catalogConfig.has(`sync.${syncEntity}.approval`)) {
+      const approvalConfig = catalogConfig.getConfig(
+        `sync.${syncEntity}.approval`,
+      );
+      jobTemplateApproval = {
+        label: approvalConfig.getString('label'),
+        approvers: approvalConfig.getString('approvers'),
+      };
+    }
   }
 
   let pahRepositories: PAHRepositoryConfig[] = [];
@@ -99,6 +137,7 @@ function readAapApiEntityConfig(
 
   return {
     id,
+    instance,
     baseUrl,
     token,
     checkSSL,
@@ -107,6 +146,7 @@ function readAapApiEntityConfig(
     surveyEnabled,
     jobTemplateLabels,
     jobTemplateExcludeLabels,
+    jobTemplateApproval,
     pahRepositories,
   };
 }
@@ -175,21 +215,15 @@ export function readAnsibleGitContentsConfigs(
       console.log(`Common schedule found in '${envKey}'`);
     }
 
-    const sources = processScmProviders(
-      providersConfig,
-      'github',
-      envKey,
-      commonSchedule,
-    );
-    allSources.push(...sources);
-
-    const gitlabSources = processScmProviders(
-      providersConfig,
-      'gitlab',
-      envKey,
-      commonSchedule,
-    );
-    allSources.push(...gitlabSources);
+    for (const scmProvider of SCM_PROVIDERS) {
+      const sources = processScmProviders(
+        providersConfig,
+        scmProvider,
+        envKey,
+        commonSchedule,
+      );
+      allSources.push(...sources);
+    }
   }
 
   console.log(`Total sources configured: ${allSources.length}`);
@@ -267,6 +301,7 @@ function readOrgConfig(
     const tags = config.getOptionalStringArray('tags');
     const galaxyFilePaths = config.getOptionalStringArray('galaxyFilePaths');
     const crawlDepth = config.getOptionalNumber('crawlDepth') ?? 5;
+    const webhookSecret = config.getOptionalString('webhookSecret');
 
     let schedule: ScheduleDefinition;
     if (config.has('schedule')) {
@@ -300,6 +335,7 @@ function readOrgConfig(
       schedule,
       env: context.env,
       checkSSL: context.checkSSL,
+      webhookSecret,
     };
   } catch (error) {
     console.error(
@@ -310,5 +346,5 @@ function readOrgConfig(
 }
 
 export function getDefaultHost(scmProvider: ScmProvider): string {
-  return scmProvider === 'github' ? 'github.com' : 'gitlab.com';
+  return DEFAULT_HOSTS[scmProvider];
 }
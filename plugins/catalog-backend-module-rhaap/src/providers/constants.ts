@@ -1,2 +1,3 @@
 export const TEAM_MEMBER = 'Team Member';
 export const ORGANIZATION_MEMBER = 'Organization Member';
+export const AAP_INSTANCE_ANNOTATION = 'ansible.io/aap-instance';
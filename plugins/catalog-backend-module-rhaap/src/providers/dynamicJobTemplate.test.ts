@@ -13,10 +13,20 @@ import {
   getDiffModeProps,
   getInstanceGroupsProps,
   getPromptFormDetails,
+  getPreviewProps,
   getSurveyDetails,
   generateTemplate,
+  generateWorkflowTemplate,
+  getWorkflowPromptFormDetails,
+  generateAdHocCommandTemplate,
 } from './dynamicJobTemplate';
-import { IJobTemplate, ISurvey, ISpec } from '@ansible/backstage-rhaap-common';
+import {
+  IJobTemplate,
+  InstanceGroup,
+  ISurvey,
+  ISpec,
+  IWorkflowJobTemplate,
+} from '@ansible/backstage-rhaap-common';
 import {
   ANNOTATION_LOCATION,
   ANNOTATION_ORIGIN_LOCATION,
@@ -357,7 +367,10 @@ describe('dynamicJobTemplate', () => {
         type: 'array',
         'ui:field': 'AAPResourcePicker',
         resource: 'instance_groups',
-        default: ['1', '2'],
+        default: [
+          { id: 1, name: 'group1' },
+          { id: 2, name: 'group2' },
+        ],
       });
     });
   });
@@ -627,9 +640,9 @@ describe('dynamicJobTemplate', () => {
       expect((promptForm.properties as any).timeout).toBeDefined();
       expect((promptForm.properties as any).diff_mode).toBeDefined();
 
-      expect((inputVars as any).job_type).toBe('${{ parameters.job_type }}');
+      expect((inputVars as any).jobType).toBe('${{ parameters.job_type }}');
       expect((inputVars as any).inventory).toBe('${{ parameters.inventory }}');
-      expect((inputVars as any).execution_environment).toBe(
+      expect((inputVars as any).executionEnvironment).toBe(
         '${{ parameters.execution_environment }}',
       );
       expect((inputVars as any).credentials).toBe(
@@ -639,11 +652,53 @@ describe('dynamicJobTemplate', () => {
       expect((inputVars as any).forks).toBe('${{ parameters.forks }}');
       expect((inputVars as any).limit).toBe('${{ parameters.limit }}');
       expect((inputVars as any).verbosity).toBe('${{ parameters.verbosity }}');
-      expect((inputVars as any).job_slice_count).toBe(
+      expect((inputVars as any).jobSliceCount).toBe(
         '${{ parameters.job_slice_count }}',
       );
       expect((inputVars as any).timeout).toBe('${{ parameters.timeout }}');
-      expect((inputVars as any).diff_mode).toBe('${{ parameters.diff_mode }}');
+      expect((inputVars as any).diffMode).toBe('${{ parameters.diff_mode }}');
+    });
+
+    it('should prompt for branch, tags and instance groups with the template values', () => {
+      const job = {
+        ...mockJob,
+        scm_branch: 'main',
+        job_tags: 'install,configure',
+        skip_tags: '',
+        ask_scm_branch_on_launch: true,
+        ask_tags_on_launch: true,
+        ask_skip_tags_on_launch: true,
+        ask_instance_groups_on_launch: true,
+      };
+      const instanceGroups = [{ id: 3, name: 'east' }] as InstanceGroup[];
+
+      const [promptForm, inputVars] = getPromptFormDetails(job, instanceGroups);
+      const properties = promptForm.properties as any;
+
+      expect(Object.keys(properties)).toEqual([
+        'token',
+        'scm_branch',
+        'instance_groups',
+        'tags',
+        'skip_tags',
+      ]);
+      expect(properties.scm_branch.default).toBe('main');
+      expect(properties.tags).toEqual(
+        expect.objectContaining({
+          type: 'string',
+          default: 'install,configure',
+        }),
+      );
+      expect(properties.skip_tags.default).toBe('');
+      expect(properties.instance_groups.default).toEqual([
+        { id: 3, name: 'east' },
+      ]);
+      expect(inputVars).toEqual({
+        scmBranch: '${{ parameters.scm_branch }}',
+        instanceGroups: '${{ parameters.instance_groups }}',
+        jobTags: '${{ parameters.tags }}',
+        skipTags: '${{ parameters.skip_tags }}',
+      });
     });
 
     it('should return minimal prompt form for job with no ask_on_launch flags', () => {
@@ -748,14 +803,16 @@ describe('dynamicJobTemplate', () => {
         title: 'Text Question',
         description: 'Enter some text',
         type: 'string',
+        maxLength: 100,
         default: 'default text',
       });
 
-      // Test password input - Note: empty string default is falsy and won't be included
+      // Test password input - passwords never get a default
       expect(surveyForm.properties.password_var).toEqual({
         title: 'Password Question',
         description: 'Enter password',
         type: 'string',
+        maxLength: 100,
         'ui:placeholder': 'Enter password...',
         'ui:field': 'Secret',
         'ui:backstage': {
@@ -770,6 +827,7 @@ describe('dynamicJobTemplate', () => {
         title: 'Textarea Question',
         description: 'Enter long text',
         type: 'string',
+        maxLength: 100,
         'ui:widget': 'textarea',
         'ui:placeholder': 'Enter long text...',
         'ui:options': {
@@ -804,13 +862,192 @@ describe('dynamicJobTemplate', () => {
       // Test extra variables
       expect(extraVariables).toEqual({
         text_var: '${{ parameters.text_var }}',
-        password_var: '${{ parameters.password_var }}',
+        password_var: '${{ secrets.password_var }}',
         textarea_var: '${{ parameters.textarea_var }}',
         choice_var: '${{ parameters.choice_var }}',
         multiselect_var: '${{ parameters.multiselect_var }}',
       });
     });
 
+    it('should map numeric questions, limits and choice defaults', () => {
+      const mockSurvey: ISurvey = {
+        name: 'Test Survey',
+        description: 'A test survey',
+        spec: [
+          {
+            question_name: 'Replicas',
+            question_description: 'Number of replicas',
+            variable: 'replicas',
+            type: 'integer',
+            required: true,
+            default: 0,
+            choices: '',
+            min: 0,
+            max: 10,
+            new_question: false,
+          },
+          {
+            question_name: 'Ratio',
+            question_description: 'Traffic ratio',
+            variable: 'ratio',
+            type: 'float',
+            required: false,
+            default: '0.5',
+            choices: '',
+            min: 0,
+            max: 1,
+            new_question: false,
+          },
+          {
+            question_name: 'Region',
+            question_description: 'Select region',
+            variable: 'region',
+            type: 'multiplechoice',
+            required: true,
+            default: 'eu',
+            choices: 'us\neu\napac',
+            min: null,
+            max: null,
+            new_question: false,
+          },
+          {
+            question_name: 'Zones',
+            question_description: 'Select zones',
+            variable: 'zones',
+            type: 'multiselect',
+            required: true,
+            default: 'a\nb',
+            choices: 'a\nb\nc',
+            min: null,
+            max: null,
+            new_question: false,
+          },
+          {
+            question_name: 'Name',
+            question_description: 'Enter a name',
+            variable: 'name',
+            type: 'text',
+            required: false,
+            default: '',
+            choices: '',
+            min: 3,
+            max: 20,
+            new_question: false,
+          },
+        ] as unknown as ISpec[],
+      };
+
+      const [surveyForm] = getSurveyDetails({}, mockSurvey);
+
+      expect(surveyForm.properties.replicas).toEqual({
+        title: 'Replicas',
+        description: 'Number of replicas',
+        type: 'integer',
+        minimum: 0,
+        maximum: 10,
+        default: 0,
+      });
+      expect(surveyForm.properties.ratio).toEqual({
+        title: 'Ratio',
+        description: 'Traffic ratio',
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        default: 0.5,
+      });
+      expect(surveyForm.properties.region).toEqual({
+        title: 'Region',
+        description: 'Select region',
+        type: 'string',
+        enum: ['us', 'eu', 'apac'],
+        default: 'eu',
+      });
+      expect(surveyForm.properties.zones).toEqual({
+        title: 'Zones',
+        description: 'Select zones',
+        type: 'array',
+        'ui:widget': 'select',
+        uniqueItems: true,
+        minItems: 1,
+        items: {
+          enum: ['a', 'b', 'c'],
+          type: 'string',
+        },
+        default: ['a', 'b'],
+      });
+      expect(surveyForm.properties.name).toEqual({
+        title: 'Name',
+        description: 'Enter a name',
+        type: 'string',
+        minLength: 3,
+        maxLength: 20,
+      });
+    });
+
+    it('should take choices from the resource named in the description', () => {
+      const mockSurvey: ISurvey = {
+        name: 'Test Survey',
+        description: 'A test survey',
+        spec: [
+          {
+            question_name: 'Target hosts',
+            question_description: 'Hosts to patch [choices: hosts]',
+            variable: 'target_hosts',
+            type: 'multiselect',
+            required: true,
+            default: '',
+            choices: '',
+            min: null,
+            max: null,
+            new_question: false,
+          },
+          {
+            question_name: 'Owner',
+            question_description: '[choices: catalog:Group] Owning team',
+            variable: 'owner',
+            type: 'multiplechoice',
+            required: false,
+            default: '',
+            choices: '',
+            min: null,
+            max: null,
+            new_question: false,
+          },
+        ] as unknown as ISpec[],
+      };
+
+      const [surveyForm, extraVariables] = getSurveyDetails({}, mockSurvey, {
+        inventoryId: 3,
+      });
+
+      expect(surveyForm.properties.target_hosts).toEqual({
+        title: 'Target hosts',
+        description: 'Hosts to patch',
+        type: 'array',
+        minItems: 1,
+        'ui:field': 'AAPResourcePicker',
+        resource: 'hosts',
+        idKey: 'name',
+        nameKey: 'name',
+        dependsOn: 'inventory',
+        inventoryId: 3,
+      });
+      expect(surveyForm.properties.owner).toEqual({
+        title: 'Owner',
+        description: 'Owning team',
+        'ui:field': 'AAPResourcePicker',
+        resource: 'catalog:Group',
+        idKey: 'name',
+        nameKey: 'name',
+      });
+      expect(surveyForm.required).toEqual(['target_hosts']);
+      expect(extraVariables).toEqual({
+        target_hosts:
+          "${{ parameters.target_hosts | multiResourceFilter('name') }}",
+        owner: "${{ parameters.owner | resourceFilter('name') }}",
+      });
+    });
+
     it('should handle survey with empty spec', () => {
       const mockSurvey: ISurvey = {
         name: 'Empty Survey',
@@ -1128,7 +1365,7 @@ describe('dynamicJobTemplate', () => {
         'Please enter the following details',
       );
 
-      expect((result.spec as any).steps).toHaveLength(1);
+      expect((result.spec as any).steps).toHaveLength(2);
       expect((result.spec as any).steps[0].id).toBe('launch-job');
       expect((result.spec as any).steps[0].name).toBe('Test Job Template');
       expect((result.spec as any).steps[0].action).toBe(
@@ -1137,12 +1374,25 @@ describe('dynamicJobTemplate', () => {
       expect((result.spec as any).steps[0].input.token).toBe(
         '${{ parameters.token }}',
       );
+      expect((result.spec as any).steps[0].input.async).toBe(true);
+      expect((result.spec as any).steps[1]).toEqual({
+        id: 'wait-for-job',
+        name: 'Wait for Test Job Template',
+        action: 'rhaap:wait-for-job',
+        input: {
+          token: '${{ parameters.token }}',
+          jobId: "${{ steps['launch-job'].output.data.id }}",
+        },
+      });
       expect((result.spec as any).steps[0].input.values.template).toEqual(
         'Test Job Template',
       );
       // Verify token is NOT in values object
       expect((result.spec as any).steps[0].input.values.token).toBeUndefined();
 
+      expect((result.spec as any).output.aapJobId).toBe(
+        "${{ steps['launch-job'].output.data.id }}",
+      );
       expect((result.spec as any).output.text).toHaveLength(1);
       expect((result.spec as any).output.text[0].title).toBe(
         'Test Job Template template executed successfully',
@@ -1225,6 +1475,111 @@ describe('dynamicJobTemplate', () => {
       expect(result.metadata.tags).toEqual([]);
     });
 
+    it('should insert an approval step before the launch for the approval label', () => {
+      const result = generateTemplate({
+        baseUrl: 'https://ansible.example.com',
+        nameSpace: 'default',
+        job: mockJob,
+        survey: null,
+        instanceGroup: [],
+        approval: { label: 'dev', approvers: 'group:default/release-managers' },
+      });
+
+      expect((result.spec as any).steps).toHaveLength(3);
+      expect((result.spec as any).steps[0]).toEqual({
+        id: 'await-approval',
+        name: 'Wait for approval',
+        action: 'rhaap:await-approval',
+        input: {
+          approvers: 'group:default/release-managers',
+          title: 'Launch Test Job Template',
+        },
+      });
+      expect((result.spec as any).steps[1].id).toBe('launch-job');
+    });
+
+    it('should insert the preview steps when the job type and diff mode are prompted', () => {
+      const result = generateTemplate({
+        baseUrl: 'https://ansible.example.com',
+        nameSpace: 'default',
+        job: {
+          ...mockJob,
+          ask_job_type_on_launch: true,
+          ask_diff_mode_on_launch: true,
+        },
+        survey: null,
+        instanceGroup: [],
+      });
+
+      const steps = (result.spec as any).steps;
+      expect(steps.map((step: any) => step.id)).toEqual([
+        'preview-job',
+        'confirm-launch',
+        'launch-job',
+        'wait-for-job',
+      ]);
+      expect(steps[0]).toEqual({
+        id: 'preview-job',
+        name: 'Preview Test Job Template',
+        if: '${{ parameters.preview }}',
+        action: 'rhaap:launch-job-template',
+        input: {
+          token: '${{ parameters.token }}',
+          values: {
+            ...steps[2].input.values,
+            jobType: 'check',
+            diffMode: true,
+          },
+        },
+      });
+      expect(steps[1]).toEqual({
+        id: 'confirm-launch',
+        name: 'Confirm launch',
+        if: '${{ parameters.preview }}',
+        action: 'rhaap:confirm-launch',
+        input: {
+          preview: "${{ steps['preview-job'].output.data }}",
+          title: 'Launch Test Job Template',
+        },
+      });
+      expect(steps[2].input.values.jobType).toBe('${{ parameters.job_type }}');
+      expect((result.spec as any).parameters[0].properties.preview).toEqual(
+        getPreviewProps(),
+      );
+    });
+
+    it('should not insert the preview steps without the diff mode prompt', () => {
+      const result = generateTemplate({
+        baseUrl: 'https://ansible.example.com',
+        nameSpace: 'default',
+        job: { ...mockJob, ask_job_type_on_launch: true },
+        survey: null,
+        instanceGroup: [],
+      });
+
+      expect((result.spec as any).steps).toHaveLength(2);
+      expect(
+        (result.spec as any).parameters[0].properties.preview,
+      ).toBeUndefined();
+    });
+
+    it('should not insert an approval step without the approval label', () => {
+      const result = generateTemplate({
+        baseUrl: 'https://ansible.example.com',
+        nameSpace: 'default',
+        job: mockJob,
+        survey: null,
+        instanceGroup: [],
+        approval: {
+          label: 'production',
+          approvers: 'group:default/release-managers',
+        },
+      });
+
+      expect((result.spec as any).steps).toHaveLength(2);
+      expect((result.spec as any).steps[0].id).toBe('launch-job');
+    });
+
     it('should format tag names correctly by replacing special characters', () => {
       const jobWithSpecialLabels = {
         ...mockJob,
@@ -1478,4 +1833,157 @@ describe('dynamicJobTemplate', () => {
       expect(result.metadata.tags).toEqual(['cac', 'network', 'devops-team']);
     });
   });
+
+  describe('workflow job templates', () => {
+    const mockWorkflow = {
+      id: 20,
+      type: 'workflow_job_template',
+      name: 'Deploy Application',
+      description: 'Provision and deploy the application',
+      limit: 'web',
+      scm_branch: 'main',
+      ask_inventory_on_launch: true,
+      ask_limit_on_launch: true,
+      ask_scm_branch_on_launch: true,
+      summary_fields: {
+        inventory: { id: 3, name: 'Demo Inventory', description: '' },
+        labels: {
+          count: 1,
+          results: [{ id: 1, name: 'Prod Apps' }],
+        },
+        recent_jobs: [],
+      },
+    } as unknown as IWorkflowJobTemplate;
+
+    it('should only prompt for the fields asked on launch', () => {
+      const [promptForm, inputVars] = getWorkflowPromptFormDetails({
+        ...mockWorkflow,
+        ask_limit_on_launch: false,
+        ask_scm_branch_on_launch: false,
+      });
+
+      expect(Object.keys(promptForm.properties as object)).toEqual([
+        'token',
+        'inventory',
+      ]);
+      expect(promptForm.required).toEqual(['token', 'inventory']);
+      expect(inputVars).toEqual({ inventory: '${{ parameters.inventory }}' });
+    });
+
+    it('should generate a template launching the workflow', () => {
+      const survey: ISurvey = {
+        name: '',
+        description: '',
+        spec: [
+          {
+            type: 'text',
+            question_name: 'Version',
+            question_description: 'Version to deploy',
+            variable: 'version',
+            required: true,
+          } as ISpec,
+        ],
+      };
+
+      const result = generateWorkflowTemplate({
+        baseUrl: 'https://ansible.example.com',
+        nameSpace: 'default',
+        job: mockWorkflow,
+        survey,
+      });
+
+      expect(result.metadata.name).toBe('deploy-application-workflow');
+      expect(result.metadata.title).toBe('Deploy Application');
+      expect(result.metadata.aapWorkflowJobTemplateId).toBe(20);
+      expect(result.metadata.tags).toEqual(['prod-apps']);
+      expect(result.metadata.annotations).toEqual({
+        [ANNOTATION_LOCATION]:
+          'url:https://ansible.example.com/execution/templates/workflow-job-template/20/details',
+        [ANNOTATION_ORIGIN_LOCATION]:
+          'url:https://ansible.example.com/execution/templates/workflow-job-template/20/details',
+      });
+
+      const spec = result.spec as any;
+      expect(spec.parameters[0].required).toEqual([
+        'token',
+        'inventory',
+        'version',
+      ]);
+      expect(spec.parameters[0].properties.scm_branch.default).toBe('main');
+      expect(spec.steps).toEqual([
+        {
+          id: 'launch-workflow',
+          name: 'Deploy Application',
+          action: 'rhaap:launch-workflow-job-template',
+          input: {
+            token: '${{ parameters.token }}',
+            values: {
+              template: 'Deploy Application',
+              inventory: '${{ parameters.inventory }}',
+              limit: '${{ parameters.limit }}',
+              scmBranch: '${{ parameters.scm_branch }}',
+              extraVariables: { version: '${{ parameters.version }}' },
+            },
+          },
+        },
+      ]);
+      expect(spec.output.links[0].url).toBe(
+        "${{ steps['launch-workflow'].output.data.url }}",
+      );
+    });
+  });
+
+  describe('generateAdHocCommandTemplate', () => {
+    it('should generate the built-in ad hoc command template', () => {
+      const result = generateAdHocCommandTemplate({
+        baseUrl: 'https://aap.example.com',
+        nameSpace: 'default',
+        providerId: 'development',
+      });
+
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          namespace: 'default',
+          name: 'run-ad-hoc-command-development',
+          title: 'Run ad hoc command (development)',
+          annotations: {
+            [ANNOTATION_LOCATION]:
+              'url:https://aap.example.com/execution/infrastructure/inventories',
+            [ANNOTATION_ORIGIN_LOCATION]:
+              'url:https://aap.example.com/execution/infrastructure/inventories',
+          },
+        }),
+      );
+      const parameters = (result.spec as any).parameters[0];
+      expect(parameters.required).toEqual([
+        'token',
+        'inventory',
+        'module_name',
+      ]);
+      expect(parameters.properties.module_name.default).toBe('ping');
+      expect(parameters.properties.credential).toEqual(
+        expect.objectContaining({
+          'ui:field': 'AAPResourcePicker',
+          resource: 'credentials',
+        }),
+      );
+      expect((result.spec as any).steps[0]).toEqual({
+        id: 'run-ad-hoc-command',
+        name: 'Run ad hoc command',
+        action: 'rhaap:run-ad-hoc-command',
+        input: {
+          token: '${{ parameters.token }}',
+          values: {
+            inventory: '${{ parameters.inventory }}',
+            limit: '${{ parameters.limit }}',
+            moduleName: '${{ parameters.module_name }}',
+            moduleArgs: '${{ parameters.module_args }}',
+            credential: '${{ parameters.credential }}',
+            verbosity: '${{ parameters.verbosity }}',
+            becomeEnabled: '${{ parameters.become_enabled }}',
+          },
+        },
+      });
+    });
+  });
 });
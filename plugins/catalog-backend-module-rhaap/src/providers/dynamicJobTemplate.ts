@@ -1,18 +1,22 @@
 import {
+  getSurveyChoices,
+  getSurveyDefault,
   getVerbosityObject,
   IJobTemplate,
   ILabel,
   ISpec,
   ISurvey,
   InstanceGroup,
+  IWorkflowJobTemplate,
 } from '@ansible/backstage-rhaap-common';
 import {
   ANNOTATION_LOCATION,
   ANNOTATION_ORIGIN_LOCATION,
   Entity,
 } from '@backstage/catalog-model';
-import { JsonArray, JsonObject } from '@backstage/types';
+import { JsonArray, JsonObject, JsonValue } from '@backstage/types';
 import { formatNameSpace } from '../helpers';
+import { JobTemplateApprovalConfig } from './types';
 
 export const getPromptForm = () => {
   return {
@@ -192,6 +196,16 @@ export const getDiffModeProps = (diffMode: boolean) => {
   };
 };
 
+export const getPreviewProps = () => {
+  return {
+    title: 'Preview changes',
+    description:
+      'If enabled, the job first runs in check mode with changes shown, and is only launched after you confirm the preview.',
+    type: 'boolean',
+    default: false,
+  };
+};
+
 export const getInstanceGroupsProps = (instanceGroups: InstanceGroup[]) => {
   return {
     title: 'Instance groups',
@@ -199,7 +213,7 @@ export const getInstanceGroupsProps = (instanceGroups: InstanceGroup[]) => {
     type: 'array',
     'ui:field': 'AAPResourcePicker',
     resource: 'instance_groups',
-    default: instanceGroups.map(ig => ig.id.toString()),
+    default: instanceGroups.map(ig => ({ id: ig.id, name: ig.name })),
   };
 };
 
@@ -214,28 +228,38 @@ export const getSCMBranchProps = (scmBranch: string) => {
   };
 };
 
-export const getTagsProps = (tags: string[]) => {
+export const getTagsProps = (tags: string) => {
   return {
     title: 'Tags',
-    description: 'Tags to use in job run.',
-    type: 'array',
-    'ui:field': 'AAPResourcePicker',
-    resource: 'tags',
+    description:
+      'Tags to use in job run. Use commas to separate multiple tags.',
+    type: 'string',
     default: tags,
   };
 };
 
-export const getSkipTagsProps = (skipTags: string[]) => {
+export const getSkipTagsProps = (skipTags: string) => {
   return {
     title: 'Skip Tags',
-    description: 'Tags to skip in job run.',
-    type: 'array',
-    'ui:field': 'AAPResourcePicker',
-    resource: 'skip_tags',
+    description:
+      'Tags to skip in job run. Use commas to separate multiple tags.',
+    type: 'string',
     default: skipTags,
   };
 };
 
+// Names of the rhaap:launch-job-template values that differ from the form fields.
+const LAUNCH_VALUE_KEYS: Record<string, string> = {
+  job_type: 'jobType',
+  execution_environment: 'executionEnvironment',
+  scm_branch: 'scmBranch',
+  instance_groups: 'instanceGroups',
+  tags: 'jobTags',
+  skip_tags: 'skipTags',
+  job_slice_count: 'jobSliceCount',
+  diff_mode: 'diffMode',
+};
+
 export const getPromptFormDetails = (
   job: IJobTemplate,
   instanceGroup: InstanceGroup[],
@@ -261,7 +285,7 @@ export const getPromptFormDetails = (
   }
 
   if (job.ask_scm_branch_on_launch) {
-    properties.scm_branch = getSCMBranchProps(job.scm_branch);
+    properties.scm_branch = getSCMBranchProps(job.scm_branch ?? '');
   }
 
   if (job.ask_credential_on_launch) {
@@ -281,11 +305,11 @@ export const getPromptFormDetails = (
   }
 
   if (job.ask_tags_on_launch) {
-    properties.tags = getTagsProps(job.job_tags.split(',') ?? []);
+    properties.tags = getTagsProps(job.job_tags ?? '');
   }
 
   if (job.ask_skip_tags_on_launch) {
-    properties.skip_tags = getSkipTagsProps(job.skip_tags.split(',') ?? []);
+    properties.skip_tags = getSkipTagsProps(job.skip_tags ?? '');
   }
 
   if (job.ask_forks_on_launch) {
@@ -314,7 +338,12 @@ export const getPromptFormDetails = (
 
   const inputVars: JsonObject = {};
   for (const e of Object.keys(properties)) {
-    inputVars[e] = `\${{ parameters.${e} }}`;
+    inputVars[LAUNCH_VALUE_KEYS[e] ?? e] = `\${{ parameters.${e} }}`;
+  }
+
+  // not a launch value, it adds the preview steps of the template
+  if (job.ask_job_type_on_launch && job.ask_diff_mode_on_launch) {
+    properties.preview = getPreviewProps();
   }
 
   promptForm.properties = { ...promptForm.properties, ...properties };
@@ -322,32 +351,101 @@ export const getPromptFormDetails = (
   return [promptForm, inputVars];
 };
 
+const SURVEY_INPUT_TYPES: Record<string, string> = {
+  text: 'string',
+  textarea: 'string',
+  password: 'string',
+  multiplechoice: 'string',
+  multiselect: 'array',
+  integer: 'integer',
+  float: 'number',
+};
+
+const isSurveyLimitSet = (value: unknown) =>
+  value !== null && value !== undefined && value !== '';
+
+const getSurveyLimits = (item: ISpec): JsonObject => {
+  if (item.type === 'integer' || item.type === 'float') {
+    return {
+      ...(isSurveyLimitSet(item.min) && { minimum: Number(item.min) }),
+      ...(isSurveyLimitSet(item.max) && { maximum: Number(item.max) }),
+    };
+  }
+  if (['text', 'textarea', 'password'].includes(item.type)) {
+    return {
+      ...(isSurveyLimitSet(item.min) &&
+        Number(item.min) > 0 && { minLength: Number(item.min) }),
+      ...(isSurveyLimitSet(item.max) && { maxLength: Number(item.max) }),
+    };
+  }
+  return {};
+};
+
+const SURVEY_CHOICES_PATTERN = /\s*\[choices:\s*([^\]\s]+)\s*\]/;
+const INVENTORY_RESOURCES = ['hosts', 'groups'];
+
+/**
+ * Returns the autocomplete resource a survey question takes its choices
+ * from, declared with `[choices: <resource>]` in the question description.
+ */
+export const getSurveyChoicesResource = (item: ISpec) =>
+  item.question_description?.match(SURVEY_CHOICES_PATTERN)?.[1];
+
+const getDynamicChoicesProps = (
+  item: ISpec,
+  resource: string,
+  inventoryId?: number,
+): JsonObject => ({
+  title: item.question_name,
+  description: item.question_description
+    .replace(SURVEY_CHOICES_PATTERN, '')
+    .trim(),
+  ...(item.type === 'multiselect' && {
+    type: 'array',
+    ...(item.required && { minItems: 1 }),
+  }),
+  'ui:field': 'AAPResourcePicker',
+  resource,
+  idKey: 'name',
+  nameKey: 'name',
+  ...(INVENTORY_RESOURCES.includes(resource) && {
+    dependsOn: 'inventory',
+    ...(inventoryId && { inventoryId }),
+  }),
+});
+
 export const getSurveyDetails = (
   promptForm: JsonObject,
   survey: ISurvey | null,
+  options: { inventoryId?: number } = {},
 ) => {
   const extraVariables: any = {};
   if (!survey) return [promptForm, extraVariables];
   (survey.spec ?? []).forEach((item: ISpec) => {
-    let inputType: string | null = null;
-    if (
-      item.type === 'text' ||
-      item.type === 'textarea' ||
-      item.type === 'multiplechoice' ||
-      item.type === 'password'
-    ) {
-      inputType = 'string';
-    } else if (item.type === 'multiselect') {
-      inputType = 'array';
-    } else if (item.type === 'integer') {
-      inputType = 'integer';
-    }
     const paramVar = item.variable;
+    const choicesResource = getSurveyChoicesResource(item);
+    if (choicesResource) {
+      if (!promptForm.properties) promptForm.properties = {} as JsonObject;
+      (promptForm.properties as JsonObject)[paramVar] = getDynamicChoicesProps(
+        item,
+        choicesResource,
+        options.inventoryId,
+      );
+      // The picker stores the selected objects; pass their names to AAP.
+      extraVariables[paramVar] =
+        item.type === 'multiselect'
+          ? `\${{ parameters.${paramVar} | multiResourceFilter('name') }}`
+          : `\${{ parameters.${paramVar} | resourceFilter('name') }}`;
+      return;
+    }
+    const inputType = SURVEY_INPUT_TYPES[item.type];
+    const defaultValue = getSurveyDefault(item) as JsonValue | undefined;
     if (!promptForm.properties) promptForm.properties = {} as JsonObject;
     (promptForm.properties as JsonObject)[paramVar] = {
       title: item.question_name,
       description: item.question_description,
       ...(inputType && { type: inputType }),
+      ...getSurveyLimits(item),
       ...(item.type === 'textarea' && {
         'ui:widget': 'textarea',
         'ui:placeholder': `${item.question_description}...`,
@@ -364,24 +462,25 @@ export const getSurveyDetails = (
           },
         },
       }),
-      ...(item.type === 'multiplechoice' && { enum: item.choices }),
+      ...(item.type === 'multiplechoice' && { enum: getSurveyChoices(item) }),
       ...(item.type === 'multiselect' && {
         items: {
           type: 'string',
-          enum: item.choices,
+          enum: getSurveyChoices(item),
         },
         'ui:widget': 'select',
         uniqueItems: true,
+        ...(item.required && { minItems: 1 }),
       }),
-      ...(item.default && {
-        default:
-          item.type === 'multiselect'
-            ? item.default.toString().split('\n')
-            : item.default,
-      }),
+      ...(defaultValue !== undefined &&
+        item.type !== 'password' && { default: defaultValue }),
     };
 
-    extraVariables[paramVar] = `\${{ parameters.${paramVar} }}`;
+    // Password answers are kept in the task secrets by the Secret field.
+    extraVariables[paramVar] =
+      item.type === 'password'
+        ? `\${{ secrets.${paramVar} }}`
+        : `\${{ parameters.${paramVar} }}`;
   });
 
   promptForm.required = [
@@ -394,19 +493,92 @@ export const getSurveyDetails = (
   return [promptForm, extraVariables];
 };
 
+/**
+ * Returns the steps previewing the launch when the user asks for it: the job
+ * runs in check mode with diff mode enabled, then the task waits for the user
+ * to confirm the real launch. Only job templates prompting for both the job
+ * type and diff mode can be previewed.
+ */
+export const getPreviewSteps = (
+  job: IJobTemplate,
+  launchValues: JsonObject,
+): JsonObject[] => {
+  if (!job.ask_job_type_on_launch || !job.ask_diff_mode_on_launch) {
+    return [];
+  }
+  return [
+    {
+      id: 'preview-job',
+      name: `Preview ${job.name}`,
+      if: '${{ parameters.preview }}',
+      action: 'rhaap:launch-job-template',
+      input: {
+        token: '${{ parameters.token }}',
+        values: { ...launchValues, jobType: 'check', diffMode: true },
+      },
+    },
+    {
+      id: 'confirm-launch',
+      name: 'Confirm launch',
+      if: '${{ parameters.preview }}',
+      action: 'rhaap:confirm-launch',
+      input: {
+        preview: "${{ steps['preview-job'].output.data }}",
+        title: `Launch ${job.name}`,
+      },
+    },
+  ];
+};
+
+/**
+ * Returns the approval step to run before the launch when the job template
+ * carries the label configured for approvals.
+ */
+export const getApprovalSteps = (
+  job: IJobTemplate,
+  approval?: JobTemplateApprovalConfig,
+): JsonObject[] => {
+  const labels = (job.summary_fields.labels?.results ?? []).map(
+    (label: ILabel) => label.name,
+  );
+  if (!approval || !labels.includes(approval.label)) {
+    return [];
+  }
+  return [
+    {
+      id: 'await-approval',
+      name: 'Wait for approval',
+      action: 'rhaap:await-approval',
+      input: {
+        approvers: approval.approvers,
+        title: `Launch ${job.name}`,
+      },
+    },
+  ];
+};
+
 export const generateTemplate = (options: {
   baseUrl: string;
   nameSpace: string;
   job: IJobTemplate;
   survey: ISurvey | null;
   instanceGroup: InstanceGroup[];
+  approval?: JobTemplateApprovalConfig;
 }): Entity => {
-  const { baseUrl, nameSpace, job, survey, instanceGroup } = options;
+  const { baseUrl, nameSpace, job, survey, instanceGroup, approval } = options;
   const [promptForm, inputVars] = getPromptFormDetails(job, instanceGroup);
   const [finalPromptForm, extraVariables] = getSurveyDetails(
     promptForm,
     survey,
+    { inventoryId: job.summary_fields?.inventory?.id as number | undefined },
   );
+  const launchValues: JsonObject = {
+    template: job.name,
+    ...Object.fromEntries(
+      Object.entries(inputVars).filter(([key]) => key !== 'token'),
+    ),
+    ...(survey && { extraVariables }),
+  };
   const template: Entity = {
     apiVersion: 'scaffolder.backstage.io/v1beta3',
     kind: 'Template',
@@ -432,31 +604,145 @@ export const generateTemplate = (options: {
       type: 'service',
       parameters: [finalPromptForm],
       steps: [
+        ...getPreviewSteps(job, launchValues),
+        ...getApprovalSteps(job, approval),
         {
           id: 'launch-job',
           name: job.name,
           action: 'rhaap:launch-job-template',
+          input: {
+            token: '${{ parameters.token }}',
+            values: launchValues,
+            // the task page follows the job output while the next step waits
+            async: true,
+          },
+        },
+        {
+          id: 'wait-for-job',
+          name: `Wait for ${job.name}`,
+          action: 'rhaap:wait-for-job',
+          input: {
+            token: '${{ parameters.token }}',
+            jobId: "${{ steps['launch-job'].output.data.id }}",
+          },
+        },
+      ],
+      output: {
+        aapJobId: "${{ steps['launch-job'].output.data.id }}",
+        text: [
+          {
+            title: `${job.name} template executed successfully`,
+            content:
+              // eslint-disable-next-line no-multi-str
+              " \
+              **Job ID:** ${{steps['launch-job'].output.data.id }} \
+              **Job STATUS:** ${{ steps['wait-for-job'].output.data.status }} \
+            ",
+          },
+        ],
+      },
+    },
+  };
+
+  return template;
+};
+
+export const getWorkflowPromptFormDetails = (job: IWorkflowJobTemplate) => {
+  const promptForm = getPromptForm();
+  const properties: JsonObject = {};
+  const inputVars: JsonObject = {};
+
+  if (job.ask_inventory_on_launch) {
+    properties.inventory = getInventoryProps(
+      (job.summary_fields.inventory ?? {}) as JsonObject,
+    );
+    promptForm.required = [...promptForm.required, 'inventory'];
+    inputVars.inventory = '${{ parameters.inventory }}';
+  }
+
+  if (job.ask_limit_on_launch) {
+    properties.limit = getLimitProps(job.limit ?? '');
+    inputVars.limit = '${{ parameters.limit }}';
+  }
+
+  if (job.ask_scm_branch_on_launch) {
+    properties.scm_branch = getSCMBranchProps(job.scm_branch ?? '');
+    inputVars.scmBranch = '${{ parameters.scm_branch }}';
+  }
+
+  promptForm.properties = { ...promptForm.properties, ...properties };
+
+  return [promptForm, inputVars];
+};
+
+export const generateWorkflowTemplate = (options: {
+  baseUrl: string;
+  nameSpace: string;
+  job: IWorkflowJobTemplate;
+  survey: ISurvey | null;
+}): Entity => {
+  const { baseUrl, nameSpace, job, survey } = options;
+  const [promptForm, inputVars] = getWorkflowPromptFormDetails(job);
+  const [finalPromptForm, extraVariables] = getSurveyDetails(
+    promptForm,
+    survey,
+  );
+  const location = `url:${baseUrl}/execution/templates/workflow-job-template/${job.id}/details`;
+  const template: Entity = {
+    apiVersion: 'scaffolder.backstage.io/v1beta3',
+    kind: 'Template',
+    metadata: {
+      namespace: nameSpace,
+      // suffixed so that a workflow and a job template sharing a name do not collide
+      name: `${formatNameSpace(job.name)}-workflow`,
+      title: job.name,
+      aapWorkflowJobTemplateId: job.id,
+      description: job.description,
+      tags: (job.summary_fields.labels?.results ?? []).map((label: ILabel) =>
+        label.name
+          .toLowerCase()
+          .replace(/[^a-z0-9+#-]/g, '-')
+          .replace(/-+/g, '-')
+          .replace(/^(-|-$)/g, ''),
+      ),
+      annotations: {
+        [ANNOTATION_LOCATION]: location,
+        [ANNOTATION_ORIGIN_LOCATION]: location,
+      },
+    },
+    spec: {
+      type: 'service',
+      parameters: [finalPromptForm],
+      steps: [
+        {
+          id: 'launch-workflow',
+          name: job.name,
+          action: 'rhaap:launch-workflow-job-template',
           input: {
             token: '${{ parameters.token }}',
             values: {
               template: job.name,
-              ...Object.fromEntries(
-                Object.entries(inputVars).filter(([key]) => key !== 'token'),
-              ),
+              ...inputVars,
               ...(survey && { extraVariables }),
             },
           },
         },
       ],
       output: {
+        links: [
+          {
+            title: 'View workflow job',
+            url: "${{ steps['launch-workflow'].output.data.url }}",
+          },
+        ],
         text: [
           {
-            title: `${job.name} template executed successfully`,
+            title: `${job.name} workflow executed successfully`,
             content:
               // eslint-disable-next-line no-multi-str
               " \
-              **Job ID:** ${{steps['launch-job'].output.data.id }} \
-              **Job STATUS:** ${{ steps['launch-job'].output.data.status }} \
+              **Workflow job ID:** ${{ steps['launch-workflow'].output.data.id }} \
+              **Workflow job STATUS:** ${{ steps['launch-workflow'].output.data.status }} \
             ",
           },
         ],
@@ -466,3 +752,107 @@ export const generateTemplate = (options: {
 
   return template;
 };
+
+/**
+ * Generates the built-in ad hoc command template of a provider. The template
+ * is named after the provider, so that several providers do not collide.
+ */
+export const generateAdHocCommandTemplate = (options: {
+  baseUrl: string;
+  nameSpace: string;
+  providerId: string;
+}): Entity => {
+  const { baseUrl, nameSpace, providerId } = options;
+  const promptForm = getPromptForm();
+  const properties: JsonObject = {
+    inventory: getInventoryProps({}),
+    limit: getLimitProps(''),
+    module_name: {
+      title: 'Module',
+      description:
+        'The Ansible module to run, for example ping, setup, command or shell.',
+      type: 'string',
+      default: 'ping',
+    },
+    module_args: {
+      title: 'Arguments',
+      description: 'Arguments passed to the module.',
+      type: 'string',
+    },
+    credential: {
+      title: 'Machine credential',
+      description:
+        'Select the credential for accessing the nodes the command will be run against.',
+      'ui:field': 'AAPResourcePicker',
+      resource: 'credentials',
+    },
+    verbosity: getVerbosityProps(getVerbosityObject(0)),
+    become_enabled: {
+      title: 'Privilege escalation',
+      description: 'If enabled, run the command with become.',
+      type: 'boolean',
+      default: false,
+    },
+  };
+  promptForm.required = [...promptForm.required, 'inventory', 'module_name'];
+  promptForm.properties = { ...promptForm.properties, ...properties };
+  const location = `url:${baseUrl}/execution/infrastructure/inventories`;
+  return {
+    apiVersion: 'scaffolder.backstage.io/v1beta3',
+    kind: 'Template',
+    metadata: {
+      namespace: nameSpace,
+      name: `run-ad-hoc-command-${providerId}`,
+      title: `Run ad hoc command (${providerId})`,
+      description:
+        'Run an Ansible module against the hosts of an inventory, for example a quick ping or setup check.',
+      tags: ['ad-hoc-command'],
+      annotations: {
+        [ANNOTATION_LOCATION]: location,
+        [ANNOTATION_ORIGIN_LOCATION]: location,
+      },
+    },
+    spec: {
+      type: 'service',
+      parameters: [promptForm],
+      steps: [
+        {
+          id: 'run-ad-hoc-command',
+          name: 'Run ad hoc command',
+          action: 'rhaap:run-ad-hoc-command',
+          input: {
+            token: '${{ parameters.token }}',
+            values: {
+              inventory: '${{ parameters.inventory }}',
+              limit: '${{ parameters.limit }}',
+              moduleName: '${{ parameters.module_name }}',
+              moduleArgs: '${{ parameters.module_args }}',
+              credential: '${{ parameters.credential }}',
+              verbosity: '${{ parameters.verbosity }}',
+              becomeEnabled: '${{ parameters.become_enabled }}',
+            },
+          },
+        },
+      ],
+      output: {
+        links: [
+          {
+            title: 'View ad hoc command',
+            url: "${{ steps['run-ad-hoc-command'].output.data.url }}",
+          },
+        ],
+        text: [
+          {
+            title: 'Ad hoc command executed successfully',
+            content:
+              // eslint-disable-next-line no-multi-str
+              " \
+              **Command ID:** ${{ steps['run-ad-hoc-command'].output.data.id }} \
+              **Command STATUS:** ${{ steps['run-ad-hoc-command'].output.data.status }} \
+            ",
+          },
+        ],
+      },
+    },
+  };
+};
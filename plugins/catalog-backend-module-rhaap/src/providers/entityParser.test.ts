@@ -4,7 +4,10 @@ import {
   userParser,
   aapJobTemplateParser,
   scmCollectionParser,
+  automationContentParser,
   repositoryParser,
+  aapAdHocCommandTemplateParser,
+  setAAPInstance,
 } from './entityParser';
 import {
   ANNOTATION_LOCATION,
@@ -19,6 +22,7 @@ import {
 } from '@ansible/backstage-rhaap-common';
 import type { RepositoryInfo } from '@ansible/backstage-rhaap-common';
 import type {
+  DiscoveredAutomationContent,
   DiscoveredGalaxyFile,
   AnsibleGitContentsSourceConfig,
 } from './types';
@@ -664,6 +668,60 @@ describe('entityParser', () => {
     });
   });
 
+  describe('setAAPInstance', () => {
+    it('should only annotate the entities other than templates', () => {
+      const group = organizationParser({
+        baseUrl: 'https://aap-nonprod.example.com',
+        nameSpace: 'default',
+        org: { id: 1, name: 'Platform' },
+        orgMembers: [],
+        teams: [],
+      });
+
+      const result = setAAPInstance(group, 'nonprod');
+
+      expect(result.metadata.name).toBe('platform');
+      expect(result.metadata.annotations).toEqual({
+        ...group.metadata.annotations,
+        'ansible.io/aap-instance': 'nonprod',
+      });
+    });
+
+    it('should point the steps and resource pickers of templates at the instance', () => {
+      const template = aapAdHocCommandTemplateParser({
+        baseUrl: 'https://aap-nonprod.example.com',
+        nameSpace: 'default',
+        providerId: 'secondary',
+      });
+
+      const result = setAAPInstance(template, 'nonprod') as any;
+
+      expect(result.metadata.name).toBe(
+        'run-ad-hoc-command-secondary-nonprod',
+      );
+      expect(result.metadata.title).toBe(
+        'Run ad hoc command (secondary) (nonprod)',
+      );
+      const properties = result.spec.parameters[0].properties;
+      expect(properties.inventory.instance).toBe('nonprod');
+      expect(properties.credential.instance).toBe('nonprod');
+      expect(properties.module_name.instance).toBeUndefined();
+      expect(result.spec.steps[0].input.instance).toBe('nonprod');
+      // the template of the default instance is left as is
+      expect((template as any).spec.steps[0].input.instance).toBeUndefined();
+    });
+
+    it('should leave the entities of the default instance unchanged', () => {
+      const template = aapAdHocCommandTemplateParser({
+        baseUrl: 'https://aap.example.com',
+        nameSpace: 'default',
+        providerId: 'development',
+      });
+
+      expect(setAAPInstance(template)).toBe(template);
+    });
+  });
+
   describe('scmCollectionParser', () => {
     const mockRepository: RepositoryInfo = {
       name: 'test-repo',
@@ -950,6 +1008,165 @@ describe('entityParser', () => {
     });
   });
 
+  describe('automationContentParser', () => {
+    const mockRepository: RepositoryInfo = {
+      name: 'automation',
+      fullPath: 'test-org/automation',
+      defaultBranch: 'main',
+      url: 'https://github.com/test-org/automation',
+    };
+
+    const mockSourceConfig: AnsibleGitContentsSourceConfig = {
+      env: 'development',
+      scmProvider: 'github',
+      host: 'github.com',
+      hostName: 'github',
+      organization: 'test-org',
+      enabled: true,
+      schedule: { frequency: { minutes: 30 }, timeout: { minutes: 10 } },
+    };
+
+    const location = {
+      repository: mockRepository,
+      ref: 'main',
+      refType: 'branch' as const,
+    };
+
+    const parse = (content: DiscoveredAutomationContent) =>
+      automationContentParser({
+        content,
+        sourceConfig: mockSourceConfig,
+        sourceLocation: 'url:https://github.com/test-org/automation/tree/main',
+      });
+
+    it('should parse a role with its platforms and dependencies', () => {
+      const result = parse({
+        ...location,
+        path: 'roles/nginx',
+        kind: 'role',
+        metadata: {
+          name: 'nginx',
+          namespace: 'acme',
+          license: ['MIT', 'Apache-2.0'],
+          minAnsibleVersion: '2.15',
+          platforms: [{ name: 'EL', versions: ['9'] }],
+          galaxyTags: ['Web Server'],
+          dependencies: ['acme.common'],
+        },
+      });
+
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          name: 'automation-role-nginx-main-github-github',
+          title: 'acme.nginx',
+          description: 'Ansible Role: acme.nginx',
+          tags: ['web-server', 'github', 'ansible-role'],
+        }),
+      );
+      expect(result.metadata.annotations).toEqual(
+        expect.objectContaining({
+          'backstage.io/source-location':
+            'url:https://github.com/test-org/automation/tree/main',
+          'backstage.io/view-url':
+            'https://github.com/test-org/automation/blob/main/roles/nginx/meta/main.yml',
+          'ansible.io/content-path': 'roles/nginx',
+          'ansible.io/ref-type': 'branch',
+        }),
+      );
+      expect(result.spec).toEqual({
+        type: 'ansible-role',
+        lifecycle: 'development',
+        owner: 'test-org',
+        subcomponentOf: 'component:default/test-org-automation-github-github',
+        role_name: 'nginx',
+        role_namespace: 'acme',
+        role_license: 'MIT, Apache-2.0',
+        role_min_ansible_version: '2.15',
+        role_platforms: [{ name: 'EL', versions: ['9'] }],
+        role_dependencies: ['acme.common'],
+      });
+    });
+
+    it('should parse a playbook project with its requirements', () => {
+      const playbooks = [
+        { path: 'site.yml', plays: ['Web'], hosts: ['web'], imports: [] },
+        {
+          path: 'playbooks/db.yml',
+          plays: [],
+          hosts: ['db', 'web'],
+          imports: [],
+        },
+      ];
+      const result = parse({
+        ...location,
+        ref: 'v1.0.0',
+        refType: 'tag',
+        path: '',
+        kind: 'playbook-project',
+        metadata: {
+          name: 'automation',
+          playbooks,
+          requiredCollections: [{ name: 'ansible.posix', version: '1.5.4' }],
+          requiredRoles: [],
+        },
+      });
+
+      expect(result.metadata.title).toBe('test-org/automation playbooks');
+      expect(result.metadata.annotations?.['backstage.io/view-url']).toBe(
+        'https://github.com/test-org/automation/blob/v1.0.0/site.yml',
+      );
+      expect(result.spec).toEqual(
+        expect.objectContaining({
+          type: 'ansible-playbook-project',
+          lifecycle: 'production',
+          project_playbooks: playbooks,
+          project_hosts: ['web', 'db'],
+          project_required_collections: [
+            { name: 'ansible.posix', version: '1.5.4' },
+          ],
+        }),
+      );
+      expect(result.spec?.project_required_roles).toBeUndefined();
+    });
+
+    it('should parse a rulebook with its sources', () => {
+      const result = parse({
+        ...location,
+        path: 'rulebooks/alerts.yml',
+        kind: 'rulebook',
+        metadata: {
+          name: 'alerts',
+          rulesets: [
+            {
+              name: 'Webhooks',
+              hosts: ['all'],
+              sources: ['ansible.eda.webhook'],
+              ruleCount: 2,
+            },
+            {
+              name: 'Alerts',
+              hosts: ['all'],
+              sources: ['ansible.eda.alertmanager', 'ansible.eda.webhook'],
+              ruleCount: 1,
+            },
+          ],
+        },
+      });
+
+      expect(result.metadata.tags).toEqual(['github', 'eda-rulebook']);
+      expect(result.metadata.annotations?.['backstage.io/view-url']).toBe(
+        'https://github.com/test-org/automation/blob/main/rulebooks/alerts.yml',
+      );
+      expect(result.spec).toEqual(
+        expect.objectContaining({
+          type: 'eda-rulebook',
+          rulebook_name: 'alerts',
+          rulebook_sources: ['ansible.eda.webhook', 'ansible.eda.alertmanager'],
+        }),
+      );
+    });
+  });
+
   describe('repositoryParser', () => {
     const mockRepository: RepositoryInfo = {
       name: 'test-repo',
@@ -1027,6 +1244,22 @@ describe('entityParser', () => {
       ]);
     });
 
+    it('should include automation content entity names when provided', () => {
+      const result = repositoryParser({
+        repository: mockRepository,
+        sourceConfig: mockSourceConfig,
+        collectionCount: 1,
+        collectionEntityNames: ['collection-a'],
+        contentEntityNames: ['role-a'],
+      });
+
+      expect(result.spec?.repository_automation_content).toEqual(['role-a']);
+      expect(result.spec?.dependsOn).toEqual([
+        'component:default/collection-a',
+        'component:default/role-a',
+      ]);
+    });
+
     it('should use repository URL when available', () => {
       const result = repositoryParser({
         repository: mockRepository,
@@ -17,10 +17,16 @@ import {
   Team,
   User,
   InstanceGroup,
+  IWorkflowJobTemplate,
 } from '@ansible/backstage-rhaap-common';
-import { generateTemplate } from './dynamicJobTemplate';
+import {
+  generateAdHocCommandTemplate,
+  generateTemplate,
+  generateWorkflowTemplate,
+} from './dynamicJobTemplate';
 import {
   generateSourceId,
+  generateAutomationContentEntityName,
   generateRepositoryEntityName,
   getDefaultHost,
   sanitizeEntityName,
@@ -28,13 +34,22 @@ import {
   sanitizeHostName,
 } from './ansible-collections/utils';
 import type {
+  AutomationContentParserOptions,
   CollectionParserOptions,
   RepositoryParserOptions,
 } from './ansible-collections/utils';
-import type { AnsibleGitContentsSourceConfig, GalaxyMetadata } from './types';
+import { JsonObject } from '@backstage/types';
+import { AAP_INSTANCE_ANNOTATION } from './constants';
+import type {
+  AnsibleGitContentsSourceConfig,
+  DiscoveredAutomationContent,
+  GalaxyMetadata,
+  JobTemplateApprovalConfig,
+} from './types';
 
 // Re export types and helpers for external use
 export type {
+  AutomationContentParserOptions,
   CollectionParserOptions,
   RepositoryParserOptions,
 } from './ansible-collections/utils';
@@ -43,6 +58,7 @@ export {
   createCollectionKey,
   generateSourceId,
   generateCollectionEntityName,
+  generateAutomationContentEntityName,
   generateRepositoryEntityName,
   createRepositoryKey,
   parseDependencies,
@@ -167,10 +183,86 @@ export const aapJobTemplateParser = (options: {
   job: IJobTemplate;
   survey: ISurvey | null;
   instanceGroup: InstanceGroup[];
+  approval?: JobTemplateApprovalConfig;
 }): Entity => {
   return generateTemplate(options);
 };
 
+export const aapWorkflowJobTemplateParser = (options: {
+  baseUrl: string;
+  nameSpace: string;
+  job: IWorkflowJobTemplate;
+  survey: ISurvey | null;
+}): Entity => {
+  return generateWorkflowTemplate(options);
+};
+
+export const aapAdHocCommandTemplateParser = (options: {
+  baseUrl: string;
+  nameSpace: string;
+  providerId: string;
+}): Entity => {
+  return generateAdHocCommandTemplate(options);
+};
+
+/**
+ * Marks an entity as synced from the given AAP instance. Templates are also
+ * renamed after the instance, so that the same job template in several
+ * instances does not collide, and their AAP steps and resource pickers are
+ * pointed at the instance.
+ */
+export function setAAPInstance(entity: Entity, instance?: string): Entity {
+  if (!instance) {
+    return entity;
+  }
+  const updated: Entity = {
+    ...entity,
+    metadata: {
+      ...entity.metadata,
+      annotations: {
+        ...entity.metadata.annotations,
+        [AAP_INSTANCE_ANNOTATION]: instance,
+      },
+    },
+  };
+  if (entity.kind !== 'Template' || !entity.spec) {
+    return updated;
+  }
+  updated.metadata.name = `${entity.metadata.name}-${instance}`;
+  updated.metadata.title = `${
+    entity.metadata.title ?? entity.metadata.name
+  } (${instance})`;
+  const parameters = (entity.spec.parameters as JsonObject[]) ?? [];
+  const steps = (entity.spec.steps as JsonObject[]) ?? [];
+  updated.spec = {
+    ...entity.spec,
+    parameters: parameters.map(page =>
+      page.properties
+        ? {
+            ...page,
+            properties: Object.fromEntries(
+              Object.entries(page.properties as JsonObject).map(
+                ([key, property]) => [
+                  key,
+                  (property as JsonObject)?.['ui:field'] === 'AAPResourcePicker'
+                    ? { ...(property as JsonObject), instance }
+                    : property,
+                ],
+              ),
+            ),
+          }
+        : page,
+    ),
+    // only the steps calling AAP take a token
+    steps: steps.map(step =>
+      (step.input as JsonObject)?.token
+        ? { ...step, input: { ...(step.input as JsonObject), instance } }
+        : step,
+    ),
+  };
+  return updated;
+}
+
 export const pahCollectionParser = (options: {
   collection: Collection;
   baseUrl: string;
@@ -444,9 +536,161 @@ export function scmCollectionParser(options: CollectionParserOptions): Entity {
   return entity;
 }
 
+function joinContentPath(directory: string, file: string): string {
+  return directory ? `${directory}/${file}` : file;
+}
+
+/** The type, title, tags and spec fields of each kind of automation content. */
+function buildAutomationContentDetails(content: DiscoveredAutomationContent): {
+  type: string;
+  title: string;
+  description: string;
+  filePath: string;
+  tags: string[];
+  spec: Record<string, unknown>;
+} {
+  switch (content.kind) {
+    case 'role': {
+      const { metadata } = content;
+      const fullName = metadata.namespace
+        ? `${metadata.namespace}.${metadata.name}`
+        : metadata.name;
+      return {
+        type: 'ansible-role',
+        title: fullName,
+        description: metadata.description || `Ansible Role: ${fullName}`,
+        filePath: joinContentPath(content.path, 'meta/main.yml'),
+        tags: metadata.galaxyTags,
+        spec: {
+          role_name: metadata.name,
+          ...(metadata.namespace && { role_namespace: metadata.namespace }),
+          ...(metadata.author && { role_author: metadata.author }),
+          ...(metadata.license && {
+            role_license: Array.isArray(metadata.license)
+              ? metadata.license.join(', ')
+              : metadata.license,
+          }),
+          ...(metadata.minAnsibleVersion && {
+            role_min_ansible_version: metadata.minAnsibleVersion,
+          }),
+          ...(metadata.platforms.length > 0 && {
+            role_platforms: metadata.platforms,
+          }),
+          ...(metadata.dependencies.length > 0 && {
+            role_dependencies: metadata.dependencies,
+          }),
+        },
+      };
+    }
+    case 'playbook-project': {
+      const { metadata } = content;
+      return {
+        type: 'ansible-playbook-project',
+        title: `${content.repository.fullPath} playbooks`,
+        description: `Ansible playbook project: ${content.repository.fullPath}`,
+        filePath: metadata.playbooks[0].path,
+        tags: [],
+        spec: {
+          project_playbooks: metadata.playbooks,
+          project_hosts: [
+            ...new Set(metadata.playbooks.flatMap(playbook => playbook.hosts)),
+          ],
+          ...(metadata.requiredCollections.length > 0 && {
+            project_required_collections: metadata.requiredCollections,
+          }),
+          ...(metadata.requiredRoles.length > 0 && {
+            project_required_roles: metadata.requiredRoles,
+          }),
+        },
+      };
+    }
+    case 'rulebook':
+    default: {
+      const { metadata } = content;
+      return {
+        type: 'eda-rulebook',
+        title: metadata.name,
+        description: `Event-Driven Ansible rulebook: ${metadata.name}`,
+        filePath: content.path,
+        tags: [],
+        spec: {
+          rulebook_name: metadata.name,
+          rulebook_rulesets: metadata.rulesets,
+          rulebook_sources: [
+            ...new Set(metadata.rulesets.flatMap(ruleset => ruleset.sources)),
+          ],
+        },
+      };
+    }
+  }
+}
+
+export function automationContentParser(
+  options: AutomationContentParserOptions,
+): Entity {
+  const { content, sourceConfig, sourceLocation } = options;
+  const { repository, ref, refType, path } = content;
+  const host = sourceConfig.host || getDefaultHost(sourceConfig.scmProvider);
+  const hostName = sanitizeHostName(sourceConfig.hostName);
+  const details = buildAutomationContentDetails(content);
+
+  const fileUrl = buildFileUrl(
+    sourceConfig.scmProvider,
+    host,
+    repository.fullPath,
+    ref,
+    details.filePath,
+  );
+
+  const tags: string[] = [
+    ...details.tags.map(tag => sanitizeTagForBackstage(tag)),
+    sourceConfig.scmProvider,
+    details.type,
+  ];
+
+  return {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: generateAutomationContentEntityName(content, sourceConfig),
+      namespace: 'default',
+      title: details.title,
+      description: details.description,
+      annotations: {
+        'backstage.io/source-location': sourceLocation,
+        'backstage.io/view-url': fileUrl,
+        'backstage.io/managed-by-location': `url:${fileUrl}`,
+        'backstage.io/managed-by-origin-location': `url:${fileUrl}`,
+        'ansible.io/scm-provider': sourceConfig.scmProvider,
+        'ansible.io/scm-host': host,
+        'ansible.io/scm-host-name': hostName,
+        'ansible.io/scm-organization': sourceConfig.organization,
+        'ansible.io/scm-repository': repository.name,
+        'ansible.io/ref': ref,
+        'ansible.io/ref-type': refType,
+        'ansible.io/content-path': path,
+        'ansible.io/discovery-source-id': generateSourceId(sourceConfig),
+      },
+      tags: [...new Set(tags.filter(Boolean))],
+    },
+    spec: {
+      type: details.type,
+      lifecycle: refType === 'tag' ? 'production' : 'development',
+      owner: sourceConfig.organization,
+      subcomponentOf: `component:default/${generateRepositoryEntityName(repository, sourceConfig)}`,
+      ...details.spec,
+    },
+  };
+}
+
 export function repositoryParser(options: RepositoryParserOptions): Entity {
-  const { repository, sourceConfig, collectionCount, collectionEntityNames } =
-    options;
+  const {
+    repository,
+    sourceConfig,
+    collectionCount,
+    collectionEntityNames,
+    contentEntityNames,
+  } = options;
 
   const host = sourceConfig.host || getDefaultHost(sourceConfig.scmProvider);
   const hostName = sanitizeHostName(sourceConfig.hostName);
@@ -469,13 +713,17 @@ export function repositoryParser(options: RepositoryParserOptions): Entity {
     {
       url: repoUrl,
       title: 'Repository',
-      icon: sourceConfig.scmProvider === 'github' ? 'github' : 'gitlab',
+      // the app has no icons for Bitbucket and Gitea
+      icon: ['github', 'gitlab'].includes(sourceConfig.scmProvider)
+        ? sourceConfig.scmProvider
+        : 'web',
     },
   ];
 
-  const hasPart = collectionEntityNames?.map(
-    (name: string) => `component:default/${name}`,
-  );
+  const hasPart = [
+    ...(collectionEntityNames ?? []),
+    ...(contentEntityNames ?? []),
+  ].map((name: string) => `component:default/${name}`);
 
   const entity: Entity = {
     apiVersion: 'backstage.io/v1alpha1',
@@ -515,7 +763,11 @@ export function repositoryParser(options: RepositoryParserOptions): Entity {
         collectionEntityNames.length > 0 && {
           repository_collections: collectionEntityNames,
         }),
-      ...(hasPart && hasPart.length > 0 && { dependsOn: hasPart }),
+      ...(contentEntityNames &&
+        contentEntityNames.length > 0 && {
+          repository_automation_content: contentEntityNames,
+        }),
+      ...(hasPart.length > 0 && { dependsOn: hasPart }),
     },
   };
 
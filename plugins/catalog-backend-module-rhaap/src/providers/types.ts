@@ -10,8 +10,15 @@ export type PAHRepositoryConfig = {
   schedule: SchedulerServiceTaskScheduleDefinition | undefined;
 };
 
+export type JobTemplateApprovalConfig = {
+  label: string;
+  approvers: string;
+};
+
 export type AapConfig = {
   id: string;
+  /** Key of the AAP instance in ansible.rhaap.instances, unset for the default instance. */
+  instance?: string;
   baseUrl: string;
   token: string;
   checkSSL: boolean;
@@ -20,6 +27,8 @@ export type AapConfig = {
   surveyEnabled?: boolean | undefined;
   jobTemplateLabels?: string[];
   jobTemplateExcludeLabels?: string[];
+  /** Job templates with the label wait for a member of the approvers group before launch. */
+  jobTemplateApproval?: JobTemplateApprovalConfig;
   /** When set, this config is for a PAH collection sync for the given repository name. */
   pahRepositories?: PAHRepositoryConfig[];
 };
@@ -48,6 +57,8 @@ export interface AnsibleGitContentsProvidersConfig {
   providers?: {
     github?: HostConfig[];
     gitlab?: HostConfig[];
+    bitbucket?: HostConfig[];
+    gitea?: HostConfig[];
   };
 }
 
@@ -65,6 +76,8 @@ export interface AnsibleGitContentsSourceConfig {
   env: string;
   /** When false, TLS verification is disabled for this host (e.g. self-signed or internal CA). Default true. */
   checkSSL?: boolean;
+  /** Secret verifying the push webhooks of the organization, see the webhook route. */
+  webhookSecret?: string;
 }
 
 export interface GalaxyMetadata {
@@ -94,6 +107,77 @@ export interface DiscoveredGalaxyFile {
   metadata: GalaxyMetadata;
 }
 
+export type AutomationContentKind = 'role' | 'playbook-project' | 'rulebook';
+
+export interface RolePlatform {
+  name: string;
+  versions: string[];
+}
+
+export interface RoleMetadata {
+  name: string;
+  namespace?: string;
+  author?: string;
+  description?: string;
+  license?: string | string[];
+  minAnsibleVersion?: string;
+  platforms: RolePlatform[];
+  galaxyTags: string[];
+  dependencies: string[];
+}
+
+export interface PlaybookMetadata {
+  path: string;
+  plays: string[];
+  hosts: string[];
+  imports: string[];
+}
+
+export interface RequirementMetadata {
+  name: string;
+  version?: string;
+}
+
+export interface PlaybookProjectMetadata {
+  name: string;
+  playbooks: PlaybookMetadata[];
+  requiredCollections: RequirementMetadata[];
+  requiredRoles: RequirementMetadata[];
+}
+
+export interface RulesetMetadata {
+  name: string;
+  hosts: string[];
+  sources: string[];
+  ruleCount: number;
+}
+
+export interface RulebookMetadata {
+  name: string;
+  rulesets: RulesetMetadata[];
+}
+
+interface DiscoveredContentLocation {
+  repository: RepositoryInfo;
+  ref: string;
+  refType: 'branch' | 'tag';
+  /** Directory of a role or playbook project, or the file of a rulebook. */
+  path: string;
+}
+
+export type DiscoveredAutomationContent = DiscoveredContentLocation &
+  (
+    | { kind: 'role'; metadata: RoleMetadata }
+    | { kind: 'playbook-project'; metadata: PlaybookProjectMetadata }
+    | { kind: 'rulebook'; metadata: RulebookMetadata }
+  );
+
+/** Everything discovered by crawling repositories. */
+export interface DiscoveredContent {
+  galaxyFiles: DiscoveredGalaxyFile[];
+  automationContent: DiscoveredAutomationContent[];
+}
+
 export interface CollectionIdentifier {
   scmProvider: ScmProvider;
   hostName: string;
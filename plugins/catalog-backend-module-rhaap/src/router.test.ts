@@ -28,12 +28,14 @@ jest.mock('@ansible/backstage-rhaap-common', () => {
 
 import express from 'express';
 import request from 'supertest';
+import { createHmac } from 'crypto';
 import { createRouter } from './router';
 import { AAPEntityProvider } from './providers/AAPEntityProvider';
 import { AAPJobTemplateProvider } from './providers/AAPJobTemplateProvider';
 import { EEEntityProvider } from './providers/EEEntityProvider';
 import { PAHCollectionProvider } from './providers/PAHCollectionProvider';
 import type { AnsibleGitContentsProvider } from './providers/AnsibleGitContentsProvider';
+import type { SyncHistoryStore } from './syncHistory';
 import { LoggerService } from '@backstage/backend-plugin-api';
 import { ConfigReader } from '@backstage/config';
 
@@ -1132,6 +1134,65 @@ describe('createRouter', () => {
       expect(response.body.results[0].organization).toBe('matched');
     });
 
+    it('should filter Bitbucket and Gitea sources and reject unknown providers', async () => {
+      const github = createMockGitContentsProvider({
+        sourceId: 'dev:github:github.com:acme',
+      });
+      const bitbucket = createMockGitContentsProvider({
+        sourceId: 'dev:bitbucket:bitbucket-dc:ans',
+      });
+      const gitea = createMockGitContentsProvider({
+        sourceId: 'dev:gitea:gitea:ansible',
+      });
+      for (const provider of [github, bitbucket, gitea]) {
+        provider.startSync.mockReturnValue({ started: true, skipped: false });
+      }
+
+      const testApp = await createAppWithSyncProviders([
+        github,
+        bitbucket,
+        gitea,
+      ]);
+
+      const response = await request(testApp)
+        .post('/ansible/sync/from-scm/content')
+        .send({
+          filters: [
+            { scmProvider: 'bitbucket' },
+            {
+              scmProvider: 'gitea',
+              hostName: 'gitea',
+              organization: 'ansible',
+            },
+            { scmProvider: 'azure' },
+          ],
+        });
+
+      expect(response.status).toBe(207);
+      expect(github.startSync).not.toHaveBeenCalled();
+      expect(response.body.results).toEqual([
+        expect.objectContaining({
+          scmProvider: 'bitbucket',
+          organization: 'ans',
+          status: 'sync_started',
+        }),
+        expect.objectContaining({
+          scmProvider: 'gitea',
+          organization: 'ansible',
+          status: 'sync_started',
+        }),
+        expect.objectContaining({
+          scmProvider: 'azure',
+          status: 'invalid',
+          error: {
+            code: 'INVALID_FILTER',
+            message:
+              "Unsupported scmProvider 'azure'. Supported: github, gitlab, bitbucket, gitea",
+          },
+        }),
+      ]);
+    });
+
     it('should return 207 when mixed results and include summary counts', async () => {
       const started = createMockGitContentsProvider({
         sourceId: 'dev:github:github.com:org1',
@@ -1157,6 +1218,221 @@ describe('createRouter', () => {
     });
   });
 
+  describe('POST /ansible/webhooks/:scmProvider', () => {
+    const secret = 'webhook-secret';
+    const body = JSON.stringify({
+      ref: 'refs/tags/v1.0.0',
+      deleted: false,
+      repository: {
+        name: 'collections',
+        full_name: 'my-org/collections',
+        html_url: 'https://github.com/my-org/collections',
+        default_branch: 'main',
+      },
+    });
+    const signature = `sha256=${createHmac('sha256', secret)
+      .update(body)
+      .digest('hex')}`;
+
+    const createWebhookProvider = (
+      overrides: { sourceId?: string; webhookSecret?: string } = {},
+    ) =>
+      Object.assign(
+        createMockGitContentsProvider({ sourceId: overrides.sourceId }),
+        {
+          getWebhookSecret: jest
+            .fn()
+            .mockReturnValue(
+              'webhookSecret' in overrides ? overrides.webhookSecret : secret,
+            ),
+          handlesPush: jest.fn().mockReturnValue(true),
+          syncPush: jest
+            .fn()
+            .mockResolvedValue({ status: 'synced', added: 2, removed: 0 }),
+        },
+      );
+
+    const createWebhookApp = async (
+      providers: jest.Mocked<AnsibleGitContentsProvider>[],
+    ) =>
+      express().use(
+        await createRouter({
+          logger: mockLogger,
+          config: mockConfig,
+          aapEntityProvider: mockAAPEntityProvider,
+          jobTemplateProvider: mockJobTemplateProvider,
+          eeEntityProvider: mockEEEntityProvider,
+          pahCollectionProviders: [],
+          ansibleGitContentsProviders: providers,
+        }),
+      );
+
+    const postGithub = (testApp: express.Express, headers = {}) =>
+      request(testApp)
+        .post('/ansible/webhooks/github')
+        .set('Content-Type', 'application/json')
+        .set({
+          'X-GitHub-Event': 'push',
+          'X-Hub-Signature-256': signature,
+          ...headers,
+        })
+        .send(body);
+
+    it('should sync the pushed ref in the sources verifying the signature', async () => {
+      const provider = createWebhookProvider();
+      const otherProvider = createWebhookProvider({
+        sourceId: 'dev:github:github.com:other-org',
+        webhookSecret: 'other-secret',
+      });
+
+      const response = await postGithub(
+        await createWebhookApp([provider, otherProvider]),
+      );
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({
+        status: 'accepted',
+        sources: ['dev:github:github.com:my-org'],
+      });
+      expect(provider.syncPush).toHaveBeenCalledWith({
+        scmProvider: 'github',
+        host: 'github.com',
+        repository: {
+          name: 'collections',
+          fullPath: 'my-org/collections',
+          defaultBranch: 'main',
+          url: 'https://github.com/my-org/collections',
+          description: undefined,
+        },
+        ref: 'v1.0.0',
+        refType: 'tag',
+        deleted: false,
+      });
+      expect(otherProvider.syncPush).not.toHaveBeenCalled();
+    });
+
+    it('should verify the GitLab token', async () => {
+      const provider = createWebhookProvider();
+      const testApp = await createWebhookApp([provider]);
+      const gitlabBody = {
+        ref: 'refs/heads/main',
+        after: 'abc123',
+        project: {
+          name: 'collections',
+          path_with_namespace: 'my-org/collections',
+          web_url: 'https://gitlab.com/my-org/collections',
+          default_branch: 'main',
+        },
+      };
+
+      const rejected = await request(testApp)
+        .post('/ansible/webhooks/gitlab')
+        .set({ 'X-Gitlab-Event': 'Push Hook', 'X-Gitlab-Token': 'wrong' })
+        .send(gitlabBody);
+      const accepted = await request(testApp)
+        .post('/ansible/webhooks/gitlab')
+        .set({ 'X-Gitlab-Event': 'Push Hook', 'X-Gitlab-Token': secret })
+        .send(gitlabBody);
+
+      expect(rejected.status).toBe(401);
+      expect(rejected.body.error).toBe('Invalid webhook signature');
+      expect(accepted.status).toBe(202);
+      expect(provider.syncPush).toHaveBeenCalledTimes(1);
+      expect(provider.syncPush).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: 'main', refType: 'branch' }),
+      );
+    });
+
+    it('should return 401 when the signature does not match', async () => {
+      const provider = createWebhookProvider();
+
+      const response = await postGithub(await createWebhookApp([provider]), {
+        'X-Hub-Signature-256': 'sha256=0000',
+      });
+
+      expect(response.status).toBe(401);
+      expect(provider.syncPush).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when no source with a webhook secret syncs the repository', async () => {
+      const withoutSecret = createWebhookProvider({ webhookSecret: undefined });
+      const otherRepository = createWebhookProvider();
+      otherRepository.handlesPush.mockReturnValue(false);
+
+      const response = await postGithub(
+        await createWebhookApp([withoutSecret, otherRepository]),
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe(
+        'No source with a webhook secret syncs my-org/collections on github.com',
+      );
+    });
+
+    it('should ignore the events other than pushes', async () => {
+      const provider = createWebhookProvider();
+
+      const response = await postGithub(await createWebhookApp([provider]), {
+        'X-GitHub-Event': 'ping',
+      });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ status: 'ignored' });
+      expect(provider.syncPush).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid payloads', async () => {
+      const testApp = await createWebhookApp([createWebhookProvider()]);
+
+      const invalidJson = await request(testApp)
+        .post('/ansible/webhooks/github')
+        .set({ 'Content-Type': 'application/json', 'X-GitHub-Event': 'push' })
+        .send('{"ref":');
+      const missingRef = await request(testApp)
+        .post('/ansible/webhooks/github')
+        .set('X-GitHub-Event', 'push')
+        .send({ repository: {} });
+      const unsupported = await request(testApp)
+        .post('/ansible/webhooks/bitbucket')
+        .send({});
+
+      expect(invalidJson.status).toBe(400);
+      expect(invalidJson.body.error).toMatch(/^Invalid webhook payload: /);
+      expect(missingRef.status).toBe(400);
+      expect(missingRef.body.error).toBe(
+        'Invalid webhook payload: The push event has no ref',
+      );
+      expect(unsupported.status).toBe(400);
+      expect(unsupported.body.error).toMatch(/Unsupported SCM provider/);
+    });
+
+    it('should return 400 when the body was already parsed', async () => {
+      const testApp = await createAppWithSyncProviders([
+        createWebhookProvider(),
+      ]);
+
+      const response = await postGithub(testApp);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        'The webhook payload could not be read.',
+      );
+    });
+
+    it('should log the failed syncs', async () => {
+      const provider = createWebhookProvider();
+      provider.syncPush.mockRejectedValue(new Error('rate limited'));
+
+      const response = await postGithub(await createWebhookApp([provider]));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(response.status).toBe(202);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Webhook sync of the tag 'v1.0.0' of my-org/collections in dev:github:github.com:my-org failed: Error: rate limited",
+      );
+    });
+  });
+
   describe('GET /git_readme_content', () => {
     it('should return 400 when required query parameters are missing', async () => {
       const response = await request(app).get('/git_readme_content');
@@ -1167,11 +1443,29 @@ describe('createRouter', () => {
 
     it('should return 400 for unsupported SCM provider', async () => {
       const response = await request(app).get(
-        '/git_readme_content?scmProvider=bitbucket&host=h&owner=o&repo=r&filePath=README.md&ref=main',
+        '/git_readme_content?scmProvider=azure&host=h&owner=o&repo=r&filePath=README.md&ref=main',
       );
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toMatch(/Unsupported SCM provider/);
+      expect(response.body.error).toBe(
+        "Unsupported SCM provider 'azure'. Supported: github, gitlab, bitbucket, gitea",
+      );
+    });
+
+    it('should fetch the README from Bitbucket and Gitea', async () => {
+      const bitbucket = await request(app).get(
+        '/git_readme_content?scmProvider=bitbucket&host=bitbucket.example.com&owner=ANS&repo=myrepo&filePath=README.md&ref=main',
+      );
+      const gitea = await request(app).get(
+        '/git_readme_content?scmProvider=gitea&host=gitea.example.com&owner=myorg&repo=myrepo&filePath=README.md&ref=v1.0.0',
+      );
+
+      expect(bitbucket.status).toBe(200);
+      expect(bitbucket.text).toBe('# README content');
+      expect(gitea.status).toBe(200);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Fetching README from gitea://gitea.example.com/myorg/myrepo/README.md@v1.0.0',
+      );
     });
 
     it('should log fetch message, call createClient and getFileContent, and return 200 with text/markdown', async () => {
@@ -1248,6 +1542,276 @@ describe('createRouter', () => {
     });
   });
 
+  describe('GET /ansible/sync/history', () => {
+    const runs = [
+      {
+        id: 'run-1',
+        providerName: 'PAHCollectionProvider:test',
+        sourceId: 'test:pah:validated',
+        trigger: 'manual',
+        outcome: 'failure',
+        startedAt: '2025-01-02T00:00:00.000Z',
+        finishedAt: '2025-01-02T00:01:00.000Z',
+        counts: null,
+        error: 'PAH unavailable',
+      },
+    ];
+    const syncHistory = { list: jest.fn(), getState: jest.fn() };
+
+    const createHistoryApp = async () =>
+      express().use(
+        await createRouter({
+          logger: mockLogger,
+          config: mockConfig,
+          aapEntityProvider: mockAAPEntityProvider,
+          jobTemplateProvider: mockJobTemplateProvider,
+          eeEntityProvider: mockEEEntityProvider,
+          pahCollectionProviders: [mockPAHCollectionProvider],
+          syncHistory: syncHistory as unknown as SyncHistoryStore,
+        }),
+      );
+
+    it('should return the runs matching the query', async () => {
+      syncHistory.list.mockResolvedValue(runs);
+
+      const response = await request(await createHistoryApp()).get(
+        '/ansible/sync/history?sourceId=test:pah:validated&outcome=failure&limit=10&offset=5',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ runs });
+      expect(syncHistory.list).toHaveBeenCalledWith({
+        providerName: undefined,
+        sourceId: 'test:pah:validated',
+        outcome: 'failure',
+        limit: 10,
+        offset: 5,
+      });
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      const response = await request(await createHistoryApp()).get(
+        '/ansible/sync/history?outcome=maybe&limit=ten&offset=-1',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        'Invalid query parameters: limit, offset, outcome',
+      );
+      expect(syncHistory.list).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the query fails', async () => {
+      syncHistory.list.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await request(await createHistoryApp()).get(
+        '/ansible/sync/history',
+      );
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe(
+        'Failed to get the sync history: Database unavailable',
+      );
+    });
+
+    it('should return 501 without sync history', async () => {
+      const response = await request(app).get('/ansible/sync/history');
+
+      expect(response.status).toBe(501);
+    });
+
+    it('should report the sync status recorded in the history', async () => {
+      const empty = {
+        lastSyncTime: null,
+        lastFailedSyncTime: null,
+        lastSyncStatus: null,
+        counts: null,
+        previousCounts: null,
+      };
+      syncHistory.getState.mockImplementation(async (name: string) =>
+        name === 'PAHCollectionProvider:test'
+          ? {
+              lastSyncTime: '2025-01-01T00:00:00.000Z',
+              lastFailedSyncTime: '2025-01-02T00:01:00.000Z',
+              lastSyncStatus: 'failure',
+              counts: { collections: 12 },
+              previousCounts: { collections: 10 },
+            }
+          : { ...empty, lastSyncTime: `${name} time` },
+      );
+
+      const response = await request(await createHistoryApp()).get(
+        '/ansible/sync/status',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.aap).toEqual({
+        orgsUsersTeams: { lastSync: 'AapEntityProvider:test time' },
+        jobTemplates: { lastSync: 'AAPJobTemplateProvider:test time' },
+      });
+      expect(response.body.content.providers[0]).toMatchObject({
+        sourceId: 'test:pah:validated',
+        syncInProgress: false,
+        lastSyncTime: '2025-01-01T00:00:00.000Z',
+        lastFailedSyncTime: '2025-01-02T00:01:00.000Z',
+        lastSyncStatus: 'failure',
+        collectionsFound: 12,
+        collectionsDelta: 2,
+      });
+      expect(mockPAHCollectionProvider.getLastSyncTime).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /aap/audit', () => {
+    const events = [
+      {
+        id: 'event-1',
+        timestamp: '2025-01-02T00:00:00.000Z',
+        userEntityRef: 'user:default/alice',
+        taskId: 'task-1',
+        method: 'POST',
+        endpoint: '/api/controller/v2/job_templates/12/launch/',
+        resourceId: 12,
+        tokenType: 'user',
+        outcome: 'success',
+        error: null,
+      },
+    ];
+    const audit = { record: jest.fn(), query: jest.fn() };
+    const httpAuth = { credentials: jest.fn(), issueUserCookie: jest.fn() };
+    const userInfo = { getUserInfo: jest.fn() };
+
+    beforeEach(() => {
+      httpAuth.credentials.mockResolvedValue({
+        $$type: '@backstage/BackstageCredentials',
+        principal: { type: 'user', userEntityRef: 'user:default/admin' },
+      });
+      userInfo.getUserInfo.mockResolvedValue({
+        userEntityRef: 'user:default/admin',
+        ownershipEntityRefs: ['user:default/admin', 'group:default/aap-admins'],
+      });
+    });
+
+    const createAuditApp = async () =>
+      express().use(
+        await createRouter({
+          logger: mockLogger,
+          config: mockConfig,
+          aapEntityProvider: mockAAPEntityProvider,
+          jobTemplateProvider: mockJobTemplateProvider,
+          eeEntityProvider: mockEEEntityProvider,
+          pahCollectionProviders: [],
+          audit: { service: audit, httpAuth, userInfo },
+        }),
+      );
+
+    it('should return the events matching the query', async () => {
+      audit.query.mockResolvedValue(events);
+
+      const response = await request(await createAuditApp()).get(
+        '/aap/audit?userEntityRef=user:default/alice&taskId=task-1&resourceId=12&outcome=success&from=2025-01-01T01:00:00%2B01:00&limit=10&offset=5',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ events });
+      expect(audit.query).toHaveBeenCalledWith({
+        userEntityRef: 'user:default/alice',
+        taskId: 'task-1',
+        resourceId: 12,
+        outcome: 'success',
+        from: '2025-01-01T00:00:00.000Z',
+        to: undefined,
+        limit: 10,
+        offset: 5,
+      });
+    });
+
+    it('should let backend services read the events', async () => {
+      httpAuth.credentials.mockResolvedValue({
+        $$type: '@backstage/BackstageCredentials',
+        principal: { type: 'service', subject: 'plugin:scaffolder' },
+      });
+      audit.query.mockResolvedValue(events);
+
+      const response = await request(await createAuditApp()).get('/aap/audit');
+
+      expect(response.status).toBe(200);
+      expect(httpAuth.credentials).toHaveBeenCalledWith(expect.anything(), {
+        allow: ['user', 'service'],
+      });
+      expect(userInfo.getUserInfo).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for users outside the AAP administrators', async () => {
+      userInfo.getUserInfo.mockResolvedValue({
+        userEntityRef: 'user:default/alice',
+        ownershipEntityRefs: ['user:default/alice', 'group:default/devs'],
+      });
+
+      const response = await request(await createAuditApp()).get('/aap/audit');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe(
+        'Only the AAP administrators can read the AAP audit trail.',
+      );
+      expect(audit.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 without valid credentials', async () => {
+      httpAuth.credentials.mockRejectedValue(new Error('Missing credentials'));
+
+      const response = await request(await createAuditApp()).get('/aap/audit');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Missing credentials');
+      expect(audit.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      const response = await request(await createAuditApp()).get(
+        '/aap/audit?resourceId=abc&outcome=maybe&to=yesterday&limit=-1',
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        'Invalid query parameters: resourceId, limit, outcome, to',
+      );
+      expect(audit.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 501 when no audit sink can be queried', async () => {
+      const error = new Error(
+        'None of the configured AAP audit sinks can be queried',
+      );
+      error.name = 'NotImplementedError';
+      audit.query.mockRejectedValue(error);
+
+      const response = await request(await createAuditApp()).get('/aap/audit');
+
+      expect(response.status).toBe(501);
+      expect(response.body.error).toContain(
+        'None of the configured AAP audit sinks can be queried',
+      );
+    });
+
+    it('should return 500 when the query fails', async () => {
+      audit.query.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await request(await createAuditApp()).get('/aap/audit');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe(
+        'Failed to query the AAP audit trail: Database unavailable',
+      );
+    });
+
+    it('should return 501 without audit service', async () => {
+      const response = await request(app).get('/aap/audit');
+
+      expect(response.status).toBe(501);
+    });
+  });
+
   describe('Router setup', () => {
     it('should use express.json() middleware', async () => {
       const response = await request(app)
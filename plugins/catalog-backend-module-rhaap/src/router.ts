@@ -19,7 +19,11 @@ import type { Config } from '@backstage/config';
 
 import { AAPJobTemplateProvider } from './providers/AAPJobTemplateProvider';
 import { AAPEntityProvider } from './providers/AAPEntityProvider';
-import { LoggerService } from '@backstage/backend-plugin-api';
+import {
+  HttpAuthService,
+  LoggerService,
+  UserInfoService,
+} from '@backstage/backend-plugin-api';
 import { EEEntityProvider } from './providers/EEEntityProvider';
 import { PAHCollectionProvider } from './providers/PAHCollectionProvider';
 import { AnsibleGitContentsProvider } from './providers/AnsibleGitContentsProvider';
@@ -35,7 +39,22 @@ import {
   buildInvalidRepositoryResults,
   resolveProvidersToRun,
 } from './helpers';
-import { ScmClientFactory } from '@ansible/backstage-rhaap-common';
+import {
+  AAPAuditService,
+  canReadAAPAudit,
+  parseAAPAuditQuery,
+  ScmClientFactory,
+  ScmProvider,
+} from '@ansible/backstage-rhaap-common';
+import { SCM_PROVIDERS } from './providers/config';
+import { SyncHistoryStore, SyncRunQuery } from './syncHistory';
+import {
+  ScmPushEvent,
+  parseGithubEvent,
+  parseGitlabEvent,
+  verifyGithubSignature,
+  verifyGitlabToken,
+} from './webhooks';
 
 export async function createRouter(options: {
   logger: LoggerService;
@@ -45,6 +64,13 @@ export async function createRouter(options: {
   eeEntityProvider: EEEntityProvider;
   pahCollectionProviders: PAHCollectionProvider[];
   ansibleGitContentsProviders?: AnsibleGitContentsProvider[];
+  /** Route of the audit trail, restricted to the AAP administrators. */
+  audit?: {
+    service: AAPAuditService;
+    httpAuth: HttpAuthService;
+    userInfo: UserInfoService;
+  };
+  syncHistory?: SyncHistoryStore;
 }): Promise<express.Router> {
   const {
     logger,
@@ -54,6 +80,8 @@ export async function createRouter(options: {
     eeEntityProvider,
     pahCollectionProviders,
     ansibleGitContentsProviders = [],
+    audit,
+    syncHistory,
   } = options;
   const router = Router();
   const scmClientFactory = new ScmClientFactory({ rootConfig: config, logger });
@@ -72,6 +100,39 @@ export async function createRouter(options: {
     _GIT_CONTENTS_PROVIDERS.set(provider.getSourceId(), provider);
   }
 
+  // the history in the database covers the syncs of all the backend
+  // instances, the providers only know about the ones run by this instance
+  const lastSyncTime = async (
+    provider: AAPEntityProvider | AAPJobTemplateProvider,
+  ) =>
+    syncHistory
+      ? (await syncHistory.getState(provider.getProviderName())).lastSyncTime
+      : provider.getLastSyncTime();
+
+  const contentSyncState = async (
+    provider: PAHCollectionProvider | AnsibleGitContentsProvider,
+  ) => {
+    if (!syncHistory) {
+      return {
+        lastSyncTime: provider.getLastSyncTime(),
+        lastFailedSyncTime: provider.getLastFailedSyncTime(),
+        lastSyncStatus: provider.getLastSyncStatus(),
+        collectionsFound: provider.getCurrentCollectionsCount(),
+        collectionsDelta: provider.getCollectionsDelta(),
+      };
+    }
+    const state = await syncHistory.getState(provider.getProviderName());
+    const collectionsFound = state.counts?.collections ?? 0;
+    return {
+      lastSyncTime: state.lastSyncTime,
+      lastFailedSyncTime: state.lastFailedSyncTime,
+      lastSyncStatus: state.lastSyncStatus,
+      collectionsFound,
+      collectionsDelta:
+        collectionsFound - (state.previousCounts?.collections ?? 0),
+    };
+  };
+
   router.get('/health', (_, response) => {
     logger.info('PONG!');
     response.json({ status: 'ok' });
@@ -127,44 +188,40 @@ export async function createRouter(options: {
       if (aapEntities || noQueryParams) {
         result.aap = {
           orgsUsersTeams: {
-            lastSync: aapEntityProvider.getLastSyncTime(),
+            lastSync: await lastSyncTime(aapEntityProvider),
           },
           jobTemplates: {
-            lastSync: jobTemplateProvider.getLastSyncTime(),
+            lastSync: await lastSyncTime(jobTemplateProvider),
           },
         };
       }
 
       if (ansibleContents || noQueryParams) {
-        const pahProviders = pahCollectionProviders.map(provider => ({
-          sourceId: provider.getSourceId(),
-          repository: provider.getPahRepositoryName(),
-          providerName: provider.getProviderName(),
-          enabled: provider.isEnabled(),
-          syncInProgress: provider.getIsSyncing(),
-          lastSyncTime: provider.getLastSyncTime(),
-          lastFailedSyncTime: provider.getLastFailedSyncTime(),
-          lastSyncStatus: provider.getLastSyncStatus(),
-          collectionsFound: provider.getCurrentCollectionsCount(),
-          collectionsDelta: provider.getCollectionsDelta(),
-        }));
-        const scmProviders = ansibleGitContentsProviders.map(provider => {
-          const providerInfo = parseSourceId(provider.getSourceId());
-          return {
+        const pahProviders = await Promise.all(
+          pahCollectionProviders.map(async provider => ({
             sourceId: provider.getSourceId(),
-            scmProvider: providerInfo.scmProvider,
-            hostName: providerInfo.hostName,
-            organization: providerInfo.organization,
+            repository: provider.getPahRepositoryName(),
             providerName: provider.getProviderName(),
             enabled: provider.isEnabled(),
             syncInProgress: provider.getIsSyncing(),
-            lastSyncTime: provider.getLastSyncTime(),
-            lastFailedSyncTime: provider.getLastFailedSyncTime(),
-            lastSyncStatus: provider.getLastSyncStatus(),
-            collectionsFound: provider.getCurrentCollectionsCount(),
-            collectionsDelta: provider.getCollectionsDelta(),
-          };
-        });
+            ...(await contentSyncState(provider)),
+          })),
+        );
+        const scmProviders = await Promise.all(
+          ansibleGitContentsProviders.map(async provider => {
+            const providerInfo = parseSourceId(provider.getSourceId());
+            return {
+              sourceId: provider.getSourceId(),
+              scmProvider: providerInfo.scmProvider,
+              hostName: providerInfo.hostName,
+              organization: providerInfo.organization,
+              providerName: provider.getProviderName(),
+              enabled: provider.isEnabled(),
+              syncInProgress: provider.getIsSyncing(),
+              ...(await contentSyncState(provider)),
+            };
+          }),
+        );
         const providers = [...pahProviders, ...scmProviders];
         const anySyncInProgress = providers.some(p => p.syncInProgress);
 
@@ -191,6 +248,123 @@ export async function createRouter(options: {
     }
   });
 
+  // runs of the entity providers, most recent first
+  //  GET /ansible/sync/history?providerName=...&sourceId=...&outcome=failure
+  //      &limit=50&offset=0
+  router.get('/ansible/sync/history', async (request, response) => {
+    if (!syncHistory) {
+      response.status(501).json({ error: 'The sync history is not set up.' });
+      return;
+    }
+    const param = (name: string) =>
+      typeof request.query[name] === 'string'
+        ? (request.query[name] as string)
+        : undefined;
+    const query: SyncRunQuery = {
+      providerName: param('providerName'),
+      sourceId: param('sourceId'),
+    };
+
+    const invalid: string[] = [];
+    for (const name of ['limit', 'offset'] as const) {
+      const value = param(name);
+      if (value === undefined) continue;
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 0) {
+        invalid.push(name);
+      } else {
+        query[name] = number;
+      }
+    }
+    const outcome = param('outcome');
+    if (outcome !== undefined) {
+      if (
+        outcome === 'running' ||
+        outcome === 'success' ||
+        outcome === 'failure'
+      ) {
+        query.outcome = outcome;
+      } else {
+        invalid.push('outcome');
+      }
+    }
+    if (invalid.length > 0) {
+      response.status(400).json({
+        error: `Invalid query parameters: ${invalid.join(', ')}`,
+      });
+      return;
+    }
+
+    try {
+      const runs = await syncHistory.list(query);
+      response.status(200).json({ runs });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to get the sync history: ${errorMessage}`);
+      response.status(500).json({
+        error: `Failed to get the sync history: ${errorMessage}`,
+      });
+    }
+  });
+
+  // audit trail of the calls the catalog module made to change objects in
+  // AAP, most recent first, for the AAP administrators and the backend
+  // services; the calls of the software templates are read from the same
+  // route of the scaffolder plugin
+  //  GET /aap/audit?userEntityRef=user:default/alice&taskId=...&resourceId=12
+  //      &outcome=failure&from=2025-01-01T00:00:00Z&to=...&limit=100&offset=0
+  router.get('/aap/audit', async (request, response) => {
+    if (!audit) {
+      response
+        .status(501)
+        .json({ error: 'The AAP audit trail is not set up.' });
+      return;
+    }
+    try {
+      const allowed = await canReadAAPAudit({
+        // HttpAuthService is typed with the Request of express 4
+        request: request as any,
+        httpAuth: audit.httpAuth,
+        userInfo: audit.userInfo,
+      });
+      if (!allowed) {
+        response.status(403).json({
+          error: 'Only the AAP administrators can read the AAP audit trail.',
+        });
+        return;
+      }
+    } catch (error) {
+      response.status(401).json({
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    const { query, invalid } = parseAAPAuditQuery(request.query);
+    if (invalid.length > 0) {
+      response.status(400).json({
+        error: `Invalid query parameters: ${invalid.join(', ')}`,
+      });
+      return;
+    }
+
+    try {
+      const events = await audit.service.query(query);
+      response.status(200).json({ events });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to query the AAP audit trail: ${errorMessage}`);
+      const status =
+        error instanceof Error && error.name === 'NotImplementedError'
+          ? 501
+          : 500;
+      response.status(status).json({
+        error: `Failed to query the AAP audit trail: ${errorMessage}`,
+      });
+    }
+  });
+
   router.post('/aap/create_user', express.json(), async (request, response) => {
     const { username, userID } = request.body;
     if (!username || userID === undefined || userID === null) {
@@ -357,6 +531,7 @@ export async function createRouter(options: {
   //  { "filters": [{ "scmProvider": "github" }] } -> all github sources
   //  { "filters": [{ "scmProvider": "github", "hostName": "my-source-1" }] } -> all orgs in my-source-1
   //  { "filters": [{ "scmProvider": "gitlab", "hostName": "my-source-2", "organization": "ansible-team" }] } -> particular org sync
+  //  { "filters": [{ "scmProvider": "bitbucket", "hostName": "bitbucket-dc", "organization": "ANS" }] } -> Bitbucket project sync
   //  { "filters": [
   //      { "scmProvider": "github", "hostName": "my-source-1", "organization": "ansible-collections" },
   //      { "scmProvider": "gitlab" }
@@ -480,6 +655,99 @@ export async function createRouter(options: {
     return Array.from(matchedIds).map(id => _GIT_CONTENTS_PROVIDERS.get(id)!);
   }
 
+  // Push and tag webhooks of GitHub and GitLab, re-syncing only the pushed ref.
+  // The route is unauthenticated: deliveries are verified with the
+  // webhookSecret of the organizations of the pushed repository.
+  router.post(
+    '/ansible/webhooks/:scmProvider',
+    express.raw({ type: () => true, limit: '25mb' }),
+    async (request, response) => {
+      const { scmProvider } = request.params;
+      if (scmProvider !== 'github' && scmProvider !== 'gitlab') {
+        response.status(400).json({
+          error: `Unsupported SCM provider '${scmProvider}'. Supported: github, gitlab`,
+        });
+        return;
+      }
+      const rawBody = request.body;
+      if (!Buffer.isBuffer(rawBody)) {
+        response
+          .status(400)
+          .json({ error: 'The webhook payload could not be read.' });
+        return;
+      }
+
+      let push: ScmPushEvent | null;
+      try {
+        const payload = JSON.parse(rawBody.toString('utf8'));
+        push =
+          scmProvider === 'github'
+            ? parseGithubEvent(request.header('x-github-event'), payload)
+            : parseGitlabEvent(request.header('x-gitlab-event'), payload);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        response
+          .status(400)
+          .json({ error: `Invalid webhook payload: ${errorMessage}` });
+        return;
+      }
+      if (!push) {
+        response.status(202).json({ status: 'ignored' });
+        return;
+      }
+
+      const candidates = ansibleGitContentsProviders.filter(
+        provider => provider.getWebhookSecret() && provider.handlesPush(push!),
+      );
+      if (candidates.length === 0) {
+        response.status(404).json({
+          error: `No source with a webhook secret syncs ${push.repository.fullPath} on ${push.host}`,
+        });
+        return;
+      }
+      const providers = candidates.filter(provider =>
+        scmProvider === 'github'
+          ? verifyGithubSignature(
+              rawBody,
+              provider.getWebhookSecret()!,
+              request.header('x-hub-signature-256'),
+            )
+          : verifyGitlabToken(
+              provider.getWebhookSecret()!,
+              request.header('x-gitlab-token'),
+            ),
+      );
+      if (providers.length === 0) {
+        response.status(401).json({ error: 'Invalid webhook signature' });
+        return;
+      }
+
+      const target = `${push.refType} '${push.ref}' of ${push.repository.fullPath}`;
+      for (const provider of providers) {
+        const source = provider.getSourceId();
+        provider
+          .syncPush(push)
+          .then(result =>
+            logger.info(
+              result.status === 'synced'
+                ? `Webhook synced the ${target} in ${source}: +${result.added} -${result.removed}`
+                : `Webhook sync of the ${target} in ${source} skipped: ${result.reason}`,
+            ),
+          )
+          .catch(error =>
+            logger.error(
+              `Webhook sync of the ${target} in ${source} failed: ${error}`,
+            ),
+          );
+      }
+      response.status(202).json({
+        status: 'accepted',
+        sources: providers.map(provider => provider.getSourceId()),
+      });
+    },
+  );
+
   router.get('/git_readme_content', async (request, response) => {
     const { scmProvider, host, owner, repo, filePath, ref } = request.query;
 
@@ -506,9 +774,11 @@ export async function createRouter(options: {
     const path = filePath as string;
     const refName = ref as string;
 
-    if (!['github', 'gitlab'].includes(scm)) {
+    if (!SCM_PROVIDERS.includes(scm as ScmProvider)) {
       response.status(400).json({
-        error: `Unsupported SCM provider '${scm}'. Supported: github, gitlab`,
+        error: `Unsupported SCM provider '${scm}'. Supported: ${SCM_PROVIDERS.join(
+          ', ',
+        )}`,
       });
       return;
     }
@@ -519,7 +789,7 @@ export async function createRouter(options: {
 
     try {
       const scmClient = await scmClientFactory.createClient({
-        scmProvider: scm as 'github' | 'gitlab',
+        scmProvider: scm as ScmProvider,
         host: hostUrl,
         organization: ownerName,
       });
@@ -0,0 +1,196 @@
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { SyncHistoryStore, startSyncRun } from './SyncHistoryStore';
+
+describe('SyncHistoryStore', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+
+  const createStore = async () => {
+    const knex = await databases.init('SQLITE_3');
+    return SyncHistoryStore.create(mockServices.database({ knex }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: new Date('2025-01-01T00:00:00Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout'],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const tick = () =>
+    jest.setSystemTime(new Date(Date.now() + 60 * 1000).getTime());
+
+  it('records a run from its start to its end', async () => {
+    const store = await createStore();
+
+    const run = await store.start({
+      providerName: 'AapEntityProvider:dev',
+      trigger: 'schedule',
+    });
+    expect(run).toMatchObject({
+      providerName: 'AapEntityProvider:dev',
+      sourceId: null,
+      trigger: 'schedule',
+      outcome: 'running',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      finishedAt: null,
+    });
+
+    tick();
+    await store.finish(run.id, {
+      outcome: 'success',
+      counts: { users: 3, teams: 1 },
+    });
+
+    expect(await store.list()).toEqual([
+      {
+        ...run,
+        outcome: 'success',
+        finishedAt: '2025-01-01T00:01:00.000Z',
+        counts: { users: 3, teams: 1 },
+      },
+    ]);
+  });
+
+  it('filters the runs and returns the most recent first', async () => {
+    const store = await createStore();
+    const first = await store.start({
+      providerName: 'PAHCollectionProvider:dev:rh',
+      sourceId: 'rh',
+      trigger: 'schedule',
+    });
+    await store.finish(first.id, { outcome: 'failure', error: 'timeout' });
+    tick();
+    const second = await store.start({
+      providerName: 'PAHCollectionProvider:dev:rh',
+      sourceId: 'rh',
+      trigger: 'manual',
+    });
+    tick();
+    await store.start({
+      providerName: 'AapEntityProvider:dev',
+      trigger: 'manual',
+    });
+
+    const pah = await store.list({
+      providerName: 'PAHCollectionProvider:dev:rh',
+    });
+    expect(pah.map(run => run.id)).toEqual([second.id, first.id]);
+    expect(
+      await store.list({ sourceId: 'rh', outcome: 'failure' }),
+    ).toMatchObject([{ id: first.id, error: 'timeout' }]);
+    expect(await store.list({ limit: 1 })).toMatchObject([
+      { providerName: 'AapEntityProvider:dev' },
+    ]);
+    expect((await store.list({ offset: 1 })).map(run => run.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+  });
+
+  it('derives the state of a provider from its finished runs', async () => {
+    const store = await createStore();
+    const providerName = 'PAHCollectionProvider:dev:rh';
+    expect(await store.getState(providerName)).toEqual({
+      lastSyncTime: null,
+      lastFailedSyncTime: null,
+      lastSyncStatus: null,
+      counts: null,
+      previousCounts: null,
+    });
+
+    const record = async (
+      result: Parameters<SyncHistoryStore['finish']>[1],
+    ) => {
+      const run = await store.start({ providerName, trigger: 'schedule' });
+      tick();
+      await store.finish(run.id, result);
+      tick();
+    };
+    await record({ outcome: 'success', counts: { collections: 10 } });
+    await record({ outcome: 'success', counts: { collections: 12 } });
+    await record({ outcome: 'failure', error: 'PAH unavailable' });
+    await store.start({ providerName, trigger: 'manual' });
+
+    expect(await store.getState(providerName)).toEqual({
+      lastSyncTime: '2025-01-01T00:03:00.000Z',
+      lastFailedSyncTime: '2025-01-01T00:05:00.000Z',
+      lastSyncStatus: 'failure',
+      counts: { collections: 12 },
+      previousCounts: { collections: 10 },
+    });
+  });
+
+  it('keeps the most recent runs of each provider', async () => {
+    const store = await createStore();
+    const other = await store.start({
+      providerName: 'AapEntityProvider:dev',
+      trigger: 'schedule',
+    });
+
+    for (let i = 0; i < 201; i++) {
+      tick();
+      const run = await store.start({
+        providerName: 'AAPJobTemplateProvider:dev',
+        trigger: 'schedule',
+      });
+      await store.finish(run.id, { outcome: 'success' });
+    }
+
+    const runs = await store.list({
+      providerName: 'AAPJobTemplateProvider:dev',
+      limit: 500,
+    });
+    expect(runs).toHaveLength(200);
+    expect(runs[199].startedAt).toBe('2025-01-01T00:02:00.000Z');
+    expect(await store.list({ providerName: 'AapEntityProvider:dev' })).toEqual(
+      [other],
+    );
+  });
+
+  describe('startSyncRun', () => {
+    const logger = mockServices.logger.mock();
+
+    it('records the end of the run', async () => {
+      const store = await createStore();
+
+      const finish = await startSyncRun(store, logger, {
+        providerName: 'AapEntityProvider:dev',
+        trigger: 'manual',
+      });
+      await finish({ outcome: 'failure', error: 'AAP unavailable' });
+
+      expect(await store.list()).toMatchObject([
+        { trigger: 'manual', outcome: 'failure', error: 'AAP unavailable' },
+      ]);
+    });
+
+    it('does nothing without store', async () => {
+      const finish = await startSyncRun(undefined, logger, {
+        providerName: 'AapEntityProvider:dev',
+        trigger: 'manual',
+      });
+
+      await expect(finish({ outcome: 'success' })).resolves.toBeUndefined();
+    });
+
+    it('logs the database errors instead of failing the sync', async () => {
+      const store = {
+        start: jest.fn().mockRejectedValue(new Error('database is locked')),
+      } as unknown as SyncHistoryStore;
+
+      const finish = await startSyncRun(store, logger, {
+        providerName: 'AapEntityProvider:dev',
+        trigger: 'schedule',
+      });
+      await finish({ outcome: 'success' });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to record the sync run of AapEntityProvider:dev: Error: database is locked',
+      );
+    });
+  });
+});
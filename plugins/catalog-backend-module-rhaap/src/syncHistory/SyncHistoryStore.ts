@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+import { applyDatabaseMigrations } from '../database';
+
+const TABLE = 'rhaap_sync_runs';
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+// older runs of a provider are removed once it has more than this
+const MAX_RUNS_PER_PROVIDER = 200;
+
+/** What started a sync run, the provider schedule or a request to the router. */
+export type SyncTrigger = 'schedule' | 'manual';
+
+export type SyncRunOutcome = 'running' | 'success' | 'failure';
+
+/** Number of entities synced by kind, for example { collections: 12 }. */
+export type SyncRunCounts = Record<string, number>;
+
+export type SyncRun = {
+  id: string;
+  providerName: string;
+  sourceId: string | null;
+  trigger: SyncTrigger;
+  outcome: SyncRunOutcome;
+  startedAt: string;
+  finishedAt: string | null;
+  counts: SyncRunCounts | null;
+  error: string | null;
+};
+
+export type SyncRunResult =
+  | { outcome: 'success'; counts?: SyncRunCounts }
+  | { outcome: 'failure'; error: string; counts?: SyncRunCounts };
+
+export type SyncRunQuery = {
+  providerName?: string;
+  sourceId?: string;
+  outcome?: SyncRunOutcome;
+  limit?: number;
+  offset?: number;
+};
+
+/** The status of a provider as reported by /ansible/sync/status. */
+export type ProviderSyncState = {
+  lastSyncTime: string | null;
+  lastFailedSyncTime: string | null;
+  lastSyncStatus: 'success' | 'failure' | null;
+  counts: SyncRunCounts | null;
+  previousCounts: SyncRunCounts | null;
+};
+
+type SyncRunRow = {
+  id: string;
+  provider_name: string;
+  source_id: string | null;
+  trigger: SyncTrigger;
+  outcome: SyncRunOutcome;
+  started_at: string;
+  finished_at: string | null;
+  counts: string | null;
+  error: string | null;
+};
+
+const fromRow = (row: SyncRunRow): SyncRun => ({
+  id: row.id,
+  providerName: row.provider_name,
+  sourceId: row.source_id,
+  trigger: row.trigger,
+  outcome: row.outcome,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  counts: row.counts ? JSON.parse(row.counts) : null,
+  error: row.error,
+});
+
+/**
+ * Keeps the sync runs of the entity providers in the database of the catalog
+ * plugin, so that their status survives restarts and is the same on all
+ * backend instances.
+ */
+export class SyncHistoryStore {
+  static async create(database: DatabaseService): Promise<SyncHistoryStore> {
+    const client = await applyDatabaseMigrations(database);
+    return new SyncHistoryStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async start(run: {
+    providerName: string;
+    sourceId?: string;
+    trigger: SyncTrigger;
+  }): Promise<SyncRun> {
+    const row: SyncRunRow = {
+      id: randomUUID(),
+      provider_name: run.providerName,
+      source_id: run.sourceId ?? null,
+      trigger: run.trigger,
+      outcome: 'running',
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      counts: null,
+      error: null,
+    };
+    await this.db<SyncRunRow>(TABLE).insert(row);
+    return fromRow(row);
+  }
+
+  async finish(id: string, result: SyncRunResult): Promise<void> {
+    await this.db<SyncRunRow>(TABLE)
+      .where({ id })
+      .update({
+        outcome: result.outcome,
+        finished_at: new Date().toISOString(),
+        counts: result.counts ? JSON.stringify(result.counts) : null,
+        error: result.outcome === 'failure' ? result.error : null,
+      });
+    const row = await this.db<SyncRunRow>(TABLE).where({ id }).first();
+    if (row) {
+      await this.prune(row.provider_name);
+    }
+  }
+
+  /** Returns the matching runs, most recent first. */
+  async list(query: SyncRunQuery = {}): Promise<SyncRun[]> {
+    const builder = this.db<SyncRunRow>(TABLE);
+    if (query.providerName) {
+      builder.where('provider_name', query.providerName);
+    }
+    if (query.sourceId) {
+      builder.where('source_id', query.sourceId);
+    }
+    if (query.outcome) {
+      builder.where('outcome', query.outcome);
+    }
+    const rows = await builder
+      .orderBy('started_at', 'desc')
+      .limit(Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+      .offset(query.offset ?? 0);
+    return rows.map(fromRow);
+  }
+
+  async getState(providerName: string): Promise<ProviderSyncState> {
+    const finished = () =>
+      this.db<SyncRunRow>(TABLE)
+        .where('provider_name', providerName)
+        .whereNot('outcome', 'running')
+        .orderBy('started_at', 'desc');
+    const [last, successes, failure] = await Promise.all([
+      finished().first(),
+      finished().where('outcome', 'success').limit(2),
+      finished().where('outcome', 'failure').first(),
+    ]);
+    const [latest, previous] = successes.map(fromRow);
+    return {
+      lastSyncTime: latest?.finishedAt ?? null,
+      lastFailedSyncTime: failure?.finished_at ?? null,
+      lastSyncStatus: last ? (last.outcome as 'success' | 'failure') : null,
+      counts: latest?.counts ?? null,
+      previousCounts: previous?.counts ?? null,
+    };
+  }
+
+  private async prune(providerName: string) {
+    const stale = await this.db<SyncRunRow>(TABLE)
+      .where('provider_name', providerName)
+      .orderBy('started_at', 'desc')
+      .offset(MAX_RUNS_PER_PROVIDER)
+      .limit(MAX_LIMIT)
+      .pluck('id');
+    if (stale.length > 0) {
+      await this.db<SyncRunRow>(TABLE).whereIn('id', stale).delete();
+    }
+  }
+}
+
+/**
+ * Records the start of a sync run and returns the function recording its end.
+ * A provider without store, or a database error, only loses the history: the
+ * sync itself never fails because of it.
+ */
+export async function startSyncRun(
+  store: SyncHistoryStore | undefined,
+  logger: LoggerService,
+  run: { providerName: string; sourceId?: string; trigger: SyncTrigger },
+): Promise<(result: SyncRunResult) => Promise<void>> {
+  let started: SyncRun | undefined;
+  try {
+    started = await store?.start(run);
+  } catch (error) {
+    logger.warn(
+      `Failed to record the sync run of ${run.providerName}: ${error}`,
+    );
+  }
+  return async result => {
+    if (!started) {
+      return;
+    }
+    try {
+      await store!.finish(started.id, result);
+    } catch (error) {
+      logger.warn(
+        `Failed to record the end of the sync run of ${run.providerName}: ${error}`,
+      );
+    }
+  };
+}
@@ -0,0 +1,10 @@
+export { SyncHistoryStore, startSyncRun } from './SyncHistoryStore';
+export type {
+  ProviderSyncState,
+  SyncRun,
+  SyncRunCounts,
+  SyncRunOutcome,
+  SyncRunQuery,
+  SyncRunResult,
+  SyncTrigger,
+} from './SyncHistoryStore';
@@ -0,0 +1,7 @@
+export {
+  parseGithubEvent,
+  parseGitlabEvent,
+  verifyGithubSignature,
+  verifyGitlabToken,
+} from './scmWebhooks';
+export type { ScmPushEvent } from './scmWebhooks';
@@ -0,0 +1,149 @@
+import { createHmac } from 'crypto';
+import {
+  parseGithubEvent,
+  parseGitlabEvent,
+  verifyGithubSignature,
+  verifyGitlabToken,
+} from './scmWebhooks';
+
+describe('scmWebhooks', () => {
+  describe('parseGithubEvent', () => {
+    const payload = {
+      ref: 'refs/heads/main',
+      deleted: false,
+      repository: {
+        name: 'collections',
+        full_name: 'ansible/collections',
+        html_url: 'https://github.com/ansible/collections',
+        default_branch: 'main',
+        description: null,
+      },
+    };
+
+    it('should read branch pushes', () => {
+      expect(parseGithubEvent('push', payload)).toEqual({
+        scmProvider: 'github',
+        host: 'github.com',
+        repository: {
+          name: 'collections',
+          fullPath: 'ansible/collections',
+          defaultBranch: 'main',
+          url: 'https://github.com/ansible/collections',
+          description: undefined,
+        },
+        ref: 'main',
+        refType: 'branch',
+        deleted: false,
+      });
+    });
+
+    it('should read tag deletions', () => {
+      expect(
+        parseGithubEvent('push', {
+          ...payload,
+          ref: 'refs/tags/v1.0.0',
+          deleted: true,
+        }),
+      ).toMatchObject({ ref: 'v1.0.0', refType: 'tag', deleted: true });
+    });
+
+    it('should ignore other events and refs', () => {
+      expect(parseGithubEvent('ping', { zen: 'Keep it simple' })).toBeNull();
+      expect(parseGithubEvent(undefined, payload)).toBeNull();
+      expect(
+        parseGithubEvent('push', { ...payload, ref: 'refs/pull/1/head' }),
+      ).toBeNull();
+    });
+
+    it('should reject malformed pushes', () => {
+      expect(() => parseGithubEvent('push', {})).toThrow(
+        'The push event has no ref',
+      );
+      expect(() =>
+        parseGithubEvent('push', { ref: 'refs/heads/main', repository: {} }),
+      ).toThrow('The push event has no repository.html_url');
+      expect(() =>
+        parseGithubEvent('push', {
+          ...payload,
+          repository: { ...payload.repository, html_url: 'not a url' },
+        }),
+      ).toThrow('The push event has an invalid url not a url');
+    });
+  });
+
+  describe('parseGitlabEvent', () => {
+    const payload = {
+      ref: 'refs/tags/v2.0.0',
+      after: '3f2a7c1e9b',
+      project: {
+        name: 'collections',
+        path_with_namespace: 'ansible/platform/collections',
+        web_url: 'https://gitlab.example.com/ansible/platform/collections',
+        default_branch: 'main',
+        description: 'Platform collections',
+      },
+    };
+
+    it('should read tag pushes', () => {
+      expect(parseGitlabEvent('Tag Push Hook', payload)).toEqual({
+        scmProvider: 'gitlab',
+        host: 'gitlab.example.com',
+        repository: {
+          name: 'collections',
+          fullPath: 'ansible/platform/collections',
+          defaultBranch: 'main',
+          url: 'https://gitlab.example.com/ansible/platform/collections',
+          description: 'Platform collections',
+        },
+        ref: 'v2.0.0',
+        refType: 'tag',
+        deleted: false,
+      });
+    });
+
+    it('should read branch deletions', () => {
+      expect(
+        parseGitlabEvent('Push Hook', {
+          ...payload,
+          ref: 'refs/heads/develop',
+          after: '0000000000000000000000000000000000000000',
+        }),
+      ).toMatchObject({ ref: 'develop', refType: 'branch', deleted: true });
+    });
+
+    it('should ignore other events', () => {
+      expect(parseGitlabEvent('Merge Request Hook', payload)).toBeNull();
+    });
+
+    it('should reject malformed pushes', () => {
+      expect(() =>
+        parseGitlabEvent('Push Hook', { ...payload, project: undefined }),
+      ).toThrow('The push event has no project.web_url');
+    });
+  });
+
+  describe('verifyGithubSignature', () => {
+    const body = Buffer.from('{"ref":"refs/heads/main"}');
+    const sign = (secret: string) =>
+      `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+    it('should accept the signature of the secret', () => {
+      expect(verifyGithubSignature(body, 'secret', sign('secret'))).toBe(true);
+    });
+
+    it('should reject other signatures', () => {
+      expect(verifyGithubSignature(body, 'secret', sign('other'))).toBe(false);
+      expect(verifyGithubSignature(body, 'secret', 'sha256=abc')).toBe(false);
+      expect(verifyGithubSignature(body, 'secret', 'sha1=abc')).toBe(false);
+      expect(verifyGithubSignature(body, 'secret', undefined)).toBe(false);
+    });
+  });
+
+  describe('verifyGitlabToken', () => {
+    it('should compare the token with the secret', () => {
+      expect(verifyGitlabToken('secret', 'secret')).toBe(true);
+      expect(verifyGitlabToken('secret', 'secrets')).toBe(false);
+      expect(verifyGitlabToken('secret', undefined)).toBe(false);
+    });
+  });
+});
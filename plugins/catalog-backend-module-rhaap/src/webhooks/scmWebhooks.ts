@@ -0,0 +1,145 @@
+import { createHmac, createHash, timingSafeEqual } from 'crypto';
+import { InputError } from '@backstage/errors';
+import type { RepositoryInfo } from '@ansible/backstage-rhaap-common';
+
+import type { ScmProvider } from '../providers/types';
+
+const ZERO_SHA = /^0+$/;
+
+/** A push of a branch or a tag, as sent by the GitHub or GitLab webhooks. */
+export type ScmPushEvent = {
+  scmProvider: ScmProvider;
+  /** Host of the repository, for example github.com. */
+  host: string;
+  repository: RepositoryInfo;
+  ref: string;
+  refType: 'branch' | 'tag';
+  /** True when the branch or the tag was deleted by the push. */
+  deleted: boolean;
+};
+
+function readRef(ref: unknown): Pick<ScmPushEvent, 'ref' | 'refType'> | null {
+  if (typeof ref !== 'string') {
+    throw new InputError('The push event has no ref');
+  }
+  if (ref.startsWith('refs/heads/')) {
+    return { ref: ref.slice('refs/heads/'.length), refType: 'branch' };
+  }
+  if (ref.startsWith('refs/tags/')) {
+    return { ref: ref.slice('refs/tags/'.length), refType: 'tag' };
+  }
+  return null;
+}
+
+function readString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new InputError(`The push event has no ${field}`);
+  }
+  return value;
+}
+
+function readHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    throw new InputError(`The push event has an invalid url ${url}`);
+  }
+}
+
+/**
+ * Reads a GitHub webhook delivery. Returns null for the events that do not
+ * change the content of a branch or a tag, such as ping.
+ */
+export function parseGithubEvent(
+  event: string | undefined,
+  payload: any,
+): ScmPushEvent | null {
+  if (event !== 'push') {
+    return null;
+  }
+  const ref = readRef(payload?.ref);
+  if (!ref) {
+    return null;
+  }
+  const repository = payload.repository ?? {};
+  const url = readString(repository.html_url, 'repository.html_url');
+  return {
+    scmProvider: 'github',
+    host: readHost(url),
+    repository: {
+      name: readString(repository.name, 'repository.name'),
+      fullPath: readString(repository.full_name, 'repository.full_name'),
+      defaultBranch: repository.default_branch ?? repository.master_branch,
+      url,
+      description: repository.description ?? undefined,
+    },
+    ...ref,
+    deleted: payload.deleted === true,
+  };
+}
+
+/**
+ * Reads a GitLab webhook delivery. Returns null for the events other than the
+ * push and tag push hooks.
+ */
+export function parseGitlabEvent(
+  event: string | undefined,
+  payload: any,
+): ScmPushEvent | null {
+  if (event !== 'Push Hook' && event !== 'Tag Push Hook') {
+    return null;
+  }
+  const ref = readRef(payload?.ref);
+  if (!ref) {
+    return null;
+  }
+  const project = payload.project ?? {};
+  const url = readString(project.web_url, 'project.web_url');
+  return {
+    scmProvider: 'gitlab',
+    host: readHost(url),
+    repository: {
+      name: readString(project.name, 'project.name'),
+      fullPath: readString(
+        project.path_with_namespace,
+        'project.path_with_namespace',
+      ),
+      defaultBranch: project.default_branch,
+      url,
+      description: project.description ?? undefined,
+    },
+    ...ref,
+    deleted: typeof payload.after === 'string' && ZERO_SHA.test(payload.after),
+  };
+}
+
+/** Checks the X-Hub-Signature-256 header of a GitHub delivery. */
+export function verifyGithubSignature(
+  rawBody: Buffer,
+  secret: string,
+  signature: string | undefined,
+): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`,
+  );
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/** Checks the X-Gitlab-Token header of a GitLab delivery. */
+export function verifyGitlabToken(
+  secret: string,
+  token: string | undefined,
+): boolean {
+  if (!token) {
+    return false;
+  }
+  // digests have the same length, which timingSafeEqual requires
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(secret), digest(token));
+}
@@ -0,0 +1,49 @@
+/*
+ * Copyright 2025 The Ansible plugin Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('rhaap_approvals', table => {
+    table.comment(
+      'Approval and launch confirmation requests of the scaffolder tasks',
+    );
+    table.string('id').primary();
+    table.string('task_id').notNullable().index();
+    table.string('kind').notNullable().defaultTo('approval');
+    table.string('gate').notNullable().defaultTo('');
+    table.string('title').notNullable();
+    table.string('approvers').notNullable();
+    table.string('requested_by').nullable();
+    table.string('template_ref').nullable();
+    table.string('status').notNullable().index();
+    table.string('decided_by').nullable();
+    table.text('comment').nullable();
+    table.string('created_at').notNullable();
+    table.string('decided_at').nullable();
+    table.text('details').nullable();
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('rhaap_approvals');
+};
@@ -0,0 +1,39 @@
+/*
+ * Copyright 2025 The Ansible plugin Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('rhaap_task_jobs', table => {
+    table.comment('AAP jobs launched asynchronously by the scaffolder tasks');
+    table.increments('id');
+    table.string('task_id').notNullable().index();
+    table.integer('job_id').notNullable();
+    table.string('instance').nullable();
+    table.string('launched_by').nullable();
+    table.string('created_at').notNullable();
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('rhaap_task_jobs');
+};
@@ -0,0 +1,43 @@
+/*
+ * Copyright 2025 The Ansible plugin Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// @ts-check
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('rhaap_rollback_journal', table => {
+    table.comment(
+      'AAP objects created by the scaffolder tasks, deleted when a task fails',
+    );
+    table.increments('id');
+    table.string('task_id').notNullable().index();
+    table.string('kind').notNullable();
+    table.integer('object_id').notNullable();
+    table.string('name').notNullable();
+    table.string('instance').nullable();
+    table.boolean('rollback_on_failure').notNullable().defaultTo(false);
+    table.string('created_at').notNullable();
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('rhaap_rollback_journal');
+};
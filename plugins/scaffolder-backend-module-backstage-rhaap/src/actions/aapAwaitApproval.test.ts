@@ -0,0 +1,136 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { awaitApproval } from './aapAwaitApproval';
+import { ApprovalRequest, ApprovalStore } from '../approvals';
+
+describe('rhaap:await-approval', () => {
+  const pending: ApprovalRequest = {
+    id: 'approval-1',
+    taskId: 'task-1',
+    kind: 'approval',
+    gate: 'group:default/release-managers:Launch Deploy',
+    title: 'Launch Deploy',
+    approvers: 'group:default/release-managers',
+    requestedBy: 'user:default/alice',
+    templateRef: 'template:default/deploy',
+    status: 'pending',
+    decidedBy: null,
+    comment: null,
+    createdAt: new Date().toISOString(),
+    decidedAt: null,
+    details: null,
+  };
+
+  const store = {
+    request: jest.fn(),
+    get: jest.fn(),
+    decide: jest.fn(),
+  };
+  const action = awaitApproval(store as unknown as ApprovalStore, {
+    pollInterval: 0,
+  });
+
+  const createContext = (input: Record<string, any> = {}) =>
+    createMockActionContext({
+      input: {
+        approvers: 'group:default/release-managers',
+        title: 'Launch Deploy',
+        ...input,
+      },
+      user: { ref: 'user:default/alice' },
+      templateInfo: { entityRef: 'template:default/deploy' },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.request.mockResolvedValue(pending);
+  });
+
+  it('should wait until the task is approved', async () => {
+    store.get.mockResolvedValueOnce(pending).mockResolvedValueOnce({
+      ...pending,
+      status: 'approved',
+      decidedBy: 'user:default/bob',
+      comment: 'Go ahead',
+    });
+    const context = createContext();
+
+    // @ts-ignore
+    await action.handler(context);
+
+    expect(store.request).toHaveBeenCalledWith({
+      taskId: context.task.id,
+      gate: 'group:default/release-managers:Launch Deploy',
+      title: 'Launch Deploy',
+      approvers: 'group:default/release-managers',
+      requestedBy: 'user:default/alice',
+      templateRef: 'template:default/deploy',
+    });
+    expect(store.get).toHaveBeenCalledTimes(2);
+    expect(context.output).toHaveBeenCalledWith(
+      'approvedBy',
+      'user:default/bob',
+    );
+    expect(context.output).toHaveBeenCalledWith('comment', 'Go ahead');
+  });
+
+  it('should not wait when the task was already approved', async () => {
+    store.request.mockResolvedValue({
+      ...pending,
+      status: 'approved',
+      decidedBy: 'user:default/bob',
+    });
+    const context = createContext();
+
+    // @ts-ignore
+    await action.handler(context);
+
+    expect(store.get).not.toHaveBeenCalled();
+    expect(context.output).toHaveBeenCalledWith(
+      'approvedBy',
+      'user:default/bob',
+    );
+  });
+
+  it('should fail when the task is denied', async () => {
+    store.get.mockResolvedValue({
+      ...pending,
+      status: 'denied',
+      decidedBy: 'user:default/bob',
+      comment: 'Not during the freeze',
+    });
+
+    // @ts-ignore
+    await expect(action.handler(createContext())).rejects.toThrow(
+      'Approval denied by user:default/bob: Not during the freeze',
+    );
+  });
+
+  it('should expire the request after the timeout', async () => {
+    store.request.mockResolvedValue({
+      ...pending,
+      createdAt: new Date(Date.now() - 2 * 60 * 1000).toISOString(),
+    });
+    store.get.mockResolvedValue({ ...pending, status: 'expired' });
+
+    await expect(
+      // @ts-ignore
+      action.handler(createContext({ timeout: 1 })),
+    ).rejects.toThrow(
+      'No decision was made before the approval request expired.',
+    );
+    expect(store.decide).toHaveBeenCalledWith('approval-1', {
+      status: 'expired',
+    });
+  });
+
+  it('should stop waiting when the task is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const context = createContext();
+
+    await expect(
+      // @ts-ignore
+      action.handler({ ...context, signal: controller.signal }),
+    ).rejects.toThrow('Cancelled while waiting for a decision.');
+  });
+});
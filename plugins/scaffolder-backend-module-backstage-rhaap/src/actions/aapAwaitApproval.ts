@@ -0,0 +1,101 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { ApprovalStore, waitForDecision } from '../approvals';
+
+const DEFAULT_POLL_INTERVAL = 10000;
+
+export const awaitApproval = (
+  approvalStore: ApprovalStore,
+  options: { pollInterval?: number } = {},
+) => {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  return createTemplateAction<{
+    approvers: string;
+    title?: string;
+    gate?: string;
+    timeout?: number;
+  }>({
+    id: 'rhaap:await-approval',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['approvers'],
+        properties: {
+          approvers: {
+            title: 'Approvers',
+            type: 'string',
+            description:
+              'Entity ref of the catalog Group whose members can approve the task, for example group:default/release-managers.',
+          },
+          title: {
+            title: 'Title',
+            type: 'string',
+            description: 'What the approvers are asked to approve.',
+          },
+          gate: {
+            title: 'Gate',
+            type: 'string',
+            description:
+              'Key of this approval among the approvals of the task. Defaults to the approvers and the title, set it when two steps ask the same approvers the same question.',
+          },
+          timeout: {
+            title: 'Timeout',
+            type: 'number',
+            description:
+              'Minutes to wait for a decision before the task fails. Waits until cancelled when not set.',
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          approvedBy: {
+            title: 'Entity ref of the user who approved the task',
+            type: 'string',
+          },
+          comment: {
+            title: 'Comment of the approver',
+            type: 'string',
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      let approval = await approvalStore.request({
+        taskId: ctx.task.id,
+        gate:
+          input.gate ??
+          [input.approvers, input.title].filter(Boolean).join(':'),
+        title:
+          input.title ??
+          ctx.templateInfo?.entity?.metadata.title ??
+          ctx.templateInfo?.entityRef ??
+          'Task approval',
+        approvers: input.approvers,
+        requestedBy: ctx.user?.ref,
+        templateRef: ctx.templateInfo?.entityRef,
+      });
+      logger.info(
+        `Waiting for a member of ${input.approvers} to approve the task.`,
+      );
+      approval = await waitForDecision(approvalStore, approval, {
+        pollInterval,
+        timeout: input.timeout,
+        signal: ctx.signal,
+      });
+      if (approval.status !== 'approved') {
+        const reason = approval.comment ? `: ${approval.comment}` : '.';
+        const error = new Error(
+          approval.status === 'denied'
+            ? `Approval denied by ${approval.decidedBy}${reason}`
+            : 'No decision was made before the approval request expired.',
+        );
+        error.stack = '';
+        throw error;
+      }
+      logger.info(`Task approved by ${approval.decidedBy}.`);
+      ctx.output('approvedBy', approval.decidedBy ?? '');
+      ctx.output('comment', approval.comment ?? '');
+    },
+  });
+};
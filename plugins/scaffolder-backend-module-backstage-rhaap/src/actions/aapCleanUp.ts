@@ -2,7 +2,11 @@ import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
 import { IAAPService, CleanUp } from '@ansible/backstage-rhaap-common';
 
 export const cleanUp = (ansibleServiceRef: IAAPService) => {
-  return createTemplateAction<{ token: string; values: CleanUp }>({
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: CleanUp;
+  }>({
     id: 'rhaap:clean-up',
     schema: {
       input: {
@@ -13,6 +17,11 @@ export const cleanUp = (ansibleServiceRef: IAAPService) => {
             type: 'string',
             description: 'Oauth2 token',
           },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
           values: {
             type: 'object',
             properties: {
@@ -75,9 +84,12 @@ export const cleanUp = (ansibleServiceRef: IAAPService) => {
         throw error;
       }
 
-      ansibleServiceRef.setLogger(logger);
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
       try {
-        await ansibleServiceRef.cleanUp(
+        await ansibleService.cleanUp(
           {
             project: input.values.project,
             executionEnvironment: input.values.executionEnvironment,
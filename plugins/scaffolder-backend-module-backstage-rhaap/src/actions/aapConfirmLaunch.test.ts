@@ -0,0 +1,147 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { confirmLaunch, getPreviewDetails } from './aapConfirmLaunch';
+import { ApprovalRequest, ApprovalStore } from '../approvals';
+
+describe('rhaap:confirm-launch', () => {
+  const preview = {
+    id: 42,
+    status: 'successful',
+    url: 'https://aap.example.com/execution/jobs/playbook/42/output',
+    hostSummaries: [
+      {
+        host: 'web1',
+        ok: 3,
+        changed: 2,
+        failed: 0,
+        unreachable: 0,
+        skipped: 0,
+      },
+      {
+        host: 'web2',
+        ok: 3,
+        changed: 0,
+        failed: 0,
+        unreachable: 0,
+        skipped: 1,
+      },
+    ],
+    events: [
+      {
+        event: 'runner_on_ok',
+        host_name: 'web1',
+        task: 'Install nginx',
+        changed: true,
+      },
+      {
+        event: 'runner_on_ok',
+        host_name: 'web1',
+        task: 'Write config',
+        changed: true,
+      },
+      {
+        event: 'runner_on_ok',
+        host_name: 'web2',
+        task: 'Install nginx',
+        changed: false,
+      },
+      { event: 'playbook_on_stats' },
+    ],
+  };
+
+  const pending: ApprovalRequest = {
+    id: 'confirmation-1',
+    taskId: 'task-1',
+    kind: 'confirmation',
+    gate: 'job-42',
+    title: 'Launch Deploy',
+    approvers: 'user:default/alice',
+    requestedBy: 'user:default/alice',
+    templateRef: 'template:default/deploy',
+    status: 'pending',
+    decidedBy: null,
+    comment: null,
+    createdAt: new Date().toISOString(),
+    decidedAt: null,
+    details: null,
+  };
+
+  const store = {
+    request: jest.fn(),
+    get: jest.fn(),
+    decide: jest.fn(),
+  };
+  const action = confirmLaunch(store as unknown as ApprovalStore, {
+    pollInterval: 0,
+  });
+
+  const createContext = (user?: { ref: string }) =>
+    createMockActionContext({
+      input: { preview, title: 'Launch Deploy' },
+      user,
+      templateInfo: { entityRef: 'template:default/deploy' },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store.request.mockResolvedValue(pending);
+  });
+
+  it('should summarize the preview job per host', () => {
+    expect(getPreviewDetails(preview)).toEqual({
+      jobId: 42,
+      status: 'successful',
+      url: 'https://aap.example.com/execution/jobs/playbook/42/output',
+      hosts: [
+        {
+          ...preview.hostSummaries[0],
+          changedTasks: ['Install nginx', 'Write config'],
+        },
+        { ...preview.hostSummaries[1], changedTasks: [] },
+      ],
+    });
+  });
+
+  it('should wait until the user confirms the launch', async () => {
+    store.get.mockResolvedValue({
+      ...pending,
+      status: 'approved',
+      decidedBy: 'user:default/alice',
+    });
+    const context = createContext({ ref: 'user:default/alice' });
+
+    // @ts-ignore
+    await action.handler(context);
+
+    expect(store.request).toHaveBeenCalledWith({
+      taskId: context.task.id,
+      kind: 'confirmation',
+      gate: 'job-42',
+      title: 'Launch Deploy',
+      approvers: 'user:default/alice',
+      requestedBy: 'user:default/alice',
+      templateRef: 'template:default/deploy',
+      details: getPreviewDetails(preview),
+    });
+    expect(context.output).toHaveBeenCalledWith(
+      'confirmedBy',
+      'user:default/alice',
+    );
+  });
+
+  it('should fail when the user rejects the launch', async () => {
+    store.get.mockResolvedValue({ ...pending, status: 'denied' });
+
+    await expect(
+      // @ts-ignore
+      action.handler(createContext({ ref: 'user:default/alice' })),
+    ).rejects.toThrow('The launch was rejected after the preview.');
+  });
+
+  it('should fail in tasks without a user', async () => {
+    // @ts-ignore
+    await expect(action.handler(createContext())).rejects.toThrow(
+      'The launch can only be confirmed in tasks started by a user.',
+    );
+    expect(store.request).not.toHaveBeenCalled();
+  });
+});
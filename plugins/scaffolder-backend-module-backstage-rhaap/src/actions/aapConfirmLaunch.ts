@@ -0,0 +1,151 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { HostSummary } from '@ansible/backstage-rhaap-common';
+import { JsonObject } from '@backstage/types';
+import { ApprovalStore, waitForDecision } from '../approvals';
+
+const DEFAULT_POLL_INTERVAL = 5000;
+
+type PreviewJob = {
+  id: number;
+  status?: string;
+  url?: string;
+  hostSummaries?: HostSummary[];
+  events?: Array<{
+    event?: string;
+    host_name?: string;
+    task?: string;
+    changed?: boolean;
+  }>;
+};
+
+/**
+ * Summarizes a check mode job per host: the status counts and the tasks that
+ * would change the host when the job is run for real.
+ */
+export const getPreviewDetails = (preview: PreviewJob): JsonObject => {
+  const changedTasks = new Map<string, string[]>();
+  for (const event of preview.events ?? []) {
+    if (event.event !== 'runner_on_ok' || !event.changed || !event.host_name) {
+      continue;
+    }
+    const tasks = changedTasks.get(event.host_name) ?? [];
+    if (event.task && !tasks.includes(event.task)) {
+      tasks.push(event.task);
+    }
+    changedTasks.set(event.host_name, tasks);
+  }
+  return {
+    jobId: preview.id,
+    status: preview.status ?? null,
+    url: preview.url ?? null,
+    hosts: (preview.hostSummaries ?? []).map(summary => ({
+      ...summary,
+      changedTasks: changedTasks.get(summary.host) ?? [],
+    })),
+  };
+};
+
+export const confirmLaunch = (
+  approvalStore: ApprovalStore,
+  options: { pollInterval?: number } = {},
+) => {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  return createTemplateAction<{
+    preview: PreviewJob;
+    title?: string;
+    gate?: string;
+    timeout?: number;
+  }>({
+    id: 'rhaap:confirm-launch',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['preview'],
+        properties: {
+          preview: {
+            title: 'Preview job',
+            type: 'object',
+            description:
+              'Output of the rhaap:launch-job-template step that launched the job in check mode with diff mode enabled.',
+            required: ['id'],
+            properties: {
+              id: {
+                type: 'number',
+                description: 'Job id',
+              },
+            },
+          },
+          title: {
+            title: 'Title',
+            type: 'string',
+            description: 'What the user is asked to confirm.',
+          },
+          gate: {
+            title: 'Gate',
+            type: 'string',
+            description:
+              'Key of this confirmation among the confirmations of the task. Defaults to the id of the preview job.',
+          },
+          timeout: {
+            title: 'Timeout',
+            type: 'number',
+            description:
+              'Minutes to wait for the confirmation before the task fails. Waits until cancelled when not set.',
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          confirmedBy: {
+            title: 'Entity ref of the user who confirmed the launch',
+            type: 'string',
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const userRef = ctx.user?.ref;
+      if (!userRef) {
+        const error = new Error(
+          'The launch can only be confirmed in tasks started by a user.',
+        );
+        error.stack = '';
+        throw error;
+      }
+      let confirmation = await approvalStore.request({
+        taskId: ctx.task.id,
+        kind: 'confirmation',
+        gate: input.gate ?? `job-${input.preview.id}`,
+        title:
+          input.title ??
+          ctx.templateInfo?.entity?.metadata.title ??
+          'Confirm launch',
+        approvers: userRef,
+        requestedBy: userRef,
+        templateRef: ctx.templateInfo?.entityRef,
+        details: getPreviewDetails(input.preview),
+      });
+      logger.info(
+        `Preview job ${input.preview.id} finished, waiting for ${userRef} to confirm the launch.`,
+      );
+      confirmation = await waitForDecision(approvalStore, confirmation, {
+        pollInterval,
+        timeout: input.timeout,
+        signal: ctx.signal,
+      });
+      if (confirmation.status !== 'approved') {
+        const error = new Error(
+          confirmation.status === 'denied'
+            ? 'The launch was rejected after the preview.'
+            : 'The launch was not confirmed before the confirmation expired.',
+        );
+        error.stack = '';
+        throw error;
+      }
+      logger.info(`Launch confirmed by ${userRef}.`);
+      ctx.output('confirmedBy', userRef);
+    },
+  });
+};
@@ -0,0 +1,123 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_ORGANIZATION, MOCK_TOKEN } from '../mock';
+import { CreateCredential } from '@ansible/backstage-rhaap-common';
+import { createCredential } from './aapCreateCredential';
+import { mockAnsibleService } from './mockIAAPService';
+import { RollbackJournal } from '../rollback';
+
+describe('rhaap:create-credential', () => {
+  const action = createCredential(mockAnsibleService);
+
+  const credentialData: CreateCredential = {
+    credentialName: 'Git',
+    organization: MOCK_ORGANIZATION,
+    credentialType: { id: 2, name: 'Source Control' },
+    inputs: { username: 'git-user' },
+    jobTemplate: { id: 9, name: 'Deploy' },
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: credentialData,
+      secretInputs: { password: 'gitPassword' },
+    },
+    secrets: { gitPassword: 's3cr3t' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create credential with inputs from secrets', async () => {
+    const createdCredential = {
+      id: 15,
+      name: 'Git',
+      kind: 'scm',
+      credentialType: 2,
+      url: 'https://test.com/access/credentials/15/details',
+    };
+    mockAnsibleService.createCredential.mockResolvedValue(createdCredential);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    const { jobTemplate, ...values } = credentialData;
+    expect(mockAnsibleService.createCredential).toHaveBeenCalledWith(
+      values,
+      { password: 's3cr3t' },
+      MOCK_TOKEN,
+    );
+    expect(mockAnsibleService.addCredentialToJobTemplate).toHaveBeenCalledWith(
+      9,
+      15,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith('credential', {
+      ...createdCredential,
+      jobTemplate: 9,
+    });
+  });
+
+  it('should record the credential before linking it to the job template', async () => {
+    const journal = { record: jest.fn() } as unknown as RollbackJournal;
+    const journaledAction = createCredential(mockAnsibleService, journal);
+    mockAnsibleService.createCredential.mockResolvedValue({
+      id: 15,
+      name: 'Git',
+      kind: 'scm',
+      credentialType: 2,
+      url: 'https://test.com/access/credentials/15/details',
+    });
+    mockAnsibleService.addCredentialToJobTemplate.mockRejectedValue(
+      new Error('Job template 9 not found.'),
+    );
+
+    await expect(
+      // @ts-ignore
+      journaledAction.handler({ ...mockContext }),
+    ).rejects.toThrow('Job template 9 not found.');
+    expect(journal.record).toHaveBeenCalledWith(
+      expect.objectContaining({ task: mockContext.task }),
+      { kind: 'credential', id: 15, name: 'Git', instance: undefined },
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: credentialData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.createCredential).not.toHaveBeenCalled();
+  });
+
+  it('should fail when a secret is not provided', async () => {
+    const context = createMockActionContext({
+      input: {
+        token: MOCK_TOKEN,
+        values: credentialData,
+        secretInputs: { password: 'gitPassword' },
+      },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Secret gitPassword for credential input password not provided.',
+    );
+    expect(mockAnsibleService.createCredential).not.toHaveBeenCalled();
+  });
+
+  it('should mask secrets in the error message', async () => {
+    mockAnsibleService.createCredential.mockRejectedValue(
+      new Error('Invalid password s3cr3t.'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Invalid password ********.',
+    );
+  });
+});
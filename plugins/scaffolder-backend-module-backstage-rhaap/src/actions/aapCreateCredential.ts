@@ -0,0 +1,212 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { CreateCredential, IAAPService } from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
+
+const MASK = '********';
+
+const maskSecrets = (message: string, secrets: string[]) =>
+  secrets.reduce(
+    (masked, secret) => (secret ? masked.split(secret).join(MASK) : masked),
+    message,
+  );
+
+export const createCredential = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: CreateCredential;
+    secretInputs?: Record<string, string>;
+  }>({
+    id: 'rhaap:create-credential',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['credentialName', 'organization', 'credentialType'],
+            properties: {
+              credentialName: {
+                title: 'Name',
+                type: 'string',
+              },
+              credentialDescription: {
+                title: 'Description',
+                type: 'string',
+              },
+              organization: {
+                title: 'Organization',
+                type: 'object',
+                description: 'Organization ID',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Organization id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Organization name',
+                  },
+                },
+              },
+              credentialType: {
+                title: 'Credential type',
+                type: 'object',
+                description:
+                  'Credential type, for example Machine or Source Control.',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Credential type id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Credential type name',
+                  },
+                },
+              },
+              inputs: {
+                title: 'Inputs',
+                type: 'object',
+                description:
+                  'Non secret inputs of the credential, for example username.',
+              },
+              jobTemplate: {
+                title: 'Job template',
+                type: 'object',
+                description:
+                  'Job template to add the credential to, for example the output of rhaap:create-job-template.',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Job template id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Job template name',
+                  },
+                },
+              },
+            },
+          },
+          secretInputs: {
+            title: 'Secret inputs',
+            type: 'object',
+            description:
+              'Secret inputs of the credential, as a map of input name to the name of the task secret holding its value.',
+            additionalProperties: { type: 'string' },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          credential: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Credential id',
+                type: 'number',
+              },
+              name: {
+                title: 'Credential name',
+                type: 'string',
+              },
+              kind: {
+                title: 'Credential kind',
+                type: 'string',
+              },
+              url: {
+                title: 'Credential url',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger, secrets } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const secretInputs: Record<string, string> = {};
+      for (const [field, secretName] of Object.entries(
+        input.secretInputs ?? {},
+      )) {
+        const value = secrets?.[secretName];
+        if (!value) {
+          const error = new Error(
+            `Secret ${secretName} for credential input ${field} not provided.`,
+          );
+          error.stack = '';
+          throw error;
+        }
+        secretInputs[field] = value;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      const { jobTemplate, ...values } = input.values;
+      let credentialData;
+      try {
+        credentialData = await ansibleService.createCredential(
+          values,
+          secretInputs,
+          input.token,
+        );
+      } catch (e: any) {
+        const message = maskSecrets(
+          e?.message ?? 'Something went wrong.',
+          Object.values(secretInputs),
+        );
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      if (credentialData?.id) {
+        await journal?.record(ctx, {
+          kind: 'credential',
+          id: credentialData.id,
+          name: input.values.credentialName,
+          instance: input.instance,
+        });
+      }
+      // linked once recorded, so that a failed link still rolls it back
+      if (jobTemplate?.id) {
+        try {
+          await ansibleService.addCredentialToJobTemplate(
+            jobTemplate.id,
+            credentialData.id,
+            input.token,
+          );
+        } catch (e: any) {
+          const error = new Error(e?.message ?? 'Something went wrong.');
+          error.stack = '';
+          throw error;
+        }
+        credentialData = { ...credentialData, jobTemplate: jobTemplate.id };
+      }
+      ctx.output('credential', credentialData);
+    },
+  });
+};
@@ -46,6 +46,32 @@ describe('ansible-aap:eEnv:create', () => {
     );
   });
 
+  it('should report the operation of the ensure mode', async () => {
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, ensure: true, values: eEnvData },
+    });
+    const expectedData = { ...eEnvData, id: 1 };
+    mockAnsibleService.ensureExecutionEnvironment.mockResolvedValue({
+      operation: 'unchanged',
+      data: expectedData,
+    });
+
+    // @ts-ignore
+    await action.handler({ ...context });
+    expect(mockAnsibleService.ensureExecutionEnvironment).toHaveBeenCalledWith(
+      eEnvData,
+      MOCK_TOKEN,
+    );
+    expect(
+      mockAnsibleService.createExecutionEnvironment,
+    ).not.toHaveBeenCalled();
+    expect(context.output).toHaveBeenCalledWith(
+      'executionEnvironment',
+      expectedData,
+    );
+    expect(context.output).toHaveBeenCalledWith('operation', 'unchanged');
+  });
+
   it('should fail with message', async () => {
     mockAnsibleService.createExecutionEnvironment.mockRejectedValue(
       new Error('Test error message.'),
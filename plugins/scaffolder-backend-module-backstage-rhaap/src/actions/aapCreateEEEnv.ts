@@ -1,13 +1,20 @@
 import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
 import {
   IAAPService,
+  UpsertOperation,
   ExecutionEnvironment,
 } from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
 
-export const createExecutionEnvironment = (ansibleServiceRef: IAAPService) => {
+export const createExecutionEnvironment = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
   return createTemplateAction<{
     token: string;
+    instance?: string;
     deleteIfExist: boolean;
+    ensure?: boolean;
     values: ExecutionEnvironment;
   }>({
     id: 'rhaap:create-execution-environment',
@@ -20,10 +27,20 @@ export const createExecutionEnvironment = (ansibleServiceRef: IAAPService) => {
             type: 'string',
             description: 'Oauth2 token',
           },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
           deleteIfExist: {
             type: 'boolean',
             description: 'Delete project if exist',
           },
+          ensure: {
+            type: 'boolean',
+            description:
+              'Update the existing execution environment with the same name in place instead of creating it',
+          },
           values: {
             type: 'object',
             required: ['environmentName', 'image', 'organization'],
@@ -71,6 +88,11 @@ export const createExecutionEnvironment = (ansibleServiceRef: IAAPService) => {
       output: {
         type: 'object',
         properties: {
+          operation: {
+            title: 'Operation',
+            type: 'string',
+            description: 'Whether the object was created, updated or unchanged',
+          },
           executionEnvironment: {
             type: 'object',
             properties: {
@@ -104,21 +126,43 @@ export const createExecutionEnvironment = (ansibleServiceRef: IAAPService) => {
         throw error;
       }
 
-      ansibleServiceRef.setLogger(logger);
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
       let eeData;
+      let operation: UpsertOperation = 'created';
       try {
-        eeData = await ansibleServiceRef.createExecutionEnvironment(
-          input.values,
-          input.token,
-          input.deleteIfExist,
-        );
+        if (input.ensure) {
+          const result = await ansibleService.ensureExecutionEnvironment(
+            input.values,
+            input.token,
+          );
+          eeData = result.data;
+          operation = result.operation;
+        } else {
+          eeData = await ansibleService.createExecutionEnvironment(
+            input.values,
+            input.token,
+            input.deleteIfExist,
+          );
+        }
       } catch (e: any) {
         const message = e?.message ?? 'Something went wrong.';
         const error = new Error(message);
         error.stack = '';
         throw error;
       }
+      if (operation === 'created' && eeData?.id) {
+        await journal?.record(ctx, {
+          kind: 'executionEnvironment',
+          id: eeData.id,
+          name: input.values.environmentName,
+          instance: input.instance,
+        });
+      }
       ctx.output('executionEnvironment', eeData);
+      ctx.output('operation', operation);
     },
   });
 };
@@ -0,0 +1,74 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_ORGANIZATION, MOCK_TOKEN } from '../mock';
+import { CreateInventory } from '@ansible/backstage-rhaap-common';
+import { createInventory } from './aapCreateInventory';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:create-inventory', () => {
+  const action = createInventory(mockAnsibleService);
+
+  const inventoryData: CreateInventory = {
+    inventoryName: 'Test inventory',
+    inventoryDescription: 'Test inventory description',
+    organization: MOCK_ORGANIZATION,
+    variables: { env: 'dev' },
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      deleteIfExist: true,
+      values: inventoryData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create inventory', async () => {
+    const expectedInventory = {
+      id: 1,
+      name: 'Test inventory',
+      description: 'Test inventory description',
+      organization: MOCK_ORGANIZATION.id,
+      url: 'https://test.com/execution/infrastructure/inventories/inventory/1/details',
+    };
+    mockAnsibleService.createInventory.mockResolvedValue(expectedInventory);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.createInventory).toHaveBeenCalledWith(
+      inventoryData,
+      true,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith(
+      'inventory',
+      expectedInventory,
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', deleteIfExist: false, values: inventoryData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.createInventory).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.createInventory.mockRejectedValue(
+      new Error('Test error message.'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Test error message.',
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { CreateInventory, IAAPService } from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
+
+export const createInventory = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    deleteIfExist: boolean;
+    values: CreateInventory;
+  }>({
+    id: 'rhaap:create-inventory',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          deleteIfExist: {
+            type: 'boolean',
+            description: 'Delete inventory if exist',
+          },
+          values: {
+            type: 'object',
+            required: ['inventoryName', 'organization'],
+            properties: {
+              inventoryName: {
+                title: 'Name',
+                type: 'string',
+              },
+              inventoryDescription: {
+                title: 'Description',
+                type: 'string',
+              },
+              organization: {
+                title: 'Organization',
+                type: 'object',
+                description: 'Organization ID',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Organization id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Organization name',
+                  },
+                },
+              },
+              variables: {
+                title: 'Variables',
+                type: ['object', 'string'],
+                description:
+                  'Inventory variables, as an object or a YAML/JSON string.',
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          inventory: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Inventory id',
+                type: 'number',
+              },
+              name: {
+                title: 'Inventory name',
+                type: 'string',
+              },
+              description: {
+                title: 'Inventory description',
+                type: 'string',
+              },
+              url: {
+                title: 'Inventory url',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let inventoryData;
+      try {
+        inventoryData = await ansibleService.createInventory(
+          input.values,
+          input.deleteIfExist,
+          input.token,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      if (inventoryData?.id) {
+        await journal?.record(ctx, {
+          kind: 'inventory',
+          id: inventoryData.id,
+          name: input.values.inventoryName,
+          instance: input.instance,
+        });
+      }
+      ctx.output('inventory', inventoryData);
+    },
+  });
+};
@@ -0,0 +1,74 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { CreateInventorySource } from '@ansible/backstage-rhaap-common';
+import { createInventorySource } from './aapCreateInventorySource';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:create-inventory-source', () => {
+  const action = createInventorySource(mockAnsibleService);
+
+  const inventorySourceData: CreateInventorySource = {
+    sourceName: 'From git',
+    inventory: { id: 1, name: 'Test inventory' },
+    source: 'scm',
+    sourceProject: { id: 2, name: 'Inventories' },
+    sourcePath: 'hosts.yml',
+    overwrite: true,
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: inventorySourceData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create inventory source', async () => {
+    const expectedResponse = {
+      id: 8,
+      name: 'From git',
+      inventory: 1,
+      source: 'scm',
+      url: 'https://test.com/execution/infrastructure/inventories/inventory/1/sources/8/details',
+    };
+    mockAnsibleService.createInventorySource.mockResolvedValue(
+      expectedResponse,
+    );
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.createInventorySource).toHaveBeenCalledWith(
+      inventorySourceData,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith(
+      'inventorySource',
+      expectedResponse,
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: inventorySourceData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.createInventorySource).not.toHaveBeenCalled();
+  });
+
+  it('should fail without message', async () => {
+    mockAnsibleService.createInventorySource.mockRejectedValue(undefined);
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Something went wrong.',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import {
+  CreateInventorySource,
+  IAAPService,
+} from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
+
+export const createInventorySource = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: CreateInventorySource;
+  }>({
+    id: 'rhaap:create-inventory-source',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['sourceName', 'inventory', 'source'],
+            properties: {
+              sourceName: {
+                title: 'Name',
+                type: 'string',
+              },
+              sourceDescription: {
+                title: 'Description',
+                type: 'string',
+              },
+              inventory: {
+                title: 'Inventory',
+                type: 'object',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Inventory id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Inventory name',
+                  },
+                },
+              },
+              source: {
+                title: 'Source',
+                type: 'string',
+                description:
+                  'Type of the inventory source, for example scm, ec2, azure_rm, gce, vmware or satellite6.',
+              },
+              sourceProject: {
+                title: 'Project',
+                type: 'object',
+                description:
+                  'Project containing the inventory file (scm only).',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Project id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Project name',
+                  },
+                },
+              },
+              sourcePath: {
+                title: 'Inventory file',
+                type: 'string',
+                description:
+                  'Path of the inventory file in the project (scm only).',
+              },
+              credential: {
+                title: 'Credential',
+                type: 'object',
+                description: 'Credential of the cloud or inventory provider.',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Credential id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Credential name',
+                  },
+                },
+              },
+              sourceVars: {
+                title: 'Source variables',
+                type: ['object', 'string'],
+                description:
+                  'Variables passed to the inventory plugin, as an object or a YAML/JSON string.',
+              },
+              overwrite: {
+                title: 'Overwrite',
+                type: 'boolean',
+                description:
+                  'Remove hosts and groups that are no longer present in the source.',
+              },
+              overwriteVars: {
+                title: 'Overwrite variables',
+                type: 'boolean',
+                description:
+                  'Replace the variables of the inventory with the ones of the source.',
+              },
+              updateOnLaunch: {
+                title: 'Update on launch',
+                type: 'boolean',
+                description:
+                  'Update the inventory from this source each time a job runs using the inventory.',
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          inventorySource: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Inventory source id',
+                type: 'number',
+              },
+              name: {
+                title: 'Inventory source name',
+                type: 'string',
+              },
+              url: {
+                title: 'Inventory source url',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let inventorySourceData;
+      try {
+        inventorySourceData = await ansibleService.createInventorySource(
+          input.values,
+          input.token,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      if (inventorySourceData?.id) {
+        await journal?.record(ctx, {
+          kind: 'inventorySource',
+          id: inventorySourceData.id,
+          name: input.values.sourceName,
+          instance: input.instance,
+        });
+      }
+      ctx.output('inventorySource', inventorySourceData);
+    },
+  });
+};
@@ -54,6 +54,27 @@ describe('ansible-aap:jobTemplate:create', () => {
     );
   });
 
+  it('should report the operation of the ensure mode', async () => {
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, ensure: true, values: jobTemplateData },
+    });
+    const expectedData = { ...jobTemplateData, id: 1 };
+    mockAnsibleService.ensureJobTemplate.mockResolvedValue({
+      operation: 'updated',
+      data: expectedData,
+    });
+
+    // @ts-ignore
+    await action.handler({ ...context });
+    expect(mockAnsibleService.ensureJobTemplate).toHaveBeenCalledWith(
+      jobTemplateData,
+      MOCK_TOKEN,
+    );
+    expect(mockAnsibleService.createJobTemplate).not.toHaveBeenCalled();
+    expect(context.output).toHaveBeenCalledWith('template', expectedData);
+    expect(context.output).toHaveBeenCalledWith('operation', 'updated');
+  });
+
   it('should fail with message', async () => {
     mockAnsibleService.createJobTemplate.mockRejectedValue(
       new Error('Test error message.'),
@@ -1,10 +1,20 @@
 import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
-import { IAAPService, JobTemplate } from '@ansible/backstage-rhaap-common';
+import {
+  IAAPService,
+  UpsertOperation,
+  JobTemplate,
+} from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
 
-export const createJobTemplate = (ansibleServiceRef: IAAPService) => {
+export const createJobTemplate = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
   return createTemplateAction<{
     token: string;
+    instance?: string;
     deleteIfExist: boolean;
+    ensure?: boolean;
     values: JobTemplate;
   }>({
     id: 'rhaap:create-job-template',
@@ -17,10 +27,20 @@ export const createJobTemplate = (ansibleServiceRef: IAAPService) => {
             type: 'string',
             description: 'Oauth2 token',
           },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
           deleteIfExist: {
             type: 'boolean',
             description: 'Delete project if exist',
           },
+          ensure: {
+            type: 'boolean',
+            description:
+              'Update the existing job template with the same name in place instead of creating it',
+          },
           values: {
             type: 'object',
             required: ['templateName', 'project', 'jobInventory', 'playbook'],
@@ -155,6 +175,11 @@ export const createJobTemplate = (ansibleServiceRef: IAAPService) => {
       output: {
         type: 'object',
         properties: {
+          operation: {
+            title: 'Operation',
+            type: 'string',
+            description: 'Whether the object was created, updated or unchanged',
+          },
           template: {
             type: 'object',
             properties: {
@@ -187,21 +212,43 @@ export const createJobTemplate = (ansibleServiceRef: IAAPService) => {
         error.stack = '';
         throw error;
       }
-      ansibleServiceRef.setLogger(logger);
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
       let jobTemplateData;
+      let operation: UpsertOperation = 'created';
       try {
-        jobTemplateData = await ansibleServiceRef.createJobTemplate(
-          input.values,
-          input.deleteIfExist,
-          input.token,
-        );
+        if (input.ensure) {
+          const result = await ansibleService.ensureJobTemplate(
+            input.values,
+            input.token,
+          );
+          jobTemplateData = result.data;
+          operation = result.operation;
+        } else {
+          jobTemplateData = await ansibleService.createJobTemplate(
+            input.values,
+            input.deleteIfExist,
+            input.token,
+          );
+        }
       } catch (e: any) {
         const message = e?.message ?? 'Something went wrong.';
         const error = new Error(message);
         error.stack = '';
         throw error;
       }
+      if (operation === 'created' && jobTemplateData?.id) {
+        await journal?.record(ctx, {
+          kind: 'jobTemplate',
+          id: jobTemplateData.id,
+          name: input.values.templateName,
+          instance: input.instance,
+        });
+      }
       ctx.output('template', jobTemplateData);
+      ctx.output('operation', operation);
     },
   });
 };
@@ -3,6 +3,7 @@ import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-
 import { MOCK_ORGANIZATION, MOCK_TOKEN } from '../mock';
 import { Project } from '@ansible/backstage-rhaap-common';
 import { mockAnsibleService } from './mockIAAPService';
+import { RollbackJournal } from '../rollback';
 
 describe('ansible-aap:project:create', () => {
   const action = createProjectAction(mockAnsibleService);
@@ -44,6 +45,64 @@ describe('ansible-aap:project:create', () => {
     expect(mockContext.output).toHaveBeenCalledWith('project', expectedProject);
   });
 
+  it('should report the operation of the ensure mode', async () => {
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, ensure: true, values: projectData },
+    });
+    const expectedData = { ...projectData, id: 1 };
+    mockAnsibleService.ensureProject.mockResolvedValue({
+      operation: 'updated',
+      data: expectedData,
+    });
+
+    // @ts-ignore
+    await action.handler({ ...context });
+    expect(mockAnsibleService.ensureProject).toHaveBeenCalledWith(
+      projectData,
+      MOCK_TOKEN,
+    );
+    expect(mockAnsibleService.createProject).not.toHaveBeenCalled();
+    expect(context.output).toHaveBeenCalledWith('project', expectedData);
+    expect(context.output).toHaveBeenCalledWith('operation', 'updated');
+  });
+
+  it('should record the created project in the journal', async () => {
+    const journal = { record: jest.fn() } as unknown as RollbackJournal;
+    const journaledAction = createProjectAction(mockAnsibleService, journal);
+    mockAnsibleService.createProject.mockResolvedValue({
+      ...projectData,
+      id: 1,
+    });
+
+    // @ts-ignore
+    await journaledAction.handler({ ...mockContext });
+    expect(journal.record).toHaveBeenCalledWith(
+      expect.objectContaining({ task: mockContext.task }),
+      { kind: 'project', id: 1, name: 'Test project', instance: undefined },
+    );
+  });
+
+  it('should record the AAP instance of the project in the journal', async () => {
+    const journal = { record: jest.fn() } as unknown as RollbackJournal;
+    const journaledAction = createProjectAction(mockAnsibleService, journal);
+    mockAnsibleService.forInstance.mockReturnValue(mockAnsibleService);
+    mockAnsibleService.createProject.mockResolvedValue({
+      ...projectData,
+      id: 1,
+    });
+    const context = createMockActionContext({
+      input: { ...mockContext.input, instance: 'nonprod' },
+    });
+
+    // @ts-ignore
+    await journaledAction.handler({ ...context });
+    expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+    expect(journal.record).toHaveBeenCalledWith(
+      expect.objectContaining({ task: context.task }),
+      { kind: 'project', id: 1, name: 'Test project', instance: 'nonprod' },
+    );
+  });
+
   it('should fail with message', async () => {
     mockAnsibleService.createProject.mockRejectedValue(
       new Error('Test error message.'),
@@ -1,10 +1,20 @@
 import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
-import { IAAPService, Project } from '@ansible/backstage-rhaap-common';
+import {
+  IAAPService,
+  UpsertOperation,
+  Project,
+} from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
 
-export const createProjectAction = (ansibleServiceRef: IAAPService) => {
+export const createProjectAction = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
   return createTemplateAction<{
     token: string;
+    instance?: string;
     deleteIfExist: boolean;
+    ensure?: boolean;
     values: Project;
   }>({
     id: 'rhaap:create-project',
@@ -17,10 +27,20 @@ export const createProjectAction = (ansibleServiceRef: IAAPService) => {
             type: 'string',
             description: 'Oauth2 token',
           },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
           deleteIfExist: {
             type: 'boolean',
             description: 'Delete project if exist',
           },
+          ensure: {
+            type: 'boolean',
+            description:
+              'Update the existing project with the same name in place instead of creating it',
+          },
           values: {
             type: 'object',
             required: ['projectName', 'organization', 'scmUrl'],
@@ -92,6 +112,11 @@ export const createProjectAction = (ansibleServiceRef: IAAPService) => {
       output: {
         type: 'object',
         properties: {
+          operation: {
+            title: 'Operation',
+            type: 'string',
+            description: 'Whether the object was created, updated or unchanged',
+          },
           project: {
             type: 'object',
             properties: {
@@ -124,21 +149,43 @@ export const createProjectAction = (ansibleServiceRef: IAAPService) => {
         error.stack = '';
         throw error;
       }
-      ansibleServiceRef.setLogger(logger);
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
       let projectData;
+      let operation: UpsertOperation = 'created';
       try {
-        projectData = await ansibleServiceRef.createProject(
-          input.values,
-          input.deleteIfExist,
-          input.token,
-        );
+        if (input.ensure) {
+          const result = await ansibleService.ensureProject(
+            input.values,
+            input.token,
+          );
+          projectData = result.data;
+          operation = result.operation;
+        } else {
+          projectData = await ansibleService.createProject(
+            input.values,
+            input.deleteIfExist,
+            input.token,
+          );
+        }
       } catch (e: any) {
         const message = e?.message ?? 'Something went wrong.';
         const error = new Error(message);
         error.stack = '';
         throw error;
       }
+      if (operation === 'created' && projectData?.id) {
+        await journal?.record(ctx, {
+          kind: 'project',
+          id: projectData.id,
+          name: input.values.projectName,
+          instance: input.instance,
+        });
+      }
       ctx.output('project', projectData);
+      ctx.output('operation', operation);
     },
   });
 };
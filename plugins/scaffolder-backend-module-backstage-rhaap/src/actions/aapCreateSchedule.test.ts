@@ -0,0 +1,95 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { CreateSchedule } from '@ansible/backstage-rhaap-common';
+import { createSchedule } from './aapCreateSchedule';
+import { mockAnsibleService } from './mockIAAPService';
+import { RollbackJournal } from '../rollback';
+
+describe('rhaap:create-schedule', () => {
+  const action = createSchedule(mockAnsibleService);
+
+  const scheduleData: CreateSchedule = {
+    scheduleName: 'Nightly compliance scan',
+    jobTemplate: { id: 7, name: 'Compliance scan' },
+    rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+    extraVariables: { scan_profile: 'cis' },
+  };
+
+  const expectedResponse = {
+    id: 9,
+    name: 'Nightly compliance scan',
+    description: '',
+    rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+    enabled: true,
+    nextRun: '2025-01-02T02:00:00Z',
+    extraVariables: { scan_profile: 'cis' },
+    url: 'https://test.com/execution/templates/job-template/7/schedules/9/details',
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: scheduleData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create schedule', async () => {
+    mockAnsibleService.createSchedule.mockResolvedValue(expectedResponse);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.createSchedule).toHaveBeenCalledWith(
+      scheduleData,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith(
+      'schedule',
+      expectedResponse,
+    );
+  });
+
+  it('should record the created schedule in the journal', async () => {
+    const journal = { record: jest.fn() } as unknown as RollbackJournal;
+    const journaledAction = createSchedule(mockAnsibleService, journal);
+    mockAnsibleService.createSchedule.mockResolvedValue(expectedResponse);
+
+    // @ts-ignore
+    await journaledAction.handler({ ...mockContext });
+    expect(journal.record).toHaveBeenCalledWith(
+      expect.objectContaining({ task: mockContext.task }),
+      {
+        kind: 'schedule',
+        id: 9,
+        name: 'Nightly compliance scan',
+        instance: undefined,
+      },
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: scheduleData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.createSchedule).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.createSchedule.mockRejectedValue(
+      new Error('Multiple DTSTART is not supported.'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Multiple DTSTART is not supported.',
+    );
+  });
+});
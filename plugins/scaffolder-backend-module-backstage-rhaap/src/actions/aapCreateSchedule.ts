@@ -0,0 +1,140 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { CreateSchedule, IAAPService } from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
+
+export const createSchedule = (
+  ansibleServiceRef: IAAPService,
+  journal?: RollbackJournal,
+) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: CreateSchedule;
+  }>({
+    id: 'rhaap:create-schedule',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['scheduleName', 'jobTemplate', 'rrule'],
+            properties: {
+              scheduleName: {
+                title: 'Name',
+                type: 'string',
+              },
+              scheduleDescription: {
+                title: 'Description',
+                type: 'string',
+              },
+              jobTemplate: {
+                title: 'Job template',
+                type: 'object',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Job template id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Job template name',
+                  },
+                },
+              },
+              rrule: {
+                title: 'Recurrence rule',
+                type: 'string',
+                description:
+                  'Start and recurrence of the schedule as an iCalendar rule, for example DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1.',
+              },
+              extraVariables: {
+                title: 'Extra variables',
+                type: ['object', 'string'],
+                description:
+                  'Extra variables of the scheduled jobs, as an object or a YAML/JSON string. The job template must prompt for variables or have a survey.',
+              },
+              enabled: {
+                title: 'Enabled',
+                type: 'boolean',
+                description:
+                  'Whether the schedule launches jobs. Defaults to true.',
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          schedule: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Schedule id',
+                type: 'number',
+              },
+              name: {
+                title: 'Schedule name',
+                type: 'string',
+              },
+              nextRun: {
+                title: 'Next run',
+                type: 'string',
+              },
+              url: {
+                title: 'Schedule url',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let scheduleData;
+      try {
+        scheduleData = await ansibleService.createSchedule(
+          input.values,
+          input.token,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      if (scheduleData?.id) {
+        await journal?.record(ctx, {
+          kind: 'schedule',
+          id: scheduleData.id,
+          name: input.values.scheduleName,
+          instance: input.instance,
+        });
+      }
+      ctx.output('schedule', scheduleData);
+    },
+  });
+};
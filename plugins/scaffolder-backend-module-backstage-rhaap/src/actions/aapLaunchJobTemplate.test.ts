@@ -1,8 +1,12 @@
 import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
 import { MOCK_TOKEN } from '../mock';
-import { LaunchJobTemplate } from '@ansible/backstage-rhaap-common';
+import {
+  AAPJobFailedError,
+  LaunchJobTemplate,
+} from '@ansible/backstage-rhaap-common';
 import { launchJobTemplate } from './aapLaunchJobTemplate';
 import { mockAnsibleService } from './mockIAAPService';
+import { TaskJobStore } from '../jobs';
 
 describe('ansible-aap:jobTemplate:launch', () => {
   const action = launchJobTemplate(mockAnsibleService);
@@ -39,6 +43,79 @@ describe('ansible-aap:jobTemplate:launch', () => {
     expect(mockContext.output).toHaveBeenCalledWith('data', expectedResponse);
   });
 
+  it('should only start the job template in async mode', async () => {
+    const expectedResponse = {
+      id: 1,
+      status: 'pending',
+      url: `https//test.com/execution/jobs/playbook/1/output`,
+    };
+    mockAnsibleService.startJobTemplate.mockResolvedValue(expectedResponse);
+    const asyncContext = createMockActionContext({
+      input: { token: MOCK_TOKEN, async: true, values: projectData },
+    });
+
+    // @ts-ignore
+    await action.handler({ ...asyncContext });
+    expect(mockAnsibleService.startJobTemplate).toHaveBeenCalledWith(
+      projectData,
+      MOCK_TOKEN,
+    );
+    expect(mockAnsibleService.launchJobTemplate).not.toHaveBeenCalled();
+    expect(asyncContext.output).toHaveBeenCalledWith('data', expectedResponse);
+  });
+
+  it('should record the job started in async mode for the task page', async () => {
+    const taskJobs = { record: jest.fn().mockResolvedValue({}) };
+    const recordingAction = launchJobTemplate(
+      mockAnsibleService,
+      taskJobs as unknown as TaskJobStore,
+    );
+    mockAnsibleService.startJobTemplate.mockResolvedValue({
+      id: 7,
+      status: 'pending',
+      url: `https//test.com/execution/jobs/playbook/7/output`,
+    });
+    const asyncContext = createMockActionContext({
+      input: {
+        token: MOCK_TOKEN,
+        instance: 'dev',
+        async: true,
+        values: projectData,
+      },
+    });
+    mockAnsibleService.forInstance.mockReturnValue(mockAnsibleService);
+
+    // @ts-ignore
+    await recordingAction.handler({ ...asyncContext });
+    expect(taskJobs.record).toHaveBeenCalledWith({
+      taskId: asyncContext.task.id,
+      jobId: 7,
+      instance: 'dev',
+      launchedBy: asyncContext.user?.ref,
+    });
+  });
+
+  it('should launch the job template in the given AAP instance', async () => {
+    const instanceService = {
+      setLogger: jest.fn(),
+      launchJobTemplate: jest.fn().mockResolvedValue({ id: 2 }),
+    } as unknown as typeof mockAnsibleService;
+    mockAnsibleService.forInstance.mockReturnValue(instanceService);
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, instance: 'nonprod', values: projectData },
+    });
+
+    // @ts-ignore
+    await action.handler({ ...context });
+    expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+    expect(instanceService.launchJobTemplate).toHaveBeenCalledWith(
+      projectData,
+      MOCK_TOKEN,
+    );
+    expect(mockAnsibleService.launchJobTemplate).not.toHaveBeenCalled();
+    expect(context.output).toHaveBeenCalledWith('data', { id: 2 });
+  });
+
   it('should fail with message', async () => {
     mockAnsibleService.launchJobTemplate.mockRejectedValue(
       new Error('Test error message.'),
@@ -54,6 +131,37 @@ describe('ansible-aap:jobTemplate:launch', () => {
     expect(error?.message).toBe('Test error message.');
   });
 
+  it('should output the failed hosts before failing when the job fails', async () => {
+    const failedJob = {
+      id: 1,
+      status: 'failed',
+      url: 'https//test.com/execution/jobs/playbook/1/output',
+      hostSummaries: [
+        {
+          host: 'web1',
+          ok: 1,
+          changed: 0,
+          failed: 1,
+          unreachable: 0,
+          skipped: 0,
+        },
+      ],
+      failedHosts: ['web1'],
+    };
+    mockAnsibleService.launchJobTemplate.mockRejectedValue(
+      new AAPJobFailedError('Job execution failed due to Task failed', failedJob),
+    );
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, values: projectData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler(context)).rejects.toThrow(
+      'Job execution failed due to Task failed',
+    );
+    expect(context.output).toHaveBeenCalledWith('data', failedJob);
+  });
+
   it('should fail without message', async () => {
     mockAnsibleService.launchJobTemplate.mockRejectedValue(
       new Error('Something went wrong.'),
@@ -1,11 +1,21 @@
 import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
 import {
+  AAPJobFailedError,
   IAAPService,
   LaunchJobTemplate,
 } from '@ansible/backstage-rhaap-common';
+import { TaskJobStore } from '../jobs';
 
-export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
-  return createTemplateAction<{ token: string; values: LaunchJobTemplate }>({
+export const launchJobTemplate = (
+  ansibleServiceRef: IAAPService,
+  taskJobs?: TaskJobStore,
+) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: LaunchJobTemplate;
+    async?: boolean;
+  }>({
     id: 'rhaap:launch-job-template',
     schema: {
       input: {
@@ -16,6 +26,17 @@ export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
             type: 'string',
             description: 'Authorization token',
           },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          async: {
+            type: 'boolean',
+            title: 'Asynchronous launch',
+            description:
+              'If enabled, the action returns as soon as the job is launched instead of waiting for it to finish. The job output can then be followed from the task page, and rhaap:wait-for-job waits for its result.',
+          },
           values: {
             type: 'object',
             required: ['template'],
@@ -128,6 +149,49 @@ export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
                 description:
                   'Skip tags are useful when you have a large playbook, and you want to skip specific parts of a play or task. Use commas to separate multiple tags. Refer to the documentation for details on the usage of tags.',
               },
+              scmBranch: {
+                title: 'Source control branch',
+                type: 'string',
+                description:
+                  'Branch to use in the job run. The project default is used if blank. Only allowed if the project allows branch override.',
+              },
+              labels: {
+                title: 'Labels',
+                type: 'array',
+                description: 'Labels to attach to the job.',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: {
+                      type: 'number',
+                      description: 'Label id',
+                    },
+                    name: {
+                      type: 'string',
+                      description: 'Label name',
+                    },
+                  },
+                },
+              },
+              instanceGroups: {
+                title: 'Instance groups',
+                type: 'array',
+                description:
+                  'Instance groups to run the job on, in order of preference.',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: {
+                      type: 'number',
+                      description: 'Instance group id',
+                    },
+                    name: {
+                      type: 'string',
+                      description: 'Instance group name',
+                    },
+                  },
+                },
+              },
             },
           },
         },
@@ -150,6 +214,28 @@ export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
                 title: 'Job url',
                 type: 'string',
               },
+              hostSummaries: {
+                title: 'Per-host results of the job',
+                description:
+                  'ok, changed, failed, unreachable and skipped counts of each host. Not set when launched with async.',
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    host: { type: 'string' },
+                    ok: { type: 'number' },
+                    changed: { type: 'number' },
+                    failed: { type: 'number' },
+                    unreachable: { type: 'number' },
+                    skipped: { type: 'number' },
+                  },
+                },
+              },
+              failedHosts: {
+                title: 'Names of the hosts that failed or were unreachable',
+                type: 'array',
+                items: { type: 'string' },
+              },
             },
           },
         },
@@ -157,7 +243,7 @@ export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
     },
     async handler(ctx) {
       const {
-        input: { token, values },
+        input: { token, instance, values, async: launchAsync },
         logger,
       } = ctx;
       if (!token?.length) {
@@ -165,16 +251,38 @@ export const launchJobTemplate = (ansibleServiceRef: IAAPService) => {
         error.stack = '';
         throw error;
       }
-      ansibleServiceRef.setLogger(logger);
+      const ansibleService = instance
+        ? ansibleServiceRef.forInstance(instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
       let jobResult;
       try {
-        jobResult = await ansibleServiceRef.launchJobTemplate(values, token);
+        jobResult = launchAsync
+          ? await ansibleService.startJobTemplate(values, token)
+          : await ansibleService.launchJobTemplate(values, token);
       } catch (e: any) {
+        if (e instanceof AAPJobFailedError) {
+          // later steps and the task page can still report the failed hosts
+          ctx.output('data', e.job);
+        }
         const message = e?.message ?? 'Something went wrong.';
         const error = new Error(message);
         error.stack = '';
         throw error;
       }
+      if (launchAsync) {
+        // the task page follows the job from here, before the task ends
+        await taskJobs
+          ?.record({
+            taskId: ctx.task.id,
+            jobId: jobResult.id,
+            instance,
+            launchedBy: ctx.user?.ref,
+          })
+          .catch(error =>
+            logger.warn(`Failed to record job ${jobResult.id}: ${error}`),
+          );
+      }
       ctx.output('data', jobResult);
     },
   });
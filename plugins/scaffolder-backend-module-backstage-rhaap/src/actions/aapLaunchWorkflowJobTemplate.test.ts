@@ -0,0 +1,78 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { LaunchWorkflowJobTemplate } from '@ansible/backstage-rhaap-common';
+import { launchWorkflowJobTemplate } from './aapLaunchWorkflowJobTemplate';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:launch-workflow-job-template', () => {
+  const action = launchWorkflowJobTemplate(mockAnsibleService);
+
+  const workflowData: LaunchWorkflowJobTemplate = {
+    template: 'Test workflow job template',
+    limit: 'web',
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: workflowData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should launch workflow job template', async () => {
+    const expectedResponse = {
+      id: 1,
+      status: 'successful',
+      url: `https//test.com/execution/jobs/workflow/1/output`,
+      nodes: [
+        {
+          id: 10,
+          name: 'Provision',
+          identifier: 'provision',
+          jobId: 100,
+          jobType: 'job',
+          status: 'successful',
+        },
+      ],
+    };
+
+    mockAnsibleService.launchWorkflowJobTemplate.mockResolvedValue(
+      expectedResponse,
+    );
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.launchWorkflowJobTemplate).toHaveBeenCalledWith(
+      workflowData,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith('data', expectedResponse);
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: workflowData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.launchWorkflowJobTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.launchWorkflowJobTemplate.mockRejectedValue(
+      new Error('Workflow job execution failed due to failed nodes: Deploy'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Workflow job execution failed due to failed nodes: Deploy',
+    );
+  });
+});
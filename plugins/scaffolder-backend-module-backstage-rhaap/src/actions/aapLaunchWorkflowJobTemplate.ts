@@ -0,0 +1,134 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import {
+  IAAPService,
+  LaunchWorkflowJobTemplate,
+} from '@ansible/backstage-rhaap-common';
+
+export const launchWorkflowJobTemplate = (ansibleServiceRef: IAAPService) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: LaunchWorkflowJobTemplate;
+  }>({
+    id: 'rhaap:launch-workflow-job-template',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Authorization token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['template'],
+            properties: {
+              template: {
+                type: 'string',
+                description: 'Workflow job template name',
+              },
+              inventory: {
+                title: 'Inventory',
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Inventory id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Inventory name',
+                  },
+                },
+              },
+              limit: {
+                title: 'Limit',
+                type: 'string',
+                description:
+                  'Provide a host pattern to further constrain the list of hosts that will be managed or affected by the workflow.',
+              },
+              scmBranch: {
+                title: 'Source control branch',
+                type: 'string',
+                description:
+                  'Branch to use for the job templates of the workflow that allow it.',
+              },
+              extraVariables: {
+                title: 'Extra variables',
+                type: 'object',
+                description:
+                  'Optional extra variables to be applied to the workflow execution.',
+              },
+              timeout: {
+                title: 'Timeout',
+                type: 'number',
+                description:
+                  'Seconds to wait for the workflow job to finish, 3600 when not set.',
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          data: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Workflow job id',
+                type: 'number',
+              },
+              status: {
+                title: 'Status',
+                type: 'string',
+              },
+              url: {
+                title: 'Workflow job url',
+                type: 'string',
+              },
+              nodes: {
+                title: 'Status of the workflow nodes',
+                type: 'array',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const {
+        input: { token, instance, values },
+        logger,
+      } = ctx;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = instance
+        ? ansibleServiceRef.forInstance(instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let workflowResult;
+      try {
+        workflowResult = await ansibleService.launchWorkflowJobTemplate(
+          values,
+          token,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      ctx.output('data', workflowResult);
+    },
+  });
+};
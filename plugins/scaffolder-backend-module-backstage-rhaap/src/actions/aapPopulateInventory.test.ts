@@ -0,0 +1,68 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { PopulateInventory } from '@ansible/backstage-rhaap-common';
+import { populateInventory } from './aapPopulateInventory';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:populate-inventory', () => {
+  const action = populateInventory(mockAnsibleService);
+
+  const inventoryData: PopulateInventory = {
+    inventory: { id: 1, name: 'Test inventory' },
+    groups: [{ name: 'web', variables: { http_port: 80 } }],
+    hosts: [{ name: 'web1.example.com', groups: ['web'] }],
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: inventoryData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add hosts and groups to the inventory', async () => {
+    const expectedResponse = {
+      groups: [{ id: 10, name: 'web' }],
+      hosts: [{ id: 20, name: 'web1.example.com' }],
+    };
+    mockAnsibleService.populateInventory.mockResolvedValue(expectedResponse);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.populateInventory).toHaveBeenCalledWith(
+      inventoryData,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith(
+      'inventory',
+      expectedResponse,
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: inventoryData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.populateInventory).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.populateInventory.mockRejectedValue(
+      new Error('Groups db are not part of the groups of the inventory.'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Groups db are not part of the groups of the inventory.',
+    );
+  });
+});
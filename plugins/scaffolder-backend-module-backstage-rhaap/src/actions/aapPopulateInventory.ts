@@ -0,0 +1,155 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import {
+  IAAPService,
+  PopulateInventory,
+} from '@ansible/backstage-rhaap-common';
+
+export const populateInventory = (ansibleServiceRef: IAAPService) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: PopulateInventory;
+  }>({
+    id: 'rhaap:populate-inventory',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['inventory'],
+            properties: {
+              inventory: {
+                title: 'Inventory',
+                type: 'object',
+                required: ['id'],
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Inventory id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Inventory name',
+                  },
+                },
+              },
+              groups: {
+                title: 'Groups',
+                type: 'array',
+                description: 'Groups to add to the inventory.',
+                items: {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Group name',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Group description',
+                    },
+                    variables: {
+                      type: ['object', 'string'],
+                      description:
+                        'Group variables, as an object or a YAML/JSON string.',
+                    },
+                    children: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Names of the child groups of the group.',
+                    },
+                  },
+                },
+              },
+              hosts: {
+                title: 'Hosts',
+                type: 'array',
+                description: 'Hosts to add to the inventory.',
+                items: {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: {
+                      type: 'string',
+                      description: 'Host name or IP address',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Host description',
+                    },
+                    variables: {
+                      type: ['object', 'string'],
+                      description:
+                        'Host variables, as an object or a YAML/JSON string.',
+                    },
+                    groups: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Names of the groups the host belongs to.',
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          inventory: {
+            type: 'object',
+            properties: {
+              groups: {
+                title: 'Created groups',
+                type: 'array',
+              },
+              hosts: {
+                title: 'Created hosts',
+                type: 'array',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let inventoryData;
+      try {
+        inventoryData = await ansibleService.populateInventory(
+          input.values,
+          input.token,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      ctx.output('inventory', inventoryData);
+    },
+  });
+};
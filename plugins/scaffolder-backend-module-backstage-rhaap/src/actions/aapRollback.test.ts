@@ -0,0 +1,50 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { RollbackJournal } from '../rollback';
+import { rollback } from './aapRollback';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:rollback', () => {
+  const journal = {
+    rollback: jest.fn(),
+  } as unknown as jest.Mocked<RollbackJournal>;
+  const action = rollback(mockAnsibleService, journal);
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should delete the objects created by the task with the token', async () => {
+    const rolledBack = [
+      { kind: 'jobTemplate' as const, id: 2, name: 'Test template' },
+      { kind: 'project' as const, id: 1, name: 'Test project' },
+    ];
+    journal.rollback.mockResolvedValue(rolledBack);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(journal.rollback).toHaveBeenCalledWith(
+      mockContext.task.id,
+      mockAnsibleService,
+      expect.anything(),
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith('rolledBack', rolledBack);
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({ input: { token: '' } });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(journal.rollback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { IAAPService } from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from '../rollback';
+
+export const rollback = (
+  ansibleServiceRef: IAAPService,
+  journal: RollbackJournal,
+) => {
+  return createTemplateAction<{
+    token: string;
+  }>({
+    id: 'rhaap:rollback',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          rolledBack: {
+            title: 'Deleted objects',
+            type: 'array',
+            description:
+              'Objects created by the previous steps of the task, in the order they were deleted.',
+            items: {
+              type: 'object',
+              properties: {
+                kind: {
+                  type: 'string',
+                },
+                id: {
+                  type: 'number',
+                },
+                name: {
+                  type: 'string',
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      ansibleServiceRef.setLogger(logger);
+      const rolledBack = await journal.rollback(
+        ctx.task.id,
+        ansibleServiceRef,
+        logger,
+        token,
+      );
+      logger.info(`Deleted ${rolledBack.length} objects from RH AAP.`);
+      ctx.output('rolledBack', rolledBack);
+    },
+  });
+};
@@ -0,0 +1,69 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { RunAdHocCommand } from '@ansible/backstage-rhaap-common';
+import { runAdHocCommand } from './aapRunAdHocCommand';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:run-ad-hoc-command', () => {
+  const action = runAdHocCommand(mockAnsibleService);
+
+  const commandData: RunAdHocCommand = {
+    inventory: { id: 3, name: 'Servers' },
+    moduleName: 'ping',
+    limit: 'web*',
+    credential: { id: 5, name: 'Machine' },
+  };
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      values: commandData,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run ad hoc command', async () => {
+    const expectedResponse = {
+      id: 77,
+      status: 'successful',
+      url: 'https//test.com/execution/jobs/command/77/output',
+      stdout: 'web1 | SUCCESS => {"ping": "pong"}',
+    };
+
+    mockAnsibleService.runAdHocCommand.mockResolvedValue(expectedResponse);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.runAdHocCommand).toHaveBeenCalledWith(
+      commandData,
+      MOCK_TOKEN,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith('data', expectedResponse);
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', values: commandData },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.runAdHocCommand).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.runAdHocCommand.mockRejectedValue(
+      new Error('Ad hoc command execution failed with status failed'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Ad hoc command execution failed with status failed',
+    );
+  });
+});
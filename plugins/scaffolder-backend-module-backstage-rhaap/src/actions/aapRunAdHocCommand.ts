@@ -0,0 +1,198 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { IAAPService, RunAdHocCommand } from '@ansible/backstage-rhaap-common';
+
+export const runAdHocCommand = (ansibleServiceRef: IAAPService) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    values: RunAdHocCommand;
+  }>({
+    id: 'rhaap:run-ad-hoc-command',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'values'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Authorization token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          values: {
+            type: 'object',
+            required: ['inventory', 'moduleName'],
+            properties: {
+              inventory: {
+                title: 'Inventory',
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Inventory id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Inventory name',
+                  },
+                },
+              },
+              moduleName: {
+                title: 'Module',
+                type: 'string',
+                description:
+                  'The Ansible module to run, for example ping, setup, command or shell.',
+              },
+              moduleArgs: {
+                title: 'Arguments',
+                type: 'string',
+                description: 'Arguments passed to the module.',
+              },
+              limit: {
+                title: 'Limit',
+                type: 'string',
+                description:
+                  'Provide a host pattern to further constrain the list of hosts that will be managed or affected by the command. Multiple patterns are allowed.',
+              },
+              credential: {
+                title: 'Machine credential',
+                type: 'object',
+                description:
+                  'Credential for accessing the nodes the command will be ran against.',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Credential id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Credential name',
+                  },
+                },
+              },
+              jobType: {
+                title: 'Job type',
+                type: 'string',
+                description: 'Job type for this command: run | check',
+              },
+              executionEnvironment: {
+                title: 'Execution environment',
+                type: 'object',
+                description: 'Execution environment',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Execution environment id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Execution environment name',
+                  },
+                },
+              },
+              verbosity: {
+                title: 'Verbosity',
+                type: 'object',
+                description:
+                  'Control the level of output Ansible will produce as the command executes',
+                properties: {
+                  id: {
+                    type: 'number',
+                    description: 'Verbosity id',
+                  },
+                  name: {
+                    type: 'string',
+                    description: 'Verbosity name',
+                  },
+                },
+              },
+              forks: {
+                title: 'Forks',
+                type: 'number',
+                description:
+                  'The number of parallel or simultaneous processes to use while executing the command.',
+              },
+              becomeEnabled: {
+                title: 'Privilege escalation',
+                type: 'boolean',
+                description: 'If enabled, run the command with become.',
+              },
+              diffMode: {
+                title: 'Diff mode',
+                type: 'boolean',
+                description:
+                  "If enabled, show the changes made by the module, where supported. This is equivalent to Ansible's --diff mode.",
+              },
+              extraVariables: {
+                title: 'Extra variables',
+                type: 'object',
+                description:
+                  'Optional extra variables to be applied to the command.',
+              },
+              timeout: {
+                title: 'Timeout',
+                type: 'number',
+                description:
+                  'Seconds to wait for the ad hoc command to finish, 3600 when not set.',
+              },
+            },
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          data: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Ad hoc command id',
+                type: 'number',
+              },
+              status: {
+                title: 'Status',
+                type: 'string',
+              },
+              url: {
+                title: 'Ad hoc command url',
+                type: 'string',
+              },
+              stdout: {
+                title: 'Output of the command',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const {
+        input: { token, instance, values },
+        logger,
+      } = ctx;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = instance
+        ? ansibleServiceRef.forInstance(instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let commandResult;
+      try {
+        commandResult = await ansibleService.runAdHocCommand(values, token);
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      ctx.output('data', commandResult);
+    },
+  });
+};
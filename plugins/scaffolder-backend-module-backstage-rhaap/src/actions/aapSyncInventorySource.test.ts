@@ -0,0 +1,77 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { MOCK_TOKEN } from '../mock';
+import { syncInventorySource } from './aapSyncInventorySource';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:sync-inventory-source', () => {
+  const action = syncInventorySource(mockAnsibleService);
+
+  const mockContext = createMockActionContext({
+    input: {
+      token: MOCK_TOKEN,
+      inventorySourceId: 8,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update inventory source', async () => {
+    const expectedResponse = {
+      id: 30,
+      status: 'successful',
+      url: 'https://test.com/execution/jobs/inventory/30/output',
+    };
+    mockAnsibleService.syncInventorySource.mockResolvedValue(expectedResponse);
+
+    // @ts-ignore
+    await action.handler({ ...mockContext });
+    expect(mockAnsibleService.syncInventorySource).toHaveBeenCalledWith(
+      8,
+      MOCK_TOKEN,
+      undefined,
+    );
+    expect(mockContext.output).toHaveBeenCalledWith(
+      'inventoryUpdate',
+      expectedResponse,
+    );
+  });
+
+  it('should pass the timeout of the inventory update', async () => {
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, inventorySourceId: 8, timeout: 600 },
+    });
+
+    // @ts-ignore
+    await action.handler({ ...context });
+    expect(mockAnsibleService.syncInventorySource).toHaveBeenCalledWith(
+      8,
+      MOCK_TOKEN,
+      600,
+    );
+  });
+
+  it('should fail without token', async () => {
+    const context = createMockActionContext({
+      input: { token: '', inventorySourceId: 8 },
+    });
+
+    // @ts-ignore
+    await expect(action.handler({ ...context })).rejects.toThrow(
+      'Authorization token not provided.',
+    );
+    expect(mockAnsibleService.syncInventorySource).not.toHaveBeenCalled();
+  });
+
+  it('should fail with message', async () => {
+    mockAnsibleService.syncInventorySource.mockRejectedValue(
+      new Error('Inventory source update failed with status failed'),
+    );
+
+    // @ts-ignore
+    await expect(action.handler({ ...mockContext })).rejects.toThrow(
+      'Inventory source update failed with status failed',
+    );
+  });
+});
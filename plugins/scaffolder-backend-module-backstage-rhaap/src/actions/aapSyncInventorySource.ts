@@ -0,0 +1,91 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { IAAPService } from '@ansible/backstage-rhaap-common';
+
+export const syncInventorySource = (ansibleServiceRef: IAAPService) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    inventorySourceId: number;
+    timeout?: number;
+  }>({
+    id: 'rhaap:sync-inventory-source',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'inventorySourceId'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Oauth2 token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          inventorySourceId: {
+            title: 'Inventory source id',
+            type: 'number',
+            description:
+              'Id of the inventory source to update, for example the output of rhaap:create-inventory-source.',
+          },
+          timeout: {
+            title: 'Timeout',
+            type: 'number',
+            description:
+              'Seconds to wait for the inventory update to finish, 3600 when not set.',
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          inventoryUpdate: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Inventory update id',
+                type: 'number',
+              },
+              status: {
+                title: 'Status',
+                type: 'string',
+              },
+              url: {
+                title: 'Inventory update url',
+                type: 'string',
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const { input, logger } = ctx;
+      const token = input.token;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = input.instance
+        ? ansibleServiceRef.forInstance(input.instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let inventoryUpdate;
+      try {
+        inventoryUpdate = await ansibleService.syncInventorySource(
+          input.inventorySourceId,
+          input.token,
+          input.timeout,
+        );
+      } catch (e: any) {
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      ctx.output('inventoryUpdate', inventoryUpdate);
+    },
+  });
+};
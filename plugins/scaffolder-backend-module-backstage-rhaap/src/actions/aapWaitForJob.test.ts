@@ -0,0 +1,78 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { AAPJobFailedError } from '@ansible/backstage-rhaap-common';
+import { MOCK_TOKEN } from '../mock';
+import { waitForJob } from './aapWaitForJob';
+import { mockAnsibleService } from './mockIAAPService';
+
+describe('rhaap:wait-for-job', () => {
+  const action = waitForJob(mockAnsibleService);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should output the result of the job', async () => {
+    const result = {
+      id: 42,
+      status: 'successful',
+      url: 'https//test.com/execution/jobs/playbook/42/output',
+      hostSummaries: [],
+      failedHosts: [],
+    };
+    mockAnsibleService.waitForJob.mockResolvedValue(result);
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, jobId: 42 },
+    });
+
+    // @ts-ignore
+    await action.handler(context);
+
+    expect(mockAnsibleService.waitForJob).toHaveBeenCalledWith(42, MOCK_TOKEN);
+    expect(context.output).toHaveBeenCalledWith('data', result);
+  });
+
+  it('should output the failed hosts before failing when the job fails', async () => {
+    const failedJob = {
+      id: 42,
+      status: 'failed',
+      url: 'https//test.com/execution/jobs/playbook/42/output',
+      hostSummaries: [
+        {
+          host: 'web2',
+          ok: 0,
+          changed: 0,
+          failed: 0,
+          unreachable: 1,
+          skipped: 0,
+        },
+      ],
+      failedHosts: ['web2'],
+    };
+    mockAnsibleService.waitForJob.mockRejectedValue(
+      new AAPJobFailedError(
+        'Job execution failed due to unreachable hosts',
+        failedJob,
+      ),
+    );
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, jobId: 42 },
+    });
+
+    // @ts-ignore
+    await expect(action.handler(context)).rejects.toThrow(
+      'Job execution failed due to unreachable hosts',
+    );
+    expect(context.output).toHaveBeenCalledWith('data', failedJob);
+  });
+
+  it('should not output anything when waiting fails otherwise', async () => {
+    mockAnsibleService.waitForJob.mockRejectedValue(new Error('Forbidden'));
+    const context = createMockActionContext({
+      input: { token: MOCK_TOKEN, jobId: 42 },
+    });
+
+    // @ts-ignore
+    await expect(action.handler(context)).rejects.toThrow('Forbidden');
+    expect(context.output).not.toHaveBeenCalled();
+  });
+});
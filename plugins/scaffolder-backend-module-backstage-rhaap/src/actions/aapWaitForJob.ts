@@ -0,0 +1,98 @@
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import {
+  AAPJobFailedError,
+  IAAPService,
+} from '@ansible/backstage-rhaap-common';
+
+export const waitForJob = (ansibleServiceRef: IAAPService) => {
+  return createTemplateAction<{
+    token: string;
+    instance?: string;
+    jobId: number;
+  }>({
+    id: 'rhaap:wait-for-job',
+    schema: {
+      input: {
+        type: 'object',
+        required: ['token', 'jobId'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Authorization token',
+          },
+          instance: {
+            type: 'string',
+            description:
+              'Key of the AAP instance in ansible.rhaap.instances, the default instance when not set',
+          },
+          jobId: {
+            title: 'Job id',
+            type: 'number',
+            description:
+              'Id of the job launched by rhaap:launch-job-template in async mode.',
+          },
+        },
+      },
+      output: {
+        type: 'object',
+        properties: {
+          data: {
+            type: 'object',
+            properties: {
+              id: {
+                title: 'Job id',
+                type: 'number',
+              },
+              status: {
+                title: 'Status',
+                type: 'string',
+              },
+              url: {
+                title: 'Job url',
+                type: 'string',
+              },
+              hostSummaries: {
+                title: 'Per-host results of the job',
+                type: 'array',
+              },
+              failedHosts: {
+                title: 'Names of the hosts that failed or were unreachable',
+                type: 'array',
+                items: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+    async handler(ctx) {
+      const {
+        input: { token, instance, jobId },
+        logger,
+      } = ctx;
+      if (!token?.length) {
+        const error = new Error('Authorization token not provided.');
+        error.stack = '';
+        throw error;
+      }
+      const ansibleService = instance
+        ? ansibleServiceRef.forInstance(instance)
+        : ansibleServiceRef;
+      ansibleService.setLogger(logger);
+      let jobResult;
+      try {
+        jobResult = await ansibleService.waitForJob(Number(jobId), token);
+      } catch (e: any) {
+        if (e instanceof AAPJobFailedError) {
+          // later steps and the task page can still report the failed hosts
+          ctx.output('data', e.job);
+        }
+        const message = e?.message ?? 'Something went wrong.';
+        const error = new Error(message);
+        error.stack = '';
+        throw error;
+      }
+      ctx.output('data', jobResult);
+    },
+  });
+};
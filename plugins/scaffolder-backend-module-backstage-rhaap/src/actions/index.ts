@@ -18,8 +18,21 @@ export { BackendServiceAPI } from './utils/api';
 export { createProjectAction } from './aapCreateProject';
 export { createExecutionEnvironment } from './aapCreateEEEnv';
 export { createJobTemplate } from './aapCreateJobTemplate';
+export { createInventory } from './aapCreateInventory';
+export { populateInventory } from './aapPopulateInventory';
+export { createInventorySource } from './aapCreateInventorySource';
+export { syncInventorySource } from './aapSyncInventorySource';
+export { createCredential } from './aapCreateCredential';
+export { createSchedule } from './aapCreateSchedule';
+export { rollback } from './aapRollback';
+export { awaitApproval } from './aapAwaitApproval';
+export { confirmLaunch } from './aapConfirmLaunch';
 export { launchJobTemplate } from './aapLaunchJobTemplate';
+export { waitForJob } from './aapWaitForJob';
+export { launchWorkflowJobTemplate } from './aapLaunchWorkflowJobTemplate';
+export { runAdHocCommand } from './aapRunAdHocCommand';
 export { cleanUp } from './aapCleanUp';
 export { createShowCases } from './aapCreateShowCases';
 export { createEEDefinitionAction } from './createEEDefinition';
 export { prepareForPublishAction } from './prepareForPublish';
+export { withAuditContext } from './withAuditContext';
@@ -0,0 +1,29 @@
+import { createMockActionContext } from '@backstage/plugin-scaffolder-node-test-utils';
+import { createTemplateAction } from '@backstage/plugin-scaffolder-node';
+import { getAuditContext } from '@ansible/backstage-rhaap-common';
+import { withAuditContext } from './withAuditContext';
+
+describe('withAuditContext', () => {
+  it('runs the handler in the audit context of the task', async () => {
+    let context;
+    const action = createTemplateAction({
+      id: 'test:action',
+      async handler() {
+        await Promise.resolve();
+        context = getAuditContext();
+      },
+    });
+
+    const wrapped = withAuditContext(action);
+    const ctx = createMockActionContext({
+      user: { ref: 'user:default/alice' },
+    });
+    await wrapped.handler(ctx as any);
+
+    expect(wrapped.id).toBe('test:action');
+    expect(context).toEqual({
+      userEntityRef: 'user:default/alice',
+      taskId: ctx.task.id,
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { TemplateAction } from '@backstage/plugin-scaffolder-node';
+import { runWithAuditContext } from '@ansible/backstage-rhaap-common';
+
+/**
+ * Runs the handler of the action with the user who started the task and the
+ * task id, which the AAP client records with every call changing AAP.
+ */
+export const withAuditContext = <T extends TemplateAction<any, any, any>>(
+  action: T,
+): T => ({
+  ...action,
+  handler: ctx =>
+    runWithAuditContext(
+      { userEntityRef: ctx.user?.ref, taskId: ctx.task.id },
+      () => action.handler(ctx),
+    ),
+});
@@ -0,0 +1,148 @@
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { ApprovalStore } from './ApprovalStore';
+
+describe('ApprovalStore', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+
+  const createStore = async () => {
+    const knex = await databases.init('SQLITE_3');
+    return ApprovalStore.create(mockServices.database({ knex }));
+  };
+
+  const request = {
+    taskId: 'task-1',
+    title: 'Launch Deploy',
+    approvers: 'group:default/release-managers',
+    requestedBy: 'user:default/alice',
+    templateRef: 'template:default/deploy',
+  };
+
+  it('creates a pending request', async () => {
+    const store = await createStore();
+
+    const approval = await store.request(request);
+
+    expect(approval).toMatchObject({
+      taskId: 'task-1',
+      kind: 'approval',
+      title: 'Launch Deploy',
+      approvers: 'group:default/release-managers',
+      requestedBy: 'user:default/alice',
+      templateRef: 'template:default/deploy',
+      status: 'pending',
+      decidedBy: null,
+    });
+    expect(await store.get(approval.id)).toEqual(approval);
+    expect(await store.listPending()).toEqual([approval]);
+  });
+
+  it('returns the existing request of the task', async () => {
+    const store = await createStore();
+
+    const first = await store.request(request);
+    const second = await store.request({ ...request, title: 'Other' });
+
+    expect(second).toEqual(first);
+    expect(await store.listPending()).toHaveLength(1);
+  });
+
+  it('keeps the gates of a task apart', async () => {
+    const store = await createStore();
+    const first = await store.request({
+      ...request,
+      gate: 'release-managers',
+    });
+    await store.decide(first.id, {
+      status: 'approved',
+      decidedBy: 'user:default/bob',
+    });
+
+    const second = await store.request({
+      ...request,
+      gate: 'security',
+      approvers: 'group:default/security',
+    });
+
+    expect(second.id).not.toEqual(first.id);
+    expect(second).toMatchObject({
+      gate: 'security',
+      approvers: 'group:default/security',
+      status: 'pending',
+    });
+    expect(await store.listPending()).toEqual([second]);
+    expect(await store.getByTask('task-1', 'approval')).toEqual(second);
+    expect(
+      await store.request({ ...request, gate: 'release-managers' }),
+    ).toMatchObject({ id: first.id, status: 'approved' });
+  });
+
+  it('records a decision once', async () => {
+    const store = await createStore();
+    const approval = await store.request(request);
+
+    const approved = await store.decide(approval.id, {
+      status: 'approved',
+      decidedBy: 'user:default/bob',
+      comment: 'Go ahead',
+    });
+    const denied = await store.decide(approval.id, {
+      status: 'denied',
+      decidedBy: 'user:default/carol',
+    });
+
+    expect(approved).toMatchObject({
+      status: 'approved',
+      decidedBy: 'user:default/bob',
+      comment: 'Go ahead',
+    });
+    expect(approved?.decidedAt).toEqual(expect.any(String));
+    expect(denied).toBeUndefined();
+    expect(await store.listPending()).toEqual([]);
+  });
+
+  it('keeps the confirmations of a task apart from its approval', async () => {
+    const store = await createStore();
+    const approval = await store.request(request);
+
+    const confirmation = await store.request({
+      ...request,
+      kind: 'confirmation',
+      approvers: 'user:default/alice',
+      details: { jobId: 42, hosts: [] },
+    });
+
+    expect(confirmation.id).not.toEqual(approval.id);
+    expect(confirmation).toMatchObject({
+      kind: 'confirmation',
+      details: { jobId: 42, hosts: [] },
+    });
+    expect(await store.getByTask('task-1', 'confirmation')).toEqual(
+      confirmation,
+    );
+    expect(await store.listPending()).toEqual([approval]);
+    expect(await store.listPending('confirmation')).toEqual([confirmation]);
+  });
+
+  it('applies the migrations once', async () => {
+    const knex = await databases.init('SQLITE_3');
+    const database = mockServices.database({ knex });
+
+    await ApprovalStore.create(database);
+    const store = await ApprovalStore.create(database);
+
+    expect(await knex.schema.hasTable('rhaap_knex_migrations')).toBe(true);
+    expect(await store.request(request)).toMatchObject({
+      kind: 'approval',
+      gate: '',
+    });
+  });
+
+  it('returns undefined for an unknown request', async () => {
+    const store = await createStore();
+
+    expect(await store.get('unknown')).toBeUndefined();
+    expect(
+      await store.decide('unknown', { status: 'approved' }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { JsonObject } from '@backstage/types';
+import { Knex } from 'knex';
+import { applyDatabaseMigrations } from '../database';
+
+const TABLE = 'rhaap_approvals';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/**
+ * An approval is decided by a member of the approvers group, a confirmation
+ * by the user who started the task.
+ */
+export type ApprovalKind = 'approval' | 'confirmation';
+
+export type ApprovalRequest = {
+  id: string;
+  taskId: string;
+  kind: ApprovalKind;
+  gate: string;
+  title: string;
+  approvers: string;
+  requestedBy: string | null;
+  templateRef: string | null;
+  status: ApprovalStatus;
+  decidedBy: string | null;
+  comment: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+  details: JsonObject | null;
+};
+
+type ApprovalRow = {
+  id: string;
+  task_id: string;
+  kind: ApprovalKind;
+  gate: string;
+  title: string;
+  approvers: string;
+  requested_by: string | null;
+  template_ref: string | null;
+  status: ApprovalStatus;
+  decided_by: string | null;
+  comment: string | null;
+  created_at: string;
+  decided_at: string | null;
+  details: string | null;
+};
+
+const fromRow = (row: ApprovalRow): ApprovalRequest => ({
+  id: row.id,
+  taskId: row.task_id,
+  kind: row.kind,
+  gate: row.gate,
+  title: row.title,
+  approvers: row.approvers,
+  requestedBy: row.requested_by,
+  templateRef: row.template_ref,
+  status: row.status,
+  decidedBy: row.decided_by,
+  comment: row.comment,
+  createdAt: row.created_at,
+  decidedAt: row.decided_at,
+  details: row.details ? JSON.parse(row.details) : null,
+});
+
+/**
+ * Keeps the approval requests of the scaffolder tasks waiting in
+ * rhaap:await-approval, in the database of the scaffolder plugin so that
+ * they survive restarts and are shared by all backend instances.
+ */
+export class ApprovalStore {
+  static async create(database: DatabaseService): Promise<ApprovalStore> {
+    const client = await applyDatabaseMigrations(database);
+    return new ApprovalStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  /**
+   * Returns the request of the given kind and gate of the task, creating it
+   * when the task has none yet. The gate tells apart the steps of a task that
+   * wait for a decision, so each of them is decided on its own. A task resumed
+   * after a restart gets back its requests, and the decisions made meanwhile.
+   */
+  async request(options: {
+    taskId: string;
+    kind?: ApprovalKind;
+    gate?: string;
+    title: string;
+    approvers: string;
+    requestedBy?: string;
+    templateRef?: string;
+    details?: JsonObject;
+  }): Promise<ApprovalRequest> {
+    const kind = options.kind ?? 'approval';
+    const gate = options.gate ?? '';
+    const existing = await this.db<ApprovalRow>(TABLE)
+      .where({ task_id: options.taskId, kind, gate })
+      .first();
+    if (existing) {
+      return fromRow(existing);
+    }
+    const row: ApprovalRow = {
+      id: randomUUID(),
+      task_id: options.taskId,
+      kind,
+      gate,
+      title: options.title,
+      approvers: options.approvers,
+      requested_by: options.requestedBy ?? null,
+      template_ref: options.templateRef ?? null,
+      status: 'pending',
+      decided_by: null,
+      comment: null,
+      created_at: new Date().toISOString(),
+      decided_at: null,
+      details: options.details ? JSON.stringify(options.details) : null,
+    };
+    await this.db<ApprovalRow>(TABLE).insert(row);
+    return fromRow(row);
+  }
+
+  async get(id: string): Promise<ApprovalRequest | undefined> {
+    const row = await this.db<ApprovalRow>(TABLE).where({ id }).first();
+    return row ? fromRow(row) : undefined;
+  }
+
+  /**
+   * Returns the request of the given kind the task is waiting on, or the last
+   * one decided when it waits on none. The steps of a task run one after the
+   * other, so at most one of its requests is pending at a time.
+   */
+  async getByTask(
+    taskId: string,
+    kind: ApprovalKind,
+  ): Promise<ApprovalRequest | undefined> {
+    const row = await this.db<ApprovalRow>(TABLE)
+      .where({ task_id: taskId, kind })
+      .orderByRaw(`case when status = 'pending' then 0 else 1 end`)
+      .orderBy('created_at', 'desc')
+      .first();
+    return row ? fromRow(row) : undefined;
+  }
+
+  async listPending(
+    kind: ApprovalKind = 'approval',
+  ): Promise<ApprovalRequest[]> {
+    const rows = await this.db<ApprovalRow>(TABLE)
+      .where({ status: 'pending', kind })
+      .orderBy('created_at', 'asc');
+    return rows.map(fromRow);
+  }
+
+  /**
+   * Records the decision on a pending request. Returns undefined when the
+   * request does not exist or was already decided, so that two approvers
+   * answering at the same time cannot both win.
+   */
+  async decide(
+    id: string,
+    decision: {
+      status: Exclude<ApprovalStatus, 'pending'>;
+      decidedBy?: string;
+      comment?: string;
+    },
+  ): Promise<ApprovalRequest | undefined> {
+    const updated = await this.db<ApprovalRow>(TABLE)
+      .where({ id, status: 'pending' })
+      .update({
+        status: decision.status,
+        decided_by: decision.decidedBy ?? null,
+        comment: decision.comment ?? null,
+        decided_at: new Date().toISOString(),
+      });
+    if (!updated) {
+      return undefined;
+    }
+    return this.get(id);
+  }
+}
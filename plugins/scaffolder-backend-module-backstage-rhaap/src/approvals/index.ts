@@ -0,0 +1,8 @@
+export { ApprovalStore } from './ApprovalStore';
+export type {
+  ApprovalKind,
+  ApprovalRequest,
+  ApprovalStatus,
+} from './ApprovalStore';
+export { isGroupMember } from './membership';
+export { waitForDecision } from './waitForDecision';
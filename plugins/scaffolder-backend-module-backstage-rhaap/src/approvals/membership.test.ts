@@ -0,0 +1,128 @@
+import { mockServices } from '@backstage/backend-test-utils';
+import { isGroupMember } from './membership';
+
+const mockFetch = jest.fn();
+
+describe('isGroupMember', () => {
+  const logger = mockServices.logger.mock();
+  const mockAuthService = mockServices.auth.mock();
+  const mockDiscoveryService = mockServices.discovery.mock();
+
+  const options = {
+    auth: mockAuthService,
+    discovery: mockDiscoveryService,
+    logger,
+    groupRef: 'group:default/release-managers',
+    userRef: 'user:default/bob',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (global as any).fetch = mockFetch;
+    mockAuthService.getOwnServiceCredentials.mockResolvedValue({} as any);
+    mockAuthService.getPluginRequestToken.mockResolvedValue({
+      token: 'catalog-token',
+    });
+    mockDiscoveryService.getBaseUrl.mockResolvedValue(
+      'http://catalog.example.com',
+    );
+  });
+
+  it('returns true when the group has the user as member', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        relations: [
+          { type: 'childOf', targetRef: 'group:default/platform' },
+          { type: 'hasMember', targetRef: 'user:default/bob' },
+        ],
+      }),
+    });
+
+    await expect(isGroupMember(options)).resolves.toBe(true);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://catalog.example.com/entities/by-name/group/default/release-managers',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: 'Bearer catalog-token',
+        }),
+      }),
+    );
+  });
+
+  it('returns false when the user is not a member', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        relations: [{ type: 'hasMember', targetRef: 'user:default/alice' }],
+      }),
+    });
+
+    await expect(isGroupMember(options)).resolves.toBe(false);
+  });
+
+  it('returns false when the group cannot be read', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    await expect(isGroupMember(options)).resolves.toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to read approvers group group:default/release-managers: 404 Not Found',
+    );
+  });
+
+  it('returns true when the user is a member of a subgroup', async () => {
+    const groups: Record<string, object> = {
+      'release-managers': {
+        relations: [
+          { type: 'hasMember', targetRef: 'user:default/alice' },
+          { type: 'childOf', targetRef: 'group:default/platform' },
+          { type: 'parentOf', targetRef: 'group:default/emea-releases' },
+        ],
+      },
+      'emea-releases': {
+        relations: [
+          { type: 'childOf', targetRef: 'group:default/release-managers' },
+          { type: 'parentOf', targetRef: 'group:default/emea-oncall' },
+        ],
+      },
+      'emea-oncall': {
+        relations: [
+          { type: 'childOf', targetRef: 'group:default/emea-releases' },
+          { type: 'hasMember', targetRef: 'user:default/bob' },
+        ],
+      },
+    };
+    mockFetch.mockImplementation(async (url: string) => ({
+      ok: true,
+      json: async () => groups[url.split('/').pop()!],
+    }));
+
+    await expect(isGroupMember(options)).resolves.toBe(true);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not count the members of the parent groups', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        relations: [{ type: 'childOf', targetRef: 'group:default/platform' }],
+      }),
+    });
+
+    await expect(isGroupMember(options)).resolves.toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns false when the catalog cannot be reached', async () => {
+    mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(isGroupMember(options)).resolves.toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to read approvers group group:default/release-managers: connect ECONNREFUSED',
+    );
+  });
+});
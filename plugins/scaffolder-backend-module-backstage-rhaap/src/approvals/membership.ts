@@ -0,0 +1,87 @@
+import {
+  AuthService,
+  DiscoveryService,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
+import { parseEntityRef, stringifyEntityRef } from '@backstage/catalog-model';
+
+type Relation = { type: string; targetRef: string };
+
+/**
+ * Checks in the catalog whether the user is a member of the group or of one
+ * of its subgroups, at any depth. Members of the parent groups are not
+ * members of the group. Any failure to read a group is treated as not being
+ * a member.
+ */
+export async function isGroupMember(options: {
+  auth: AuthService;
+  discovery: DiscoveryService;
+  logger: LoggerService;
+  groupRef: string;
+  userRef: string;
+}): Promise<boolean> {
+  const { auth, discovery, logger, groupRef, userRef } = options;
+  const normalize = (ref: string) => ref.toLocaleLowerCase('en-US');
+  try {
+    const baseUrl = await discovery.getBaseUrl('catalog');
+    const { token: catalogToken } = await auth.getPluginRequestToken({
+      onBehalfOf: await auth.getOwnServiceCredentials(),
+      targetPluginId: 'catalog',
+    });
+    const getRelations = async (ref: string): Promise<Relation[]> => {
+      const { kind, namespace, name } = parseEntityRef(ref, {
+        defaultKind: 'group',
+      });
+      const response = await fetch(
+        `${baseUrl}/entities/by-name/${encodeURIComponent(
+          kind,
+        )}/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${catalogToken}`,
+          },
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      const group = await response.json();
+      return group?.relations ?? [];
+    };
+
+    const rootRef = stringifyEntityRef(
+      parseEntityRef(groupRef, { defaultKind: 'group' }),
+    );
+    const visited = new Set([normalize(rootRef)]);
+    const queue = [rootRef];
+    while (queue.length) {
+      const relations = await getRelations(queue.shift()!);
+      if (
+        relations.some(
+          relation =>
+            relation.type === 'hasMember' &&
+            normalize(relation.targetRef) === normalize(userRef),
+        )
+      ) {
+        return true;
+      }
+      for (const relation of relations) {
+        if (
+          relation.type === 'parentOf' &&
+          !visited.has(normalize(relation.targetRef))
+        ) {
+          visited.add(normalize(relation.targetRef));
+          queue.push(relation.targetRef);
+        }
+      }
+    }
+    return false;
+  } catch (error: any) {
+    logger.warn(
+      `Failed to read approvers group ${groupRef}: ${error?.message ?? error}`,
+    );
+    return false;
+  }
+}
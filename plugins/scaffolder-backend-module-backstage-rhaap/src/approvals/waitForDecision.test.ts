@@ -0,0 +1,80 @@
+import { ApprovalRequest, ApprovalStore } from './ApprovalStore';
+import { waitForDecision } from './waitForDecision';
+
+describe('waitForDecision', () => {
+  const pending: ApprovalRequest = {
+    id: 'approval-1',
+    taskId: 'task-1',
+    kind: 'approval',
+    gate: '',
+    title: 'Launch Deploy',
+    approvers: 'group:default/release-managers',
+    requestedBy: 'user:default/alice',
+    templateRef: null,
+    status: 'pending',
+    decidedBy: null,
+    comment: null,
+    createdAt: new Date().toISOString(),
+    decidedAt: null,
+    details: null,
+  };
+  const store = { get: jest.fn(), decide: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('polls until the request is decided', async () => {
+    const approved = { ...pending, status: 'approved' };
+    store.get.mockResolvedValueOnce(pending).mockResolvedValueOnce(approved);
+
+    await expect(
+      waitForDecision(store as unknown as ApprovalStore, pending, {
+        pollInterval: 0,
+      }),
+    ).resolves.toEqual(approved);
+    expect(store.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns a request decided before without polling', async () => {
+    const denied = { ...pending, status: 'denied' as const };
+
+    await expect(
+      waitForDecision(store as unknown as ApprovalStore, denied, {
+        pollInterval: 0,
+      }),
+    ).resolves.toEqual(denied);
+    expect(store.get).not.toHaveBeenCalled();
+  });
+
+  it('expires the request after the timeout', async () => {
+    const expired = { ...pending, status: 'expired' };
+    store.get.mockResolvedValue(expired);
+
+    await expect(
+      waitForDecision(
+        store as unknown as ApprovalStore,
+        {
+          ...pending,
+          createdAt: new Date(Date.now() - 2 * 60 * 1000).toISOString(),
+        },
+        { pollInterval: 0, timeout: 1 },
+      ),
+    ).resolves.toEqual(expired);
+    expect(store.decide).toHaveBeenCalledWith('approval-1', {
+      status: 'expired',
+    });
+  });
+
+  it('throws when the task is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      waitForDecision(store as unknown as ApprovalStore, pending, {
+        pollInterval: 0,
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('Cancelled while waiting for a decision.');
+  });
+});
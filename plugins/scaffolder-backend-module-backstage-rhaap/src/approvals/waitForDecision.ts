@@ -0,0 +1,32 @@
+import { ApprovalRequest, ApprovalStore } from './ApprovalStore';
+
+/**
+ * Polls the store until the request is decided. When a timeout in minutes is
+ * given, a request still pending after it is marked as expired. Throws when
+ * the task is cancelled meanwhile.
+ */
+export async function waitForDecision(
+  store: ApprovalStore,
+  request: ApprovalRequest,
+  options: { pollInterval: number; timeout?: number; signal?: AbortSignal },
+): Promise<ApprovalRequest> {
+  const { pollInterval, timeout, signal } = options;
+  const deadline = timeout
+    ? Date.parse(request.createdAt) + timeout * 60 * 1000
+    : undefined;
+  let current = request;
+  while (current.status === 'pending') {
+    if (signal?.aborted) {
+      const error = new Error('Cancelled while waiting for a decision.');
+      error.stack = '';
+      throw error;
+    }
+    if (deadline && Date.now() >= deadline) {
+      await store.decide(current.id, { status: 'expired' });
+    } else {
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+    current = (await store.get(current.id)) ?? current;
+  }
+  return current;
+}
@@ -367,4 +367,129 @@ describe('ansible-aap:autocomplete', () => {
     );
     expect(contextCalls.length).toBe(0);
   });
+
+  it('should return hosts of the inventory given in the context', async () => {
+    const mockHosts = {
+      results: [
+        { id: 1, name: 'web1.example.com' },
+        { id: 2, name: 'web2.example.com' },
+      ],
+    };
+    mockAnsibleService.getResourceData.mockResolvedValue(mockHosts);
+
+    const response = await handleAutocompleteRequest({
+      resource: 'hosts',
+      token: 'token',
+      context: { inventory: '3' },
+      config,
+      logger,
+      ansibleService: mockAnsibleService,
+      auth: mockAuthService,
+      discovery: mockDiscoveryService,
+    });
+
+    expect(mockAnsibleService.getResourceData).toHaveBeenCalledWith(
+      'inventories/3/hosts',
+      'token',
+    );
+    expect(response).toEqual(mockHosts);
+  });
+
+  it('should return the resources of the AAP instance given in the context', async () => {
+    const instanceConfig = new ConfigReader({
+      ansible: {
+        rhaap: {
+          baseUrl: 'https://rhaap.test',
+          instances: {
+            nonprod: { baseUrl: 'https://rhaap-nonprod.test' },
+          },
+        },
+      },
+    });
+    const instanceService = {
+      setLogger: jest.fn(),
+      getResourceData: jest.fn().mockResolvedValue({ results: [] }),
+    } as unknown as typeof mockAnsibleService;
+    mockAnsibleService.forInstance.mockReturnValue(instanceService);
+
+    await handleAutocompleteRequest({
+      resource: 'inventories',
+      token: 'token',
+      context: { instance: 'nonprod' },
+      config: instanceConfig,
+      logger,
+      ansibleService: mockAnsibleService,
+      auth: mockAuthService,
+      discovery: mockDiscoveryService,
+    });
+    const hostname = await handleAutocompleteRequest({
+      resource: 'aaphostname',
+      token: 'token',
+      context: { instance: 'nonprod' },
+      config: instanceConfig,
+      logger,
+      ansibleService: mockAnsibleService,
+      auth: mockAuthService,
+      discovery: mockDiscoveryService,
+    });
+
+    expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+    expect(instanceService.getResourceData).toHaveBeenCalledWith(
+      'inventories',
+      'token',
+    );
+    expect(mockAnsibleService.getResourceData).not.toHaveBeenCalled();
+    expect(hostname).toEqual({
+      results: [{ id: 1, name: 'https://rhaap-nonprod.test' }],
+    });
+  });
+
+  it('should return all groups when no inventory is given', async () => {
+    mockAnsibleService.getResourceData.mockResolvedValue({ results: [] });
+
+    await handleAutocompleteRequest({
+      resource: 'groups',
+      token: 'token',
+      config,
+      logger,
+      ansibleService: mockAnsibleService,
+      auth: mockAuthService,
+      discovery: mockDiscoveryService,
+    });
+
+    expect(mockAnsibleService.getResourceData).toHaveBeenCalledWith(
+      'groups',
+      'token',
+    );
+  });
+
+  it('should return catalog entities of the requested kind', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { kind: 'Group', metadata: { name: 'platform', namespace: 'default' } },
+      ],
+    });
+
+    const response = await handleAutocompleteRequest({
+      resource: 'catalog:Group',
+      token: 'token',
+      config,
+      logger,
+      ansibleService: mockAnsibleService,
+      auth: mockAuthService,
+      discovery: mockDiscoveryService,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://catalog.example.com/entities?filter=kind%3DGroup',
+      expect.any(Object),
+    );
+    expect(mockAnsibleService.getResourceData).not.toHaveBeenCalled();
+    expect(response).toEqual({
+      results: [
+        { id: 'group:default/platform', name: 'platform', title: undefined },
+      ],
+    });
+  });
 });
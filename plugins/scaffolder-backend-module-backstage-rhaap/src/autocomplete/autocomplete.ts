@@ -9,7 +9,10 @@ import {
   getAnsibleConfig,
   getVerbosityLevels,
 } from '@ansible/backstage-rhaap-common';
-import { getCollections } from './utils';
+import { getCatalogEntities, getCollections } from './utils';
+
+const CATALOG_RESOURCE_PREFIX = 'catalog:';
+const INVENTORY_RESOURCES = ['hosts', 'groups'];
 
 export async function handleAutocompleteRequest({
   resource,
@@ -30,7 +33,9 @@ export async function handleAutocompleteRequest({
   auth: AuthService;
   discovery: DiscoveryService;
 }): Promise<{ results: any[] }> {
-  const ansibleConfig = getAnsibleConfig(config);
+  // resources are listed from the AAP instance of the template, if it has one
+  const instance = context?.instance;
+  const ansibleConfig = getAnsibleConfig(config, instance);
 
   if (context) {
     logger.debug(`Autocomplete context for ${resource}:`, context);
@@ -53,7 +58,26 @@ export async function handleAutocompleteRequest({
     });
   }
 
-  await ansibleService.setLogger(logger);
-  const data = await ansibleService.getResourceData(resource, token);
+  if (resource.startsWith(CATALOG_RESOURCE_PREFIX)) {
+    return getCatalogEntities({
+      auth,
+      discovery,
+      logger,
+      kind: resource.slice(CATALOG_RESOURCE_PREFIX.length),
+    });
+  }
+
+  const service = instance
+    ? ansibleService.forInstance(instance)
+    : ansibleService;
+  await service.setLogger(logger);
+  if (INVENTORY_RESOURCES.includes(resource) && context?.inventory) {
+    const data = await service.getResourceData(
+      `inventories/${encodeURIComponent(context.inventory)}/${resource}`,
+      token,
+    );
+    return { results: data.results };
+  }
+  const data = await service.getResourceData(resource, token);
   return { results: data.results };
 }
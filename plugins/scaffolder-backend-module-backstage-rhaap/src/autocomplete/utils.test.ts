@@ -15,7 +15,11 @@
  */
 
 import { mockServices } from '@backstage/backend-test-utils';
-import { buildCollectionsFromCatalogEntities, getCollections } from './utils';
+import {
+  buildCollectionsFromCatalogEntities,
+  getCatalogEntities,
+  getCollections,
+} from './utils';
 
 const mockFetch = jest.fn();
 
@@ -377,4 +381,72 @@ describe('autocomplete utils', () => {
       );
     });
   });
+
+  describe('getCatalogEntities', () => {
+    it('returns entity refs and names sorted by name', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          items: [
+            {
+              kind: 'Group',
+              metadata: { name: 'platform', namespace: 'default' },
+            },
+            {
+              kind: 'Group',
+              metadata: {
+                name: 'developers',
+                namespace: 'default',
+                title: 'Developers',
+              },
+            },
+          ],
+        }),
+      });
+
+      const result = await getCatalogEntities({
+        auth: mockAuthService,
+        discovery: mockDiscoveryService,
+        logger,
+        kind: 'Group',
+      });
+
+      expect(result.results).toEqual([
+        {
+          id: 'group:default/developers',
+          name: 'developers',
+          title: 'Developers',
+        },
+        { id: 'group:default/platform', name: 'platform', title: undefined },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://catalog.example.com/entities?filter=kind%3DGroup',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer catalog-token',
+          }),
+        }),
+      );
+    });
+
+    it('returns empty results and logs warn when response is not ok', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+      });
+
+      const result = await getCatalogEntities({
+        auth: mockAuthService,
+        discovery: mockDiscoveryService,
+        logger,
+        kind: 'User',
+      });
+
+      expect(result.results).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Catalog entities request failed: 403 Forbidden',
+      );
+    });
+  });
 });
@@ -3,6 +3,7 @@ import {
   DiscoveryService,
   LoggerService,
 } from '@backstage/backend-plugin-api';
+import { stringifyEntityRef } from '@backstage/catalog-model';
 import type { Collections } from '@ansible/backstage-rhaap-common';
 
 function formatSource(annotations: Record<string, string>): string | null {
@@ -144,7 +145,46 @@ export async function getCollections(options: {
     return { results: [] };
   }
   const body = await response.json();
-  const entities = Array.isArray(body) ? body : (body?.items ?? []);
+  const entities = Array.isArray(body) ? body : body?.items ?? [];
   const results = buildCollectionsFromCatalogEntities(entities);
   return { results };
 }
+
+export async function getCatalogEntities(options: {
+  auth: AuthService;
+  discovery: DiscoveryService;
+  logger: LoggerService;
+  kind: string;
+}): Promise<{ results: { id: string; name: string; title?: string }[] }> {
+  const { auth, discovery, logger, kind } = options;
+  const baseUrl = await discovery.getBaseUrl('catalog');
+  const { token: catalogToken } = await auth.getPluginRequestToken({
+    onBehalfOf: await auth.getOwnServiceCredentials(),
+    targetPluginId: 'catalog',
+  });
+  const filter = encodeURIComponent(`kind=${kind}`);
+  const response = await fetch(`${baseUrl}/entities?filter=${filter}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${catalogToken}`,
+    },
+  });
+  if (!response.ok) {
+    logger.warn(
+      `Catalog entities request failed: ${response.status} ${response.statusText}`,
+    );
+    return { results: [] };
+  }
+  const body = await response.json();
+  const entities: any[] = Array.isArray(body) ? body : body?.items ?? [];
+  const results = entities.map(entity => ({
+    id: stringifyEntityRef(entity),
+    name: entity.metadata.name,
+    title: entity.metadata.title,
+  }));
+  results.sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  );
+  return { results };
+}
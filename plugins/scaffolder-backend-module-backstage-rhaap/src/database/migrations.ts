@@ -0,0 +1,28 @@
+import {
+  DatabaseService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+
+const migrationsDir = resolvePackagePath(
+  '@ansible/plugin-scaffolder-backend-module-backstage-rhaap',
+  'migrations',
+);
+
+/**
+ * Returns the database client after bringing the tables of the module up to
+ * date. The module shares the database of the scaffolder plugin, so its
+ * migrations are tracked in a table of their own.
+ */
+export async function applyDatabaseMigrations(
+  database: DatabaseService,
+): Promise<Knex> {
+  const client = await database.getClient();
+  if (!database.migrations?.skip) {
+    await client.migrate.latest({
+      directory: migrationsDir,
+      tableName: 'rhaap_knex_migrations',
+    });
+  }
+  return client;
+}
@@ -0,0 +1,41 @@
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { TaskJobStore } from './TaskJobStore';
+
+describe('TaskJobStore', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+
+  const createStore = async () => {
+    const knex = await databases.init('SQLITE_3');
+    return TaskJobStore.create(mockServices.database({ knex }));
+  };
+
+  it('returns the last job launched by the task', async () => {
+    const store = await createStore();
+
+    await store.record({
+      taskId: 'task-1',
+      jobId: 41,
+      launchedBy: 'user:default/alice',
+    });
+    await store.record({
+      taskId: 'task-1',
+      jobId: 42,
+      instance: 'dev',
+      launchedBy: 'user:default/alice',
+    });
+    await store.record({ taskId: 'task-2', jobId: 43 });
+
+    expect(await store.getLatest('task-1')).toMatchObject({
+      taskId: 'task-1',
+      jobId: 42,
+      instance: 'dev',
+      launchedBy: 'user:default/alice',
+    });
+  });
+
+  it('returns undefined for a task without jobs', async () => {
+    const store = await createStore();
+
+    expect(await store.getLatest('task-1')).toBeUndefined();
+  });
+});
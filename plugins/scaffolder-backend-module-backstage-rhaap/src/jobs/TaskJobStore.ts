@@ -0,0 +1,70 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { Knex } from 'knex';
+import { applyDatabaseMigrations } from '../database';
+
+const TABLE = 'rhaap_task_jobs';
+
+export type TaskJob = {
+  taskId: string;
+  jobId: number;
+  instance: string | null;
+  launchedBy: string | null;
+  createdAt: string;
+};
+
+type TaskJobRow = {
+  id?: number;
+  task_id: string;
+  job_id: number;
+  instance: string | null;
+  launched_by: string | null;
+  created_at: string;
+};
+
+const fromRow = (row: TaskJobRow): TaskJob => ({
+  taskId: row.task_id,
+  jobId: row.job_id,
+  instance: row.instance,
+  launchedBy: row.launched_by,
+  createdAt: row.created_at,
+});
+
+/**
+ * Keeps the AAP jobs launched with rhaap:launch-job-template in async mode,
+ * so that the task page can follow a job while the task is still running:
+ * the outputs of a task are only known once it has finished.
+ */
+export class TaskJobStore {
+  static async create(database: DatabaseService): Promise<TaskJobStore> {
+    const client = await applyDatabaseMigrations(database);
+    return new TaskJobStore(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async record(job: {
+    taskId: string;
+    jobId: number;
+    instance?: string;
+    launchedBy?: string;
+  }): Promise<TaskJob> {
+    const row: TaskJobRow = {
+      task_id: job.taskId,
+      job_id: job.jobId,
+      instance: job.instance ?? null,
+      launched_by: job.launchedBy ?? null,
+      created_at: new Date().toISOString(),
+    };
+    await this.db<TaskJobRow>(TABLE).insert(row);
+    return fromRow(row);
+  }
+
+  /** Returns the job the task launched last. */
+  async getLatest(taskId: string): Promise<TaskJob | undefined> {
+    const row = await this.db<TaskJobRow>(TABLE)
+      .where({ task_id: taskId })
+      .orderBy('id', 'desc')
+      .first();
+    return row ? fromRow(row) : undefined;
+  }
+}
@@ -0,0 +1,2 @@
+export { TaskJobStore } from './TaskJobStore';
+export type { TaskJob } from './TaskJobStore';
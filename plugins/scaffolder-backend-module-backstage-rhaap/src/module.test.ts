@@ -17,6 +17,19 @@ jest.mock('./actions', () => ({
   createEETemplateAction: jest.fn(() => 'action9'),
   prepareForPublishAction: jest.fn(() => 'action10'),
   createEECatalogInfoAction: jest.fn(() => 'action11'),
+  launchWorkflowJobTemplate: jest.fn(() => 'action12'),
+  runAdHocCommand: jest.fn(() => 'action13'),
+  createInventory: jest.fn(() => 'action14'),
+  populateInventory: jest.fn(() => 'action15'),
+  createInventorySource: jest.fn(() => 'action16'),
+  syncInventorySource: jest.fn(() => 'action17'),
+  createCredential: jest.fn(() => 'action18'),
+  rollback: jest.fn(() => 'action19'),
+  createSchedule: jest.fn(() => 'action20'),
+  awaitApproval: jest.fn(() => 'action21'),
+  confirmLaunch: jest.fn(() => 'action22'),
+  waitForJob: jest.fn(() => 'action23'),
+  withAuditContext: jest.fn(action => action),
 }));
 
 jest.mock('./filters', () => ({
@@ -29,6 +42,19 @@ jest.mock('./autocomplete', () => ({
   handleAutocompleteRequest: jest.fn(() => Promise.resolve({ results: [] })),
 }));
 
+jest.mock('./approvals', () => ({
+  ApprovalStore: { create: jest.fn(() => Promise.resolve('approvalStore')) },
+}));
+
+jest.mock('./jobs', () => ({
+  TaskJobStore: { create: jest.fn(() => Promise.resolve('taskJobStore')) },
+}));
+
+jest.mock('./rollback', () => ({
+  RollbackJournal: { create: jest.fn(() => Promise.resolve('journal')) },
+  subscribeRollbackOnFailure: jest.fn(),
+}));
+
 jest.mock('./router', () => ({
   createRouter: jest.fn(() => Promise.resolve(jest.fn())),
 }));
@@ -36,10 +62,20 @@ jest.mock('./router', () => ({
 jest.mock('@ansible/backstage-rhaap-common', () => ({
   getAnsibleConfig: jest.fn(() => ({ ansible: 'config' })),
   ansibleServiceRef: Symbol('ansibleServiceRef'),
+  aapAuditServiceRef: Symbol('aapAuditServiceRef'),
 }));
 
 // import mocks for assertions
-import { createShowCases } from './actions';
+import {
+  awaitApproval,
+  confirmLaunch,
+  createShowCases,
+  launchJobTemplate,
+  withAuditContext,
+} from './actions';
+import { ApprovalStore } from './approvals';
+import { TaskJobStore } from './jobs';
+import { RollbackJournal, subscribeRollbackOnFailure } from './rollback';
 import {
   multiResourceFilter,
   resourceFilter,
@@ -47,6 +83,7 @@ import {
 } from './filters';
 import { handleAutocompleteRequest } from './autocomplete';
 import { getAnsibleConfig } from '@ansible/backstage-rhaap-common';
+import { createRouter } from './router';
 
 describe('scaffolderModuleAnsible', () => {
   beforeEach(() => {
@@ -70,6 +107,11 @@ describe('scaffolderModuleAnsible', () => {
       logger: { info: jest.fn(), debug: jest.fn(), error: jest.fn() },
       ansibleService: { name: 'ansibleService' },
       httpRouter: { use: jest.fn() },
+      httpAuth: { credentials: jest.fn() },
+      userInfo: { getUserInfo: jest.fn() },
+      database: { getClient: jest.fn() },
+      events: { subscribe: jest.fn(), publish: jest.fn() },
+      audit: { record: jest.fn(), query: jest.fn() },
       auth: {
         getOwnServiceCredentials: jest.fn(),
         getPluginRequestToken: jest.fn(),
@@ -98,6 +140,20 @@ describe('scaffolderModuleAnsible', () => {
     expect(actions).toContain('action5');
     expect(actions).toContain('action6');
     expect(actions).toContain('action7');
+    expect(actions).toContain('action12');
+    expect(actions).toContain('action13');
+    expect(actions).toContain('action14');
+    expect(actions).toContain('action15');
+    expect(actions).toContain('action16');
+    expect(actions).toContain('action17');
+    expect(actions).toContain('action18');
+    expect(actions).toContain('action19');
+    expect(actions).toContain('action20');
+    expect(actions).toContain('action21');
+    expect(actions).toContain('action22');
+    expect(actions).toContain('action23');
+    expect(withAuditContext).toHaveBeenCalledTimes(actions.length);
+    expect(withAuditContext).toHaveBeenCalledWith('action22');
 
     // --- Verify template filters ---
     expect(
@@ -146,7 +202,34 @@ describe('scaffolderModuleAnsible', () => {
       (getAnsibleConfig as jest.Mock).mock.results[0].value,
     );
 
+    // --- Verify approval store ---
+    expect(ApprovalStore.create).toHaveBeenCalledWith(fakeEnv.database);
+    expect(awaitApproval).toHaveBeenCalledWith('approvalStore');
+    expect(confirmLaunch).toHaveBeenCalledWith('approvalStore');
+
+    // --- Verify task job store ---
+    expect(TaskJobStore.create).toHaveBeenCalledWith(fakeEnv.database);
+    expect(launchJobTemplate).toHaveBeenCalledWith(
+      fakeEnv.ansibleService,
+      'taskJobStore',
+    );
+
+    // --- Verify rollback journal and on failure subscription ---
+    expect(RollbackJournal.create).toHaveBeenCalledWith(fakeEnv.database);
+    expect(subscribeRollbackOnFailure).toHaveBeenCalledWith({
+      events: fakeEnv.events,
+      journal: 'journal',
+      ansibleService: fakeEnv.ansibleService,
+      config: fakeEnv.config,
+      logger: fakeEnv.logger,
+    });
+
     // --- Verify httpRouter.use call ---
     expect(fakeEnv.httpRouter.use).toHaveBeenCalledTimes(1);
+    expect(createRouter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        audit: { service: fakeEnv.audit, userInfo: fakeEnv.userInfo },
+      }),
+    );
   });
 });
@@ -23,7 +23,9 @@ import {
   scaffolderAutocompleteExtensionPoint,
   scaffolderTemplatingExtensionPoint,
 } from '@backstage/plugin-scaffolder-node/alpha';
+import { eventsServiceRef } from '@backstage/plugin-events-node';
 import {
+  aapAuditServiceRef,
   ansibleServiceRef,
   getAnsibleConfig,
 } from '@ansible/backstage-rhaap-common';
@@ -32,11 +34,24 @@ import {
   cleanUp,
   createExecutionEnvironment,
   createJobTemplate,
+  createInventory,
+  populateInventory,
+  createInventorySource,
+  syncInventorySource,
+  createCredential,
+  createSchedule,
+  rollback,
+  awaitApproval,
+  confirmLaunch,
   createProjectAction,
   createShowCases,
   launchJobTemplate,
+  waitForJob,
+  launchWorkflowJobTemplate,
+  runAdHocCommand,
   createEEDefinitionAction,
   prepareForPublishAction,
+  withAuditContext,
 } from './actions';
 
 import {
@@ -47,6 +62,9 @@ import {
 import { handleAutocompleteRequest } from './autocomplete';
 
 import { createRouter } from './router';
+import { RollbackJournal, subscribeRollbackOnFailure } from './rollback';
+import { ApprovalStore } from './approvals';
+import { TaskJobStore } from './jobs';
 
 /**
  * @public
@@ -67,6 +85,11 @@ export const scaffolderModuleAnsible = createBackendModule({
         auth: coreServices.auth,
         discovery: coreServices.discovery,
         httpRouter: coreServices.httpRouter,
+        httpAuth: coreServices.httpAuth,
+        userInfo: coreServices.userInfo,
+        database: coreServices.database,
+        events: eventsServiceRef,
+        audit: aapAuditServiceRef,
       },
       async init({
         scaffolder,
@@ -78,16 +101,36 @@ export const scaffolderModuleAnsible = createBackendModule({
         auth,
         discovery,
         httpRouter,
+        httpAuth,
+        userInfo,
+        database,
+        events,
+        audit,
       }) {
         const ansibleConfig = getAnsibleConfig(config);
         const frontendUrl = config.getString('app.baseUrl');
-        scaffolder.addActions(
+        const journal = await RollbackJournal.create(database);
+        const approvalStore = await ApprovalStore.create(database);
+        const taskJobStore = await TaskJobStore.create(database);
+        const actions = [
           createAnsibleContentAction(config, ansibleConfig),
-          createProjectAction(ansibleService),
-          createExecutionEnvironment(ansibleService),
-          createJobTemplate(ansibleService),
-          launchJobTemplate(ansibleService),
+          createProjectAction(ansibleService, journal),
+          createExecutionEnvironment(ansibleService, journal),
+          createJobTemplate(ansibleService, journal),
+          createInventory(ansibleService, journal),
+          populateInventory(ansibleService),
+          createInventorySource(ansibleService, journal),
+          syncInventorySource(ansibleService),
+          createCredential(ansibleService, journal),
+          launchJobTemplate(ansibleService, taskJobStore),
+          waitForJob(ansibleService),
+          launchWorkflowJobTemplate(ansibleService),
+          createSchedule(ansibleService, journal),
+          runAdHocCommand(ansibleService),
           cleanUp(ansibleService),
+          rollback(ansibleService, journal),
+          awaitApproval(approvalStore),
+          confirmLaunch(approvalStore),
           createShowCases(ansibleService, ansibleConfig),
           createEEDefinitionAction({
             frontendUrl,
@@ -97,6 +140,9 @@ export const scaffolderModuleAnsible = createBackendModule({
           prepareForPublishAction({
             ansibleConfig: ansibleConfig,
           }),
+        ];
+        scaffolder.addActions(
+          ...actions.map(action => withAuditContext(action)),
         );
         scaffolderTemplating.addTemplateFilters({
           useCaseNameFilter: useCaseNameFilter,
@@ -125,10 +171,26 @@ export const scaffolderModuleAnsible = createBackendModule({
               discovery,
             }),
         });
+        await subscribeRollbackOnFailure({
+          events,
+          journal,
+          ansibleService,
+          config,
+          logger,
+        });
         httpRouter.use(
           (await createRouter({
             logger,
             ansibleConfig,
+            ansibleService,
+            httpAuth,
+            approvals: {
+              store: approvalStore,
+              auth,
+              discovery,
+            },
+            taskJobs: taskJobStore,
+            audit: { service: audit, userInfo },
           })) as any,
         );
       },
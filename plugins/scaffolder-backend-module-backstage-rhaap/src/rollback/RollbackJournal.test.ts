@@ -0,0 +1,175 @@
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { RollbackJournal } from './RollbackJournal';
+import { mockAnsibleService } from '../actions/mockIAAPService';
+
+describe('RollbackJournal', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+  const logger = mockServices.logger.mock();
+
+  const createJournal = async () => {
+    const knex = await databases.init('SQLITE_3');
+    return RollbackJournal.create(mockServices.database({ knex }));
+  };
+
+  const task = (id: string, annotations?: Record<string, string>) => ({
+    task: { id },
+    templateInfo: { entity: { metadata: { annotations } } },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record entries per task', async () => {
+    const journal = await createJournal();
+    await journal.record(task('task-1'), { kind: 'project', id: 1, name: 'p' });
+    await journal.record(task('task-2'), {
+      kind: 'inventory',
+      id: 2,
+      name: 'i',
+      instance: 'nonprod',
+    });
+
+    expect(await journal.entries('task-1')).toEqual([
+      { kind: 'project', id: 1, name: 'p' },
+    ]);
+    await journal.clear('task-1');
+    expect(await journal.entries('task-1')).toEqual([]);
+    expect(await journal.entries('task-2')).toEqual([
+      { kind: 'inventory', id: 2, name: 'i', instance: 'nonprod' },
+    ]);
+  });
+
+  it('should keep whether the template opted in to the rollback on failure', async () => {
+    const journal = await createJournal();
+    await journal.record(
+      task('task-1', { 'ansible.io/rollback-on-failure': 'true' }),
+      { kind: 'project', id: 1, name: 'p' },
+    );
+    await journal.record(task('task-2'), { kind: 'project', id: 2, name: 'q' });
+
+    expect(await journal.rollsBackOnFailure('task-1')).toBe(true);
+    expect(await journal.rollsBackOnFailure('task-2')).toBe(false);
+  });
+
+  it('should delete the recorded objects in reverse order', async () => {
+    const journal = await createJournal();
+    await journal.record(task('task-1'), { kind: 'project', id: 1, name: 'p' });
+    await journal.record(task('task-1'), {
+      kind: 'jobTemplate',
+      id: 2,
+      name: 't',
+    });
+    await journal.record(task('task-1'), {
+      kind: 'credential',
+      id: 3,
+      name: 'c',
+    });
+
+    const rolledBack = await journal.rollback(
+      'task-1',
+      mockAnsibleService,
+      logger,
+      'token',
+    );
+
+    expect(
+      mockAnsibleService.executeDeleteRequest.mock.calls.map(call => call[0]),
+    ).toEqual([
+      'api/controller/v2/credentials/3/',
+      'api/controller/v2/job_templates/2/',
+      'api/controller/v2/projects/1/',
+    ]);
+    expect(mockAnsibleService.executeDeleteRequest).toHaveBeenCalledWith(
+      expect.any(String),
+      'token',
+    );
+    expect(rolledBack.map(entry => entry.id)).toEqual([3, 2, 1]);
+    expect(await journal.entries('task-1')).toEqual([]);
+  });
+
+  it('should continue when an object cannot be deleted', async () => {
+    const journal = await createJournal();
+    await journal.record(task('task-1'), {
+      kind: 'inventory',
+      id: 1,
+      name: 'i',
+    });
+    await journal.record(task('task-1'), {
+      kind: 'inventorySource',
+      id: 2,
+      name: 's',
+    });
+    mockAnsibleService.executeDeleteRequest
+      .mockRejectedValueOnce(new Error('Failed to delete'))
+      .mockResolvedValueOnce({});
+
+    const rolledBack = await journal.rollback(
+      'task-1',
+      mockAnsibleService,
+      logger,
+      'token',
+    );
+
+    expect(mockAnsibleService.executeDeleteRequest).toHaveBeenLastCalledWith(
+      'api/controller/v2/inventories/1/',
+      'token',
+    );
+    expect(rolledBack).toEqual([{ kind: 'inventory', id: 1, name: 'i' }]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to roll back inventorySource s (2): Failed to delete',
+    );
+  });
+
+  it('should delete the objects in the AAP instance they were created in', async () => {
+    const instanceService = {
+      executeDeleteRequest: jest.fn(),
+    } as unknown as typeof mockAnsibleService;
+    mockAnsibleService.forInstance.mockReturnValue(instanceService);
+    const journal = await createJournal();
+    await journal.record(task('task-1'), { kind: 'project', id: 1, name: 'p' });
+    await journal.record(task('task-1'), {
+      kind: 'inventory',
+      id: 2,
+      name: 'i',
+      instance: 'nonprod',
+    });
+
+    await journal.rollback('task-1', mockAnsibleService, logger, entry =>
+      entry.instance ? 'nonprod-token' : 'token',
+    );
+
+    expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+    expect(instanceService.executeDeleteRequest).toHaveBeenCalledWith(
+      'api/controller/v2/inventories/2/',
+      'nonprod-token',
+    );
+    expect(mockAnsibleService.executeDeleteRequest).toHaveBeenCalledTimes(1);
+    expect(mockAnsibleService.executeDeleteRequest).toHaveBeenCalledWith(
+      'api/controller/v2/projects/1/',
+      'token',
+    );
+  });
+
+  it('should skip the objects without a token', async () => {
+    const journal = await createJournal();
+    await journal.record(task('task-1'), { kind: 'project', id: 1, name: 'p' });
+
+    await expect(
+      journal.rollback('task-1', mockAnsibleService, logger, () => undefined),
+    ).resolves.toEqual([]);
+    expect(mockAnsibleService.executeDeleteRequest).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to roll back project p (1): No token to delete it with',
+    );
+  });
+
+  it('should do nothing for unknown tasks', async () => {
+    const journal = await createJournal();
+
+    await expect(
+      journal.rollback('task-1', mockAnsibleService, logger, 'token'),
+    ).resolves.toEqual([]);
+    expect(mockAnsibleService.executeDeleteRequest).not.toHaveBeenCalled();
+  });
+});
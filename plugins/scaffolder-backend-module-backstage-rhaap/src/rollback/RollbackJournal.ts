@@ -0,0 +1,154 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { IAAPService } from '@ansible/backstage-rhaap-common';
+import { Knex } from 'knex';
+import { applyDatabaseMigrations } from '../database';
+
+const TABLE = 'rhaap_rollback_journal';
+
+/**
+ * Annotation of a template that opts its tasks in to the automatic rollback
+ * of the created objects when they fail or are cancelled.
+ */
+export const ROLLBACK_ON_FAILURE_ANNOTATION = 'ansible.io/rollback-on-failure';
+
+export type JournalEntryKind =
+  | 'project'
+  | 'executionEnvironment'
+  | 'jobTemplate'
+  | 'inventory'
+  | 'inventorySource'
+  | 'credential'
+  | 'schedule';
+
+export type JournalEntry = {
+  kind: JournalEntryKind;
+  id: number;
+  name: string;
+  /** Key of the AAP instance the object was created in, unset for the default instance. */
+  instance?: string;
+};
+
+/** The parts of the action context that identify the task and its template. */
+export type JournalTask = {
+  task: { id: string };
+  templateInfo?: {
+    entity?: { metadata: { annotations?: Record<string, string> } };
+  };
+};
+
+type JournalRow = {
+  id?: number;
+  task_id: string;
+  kind: JournalEntryKind;
+  object_id: number;
+  name: string;
+  instance: string | null;
+  rollback_on_failure: boolean;
+  created_at: string;
+};
+
+const ENDPOINTS: Record<JournalEntryKind, string> = {
+  project: 'projects',
+  executionEnvironment: 'execution_environments',
+  jobTemplate: 'job_templates',
+  inventory: 'inventories',
+  inventorySource: 'inventory_sources',
+  credential: 'credentials',
+  schedule: 'schedules',
+};
+
+const fromRow = (row: JournalRow): JournalEntry => ({
+  kind: row.kind,
+  id: row.object_id,
+  name: row.name,
+  ...(row.instance ? { instance: row.instance } : {}),
+});
+
+/**
+ * Keeps, per scaffolder task, the AAP objects created by the task so that
+ * they can be deleted in reverse order when the task does not complete.
+ * No token is stored: the objects are deleted with the token of the
+ * rhaap:rollback action or, on failure, with the service token of their
+ * AAP instance.
+ */
+export class RollbackJournal {
+  static async create(database: DatabaseService): Promise<RollbackJournal> {
+    const client = await applyDatabaseMigrations(database);
+    return new RollbackJournal(client);
+  }
+
+  private constructor(private readonly db: Knex) {}
+
+  async record(ctx: JournalTask, entry: JournalEntry): Promise<void> {
+    const annotations = ctx.templateInfo?.entity?.metadata.annotations;
+    await this.db<JournalRow>(TABLE).insert({
+      task_id: ctx.task.id,
+      kind: entry.kind,
+      object_id: entry.id,
+      name: entry.name,
+      instance: entry.instance ?? null,
+      rollback_on_failure:
+        annotations?.[ROLLBACK_ON_FAILURE_ANNOTATION] === 'true',
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  async entries(taskId: string): Promise<JournalEntry[]> {
+    const rows = await this.db<JournalRow>(TABLE)
+      .where({ task_id: taskId })
+      .orderBy('id', 'asc');
+    return rows.map(fromRow);
+  }
+
+  /** Whether the template of the task opted in to the automatic rollback. */
+  async rollsBackOnFailure(taskId: string): Promise<boolean> {
+    const row = await this.db<JournalRow>(TABLE)
+      .where({ task_id: taskId, rollback_on_failure: true })
+      .first();
+    return Boolean(row);
+  }
+
+  async clear(taskId: string): Promise<void> {
+    await this.db<JournalRow>(TABLE).where({ task_id: taskId }).delete();
+  }
+
+  /**
+   * Deletes the objects recorded for the task, newest first. Objects that
+   * cannot be deleted are logged and skipped so that the others are still
+   * removed. The token is either the one to delete all objects with or
+   * resolves the token for each object. Returns the entries that were
+   * deleted.
+   */
+  async rollback(
+    taskId: string,
+    ansibleService: IAAPService,
+    logger: LoggerService,
+    token: string | ((entry: JournalEntry) => string | undefined),
+  ): Promise<JournalEntry[]> {
+    const entries = await this.entries(taskId);
+    await this.clear(taskId);
+    const rolledBack: JournalEntry[] = [];
+    for (const entry of entries.reverse()) {
+      try {
+        const entryToken = typeof token === 'string' ? token : token(entry);
+        if (!entryToken) {
+          throw new Error('No token to delete it with');
+        }
+        logger.info(`Rolling back ${entry.kind} ${entry.name} (${entry.id}).`);
+        const service = entry.instance
+          ? ansibleService.forInstance(entry.instance)
+          : ansibleService;
+        await service.executeDeleteRequest(
+          `api/controller/v2/${ENDPOINTS[entry.kind]}/${entry.id}/`,
+          entryToken,
+        );
+        rolledBack.push(entry);
+      } catch (e: any) {
+        logger.warn(
+          `Failed to roll back ${entry.kind} ${entry.name} (${entry.id}): ${e?.message}`,
+        );
+      }
+    }
+    return rolledBack;
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  RollbackJournal,
+  ROLLBACK_ON_FAILURE_ANNOTATION,
+} from './RollbackJournal';
+export type {
+  JournalEntry,
+  JournalEntryKind,
+  JournalTask,
+} from './RollbackJournal';
+export { subscribeRollbackOnFailure } from './rollbackOnFailure';
@@ -0,0 +1,104 @@
+import { ConfigReader } from '@backstage/config';
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { RollbackJournal } from './RollbackJournal';
+import { subscribeRollbackOnFailure } from './rollbackOnFailure';
+import { mockAnsibleService } from '../actions/mockIAAPService';
+
+describe('subscribeRollbackOnFailure', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+  const logger = mockServices.logger.mock();
+  const config = new ConfigReader({
+    ansible: { rhaap: { baseUrl: 'https://aap.test', token: 'service-token' } },
+  });
+  const optedIn = {
+    task: { id: 'task-1' },
+    templateInfo: {
+      entity: {
+        metadata: { annotations: { 'ansible.io/rollback-on-failure': 'true' } },
+      },
+    },
+  };
+  let journal: RollbackJournal;
+  let onEvent: (params: any) => Promise<void>;
+  const events = {
+    publish: jest.fn(),
+    subscribe: jest.fn(async options => {
+      onEvent = options.onEvent;
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const knex = await databases.init('SQLITE_3');
+    journal = await RollbackJournal.create(mockServices.database({ knex }));
+    await journal.record(optedIn, { kind: 'project', id: 1, name: 'p' });
+    await subscribeRollbackOnFailure({
+      events,
+      journal,
+      ansibleService: mockAnsibleService,
+      config,
+      logger,
+    });
+  });
+
+  it('should subscribe to scaffolder task events', () => {
+    expect(events.subscribe).toHaveBeenCalledWith(
+      expect.objectContaining({ topics: ['scaffolder.task'] }),
+    );
+  });
+
+  it.each(['failed', 'cancelled'])(
+    'should roll back a %s task with the service token',
+    async status => {
+      await onEvent({
+        topic: 'scaffolder.task',
+        eventPayload: { id: 'task-1', status },
+      });
+
+      expect(mockAnsibleService.executeDeleteRequest).toHaveBeenCalledWith(
+        'api/controller/v2/projects/1/',
+        'service-token',
+      );
+      expect(await journal.entries('task-1')).toEqual([]);
+    },
+  );
+
+  it('should only forget the objects of a task whose template did not opt in', async () => {
+    await journal.record(
+      { task: { id: 'task-2' } },
+      { kind: 'project', id: 2, name: 'q' },
+    );
+
+    await onEvent({
+      topic: 'scaffolder.task',
+      eventPayload: { id: 'task-2', status: 'failed' },
+    });
+
+    expect(mockAnsibleService.executeDeleteRequest).not.toHaveBeenCalled();
+    expect(await journal.entries('task-2')).toEqual([]);
+  });
+
+  it('should forget the objects of a completed task', async () => {
+    await onEvent({
+      topic: 'scaffolder.task',
+      eventPayload: { id: 'task-1', status: 'completed' },
+    });
+
+    expect(mockAnsibleService.executeDeleteRequest).not.toHaveBeenCalled();
+    expect(await journal.entries('task-1')).toEqual([]);
+  });
+
+  it('should ignore running tasks and cancellation requests', async () => {
+    await onEvent({
+      topic: 'scaffolder.task',
+      eventPayload: { id: 'task-1', status: 'processing' },
+    });
+    await onEvent({
+      topic: 'scaffolder.task',
+      eventPayload: { id: 7, taskId: 'task-1', status: 'cancelled' },
+    });
+
+    expect(mockAnsibleService.executeDeleteRequest).not.toHaveBeenCalled();
+    expect(await journal.entries('task-1')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  LoggerService,
+  RootConfigService,
+} from '@backstage/backend-plugin-api';
+import { EventsService } from '@backstage/plugin-events-node';
+import {
+  getAnsibleConfig,
+  IAAPService,
+  runWithAuditContext,
+} from '@ansible/backstage-rhaap-common';
+import { RollbackJournal } from './RollbackJournal';
+
+const ROLLBACK_STATUSES = ['failed', 'cancelled'];
+
+/**
+ * Rolls back the AAP objects created by a scaffolder task when the task
+ * fails or is cancelled and its template opted in to it, and forgets them
+ * otherwise. The objects are deleted with the service token of the AAP
+ * instance they were created in.
+ */
+export async function subscribeRollbackOnFailure({
+  events,
+  journal,
+  ansibleService,
+  config,
+  logger,
+}: {
+  events: EventsService;
+  journal: RollbackJournal;
+  ansibleService: IAAPService;
+  config: RootConfigService;
+  logger: LoggerService;
+}) {
+  await events.subscribe({
+    id: 'ansible-rollback-on-failure',
+    topics: ['scaffolder.task'],
+    async onEvent({ eventPayload }) {
+      const { id, taskId, status } = eventPayload as {
+        id?: string;
+        taskId?: string;
+        status?: string;
+      };
+      // Cancellation requests carry the task id in taskId; the task itself
+      // is rolled back once the worker completes it as cancelled.
+      if (!id || taskId || !status) {
+        return;
+      }
+      if (status === 'completed') {
+        await journal.clear(id);
+        return;
+      }
+      if (!ROLLBACK_STATUSES.includes(status)) {
+        return;
+      }
+      if (!(await journal.rollsBackOnFailure(id))) {
+        await journal.clear(id);
+        return;
+      }
+      const rolledBack = await runWithAuditContext({ taskId: id }, () =>
+        journal.rollback(
+          id,
+          ansibleService,
+          logger,
+          entry => getAnsibleConfig(config, entry.instance).rhaap?.token,
+        ),
+      );
+      if (rolledBack.length) {
+        logger.info(
+          `Rolled back ${rolledBack.length} AAP objects of ${status} task ${id}.`,
+        );
+      }
+    },
+  });
+}
@@ -18,13 +18,27 @@
 jest.mock('./actions/helpers/useCaseMaker', () => ({
   UseCaseMaker: jest.fn(),
 }));
+jest.mock('./approvals/membership', () => ({
+  isGroupMember: jest.fn(),
+}));
 
 import express from 'express';
 import request from 'supertest';
 import { createRouter } from './router';
 import { UseCaseMaker } from './actions/helpers/useCaseMaker';
-import { LoggerService } from '@backstage/backend-plugin-api';
-import { AnsibleConfig } from '@ansible/backstage-rhaap-common';
+import {
+  BackstageCredentials,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
+import {
+  AnsibleConfig,
+  getAuditContext,
+} from '@ansible/backstage-rhaap-common';
+import { mockAnsibleService } from './actions/mockIAAPService';
+import { mockCredentials, mockServices } from '@backstage/backend-test-utils';
+import { ApprovalStore } from './approvals';
+import { TaskJobStore } from './jobs';
+import { isGroupMember } from './approvals/membership';
 
 const MockUseCaseMaker = UseCaseMaker as jest.MockedClass<typeof UseCaseMaker>;
 
@@ -69,6 +83,7 @@ describe('createRouter', () => {
     const router = await createRouter({
       logger: mockLogger,
       ansibleConfig: mockAnsibleConfig,
+      ansibleService: mockAnsibleService,
     });
 
     app = express().use(router);
@@ -505,6 +520,930 @@ describe('createRouter', () => {
     });
   });
 
+  describe('GET /aap/jobs/:jobId/events', () => {
+    const job = {
+      id: 42,
+      status: 'running',
+      url: 'https://aap.example.com/execution/jobs/playbook/42/output',
+      finished: false,
+    };
+    const events = [
+      {
+        counter: 4,
+        event: 'runner_on_ok',
+        stdout: 'ok: [host1]',
+        created: '2025-01-01T00:00:00Z',
+        host_name: 'host1',
+        task: 'Ping',
+        play: 'All',
+        failed: false,
+        changed: false,
+      },
+    ];
+
+    it('should return 400 when the AAP token is missing', async () => {
+      const response = await request(app).get('/aap/jobs/42/events');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Missing AAP token\n' });
+      expect(mockAnsibleService.getJobEvents).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the cursor is invalid', async () => {
+      const response = await request(app)
+        .get('/aap/jobs/42/events')
+        .set('X-AAP-Token', 'aap-token')
+        .query({ cursor: 'abc' });
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.getJobEvents).not.toHaveBeenCalled();
+    });
+
+    it('should return job status and events after the cursor', async () => {
+      mockAnsibleService.getJob.mockResolvedValue(job);
+      mockAnsibleService.getJobEvents.mockResolvedValue({
+        events,
+        cursor: 4,
+        hasMore: false,
+      });
+
+      const response = await request(app)
+        .get('/aap/jobs/42/events')
+        .set('X-AAP-Token', 'aap-token')
+        .query({ cursor: 3 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        job,
+        events,
+        cursor: 4,
+        hasMore: false,
+      });
+      expect(mockAnsibleService.getJobHostResults).not.toHaveBeenCalled();
+      expect(mockAnsibleService.getJob).toHaveBeenCalledWith(42, 'aap-token');
+      expect(mockAnsibleService.getJobEvents).toHaveBeenCalledWith(
+        42,
+        'aap-token',
+        3,
+      );
+    });
+
+    it('should return the host results once the job has finished', async () => {
+      const hostSummaries = [
+        {
+          host: 'host1',
+          ok: 1,
+          changed: 0,
+          failed: 1,
+          unreachable: 0,
+          skipped: 0,
+        },
+      ];
+      mockAnsibleService.getJob.mockResolvedValue({
+        ...job,
+        status: 'failed',
+        finished: true,
+      });
+      mockAnsibleService.getJobEvents.mockResolvedValue({
+        events,
+        cursor: 4,
+        hasMore: false,
+      });
+      mockAnsibleService.getJobHostResults.mockResolvedValue({
+        id: 42,
+        status: 'failed',
+        url: job.url,
+        hostSummaries,
+        failedHosts: ['host1'],
+      });
+
+      const response = await request(app)
+        .get('/aap/jobs/42/events')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        hostSummaries,
+        failedHosts: ['host1'],
+      });
+      expect(mockAnsibleService.getJobHostResults).toHaveBeenCalledWith(
+        42,
+        'aap-token',
+        'failed',
+      );
+    });
+
+    it('should return 500 when AAP request fails', async () => {
+      mockAnsibleService.getJob.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app)
+        .get('/aap/jobs/42/events')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({
+        error: 'Failed to fetch events of job 42\n',
+      });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /aap/job_templates/:templateId/jobs', () => {
+    const jobs = [
+      {
+        id: 11,
+        name: 'Deploy',
+        status: 'successful',
+        started: '2025-01-01T00:00:00Z',
+        finished: '2025-01-01T00:01:30Z',
+        elapsed: 90.5,
+        launchedBy: 'alice',
+        url: 'https://aap.example.com/execution/jobs/playbook/11/output',
+        hostStatusCounts: {
+          ok: 3,
+          changed: 1,
+          failed: 0,
+          unreachable: 0,
+          skipped: 0,
+        },
+      },
+    ];
+
+    it('should return 400 when the AAP token is missing', async () => {
+      const response = await request(app).get('/aap/job_templates/7/jobs');
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.getJobTemplateJobs).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the limit is invalid', async () => {
+      const response = await request(app)
+        .get('/aap/job_templates/7/jobs')
+        .set('X-AAP-Token', 'aap-token')
+        .query({ limit: 'abc' });
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.getJobTemplateJobs).not.toHaveBeenCalled();
+    });
+
+    it.each([0, -1, 51, 1000])(
+      'should return 400 when the limit is %s',
+      async limit => {
+        const response = await request(app)
+          .get('/aap/job_templates/7/jobs')
+          .set('X-AAP-Token', 'aap-token')
+          .query({ limit });
+
+        expect(response.status).toBe(400);
+        expect(response.body).toEqual({
+          error:
+            'Invalid job template id or limit, the limit must be between 1 and 50\n',
+        });
+        expect(mockAnsibleService.getJobTemplateJobs).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should return the recent jobs of the job template', async () => {
+      mockAnsibleService.getJobTemplateJobs.mockResolvedValue(jobs);
+
+      const response = await request(app)
+        .get('/aap/job_templates/7/jobs')
+        .set('X-AAP-Token', 'aap-token')
+        .query({ limit: 5 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ jobs });
+      expect(mockAnsibleService.getJobTemplateJobs).toHaveBeenCalledWith(
+        7,
+        'aap-token',
+        5,
+      );
+    });
+
+    it('should return 500 when AAP request fails', async () => {
+      mockAnsibleService.getJobTemplateJobs.mockRejectedValue(
+        new Error('boom'),
+      );
+
+      const response = await request(app)
+        .get('/aap/job_templates/7/jobs')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({
+        error: 'Failed to fetch jobs of job template 7\n',
+      });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /aap/jobs/:jobId/cancel', () => {
+    it('should return 400 when the AAP token is missing', async () => {
+      const response = await request(app).post('/aap/jobs/42/cancel');
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.cancelJob).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the job', async () => {
+      mockAnsibleService.cancelJob.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/aap/jobs/42/cancel')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ id: 42 });
+      expect(mockAnsibleService.cancelJob).toHaveBeenCalledWith(
+        42,
+        'aap-token',
+      );
+    });
+
+    it('should cancel the job in the given AAP instance', async () => {
+      const instanceService = {
+        cancelJob: jest.fn().mockResolvedValue(undefined),
+      } as unknown as typeof mockAnsibleService;
+      mockAnsibleService.forInstance.mockReturnValue(instanceService);
+
+      const response = await request(app)
+        .post('/aap/jobs/42/cancel')
+        .query({ instance: 'nonprod' })
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(202);
+      expect(mockAnsibleService.forInstance).toHaveBeenCalledWith('nonprod');
+      expect(instanceService.cancelJob).toHaveBeenCalledWith(42, 'aap-token');
+      expect(mockAnsibleService.cancelJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown AAP instance', async () => {
+      mockAnsibleService.forInstance.mockImplementationOnce(() => {
+        throw new Error(
+          "Unknown AAP instance 'other', it is not configured in ansible.rhaap.instances",
+        );
+      });
+
+      const response = await request(app)
+        .post('/aap/jobs/42/cancel')
+        .query({ instance: 'other' })
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error:
+          "Unknown AAP instance 'other', it is not configured in ansible.rhaap.instances\n",
+      });
+      expect(mockAnsibleService.cancelJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 with the AAP error when cancel fails', async () => {
+      mockAnsibleService.cancelJob.mockRejectedValue(
+        new Error('Job is not in a cancelable state.'),
+      );
+
+      const response = await request(app)
+        .post('/aap/jobs/42/cancel')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({
+        error: 'Job is not in a cancelable state.',
+      });
+    });
+  });
+
+  describe('audit context', () => {
+    it('should run the AAP calls with the entity ref of the signed in user', async () => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({
+          defaultCredentials: mockCredentials.user('user:default/alice'),
+        }),
+      });
+      let context;
+      mockAnsibleService.cancelJob.mockImplementationOnce(async () => {
+        context = getAuditContext();
+      });
+
+      const response = await request(express().use(router))
+        .post('/aap/jobs/42/cancel')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(202);
+      expect(context).toEqual({ userEntityRef: 'user:default/alice' });
+    });
+
+    it('should run the AAP calls without user when the caller is a service', async () => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({
+          defaultCredentials: mockCredentials.service('plugin:catalog'),
+        }),
+      });
+      let context;
+      mockAnsibleService.deleteSchedule.mockImplementationOnce(async () => {
+        context = getAuditContext();
+      });
+
+      const response = await request(express().use(router))
+        .delete('/aap/schedules/9')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(204);
+      expect(context).toEqual({ userEntityRef: undefined });
+    });
+  });
+
+  describe('POST /aap/jobs/:jobId/relaunch', () => {
+    const relaunched = {
+      id: 43,
+      status: 'pending',
+      url: 'https://aap.example.com/execution/jobs/playbook/43/output',
+    };
+
+    it('should relaunch the job on all hosts by default', async () => {
+      mockAnsibleService.relaunchJob.mockResolvedValue(relaunched);
+
+      const response = await request(app)
+        .post('/aap/jobs/42/relaunch')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(relaunched);
+      expect(mockAnsibleService.relaunchJob).toHaveBeenCalledWith(
+        42,
+        'aap-token',
+        'all',
+      );
+    });
+
+    it('should relaunch the job on failed hosts', async () => {
+      mockAnsibleService.relaunchJob.mockResolvedValue(relaunched);
+
+      const response = await request(app)
+        .post('/aap/jobs/42/relaunch')
+        .set('X-AAP-Token', 'aap-token')
+        .send({ hosts: 'failed' });
+
+      expect(response.status).toBe(201);
+      expect(mockAnsibleService.relaunchJob).toHaveBeenCalledWith(
+        42,
+        'aap-token',
+        'failed',
+      );
+    });
+
+    it('should return 400 for unsupported hosts value', async () => {
+      const response = await request(app)
+        .post('/aap/jobs/42/relaunch')
+        .set('X-AAP-Token', 'aap-token')
+        .send({ hosts: 'some' });
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.relaunchJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when relaunch fails', async () => {
+      mockAnsibleService.relaunchJob.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app)
+        .post('/aap/jobs/42/relaunch')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'boom' });
+    });
+  });
+
+  describe('schedules', () => {
+    const schedule = {
+      id: 9,
+      name: 'Nightly scan',
+      description: '',
+      rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+      enabled: true,
+      nextRun: '2025-01-02T02:00:00Z',
+      extraVariables: { scan_profile: 'cis' },
+      url: 'https://aap.example.com/execution/templates/job-template/7/schedules/9/details',
+    };
+
+    it('should return 400 when the AAP token is missing', async () => {
+      const response = await request(app).get('/aap/job_templates/7/schedules');
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.getJobTemplateSchedules).not.toHaveBeenCalled();
+    });
+
+    it('should return the schedules of the job template', async () => {
+      mockAnsibleService.getJobTemplateSchedules.mockResolvedValue([schedule]);
+
+      const response = await request(app)
+        .get('/aap/job_templates/7/schedules')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ schedules: [schedule] });
+      expect(mockAnsibleService.getJobTemplateSchedules).toHaveBeenCalledWith(
+        7,
+        'aap-token',
+      );
+    });
+
+    it('should create a schedule', async () => {
+      mockAnsibleService.createSchedule.mockResolvedValue(schedule);
+
+      const response = await request(app)
+        .post('/aap/job_templates/7/schedules')
+        .set('X-AAP-Token', 'aap-token')
+        .send({
+          name: 'Nightly scan',
+          rrule: schedule.rrule,
+          extraVariables: 'scan_profile: cis',
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(schedule);
+      expect(mockAnsibleService.createSchedule).toHaveBeenCalledWith(
+        {
+          scheduleName: 'Nightly scan',
+          scheduleDescription: undefined,
+          jobTemplate: { id: 7 },
+          rrule: schedule.rrule,
+          extraVariables: 'scan_profile: cis',
+          enabled: undefined,
+        },
+        'aap-token',
+      );
+    });
+
+    it('should return 400 when the rrule is missing', async () => {
+      const response = await request(app)
+        .post('/aap/job_templates/7/schedules')
+        .set('X-AAP-Token', 'aap-token')
+        .send({ name: 'Nightly scan' });
+
+      expect(response.status).toBe(400);
+      expect(mockAnsibleService.createSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 with the AAP error when create fails', async () => {
+      mockAnsibleService.createSchedule.mockRejectedValue(
+        new Error('Variables are not allowed on launch.'),
+      );
+
+      const response = await request(app)
+        .post('/aap/job_templates/7/schedules')
+        .set('X-AAP-Token', 'aap-token')
+        .send({ name: 'Nightly scan', rrule: schedule.rrule });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({
+        error: 'Variables are not allowed on launch.',
+      });
+    });
+
+    it('should delete a schedule', async () => {
+      mockAnsibleService.deleteSchedule.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .delete('/aap/schedules/9')
+        .set('X-AAP-Token', 'aap-token');
+
+      expect(response.status).toBe(204);
+      expect(mockAnsibleService.deleteSchedule).toHaveBeenCalledWith(
+        9,
+        'aap-token',
+      );
+    });
+  });
+
+  describe('approvals', () => {
+    const pending = {
+      id: 'approval-1',
+      taskId: 'task-1',
+      kind: 'approval',
+      gate: 'group:default/release-managers',
+      title: 'Launch Deploy',
+      approvers: 'group:default/release-managers',
+      requestedBy: 'user:default/alice',
+      templateRef: 'template:default/deploy',
+      status: 'pending',
+      decidedBy: null,
+      comment: null,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      decidedAt: null,
+      details: null,
+    };
+    const store = {
+      listPending: jest.fn(),
+      get: jest.fn(),
+      getByTask: jest.fn(),
+      decide: jest.fn(),
+    };
+    const mockIsGroupMember = isGroupMember as jest.Mock;
+    let approvalsApp: express.Express;
+
+    const createApp = async (userRef: string) => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({
+          defaultCredentials: mockCredentials.user(userRef),
+        }),
+        approvals: {
+          store: store as unknown as ApprovalStore,
+          auth: mockServices.auth(),
+          discovery: mockServices.discovery(),
+        },
+      });
+      return express().use(router);
+    };
+
+    beforeEach(async () => {
+      approvalsApp = await createApp('user:default/bob');
+      store.get.mockResolvedValue(pending);
+      mockIsGroupMember.mockResolvedValue(true);
+    });
+
+    it('should list the pending approvals the user can decide on', async () => {
+      store.listPending.mockResolvedValue([
+        pending,
+        { ...pending, id: 'approval-2', approvers: 'group:default/dba' },
+      ]);
+      mockIsGroupMember.mockImplementation(
+        async ({ groupRef }) => groupRef === 'group:default/release-managers',
+      );
+
+      const response = await request(approvalsApp).get('/aap/approvals');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ approvals: [pending] });
+      expect(mockIsGroupMember).toHaveBeenCalledWith(
+        expect.objectContaining({
+          groupRef: 'group:default/release-managers',
+          userRef: 'user:default/bob',
+        }),
+      );
+    });
+
+    it('should approve a pending request', async () => {
+      const approved = {
+        ...pending,
+        status: 'approved',
+        decidedBy: 'user:default/bob',
+        comment: 'Go ahead',
+      };
+      store.decide.mockResolvedValue(approved);
+
+      const response = await request(approvalsApp)
+        .post('/aap/approvals/approval-1/approve')
+        .send({ comment: 'Go ahead' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(approved);
+      expect(store.decide).toHaveBeenCalledWith('approval-1', {
+        status: 'approved',
+        decidedBy: 'user:default/bob',
+        comment: 'Go ahead',
+      });
+    });
+
+    it('should deny a pending request', async () => {
+      store.decide.mockResolvedValue({ ...pending, status: 'denied' });
+
+      const response = await request(approvalsApp).post(
+        '/aap/approvals/approval-1/deny',
+      );
+
+      expect(response.status).toBe(200);
+      expect(store.decide).toHaveBeenCalledWith('approval-1', {
+        status: 'denied',
+        decidedBy: 'user:default/bob',
+        comment: undefined,
+      });
+    });
+
+    it('should not let the requester approve their own request', async () => {
+      const app2 = await createApp('user:default/alice');
+
+      const response = await request(app2).post(
+        '/aap/approvals/approval-1/approve',
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({
+        error: 'You cannot approve your own request\n',
+      });
+      expect(store.decide).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the user is not an approver', async () => {
+      mockIsGroupMember.mockResolvedValue(false);
+
+      const response = await request(approvalsApp).post(
+        '/aap/approvals/approval-1/approve',
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({
+        error:
+          'Only members of group:default/release-managers can decide on this request\n',
+      });
+      expect(store.decide).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown request', async () => {
+      store.get.mockResolvedValue(undefined);
+
+      const response = await request(approvalsApp).post(
+        '/aap/approvals/unknown/approve',
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for a confirmation', async () => {
+      store.get.mockResolvedValue({ ...pending, kind: 'confirmation' });
+
+      const response = await request(approvalsApp).post(
+        '/aap/approvals/approval-1/approve',
+      );
+
+      expect(response.status).toBe(404);
+      expect(store.decide).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for a request already decided', async () => {
+      store.get.mockResolvedValue({ ...pending, status: 'denied' });
+
+      const response = await request(approvalsApp).post(
+        '/aap/approvals/approval-1/approve',
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        error: 'Approval request approval-1 is already denied\n',
+      });
+    });
+  });
+
+  describe('task jobs', () => {
+    const taskJobs = { getLatest: jest.fn() };
+
+    const createApp = async (userRef: string) => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({
+          defaultCredentials: mockCredentials.user(userRef),
+        }),
+        taskJobs: taskJobs as unknown as TaskJobStore,
+      });
+      return express().use(router);
+    };
+
+    beforeEach(() => {
+      taskJobs.getLatest.mockResolvedValue({
+        taskId: 'task-1',
+        jobId: 42,
+        instance: 'dev',
+        launchedBy: 'user:default/alice',
+        createdAt: '2025-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should return the job launched by the task to its user', async () => {
+      const app2 = await createApp('user:default/alice');
+
+      const response = await request(app2).get('/aap/tasks/task-1/job');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ jobId: 42, instance: 'dev' });
+      expect(taskJobs.getLatest).toHaveBeenCalledWith('task-1');
+    });
+
+    it('should hide the job from other users', async () => {
+      const app2 = await createApp('user:default/bob');
+
+      const response = await request(app2).get('/aap/tasks/task-1/job');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        error: 'No job found for task task-1\n',
+      });
+    });
+  });
+
+  describe('audit trail', () => {
+    const audit = { record: jest.fn(), query: jest.fn() };
+    const userInfo = { getUserInfo: jest.fn() };
+    const events = [
+      {
+        id: 'event-1',
+        timestamp: '2025-01-02T00:00:00.000Z',
+        userEntityRef: 'user:default/alice',
+        taskId: 'task-1',
+        method: 'POST',
+        endpoint: '/api/controller/v2/job_templates/12/launch/',
+        resourceId: 12,
+        tokenType: 'user',
+        outcome: 'success',
+        error: null,
+      },
+    ];
+
+    const createApp = async (
+      credentials: BackstageCredentials = mockCredentials.user(
+        'user:default/admin',
+      ),
+    ) => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({ defaultCredentials: credentials }),
+        audit: { service: audit, userInfo },
+      });
+      return express().use(router);
+    };
+
+    beforeEach(() => {
+      audit.query.mockResolvedValue(events);
+      userInfo.getUserInfo.mockResolvedValue({
+        userEntityRef: 'user:default/admin',
+        ownershipEntityRefs: ['group:default/aap-admins'],
+      });
+    });
+
+    it('should return the events to the AAP administrators', async () => {
+      const app2 = await createApp();
+
+      const response = await request(app2).get(
+        '/aap/audit?taskId=task-1&limit=10',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ events });
+      expect(audit.query).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: 'task-1', limit: 10 }),
+      );
+    });
+
+    it('should return the events to the backend services', async () => {
+      const app2 = await createApp(mockCredentials.service('plugin:catalog'));
+
+      const response = await request(app2).get('/aap/audit');
+
+      expect(response.status).toBe(200);
+      expect(userInfo.getUserInfo).not.toHaveBeenCalled();
+    });
+
+    it('should hide the events from other users', async () => {
+      userInfo.getUserInfo.mockResolvedValue({
+        userEntityRef: 'user:default/alice',
+        ownershipEntityRefs: ['group:default/devs'],
+      });
+      const app2 = await createApp(mockCredentials.user('user:default/alice'));
+
+      const response = await request(app2).get('/aap/audit');
+
+      expect(response.status).toBe(403);
+      expect(audit.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const app2 = await createApp();
+
+      const response = await request(app2).get('/aap/audit?outcome=maybe');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid query parameters: outcome\n',
+      });
+    });
+  });
+
+  describe('confirmations', () => {
+    const confirmation = {
+      id: 'confirmation-1',
+      taskId: 'task-1',
+      kind: 'confirmation',
+      gate: 'job-42',
+      title: 'Launch Deploy',
+      approvers: 'user:default/alice',
+      requestedBy: 'user:default/alice',
+      templateRef: 'template:default/deploy',
+      status: 'pending',
+      decidedBy: null,
+      comment: null,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      decidedAt: null,
+      details: { jobId: 42, hosts: [] },
+    };
+    const store = { getByTask: jest.fn(), decide: jest.fn() };
+
+    const createApp = async (userRef: string) => {
+      const router = await createRouter({
+        logger: mockLogger,
+        ansibleConfig: mockAnsibleConfig,
+        ansibleService: mockAnsibleService,
+        httpAuth: mockServices.httpAuth({
+          defaultCredentials: mockCredentials.user(userRef),
+        }),
+        approvals: {
+          store: store as unknown as ApprovalStore,
+          auth: mockServices.auth(),
+          discovery: mockServices.discovery(),
+        },
+      });
+      return express().use(router);
+    };
+
+    beforeEach(() => {
+      store.getByTask.mockResolvedValue(confirmation);
+    });
+
+    it('should return the confirmation of the task to its user', async () => {
+      const app2 = await createApp('user:default/alice');
+
+      const response = await request(app2).get(
+        '/aap/tasks/task-1/confirmation',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(confirmation);
+      expect(store.getByTask).toHaveBeenCalledWith('task-1', 'confirmation');
+    });
+
+    it('should hide the confirmation from other users', async () => {
+      const app2 = await createApp('user:default/bob');
+
+      const response = await request(app2).get(
+        '/aap/tasks/task-1/confirmation',
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({
+        error: 'No confirmation found for task task-1\n',
+      });
+    });
+
+    it('should confirm the launch', async () => {
+      const app2 = await createApp('user:default/alice');
+      store.decide.mockResolvedValue({ ...confirmation, status: 'approved' });
+
+      const response = await request(app2).post(
+        '/aap/tasks/task-1/confirmation/confirm',
+      );
+
+      expect(response.status).toBe(200);
+      expect(store.decide).toHaveBeenCalledWith('confirmation-1', {
+        status: 'approved',
+        decidedBy: 'user:default/alice',
+      });
+    });
+
+    it('should reject the launch', async () => {
+      const app2 = await createApp('user:default/alice');
+      store.decide.mockResolvedValue({ ...confirmation, status: 'denied' });
+
+      const response = await request(app2).post(
+        '/aap/tasks/task-1/confirmation/reject',
+      );
+
+      expect(response.status).toBe(200);
+      expect(store.decide).toHaveBeenCalledWith('confirmation-1', {
+        status: 'denied',
+        decidedBy: 'user:default/alice',
+      });
+    });
+
+    it('should return 409 when the launch was already decided', async () => {
+      const app2 = await createApp('user:default/alice');
+      store.getByTask.mockResolvedValue({
+        ...confirmation,
+        status: 'approved',
+      });
+      store.decide.mockResolvedValue(undefined);
+
+      const response = await request(app2).post(
+        '/aap/tasks/task-1/confirmation/reject',
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        error: 'The launch of task task-1 is already approved\n',
+      });
+    });
+  });
+
   describe('Router setup', () => {
     it('should handle undefined routes', async () => {
       const response = await request(app).get('/nonexistent');
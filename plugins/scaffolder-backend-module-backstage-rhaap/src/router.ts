@@ -16,17 +16,90 @@
 import express from 'express';
 import Router from 'express-promise-router';
 
-import { LoggerService } from '@backstage/backend-plugin-api';
+import {
+  AuthService,
+  DiscoveryService,
+  HttpAuthService,
+  LoggerService,
+  UserInfoService,
+} from '@backstage/backend-plugin-api';
 import { UseCaseMaker } from './actions/helpers/useCaseMaker';
-import { AnsibleConfig } from '@ansible/backstage-rhaap-common';
+import {
+  AAPAuditService,
+  AnsibleConfig,
+  canReadAAPAudit,
+  IAAPService,
+  parseAAPAuditQuery,
+  runWithAuditContext,
+} from '@ansible/backstage-rhaap-common';
+import { ApprovalRequest, ApprovalStore, isGroupMember } from './approvals';
+import { TaskJobStore } from './jobs';
+
+// the job history is a short list, longer ones are read in AAP
+const MAX_JOBS_LIMIT = 50;
 
 export async function createRouter(options: {
   logger: LoggerService;
   ansibleConfig: AnsibleConfig;
+  ansibleService: IAAPService;
+  httpAuth?: HttpAuthService;
+  /** Routes of the approvals and launch confirmations, they need httpAuth. */
+  approvals?: {
+    store: ApprovalStore;
+    auth: AuthService;
+    discovery: DiscoveryService;
+  };
+  /** Jobs launched in async mode by the tasks, the route needs httpAuth. */
+  taskJobs?: TaskJobStore;
+  /** Audit trail of the scaffolder AAP calls, the route needs httpAuth. */
+  audit?: {
+    service: AAPAuditService;
+    userInfo: UserInfoService;
+  };
 }): Promise<express.Router> {
-  const { logger, ansibleConfig } = options;
+  const {
+    logger,
+    ansibleConfig,
+    ansibleService,
+    httpAuth,
+    approvals,
+    taskJobs,
+    audit,
+  } = options;
   const router = Router();
 
+  // the job and schedule routes act on the AAP instance given in the instance
+  // query parameter, the default instance when not set
+  const getAnsibleService = (req: express.Request): IAAPService => {
+    const instance = req.query.instance;
+    return typeof instance === 'string' && instance
+      ? ansibleService.forInstance(instance)
+      : ansibleService;
+  };
+
+  // the AAP calls made with the token of the signed in user are recorded in
+  // the audit trail with their entity ref
+  router.use(
+    ['/aap/jobs', '/aap/job_templates', '/aap/schedules'],
+    async (req, res, next) => {
+      try {
+        getAnsibleService(req);
+      } catch (error: any) {
+        return res.status(400).json({ error: `${error?.message}\n` });
+      }
+      // HttpAuthService is typed with the Request of express 4
+      const credentials = await httpAuth
+        ?.credentials(req as any, { allow: ['user', 'service'] })
+        .catch(() => undefined);
+      const principal = credentials?.principal;
+      const userEntityRef =
+        principal && 'userEntityRef' in principal
+          ? principal.userEntityRef
+          : undefined;
+      return runWithAuditContext({ userEntityRef }, () => next());
+    },
+  );
+
   router.get('/get_ee_readme', async (req, res) => {
     // these query parameters are required
     // host is optional for now with Github
@@ -95,5 +168,393 @@ export async function createRouter(options: {
     return res.send(readmeContent);
   });
 
+  router.get('/aap/jobs/:jobId/events', async (req, res) => {
+    // the AAP token of the user is forwarded by the frontend, the
+    // Authorization header is already used for the Backstage identity
+    const token = req.header('x-aap-token');
+    if (!token) {
+      return res.status(400).json({ error: 'Missing AAP token\n' });
+    }
+    const jobId = Number(req.params.jobId);
+    const cursor = Number(req.query.cursor ?? 0);
+    if (!Number.isInteger(jobId) || !Number.isInteger(cursor)) {
+      return res.status(400).json({ error: 'Invalid job id or cursor\n' });
+    }
+
+    try {
+      const service = getAnsibleService(req);
+      const job = await service.getJob(jobId, token);
+      const page = await service.getJobEvents(jobId, token, cursor);
+      // the per-host results are complete once the last events are read
+      const hostResults =
+        job.finished && !page.hasMore
+          ? await service.getJobHostResults(jobId, token, job.status)
+          : undefined;
+      return res.json({
+        job,
+        events: page.events,
+        cursor: page.cursor,
+        hasMore: page.hasMore,
+        ...(hostResults && {
+          hostSummaries: hostResults.hostSummaries,
+          failedHosts: hostResults.failedHosts,
+        }),
+      });
+    } catch (error) {
+      logger.error(`Failed to fetch events of job ${jobId}: ${error}`);
+      return res.status(500).json({
+        error: `Failed to fetch events of job ${jobId}\n`,
+      });
+    }
+  });
+
+  router.get('/aap/job_templates/:templateId/jobs', async (req, res) => {
+    const token = req.header('x-aap-token');
+    if (!token) {
+      return res.status(400).json({ error: 'Missing AAP token\n' });
+    }
+    const templateId = Number(req.params.templateId);
+    const limit = Number(req.query.limit ?? 10);
+    if (
+      !Number.isInteger(templateId) ||
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_JOBS_LIMIT
+    ) {
+      return res.status(400).json({
+        error: `Invalid job template id or limit, the limit must be between 1 and ${MAX_JOBS_LIMIT}\n`,
+      });
+    }
+
+    try {
+      const jobs = await getAnsibleService(req).getJobTemplateJobs(
+        templateId,
+        token,
+        limit,
+      );
+      return res.json({ jobs });
+    } catch (error) {
+      logger.error(
+        `Failed to fetch jobs of job template ${templateId}: ${error}`,
+      );
+      return res.status(500).json({
+        error: `Failed to fetch jobs of job template ${templateId}\n`,
+      });
+    }
+  });
+
+  router.post('/aap/jobs/:jobId/cancel', async (req, res) => {
+    const token = req.header('x-aap-token');
+    const jobId = Number(req.params.jobId);
+    if (!token || !Number.isInteger(jobId)) {
+      return res.status(400).json({ error: 'Missing AAP token or job id\n' });
+    }
+
+    try {
+      await getAnsibleService(req).cancelJob(jobId, token);
+      return res.status(202).json({ id: jobId });
+    } catch (error: any) {
+      logger.error(`Failed to cancel job ${jobId}: ${error}`);
+      return res.status(500).json({
+        error: error?.message ?? `Failed to cancel job ${jobId}\n`,
+      });
+    }
+  });
+
+  router.post('/aap/jobs/:jobId/relaunch', express.json(), async (req, res) => {
+    const token = req.header('x-aap-token');
+    const jobId = Number(req.params.jobId);
+    if (!token || !Number.isInteger(jobId)) {
+      return res.status(400).json({ error: 'Missing AAP token or job id\n' });
+    }
+    const hosts = req.body?.hosts ?? 'all';
+    if (!['all', 'failed'].includes(hosts)) {
+      return res.status(400).json({
+        error: `Unsupported hosts value '${hosts}'. Supported values are: all, failed`,
+      });
+    }
+
+    try {
+      const job = await getAnsibleService(req).relaunchJob(jobId, token, hosts);
+      return res.status(201).json(job);
+    } catch (error: any) {
+      logger.error(`Failed to relaunch job ${jobId}: ${error}`);
+      return res.status(500).json({
+        error: error?.message ?? `Failed to relaunch job ${jobId}\n`,
+      });
+    }
+  });
+
+  router.get('/aap/job_templates/:templateId/schedules', async (req, res) => {
+    const token = req.header('x-aap-token');
+    const templateId = Number(req.params.templateId);
+    if (!token || !Number.isInteger(templateId)) {
+      return res
+        .status(400)
+        .json({ error: 'Missing AAP token or job template id\n' });
+    }
+
+    try {
+      const schedules = await getAnsibleService(req).getJobTemplateSchedules(
+        templateId,
+        token,
+      );
+      return res.json({ schedules });
+    } catch (error) {
+      logger.error(
+        `Failed to fetch schedules of job template ${templateId}: ${error}`,
+      );
+      return res.status(500).json({
+        error: `Failed to fetch schedules of job template ${templateId}\n`,
+      });
+    }
+  });
+
+  router.post(
+    '/aap/job_templates/:templateId/schedules',
+    express.json(),
+    async (req, res) => {
+      const token = req.header('x-aap-token');
+      const templateId = Number(req.params.templateId);
+      if (!token || !Number.isInteger(templateId)) {
+        return res
+          .status(400)
+          .json({ error: 'Missing AAP token or job template id\n' });
+      }
+      const { name, description, rrule, extraVariables, enabled } =
+        req.body ?? {};
+      if (!name || !rrule) {
+        return res
+          .status(400)
+          .json({ error: 'Missing schedule name or rrule\n' });
+      }
+
+      try {
+        const schedule = await getAnsibleService(req).createSchedule(
+          {
+            scheduleName: name,
+            scheduleDescription: description,
+            jobTemplate: { id: templateId },
+            rrule,
+            extraVariables,
+            enabled,
+          },
+          token,
+        );
+        return res.status(201).json(schedule);
+      } catch (error: any) {
+        logger.error(
+          `Failed to create schedule of job template ${templateId}: ${error}`,
+        );
+        return res.status(500).json({
+          error:
+            error?.message ??
+            `Failed to create schedule of job template ${templateId}\n`,
+        });
+      }
+    },
+  );
+
+  router.delete('/aap/schedules/:scheduleId', async (req, res) => {
+    const token = req.header('x-aap-token');
+    const scheduleId = Number(req.params.scheduleId);
+    if (!token || !Number.isInteger(scheduleId)) {
+      return res
+        .status(400)
+        .json({ error: 'Missing AAP token or schedule id\n' });
+    }
+
+    try {
+      await getAnsibleService(req).deleteSchedule(scheduleId, token);
+      return res.status(204).send();
+    } catch (error: any) {
+      logger.error(`Failed to delete schedule ${scheduleId}: ${error}`);
+      return res.status(500).json({
+        error: error?.message ?? `Failed to delete schedule ${scheduleId}\n`,
+      });
+    }
+  });
+
+  // HttpAuthService is typed with the Request of express 4
+  const getUserRef = async (req: express.Request) => {
+    const credentials = await httpAuth!.credentials(req as any, {
+      allow: ['user'],
+    });
+    return credentials.principal.userEntityRef;
+  };
+
+  if (taskJobs && httpAuth) {
+    // like confirmations, the job of a task is only shown to its user
+    router.get('/aap/tasks/:taskId/job', async (req, res) => {
+      const userRef = await getUserRef(req);
+      const taskId = req.params.taskId;
+      const job = await taskJobs.getLatest(taskId);
+      if (!job || job.launchedBy !== userRef) {
+        return res
+          .status(404)
+          .json({ error: `No job found for task ${taskId}\n` });
+      }
+      return res.json({ jobId: job.jobId, instance: job.instance });
+    });
+  }
+
+  if (audit && httpAuth) {
+    // the AAP calls of the scaffolder tasks, for the AAP administrators and
+    // the backend services; the catalog module serves its own calls
+    router.get('/aap/audit', async (req, res) => {
+      const allowed = await canReadAAPAudit({
+        // HttpAuthService is typed with the Request of express 4
+        request: req as any,
+        httpAuth,
+        userInfo: audit.userInfo,
+      });
+      if (!allowed) {
+        return res.status(403).json({
+          error: 'Only the AAP administrators can read the AAP audit trail.\n',
+        });
+      }
+      const { query, invalid } = parseAAPAuditQuery(req.query);
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          error: `Invalid query parameters: ${invalid.join(', ')}\n`,
+        });
+      }
+      try {
+        return res.json({ events: await audit.service.query(query) });
+      } catch (error: any) {
+        logger.error(`Failed to query the AAP audit trail: ${error}`);
+        return res
+          .status(error?.name === 'NotImplementedError' ? 501 : 500)
+          .json({ error: `${error?.message}\n` });
+      }
+    });
+  }
+
+  if (approvals && httpAuth) {
+    const { store, auth, discovery } = approvals;
+    const isApprover = (approval: ApprovalRequest, userRef: string) =>
+      isGroupMember({
+        auth,
+        discovery,
+        logger,
+        groupRef: approval.approvers,
+        userRef,
+      });
+
+    router.get('/aap/approvals', async (req, res) => {
+      const userRef = await getUserRef(req);
+      const pending = await store.listPending();
+      const memberships = new Map<string, Promise<boolean>>();
+      const allowed = await Promise.all(
+        pending.map(approval => {
+          if (!memberships.has(approval.approvers)) {
+            memberships.set(approval.approvers, isApprover(approval, userRef));
+          }
+          return memberships.get(approval.approvers)!;
+        }),
+      );
+      return res.json({
+        approvals: pending.filter((_, index) => allowed[index]),
+      });
+    });
+
+    const decide =
+      (status: 'approved' | 'denied') =>
+      async (req: express.Request, res: express.Response) => {
+        const userRef = await getUserRef(req);
+        const approvalId = req.params.approvalId;
+        const approval = await store.get(approvalId);
+        if (approval?.kind !== 'approval') {
+          return res
+            .status(404)
+            .json({ error: `Approval request ${approvalId} not found\n` });
+        }
+        if (approval.status !== 'pending') {
+          return res.status(409).json({
+            error: `Approval request ${approvalId} is already ${approval.status}\n`,
+          });
+        }
+        // four-eyes: whoever started the task cannot approve it themselves
+        if (status === 'approved' && approval.requestedBy === userRef) {
+          return res
+            .status(403)
+            .json({ error: 'You cannot approve your own request\n' });
+        }
+        if (!(await isApprover(approval, userRef))) {
+          return res.status(403).json({
+            error: `Only members of ${approval.approvers} can decide on this request\n`,
+          });
+        }
+        const comment =
+          typeof req.body?.comment === 'string' && req.body.comment.trim()
+            ? req.body.comment.trim()
+            : undefined;
+        const decided = await store.decide(approvalId, {
+          status,
+          decidedBy: userRef,
+          comment,
+        });
+        if (!decided) {
+          return res.status(409).json({
+            error: `Approval request ${approvalId} was already decided\n`,
+          });
+        }
+        logger.info(
+          `Approval request ${approvalId} of task ${approval.taskId} ${status} by ${userRef}`,
+        );
+        return res.json(decided);
+      };
+
+    router.post(
+      '/aap/approvals/:approvalId/approve',
+      express.json(),
+      decide('approved'),
+    );
+    router.post(
+      '/aap/approvals/:approvalId/deny',
+      express.json(),
+      decide('denied'),
+    );
+
+    // confirmations are only visible to, and decided by, the task's user
+    router.get('/aap/tasks/:taskId/confirmation', async (req, res) => {
+      const userRef = await getUserRef(req);
+      const taskId = req.params.taskId;
+      const confirmation = await store.getByTask(taskId, 'confirmation');
+      if (confirmation?.requestedBy !== userRef) {
+        return res
+          .status(404)
+          .json({ error: `No confirmation found for task ${taskId}\n` });
+      }
+      return res.json(confirmation);
+    });
+
+    const confirm =
+      (status: 'approved' | 'denied') =>
+      async (req: express.Request, res: express.Response) => {
+        const userRef = await getUserRef(req);
+        const taskId = req.params.taskId;
+        const confirmation = await store.getByTask(taskId, 'confirmation');
+        if (confirmation?.requestedBy !== userRef) {
+          return res
+            .status(404)
+            .json({ error: `No confirmation found for task ${taskId}\n` });
+        }
+        const decided = await store.decide(confirmation.id, {
+          status,
+          decidedBy: userRef,
+        });
+        if (!decided) {
+          return res.status(409).json({
+            error: `The launch of task ${taskId} is already ${confirmation.status}\n`,
+          });
+        }
+        return res.json(decided);
+      };
+
+    router.post('/aap/tasks/:taskId/confirmation/confirm', confirm('approved'));
+    router.post('/aap/tasks/:taskId/confirmation/reject', confirm('denied'));
+  }
+
   return router;
 }
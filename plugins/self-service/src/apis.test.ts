@@ -166,6 +166,507 @@ describe('Ansible API module', () => {
     });
   });
 
+  it('AnsibleApiClient.getJobEvents fetches events after the cursor with the AAP token', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const jobEvents = {
+      job: { id: 7, status: 'running', url: 'http://aap/7', finished: false },
+      events: [{ counter: 3, stdout: 'ok: [host1]' }],
+      cursor: 3,
+    };
+    const mockFetch = {
+      fetch: jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue(jobEvents),
+      }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    const result = await client.getJobEvents(7, 'aap-token', 2);
+
+    expect(mockDiscovery.getBaseUrl).toHaveBeenCalledWith('scaffolder');
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/jobs/7/events?cursor=2',
+      { headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    expect(result).toEqual(jobEvents);
+  });
+
+  it('AnsibleApiClient.getJobEvents keeps the cursor when fetch fails', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false })
+        .mockRejectedValueOnce(new Error('network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.getJobEvents(7, 'aap-token', 5)).resolves.toEqual({
+      job: null,
+      events: [],
+      cursor: 5,
+    });
+    await expect(client.getJobEvents(7, 'aap-token')).resolves.toEqual({
+      job: null,
+      events: [],
+      cursor: 0,
+    });
+  });
+
+  it('AnsibleApiClient.getJobTemplateJobs returns the recent jobs of the template', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const jobs = [{ id: 11, name: 'Deploy', status: 'successful' }];
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ jobs }),
+        })
+        .mockResolvedValueOnce({ ok: false })
+        .mockRejectedValueOnce(new Error('network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.getJobTemplateJobs(7, 'aap-token', 5)).resolves.toEqual(
+      jobs,
+    );
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/job_templates/7/jobs?limit=5',
+      { headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await expect(client.getJobTemplateJobs(7, 'aap-token')).resolves.toEqual(
+      [],
+    );
+    await expect(client.getJobTemplateJobs(7, 'aap-token')).resolves.toEqual(
+      [],
+    );
+  });
+
+  it('AnsibleApiClient.cancelJob posts to the cancel route', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true })
+        .mockRejectedValueOnce(new Error('network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.cancelJob(7, 'aap-token')).resolves.toBe(true);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/jobs/7/cancel',
+      { method: 'POST', headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await expect(client.cancelJob(7, 'aap-token')).resolves.toBe(false);
+  });
+
+  it('AnsibleApiClient passes the AAP instance to the job routes', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const mockFetch = {
+      fetch: jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ events: [], jobs: [] }),
+      }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await client.getJobEvents(7, 'aap-token', 2, 'non prod');
+    expect(mockFetch.fetch).toHaveBeenLastCalledWith(
+      'http://example.com/aap/jobs/7/events?cursor=2&instance=non%20prod',
+      { headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await client.getJobTemplateJobs(7, 'aap-token', 5, 'nonprod');
+    expect(mockFetch.fetch).toHaveBeenLastCalledWith(
+      'http://example.com/aap/job_templates/7/jobs?limit=5&instance=nonprod',
+      { headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await client.cancelJob(7, 'aap-token', 'nonprod');
+    expect(mockFetch.fetch).toHaveBeenLastCalledWith(
+      'http://example.com/aap/jobs/7/cancel?instance=nonprod',
+      { method: 'POST', headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await client.deleteSchedule(9, 'aap-token', 'nonprod');
+    expect(mockFetch.fetch).toHaveBeenLastCalledWith(
+      'http://example.com/aap/schedules/9?instance=nonprod',
+      { method: 'DELETE', headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+  });
+
+  it('AnsibleApiClient.relaunchJob returns the relaunched job', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const relaunched = { id: 8, status: 'pending', url: 'http://aap/8' };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(relaunched),
+        })
+        .mockResolvedValueOnce({ ok: false }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.relaunchJob(7, 'aap-token', 'failed')).resolves.toEqual(
+      relaunched,
+    );
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/jobs/7/relaunch',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-AAP-Token': 'aap-token',
+        },
+        body: JSON.stringify({ hosts: 'failed' }),
+      },
+    );
+    await expect(client.relaunchJob(7, 'aap-token')).resolves.toBeNull();
+  });
+
+  it('AnsibleApiClient.getJobTemplateSchedules returns the schedules of the template', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const schedules = [{ id: 9, name: 'Nightly scan' }];
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ schedules }),
+        })
+        .mockRejectedValueOnce(new Error('network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(
+      client.getJobTemplateSchedules(7, 'aap-token'),
+    ).resolves.toEqual(schedules);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/job_templates/7/schedules',
+      { headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await expect(
+      client.getJobTemplateSchedules(7, 'aap-token'),
+    ).resolves.toEqual([]);
+  });
+
+  it('AnsibleApiClient.createSchedule posts the schedule and throws the AAP error', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const schedule = { id: 9, name: 'Nightly scan' };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(schedule),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          json: jest
+            .fn()
+            .mockResolvedValue({ error: 'Variables are not allowed.' }),
+        }),
+    };
+    const newSchedule = {
+      name: 'Nightly scan',
+      rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(
+      client.createSchedule(7, 'aap-token', newSchedule),
+    ).resolves.toEqual(schedule);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/job_templates/7/schedules',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-AAP-Token': 'aap-token',
+        },
+        body: JSON.stringify(newSchedule),
+      },
+    );
+    await expect(
+      client.createSchedule(7, 'aap-token', newSchedule),
+    ).rejects.toThrow('Variables are not allowed.');
+  });
+
+  it('AnsibleApiClient.deleteSchedule deletes the schedule', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({ ok: true })
+        .mockResolvedValueOnce({ ok: false }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.deleteSchedule(9, 'aap-token')).resolves.toBe(true);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/schedules/9',
+      { method: 'DELETE', headers: { 'X-AAP-Token': 'aap-token' } },
+    );
+    await expect(client.deleteSchedule(9, 'aap-token')).resolves.toBe(false);
+  });
+
+  it('AnsibleApiClient.getSyncHistory returns the runs or an empty list', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const runs = [{ id: 'run-1', providerName: 'AapEntityProvider:dev' }];
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ runs }),
+        })
+        .mockResolvedValueOnce({ ok: false })
+        .mockRejectedValueOnce(new Error('network')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(
+      client.getSyncHistory({
+        providerName: 'AapEntityProvider:dev',
+        limit: 5,
+      }),
+    ).resolves.toEqual(runs);
+    expect(mockDiscovery.getBaseUrl).toHaveBeenCalledWith('catalog');
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/ansible/sync/history?providerName=AapEntityProvider%3Adev&limit=5',
+    );
+    await expect(client.getSyncHistory()).resolves.toEqual([]);
+    expect(mockFetch.fetch).toHaveBeenLastCalledWith(
+      'http://example.com/ansible/sync/history',
+    );
+    await expect(client.getSyncHistory()).resolves.toEqual([]);
+  });
+
+  it('AnsibleApiClient.getPendingApprovals returns the approvals or an empty list', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const approvals = [{ id: 'approval-1', title: 'Launch Deploy' }];
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ approvals }),
+        })
+        .mockResolvedValueOnce({ ok: false }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.getPendingApprovals()).resolves.toEqual(approvals);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/approvals',
+    );
+    await expect(client.getPendingApprovals()).resolves.toEqual([]);
+  });
+
+  it('AnsibleApiClient.decideApproval posts the decision and throws the backend error', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const approval = { id: 'approval-1', status: 'approved' };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(approval),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          json: jest.fn().mockResolvedValue({
+            error: 'You cannot approve your own request\n',
+          }),
+        }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(
+      client.decideApproval('approval-1', 'approve', 'Go ahead'),
+    ).resolves.toEqual(approval);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/approvals/approval-1/approve',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment: 'Go ahead' }),
+      },
+    );
+    await expect(
+      client.decideApproval('approval-1', 'approve'),
+    ).rejects.toThrow('You cannot approve your own request');
+  });
+
+  it('AnsibleApiClient.getTaskConfirmation returns the confirmation or null', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const confirmation = { id: 'confirmation-1', status: 'pending' };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(confirmation),
+        })
+        .mockResolvedValueOnce({ ok: false })
+        .mockRejectedValueOnce(new Error('Network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.getTaskConfirmation('task-1')).resolves.toEqual(
+      confirmation,
+    );
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/tasks/task-1/confirmation',
+    );
+    await expect(client.getTaskConfirmation('task-1')).resolves.toBeNull();
+    await expect(client.getTaskConfirmation('task-1')).resolves.toBeNull();
+  });
+
+  it('AnsibleApiClient.getTaskJob returns the job of the task or null', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const job = { jobId: 42, instance: null };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(job),
+        })
+        .mockResolvedValueOnce({ ok: false })
+        .mockRejectedValueOnce(new Error('Network error')),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.getTaskJob('task-1')).resolves.toEqual(job);
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/tasks/task-1/job',
+    );
+    await expect(client.getTaskJob('task-1')).resolves.toBeNull();
+    await expect(client.getTaskJob('task-1')).resolves.toBeNull();
+  });
+
+  it('AnsibleApiClient.decideLaunch posts the decision and throws the backend error', async () => {
+    const mockDiscovery = {
+      getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
+    };
+    const confirmation = { id: 'confirmation-1', status: 'approved' };
+    const mockFetch = {
+      fetch: jest
+        .fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue(confirmation),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          json: jest.fn().mockResolvedValue({
+            error: 'The launch of task task-1 is already expired\n',
+          }),
+        }),
+    };
+
+    const client = new AnsibleApiClient({
+      discoveryApi: mockDiscovery as any,
+      fetchApi: mockFetch as any,
+    });
+
+    await expect(client.decideLaunch('task-1', 'confirm')).resolves.toEqual(
+      confirmation,
+    );
+    expect(mockFetch.fetch).toHaveBeenCalledWith(
+      'http://example.com/aap/tasks/task-1/confirmation/confirm',
+      { method: 'POST' },
+    );
+    await expect(client.decideLaunch('task-1', 'reject')).rejects.toThrow(
+      'The launch of task task-1 is already expired',
+    );
+  });
+
   it('AAPApis factory produces an AnsibleApiClient wired with the provided apis', () => {
     const mockDiscovery = {
       getBaseUrl: jest.fn().mockResolvedValue('http://example.com'),
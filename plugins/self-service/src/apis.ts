@@ -25,6 +25,130 @@ type CustomAuthApiRefType = OAuthApi &
   BackstageIdentityApi &
   SessionApi;
 
+export type AAPJobEvent = {
+  counter: number;
+  event: string;
+  stdout: string;
+  created: string;
+  host_name: string;
+  task: string;
+  play: string;
+  failed: boolean;
+  changed: boolean;
+};
+
+export type AAPLaunchedJob = {
+  id: number;
+  status: string;
+  url: string;
+  finished?: boolean;
+};
+
+export type AAPJobEvents = {
+  job: AAPLaunchedJob | null;
+  events: AAPJobEvent[];
+  cursor: number;
+  hasMore?: boolean;
+  /** Set once the job has finished and its events are read */
+  hostSummaries?: AAPHostSummary[];
+  failedHosts?: string[];
+};
+
+export type AAPHostSummary = {
+  host: string;
+  ok: number;
+  changed: number;
+  failed: number;
+  unreachable: number;
+  skipped: number;
+};
+
+export type AAPJobSummary = {
+  id: number;
+  name: string;
+  status: string;
+  started: string | null;
+  finished: string | null;
+  elapsed: number;
+  launchedBy: string | null;
+  url: string;
+  hostStatusCounts: {
+    ok: number;
+    changed: number;
+    failed: number;
+    unreachable: number;
+    skipped: number;
+  };
+};
+
+export type AAPSchedule = {
+  id: number;
+  name: string;
+  description: string;
+  rrule: string;
+  enabled: boolean;
+  nextRun: string | null;
+  extraVariables: object;
+  url: string;
+};
+
+export type AAPNewSchedule = {
+  name: string;
+  rrule: string;
+  description?: string;
+  extraVariables?: string | object;
+};
+
+export type AAPApproval = {
+  id: string;
+  taskId: string;
+  title: string;
+  approvers: string;
+  requestedBy: string | null;
+  templateRef: string | null;
+  status: 'pending' | 'approved' | 'denied' | 'expired';
+  decidedBy: string | null;
+  comment: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+};
+
+export type AAPLaunchPreview = {
+  jobId: number;
+  status: string;
+  url: string;
+  hosts: {
+    host: string;
+    ok: number;
+    changed: number;
+    failed: number;
+    unreachable: number;
+    skipped: number;
+    changedTasks: string[];
+  }[];
+};
+
+export type AAPLaunchConfirmation = AAPApproval & {
+  details: AAPLaunchPreview | null;
+};
+
+export type AAPTaskJob = {
+  jobId: number;
+  instance: string | null;
+};
+
+export type AAPSyncRun = {
+  id: string;
+  providerName: string;
+  sourceId: string | null;
+  trigger: 'schedule' | 'manual';
+  outcome: 'running' | 'success' | 'failure';
+  startedAt: string;
+  finishedAt: string | null;
+  counts: Record<string, number> | null;
+  error: string | null;
+};
+
 export interface AnsibleApi {
   syncTemplates(): Promise<boolean>;
   syncOrgsUsersTeam(): Promise<boolean>;
@@ -34,6 +158,58 @@ export interface AnsibleApi {
       jobTemplates: { lastSync: string | null };
     };
   }>;
+  getSyncHistory(query?: {
+    providerName?: string;
+    sourceId?: string;
+    limit?: number;
+  }): Promise<AAPSyncRun[]>;
+  getJobEvents(
+    jobId: number,
+    token: string,
+    cursor?: number,
+    instance?: string,
+  ): Promise<AAPJobEvents>;
+  getJobTemplateJobs(
+    templateId: number,
+    token: string,
+    limit?: number,
+    instance?: string,
+  ): Promise<AAPJobSummary[]>;
+  cancelJob(jobId: number, token: string, instance?: string): Promise<boolean>;
+  relaunchJob(
+    jobId: number,
+    token: string,
+    hosts?: 'all' | 'failed',
+    instance?: string,
+  ): Promise<AAPLaunchedJob | null>;
+  getJobTemplateSchedules(
+    templateId: number,
+    token: string,
+    instance?: string,
+  ): Promise<AAPSchedule[]>;
+  createSchedule(
+    templateId: number,
+    token: string,
+    schedule: AAPNewSchedule,
+    instance?: string,
+  ): Promise<AAPSchedule>;
+  deleteSchedule(
+    scheduleId: number,
+    token: string,
+    instance?: string,
+  ): Promise<boolean>;
+  getPendingApprovals(): Promise<AAPApproval[]>;
+  decideApproval(
+    approvalId: string,
+    decision: 'approve' | 'deny',
+    comment?: string,
+  ): Promise<AAPApproval>;
+  getTaskConfirmation(taskId: string): Promise<AAPLaunchConfirmation | null>;
+  getTaskJob(taskId: string): Promise<AAPTaskJob | null>;
+  decideLaunch(
+    taskId: string,
+    decision: 'confirm' | 'reject',
+  ): Promise<AAPLaunchConfirmation>;
 }
 
 export const ansibleApiRef = createApiRef<AnsibleApi>({
@@ -54,6 +230,14 @@ type AAPAuthApiFactoryType = ApiFactory<
   }
 >;
 
+// the job and schedule routes use the default AAP instance without instance
+const withInstance = (url: string, instance?: string) =>
+  instance
+    ? `${url}${url.includes('?') ? '&' : '?'}instance=${encodeURIComponent(
+        instance,
+      )}`
+    : url;
+
 export class AnsibleApiClient implements AnsibleApi {
   private readonly discoveryApi: DiscoveryApi;
   private readonly fetchApi: FetchApi;
@@ -111,6 +295,298 @@ export class AnsibleApiClient implements AnsibleApi {
       };
     }
   }
+
+  async getSyncHistory(
+    query: { providerName?: string; sourceId?: string; limit?: number } = {},
+  ): Promise<AAPSyncRun[]> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('catalog');
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        params.set(name, `${value}`);
+      }
+    }
+    const search = params.toString();
+    try {
+      const response = await this.fetchApi.fetch(
+        `${baseUrl}/ansible/sync/history${search ? `?${search}` : ''}`,
+      );
+      if (!response.ok) {
+        return [];
+      }
+      const data = await response.json();
+      return data.runs ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  async getJobEvents(
+    jobId: number,
+    token: string,
+    cursor: number = 0,
+    instance?: string,
+  ): Promise<AAPJobEvents> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(
+          `${baseUrl}/aap/jobs/${jobId}/events?cursor=${cursor}`,
+          instance,
+        ),
+        { headers: { 'X-AAP-Token': token } },
+      );
+      if (!response.ok) {
+        return { job: null, events: [], cursor };
+      }
+      const data = await response.json();
+      return data;
+    } catch {
+      return { job: null, events: [], cursor };
+    }
+  }
+
+  async getJobTemplateJobs(
+    templateId: number,
+    token: string,
+    limit: number = 10,
+    instance?: string,
+  ): Promise<AAPJobSummary[]> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(
+          `${baseUrl}/aap/job_templates/${templateId}/jobs?limit=${limit}`,
+          instance,
+        ),
+        { headers: { 'X-AAP-Token': token } },
+      );
+      if (!response.ok) {
+        return [];
+      }
+      const data = await response.json();
+      return data.jobs ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  async cancelJob(
+    jobId: number,
+    token: string,
+    instance?: string,
+  ): Promise<boolean> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(`${baseUrl}/aap/jobs/${jobId}/cancel`, instance),
+        { method: 'POST', headers: { 'X-AAP-Token': token } },
+      );
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async relaunchJob(
+    jobId: number,
+    token: string,
+    hosts: 'all' | 'failed' = 'all',
+    instance?: string,
+  ): Promise<AAPLaunchedJob | null> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(`${baseUrl}/aap/jobs/${jobId}/relaunch`, instance),
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-AAP-Token': token,
+          },
+          body: JSON.stringify({ hosts }),
+        },
+      );
+      if (!response.ok) {
+        return null;
+      }
+      const data = await response.json();
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  async getJobTemplateSchedules(
+    templateId: number,
+    token: string,
+    instance?: string,
+  ): Promise<AAPSchedule[]> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(
+          `${baseUrl}/aap/job_templates/${templateId}/schedules`,
+          instance,
+        ),
+        { headers: { 'X-AAP-Token': token } },
+      );
+      if (!response.ok) {
+        return [];
+      }
+      const data = await response.json();
+      return data.schedules ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Creates a schedule of the job template. Unlike the other calls it throws,
+   * with the reason given by AAP, so that the form can show why AAP rejected
+   * the schedule.
+   */
+  async createSchedule(
+    templateId: number,
+    token: string,
+    schedule: AAPNewSchedule,
+    instance?: string,
+  ): Promise<AAPSchedule> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    const response = await this.fetchApi.fetch(
+      withInstance(
+        `${baseUrl}/aap/job_templates/${templateId}/schedules`,
+        instance,
+      ),
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-AAP-Token': token,
+        },
+        body: JSON.stringify(schedule),
+      },
+    );
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data?.error ?? 'Failed to create schedule');
+    }
+    return data;
+  }
+
+  async deleteSchedule(
+    scheduleId: number,
+    token: string,
+    instance?: string,
+  ): Promise<boolean> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        withInstance(`${baseUrl}/aap/schedules/${scheduleId}`, instance),
+        { method: 'DELETE', headers: { 'X-AAP-Token': token } },
+      );
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async getPendingApprovals(): Promise<AAPApproval[]> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(`${baseUrl}/aap/approvals`);
+      if (!response.ok) {
+        return [];
+      }
+      const data = await response.json();
+      return data.approvals ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Approves or denies a pending approval request. Throws with the reason
+   * given by the backend, for example when the user is not an approver.
+   */
+  async decideApproval(
+    approvalId: string,
+    decision: 'approve' | 'deny',
+    comment?: string,
+  ): Promise<AAPApproval> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    const response = await this.fetchApi.fetch(
+      `${baseUrl}/aap/approvals/${encodeURIComponent(approvalId)}/${decision}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment }),
+      },
+    );
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data?.error?.trim() || `Failed to ${decision} request`);
+    }
+    return data;
+  }
+
+  async getTaskConfirmation(
+    taskId: string,
+  ): Promise<AAPLaunchConfirmation | null> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        `${baseUrl}/aap/tasks/${encodeURIComponent(taskId)}/confirmation`,
+      );
+      if (!response.ok) {
+        return null;
+      }
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the job launched asynchronously by a task, while the task output
+   * is not available yet.
+   */
+  async getTaskJob(taskId: string): Promise<AAPTaskJob | null> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    try {
+      const response = await this.fetchApi.fetch(
+        `${baseUrl}/aap/tasks/${encodeURIComponent(taskId)}/job`,
+      );
+      if (!response.ok) {
+        return null;
+      }
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Confirms or rejects the launch of a task waiting after its check mode
+   * preview.
+   */
+  async decideLaunch(
+    taskId: string,
+    decision: 'confirm' | 'reject',
+  ): Promise<AAPLaunchConfirmation> {
+    const baseUrl = await this.discoveryApi.getBaseUrl('scaffolder');
+    const response = await this.fetchApi.fetch(
+      `${baseUrl}/aap/tasks/${encodeURIComponent(
+        taskId,
+      )}/confirmation/${decision}`,
+      { method: 'POST' },
+    );
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data?.error?.trim() || `Failed to ${decision} launch`);
+    }
+    return data;
+  }
 }
 
 export const AAPApis: ApiFactory<
@@ -12,6 +12,18 @@ import { mockCatalogApi } from '../../tests/catalogApi_utils';
 import { CatalogItemsDetails } from './CatalogItemDetails';
 import { rootRouteRef } from '../../routes';
 import { permissionApiRef } from '@backstage/plugin-permission-react';
+import { Entity } from '@backstage/catalog-model';
+
+jest.mock('./JobHistoryCard', () => ({
+  JobHistoryCard: ({ templateId }: { templateId: number }) => (
+    <div data-testid="job-history-card">{templateId}</div>
+  ),
+}));
+jest.mock('./SchedulesCard', () => ({
+  SchedulesCard: ({ templateId }: { templateId: number }) => (
+    <div data-testid="schedules-card">{templateId}</div>
+  ),
+}));
 
 describe('Catalog items details', () => {
   const server = setupServer();
@@ -59,4 +71,24 @@ describe('Catalog items details', () => {
     expect(screen.getByText('aap-operations')).toBeInTheDocument();
     expect(screen.getByText('intermediate')).toBeInTheDocument();
   });
+
+  it('should not render the job history for non job template entities', async () => {
+    await render(<CatalogItemsDetails />);
+    expect(screen.queryByTestId('job-history-card')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('schedules-card')).not.toBeInTheDocument();
+  });
+
+  it('should render the job history for job template entities', async () => {
+    const entity = (await mockCatalogApi.getEntityByRef(
+      'template:default/x',
+    )) as Entity;
+    mockCatalogApi.getEntityByRef.mockResolvedValueOnce({
+      ...entity,
+      metadata: { ...entity.metadata, aapJobTemplateId: 7 },
+    });
+
+    await render(<CatalogItemsDetails />);
+    expect(screen.getByTestId('job-history-card')).toHaveTextContent('7');
+    expect(screen.getByTestId('schedules-card')).toHaveTextContent('7');
+  });
 });
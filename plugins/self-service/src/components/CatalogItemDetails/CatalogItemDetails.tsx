@@ -21,6 +21,8 @@ import {
 } from '@material-ui/core';
 import { rootRouteRef } from '../../routes';
 import { TemplateActions } from './TemplateActions';
+import { JobHistoryCard } from './JobHistoryCard';
+import { SchedulesCard } from './SchedulesCard';
 
 const headerStyles = makeStyles(theme => ({
   header_title_color: {
@@ -110,6 +112,9 @@ export const CatalogItemsDetails = () => {
     );
   }
 
+  // job templates synced from another AAP instance than the default one
+  const aapInstance = task.metadata.annotations?.['ansible.io/aap-instance'];
+
   return (
     <EntityProvider entity={task}>
       <Page themeId="tool">
@@ -280,6 +285,22 @@ export const CatalogItemsDetails = () => {
                 )}
               </Card>
             </Grid>
+            {task.metadata.aapJobTemplateId && (
+              <Grid item xs={12}>
+                <JobHistoryCard
+                  templateId={Number(task.metadata.aapJobTemplateId)}
+                  instance={aapInstance}
+                />
+              </Grid>
+            )}
+            {task.metadata.aapJobTemplateId && (
+              <Grid item xs={12}>
+                <SchedulesCard
+                  templateId={Number(task.metadata.aapJobTemplateId)}
+                  instance={aapInstance}
+                />
+              </Grid>
+            )}
           </Grid>
         </Content>
       </Page>
@@ -0,0 +1,108 @@
+import { screen } from '@testing-library/react';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { JobHistoryCard } from './JobHistoryCard';
+import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+import { mockAnsibleApi, mockRhAapAuthApi } from '../../tests/mockAnsibleApi';
+
+describe('JobHistoryCard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRhAapAuthApi.getAccessToken.mockResolvedValue('mock-token');
+  });
+
+  const render = (instance?: string) =>
+    renderInTestApp(
+      <TestApiProvider
+        apis={[
+          [ansibleApiRef, mockAnsibleApi],
+          [rhAapAuthApiRef, mockRhAapAuthApi],
+        ]}
+      >
+        <JobHistoryCard templateId={7} instance={instance} />
+      </TestApiProvider>,
+    );
+
+  it('should list the recent jobs of the job template', async () => {
+    mockAnsibleApi.getJobTemplateJobs.mockResolvedValue([
+      {
+        id: 11,
+        name: 'Deploy',
+        status: 'successful',
+        started: '2025-01-01T00:00:00Z',
+        finished: '2025-01-01T01:01:30Z',
+        elapsed: 3690.4,
+        launchedBy: 'alice',
+        url: 'https://aap.example.com/execution/jobs/playbook/11/output',
+        hostStatusCounts: {
+          ok: 3,
+          changed: 1,
+          failed: 0,
+          unreachable: 2,
+          skipped: 0,
+        },
+      },
+      {
+        id: 10,
+        name: 'Deploy',
+        status: 'running',
+        started: null,
+        finished: null,
+        elapsed: 0,
+        launchedBy: null,
+        url: 'https://aap.example.com/execution/jobs/playbook/10/output',
+        hostStatusCounts: {
+          ok: 0,
+          changed: 0,
+          failed: 0,
+          unreachable: 0,
+          skipped: 0,
+        },
+      },
+    ]);
+
+    await render();
+
+    expect(mockAnsibleApi.getJobTemplateJobs).toHaveBeenCalledWith(
+      7,
+      'mock-token',
+      undefined,
+      undefined,
+    );
+    expect(screen.getByText('Recent jobs')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: '11' })).toHaveAttribute(
+      'href',
+      'https://aap.example.com/execution/jobs/playbook/11/output',
+    );
+    expect(screen.getByText('successful')).toBeInTheDocument();
+    expect(screen.getByText('1h 1m 30s')).toBeInTheDocument();
+    expect(screen.getByText('alice')).toBeInTheDocument();
+    expect(
+      screen.getByText(
+        'ok 3 · changed 1 · failed 0 · unreachable 2 · skipped 0',
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByText('running')).toBeInTheDocument();
+  });
+
+  it('should show a placeholder when the template has no jobs', async () => {
+    mockAnsibleApi.getJobTemplateJobs.mockResolvedValue([]);
+
+    await render();
+
+    expect(screen.getByText('No jobs found')).toBeInTheDocument();
+  });
+
+  it('should read the jobs from the AAP instance of the template', async () => {
+    mockAnsibleApi.getJobTemplateJobs.mockResolvedValue([]);
+
+    await render('nonprod');
+
+    expect(mockAnsibleApi.getJobTemplateJobs).toHaveBeenCalledWith(
+      7,
+      'mock-token',
+      undefined,
+      'nonprod',
+    );
+  });
+});
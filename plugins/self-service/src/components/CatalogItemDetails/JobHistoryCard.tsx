@@ -0,0 +1,177 @@
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  Box,
+  Card,
+  CircularProgress,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@material-ui/core';
+import ErrorOutlineIcon from '@material-ui/icons/ErrorOutline';
+import CheckCircleOutlineIcon from '@material-ui/icons/CheckCircleOutline';
+import PlayCircleOutlineIcon from '@material-ui/icons/PlayCircleOutline';
+import AddCircleOutlineIcon from '@material-ui/icons/AddCircleOutline';
+import BlockIcon from '@material-ui/icons/Block';
+import { useAsync } from 'react-use';
+import { AAPJobSummary, ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+
+export const formatCustomDate = (isoString: string | null) => {
+  if (!isoString) {
+    return '-';
+  }
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hour12: true,
+  }).format(new Date(isoString));
+};
+
+const formatDuration = (elapsed: number) => {
+  const seconds = Math.round(elapsed);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  const parts = [
+    hours ? `${hours}h` : '',
+    minutes ? `${minutes}m` : '',
+    `${rest}s`,
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'failed':
+    case 'error':
+      return <ErrorOutlineIcon style={{ color: 'red' }} />;
+    case 'successful':
+      return <CheckCircleOutlineIcon style={{ color: 'green' }} />;
+    case 'running':
+      return <PlayCircleOutlineIcon style={{ color: 'blue' }} />;
+    case 'new':
+    case 'pending':
+    case 'waiting':
+      return <AddCircleOutlineIcon style={{ color: 'blue' }} />;
+    case 'canceled':
+      return <BlockIcon style={{ color: 'yellow' }} />;
+    default:
+      return <></>;
+  }
+};
+
+const formatHostCounts = (counts: AAPJobSummary['hostStatusCounts']) =>
+  `ok ${counts.ok} · changed ${counts.changed} · failed ${counts.failed} · unreachable ${counts.unreachable} · skipped ${counts.skipped}`;
+
+export const JobHistoryCard = ({
+  templateId,
+  instance,
+}: {
+  templateId: number;
+  instance?: string;
+}) => {
+  const ansibleApi = useApi(ansibleApiRef);
+  const aapAuth = useApi(rhAapAuthApiRef);
+
+  const { value: jobs, loading } = useAsync(async () => {
+    const token = await aapAuth.getAccessToken();
+    return await ansibleApi.getJobTemplateJobs(
+      templateId,
+      token,
+      undefined,
+      instance,
+    );
+  }, [templateId, instance, ansibleApi, aapAuth]);
+
+  return (
+    <Card style={{ maxWidth: '1200px' }} data-testid="job-history-card">
+      <Box border={1} padding="22px 24px" borderColor="grey.300">
+        <Typography style={{ fontSize: '24px', lineHeight: '24px' }}>
+          Recent jobs
+        </Typography>
+        <Box
+          component="hr"
+          sx={{
+            width: 'calc(100% + 48px)',
+            borderTop: '1px solid grey',
+            margin: '16px -24px',
+          }}
+        />
+        {loading ? (
+          <CircularProgress />
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Job ID</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Started</TableCell>
+                  <TableCell>Duration</TableCell>
+                  <TableCell>Launched by</TableCell>
+                  <TableCell>Hosts</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {jobs?.map(job => (
+                  <TableRow key={job.id}>
+                    <TableCell>
+                      <Link
+                        href={job.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {job.id}
+                      </Link>
+                    </TableCell>
+                    <TableCell
+                      style={{
+                        textTransform: 'capitalize',
+                        display: 'flex',
+                        alignItems: 'center',
+                      }}
+                    >
+                      <Box
+                        sx={{
+                          marginRight: 1,
+                          display: 'flex',
+                          alignItems: 'center',
+                        }}
+                      >
+                        {getStatusIcon(job.status)}
+                      </Box>{' '}
+                      {job.status}
+                    </TableCell>
+                    <TableCell>{formatCustomDate(job.started)}</TableCell>
+                    <TableCell>
+                      {job.finished ? formatDuration(job.elapsed) : '-'}
+                    </TableCell>
+                    <TableCell>{job.launchedBy ?? '-'}</TableCell>
+                    <TableCell>
+                      {formatHostCounts(job.hostStatusCounts)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!jobs?.length && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      No jobs found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+    </Card>
+  );
+};
@@ -0,0 +1,148 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { SchedulesCard } from './SchedulesCard';
+import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+import { mockAnsibleApi, mockRhAapAuthApi } from '../../tests/mockAnsibleApi';
+
+describe('SchedulesCard', () => {
+  const schedule = {
+    id: 9,
+    name: 'Nightly scan',
+    description: '',
+    rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=DAILY;INTERVAL=1',
+    enabled: true,
+    nextRun: '2025-01-02T02:00:00Z',
+    extraVariables: {},
+    url: 'https://aap.example.com/execution/templates/job-template/7/schedules/9/details',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRhAapAuthApi.getAccessToken.mockResolvedValue('mock-token');
+  });
+
+  const render = (instance?: string) =>
+    renderInTestApp(
+      <TestApiProvider
+        apis={[
+          [ansibleApiRef, mockAnsibleApi],
+          [rhAapAuthApiRef, mockRhAapAuthApi],
+        ]}
+      >
+        <SchedulesCard templateId={7} instance={instance} />
+      </TestApiProvider>,
+    );
+
+  const fillForm = () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Add schedule' }));
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Weekly scan' },
+    });
+    fireEvent.change(screen.getByLabelText(/Start/), {
+      target: { value: '2025-01-01T02:00' },
+    });
+    fireEvent.change(screen.getByLabelText('Extra variables'), {
+      target: { value: 'scan_profile: cis' },
+    });
+  };
+
+  it('should list the schedules of the job template', async () => {
+    mockAnsibleApi.getJobTemplateSchedules.mockResolvedValue([
+      schedule,
+      {
+        ...schedule,
+        id: 10,
+        name: 'Fortnightly report',
+        rrule: 'DTSTART:20250101T020000Z RRULE:FREQ=WEEKLY;INTERVAL=2',
+        enabled: false,
+        nextRun: null,
+      },
+    ]);
+
+    await render();
+
+    expect(mockAnsibleApi.getJobTemplateSchedules).toHaveBeenCalledWith(
+      7,
+      'mock-token',
+      undefined,
+    );
+    expect(screen.getByRole('link', { name: 'Nightly scan' })).toHaveAttribute(
+      'href',
+      schedule.url,
+    );
+    expect(screen.getByText('Daily')).toBeInTheDocument();
+    expect(screen.getByText('Every 2 weeks')).toBeInTheDocument();
+    expect(screen.getByText('Disabled')).toBeInTheDocument();
+  });
+
+  it('should show a placeholder when the template has no schedules', async () => {
+    mockAnsibleApi.getJobTemplateSchedules.mockResolvedValue([]);
+
+    await render();
+
+    expect(screen.getByText('No schedules found')).toBeInTheDocument();
+  });
+
+  it('should create a schedule from the form', async () => {
+    mockAnsibleApi.getJobTemplateSchedules.mockResolvedValue([]);
+    mockAnsibleApi.createSchedule.mockResolvedValue(schedule);
+
+    await render();
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    const dtstart = new Date('2025-01-01T02:00')
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d+Z$/, 'Z');
+    await waitFor(() => {
+      expect(mockAnsibleApi.createSchedule).toHaveBeenCalledWith(
+        7,
+        'mock-token',
+        {
+          name: 'Weekly scan',
+          rrule: `DTSTART:${dtstart} RRULE:FREQ=DAILY;INTERVAL=1`,
+          extraVariables: 'scan_profile: cis',
+        },
+        undefined,
+      );
+    });
+    await waitFor(() => {
+      expect(mockAnsibleApi.getJobTemplateSchedules).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('should show the reason when AAP rejects the schedule', async () => {
+    mockAnsibleApi.getJobTemplateSchedules.mockResolvedValue([]);
+    mockAnsibleApi.createSchedule.mockRejectedValue(
+      new Error('Variables are not allowed on launch.'),
+    );
+
+    await render();
+    fillForm();
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Variables are not allowed on launch.',
+    );
+  });
+
+  it('should delete a schedule of the AAP instance of the template', async () => {
+    mockAnsibleApi.getJobTemplateSchedules.mockResolvedValue([schedule]);
+    mockAnsibleApi.deleteSchedule.mockResolvedValue(true);
+
+    await render('nonprod');
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Delete schedule Nightly scan' }),
+    );
+
+    await waitFor(() => {
+      expect(mockAnsibleApi.deleteSchedule).toHaveBeenCalledWith(
+        9,
+        'mock-token',
+        'nonprod',
+      );
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  Box,
+  Button,
+  Card,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Link,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import DeleteIcon from '@material-ui/icons/Delete';
+import { useAsyncRetry } from 'react-use';
+import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+import { formatCustomDate } from './JobHistoryCard';
+
+const FREQUENCIES = [
+  { value: 'HOURLY', label: 'Hourly', unit: 'hour' },
+  { value: 'DAILY', label: 'Daily', unit: 'day' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+];
+
+// AAP expects the start as an iCalendar UTC date, e.g. 20250101T020000Z
+const buildRrule = (start: string, frequency: string) => {
+  const dtstart = new Date(start)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+  return `DTSTART:${dtstart} RRULE:FREQ=${frequency};INTERVAL=1`;
+};
+
+const describeRrule = (rrule: string) => {
+  const frequency = rrule.match(/FREQ=(\w+)/)?.[1];
+  const interval = Number(rrule.match(/INTERVAL=(\d+)/)?.[1] ?? 1);
+  const known = FREQUENCIES.find(f => f.value === frequency);
+  if (!known) {
+    return rrule;
+  }
+  return interval > 1 ? `Every ${interval} ${known.unit}s` : known.label;
+};
+
+export const SchedulesCard = ({
+  templateId,
+  instance,
+}: {
+  templateId: number;
+  instance?: string;
+}) => {
+  const ansibleApi = useApi(ansibleApiRef);
+  const aapAuth = useApi(rhAapAuthApiRef);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [start, setStart] = useState('');
+  const [frequency, setFrequency] = useState('DAILY');
+  const [extraVariables, setExtraVariables] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    value: schedules,
+    loading,
+    retry,
+  } = useAsyncRetry(async () => {
+    const token = await aapAuth.getAccessToken();
+    return await ansibleApi.getJobTemplateSchedules(
+      templateId,
+      token,
+      instance,
+    );
+  }, [templateId, instance, ansibleApi, aapAuth]);
+
+  const closeDialog = () => {
+    setOpen(false);
+    setName('');
+    setStart('');
+    setFrequency('DAILY');
+    setExtraVariables('');
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const token = await aapAuth.getAccessToken();
+      await ansibleApi.createSchedule(
+        templateId,
+        token,
+        {
+          name,
+          rrule: buildRrule(start, frequency),
+          ...(extraVariables.trim() && { extraVariables }),
+        },
+        instance,
+      );
+      closeDialog();
+      retry();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to create schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (scheduleId: number) => {
+    const token = await aapAuth.getAccessToken();
+    await ansibleApi.deleteSchedule(scheduleId, token, instance);
+    retry();
+  };
+
+  return (
+    <Card style={{ maxWidth: '1200px' }} data-testid="schedules-card">
+      <Box border={1} padding="22px 24px" borderColor="grey.300">
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography style={{ fontSize: '24px', lineHeight: '24px' }}>
+            Schedules
+          </Typography>
+          <Button
+            variant="outlined"
+            color="primary"
+            onClick={() => setOpen(true)}
+          >
+            Add schedule
+          </Button>
+        </Box>
+        <Box
+          component="hr"
+          sx={{
+            width: 'calc(100% + 48px)',
+            borderTop: '1px solid grey',
+            margin: '16px -24px',
+          }}
+        />
+        {loading ? (
+          <CircularProgress />
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Recurrence</TableCell>
+                  <TableCell>Next run</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {schedules?.map(schedule => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      <Link
+                        href={schedule.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {schedule.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{describeRrule(schedule.rrule)}</TableCell>
+                    <TableCell>{formatCustomDate(schedule.nextRun)}</TableCell>
+                    <TableCell>
+                      {schedule.enabled ? 'Enabled' : 'Disabled'}
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        aria-label={`Delete schedule ${schedule.name}`}
+                        onClick={() => handleDelete(schedule.id)}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!schedules?.length && (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">
+                      No schedules found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+      <Dialog
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="schedule-dialog-title"
+        open={open}
+        onClose={closeDialog}
+      >
+        <DialogTitle id="schedule-dialog-title">Add schedule</DialogTitle>
+        <DialogContent dividers>
+          <TextField
+            id="schedule-name"
+            label="Name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            fullWidth
+            required
+            margin="normal"
+          />
+          <TextField
+            id="schedule-start"
+            label="Start"
+            type="datetime-local"
+            value={start}
+            onChange={e => setStart(e.target.value)}
+            fullWidth
+            required
+            margin="normal"
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            select
+            id="schedule-frequency"
+            label="Repeat"
+            value={frequency}
+            onChange={e => setFrequency(e.target.value)}
+            fullWidth
+            margin="normal"
+          >
+            {FREQUENCIES.map(option => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            id="schedule-extra-variables"
+            label="Extra variables"
+            helperText="YAML or JSON. The job template must prompt for variables or have a survey."
+            value={extraVariables}
+            onChange={e => setExtraVariables(e.target.value)}
+            fullWidth
+            multiline
+            minRows={4}
+            margin="normal"
+          />
+          {error && (
+            <Typography color="error" role="alert">
+              {error}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            color="primary"
+            variant="contained"
+            disabled={!name.trim() || !start || saving}
+            onClick={handleCreate}
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -145,6 +145,38 @@ describe('self-service', () => {
     expect(screen.getByText('Job Templates')).toBeInTheDocument();
   });
 
+  it('should show the recent synchronizations in the sync dialog', async () => {
+    mockCatalogApi.getEntityFacets.mockResolvedValue(
+      facetsFromEntityRefs(['component:default/e1'], ['tag1']),
+    );
+    mockAnsibleApi.getSyncHistory.mockResolvedValue([
+      {
+        id: 'run-1',
+        providerName: 'AAPJobTemplateProvider:development',
+        sourceId: null,
+        trigger: 'schedule',
+        outcome: 'failure',
+        startedAt: '2024-01-15T10:00:00Z',
+        finishedAt: '2024-01-15T10:01:00Z',
+        counts: null,
+        error: 'AAP unavailable',
+      },
+    ]);
+
+    await render(<HomeComponent />);
+    await waitFor(() => {
+      expect(screen.getByText('Sync now')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('Sync now'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Recent synchronizations')).toBeInTheDocument();
+    });
+    expect(mockAnsibleApi.getSyncHistory).toHaveBeenCalledWith({ limit: 10 });
+    expect(screen.getByText('AAP unavailable')).toBeInTheDocument();
+    expect(screen.getByText('Scheduled')).toBeInTheDocument();
+  });
+
   it('should handle sync operations successfully', async () => {
     const entityRefs = ['component:default/e1'];
     const tags = ['tag1'];
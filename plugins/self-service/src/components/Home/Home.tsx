@@ -26,7 +26,7 @@ import { catalogEntityCreatePermission } from '@backstage/plugin-catalog-common/
 
 import { WizardCard } from './TemplateCard';
 import { rootRouteRef } from '../../routes';
-import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+import { AAPSyncRun, ansibleApiRef, rhAapAuthApiRef } from '../../apis';
 import { SyncConfirmationDialog } from './SyncConfirmationDialog';
 import Sync from '@material-ui/icons/Sync';
 import Info from '@material-ui/icons/Info';
@@ -177,11 +177,16 @@ export const HomeComponent = () => {
     orgsUsersTeams: { lastSync: null },
     jobTemplates: { lastSync: null },
   });
+  const [syncHistory, setSyncHistory] = useState<AAPSyncRun[]>();
 
   const fetchSyncStatus = useCallback(async () => {
     try {
-      const status = await ansibleApi.getSyncStatus();
+      const [status, history] = await Promise.all([
+        ansibleApi.getSyncStatus(),
+        ansibleApi.getSyncHistory({ limit: 10 }),
+      ]);
       setSyncStatus(status.aap);
+      setSyncHistory(history);
     } catch {
       // Silently handle sync status fetch errors
       // The dialog will show "Never synced" as fallback
@@ -268,6 +273,7 @@ export const HomeComponent = () => {
           onClose={handleClose}
           value={syncOptions}
           syncStatus={syncStatus}
+          syncHistory={syncHistory}
         />
       )}
       <Header
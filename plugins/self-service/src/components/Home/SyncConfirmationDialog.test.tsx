@@ -48,6 +48,19 @@ describe('SyncConfirmationDialog', () => {
     expect(timeElements.length).toBeGreaterThan(0);
   });
 
+  it('should show the sync history only when provided', () => {
+    const { rerender } = render(<SyncConfirmationDialog {...defaultProps} />);
+    expect(
+      screen.queryByText('Recent synchronizations'),
+    ).not.toBeInTheDocument();
+
+    rerender(<SyncConfirmationDialog {...defaultProps} syncHistory={[]} />);
+    expect(screen.getByText('Recent synchronizations')).toBeInTheDocument();
+    expect(
+      screen.getByText('No synchronization has been recorded yet.'),
+    ).toBeInTheDocument();
+  });
+
   it('should handle checkbox selection', () => {
     const onClose = jest.fn();
     render(<SyncConfirmationDialog {...defaultProps} onClose={onClose} />);
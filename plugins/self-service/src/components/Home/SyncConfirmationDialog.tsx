@@ -7,7 +7,9 @@ import DialogTitle from '@material-ui/core/DialogTitle';
 import Dialog from '@material-ui/core/Dialog';
 import FormControlLabel from '@material-ui/core/FormControlLabel';
 import Typography from '@material-ui/core/Typography';
+import { AAPSyncRun } from '../../apis';
 import { formatRelativeTime } from '../../utils/timeUtils';
+import { SyncHistoryTable } from './SyncHistoryTable';
 
 const options = [
   {
@@ -29,11 +31,19 @@ export interface SyncConfirmationDialogProps {
     orgsUsersTeams: { lastSync: string | null };
     jobTemplates: { lastSync: string | null };
   };
+  syncHistory?: AAPSyncRun[];
   onClose: (value?: string[]) => void;
 }
 
 export const SyncConfirmationDialog = (props: SyncConfirmationDialogProps) => {
-  const { onClose, value: valueProp, open, syncStatus, ...other } = props;
+  const {
+    onClose,
+    value: valueProp,
+    open,
+    syncStatus,
+    syncHistory,
+    ...other
+  } = props;
   const [value, setValue] = useState<string[]>(valueProp);
 
   const handleCancel = () => {
@@ -116,6 +126,14 @@ export const SyncConfirmationDialog = (props: SyncConfirmationDialogProps) => {
             </div>
           );
         })}
+        {syncHistory && (
+          <div style={{ marginTop: '16px' }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Recent synchronizations
+            </Typography>
+            <SyncHistoryTable runs={syncHistory} />
+          </div>
+        )}
       </DialogContent>
       <DialogActions>
         <Button onClick={handleCancel} color="primary">
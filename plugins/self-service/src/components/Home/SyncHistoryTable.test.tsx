@@ -0,0 +1,68 @@
+import { render, screen } from '@testing-library/react';
+import { SyncHistoryTable } from './SyncHistoryTable';
+import { AAPSyncRun } from '../../apis';
+
+describe('SyncHistoryTable', () => {
+  const run = (overrides: Partial<AAPSyncRun>): AAPSyncRun => ({
+    id: 'run-1',
+    providerName: 'AapEntityProvider:development',
+    sourceId: null,
+    trigger: 'manual',
+    outcome: 'success',
+    startedAt: '2024-01-15T10:00:00Z',
+    finishedAt: '2024-01-15T10:01:00Z',
+    counts: null,
+    error: null,
+    ...overrides,
+  });
+
+  it('should render a row per run', () => {
+    render(
+      <SyncHistoryTable
+        runs={[
+          run({ counts: { groups: 3, users: 12 } }),
+          run({
+            id: 'run-2',
+            providerName: 'PAHCollectionProvider:development:validated',
+            sourceId: 'development:pah:validated',
+            trigger: 'schedule',
+            outcome: 'failure',
+            error: 'PAH unavailable',
+          }),
+          run({
+            id: 'run-3',
+            providerName: 'AAPJobTemplateProvider:development',
+            outcome: 'running',
+            finishedAt: null,
+            counts: { jobTemplates: 4, workflowJobTemplates: 1 },
+          }),
+          run({ id: 'run-4', providerName: 'CustomProvider:dev' }),
+        ]}
+      />,
+    );
+
+    expect(screen.getAllByRole('row')).toHaveLength(5);
+    expect(screen.getAllByText('Organizations, Users, and Teams')).toHaveLength(
+      1,
+    );
+    expect(screen.getByText('3 groups, 12 users')).toBeInTheDocument();
+    expect(screen.getByText('Automation Hub collections')).toBeInTheDocument();
+    expect(screen.getByText('Scheduled')).toBeInTheDocument();
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(screen.getByText('PAH unavailable')).toBeInTheDocument();
+    expect(screen.getByText('Running')).toBeInTheDocument();
+    expect(
+      screen.getByText('4 job templates, 1 workflow job templates'),
+    ).toBeInTheDocument();
+    expect(screen.getByText('CustomProvider:dev')).toBeInTheDocument();
+  });
+
+  it('should tell when no run has been recorded', () => {
+    render(<SyncHistoryTable runs={[]} />);
+
+    expect(
+      screen.getByText('No synchronization has been recorded yet.'),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@material-ui/core';
+import { AAPSyncRun } from '../../apis';
+import { formatRelativeTime } from '../../utils/timeUtils';
+
+const PROVIDER_LABELS: Record<string, string> = {
+  AapEntityProvider: 'Organizations, Users, and Teams',
+  AAPJobTemplateProvider: 'Job Templates',
+  PAHCollectionProvider: 'Automation Hub collections',
+  AnsibleGitContentsProvider: 'Git collections',
+};
+
+const OUTCOME_LABELS: Record<AAPSyncRun['outcome'], string> = {
+  running: 'Running',
+  success: 'Succeeded',
+  failure: 'Failed',
+};
+
+const formatCounts = (counts: AAPSyncRun['counts']) =>
+  counts && Object.keys(counts).length
+    ? Object.entries(counts)
+        .map(
+          ([kind, count]) =>
+            `${count} ${kind.replace(/([A-Z])/g, ' $1').toLowerCase()}`,
+        )
+        .join(', ')
+    : '-';
+
+/**
+ * Lists the recent runs of the catalog providers, as recorded by the backend
+ * in its database, so that failed scheduled syncs are visible to the user.
+ */
+export const SyncHistoryTable = (props: { runs: AAPSyncRun[] }) => {
+  const { runs } = props;
+
+  if (runs.length === 0) {
+    return (
+      <Typography variant="body2" color="textSecondary">
+        No synchronization has been recorded yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small" aria-label="Synchronization history">
+        <TableHead>
+          <TableRow>
+            <TableCell>Content</TableCell>
+            <TableCell>Trigger</TableCell>
+            <TableCell>Started</TableCell>
+            <TableCell>Outcome</TableCell>
+            <TableCell>Synced</TableCell>
+            <TableCell>Error</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {runs.map(run => (
+            <TableRow key={run.id}>
+              <TableCell title={run.providerName}>
+                {PROVIDER_LABELS[run.providerName.split(':')[0]] ??
+                  run.providerName}
+              </TableCell>
+              <TableCell>
+                {run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}
+              </TableCell>
+              <TableCell title={run.startedAt}>
+                {formatRelativeTime(run.startedAt)}
+              </TableCell>
+              <TableCell>{OUTCOME_LABELS[run.outcome]}</TableCell>
+              <TableCell>{formatCounts(run.counts)}</TableCell>
+              <TableCell>{run.error ?? '-'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
@@ -0,0 +1,228 @@
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { JobEventsPanel } from './JobEventsPanel';
+import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+import { mockAnsibleApi, mockRhAapAuthApi } from '../../tests/mockAnsibleApi';
+
+const event = (counter: number, stdout: string) => ({
+  counter,
+  event: 'runner_on_ok',
+  stdout,
+  created: '2025-01-01T00:00:00Z',
+  host_name: 'host1',
+  task: 'Ping',
+  play: 'All',
+  failed: false,
+  changed: false,
+});
+
+const job = (status: string, finished: boolean) => ({
+  id: 42,
+  status,
+  url: 'https://aap.example.com/execution/jobs/playbook/42/output',
+  finished,
+});
+
+describe('JobEventsPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRhAapAuthApi.getAccessToken.mockResolvedValue('mock-token');
+  });
+
+  const render = (instance?: string) =>
+    renderInTestApp(
+      <TestApiProvider
+        apis={[
+          [ansibleApiRef, mockAnsibleApi],
+          [rhAapAuthApiRef, mockRhAapAuthApi],
+        ]}
+      >
+        <JobEventsPanel jobId={42} instance={instance} />
+      </TestApiProvider>,
+    );
+
+  it('should tail job events until the job is finished', async () => {
+    mockAnsibleApi.getJobEvents
+      .mockResolvedValueOnce({
+        job: job('running', false),
+        events: [event(1, 'PLAY [All] ***'), event(2, '')],
+        cursor: 2,
+      })
+      .mockResolvedValueOnce({
+        job: job('successful', true),
+        events: [event(3, '\u001b[0;32mok: [host1]\u001b[0m')],
+        cursor: 3,
+        hasMore: false,
+      });
+
+    await render();
+
+    await waitFor(
+      () => {
+        expect(screen.getByTestId('job-status')).toHaveTextContent(
+          '(successful)',
+        );
+      },
+      { timeout: 5000 },
+    );
+
+    expect(screen.getByTestId('job-events-output').textContent).toBe(
+      'PLAY [All] ***\nok: [host1]',
+    );
+    expect(mockAnsibleApi.getJobEvents).toHaveBeenNthCalledWith(
+      1,
+      42,
+      'mock-token',
+      0,
+      undefined,
+    );
+    expect(mockAnsibleApi.getJobEvents).toHaveBeenNthCalledWith(
+      2,
+      42,
+      'mock-token',
+      2,
+      undefined,
+    );
+    expect(
+      screen.getByText('View in Ansible Automation Platform'),
+    ).toHaveAttribute(
+      'href',
+      'https://aap.example.com/execution/jobs/playbook/42/output',
+    );
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+  }, 15000);
+
+  it('should list the failed hosts of a finished job', async () => {
+    mockAnsibleApi.getJobEvents.mockResolvedValue({
+      job: job('failed', true),
+      events: [event(1, 'fatal: [web2]: UNREACHABLE!')],
+      cursor: 1,
+      hasMore: false,
+      hostSummaries: [
+        {
+          host: 'web1',
+          ok: 2,
+          changed: 0,
+          failed: 0,
+          unreachable: 0,
+          skipped: 0,
+        },
+        {
+          host: 'web2',
+          ok: 0,
+          changed: 0,
+          failed: 0,
+          unreachable: 1,
+          skipped: 0,
+        },
+      ],
+      failedHosts: ['web2'],
+    });
+
+    await render();
+
+    expect(await screen.findByTestId('job-failed-hosts')).toHaveTextContent(
+      'Failed or unreachable hosts: web2',
+    );
+  });
+
+  it('should show a placeholder while no output is available', async () => {
+    mockAnsibleApi.getJobEvents.mockResolvedValue({
+      job: null,
+      events: [],
+      cursor: 0,
+    });
+
+    await render();
+
+    expect(screen.getByTestId('job-events-output')).toHaveTextContent(
+      'Waiting for job output...',
+    );
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
+  it('should cancel a running job of the AAP instance', async () => {
+    mockAnsibleApi.getJobEvents.mockResolvedValue({
+      job: job('running', false),
+      events: [],
+      cursor: 0,
+    });
+    mockAnsibleApi.cancelJob.mockResolvedValue(false);
+
+    await render('nonprod');
+
+    const cancelButton = await screen.findByRole('button', {
+      name: 'Cancel Job',
+    });
+    await waitFor(() => expect(cancelButton).toBeEnabled());
+    await userEvent.click(cancelButton);
+
+    expect(mockAnsibleApi.cancelJob).toHaveBeenCalledWith(
+      42,
+      'mock-token',
+      'nonprod',
+    );
+    expect(await screen.findByTestId('job-action-error')).toHaveTextContent(
+      'Failed to cancel job 42.',
+    );
+  });
+
+  it('should enable the buttons again when the token cannot be read', async () => {
+    mockAnsibleApi.getJobEvents.mockResolvedValue({
+      job: job('failed', true),
+      events: [],
+      cursor: 0,
+    });
+
+    await render();
+
+    const relaunchButton = await screen.findByRole('button', {
+      name: 'Relaunch',
+    });
+    mockRhAapAuthApi.getAccessToken.mockRejectedValueOnce(
+      new Error('Login required'),
+    );
+    await userEvent.click(relaunchButton);
+
+    expect(await screen.findByTestId('job-action-error')).toHaveTextContent(
+      'Failed to relaunch job 42.',
+    );
+    expect(mockAnsibleApi.relaunchJob).not.toHaveBeenCalled();
+    expect(relaunchButton).toBeEnabled();
+  });
+
+  it('should relaunch a failed job on failed hosts and follow the new job', async () => {
+    mockAnsibleApi.getJobEvents.mockImplementation(async (jobId: number) => ({
+      job: { ...job('failed', true), id: jobId },
+      events: [event(1, `output of job ${jobId}`)],
+      cursor: 1,
+    }));
+    mockAnsibleApi.relaunchJob.mockResolvedValue({
+      id: 43,
+      status: 'pending',
+      url: 'https://aap.example.com/execution/jobs/playbook/43/output',
+    });
+
+    await render();
+
+    await userEvent.click(
+      await screen.findByRole('button', { name: 'Relaunch on Failed Hosts' }),
+    );
+
+    expect(mockAnsibleApi.relaunchJob).toHaveBeenCalledWith(
+      42,
+      'mock-token',
+      'failed',
+      undefined,
+    );
+    expect(await screen.findByText('Job 43 output')).toBeInTheDocument();
+    await waitFor(() =>
+      expect(screen.getByTestId('job-events-output')).toHaveTextContent(
+        'output of job 43',
+      ),
+    );
+    expect(screen.getByRole('button', { name: 'Relaunch' })).toBeEnabled();
+  });
+});
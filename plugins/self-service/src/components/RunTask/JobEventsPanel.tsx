@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Link,
+  makeStyles,
+  Typography,
+} from '@material-ui/core';
+import { ansibleApiRef, rhAapAuthApiRef } from '../../apis';
+
+const POLL_INTERVAL_MS = 2000;
+
+const useStyles = makeStyles(theme => ({
+  container: {
+    marginTop: '20px',
+    borderRadius: '4px',
+    padding: '24px',
+    boxShadow:
+      '0px 3px 1px -2px rgba(0,0,0,0.2),0px 2px 2px 0px rgba(0,0,0,0.14),0px 1px 5px 0px rgba(0,0,0,0.12)',
+  },
+  output: {
+    margin: 0,
+    maxHeight: '480px',
+    overflow: 'auto',
+    padding: theme.spacing(2),
+    fontFamily: 'monospace',
+    fontSize: '0.8rem',
+    whiteSpace: 'pre-wrap',
+    backgroundColor: theme.palette.type === 'light' ? '#f5f5f5' : '#1e1e1e',
+  },
+}));
+
+// Strip the ANSI color codes AAP adds to the playbook output
+const cleanStdout = (stdout: string) =>
+  // eslint-disable-next-line no-control-regex
+  stdout.replaceAll(/\u001b\[[0-9;]*m/g, '');
+
+export const JobEventsPanel = (props: { jobId: number; instance?: string }) => {
+  const { instance } = props;
+  const classes = useStyles();
+  const ansibleApi = useApi(ansibleApiRef);
+  const aapAuth = useApi(rhAapAuthApiRef);
+  // a relaunch starts a new job, the panel then follows that one
+  const [jobId, setJobId] = useState(props.jobId);
+  const [lines, setLines] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [jobUrl, setJobUrl] = useState<string | null>(null);
+  const [failedHosts, setFailedHosts] = useState<string[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [actionInProgress, setActionInProgress] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLines([]);
+    setStatus(null);
+    setJobUrl(null);
+    setFailedHosts([]);
+    setFinished(false);
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let cursor = 0;
+
+    const poll = async () => {
+      let done = false;
+      try {
+        const token = await aapAuth.getAccessToken();
+        const result = await ansibleApi.getJobEvents(
+          jobId,
+          token,
+          cursor,
+          instance,
+        );
+        if (cancelled) return;
+        cursor = result.cursor;
+        const newLines = result.events
+          .map(event => cleanStdout(event.stdout))
+          .filter(stdout => stdout.length > 0);
+        if (newLines.length) {
+          setLines(prev => [...prev, ...newLines]);
+        }
+        if (result.job) {
+          setStatus(result.job.status);
+          setJobUrl(result.job.url);
+          // keep reading until the events emitted before the end are consumed
+          done = !!result.job.finished && !result.hasMore;
+        }
+        if (result.failedHosts) {
+          setFailedHosts(result.failedHosts);
+        }
+      } catch (err) {
+        console.error('Failed to fetch job events:', err); // eslint-disable-line no-console
+      }
+      if (cancelled) return;
+      if (done) {
+        setFinished(true);
+      } else {
+        timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  }, [jobId, instance, ansibleApi, aapAuth]);
+
+  const handleCancel = useCallback(async () => {
+    setActionInProgress(true);
+    setActionError(null);
+    try {
+      const token = await aapAuth.getAccessToken();
+      if (!(await ansibleApi.cancelJob(jobId, token, instance))) {
+        setActionError(`Failed to cancel job ${jobId}.`);
+      }
+    } catch (err) {
+      console.error('Failed to cancel job:', err); // eslint-disable-line no-console
+      setActionError(`Failed to cancel job ${jobId}.`);
+    } finally {
+      setActionInProgress(false);
+    }
+  }, [jobId, instance, ansibleApi, aapAuth]);
+
+  const handleRelaunch = useCallback(
+    async (hosts: 'all' | 'failed') => {
+      setActionInProgress(true);
+      setActionError(null);
+      try {
+        const token = await aapAuth.getAccessToken();
+        const job = await ansibleApi.relaunchJob(
+          jobId,
+          token,
+          hosts,
+          instance,
+        );
+        if (job) {
+          setJobId(job.id);
+        } else {
+          setActionError(`Failed to relaunch job ${jobId}.`);
+        }
+      } catch (err) {
+        console.error('Failed to relaunch job:', err); // eslint-disable-line no-console
+        setActionError(`Failed to relaunch job ${jobId}.`);
+      } finally {
+        setActionInProgress(false);
+      }
+    },
+    [jobId, instance, ansibleApi, aapAuth],
+  );
+
+  return (
+    <Box className={classes.container} data-testid="job-events-panel">
+      <Box
+        display="flex"
+        alignItems="center"
+        marginBottom="12px"
+        style={{ gap: '8px' }}
+      >
+        <Typography variant="h6" style={{ fontWeight: 'bold' }}>
+          Job {jobId} output
+        </Typography>
+        {status && (
+          <Typography variant="body2" data-testid="job-status">
+            ({status})
+          </Typography>
+        )}
+        {!finished && <CircularProgress size={16} />}
+        <Box flex={1} />
+        {jobUrl && (
+          <Link href={jobUrl} target="_blank" rel="noopener noreferrer">
+            View in Ansible Automation Platform
+          </Link>
+        )}
+        {!finished && (
+          <Button
+            onClick={handleCancel}
+            disabled={actionInProgress || !status}
+            variant="outlined"
+            color="secondary"
+            size="small"
+          >
+            Cancel Job
+          </Button>
+        )}
+        {finished && (
+          <Button
+            onClick={() => handleRelaunch('all')}
+            disabled={actionInProgress}
+            variant="outlined"
+            size="small"
+          >
+            Relaunch
+          </Button>
+        )}
+        {finished && status === 'failed' && (
+          <Button
+            onClick={() => handleRelaunch('failed')}
+            disabled={actionInProgress}
+            variant="outlined"
+            size="small"
+          >
+            Relaunch on Failed Hosts
+          </Button>
+        )}
+      </Box>
+      {finished && failedHosts.length > 0 && (
+        <Typography
+          variant="body2"
+          color="error"
+          data-testid="job-failed-hosts"
+        >
+          Failed or unreachable hosts: {failedHosts.join(', ')}
+        </Typography>
+      )}
+      {actionError && (
+        <Typography
+          variant="body2"
+          color="error"
+          data-testid="job-action-error"
+        >
+          {actionError}
+        </Typography>
+      )}
+      <pre className={classes.output} data-testid="job-events-output">
+        {lines.length ? lines.join('\n') : 'Waiting for job output...'}
+      </pre>
+    </Box>
+  );
+};
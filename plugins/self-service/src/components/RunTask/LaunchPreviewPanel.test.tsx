@@ -0,0 +1,133 @@
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { LaunchPreviewPanel } from './LaunchPreviewPanel';
+import { ansibleApiRef } from '../../apis';
+import { mockAnsibleApi } from '../../tests/mockAnsibleApi';
+
+const confirmation = (status: string) => ({
+  id: 'confirmation-1',
+  taskId: 'task-1',
+  title: 'Launch Deploy',
+  approvers: 'user:default/alice',
+  requestedBy: 'user:default/alice',
+  templateRef: null,
+  status,
+  decidedBy: null,
+  comment: null,
+  createdAt: '2025-01-01T00:00:00Z',
+  decidedAt: null,
+  details: {
+    jobId: 41,
+    status: 'successful',
+    url: 'https://aap.example.com/execution/jobs/playbook/41/output',
+    hosts: [
+      {
+        host: 'web1',
+        ok: 3,
+        changed: 2,
+        failed: 0,
+        unreachable: 0,
+        skipped: 0,
+        changedTasks: ['Install nginx', 'Write config'],
+      },
+      {
+        host: 'web2',
+        ok: 3,
+        changed: 0,
+        failed: 0,
+        unreachable: 0,
+        skipped: 0,
+        changedTasks: [],
+      },
+    ],
+  },
+});
+
+describe('LaunchPreviewPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const render = (active = true) =>
+    renderInTestApp(
+      <TestApiProvider apis={[[ansibleApiRef, mockAnsibleApi]]}>
+        <LaunchPreviewPanel taskId="task-1" active={active} />
+      </TestApiProvider>,
+    );
+
+  it('should show the per host preview and confirm the launch', async () => {
+    mockAnsibleApi.getTaskConfirmation.mockResolvedValue(
+      confirmation('pending') as any,
+    );
+    mockAnsibleApi.decideLaunch.mockResolvedValue(
+      confirmation('approved') as any,
+    );
+
+    await render();
+
+    expect(
+      await screen.findByText('Install nginx, Write config'),
+    ).toBeInTheDocument();
+    expect(screen.getByText('web2')).toBeInTheDocument();
+    expect(screen.getByText('View preview job 41')).toHaveAttribute(
+      'href',
+      'https://aap.example.com/execution/jobs/playbook/41/output',
+    );
+    expect(mockAnsibleApi.getTaskConfirmation).toHaveBeenCalledWith('task-1');
+
+    await userEvent.click(screen.getByText('Confirm launch'));
+
+    await waitFor(() =>
+      expect(screen.getByTestId('launch-preview-decision')).toHaveTextContent(
+        'Launch confirmed',
+      ),
+    );
+    expect(mockAnsibleApi.decideLaunch).toHaveBeenCalledWith(
+      'task-1',
+      'confirm',
+    );
+    expect(screen.queryByText('Confirm launch')).not.toBeInTheDocument();
+  });
+
+  it('should show the error when the launch cannot be rejected', async () => {
+    mockAnsibleApi.getTaskConfirmation.mockResolvedValue(
+      confirmation('pending') as any,
+    );
+    mockAnsibleApi.decideLaunch.mockRejectedValue(
+      new Error('The launch of task task-1 is already expired'),
+    );
+
+    await render();
+
+    await userEvent.click(await screen.findByText('Reject'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'The launch of task task-1 is already expired',
+    );
+    expect(mockAnsibleApi.decideLaunch).toHaveBeenCalledWith(
+      'task-1',
+      'reject',
+    );
+  });
+
+  it('should render nothing while there is no confirmation', async () => {
+    mockAnsibleApi.getTaskConfirmation.mockResolvedValue(null);
+
+    await render();
+
+    await waitFor(() =>
+      expect(mockAnsibleApi.getTaskConfirmation).toHaveBeenCalled(),
+    );
+    expect(
+      screen.queryByTestId('launch-preview-panel'),
+    ).not.toBeInTheDocument();
+  });
+
+  it('should not poll when the task is not running', async () => {
+    await render(false);
+
+    expect(mockAnsibleApi.getTaskConfirmation).not.toHaveBeenCalled();
+  });
+});
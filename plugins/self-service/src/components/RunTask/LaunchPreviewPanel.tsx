@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import {
+  Box,
+  Button,
+  Link,
+  makeStyles,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@material-ui/core';
+import { AAPLaunchConfirmation, ansibleApiRef } from '../../apis';
+
+const POLL_INTERVAL_MS = 2000;
+
+const useStyles = makeStyles({
+  container: {
+    marginTop: '20px',
+    borderRadius: '4px',
+    padding: '24px',
+    boxShadow:
+      '0px 3px 1px -2px rgba(0,0,0,0.2),0px 2px 2px 0px rgba(0,0,0,0.14),0px 1px 5px 0px rgba(0,0,0,0.12)',
+  },
+});
+
+const DECIDED_LABELS: Record<string, string> = {
+  approved: 'Launch confirmed',
+  denied: 'Launch rejected',
+  expired: 'Confirmation expired',
+};
+
+/**
+ * Shows the per host result of the check mode run of rhaap:confirm-launch and
+ * lets the user confirm or reject the real launch. The confirmation is read
+ * from the backend as the task output is only available once it completes.
+ */
+export const LaunchPreviewPanel = (props: {
+  taskId: string;
+  active: boolean;
+}) => {
+  const { taskId, active } = props;
+  const classes = useStyles();
+  const ansibleApi = useApi(ansibleApiRef);
+  const [confirmation, setConfirmation] =
+    useState<AAPLaunchConfirmation | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pending = !confirmation || confirmation.status === 'pending';
+
+  useEffect(() => {
+    if (!active || !pending) {
+      return undefined;
+    }
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const result = await ansibleApi.getTaskConfirmation(taskId);
+      if (cancelled) return;
+      if (result) {
+        setConfirmation(result);
+      }
+      if (!result || result.status === 'pending') {
+        timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  }, [taskId, active, pending, ansibleApi]);
+
+  const handleDecision = useCallback(
+    async (decision: 'confirm' | 'reject') => {
+      setSaving(true);
+      setError(null);
+      try {
+        setConfirmation(await ansibleApi.decideLaunch(taskId, decision));
+      } catch (e: any) {
+        setError(e?.message ?? `Failed to ${decision} launch`);
+      } finally {
+        setSaving(false);
+      }
+    },
+    [taskId, ansibleApi],
+  );
+
+  if (!confirmation) {
+    return null;
+  }
+
+  const preview = confirmation.details;
+
+  return (
+    <Box className={classes.container} data-testid="launch-preview-panel">
+      <Box
+        display="flex"
+        alignItems="center"
+        marginBottom="12px"
+        style={{ gap: '8px' }}
+      >
+        <Typography variant="h6" style={{ fontWeight: 'bold' }}>
+          Preview of {confirmation.title}
+        </Typography>
+        {preview && <Typography variant="body2">({preview.status})</Typography>}
+        <Box flex={1} />
+        {preview?.url && (
+          <Link href={preview.url} target="_blank" rel="noopener noreferrer">
+            View preview job {preview.jobId}
+          </Link>
+        )}
+      </Box>
+      {preview?.hosts.length ? (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Host</TableCell>
+                <TableCell>Changed</TableCell>
+                <TableCell>OK</TableCell>
+                <TableCell>Failed</TableCell>
+                <TableCell>Unreachable</TableCell>
+                <TableCell>Changed tasks</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {preview.hosts.map(host => (
+                <TableRow key={host.host}>
+                  <TableCell>{host.host}</TableCell>
+                  <TableCell>{host.changed}</TableCell>
+                  <TableCell>{host.ok}</TableCell>
+                  <TableCell>{host.failed}</TableCell>
+                  <TableCell>{host.unreachable}</TableCell>
+                  <TableCell>
+                    {host.changedTasks.length
+                      ? host.changedTasks.join(', ')
+                      : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      ) : (
+        <Typography variant="body2">
+          The preview did not report any host.
+        </Typography>
+      )}
+      {error && (
+        <Typography variant="body2" color="error" role="alert">
+          {error}
+        </Typography>
+      )}
+      <Box display="flex" marginTop="16px" style={{ gap: '8px' }}>
+        {confirmation.status === 'pending' ? (
+          <>
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={saving}
+              onClick={() => handleDecision('confirm')}
+            >
+              Confirm launch
+            </Button>
+            <Button
+              variant="outlined"
+              disabled={saving}
+              onClick={() => handleDecision('reject')}
+            >
+              Reject
+            </Button>
+          </>
+        ) : (
+          <Typography variant="body2" data-testid="launch-preview-decision">
+            {DECIDED_LABELS[confirmation.status]}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
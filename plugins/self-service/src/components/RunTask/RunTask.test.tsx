@@ -79,6 +79,32 @@ jest.mock('@backstage/plugin-scaffolder-react/alpha', () => ({
   TaskSteps: jest.fn(() => <div data-testid="task-steps">Task Steps Mock</div>),
 }));
 
+jest.mock('./LaunchPreviewPanel', () => ({
+  LaunchPreviewPanel: ({ taskId }: { taskId: string }) => (
+    <div data-testid="launch-preview-panel">Preview of {taskId}</div>
+  ),
+}));
+
+jest.mock('./TaskJobEventsPanel', () => ({
+  TaskJobEventsPanel: ({ taskId }: { taskId: string }) => (
+    <div data-testid="task-job-events-panel">Job of {taskId}</div>
+  ),
+}));
+
+jest.mock('./JobEventsPanel', () => ({
+  JobEventsPanel: ({
+    jobId,
+    instance,
+  }: {
+    jobId: number;
+    instance?: string;
+  }) => (
+    <div data-testid="job-events-panel">
+      Job {jobId} events{instance && ` on ${instance}`}
+    </div>
+  ),
+}));
+
 // Mock the Page and Header components from @backstage/core-components
 jest.mock('@backstage/core-components', () => {
   return {
@@ -2592,6 +2618,169 @@ describe('RunTask', () => {
     }, 15000);
   });
 
+  describe('AAP job output', () => {
+    it('should tail the AAP job output when the task outputs a job id', async () => {
+      const useTaskEventStreamMock =
+        require('@backstage/plugin-scaffolder-react').useTaskEventStream;
+
+      const originalImplementation =
+        useTaskEventStreamMock.getMockImplementation();
+
+      useTaskEventStreamMock.mockImplementation(() => ({
+        ...originalImplementation(),
+        output: { aapJobId: 42 },
+      }));
+
+      await render(<RunTask />);
+
+      expect(screen.getByTestId('job-events-panel')).toHaveTextContent(
+        'Job 42 events',
+      );
+
+      useTaskEventStreamMock.mockImplementation(originalImplementation);
+    });
+
+    it('should tail the AAP job output on the AAP instance of the template', async () => {
+      const useTaskEventStreamMock =
+        require('@backstage/plugin-scaffolder-react').useTaskEventStream;
+
+      const originalImplementation =
+        useTaskEventStreamMock.getMockImplementation();
+
+      useTaskEventStreamMock.mockImplementation(() => {
+        const stream = originalImplementation();
+        return {
+          ...stream,
+          task: {
+            ...stream.task,
+            spec: {
+              ...stream.task.spec,
+              templateInfo: {
+                entity: {
+                  metadata: {
+                    title: 'Test Template (nonprod)',
+                    annotations: { 'ansible.io/aap-instance': 'nonprod' },
+                  },
+                },
+              },
+            },
+          },
+          output: { aapJobId: 42 },
+        };
+      });
+
+      await render(<RunTask />);
+
+      expect(screen.getByTestId('job-events-panel')).toHaveTextContent(
+        'Job 42 events on nonprod',
+      );
+
+      useTaskEventStreamMock.mockImplementation(originalImplementation);
+    });
+
+    it('should not render the AAP job output without a job id', async () => {
+      await render(<RunTask />);
+
+      expect(screen.queryByTestId('job-events-panel')).not.toBeInTheDocument();
+    });
+
+    it('should follow the job of a running task launching asynchronously', async () => {
+      const useTaskEventStreamMock =
+        require('@backstage/plugin-scaffolder-react').useTaskEventStream;
+
+      const originalImplementation =
+        useTaskEventStreamMock.getMockImplementation();
+
+      useTaskEventStreamMock.mockImplementation(() => {
+        const stream = originalImplementation();
+        return {
+          ...stream,
+          completed: false,
+          output: undefined,
+          task: {
+            ...stream.task,
+            spec: {
+              ...stream.task.spec,
+              steps: [
+                {
+                  id: 'launch-job',
+                  name: 'Deploy',
+                  action: 'rhaap:launch-job-template',
+                  input: { async: true },
+                },
+                {
+                  id: 'wait-for-job',
+                  name: 'Wait for Deploy',
+                  action: 'rhaap:wait-for-job',
+                  input: {},
+                },
+              ],
+            },
+          },
+        };
+      });
+
+      await render(<RunTask />);
+
+      expect(screen.getByTestId('task-job-events-panel')).toHaveTextContent(
+        'Job of test-task-id',
+      );
+      expect(screen.queryByTestId('job-events-panel')).not.toBeInTheDocument();
+
+      useTaskEventStreamMock.mockImplementation(originalImplementation);
+    });
+
+    it('should not follow a task job without an asynchronous launch', async () => {
+      await render(<RunTask />);
+
+      expect(
+        screen.queryByTestId('task-job-events-panel'),
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Launch preview', () => {
+    it('should show the launch preview when the task has a confirm-launch step', async () => {
+      const useTaskEventStreamMock =
+        require('@backstage/plugin-scaffolder-react').useTaskEventStream;
+
+      const originalImplementation =
+        useTaskEventStreamMock.getMockImplementation();
+
+      useTaskEventStreamMock.mockImplementation(() => {
+        const stream = originalImplementation();
+        return {
+          ...stream,
+          task: {
+            ...stream.task,
+            spec: {
+              ...stream.task.spec,
+              steps: [
+                { id: 'preview-job', name: 'Preview Deploy' },
+                { id: 'confirm-launch', name: 'Confirm launch' },
+                { id: 'launch-job', name: 'Deploy' },
+              ],
+            },
+          },
+        };
+      });
+
+      await render(<RunTask />);
+
+      expect(screen.getByTestId('launch-preview-panel')).toBeInTheDocument();
+
+      useTaskEventStreamMock.mockImplementation(originalImplementation);
+    });
+
+    it('should not show the launch preview without a confirm-launch step', async () => {
+      await render(<RunTask />);
+
+      expect(
+        screen.queryByTestId('launch-preview-panel'),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe('Task status edge cases', () => {
     it('should handle failed task status', async () => {
       const useTaskEventStreamMock =
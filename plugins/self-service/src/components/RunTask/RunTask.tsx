@@ -31,6 +31,9 @@ import GetAppIcon from '@material-ui/icons/GetApp';
 import ArrowBack from '@material-ui/icons/ArrowBack';
 import { selectedTemplateRouteRef } from '../../routes';
 import { createTarArchive } from '../utils/tarArchiveUtils';
+import { JobEventsPanel } from './JobEventsPanel';
+import { LaunchPreviewPanel } from './LaunchPreviewPanel';
+import { TaskJobEventsPanel } from './TaskJobEventsPanel';
 
 const headerStyles = makeStyles(theme => ({
   header_title_color: {
@@ -115,6 +118,19 @@ export const RunTask = () => {
   const isStartOverDisabled =
     taskStatus === 'processing' || taskStatus === 'unknown';
 
+  // set by templates launching an AAP job, used to tail the job output
+  const aapJobId = Number(output?.aapJobId) || null;
+  // templates synced from another AAP instance than the default one
+  const aapInstance = taskMetadata?.annotations?.['ansible.io/aap-instance'];
+  // a job launched asynchronously is followed before the task output exists
+  const hasAsyncLaunch = !!task?.spec.steps.some(
+    step => step.action === 'rhaap:launch-job-template' && step.input?.async,
+  );
+  // templates with a check mode preview wait in rhaap:confirm-launch
+  const hasLaunchPreview = !!task?.spec.steps.some(
+    step => step.id === 'confirm-launch',
+  );
+
   const showCancel = canCancel;
   const isCancelDisabled = taskStatus !== 'processing';
 
@@ -650,6 +666,25 @@ export const RunTask = () => {
               />
             </Box>
           )}
+        {hasLaunchPreview && (
+          <LaunchPreviewPanel
+            taskId={taskId!}
+            active={taskStatus === 'processing'}
+          />
+        )}
+        {aapJobId && (
+          <JobEventsPanel
+            key={aapJobId}
+            jobId={aapJobId}
+            instance={aapInstance}
+          />
+        )}
+        {!aapJobId && hasAsyncLaunch && (
+          <TaskJobEventsPanel
+            taskId={taskId!}
+            active={taskStatus === 'processing'}
+          />
+        )}
         {showLogs && (
           <div
             style={{
@@ -0,0 +1,62 @@
+import { screen, waitFor } from '@testing-library/react';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { TaskJobEventsPanel } from './TaskJobEventsPanel';
+import { ansibleApiRef } from '../../apis';
+import { mockAnsibleApi } from '../../tests/mockAnsibleApi';
+
+jest.mock('./JobEventsPanel', () => ({
+  JobEventsPanel: ({
+    jobId,
+    instance,
+  }: {
+    jobId: number;
+    instance?: string;
+  }) => (
+    <div data-testid="job-events-panel">
+      Job {jobId} events{instance && ` on ${instance}`}
+    </div>
+  ),
+}));
+
+describe('TaskJobEventsPanel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const render = (active = true) =>
+    renderInTestApp(
+      <TestApiProvider apis={[[ansibleApiRef, mockAnsibleApi]]}>
+        <TaskJobEventsPanel taskId="task-1" active={active} />
+      </TestApiProvider>,
+    );
+
+  it('should follow the job launched by the task', async () => {
+    mockAnsibleApi.getTaskJob.mockResolvedValue({
+      jobId: 42,
+      instance: 'nonprod',
+    });
+
+    await render();
+
+    expect(await screen.findByTestId('job-events-panel')).toHaveTextContent(
+      'Job 42 events on nonprod',
+    );
+    expect(mockAnsibleApi.getTaskJob).toHaveBeenCalledWith('task-1');
+  });
+
+  it('should render nothing while the task has not launched a job', async () => {
+    mockAnsibleApi.getTaskJob.mockResolvedValue(null);
+
+    await render();
+
+    await waitFor(() => expect(mockAnsibleApi.getTaskJob).toHaveBeenCalled());
+    expect(screen.queryByTestId('job-events-panel')).not.toBeInTheDocument();
+  });
+
+  it('should not poll when the task is not running', async () => {
+    await render(false);
+
+    expect(mockAnsibleApi.getTaskJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useApi } from '@backstage/core-plugin-api';
+import { AAPTaskJob, ansibleApiRef } from '../../apis';
+import { JobEventsPanel } from './JobEventsPanel';
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follows the job launched asynchronously by a running task. The job id is
+ * read from the backend as the task output is only available once it
+ * completes.
+ */
+export const TaskJobEventsPanel = (props: {
+  taskId: string;
+  active: boolean;
+}) => {
+  const { taskId, active } = props;
+  const ansibleApi = useApi(ansibleApiRef);
+  const [job, setJob] = useState<AAPTaskJob | null>(null);
+
+  useEffect(() => {
+    if (!active || job) {
+      return undefined;
+    }
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const result = await ansibleApi.getTaskJob(taskId);
+      if (cancelled) return;
+      if (result) {
+        setJob(result);
+      } else {
+        timeoutId = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+    };
+  }, [taskId, active, job, ansibleApi]);
+
+  if (!job) {
+    return null;
+  }
+  return (
+    <JobEventsPanel jobId={job.jobId} instance={job.instance ?? undefined} />
+  );
+};
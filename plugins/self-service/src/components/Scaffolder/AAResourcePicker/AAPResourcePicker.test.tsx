@@ -250,6 +250,93 @@ describe('AAPResourcePicker', () => {
     });
   });
 
+  describe('Dependent Resources', () => {
+    const hostsSchema = {
+      ...defaultProps.schema,
+      title: 'Hosts',
+      resource: 'hosts',
+      type: 'array',
+      idKey: 'name',
+      dependsOn: 'inventory',
+      inventoryId: 7,
+    };
+
+    it('should list resources of the inventory selected in the form', async () => {
+      renderComponent({
+        schema: hostsSchema,
+        formContext: { formData: { inventory: { id: 3, name: 'Servers' } } },
+      });
+
+      await waitFor(() => {
+        expect(mockScaffolderApi.autocomplete).toHaveBeenCalledWith({
+          token: 'test-token',
+          resource: 'hosts',
+          provider: 'aap-api-cloud',
+          context: { inventory: '3' },
+        });
+      });
+    });
+
+    it('should fall back to the inventory of the job template', async () => {
+      renderComponent({ schema: hostsSchema, formContext: { formData: {} } });
+
+      await waitFor(() => {
+        expect(mockScaffolderApi.autocomplete).toHaveBeenCalledWith(
+          expect.objectContaining({ context: { inventory: '7' } }),
+        );
+      });
+    });
+
+    it('should reload and clear the selection when the inventory changes', async () => {
+      const onChange = jest.fn();
+      const props = {
+        ...defaultProps,
+        schema: hostsSchema,
+        onChange,
+        formContext: { formData: { inventory: { id: 3 } } },
+      } as any;
+      const wrap = (componentProps: any) => (
+        <TestApiProvider
+          apis={[
+            [rhAapAuthApiRef, mockRhAapAuthApi],
+            [scaffolderApiRef, mockScaffolderApi],
+          ]}
+        >
+          <AAPResourcePicker {...componentProps} />
+        </TestApiProvider>
+      );
+      const { rerender } = render(wrap(props));
+      await waitFor(() => {
+        expect(mockScaffolderApi.autocomplete).toHaveBeenCalledTimes(1);
+      });
+
+      rerender(
+        wrap({ ...props, formContext: { formData: { inventory: { id: 4 } } } }),
+      );
+
+      await waitFor(() => {
+        expect(mockScaffolderApi.autocomplete).toHaveBeenLastCalledWith(
+          expect.objectContaining({ context: { inventory: '4' } }),
+        );
+      });
+      expect(onChange).toHaveBeenCalledWith(undefined);
+    });
+  });
+
+  describe('AAP instances', () => {
+    it('should list the resources of the AAP instance of the template', async () => {
+      renderComponent({
+        schema: { ...defaultProps.schema, instance: 'nonprod' },
+      });
+
+      await waitFor(() => {
+        expect(mockScaffolderApi.autocomplete).toHaveBeenCalledWith(
+          expect.objectContaining({ context: { instance: 'nonprod' } }),
+        );
+      });
+    });
+  });
+
   describe('Single Selection Mode', () => {
     it('should display selected value in single mode', async () => {
       const formData = mockResources[0];
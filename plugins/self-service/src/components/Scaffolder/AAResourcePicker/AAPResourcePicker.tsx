@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useApi } from '@backstage/core-plugin-api';
 import {
   scaffolderApiRef,
@@ -51,14 +51,34 @@ export const AAPResourcePicker = (props: ScaffolderRJSFFieldProps) => {
     help,
     required,
     disabled,
-    schema: { description, title, resource, type, idKey, nameKey },
+    schema: {
+      description,
+      title,
+      resource,
+      type,
+      idKey,
+      nameKey,
+      dependsOn,
+      inventoryId,
+      instance,
+    },
     formData,
+    formContext,
     onChange,
   } = props;
   const _idKey: string = idKey ?? 'id';
   const _nameKey: string = nameKey ?? 'name';
   const multiple = type === 'array';
 
+  // Resources such as hosts and groups are listed from the inventory selected
+  // in another field, falling back to the inventory of the job template.
+  const dependentValue = dependsOn
+    ? formContext?.formData?.[dependsOn]
+    : undefined;
+  const contextInventory =
+    (dependentValue instanceof Object ? dependentValue.id : dependentValue) ??
+    inventoryId;
+
   const getInitValue = () => {
     if (!formData) return multiple ? [] : '';
     if (typeof formData === 'string' || typeof formData === 'number') {
@@ -102,6 +122,16 @@ export const AAPResourcePicker = (props: ScaffolderRJSFFieldProps) => {
     return '';
   };
 
+  const previousInventory = useRef(contextInventory);
+  useEffect(() => {
+    if (previousInventory.current === contextInventory) return;
+    previousInventory.current = contextInventory;
+    // The selection belongs to the previous inventory.
+    setSelected(multiple ? [] : '');
+    onChange(undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contextInventory]);
+
   const updateAvailableResources = useCallback(() => {
     aapAuth.getAccessToken().then((token: string) => {
       if (scaffolderApi.autocomplete) {
@@ -111,7 +141,14 @@ export const AAPResourcePicker = (props: ScaffolderRJSFFieldProps) => {
             token: token,
             resource: resource,
             provider: 'aap-api-cloud',
-            context: {},
+            context: {
+              ...(contextInventory !== undefined &&
+                contextInventory !== '' && {
+                  inventory: String(contextInventory),
+                }),
+              // set on the templates of AAP instances other than the default
+              ...(instance && { instance }),
+            },
           })
           .then(({ results }) => {
             if (initialFormData) {
@@ -141,7 +178,7 @@ export const AAPResourcePicker = (props: ScaffolderRJSFFieldProps) => {
       }
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [aapAuth, resource, scaffolderApi]);
+  }, [aapAuth, resource, instance, scaffolderApi, contextInventory]);
   useEffect(updateAvailableResources, [updateAvailableResources]);
 
   function change(event: any) {
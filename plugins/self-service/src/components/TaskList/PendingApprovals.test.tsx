@@ -0,0 +1,115 @@
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { renderInTestApp, TestApiProvider } from '@backstage/test-utils';
+
+import { PendingApprovals } from './PendingApprovals';
+import { ansibleApiRef } from '../../apis';
+import { rootRouteRef } from '../../routes';
+import { mockAnsibleApi } from '../../tests/mockAnsibleApi';
+
+describe('PendingApprovals', () => {
+  const approval = {
+    id: 'approval-1',
+    taskId: 'task-1',
+    title: 'Launch Deploy',
+    approvers: 'group:default/release-managers',
+    requestedBy: 'user:default/alice',
+    templateRef: 'template:default/deploy',
+    status: 'pending' as const,
+    decidedBy: null,
+    comment: null,
+    createdAt: '2025-01-01T02:00:00Z',
+    decidedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const render = () =>
+    renderInTestApp(
+      <TestApiProvider apis={[[ansibleApiRef, mockAnsibleApi]]}>
+        <PendingApprovals />
+      </TestApiProvider>,
+      {
+        mountedRoutes: {
+          '/self-service': rootRouteRef,
+        },
+      },
+    );
+
+  it('should list the pending approvals', async () => {
+    mockAnsibleApi.getPendingApprovals.mockResolvedValue([approval]);
+
+    await render();
+
+    expect(await screen.findByText('Pending approvals')).toBeInTheDocument();
+    expect(screen.getByText('Launch Deploy')).toBeInTheDocument();
+    expect(screen.getByText('task-1')).toBeInTheDocument();
+    expect(screen.getByText('alice')).toBeInTheDocument();
+  });
+
+  it('should render nothing without pending approvals', async () => {
+    mockAnsibleApi.getPendingApprovals.mockResolvedValue([]);
+
+    await render();
+
+    await waitFor(() =>
+      expect(mockAnsibleApi.getPendingApprovals).toHaveBeenCalled(),
+    );
+    expect(screen.queryByTestId('pending-approvals')).not.toBeInTheDocument();
+  });
+
+  it('should approve a request with a comment', async () => {
+    mockAnsibleApi.getPendingApprovals
+      .mockResolvedValueOnce([approval])
+      .mockResolvedValueOnce([]);
+    mockAnsibleApi.decideApproval.mockResolvedValue({
+      ...approval,
+      status: 'approved',
+    });
+
+    await render();
+
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Approve Launch Deploy' }),
+    );
+    fireEvent.change(screen.getByLabelText('Comment'), {
+      target: { value: 'Go ahead' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+
+    await waitFor(() =>
+      expect(mockAnsibleApi.decideApproval).toHaveBeenCalledWith(
+        'approval-1',
+        'approve',
+        'Go ahead',
+      ),
+    );
+    await waitFor(() =>
+      expect(mockAnsibleApi.getPendingApprovals).toHaveBeenCalledTimes(2),
+    );
+  });
+
+  it('should show why a decision was rejected', async () => {
+    mockAnsibleApi.getPendingApprovals.mockResolvedValue([approval]);
+    mockAnsibleApi.decideApproval.mockRejectedValue(
+      new Error('You cannot approve your own request'),
+    );
+
+    await render();
+
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Deny Launch Deploy' }),
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Deny' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'You cannot approve your own request',
+    );
+    expect(mockAnsibleApi.decideApproval).toHaveBeenCalledWith(
+      'approval-1',
+      'deny',
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useApi, useRouteRef } from '@backstage/core-plugin-api';
+import { parseEntityRef } from '@backstage/catalog-model';
+import {
+  Box,
+  Button,
+  Card,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import { useNavigate } from 'react-router-dom';
+import { useAsyncRetry } from 'react-use';
+import { AAPApproval, ansibleApiRef } from '../../apis';
+import { rootRouteRef } from '../../routes';
+import { formatCustomDate } from '../CatalogItemDetails/JobHistoryCard';
+
+type Decision = {
+  approval: AAPApproval;
+  decision: 'approve' | 'deny';
+};
+
+const formatUser = (ref: string | null) =>
+  ref ? parseEntityRef(ref).name : '-';
+
+/**
+ * Lists the tasks waiting in rhaap:await-approval that the signed in user
+ * can approve or deny. Nothing is shown when there are none.
+ */
+export const PendingApprovals = () => {
+  const ansibleApi = useApi(ansibleApiRef);
+  const rootLink = useRouteRef(rootRouteRef);
+  const navigate = useNavigate();
+  const [selected, setSelected] = useState<Decision | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { value: approvals, retry } = useAsyncRetry(
+    async () => await ansibleApi.getPendingApprovals(),
+    [ansibleApi],
+  );
+
+  const closeDialog = () => {
+    setSelected(null);
+    setComment('');
+    setError(null);
+  };
+
+  const handleDecision = async () => {
+    if (!selected) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await ansibleApi.decideApproval(
+        selected.approval.id,
+        selected.decision,
+        comment.trim() || undefined,
+      );
+      closeDialog();
+      retry();
+    } catch (e: any) {
+      setError(e?.message ?? `Failed to ${selected.decision} request`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!approvals?.length) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="pending-approvals">
+      <Box border={1} padding="22px 24px" borderColor="grey.300">
+        <Typography style={{ fontSize: '24px', lineHeight: '24px' }}>
+          Pending approvals
+        </Typography>
+        <Box
+          component="hr"
+          sx={{
+            width: 'calc(100% + 48px)',
+            borderTop: '1px solid grey',
+            margin: '16px -24px',
+          }}
+        />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Request</TableCell>
+                <TableCell>Task ID</TableCell>
+                <TableCell>Requested by</TableCell>
+                <TableCell>Requested at</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {approvals.map(approval => (
+                <TableRow key={approval.id}>
+                  <TableCell>{approval.title}</TableCell>
+                  <TableCell>
+                    <Link
+                      component="button"
+                      variant="body2"
+                      onClick={() =>
+                        navigate(
+                          `${rootLink()}/create/tasks/${approval.taskId}`,
+                        )
+                      }
+                      style={{ textDecoration: 'none' }}
+                    >
+                      {approval.taskId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{formatUser(approval.requestedBy)}</TableCell>
+                  <TableCell>{formatCustomDate(approval.createdAt)}</TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      color="primary"
+                      aria-label={`Approve ${approval.title}`}
+                      onClick={() =>
+                        setSelected({ approval, decision: 'approve' })
+                      }
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="small"
+                      aria-label={`Deny ${approval.title}`}
+                      onClick={() =>
+                        setSelected({ approval, decision: 'deny' })
+                      }
+                    >
+                      Deny
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+      <Dialog
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="approval-dialog-title"
+        open={!!selected}
+        onClose={closeDialog}
+      >
+        <DialogTitle id="approval-dialog-title">
+          {selected?.decision === 'approve' ? 'Approve' : 'Deny'}{' '}
+          {selected?.approval.title}
+        </DialogTitle>
+        <DialogContent dividers>
+          <TextField
+            id="approval-comment"
+            label="Comment"
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            fullWidth
+            multiline
+            minRows={3}
+            margin="normal"
+          />
+          {error && (
+            <Typography color="error" role="alert">
+              {error}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            color="primary"
+            variant="contained"
+            disabled={saving}
+            onClick={handleDecision}
+          >
+            {selected?.decision === 'approve' ? 'Approve' : 'Deny'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -11,6 +11,10 @@ import { scaffolderApiRef } from '@backstage/plugin-scaffolder-react';
 import { mockScaffolderApi } from '../../tests/scaffolderApi_utils';
 import { rootRouteRef } from '../../routes';
 
+jest.mock('./PendingApprovals', () => ({
+  PendingApprovals: () => <div data-testid="pending-approvals" />,
+}));
+
 describe('My items', () => {
   const server = setupServer();
   // Enable sane handlers for network requests
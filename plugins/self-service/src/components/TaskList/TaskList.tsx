@@ -37,6 +37,7 @@ import AddCircleOutlineIcon from '@material-ui/icons/AddCircleOutline';
 import BlockIcon from '@material-ui/icons/Block';
 import { rootRouteRef } from '../../routes';
 import { useAsync } from 'react-use';
+import { PendingApprovals } from './PendingApprovals';
 
 const headerStyles = makeStyles(theme => ({
   header_title_color: {
@@ -267,6 +268,9 @@ export const TaskList = () => {
       />
       <Content>
         <Grid container spacing={2}>
+          <Grid item xs={12} sm={12}>
+            <PendingApprovals />
+          </Grid>
           <Grid item xs={12} sm={12}>
             {loading && <Typography variant="body1">Loading...</Typography>}
             {!loading && error && (
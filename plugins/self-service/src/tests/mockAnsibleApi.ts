@@ -5,6 +5,19 @@ export const mockAnsibleApi: jest.Mocked<AnsibleApi> = {
   syncTemplates: jest.fn(),
   syncOrgsUsersTeam: jest.fn(),
   getSyncStatus: jest.fn(),
+  getSyncHistory: jest.fn(),
+  getJobEvents: jest.fn(),
+  getJobTemplateJobs: jest.fn(),
+  cancelJob: jest.fn(),
+  relaunchJob: jest.fn(),
+  getJobTemplateSchedules: jest.fn(),
+  createSchedule: jest.fn(),
+  deleteSchedule: jest.fn(),
+  getPendingApprovals: jest.fn(),
+  decideApproval: jest.fn(),
+  getTaskConfirmation: jest.fn(),
+  getTaskJob: jest.fn(),
+  decideLaunch: jest.fn(),
 } as any;
 
 export const mockRhAapAuthApi: jest.Mocked<any> = {